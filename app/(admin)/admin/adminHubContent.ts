@@ -70,6 +70,13 @@
  * Do NOT recompute any of these as 3 × 400 + 2 × gap = 1225.6px. That is the width at which three
  * SIDE-BY-SIDE 400px columns would first fit, and a flat three-column row is not the arrangement
  * the composer picks at any of the transitions above.
+ *
+ * Every figure in this docblock was measured over three panels, before the activity panel. With
+ * four, Users — the tallest block, and the first — closes its row alone across much of the desktop
+ * band: no arrangement of it, the other three stacked in one column and the tiles passes the
+ * pinned-row predicates. The collapse-state suites pin exactly where, as `LONE_PANEL_ROWS_TODAY`
+ * and `LONE_USERS_ROWS_TODAY`, rather than this docblock re-deriving it. Activity's own footprint
+ * is fixed (see {@link ACTIVITY_RESERVED_ROWS}), so those cases move only when this file does.
  */
 
 import {
@@ -99,7 +106,7 @@ import { ADMIN_TILES } from './adminTiles';
  * The Users row wraps — `.rowActions` dropping below `.rowMain`, whose `flex: 1 1 220px` basis is
  * what sets the threshold — at a panel width of **350px**, measured against the live Inter font by
  * sweeping the real geometry from 300 to 600px. 400 keeps 50px clear of that, and is shared by all
- * three panels so the row solves symmetrically. Since the height model assumes a row never wraps,
+ * four panels so the row solves symmetrically. Since the height model assumes a row never wraps,
  * this margin is now load-bearing for layout and not only for legibility.
  *
  * The packer treats this as a preference over ROW MEMBERSHIP, not a reservation of page
@@ -160,7 +167,7 @@ const TILE_MIN_WIDTH = 300;
  * which is the property {@link PANEL_MIN_WIDTH} exists to protect. No shape carries a residual;
  * the `heightAdjustment` escape hatch that covered the two un-migrated panels is gone with them.
  */
-const PANEL_SHAPE: Record<PanelType, { header: RowShape; row: RowShape }> = {
+const PANEL_SHAPE: Record<PanelType, { header: RowShape; toolbar?: RowShape; row: RowShape }> = {
   users: {
     header: { left: ['header'], right: ['button'] },
     row: { left: ['header', 'subheader'], right: ['button', 'button'] },
@@ -176,6 +183,14 @@ const PANEL_SHAPE: Record<PanelType, { header: RowShape; row: RowShape }> = {
     header: { left: ['header'], right: ['button'] },
     row: { left: ['header'], right: ['button'] },
   },
+  activity: {
+    header: { left: ['header'], right: ['button'] },
+    // The collection / actor / change-type filters: one line of `button`-height selects between
+    // the header and the list, reserved like a row because it renders inside the body like one.
+    toolbar: { left: ['button'] },
+    // What changed and where over the before → after diff; the relative <time> over Revert.
+    row: { left: ['header', 'subheader'], right: ['meta', 'button'] },
+  },
 };
 
 /**
@@ -200,6 +215,14 @@ export interface AdminPanelCounts {
   roles: number;
 }
 
+/**
+ * The rows Activity reserves, whatever the log holds. Its list is paged and filtered after the
+ * pack, so no count read before it describes what the panel will show; a fixed footprint means
+ * neither a filter nor "Load more" can ever re-pack the hub. Four is the newest few changes at a
+ * glance — the rest scroll inside `.body`, as any panel past its ceiling does.
+ */
+const ACTIVITY_RESERVED_ROWS = 4;
+
 /**
  * Fraction of the viewport a panel may occupy. Below 1 so the page keeps a strip to scroll by --
  * a panel filling the whole viewport reads as the page rather than as one block on it, and leaves
@@ -232,7 +255,9 @@ export function panelContentHeight(
   viewportHeight?: number
 ): number {
   const shape = PANEL_SHAPE[panelType];
-  const raw = panelChromeHeight(shape.header) + Math.max(0, rowCount) * rowHeight(shape.row);
+  const toolbar = shape.toolbar ? rowHeight(shape.toolbar) : 0;
+  const raw =
+    panelChromeHeight(shape.header) + toolbar + Math.max(0, rowCount) * rowHeight(shape.row);
   const viewportCeiling =
     viewportHeight && viewportHeight > 0
       ? Math.min(PANEL_HEIGHT_BOUNDS.max, viewportHeight * VIEWPORT_HEIGHT_FRACTION)
@@ -290,6 +315,7 @@ export function buildAdminHubContent(
   const usersHeight = panelContentHeight('users', counts.users, viewportHeight);
   const messagesHeight = panelContentHeight('messages', counts.messages, viewportHeight);
   const rolesHeight = panelContentHeight('roles', counts.roles, viewportHeight);
+  const activityHeight = panelContentHeight('activity', ACTIVITY_RESERVED_ROWS, viewportHeight);
 
   const usersPanel: ContentPanelModel = {
     contentType: 'PANEL',
@@ -336,7 +362,22 @@ export function buildAdminHubContent(
     visible: true,
   };
 
-  return [usersPanel, messagesPanel, rolesPanel, ...tileModels];
+  const activityPanel: ContentPanelModel = {
+    contentType: 'PANEL',
+    panelType: 'activity',
+    id: 1004,
+    rating: 5,
+    title: 'Activity',
+    width: 600,
+    height: 1100,
+    minWidth: PANEL_MIN_WIDTH,
+    maxWidth: PANEL_MAX_WIDTH,
+    ...pinnedHeight(activityHeight),
+    orderIndex: 103,
+    visible: true,
+  };
+
+  return [usersPanel, messagesPanel, rolesPanel, activityPanel, ...tileModels];
 }
 
 /**
@@ -2,6 +2,7 @@
 // /api/admin/** (see docs 009). Gating centralized in app/(admin)/layout.tsx via requireAdmin().
 import { PageShell } from '@/app/components/ui/PageShell/PageShell';
 import { getAdminHomeTiles } from '@/app/lib/api/adminHome';
+import { getChangeLog } from '@/app/lib/api/changeLog';
 import { getAdminMessages } from '@/app/lib/api/messages';
 import { listRoles } from '@/app/lib/api/roles';
 import { listUsers } from '@/app/lib/api/users';
@@ -14,7 +15,7 @@ import styles from './page.module.scss';
 export const dynamic = 'force-dynamic';
 
 /**
- * Admin hub: the users/messages panels and the nav tiles, laid out by the shared content pipeline.
+ * Admin hub: the users/messages/roles/activity panels and the nav tiles, laid out by the shared content pipeline.
  *
  * `mobileChunkSize={1}` pins the hub to a single column on touch viewports. Without it the hub
  * inherits `LAYOUT.mobileSlotWidth`, a row budget calibrated for PHOTOS, and the packer fits
@@ -31,29 +32,30 @@ export const dynamic = 'force-dynamic';
  * `chrome + rowCount × rowHeight` of layout height and the packer needs that before it can place
  * anything. Fetching them server-side is what makes the first pack the only pack: a count supplied
  * after paint would rewrite the panels' footprints, re-pack the page, change row membership and so
- * remount all three panels — the loop that ended in `ERR_INSUFFICIENT_RESOURCES` on 2026-08-10.
+ * remount every panel — the loop that ended in `ERR_INSUFFICIENT_RESOURCES` on 2026-08-10.
  * Here there is no second pack to converge, rather than a second pack argued to be harmless.
  *
  * Messages exposes a real count (`total`), so it is fetched one row deep. Users and roles have no
- * count endpoint and return their full lists; both are small admin collections and all four
- * requests share one wall-clock round-trip. Each falls back independently, matching the tiles'
- * existing posture — a backend blip degrades a panel to its minimum reserved height instead of
- * failing the hub.
+ * count endpoint and return their full lists; both are small admin collections. Activity needs no
+ * count: it reserves a fixed footprint (see `adminHubContent`). All five requests share one
+ * wall-clock round-trip. Each falls back independently, matching the tiles' existing posture — a
+ * backend blip degrades a panel to its minimum reserved height instead of failing the hub.
  *
- * Those two full lists are then handed to the panels as `seed`, so a list the server already holds
- * is painted rather than re-requested — the single-fetch rule, which keeping only `.length` broke.
+ * Those full lists, and the activity page, are then handed to the panels as `seed`, so a list the
+ * server already holds is painted rather than re-requested — the single-fetch rule, which keeping only `.length` broke.
  * `listUsers()` takes no options, which is exactly the `users:base` variant the panel opens on; its
  * "show tag-only people" variant is a different fetch and is left to load on demand. A failed
  * server fetch seeds `null`, not `[]`, so the panel loads for itself instead of announcing an empty
  * account list, and the count falls back to the layout floor as before.
  */
 export default async function AdminHubPage() {
-  const [tiles, ssrViewport, users, messages, roles] = await Promise.all([
+  const [tiles, ssrViewport, users, messages, roles, activity] = await Promise.all([
     getAdminHomeTiles().catch(() => []),
     resolveSsrViewport(),
     listUsers().catch(() => null),
     getAdminMessages(1, 0).catch(() => null),
     listRoles().catch(() => null),
+    getChangeLog().catch(() => null),
   ]);
 
   // The viewport height comes from the same `Promise.all` as the counts, so the panel-height cap
@@ -77,7 +79,7 @@ export default async function AdminHubPage() {
       <AdminHubClient
         content={content}
         mobileChunkSize={1}
-        seed={{ users, roles }}
+        seed={{ users, roles, activity }}
         serverContentWidth={ssrViewport?.contentWidth}
         serverViewportHeight={ssrViewport?.viewportHeight}
         serverIsMobile={ssrViewport?.isMobile}
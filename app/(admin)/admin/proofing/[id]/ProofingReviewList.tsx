@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import { reopenProofing } from '@/app/lib/api/selects';
+import { type ProofingClientPicks, type ProofingReview } from '@/app/types/Selects';
+import { formatLongDate } from '@/app/utils/formatDateRange';
+import { logger } from '@/app/utils/logger';
+import { lightroomFilter, pickListCsv, pickListFileName } from '@/app/utils/pickList';
+
+import styles from './page.module.scss';
+
+interface ProofingReviewListProps {
+  review: ProofingReview;
+}
+
+/** Hand the browser a generated file. There is no URL to link to — the CSV exists only here. */
+function downloadText(fileName: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+interface ClientPicksItemProps {
+  review: ProofingReview;
+  client: ProofingClientPicks;
+  onReopened: (userId: number) => void;
+}
+
+function ClientPicksItem({ review, client, onReopened }: ClientPicksItemProps) {
+  const [copied, setCopied] = useState(false);
+  const [reopening, setReopening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const name = client.displayName ?? client.email ?? `Client ${client.userId}`;
+  const filter = lightroomFilter(client.images);
+  const count =
+    review.proofingTarget === null
+      ? `${client.images.length} picked`
+      : `${client.images.length} of ${review.proofingTarget} picked`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(filter);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard permission can be refused; the list is on screen and selectable regardless.
+      setError('Could not copy automatically — select the file names above and copy them.');
+    }
+  };
+
+  const handleReopen = async () => {
+    setReopening(true);
+    setError(null);
+    try {
+      await reopenProofing(review.collectionId, client.userId);
+      onReopened(client.userId);
+    } catch (error_) {
+      logger.error('ProofingReviewList', `Failed to reopen proofing for ${client.userId}`, error_);
+      setError('Could not reopen these picks. Please try again.');
+    } finally {
+      setReopening(false);
+    }
+  };
+
+  return (
+    <li className={styles.row}>
+      <div className={styles.meta}>
+        <span className={styles.clientName}>{name}</span>
+        <span className={styles.status}>
+          {client.submittedAt
+            ? `Submitted ${formatLongDate(client.submittedAt)}`
+            : 'Still choosing'}
+        </span>
+      </div>
+      <p className={styles.count}>{count}</p>
+      {client.images.length > 0 && (
+        <>
+          <label className={styles.filterLabel} htmlFor={`picks-filter-${client.userId}`}>
+            Lightroom filename filter
+          </label>
+          <textarea
+            id={`picks-filter-${client.userId}`}
+            className={styles.filter}
+            value={filter}
+            readOnly
+            rows={2}
+          />
+          <div className={styles.actions}>
+            <Button
+              size="sm"
+              onClick={() =>
+                downloadText(
+                  pickListFileName(review, client),
+                  pickListCsv(client),
+                  'text/csv;charset=utf-8'
+                )
+              }
+            >
+              Download CSV
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => void handleCopy()}>
+              {copied ? 'Copied' : 'Copy file names'}
+            </Button>
+            {client.submittedAt && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => void handleReopen()}
+                loading={reopening}
+                aria-label={`Reopen picks for ${name}`}
+              >
+                Reopen
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * One row per client: where they are, their picks as a Lightroom filter, and the exports.
+ *
+ * Reopen clears the submission on the backend and, here, only the `submittedAt` of that one row —
+ * the picks themselves are untouched, so the client starts again from what they had.
+ */
+export function ProofingReviewList({ review }: ProofingReviewListProps) {
+  const [clients, setClients] = useState(review.clients);
+
+  const handleReopened = (userId: number) =>
+    setClients(prev =>
+      prev.map(client => (client.userId === userId ? { ...client, submittedAt: null } : client))
+    );
+
+  if (clients.length === 0) {
+    return <EmptyState align="page">No clients on this collection yet.</EmptyState>;
+  }
+
+  return (
+    <ul className={styles.list}>
+      {clients.map(client => (
+        <ClientPicksItem
+          key={client.userId}
+          review={review}
+          client={client}
+          onReopened={handleReopened}
+        />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,62 @@
+// Admin = authenticated admin principal: the backend enforces hasRole('ADMIN') on
+// /api/admin/** (see docs 009). Gating centralized in app/(admin)/layout.tsx via requireAdmin().
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+import { PageShell } from '@/app/components/ui/PageShell/PageShell';
+import { ApiError } from '@/app/lib/api/core';
+import { getProofingReview } from '@/app/lib/api/selects';
+import { type ProofingReview } from '@/app/types/Selects';
+import { manageHref } from '@/app/utils/manageUrl';
+
+import styles from './page.module.scss';
+import { ProofingReviewList } from './ProofingReviewList';
+
+export const dynamic = 'force-dynamic';
+
+interface ProofingReviewPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Admin review of a client gallery's proofing: every client's picks, with a CSV and a Lightroom
+ * filename list per client, and a reopen for picks that need changing after submission.
+ *
+ * Reached from the Proofing section of the collection's edit sheet and from the inbox message the
+ * backend posts when a client submits. Same 404 narrowing as the user detail page: only a genuine
+ * 404 or an empty body is `notFound()`; any other failure reaches `app/(admin)/error.tsx`, since
+ * "no such collection" would be a false claim about a backend that is merely unreachable.
+ */
+export default async function ProofingReviewPage({ params }: ProofingReviewPageProps) {
+  const { id } = await params;
+  const collectionId = Number(id);
+  if (!Number.isInteger(collectionId)) notFound();
+
+  let review: ProofingReview | null;
+  try {
+    review = await getProofingReview(collectionId);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) notFound();
+    throw error;
+  }
+  if (!review) notFound();
+
+  return (
+    <PageShell>
+      <div className={styles.header}>
+        <Link href={manageHref(review.slug)} className={styles.back}>
+          ← {review.title}
+        </Link>
+        <h1 className={styles.pageTitle}>Proofing</h1>
+        <span className={styles.target}>
+          {review.proofingTarget === null
+            ? 'Proofing is off for this collection.'
+            : `Target: ${review.proofingTarget} picks`}
+        </span>
+      </div>
+      <div className={styles.contentArea}>
+        <ProofingReviewList review={review} />
+      </div>
+    </PageShell>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import { resolveImageCommentThread } from '@/app/lib/api/imageComments';
+import { type ImageCommentInboxGroup, type ImageCommentThread } from '@/app/types/ImageComments';
+import { formatLongDate } from '@/app/utils/formatDateRange';
+import { logger } from '@/app/utils/logger';
+
+import styles from './Comments.module.scss';
+
+interface Props {
+  initialGroups: ImageCommentInboxGroup[];
+}
+
+/** Drop a resolved thread, then any image and collection it leaves empty. */
+function withoutThread(groups: ImageCommentInboxGroup[], threadId: number) {
+  return groups
+    .map(group => ({
+      ...group,
+      images: group.images
+        .map(image => ({ ...image, threads: image.threads.filter(t => t.id !== threadId) }))
+        .filter(image => image.threads.length > 0),
+    }))
+    .filter(group => group.images.length > 0);
+}
+
+interface ThreadItemProps {
+  thread: ImageCommentThread;
+  onResolved: (threadId: number) => void;
+}
+
+function ThreadItem({ thread, onResolved }: ThreadItemProps) {
+  const [resolving, setResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latest = thread.comments.at(-1);
+
+  const handleResolve = async () => {
+    setResolving(true);
+    setError(null);
+    try {
+      await resolveImageCommentThread(thread.id);
+      onResolved(thread.id);
+    } catch (error_) {
+      logger.error('ImageCommentInbox', `Failed to resolve thread ${thread.id}`, error_);
+      setError('Could not resolve this thread. Please try again.');
+      setResolving(false);
+    }
+  };
+
+  return (
+    <li className={styles.thread}>
+      {latest && (
+        <>
+          <div className={styles.meta}>
+            <span>
+              {latest.authorIsAdmin ? 'You' : (latest.authorName ?? 'Client')}
+              {thread.comments.length > 1 && ` · ${thread.comments.length} comments`}
+              {thread.pin && ' · pinned'}
+            </span>
+            <span className={styles.time}>{formatLongDate(latest.createdAt)}</span>
+          </div>
+          <p className={styles.body}>{latest.body}</p>
+        </>
+      )}
+      <div className={styles.actions}>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => void handleResolve()}
+          loading={resolving}
+        >
+          Resolve
+        </Button>
+      </div>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Unresolved image comments across every client gallery, grouped by collection then image.
+ *
+ * Each image links to its collection with `?image=` set, which opens it straight in the fullscreen
+ * viewer where the whole thread, its pin and the reply box live. Each thread here shows only its
+ * latest comment — enough to triage — and resolving drops it from the list.
+ */
+export function ImageCommentInbox({ initialGroups }: Props) {
+  const [groups, setGroups] = useState(initialGroups);
+
+  if (groups.length === 0) {
+    return <EmptyState>No open image comments.</EmptyState>;
+  }
+
+  return (
+    <ul className={styles.list}>
+      {groups.map(group => (
+        <li key={group.collectionId} className={styles.row}>
+          <h3 className={styles.groupTitle}>
+            <Link href={`/${group.slug}`}>{group.title}</Link>
+          </h3>
+          <ul className={styles.imageList}>
+            {group.images.map(image => (
+              <li key={image.contentId} className={styles.imageRow}>
+                <Link
+                  href={`/${group.slug}?image=${image.contentId}`}
+                  className={styles.imageLink}
+                  aria-label={`Open ${image.title ?? `image ${image.contentId}`} in ${group.title}`}
+                >
+                  <Image src={image.imageUrl} alt="" width={96} height={64} />
+                </Link>
+                <ul className={styles.threadList}>
+                  {image.threads.map(thread => (
+                    <ThreadItem
+                      key={thread.id}
+                      thread={thread}
+                      onResolved={threadId => setGroups(prev => withoutThread(prev, threadId))}
+                    />
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,15 +1,24 @@
 // Admin = authenticated admin principal: the backend enforces hasRole('ADMIN') on
 // /api/admin/** (see docs 009). Gating centralized in app/(admin)/layout.tsx via requireAdmin().
 import { PageShell } from '@/app/components/ui/PageShell/PageShell';
+import { getImageCommentInbox } from '@/app/lib/api/imageComments';
 import { getAdminMessages } from '@/app/lib/api/messages';
 
 import styles from './Comments.module.scss';
 import { CommentsList } from './CommentsList';
+import { ImageCommentInbox } from './ImageCommentInbox';
 
 export const dynamic = 'force-dynamic';
 
+/**
+ * The admin inbox: open comments clients left on images in their galleries, then the contact-form
+ * messages. Image comments come first — they are usually waiting on a retouch or a reply.
+ */
 export default async function CommentsPage() {
-  const data = await getAdminMessages(50, 0);
+  const [data, imageComments] = await Promise.all([
+    getAdminMessages(50, 0),
+    getImageCommentInbox(),
+  ]);
   const messages = data?.messages ?? [];
   const total = data?.total ?? 0;
 
@@ -20,7 +29,18 @@ export default async function CommentsPage() {
         <span className={styles.total}>{total} total</span>
       </div>
       <div className={styles.contentArea}>
-        <CommentsList initialMessages={messages} initialTotal={total} />
+        <section className={styles.section} aria-labelledby="image-comments-heading">
+          <h2 id="image-comments-heading" className={styles.sectionTitle}>
+            Image comments
+          </h2>
+          <ImageCommentInbox initialGroups={imageComments ?? []} />
+        </section>
+        <section className={styles.section} aria-labelledby="messages-heading">
+          <h2 id="messages-heading" className={styles.sectionTitle}>
+            Messages
+          </h2>
+          <CommentsList initialMessages={messages} initialTotal={total} />
+        </section>
       </div>
     </PageShell>
   );
@@ -5,8 +5,9 @@ import { requireAdmin } from '@/app/utils/admin';
 import { AdminScrollManager } from './AdminScrollManager';
 
 /**
- * Root layout for every (admin) route. Gates access via {@link requireAdmin}, and otherwise gets
- * out of the way.
+ * Root layout for every (admin) route. Gates access via {@link requireAdmin} — an admin account
+ * and, in production, a session that has passed its second factor — and otherwise gets out of the
+ * way.
  *
  * It used to wrap the subtree in `data-surface="dark"` plus a painted `.surface` box, which gave
  * the admin area a bespoke charcoal visual language the public site never had. That is gone: admin
@@ -23,7 +24,7 @@ import { AdminScrollManager } from './AdminScrollManager';
  * carry `min-height: 100dvh`, and the removed box only existed to paint behind them.
  */
 export default async function AdminLayout({ children }: { children: ReactNode }) {
-  await requireAdmin(); // redirects non-admins (and anon) to /login
+  await requireAdmin(); // redirects non-admins (and anon) to /login, unverified admins to /login/mfa
   return (
     <>
       <AdminScrollManager />
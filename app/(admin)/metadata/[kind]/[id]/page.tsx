@@ -0,0 +1,53 @@
+// Admin = authenticated admin principal: the backend enforces hasRole('ADMIN') on
+// /api/admin/** (see docs 009). Gating centralized in app/(admin)/layout.tsx via requireAdmin().
+import { notFound } from 'next/navigation';
+
+import { TaxonomyEntityConsole } from '@/app/components/TaxonomyConsole/TaxonomyEntityConsole';
+import { entitiesOfKind, isTaxonomyKind } from '@/app/components/TaxonomyConsole/taxonomyKinds';
+import { PageShell } from '@/app/components/ui/PageShell/PageShell';
+import { getMetadata } from '@/app/lib/api/collections';
+import { ApiError } from '@/app/lib/api/core';
+import { getTaxonomyEntity } from '@/app/lib/api/taxonomy';
+import { type TaxonomyEntityDetail } from '@/app/types/Taxonomy';
+
+export const dynamic = 'force-dynamic';
+
+interface TaxonomyEntityPageProps {
+  params: Promise<{ kind: string; id: string }>;
+}
+
+/**
+ * Console for one tag, person, location, camera, lens or film stock, linked from its row on
+ * `/metadata`. An unknown kind or a non-numeric id is a 404 before any fetch.
+ *
+ * Same 404 narrowing as the user detail page: only a genuine 404 or an empty body is `notFound()`;
+ * any other failure reaches `app/(admin)/error.tsx`. The bulk metadata read only feeds the merge
+ * picker, so it fails soft — the console still renders, with Merge disabled for want of
+ * candidates.
+ */
+export default async function TaxonomyEntityPage({ params }: TaxonomyEntityPageProps) {
+  const { kind, id } = await params;
+  const entityId = Number(id);
+  if (!isTaxonomyKind(kind) || !Number.isInteger(entityId)) notFound();
+
+  let entity: TaxonomyEntityDetail | null;
+  const metadataRequest = getMetadata().catch(() => null);
+  try {
+    entity = await getTaxonomyEntity(kind, entityId);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) notFound();
+    throw error;
+  }
+  if (!entity) notFound();
+
+  const metadata = await metadataRequest;
+  const candidates = metadata
+    ? entitiesOfKind(metadata, kind).filter(candidate => candidate.id !== entityId)
+    : [];
+
+  return (
+    <PageShell>
+      <TaxonomyEntityConsole kind={kind} entity={entity} candidates={candidates} />
+    </PageShell>
+  );
+}
@@ -23,7 +23,5 @@ export default async function MetadataPage() {
     return <p>Failed to load metadata.</p>;
   }
 
-  const { tags, people, locations } = metadata;
-
-  return <MetadataPageClient tags={tags} people={people} locations={locations} />;
+  return <MetadataPageClient metadata={metadata} />;
 }
@@ -3,8 +3,10 @@ import { notFound } from 'next/navigation';
 
 import { getCollectionBySlug } from '@/app/lib/api/collections';
 import CollectionPageWrapper from '@/app/lib/components/CollectionPageWrapper';
-import { requireAdmin } from '@/app/utils/admin';
+import { requireAdmin, resolveEditScope } from '@/app/utils/admin';
+import { type EditScope } from '@/app/utils/galleryAccess';
 import { logger } from '@/app/utils/logger';
+import { isIndexableCollection } from '@/app/utils/structuredData';
 
 interface CollectionPageProps {
   params: Promise<{
@@ -12,6 +14,7 @@ interface CollectionPageProps {
   }>;
   searchParams: Promise<{
     manage?: string;
+    image?: string;
   }>;
 }
 
@@ -22,6 +25,8 @@ interface CollectionPageProps {
 // the broken fallback and matches what local dev already does.
 export const dynamic = 'force-dynamic';
 
+// Root files a crawler or browser probes for. robots.txt and sitemap.xml are served by
+// app/robots.ts and app/sitemap.ts, which win over this segment; the guard stays for the rest.
 const STATIC_FILES = ['favicon.ico', 'robots.txt', 'sitemap.xml', 'manifest.json'];
 
 export async function generateMetadata({ params }: CollectionPageProps): Promise<Metadata> {
@@ -54,6 +59,8 @@ export async function generateMetadata({ params }: CollectionPageProps): Promise
     return {
       title: isProtected ? `${title} — Private Gallery` : title,
       description: safeDescription,
+      // Same rule as the sitemap: unlisted, hidden and protected collections stay out of search.
+      ...(isIndexableCollection(collection) ? {} : { robots: { index: false } }),
       openGraph: {
         title,
         description: safeDescription,
@@ -82,6 +89,8 @@ export async function generateMetadata({ params }: CollectionPageProps): Promise
  * `?manage=1` enters the in-place edit surface. Authorization is enforced by
  * {@link requireAdmin} below (redirects anonymous/non-admin viewers to /login) — a
  * real `isAdmin` principal, not an environment check, is what gates this in prod.
+ * The one exception is a COLLABORATOR member of this collection, whom
+ * {@link resolveEditScope} hands the curation-only collaborator layer instead.
  */
 export default async function CollectionPage({ params, searchParams }: CollectionPageProps) {
   const { slug } = await params;
@@ -97,9 +106,22 @@ export default async function CollectionPage({ params, searchParams }: Collectio
   const resolvedSearchParams = await searchParams;
   const editMode = resolvedSearchParams?.manage === '1';
 
+  let editScope: EditScope = 'admin';
   if (editMode) {
-    await requireAdmin();
+    editScope = await resolveEditScope(slug);
+    if (editScope === 'admin') {
+      await requireAdmin();
+    }
   }
 
-  return <CollectionPageWrapper slug={slug} editMode={editMode} />;
+  const imageId = Number(resolvedSearchParams?.image);
+
+  return (
+    <CollectionPageWrapper
+      slug={slug}
+      editMode={editMode}
+      editScope={editScope}
+      imageId={Number.isInteger(imageId) ? imageId : undefined}
+    />
+  );
 }
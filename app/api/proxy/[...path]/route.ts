@@ -70,6 +70,10 @@ function forwardHeaders(req: NextRequest): Headers {
   return headers;
 }
 
+/** The one route that accepts raw bytes: a chunk of a chunked upload. */
+const UPLOAD_CHUNK_PATH = /^api\/admin\/content\/uploads\/[^/]+\/chunks\/\d+$/;
+const UPLOAD_CHUNK_MAX_BYTES = 8 * 1024 * 1024;
+
 /** Universal proxy handler — forwards all HTTP methods to the backend with CORS and size guards. */
 async function handle(req: NextRequest, context: { params: Promise<{ path: string[] }> }) {
   const params = await context.params;
@@ -105,11 +109,21 @@ async function handle(req: NextRequest, context: { params: Promise<{ path: strin
 
   const writeMethods = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
 
-  // 16 KB for JSON writes; 25 MB for multipart uploads. Content-Length is a fast
-  // reject only — we re-check against the actual buffered size below.
+  // 16 KB for JSON writes; 25 MB for multipart uploads; 8 MB for one chunk of a chunked upload
+  // (`app/lib/api/uploads.ts`), which is how originals of any size get through without raising
+  // the multipart cap. Content-Length is a fast reject only — we re-check against the actual
+  // buffered size below.
   const contentType = req.headers.get('content-type') ?? '';
   const isMultipart = contentType.startsWith('multipart/form-data');
-  const maxBytes = isMultipart ? 25 * 1024 * 1024 : 16 * 1024;
+  const isUploadChunk =
+    method === 'PUT' &&
+    contentType === 'application/octet-stream' &&
+    UPLOAD_CHUNK_PATH.test(resolvedPath);
+  const maxBytes = isMultipart
+    ? 25 * 1024 * 1024
+    : isUploadChunk
+      ? UPLOAD_CHUNK_MAX_BYTES
+      : 16 * 1024;
 
   if (writeMethods.has(method)) {
     const origin = req.headers.get('origin');
@@ -1,54 +1,86 @@
 import { revalidatePath, revalidateTag } from 'next/cache';
 import { type NextRequest, NextResponse } from 'next/server';
 
+import { parseRevalidationEvent, targetsForEvent } from '@/app/lib/revalidation/events';
+import {
+  claimEventId,
+  recordWebhookDelivery,
+  releaseEventId,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+  type WebhookRejection,
+} from '@/app/lib/revalidation/webhook';
+
+/** Bodies are a single small event; anything larger is not from the backend. */
+const MAX_BODY_BYTES = 16 * 1024;
+
+const REJECTION_STATUS: Record<WebhookRejection, number> = {
+  'not-configured': 503,
+  'missing-signature': 401,
+  'stale-timestamp': 401,
+  'bad-signature': 401,
+  replayed: 409,
+  'invalid-event': 400,
+};
+
+function reject(reason: WebhookRejection, eventId?: string) {
+  recordWebhookDelivery({ outcome: 'rejected', reason, eventId });
+  return NextResponse.json({ error: reason }, { status: REJECTION_STATUS[reason] });
+}
+
 /**
- * Revalidate Collection Cache
+ * Revalidation Webhook
  *
- * Route handler to revalidate Next.js cache tags and paths for collections.
- * Called after image updates to ensure collection pages show fresh data.
+ * Backend-driven cache invalidation. The backend POSTs one typed event (see
+ * `app/lib/revalidation/events.ts`) whenever data changes, signed as described in
+ * `app/lib/revalidation/webhook.ts`; the event decides which Next cache tags and paths go stale.
+ * Unsigned, stale, replayed and malformed deliveries are refused. The manage page does not call
+ * this — it revalidates through `revalidateCacheAction`.
  *
  * POST /api/revalidate
- * Body: { tag?: string, path?: string } - Cache tag and/or path to revalidate
+ * Headers: X-Ezac-Signature, X-Ezac-Timestamp
+ * Body: { id: string, type: RevalidationEventType, data: {...} }
  */
 export async function POST(req: NextRequest) {
+  const body = await req.text();
+  if (Buffer.byteLength(body) > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const rejection = verifyWebhookSignature({
+    secret: process.env.REVALIDATE_WEBHOOK_SECRET,
+    signature: req.headers.get(SIGNATURE_HEADER),
+    timestamp: req.headers.get(TIMESTAMP_HEADER),
+    body,
+    now,
+  });
+  if (rejection) return reject(rejection);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return reject('invalid-event');
+  }
+  const event = parseRevalidationEvent(parsed);
+  if (!event) return reject('invalid-event');
+  if (!claimEventId(event.id, now)) return reject('replayed', event.id);
+
+  const { tags, paths } = targetsForEvent(event);
   try {
-    const body = await req.json();
-    const { tag, tags, path } = body;
-
-    if (!tag && !tags && !path) {
-      return NextResponse.json({ error: 'Either tag, tags, or path is required' }, { status: 400 });
-    }
-
-    // Revalidate single cache tag if provided
-    if (tag && typeof tag === 'string') {
-      revalidateTag(tag, 'max');
-    }
-
-    // Revalidate multiple cache tags if provided
-    if (Array.isArray(tags)) {
-      for (const t of tags) {
-        if (typeof t === 'string') {
-          revalidateTag(t, 'max');
-        }
-      }
-    }
-
-    // Revalidate path if provided
-    if (path && typeof path === 'string') {
-      revalidatePath(path);
-    }
-
-    return NextResponse.json({
-      revalidated: true,
-      tag: tag || undefined,
-      tags: tags || undefined,
-      path: path || undefined,
-    });
+    for (const tag of tags) revalidateTag(tag, 'max');
+    for (const path of paths) revalidatePath(path);
   } catch (error) {
+    releaseEventId(event.id);
     const message = error instanceof Error ? error.message : String(error);
     return NextResponse.json(
       { error: 'Failed to revalidate cache', detail: message },
       { status: 500 }
     );
   }
+
+  recordWebhookDelivery({ outcome: 'accepted', eventId: event.id, type: event.type, tags, paths });
+  return NextResponse.json({ revalidated: true, event: event.id, tags, paths });
 }
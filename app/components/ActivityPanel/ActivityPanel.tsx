@@ -0,0 +1,371 @@
+'use client';
+
+import { type ReactNode, useRef, useState } from 'react';
+
+import { useAdminPanelSeed } from '@/app/components/AdminPanel/AdminPanelSeedContext';
+import { revalidateCollectionCache } from '@/app/components/ContentCollection/edit/collectionEditUtils';
+import { ListPanel, ListRow, ListRows } from '@/app/components/ListPanel/ListPanel';
+import { Button } from '@/app/components/ui/Button/Button';
+import { Select } from '@/app/components/ui/Field/Select';
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
+import { StaleNotice } from '@/app/components/ui/StatusText/StaleNotice';
+import { useCachedPanelData } from '@/app/hooks/useCachedPanelData';
+import { getChangeLog, markChangeLogSeen, revertChange } from '@/app/lib/api/changeLog';
+import { ApiError } from '@/app/lib/api/core';
+import {
+  type ChangeLogEntry,
+  type ChangeLogPage,
+  type ChangeLogQuery,
+  type ChangeType,
+} from '@/app/types/ChangeLog';
+import { logger } from '@/app/utils/logger';
+import { relative } from '@/app/utils/messageFormat';
+
+import styles from './ActivityPanel.module.scss';
+
+interface ActivityPanelProps {
+  collapsed?: boolean;
+  onCollapsedChange?: (collapsed: boolean) => void;
+}
+
+/** The three filters; `null` is "any". Sent to the backend as they are. */
+type ActivityFilters = Required<Pick<ChangeLogQuery, 'collectionId' | 'actor' | 'changeType'>>;
+
+const NO_FILTERS: ActivityFilters = { collectionId: null, actor: null, changeType: null };
+
+const EMPTY_PAGE: ChangeLogPage = { entries: [], total: 0, unseen: 0, collections: [], actors: [] };
+
+/** Which request is in flight: a new filter set replaces the list, Load more extends it. */
+type Querying = 'filter' | 'more' | null;
+
+const CHANGE_TYPE_LABELS: Record<ChangeType, string> = {
+  CREATE: 'Added',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  REORDER: 'Reordered',
+};
+
+/** "Updated caption · Wedding" — what changed, and where. */
+function summarize(entry: ChangeLogEntry): string {
+  const what = entry.field ?? (entry.target === 'COLLECTION' ? 'collection' : 'content');
+  return `${CHANGE_TYPE_LABELS[entry.changeType]} ${what} · ${entry.collectionTitle ?? 'Library'}`;
+}
+
+/**
+ * Admin hub panel for the canonical-change log: every content and collection mutation, newest
+ * first, with who made it, the before → after of the changed field and when. Sits on `/admin`
+ * beside {@link UserManagementPanel}, {@link MessagesPanel} and {@link RolesPanel}, and follows
+ * them: cached through `useCachedPanelData`, seeded from the page's own fetch, a failed load that
+ * says so instead of claiming an empty log, and a {@link StaleNotice} over a cached page the
+ * backend could not confirm.
+ *
+ * User edits change canonical values for everyone, so this is where an admin accepts or undoes
+ * them. Accepting is doing nothing; undoing is one click on Revert, which has the backend write the
+ * before-value back and log the revert as a change of its own. The row stays, marked reverted,
+ * and the list reconciles underneath to pick up the new row. A row whose field has changed again
+ * since is not revertible — reverting it would clobber the newer value — and the backend says so.
+ *
+ * Read state is per admin and kept by the backend. The header carries the unread count even while
+ * the panel is collapsed, which is the point of a badge; Mark read clears it through the newest
+ * row, optimistically, and puts it back if the backend refuses.
+ *
+ * The filters are the backend's: each change re-queries `GET /change-log` across the whole log,
+ * and Load more pages on with `offset`, so no change is out of reach for being old. Only the
+ * unfiltered first page goes through the panel cache — one cache key keeps the cache's key set
+ * closed (see `PanelCacheSchema`); a filtered or extended list is the admin's current query, held
+ * in state. The filter options come from the page's `collections` and `actors`, which the backend
+ * draws from the whole log rather than from the rows on screen.
+ *
+ * Sits below the packed hub rather than in it — see `adminHubContent` for why.
+ */
+export function ActivityPanel({ collapsed, onCollapsedChange }: ActivityPanelProps) {
+  const seed = useAdminPanelSeed();
+  const { data, loading, loadError, revalidationFailed, refresh, setData } = useCachedPanelData(
+    'activity',
+    getChangeLog,
+    'Could not load activity. Retry, or check that the backend is running.',
+    seed.activity
+  );
+  const page = data ?? EMPTY_PAGE;
+  const [filters, setFilters] = useState<ActivityFilters>(NO_FILTERS);
+  /** First page for `filters` while any is set; the unfiltered one is the cached `page`. */
+  const [filtered, setFiltered] = useState<ChangeLogPage | null>(null);
+  /** Rows Load more fetched, after whichever first page is showing. */
+  const [older, setOlder] = useState<ChangeLogEntry[]>([]);
+  const [querying, setQuerying] = useState<Querying>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Bumped by every filter change, so a slower response for an older filter set is dropped.
+  const queryGeneration = useRef(0);
+
+  const filtering =
+    filters.collectionId !== null || filters.actor !== null || filters.changeType !== null;
+  const firstPage = filtering ? filtered : page;
+  const entries = [...(firstPage?.entries ?? []), ...older];
+  const total = firstPage?.total ?? 0;
+
+  const applyFilters = async (next: ActivityFilters) => {
+    const generation = ++queryGeneration.current;
+    setFilters(next);
+    setFiltered(null);
+    setOlder([]);
+    setQueryError(null);
+    if (next.collectionId === null && next.actor === null && next.changeType === null) {
+      setQuerying(null);
+      return;
+    }
+    setQuerying('filter');
+    try {
+      const result = await getChangeLog(next);
+      if (generation === queryGeneration.current) setFiltered(result);
+    } catch (error) {
+      logger.error('ActivityPanel', 'Failed to filter activity', error);
+      if (generation === queryGeneration.current) setQueryError('Could not load matching changes.');
+    } finally {
+      if (generation === queryGeneration.current) setQuerying(null);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    const generation = queryGeneration.current;
+    const known = new Set(entries.map(entry => entry.id));
+    setQuerying('more');
+    setQueryError(null);
+    try {
+      const next = await getChangeLog({ ...filters, offset: entries.length });
+      if (generation !== queryGeneration.current) return;
+      // Offsets shift as new changes land on top; drop rows the list already holds.
+      setOlder(prev => [...prev, ...next.entries.filter(entry => !known.has(entry.id))]);
+    } catch (error) {
+      logger.error('ActivityPanel', 'Failed to load older activity', error);
+      if (generation === queryGeneration.current) setQueryError('Could not load older changes.');
+    } finally {
+      if (generation === queryGeneration.current) setQuerying(null);
+    }
+  };
+
+  /** Apply one row update wherever the row is held: the cached page, the filtered page, Load more. */
+  const updateEntries = (update: (entry: ChangeLogEntry) => ChangeLogEntry) => {
+    const onPage = (current: ChangeLogPage | null) =>
+      current ? { ...current, entries: current.entries.map(update) } : current;
+    setData(onPage);
+    setFiltered(onPage);
+    setOlder(prev => prev.map(update));
+  };
+
+  const handleMarkRead = async () => {
+    const newest = page.entries[0];
+    if (!newest) return;
+    setActionError(null);
+    const previous = { data, filtered, older };
+    updateEntries(entry => (entry.seen ? entry : { ...entry, seen: true }));
+    setData(current => (current ? { ...current, unseen: 0 } : current));
+    try {
+      await markChangeLogSeen(newest.id);
+    } catch (error) {
+      logger.error('ActivityPanel', 'Failed to mark activity read', error);
+      setData(previous.data);
+      setFiltered(previous.filtered);
+      setOlder(previous.older);
+      setActionError('Failed to mark activity read.');
+    }
+  };
+
+  const handleRevert = async (entry: ChangeLogEntry) => {
+    setActionError(null);
+    setRevertingId(entry.id);
+    try {
+      const updated = await revertChange(entry.id);
+      updateEntries(row =>
+        row.id === entry.id ? (updated ?? { ...row, revertedAt: new Date().toISOString() }) : row
+      );
+      if (entry.collectionSlug) void revalidateCollectionCache(entry.collectionSlug);
+      void refresh({ reportErrors: true });
+    } catch (error) {
+      logger.error('ActivityPanel', 'Failed to revert change', error);
+      setActionError(
+        error instanceof ApiError && error.status === 409
+          ? 'That change can no longer be reverted — the same field has changed since.'
+          : 'Failed to revert the change.'
+      );
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const headerMiddle =
+    page.unseen > 0 ? <span className={styles.unread}>{page.unseen} new</span> : null;
+
+  const headerRight =
+    page.unseen > 0 ? (
+      <Button variant="secondary" size="sm" onClick={() => void handleMarkRead()}>
+        Mark read
+      </Button>
+    ) : null;
+
+  let body: ReactNode = null;
+  if (!loading) {
+    if (loadError) {
+      body = (
+        <div className={styles.loadError} role="alert">
+          <p className={styles.error}>{loadError}</p>
+          <Button variant="secondary" size="sm" onClick={() => void refresh()}>
+            Retry
+          </Button>
+        </div>
+      );
+    } else if (page.total === 0) {
+      body = <EmptyState>No changes yet.</EmptyState>;
+    } else {
+      body = (
+        <>
+          <div className={styles.filters} role="group" aria-label="Filter activity">
+            <Select
+              aria-label="Collection"
+              className={styles.filter}
+              value={filters.collectionId ?? ''}
+              onChange={e =>
+                void applyFilters({
+                  ...filters,
+                  collectionId: e.target.value === '' ? null : Number(e.target.value),
+                })
+              }
+            >
+              <option value="">All collections</option>
+              {page.collections.map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.title}
+                </option>
+              ))}
+            </Select>
+            <Select
+              aria-label="Changed by"
+              className={styles.filter}
+              value={filters.actor ?? ''}
+              onChange={e =>
+                void applyFilters({
+                  ...filters,
+                  actor: e.target.value === '' ? null : e.target.value,
+                })
+              }
+            >
+              <option value="">Anyone</option>
+              {page.actors.map(actor => (
+                <option key={actor} value={actor}>
+                  {actor}
+                </option>
+              ))}
+            </Select>
+            <Select
+              aria-label="Change type"
+              className={styles.filter}
+              value={filters.changeType ?? ''}
+              onChange={e =>
+                void applyFilters({
+                  ...filters,
+                  changeType: e.target.value === '' ? null : (e.target.value as ChangeType),
+                })
+              }
+            >
+              <option value="">Any change</option>
+              {(Object.keys(CHANGE_TYPE_LABELS) as ChangeType[]).map(type => (
+                <option key={type} value={type}>
+                  {CHANGE_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <LoadingText isLoading={querying === 'filter'}>Loading…</LoadingText>
+          {querying !== 'filter' && entries.length === 0 && !queryError && (
+            <EmptyState>No changes match these filters.</EmptyState>
+          )}
+          {entries.length > 0 && (
+            <ListRows>
+              {entries.map(entry => (
+                <ListRow
+                  key={entry.id}
+                  left={
+                    <div className={styles.change}>
+                      <span
+                        className={`${styles.summary} ${entry.seen ? '' : styles.unseen}`.trim()}
+                      >
+                        {summarize(entry)}
+                      </span>
+                      <span className={styles.diff}>
+                        {entry.before !== null && (
+                          <del className={styles.before}>{entry.before}</del>
+                        )}
+                        {entry.before !== null && entry.after !== null && ' → '}
+                        {entry.after !== null && <ins className={styles.after}>{entry.after}</ins>}
+                      </span>
+                    </div>
+                  }
+                  right={
+                    <div className={styles.actions}>
+                      <span className={styles.meta}>
+                        <span className={styles.actor}>{entry.actorEmail}</span> ·{' '}
+                        <time dateTime={entry.createdAt} title={entry.createdAt}>
+                          {relative(entry.createdAt)}
+                        </time>
+                      </span>
+                      {entry.revertedAt ? (
+                        <span className={styles.reverted}>Reverted</span>
+                      ) : (
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          aria-label={`Revert: ${summarize(entry)}`}
+                          title={
+                            entry.revertible
+                              ? undefined
+                              : 'The same field has changed since, so this can no longer be reverted.'
+                          }
+                          disabled={!entry.revertible || revertingId === entry.id}
+                          onClick={() => void handleRevert(entry)}
+                        >
+                          Revert
+                        </Button>
+                      )}
+                    </div>
+                  }
+                />
+              ))}
+            </ListRows>
+          )}
+          {queryError && <p className={styles.error}>{queryError}</p>}
+          {querying !== 'filter' && entries.length < total && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className={styles.loadMore}
+              disabled={querying === 'more'}
+              onClick={() => void handleLoadMore()}
+            >
+              {querying === 'more' ? 'Loading…' : `Load more (${total - entries.length} remaining)`}
+            </Button>
+          )}
+          {actionError && <p className={styles.error}>{actionError}</p>}
+        </>
+      );
+    }
+  }
+
+  return (
+    <ListPanel
+      title="Activity"
+      ariaLabel="Activity"
+      headerMiddle={headerMiddle}
+      headerRight={headerRight}
+      collapsed={collapsed}
+      onCollapsedChange={onCollapsedChange}
+    >
+      <LoadingText isLoading={loading}>Loading…</LoadingText>
+      {!loading && !loadError && revalidationFailed && <StaleNotice />}
+      {body}
+    </ListPanel>
+  );
+}
+
+export default ActivityPanel;
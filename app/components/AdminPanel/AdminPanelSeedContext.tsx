@@ -2,6 +2,7 @@
 
 import { createContext, type ReactNode, useContext } from 'react';
 
+import { type ChangeLogPage } from '@/app/types/ChangeLog';
 import { type RoleSummary } from '@/app/types/Role';
 import { type AdminUserSummary } from '@/app/types/User';
 
@@ -22,11 +23,13 @@ import { type AdminUserSummary } from '@/app/types/User';
  * thing the panels' error branches exist to prevent.
  *
  * Messages is absent on purpose. The server fetches that panel one row deep, for `total` alone, so
- * the only payload it could seed is a one-message page presented as the whole list.
+ * the only payload it could seed is a one-message page presented as the whole list. Activity is
+ * the opposite case: the server fetches the same newest page the panel shows, so it seeds whole.
  */
 export interface AdminPanelSeed {
   users?: AdminUserSummary[] | null;
   roles?: RoleSummary[] | null;
+  activity?: ChangeLogPage | null;
 }
 
 const EMPTY_SEED: AdminPanelSeed = {};
@@ -1,17 +1,19 @@
 'use client';
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 
 import { useClientGalleryDownload } from '@/app/components/ContentCollection/ClientGalleryDownloadContext';
 import { Button } from '@/app/components/ui/Button/Button';
-import {
-  downloadCollectionSelectionUrl,
-  downloadCollectionUrl,
-  type DownloadFormat,
-} from '@/app/lib/api/downloads';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Input } from '@/app/components/ui/Field/Input';
+import { ApiError } from '@/app/lib/api/core';
+import { type DownloadFormat, exportArchiveUrl } from '@/app/lib/api/downloads';
+import { type ExportJob } from '@/app/types/ExportJob';
+import { formatLongDate } from '@/app/utils/formatDateRange';
 
 import styles from './ClientGalleryDownload.module.scss';
+import { useExportJob } from './useExportJob';
 
 interface ClientGalleryDownloadProps {
   collectionSlug: string;
@@ -37,6 +39,11 @@ const DownloadIcon = () => (
   </svg>
 );
 
+function progressText(job: ExportJob): string {
+  if (job.status === 'queued') return 'Waiting to start…';
+  return `Preparing ${job.processedCount} of ${job.imageCount} photos…`;
+}
+
 /**
  * Client Gallery "Download" section.
  *
@@ -51,6 +58,11 @@ const DownloadIcon = () => (
  * is gated on {@link canDownloadCollection} (a CLIENT role grant on ANY collection, or a validated
  * password cookie on a client gallery) while the context provider is mounted only on collections
  * with `isClient === true`, so a CLIENT grant on a non-client collection reaches this branch.
+ *
+ * Picking a quality starts a background export job ({@link useExportJob}) rather than navigating to
+ * a streamed ZIP. The bar then tracks it — progress while it builds, a readable error with Try again
+ * if it fails, and a plain link to the finished archive once ready. The client can ask for the link
+ * by email at any point and close the page; closing the bar only stops tracking, never the job.
  */
 export default function ClientGalleryDownload({ collectionSlug }: ClientGalleryDownloadProps) {
   const download = useClientGalleryDownload();
@@ -59,24 +71,31 @@ export default function ClientGalleryDownload({ collectionSlug }: ClientGalleryD
   const selectedCount = selectedIds.length;
 
   const [pickerTarget, setPickerTarget] = useState<PickerTarget | null>(null);
-  const [preparing, setPreparing] = useState<DownloadFormat | null>(null);
   const [mounted, setMounted] = useState(false);
-  const resetTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [emailOpen, setEmailOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [emailSending, setEmailSending] = useState(false);
+  const [emailError, setEmailError] = useState<string | null>(null);
+
+  const exportJob = useExportJob(collectionSlug);
+  const { job, starting, error: exportError } = exportJob;
+  // Once a job exists (or failed to), the bar belongs to it until the client closes it.
+  const exportShown = job !== null || exportError !== null;
 
   // Portal target (document.body) is only available on the client.
   useEffect(() => setMounted(true), []);
 
   const closePicker = useCallback(() => setPickerTarget(null), []);
 
-  // Esc closes the picker (only while open and no download is in flight).
+  // Esc closes the picker (only while open and no download is being started or tracked).
   useEffect(() => {
-    if (pickerTarget === null || preparing !== null) return;
+    if (pickerTarget === null || starting !== null || exportShown) return;
     const handler = (e: globalThis.KeyboardEvent) => {
       if (e.key === 'Escape') closePicker();
     };
     document.addEventListener('keydown', handler);
     return () => document.removeEventListener('keydown', handler);
-  }, [pickerTarget, preparing, closePicker]);
+  }, [pickerTarget, starting, exportShown, closePicker]);
 
   // Leaving select mode (e.g. via the bar's Cancel) must drop a stale "selected" picker.
   useEffect(() => {
@@ -89,40 +108,49 @@ export default function ClientGalleryDownload({ collectionSlug }: ClientGalleryD
     if (pickerTarget === 'selected' && selectedCount === 0) setPickerTarget(null);
   }, [pickerTarget, selectedCount]);
 
-  // Clear any pending reset timer on unmount.
-  useEffect(() => {
-    return () => {
-      if (resetTimerRef.current) clearTimeout(resetTimerRef.current);
-    };
-  }, []);
-
   /**
-   * Start a download for the active picker target. Ids come from the memoized context (so this
+   * Start an export for the active picker target. Ids come from the memoized context (so this
    * callback stays stable across renders), and an empty "selected" set is a no-op — the button is
-   * already disabled, and bailing also keeps the URL builder's empty-selection throw from leaving
-   * `preparing` stuck.
+   * already disabled, and bailing also keeps the API's empty-selection throw out of the bar.
    */
+  const { start, retry, emailLink, reset } = exportJob;
   const handleFormatDownload = useCallback(
     (format: DownloadFormat) => {
       const ids = download?.selectedIds ?? [];
       if (pickerTarget === 'selected' && ids.length === 0) return;
-
-      setPreparing(format);
-      const url =
-        pickerTarget === 'selected'
-          ? downloadCollectionSelectionUrl(collectionSlug, ids, format)
-          : downloadCollectionUrl(collectionSlug, format);
-      window.location.href = url;
-      if (resetTimerRef.current) clearTimeout(resetTimerRef.current);
-      resetTimerRef.current = setTimeout(() => {
-        setPreparing(null);
-        setPickerTarget(null);
-        resetTimerRef.current = null;
-      }, 4000);
+      void start(format, pickerTarget === 'selected' ? ids : null);
     },
-    [collectionSlug, pickerTarget, download]
+    [pickerTarget, download, start]
   );
 
+  const closeExport = useCallback(() => {
+    reset();
+    setPickerTarget(null);
+    setEmailOpen(false);
+    setEmail('');
+    setEmailError(null);
+  }, [reset]);
+
+  const handleEmailSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address) return;
+    setEmailSending(true);
+    setEmailError(null);
+    try {
+      await emailLink(address);
+      setEmailOpen(false);
+    } catch (error_) {
+      setEmailError(
+        error_ instanceof ApiError && error_.status === 400
+          ? 'That email address doesn’t look right.'
+          : 'The link could not be emailed. Please try again.'
+      );
+    } finally {
+      setEmailSending(false);
+    }
+  };
+
   // The shared Web / Full / Cancel picker — used by both the "All" and "Selected" flows, always in
   // the bottom bar. Short labels keep the bar from overflowing on mobile.
   const renderPicker = () => (
@@ -132,20 +160,20 @@ export default function ClientGalleryDownload({ collectionSlug }: ClientGalleryD
         size="sm"
         leftIcon={<DownloadIcon />}
         onClick={() => handleFormatDownload('web')}
-        disabled={preparing !== null}
+        disabled={starting !== null}
       >
-        {preparing === 'web' ? '…' : 'Web'}
+        {starting === 'web' ? '…' : 'Web'}
       </Button>
       <Button
         className={styles.ctaButton}
         size="sm"
         leftIcon={<DownloadIcon />}
         onClick={() => handleFormatDownload('original')}
-        disabled={preparing !== null}
+        disabled={starting !== null}
       >
-        {preparing === 'original' ? '…' : 'Full'}
+        {starting === 'original' ? '…' : 'Full'}
       </Button>
-      {preparing === null && (
+      {starting === null && (
         <button type="button" onClick={closePicker} className={styles.cancelButton}>
           {pickerTarget === 'selected' ? 'Back' : 'Cancel'}
         </button>
@@ -153,6 +181,110 @@ export default function ClientGalleryDownload({ collectionSlug }: ClientGalleryD
     </div>
   );
 
+  // Offer to email the link while the archive builds or once it is ready; confirm once asked.
+  const renderEmail = (current: ExportJob) => {
+    if (current.emailTo) {
+      return (
+        <p className={styles.exportNote}>
+          {current.status === 'ready'
+            ? `The link was emailed to ${current.emailTo}.`
+            : `We’ll email the link to ${current.emailTo} when it’s ready.`}
+        </p>
+      );
+    }
+    if (!emailOpen) {
+      return (
+        <button type="button" onClick={() => setEmailOpen(true)} className={styles.cancelButton}>
+          Email me the link
+        </button>
+      );
+    }
+    return (
+      <form className={styles.emailForm} onSubmit={e => void handleEmailSubmit(e)}>
+        <Input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          aria-label="Email address"
+          autoComplete="email"
+          required
+        />
+        <Button type="submit" size="sm" loading={emailSending}>
+          Send
+        </Button>
+        {emailError && <FormError>{emailError}</FormError>}
+      </form>
+    );
+  };
+
+  // The export's own view of the bar: progress, the finished link, or what went wrong.
+  const renderExport = () => {
+    if (exportError !== null) {
+      return (
+        <div className={styles.exportPanel}>
+          <FormError>{exportError}</FormError>
+          <div className={styles.pickerRow}>
+            <Button
+              className={styles.ctaButton}
+              size="sm"
+              onClick={() => void retry()}
+              loading={starting !== null}
+            >
+              Try again
+            </Button>
+            <button type="button" onClick={closeExport} className={styles.cancelButton}>
+              Close
+            </button>
+          </div>
+        </div>
+      );
+    }
+    if (!job) return null;
+    if (job.status === 'ready') {
+      return (
+        <div className={styles.exportPanel}>
+          <p role="status" className={styles.exportStatus}>
+            Your download is ready.
+            {job.expiresAt && ` The link works until ${formatLongDate(job.expiresAt)}.`}
+          </p>
+          <div className={styles.pickerRow}>
+            <a
+              className={`${styles.archiveLink} ${styles.ctaButton}`}
+              href={exportArchiveUrl(job.id)}
+            >
+              <DownloadIcon />
+              Download ZIP
+            </a>
+            <button type="button" onClick={closeExport} className={styles.cancelButton}>
+              Close
+            </button>
+          </div>
+          {renderEmail(job)}
+        </div>
+      );
+    }
+    return (
+      <div className={styles.exportPanel}>
+        <p role="status" className={styles.exportStatus}>
+          {progressText(job)}
+        </p>
+        <progress
+          className={styles.progress}
+          value={job.processedCount}
+          max={Math.max(job.imageCount, 1)}
+          aria-label="Download progress"
+        />
+        <div className={styles.pickerRow}>
+          {renderEmail(job)}
+          <button type="button" onClick={closeExport} className={styles.cancelButton}>
+            Hide
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   // ── Inline entry: "Download" + All / Select (bottom of the metadata block) ──
   const inlineSection = (
     <div className={styles.downloadContainer}>
@@ -185,12 +317,14 @@ export default function ClientGalleryDownload({ collectionSlug }: ClientGalleryD
   );
 
   // ── Single fixed action bar at the bottom — the one and only "download" location ──
-  // Shown for the All picker (not in select mode) and for the whole Select flow.
-  const barVisible = mounted && (pickerTarget === 'all' || isSelectMode);
+  // Shown for the All picker (not in select mode), for the whole Select flow, and for an export.
+  const barVisible = mounted && (pickerTarget === 'all' || isSelectMode || exportShown);
   const selectBar = barVisible
     ? createPortal(
         <div className={styles.selectBar} role="group" aria-label="Download">
-          {pickerTarget !== null ? (
+          {exportShown ? (
+            renderExport()
+          ) : pickerTarget !== null ? (
             renderPicker()
           ) : (
             <>
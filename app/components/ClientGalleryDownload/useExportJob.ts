@@ -0,0 +1,138 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { ApiError } from '@/app/lib/api/core';
+import {
+  type DownloadFormat,
+  emailExportJob,
+  getExportJob,
+  startCollectionExport,
+} from '@/app/lib/api/downloads';
+import { type ExportJob } from '@/app/types/ExportJob';
+
+export const EXPORT_POLL_INTERVAL_MS = 2000;
+
+/** Consecutive failed polls tolerated before giving up — a phone dropping signal for a moment is normal. */
+const MAX_POLL_FAILURES = 3;
+
+export interface ExportJobState {
+  job: ExportJob | null;
+  /** Format of the request being started, for the picker's pending label. */
+  starting: DownloadFormat | null;
+  /** Readable failure: the failed job's own reason, or why starting or tracking it failed. */
+  error: string | null;
+  start: (format: DownloadFormat, imageIds: number[] | null) => Promise<void>;
+  /** Start the last request again, after a failure. */
+  retry: () => Promise<void>;
+  /** Rejects with the `ApiError` from the API layer; the caller maps it to copy. */
+  emailLink: (email: string) => Promise<void>;
+  /** Forget the job on this page. The backend keeps building it, and still emails if asked. */
+  reset: () => void;
+}
+
+/** The backend's message for a client-side refusal; a fixed fallback for anything else. */
+function readableError(error_: unknown, fallback: string): string {
+  return error_ instanceof ApiError && error_.status < 500 && error_.message
+    ? error_.message
+    : fallback;
+}
+
+/**
+ * One gallery's ZIP export, from request to ready archive. Starting posts the job; while it is
+ * `queued` or `running` it is re-read every {@link EXPORT_POLL_INTERVAL_MS}, and polling stops on
+ * `ready`, `failed`, reset or unmount. Each poll aborts with the effect, so a late response cannot
+ * revive a job the caller has already reset.
+ */
+export function useExportJob(collectionSlug: string): ExportJobState {
+  const [job, setJob] = useState<ExportJob | null>(null);
+  const [starting, setStarting] = useState<DownloadFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const lastRequestRef = useRef<{ format: DownloadFormat; imageIds: number[] | null } | null>(null);
+  const pollFailuresRef = useRef(0);
+  // Bumped by every start and reset, so a start still in flight after a reset lands nowhere.
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    if (job?.status !== 'queued' && job?.status !== 'running') return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      getExportJob(job.id, controller.signal)
+        .then(next => {
+          pollFailuresRef.current = 0;
+          setJob(next);
+          if (next.status === 'failed') {
+            setError(next.error ?? 'The download could not be prepared.');
+          }
+        })
+        .catch((error_: unknown) => {
+          if (controller.signal.aborted) return;
+          pollFailuresRef.current += 1;
+          if (pollFailuresRef.current < MAX_POLL_FAILURES) {
+            // Same job, new object: re-arms this effect for another attempt.
+            setJob(current => (current ? { ...current } : current));
+            return;
+          }
+          setError(readableError(error_, 'Lost track of the download. Please try again.'));
+          setJob(null);
+        });
+    }, EXPORT_POLL_INTERVAL_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [job]);
+
+  const start = useCallback(
+    async (format: DownloadFormat, imageIds: number[] | null) => {
+      const generation = ++generationRef.current;
+      lastRequestRef.current = { format, imageIds };
+      pollFailuresRef.current = 0;
+      setStarting(format);
+      setError(null);
+      setJob(null);
+      try {
+        const created = await startCollectionExport(collectionSlug, format, imageIds);
+        if (generation !== generationRef.current) return;
+        setJob(created);
+        if (created.status === 'failed') {
+          setError(created.error ?? 'The download could not be prepared.');
+        }
+      } catch (error_) {
+        if (generation !== generationRef.current) return;
+        setError(readableError(error_, 'The download could not be started. Please try again.'));
+      } finally {
+        if (generation === generationRef.current) setStarting(null);
+      }
+    },
+    [collectionSlug]
+  );
+
+  const retry = useCallback(async () => {
+    const last = lastRequestRef.current;
+    if (last) await start(last.format, last.imageIds);
+  }, [start]);
+
+  const emailLink = useCallback(
+    async (email: string) => {
+      if (!job) return;
+      const updated = await emailExportJob(job.id, email);
+      // A poll may have landed while this was in flight (keep its status), or a reset or a newer
+      // job (leave it alone — this answer is about a job the page no longer tracks).
+      setJob(current => {
+        if (current?.id !== updated.id) return current;
+        return current.status === 'ready' ? { ...current, emailTo: updated.emailTo } : updated;
+      });
+    },
+    [job]
+  );
+
+  const reset = useCallback(() => {
+    generationRef.current += 1;
+    setJob(null);
+    setError(null);
+    setStarting(null);
+  }, []);
+
+  return { job, starting, error, start, retry, emailLink, reset };
+}
@@ -6,7 +6,7 @@ import { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/app/components/ui/Button/Button';
 import { Modal } from '@/app/components/ui/Modal/Modal';
 import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
-import { ApiError } from '@/app/lib/api/core';
+import { ApiError, isExhausted } from '@/app/lib/api/core';
 import { type CollectionModel } from '@/app/types/Collection';
 
 import styles from './ClientGalleryGate.module.scss';
@@ -23,6 +23,16 @@ type SubmitState = 'idle' | 'verifying' | 'unlocking';
 // drop the spinner after this many ms so the user isn't stuck.
 const UNLOCKING_FAILSAFE_MS = 5000;
 
+/**
+ * A recipient's access code that no longer opens the gallery — told apart from a wrong password so
+ * the client knows to ask for a new code rather than retype the old one.
+ */
+const LAPSED_CODE_MESSAGES = {
+  expired: 'This access code has expired. Please contact the gallery owner for a new one.',
+  exhausted:
+    'This access code has reached its download limit. Please contact the gallery owner for a new one.',
+} as const;
+
 /**
  * Client Gallery Gate
  *
@@ -34,6 +44,11 @@ const UNLOCKING_FAILSAFE_MS = 5000;
  * which re-runs the wrapper server-side and unmounts the gate in favor of the
  * page. The brief in-between window shows a "Loading gallery…" state.
  *
+ * The field takes the shared gallery password or a recipient's access code. A code that has
+ * expired or used up its download quota answers 410 and gets its own message, and so does a
+ * returning viewer whose cookie came from such a code (`collection.accessCodeStatus`), who lands
+ * here with the message already showing.
+ *
  * That window used to be a second `return` with its own card, which meant the "Loading gallery…"
  * live region was created at the same moment it got its text — the case screen readers routinely
  * miss (see {@link LoadingText}). The card is now one tree: the region is always mounted below the
@@ -63,7 +78,9 @@ const UNLOCKING_FAILSAFE_MS = 5000;
 export default function ClientGalleryGate({ collection }: ClientGalleryGateProps) {
   const router = useRouter();
   const [password, setPassword] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(() =>
+    collection.accessCodeStatus ? LAPSED_CODE_MESSAGES[collection.accessCodeStatus] : null
+  );
   const [submitState, setSubmitState] = useState<SubmitState>('idle');
 
   useEffect(() => {
@@ -115,6 +132,9 @@ export default function ClientGalleryGate({ collection }: ClientGalleryGateProps
           } else if (error_.status === 403) {
             setError('Access denied. Please contact the gallery owner.');
             setPassword('');
+          } else if (error_.status === 410) {
+            setError(LAPSED_CODE_MESSAGES[isExhausted(error_) ? 'exhausted' : 'expired']);
+            setPassword('');
           } else {
             setError('Unable to verify access. Please try again later.');
             setPassword('');
@@ -143,7 +163,7 @@ export default function ClientGalleryGate({ collection }: ClientGalleryGateProps
         {!isUnlocking && (
           <form onSubmit={handleSubmit} className={styles.gateForm}>
             <label htmlFor="gallery-password" className={styles.gateLabel}>
-              Enter the password to view this gallery
+              Enter the password or your access code to view this gallery
             </label>
             <input
               id="gallery-password"
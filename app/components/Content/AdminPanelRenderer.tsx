@@ -2,6 +2,7 @@
 
 import { type ComponentType } from 'react';
 
+import { ActivityPanel } from '@/app/components/ActivityPanel/ActivityPanel';
 import { useAdminPanelCollapse } from '@/app/components/AdminPanel/AdminPanelCollapseContext';
 import { MessagesPanel } from '@/app/components/MessagesPanel/MessagesPanel';
 import { RolesPanel } from '@/app/components/RolesPanel/RolesPanel';
@@ -24,7 +25,7 @@ interface AdminPanelChildProps {
 }
 
 /**
- * A lookup rather than a ternary chain: with three panel types an `else` branch silently renders
+ * A lookup rather than a ternary chain: with four panel types an `else` branch silently renders
  * the wrong panel for anything it does not name, while a missing key here is a type error.
  */
 const PANEL_COMPONENTS: Record<
@@ -34,6 +35,7 @@ const PANEL_COMPONENTS: Record<
   users: UserManagementPanel,
   messages: MessagesPanel,
   roles: RolesPanel,
+  activity: ActivityPanel,
 };
 
 /**
@@ -10,7 +10,9 @@ import ClientGalleryDownload from '@/app/components/ClientGalleryDownload/Client
 import { useCollectionFilter } from '@/app/components/ContentCollection/CollectionFilterContext';
 import { useCollectionRailExtras } from '@/app/components/ContentCollection/CollectionRailContext';
 import { useInlineEdit } from '@/app/components/ContentCollection/edit/InlineEditContext';
+import { useSelects } from '@/app/components/ContentCollection/SelectsContext';
 import { FollowButton } from '@/app/components/Personal/FollowButton';
+import ProofingMeter from '@/app/components/ProofingMeter/ProofingMeter';
 import { Badge } from '@/app/components/ui/Badge/Badge';
 import { FilterToolbar } from '@/app/components/ui/FilterToolbar/FilterToolbar';
 import { InlineEditableText } from '@/app/components/ui/InlineEditableText/InlineEditableText';
@@ -46,11 +48,13 @@ import cbStyles from './ContentComponent.module.scss';
 import { ImageOverlays } from './ImageOverlays';
 import variantStyles from './ParallaxImageRenderer.module.scss';
 import ReorderOverlay from './ReorderOverlay';
+import { RichText } from './RichText';
 import { SaveHeart } from './SaveHeart';
 import { SelectStar } from './SelectStar';
 
 /**
- * Renders a single content item: IMAGE, GIF, COLLECTION, or TEXT metadata block.
+ * Renders a single content item: IMAGE, GIF, COLLECTION, a TEXT body block, or the TEXT metadata
+ * rail.
  * Handles parallax, reorder mode, client gallery download, and image error fallback.
  *
  * Collection cards (the slug-navigating `Tile` branch) also carry a follow toggle. It is gated on
@@ -93,6 +97,8 @@ export default function CollectionContentRenderer({
   isCollection = false,
   contentType,
   textItems,
+  richText,
+  textAlign,
   isGif = false,
   thumbnailUrl,
   // Reorder mode props
@@ -201,6 +207,7 @@ export default function CollectionContentRenderer({
 
   const collectionFilter = useCollectionFilter();
   const railExtras = useCollectionRailExtras();
+  const selects = useSelects();
   const inlineEdit = useInlineEdit();
   const me = useMe();
 
@@ -245,14 +252,35 @@ export default function CollectionContentRenderer({
     [togglePickCover]
   );
 
+  if (contentType === 'TEXT' && richText) {
+    return (
+      <div
+        key={contentId}
+        className={`${buildWrapperClassName(className, cbStyles, {
+          includeDragContainer: false,
+          enableParallax: false,
+          isMobile,
+          hasClickHandler: false,
+          isSelected: false,
+        })} ${cbStyles.contentBox}`}
+        style={{ width, height: height > 0 ? height : 'auto' }}
+      >
+        <RichText blocks={richText} align={textAlign} />
+      </div>
+    );
+  }
+
   if (contentType === 'TEXT') {
-    // The header rail carries more than text: the filter toolbar, the client-gallery download row
-    // and any page-level rail extras mount into it. A collection with no metadata (no date,
-    // locations, description or siblings — that is `/user`) produces an item-less rail, so bailing
-    // on empty `textItems` alone would throw away all three. Mirrors `forceHeaderRail` on the
+    // The header rail carries more than text: the filter toolbar, the client-gallery download row,
+    // the proofing meter and any page-level rail extras mount into it. A collection with no
+    // metadata (no date, locations, description or siblings — that is `/user`) produces an
+    // item-less rail, so bailing on empty `textItems` alone would throw all of them away. Mirrors `forceHeaderRail` on the
     // layout side.
     const railHasControls =
-      collectionFilter !== null || Boolean(railExtras) || (canDownload && Boolean(collectionSlug));
+      collectionFilter !== null ||
+      Boolean(railExtras) ||
+      Boolean(selects?.proofing) ||
+      (canDownload && Boolean(collectionSlug));
     const items = textItems ?? [];
     if (items.length === 0 && !railHasControls) {
       return null;
@@ -440,6 +468,7 @@ export default function CollectionContentRenderer({
             {canDownload && collectionSlug && (
               <ClientGalleryDownload collectionSlug={collectionSlug} />
             )}
+            <ProofingMeter />
             {railExtras}
           </div>
           {collectionFilter && (
@@ -465,6 +494,7 @@ export default function CollectionContentRenderer({
                 dateTwoState={collectionFilter.dateTwoState}
                 showHighlyRated={collectionFilter.filterOptions.showHighlyRated}
                 showHiddenToggle={collectionFilter.filterOptions.showHiddenToggle}
+                showExpression={collectionFilter.filterOptions.showExpression}
                 counts={{ hidden: collectionFilter.filterOptions.hiddenCount }}
                 density={collectionFilter.density}
                 densityMax={collectionFilter.densityMax}
@@ -5,6 +5,8 @@ import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
 import { useMe } from '@/app/components/auth/MeProvider';
 import { type ReorderMove } from '@/app/components/ContentCollection/edit/collectionEditUtils';
 import { LAYOUT } from '@/app/constants';
+import { useContentRows } from '@/app/hooks/useContentRows';
+import { useRowWindow } from '@/app/hooks/useRowWindow';
 import { useViewport } from '@/app/hooks/useViewport';
 import { type CollectionModel } from '@/app/types/Collection';
 import { type AnyContentModel, type ViewableContent } from '@/app/types/Content';
@@ -13,10 +15,10 @@ import { type RowWithPatternAndSizes } from '@/app/utils/contentLayout';
 import { canDownloadCollection } from '@/app/utils/galleryAccess';
 import { describeLayoutRows } from '@/app/utils/layoutDebug';
 import { logger } from '@/app/utils/logger';
+import { VIRTUALIZE_MIN_ROWS } from '@/app/utils/rowWindow';
 
 import { BoxRenderer } from './BoxRenderer';
 import {
-  buildContentRows,
   computeFirstNonVisibleRowIndex,
   computePriorityRowIndex,
   createSimpleBoxTree,
@@ -194,17 +196,17 @@ export default function Component({
     [isPublicView, content, failedImageIds]
   );
 
-  const { rows, layoutError } = useMemo(
-    () =>
-      buildContentRows(
-        displayContent,
-        collectionData,
-        viewport,
-        chunkSize,
-        mobileChunkSize,
-        forceHeaderRail,
-        widthCostBaseline
-      ),
+  // Large collections re-pack in a worker; the previous rows stay up meanwhile (see the hook).
+  const layoutJob = useMemo(
+    () => ({
+      content: displayContent ?? [],
+      collectionData,
+      viewport,
+      chunkSize,
+      mobileChunkSize,
+      forceHeaderRail,
+      widthCostBaseline,
+    }),
     [
       displayContent,
       collectionData,
@@ -215,6 +217,7 @@ export default function Component({
       widthCostBaseline,
     ]
   );
+  const { rows, layoutError, isPending } = useContentRows(layoutJob);
 
   useLayoutRowLog(rows, viewport.contentWidth);
 
@@ -229,6 +232,32 @@ export default function Component({
     [rows, priorityIndex]
   );
 
+  const rowKeys = useMemo(
+    () => rows.map(row => row.items.map(i => itemKeyFragment(i.content)).join('-')),
+    [rows]
+  );
+
+  // Pinned rows stay mounted off-screen: the picked-up tile in reorder mode (it keeps focus and
+  // its arrow-key handlers while the admin scrolls to the drop spot), and the separator's row.
+  const pinnedRows = useMemo(() => {
+    const pinned = [firstNonVisibleRowIndex];
+    if (isReorderMode && pickedUpImageId != null) {
+      pinned.push(
+        rows.findIndex(row => row.items.some(item => item.content.id === pickedUpImageId))
+      );
+    }
+    return pinned.filter(index => index >= 0);
+  }, [rows, firstNonVisibleRowIndex, isReorderMode, pickedUpImageId]);
+
+  const isWindowed = rows.length >= VIRTUALIZE_MIN_ROWS;
+  const { containerRef, rowRef, segments } = useRowWindow({
+    rows,
+    rowKeys,
+    enabled: isWindowed,
+    pinned: pinnedRows,
+    initialViewportHeight: viewport.viewportHeight,
+  });
+
   if (layoutError) {
     return (
       <div className={cbStyles.wrapper}>
@@ -248,7 +277,7 @@ export default function Component({
   /** Renders a row using BoxRenderer (recursive). */
   const renderRow = (row: RowWithPatternAndSizes, rowIndex: number) => {
     const { rowType, items, boxTree } = row;
-    const rowKey = `row-${rowIndex}-${items.map(i => itemKeyFragment(i.content)).join('-')}`;
+    const rowKey = `row-${rowIndex}-${rowKeys[rowIndex]}`;
 
     // If boxTree is missing (shouldn't happen), create a fallback
     const tree = boxTree || createSimpleBoxTree(items);
@@ -260,7 +289,7 @@ export default function Component({
     const dataPattern = rowType;
 
     return (
-      <div key={rowKey} className={cbStyles.row} data-pattern={dataPattern}>
+      <div key={rowKey} ref={rowRef(rowIndex)} className={cbStyles.row} data-pattern={dataPattern}>
         <BoxRenderer
           tree={tree}
           sizes={sizesMap}
@@ -291,12 +320,27 @@ export default function Component({
   };
 
   return (
-    <div className={cbStyles.wrapper}>
-      <div className={cbStyles.inner}>
-        {rows.map((row, rowIndex) => {
+    <div className={cbStyles.wrapper} aria-busy={isPending || undefined}>
+      <div
+        ref={containerRef}
+        className={isWindowed ? `${cbStyles.inner} ${cbStyles.windowed}` : cbStyles.inner}
+      >
+        {segments.map(segment => {
+          if (segment.kind === 'spacer') {
+            return (
+              <div
+                key={segment.key}
+                className={cbStyles.rowSpacer}
+                style={{ height: segment.height }}
+                aria-hidden="true"
+              />
+            );
+          }
+          const rowIndex = segment.index;
+          const row = rows[rowIndex]!;
           const shouldShowSeparator =
             firstNonVisibleRowIndex !== -1 && rowIndex === firstNonVisibleRowIndex;
-          const rowKey = `row-${rowIndex}-${row.items.map(i => itemKeyFragment(i.content)).join('-')}`;
+          const rowKey = `row-${rowIndex}-${rowKeys[rowIndex]}`;
 
           return (
             <Fragment key={rowKey}>
@@ -9,6 +9,7 @@ import { collectionStorage } from '@/app/lib/storage/collectionStorage';
 import { type CollectionModel } from '@/app/types/Collection';
 import { type AnyContentModel, type ViewableContent } from '@/app/types/Content';
 import { isCollectionCard } from '@/app/utils/contentRatingUtils';
+import { parseSlideshowParam } from '@/app/utils/slideshow';
 
 import Component from './Component';
 import styles from './ContentBlockWithFullScreen.module.scss';
@@ -104,6 +105,7 @@ export default function ContentBlockWithFullScreen({
     router,
     navigateToNext,
     navigateToPrevious,
+    slideshow,
   } = useFullScreenImage();
 
   useEffect(() => {
@@ -134,14 +136,32 @@ export default function ContentBlockWithFullScreen({
   // open the viewer to it. Runs once on mount. showImage only replaceState-syncs
   // the URL here (the param is already present), so no extra history entry is
   // pushed and Back still returns to whatever preceded this page.
+  //
+  // A ?slideshow= link also starts the show with its settings, from ?image= if present or else the
+  // first photo — whose id is written onto the URL first, so that open counts as deep-linked too.
+  // Autoplay outside a user gesture cannot enter native fullscreen; the show runs in the viewer.
   useEffect(() => {
     if (typeof window === 'undefined') return;
-    const id = new URLSearchParams(window.location.search).get('image');
-    if (!id) return;
-    const parsed = Number.parseInt(id, 10);
-    if (Number.isNaN(parsed)) return;
-    const block = viewableBlocks.find(b => b.id === parsed);
-    if (block) showImage(block, viewableBlocks);
+    const params = new URLSearchParams(window.location.search);
+    const slideshowSettings = parseSlideshowParam(params.get('slideshow'));
+    const id = params.get('image');
+    let block: ViewableContent | undefined;
+    if (id) {
+      const parsed = Number.parseInt(id, 10);
+      if (Number.isNaN(parsed)) return;
+      block = viewableBlocks.find(b => b.id === parsed);
+    } else if (slideshowSettings && viewableBlocks[0]) {
+      block = viewableBlocks[0];
+      params.set('image', String(block.id));
+      window.history.replaceState(
+        window.history.state,
+        '',
+        `${window.location.pathname}?${params.toString()}`
+      );
+    }
+    if (!block) return;
+    showImage(block, viewableBlocks);
+    if (slideshowSettings) slideshow.start(slideshowSettings);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -261,6 +281,7 @@ export default function ContentBlockWithFullScreen({
           collectionData={collectionData}
           navigateToNext={navigateToNext}
           navigateToPrevious={navigateToPrevious}
+          slideshow={slideshow}
         />
       )}
     </>
@@ -0,0 +1,121 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import { Children, type ReactNode } from 'react';
+
+import { type TextAlign } from '@/app/types/Content';
+import { type RichBlock, type RichInline } from '@/app/types/RichText';
+
+import styles from './RichText.module.scss';
+
+interface RichTextProps {
+  blocks: RichBlock[];
+  align?: TextAlign;
+  className?: string;
+}
+
+const ALIGN_CLASS: Record<TextAlign, string | undefined> = {
+  left: undefined,
+  center: styles.alignCenter,
+  right: styles.alignRight,
+};
+
+// Children.toArray keys each node by its position: the tree is rebuilt wholesale on every parse,
+// so position is the only identity its nodes have.
+function renderInlines(inlines: RichInline[]): ReactNode[] {
+  return Children.toArray(
+    inlines.map(inline => {
+      switch (inline.type) {
+        case 'text': {
+          return inline.value;
+        }
+        case 'code': {
+          return <code>{inline.value}</code>;
+        }
+        case 'break': {
+          return <br />;
+        }
+        case 'strong': {
+          return <strong>{renderInlines(inline.children)}</strong>;
+        }
+        case 'em': {
+          return <em>{renderInlines(inline.children)}</em>;
+        }
+        case 'del': {
+          return <del>{renderInlines(inline.children)}</del>;
+        }
+        case 'link': {
+          const { href, children } = inline;
+          if (href.startsWith('/') && !href.startsWith('//')) {
+            return <Link href={href}>{renderInlines(children)}</Link>;
+          }
+          const external = /^https?:/i.test(href);
+          return (
+            <a href={href} {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}>
+              {renderInlines(children)}
+            </a>
+          );
+        }
+        case 'image': {
+          return (
+            <Image
+              className={styles.image}
+              src={inline.src}
+              alt={inline.alt}
+              width={inline.width}
+              height={inline.height}
+              sizes="(max-width: 768px) 100vw, 640px"
+            />
+          );
+        }
+      }
+    })
+  );
+}
+
+function renderBlocks(blocks: RichBlock[]): ReactNode[] {
+  return Children.toArray(
+    blocks.map(block => {
+      switch (block.type) {
+        case 'heading': {
+          const Heading = `h${block.level}` as const;
+          return <Heading>{renderInlines(block.children)}</Heading>;
+        }
+        case 'paragraph': {
+          return <p>{renderInlines(block.children)}</p>;
+        }
+        case 'list': {
+          const items = Children.toArray(block.items.map(item => <li>{renderBlocks(item)}</li>));
+          return block.ordered ? <ol start={block.start}>{items}</ol> : <ul>{items}</ul>;
+        }
+        case 'blockquote': {
+          return <blockquote>{renderBlocks(block.children)}</blockquote>;
+        }
+        case 'code': {
+          return (
+            <pre data-language={block.language}>
+              <code>{block.value}</code>
+            </pre>
+          );
+        }
+        case 'rule': {
+          return <hr />;
+        }
+      }
+    })
+  );
+}
+
+/**
+ * Renders a parsed text block (see `app/types/RichText.ts`) as plain React elements. The tree only
+ * holds allow-listed constructs, so there is no raw markup to inject and nothing to escape here.
+ *
+ * Type metrics live in `RichText.module.scss` and are mirrored by the height estimate in
+ * `app/utils/richText.ts`; the box scrolls rather than clipping text that reflows past it.
+ */
+export function RichText({ blocks, align = 'left', className }: RichTextProps) {
+  return (
+    <div className={[styles.richText, ALIGN_CLASS[align], className].filter(Boolean).join(' ')}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+}
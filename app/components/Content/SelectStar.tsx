@@ -19,6 +19,9 @@ interface SelectStarProps {
  * chain. The collection id comes from the SelectsProvider on the context. Renders nothing unless a
  * SelectsProvider is mounted AND the viewer holds a CLIENT membership on that collection. Distinct from the download
  * "select mode".
+ *
+ * Once proofing picks are submitted the star stays visible — it still shows what was picked — but
+ * is disabled, since the backend would refuse the change.
  */
 export function SelectStar({ contentId }: SelectStarProps): ReactElement | null {
   const me = useMe();
@@ -29,6 +32,7 @@ export function SelectStar({ contentId }: SelectStarProps): ReactElement | null
   }
 
   const selected = selects.isSelected(contentId);
+  const locked = Boolean(selects.proofing?.submittedAt);
 
   return (
     <button
@@ -36,6 +40,8 @@ export function SelectStar({ contentId }: SelectStarProps): ReactElement | null
       className={`${cbStyles.selectStar} ${selected ? cbStyles.selectStarActive : ''}`}
       aria-pressed={selected}
       aria-label={selected ? 'Remove from Your Selects' : 'Add to Your Selects'}
+      disabled={locked}
+      title={locked ? 'Your picks have been submitted' : undefined}
       onClick={event => {
         // Don't let the star click bubble to the image wrapper (which opens fullscreen).
         event.stopPropagation();
@@ -115,6 +115,7 @@ export function buildContentRows(
       isMobile: viewport.isMobile,
       collectionData,
       displayMode: collectionData?.displayMode,
+      layoutMode: collectionData?.layoutMode,
       targetAR,
       mobileChunkSize,
       forceHeaderRail,
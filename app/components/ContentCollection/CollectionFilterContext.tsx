@@ -26,6 +26,8 @@ export interface CollectionInfoOptions {
   showHiddenToggle: boolean;
   /** How many collections are non-public; badges the Hidden chip. */
   hiddenCount: number;
+  /** Whether to render the Advanced (boolean expression) dropdown. */
+  showExpression: boolean;
 }
 
 /** Subset of options available after current filters are applied (for grey-out logic). null = no active filters. */
@@ -1,4 +1,7 @@
+import { type ReactNode } from 'react';
+
 import ContentBlockWithFullScreen from '@/app/components/Content/ContentBlockWithFullScreen';
+import { JsonLd } from '@/app/components/JsonLd/JsonLd';
 import SiteHeader from '@/app/components/SiteHeader/SiteHeader';
 import { SkipTarget } from '@/app/components/ui/SkipLink/SkipLink';
 import { type MeResponse } from '@/app/types/Auth';
@@ -6,8 +9,10 @@ import { type CollectionModel } from '@/app/types/Collection';
 import { CollectionVisibility } from '@/app/types/CollectionVisibility';
 import { type AnyContentModel, type ContentParallaxImageModel } from '@/app/types/Content';
 import { clampParallaxDimensions } from '@/app/utils/contentLayout';
+import { type EditScope } from '@/app/utils/galleryAccess';
 import { logger } from '@/app/utils/logger';
 import { type SsrViewport } from '@/app/utils/ssrViewport';
+import { type JsonLdObject } from '@/app/utils/structuredData';
 
 import CollectionPageClient from './CollectionPageClient';
 import styles from './ContentCollectionPage.module.scss';
@@ -26,12 +31,22 @@ interface ContentCollectionPageProps {
   ssrViewport?: SsrViewport;
   /** Mounts the admin edit surface in CollectionPageClient (single-collection branch only). */
   editMode?: boolean;
+  /** Which edit surface `editMode` mounts; see CollectionPageClient. */
+  editScope?: EditScope;
   /** Server-resolved principal (from `meServer()`), forwarded to the gallery client. */
   me?: MeResponse | null;
   /** The viewer's persisted selected image ids for this collection (client galleries only). */
   initialSelectedIds?: number[];
   /** The viewer's GLOBAL saved (bookmarked) image ids, seeded server-side. Cross-collection. */
   initialSavedImageIds?: number[];
+  /** When the viewer submitted their proofing picks for this collection, if they have. */
+  initialProofingSubmittedAt?: string | null;
+  /** Header-rail content, forwarded to CollectionPageClient (single-collection branch only). */
+  railExtras?: ReactNode;
+  /** Caller owns filtering; see CollectionPageClient (single-collection branch only). */
+  suppressFilterBar?: boolean;
+  /** schema.org JSON-LD for the page, emitted ahead of the gallery (single-collection branch only). */
+  structuredData?: JsonLdObject[];
 }
 
 /**
@@ -114,9 +129,14 @@ export default function CollectionPage({
   showProtectedCovers = false,
   ssrViewport,
   editMode = false,
+  editScope,
   me = null,
   initialSelectedIds = [],
   initialSavedImageIds = [],
+  initialProofingSubmittedAt = null,
+  railExtras = null,
+  suppressFilterBar = false,
+  structuredData,
 }: ContentCollectionPageProps) {
   // Single collection: delegate to client component for filter support
   if (!Array.isArray(collection)) {
@@ -125,8 +145,13 @@ export default function CollectionPage({
     const headingText = collection.title?.trim() || collection.slug?.trim() || 'Untitled';
     return (
       <div className={styles.container}>
+        {structuredData && <JsonLd data={structuredData} />}
         <main className={styles.main}>
-          <SiteHeader pageType="collection" collectionSlug={collection.slug} />
+          <SiteHeader
+            pageType="collection"
+            collectionSlug={collection.slug}
+            collectionId={collection.id}
+          />
           <SkipTarget>
             <h1 className={styles.srOnly}>{headingText}</h1>
             <CollectionPageClient
@@ -136,9 +161,13 @@ export default function CollectionPage({
               serverViewportHeight={ssrViewport?.viewportHeight}
               serverIsMobile={ssrViewport?.isMobile}
               editMode={editMode}
+              editScope={editScope}
               me={me}
               initialSelectedIds={initialSelectedIds}
               initialSavedImageIds={initialSavedImageIds}
+              initialProofingSubmittedAt={initialProofingSubmittedAt}
+              railExtras={railExtras}
+              suppressFilterBar={suppressFilterBar}
             />
           </SkipTarget>
         </main>
@@ -34,6 +34,7 @@ import {
   type CollectionFilterDimensions,
   computeFilterVisibility,
   countNonListedCollections,
+  expressionTextFromCriteria,
   extractCollectionFilterOptions,
   hasAnyActiveFilter,
   hasFilterableOptions,
@@ -45,6 +46,7 @@ import { getMeanWidthCost } from '@/app/utils/contentRatingUtils';
 import { isContentCollection, isGifContent } from '@/app/utils/contentTypeGuards';
 import {
   canDownloadCollection,
+  type EditScope,
   findMembership,
   isClientOfCollection,
 } from '@/app/utils/galleryAccess';
@@ -69,6 +71,11 @@ import { SelectsProvider } from './SelectsContext';
  */
 const EditModeLayer = dynamic(() => import('./edit/EditModeLayer'), { ssr: false });
 
+/** The curation-only layer for a COLLABORATOR member; its own chunk, for the same reason. */
+const CollaboratorEditLayer = dynamic(() => import('./edit/CollaboratorEditLayer'), {
+  ssr: false,
+});
+
 interface CollectionPageClientProps {
   collection: CollectionModel;
   chunkSize?: number;
@@ -83,12 +90,22 @@ interface CollectionPageClientProps {
    * loaded.
    */
   editMode?: boolean;
+  /**
+   * Which layer `editMode` mounts: EditModeLayer for an admin, or CollaboratorEditLayer — reorder,
+   * captions, tags, ratings and cover only — for a COLLABORATOR member of this collection.
+   */
+  editScope?: EditScope;
   /** Server-resolved principal, surfaced to deep client consumers via {@link MeProvider}. */
   me?: MeResponse | null;
   /** The viewer's persisted selected image ids for THIS collection, seeded server-side. */
   initialSelectedIds?: number[];
   /** The viewer's GLOBAL saved (bookmarked) image ids, seeded server-side. Cross-collection. */
   initialSavedImageIds?: number[];
+  /**
+   * When the viewer submitted their proofing picks for THIS collection, seeded server-side. Only
+   * read when the collection has a `proofingTarget`; null while the viewer is still choosing.
+   */
+  initialProofingSubmittedAt?: string | null;
   /**
    * Mutually-exclusive page sections for a sectioned surface (`/user`). Passing these renders the
    * shared filter bar even on a page with no facet dimensions of its own, with the sections as
@@ -114,6 +131,14 @@ interface CollectionPageClientProps {
    * "bar only when there is something to filter" behaviour.
    */
   alwaysShowFilterBar?: boolean;
+  /**
+   * Hand filtering to the caller: no shared filter bar, and no filter state seeded from the URL.
+   *
+   * For surfaces whose content is ALREADY the filtered set — `/search` runs its query server-side
+   * and refines facets with its own toolbar in {@link railExtras}. Seeding here from the same URL
+   * would filter that set a second time, and keep filtering after the caller's chip was cleared.
+   */
+  suppressFilterBar?: boolean;
 }
 
 export default function CollectionPageClient({
@@ -123,13 +148,16 @@ export default function CollectionPageClient({
   serverViewportHeight,
   serverIsMobile,
   editMode = false,
+  editScope = 'admin',
   me = null,
   initialSelectedIds = [],
   initialSavedImageIds = [],
+  initialProofingSubmittedAt = null,
   sections,
   activeSectionKey,
   railExtras = null,
   alwaysShowFilterBar = false,
+  suppressFilterBar = false,
 }: CollectionPageClientProps) {
   // Public grid is the loading fallback until EditModeLayer mounts and takes over.
   const [editLayerMounted, setEditLayerMounted] = useState(false);
@@ -146,14 +174,16 @@ export default function CollectionPageClient({
   // Named rather than inlined into the initializer below because a sectioned page resets back to
   // it on every section switch — see `renderedSectionKey`. One definition keeps "the state a fresh
   // view starts in" identical whether that view came from a mount or from a section change.
+  const seededCriteria = suppressFilterBar ? {} : initialCriteria;
   const initialFilterState: FilterState = {
     ...INITIAL_FILTER_STATE,
     dateSortDirection: editMode ? 'off' : initialDateSortDirection(collection.displayMode),
-    highlyRatedOnly: initialCriteria.minRating !== undefined && initialCriteria.minRating >= 4,
-    selectedPeople: initialCriteria.people ?? [],
-    selectedCameras: initialCriteria.cameras ?? [],
-    selectedLocations: initialCriteria.locations ?? [],
-    selectedDates: initialCriteria.dates ?? [],
+    highlyRatedOnly: seededCriteria.minRating !== undefined && seededCriteria.minRating >= 4,
+    selectedPeople: seededCriteria.people ?? [],
+    selectedCameras: seededCriteria.cameras ?? [],
+    selectedLocations: seededCriteria.locations ?? [],
+    selectedDates: seededCriteria.dates ?? [],
+    expression: expressionTextFromCriteria(seededCriteria),
   };
 
   const [filterState, setFilterState] = useState<FilterState>(initialFilterState);
@@ -225,6 +255,11 @@ export default function CollectionPageClient({
   // Selects/favorites above.
   const canDownload = canDownloadCollection(me, collection);
 
+  // Proofing rides on Selects: a target on a client gallery turns the viewer's Selects into their
+  // pick list, with the meter in the header rail (see ProofingMeter).
+  const proofingTarget = selectsEnabled ? (collection.proofingTarget ?? null) : null;
+  const isProofing = proofingTarget !== null;
+
   // Mirror of the viewer's selected ids, owned here so the pinned "Your Selects" prepend can react
   // to toggles. SelectsProvider is seeded from the same initial list and notifies us via onChange.
   const [pinnedSelectedIds, setPinnedSelectedIds] = useState<number[]>(initialSelectedIds);
@@ -364,6 +399,10 @@ export default function CollectionPageClient({
 
   const hiddenCount = useMemo(() => countNonListedCollections(rawContent), [rawContent]);
 
+  // The expression only ever filters images, so it is offered once there are two to tell apart —
+  // and kept while one is committed, so a shared `?expr=` link can always be cleared.
+  const showExpression = allImages.length >= 2 || filterState.expression !== '';
+
   const filteredAvailableOptions = useMemo(() => {
     if (!hasActiveFilters) return null;
     const dims = extractCollectionFilterOptions(filteredImages, allCollections);
@@ -400,8 +439,16 @@ export default function CollectionPageClient({
       showDateSort,
       showHiddenToggle,
       hiddenCount,
+      showExpression,
     }),
-    [baseCollectionOptions, showHighlyRated, showDateSort, showHiddenToggle, hiddenCount]
+    [
+      baseCollectionOptions,
+      showHighlyRated,
+      showDateSort,
+      showHiddenToggle,
+      hiddenCount,
+      showExpression,
+    ]
   );
 
   const contentBlocks = useMemo(() => {
@@ -500,8 +547,10 @@ export default function CollectionPageClient({
   // density slider) that makes it match an ordinary collection page.
   const hasOptions =
     !isHomeShowcaseView &&
+    !suppressFilterBar &&
     (alwaysShowFilterBar ||
       (sections !== undefined && sections.length > 0) ||
+      filterState.expression !== '' ||
       hasFilterableOptions(baseCollectionOptions, showHighlyRated, showDateSort));
 
   const grid = (
@@ -520,8 +569,8 @@ export default function CollectionPageClient({
       // The filter bar and the download row both mount into the header's metadata rail, so the
       // rail has to exist whenever either will render — even on a collection with no metadata
       // text of its own. Without this, `/user` (no date, no locations, no siblings) built a
-      // cover-only header and silently dropped the bar.
-      forceHeaderRail={hasOptions || canDownload}
+      // cover-only header and silently dropped the bar. The proofing meter mounts there too.
+      forceHeaderRail={hasOptions || canDownload || isProofing || Boolean(railExtras)}
       widthCostBaseline={widthCostBaseline}
       serverContentWidth={serverContentWidth}
       serverViewportHeight={serverViewportHeight}
@@ -534,16 +583,29 @@ export default function CollectionPageClient({
   const content = editMode ? (
     <>
       {!editLayerMounted && grid}
-      <EditModeLayer
-        collection={collection}
-        chunkSize={density}
-        mobileChunkSize={mobileDensity}
-        filterState={filterState}
-        setFilterState={setFilterState}
-        syncToUrl={syncToUrl}
-        onMounted={handleEditLayerMounted}
-        onLiveContentChange={setLiveEditContent}
-      />
+      {editScope === 'collaborator' ? (
+        <CollaboratorEditLayer
+          collection={collection}
+          chunkSize={density}
+          mobileChunkSize={mobileDensity}
+          filterState={filterState}
+          setFilterState={setFilterState}
+          syncToUrl={syncToUrl}
+          onMounted={handleEditLayerMounted}
+          onLiveContentChange={setLiveEditContent}
+        />
+      ) : (
+        <EditModeLayer
+          collection={collection}
+          chunkSize={density}
+          mobileChunkSize={mobileDensity}
+          filterState={filterState}
+          setFilterState={setFilterState}
+          syncToUrl={syncToUrl}
+          onMounted={handleEditLayerMounted}
+          onLiveContentChange={setLiveEditContent}
+        />
+      )}
     </>
   ) : (
     <>
@@ -558,6 +620,8 @@ export default function CollectionPageClient({
     <SelectsProvider
       collectionId={collection.id}
       initialSelectedIds={initialSelectedIds}
+      proofingTarget={proofingTarget}
+      initialSubmittedAt={initialProofingSubmittedAt}
       onChange={setPinnedSelectedIds}
     >
       {content}
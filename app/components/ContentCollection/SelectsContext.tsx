@@ -2,7 +2,7 @@
 
 import { createContext, type ReactNode, useCallback, useContext, useMemo, useState } from 'react';
 
-import { addSelect, removeSelect } from '@/app/lib/api/selects';
+import { addSelect, removeSelect, submitSelects } from '@/app/lib/api/selects';
 import { logger } from '@/app/utils/logger';
 
 /**
@@ -12,7 +12,18 @@ import { logger } from '@/app/utils/logger';
  *
  * Deliberately distinct from `ClientGalleryDownloadContext` (the ephemeral download cart): this
  * persists a user's favorites and is named `Selects`/`useSelects` to avoid any collision.
+ *
+ * On a collection with a proofing target the same Set is the client's pick list, and `proofing`
+ * carries the target and whether it has been submitted. A submitted list is locked: `toggle`
+ * becomes a no-op rather than an optimistic flip the backend would refuse.
  */
+export interface SelectsProofing {
+  /** How many images the client was asked to pick. */
+  target: number;
+  /** When the picks were submitted; null while the client is still choosing. */
+  submittedAt: string | null;
+}
+
 export interface SelectsContextValue {
   /** The collection these selects belong to. */
   collectionId: number;
@@ -22,6 +33,10 @@ export interface SelectsContextValue {
   isSelected: (contentId: number) => boolean;
   /** Optimistically add/remove the image; persists and rolls back on failure. */
   toggle: (contentId: number) => void;
+  /** Proofing state when the collection has a pick target; null otherwise. */
+  proofing: SelectsProofing | null;
+  /** Submit the picks as final. Rejects on failure so the caller can say why. */
+  submit: () => Promise<void>;
 }
 
 const SelectsContext = createContext<SelectsContextValue | null>(null);
@@ -29,11 +44,17 @@ const SelectsContext = createContext<SelectsContextValue | null>(null);
 export function SelectsProvider({
   collectionId,
   initialSelectedIds,
+  proofingTarget = null,
+  initialSubmittedAt = null,
   onChange,
   children,
 }: {
   collectionId: number;
   initialSelectedIds: number[];
+  /** The collection's proofing target; null or absent when proofing is off. */
+  proofingTarget?: number | null;
+  /** Server-seeded submission time, when the viewer has already submitted. */
+  initialSubmittedAt?: string | null;
   /**
    * Optional notifier fired with the next id list after every optimistic update (toggle + rollback).
    * Lets an owner (CollectionPageClient) mirror the Set to drive the pinned "Your Selects" prepend
@@ -43,11 +64,14 @@ export function SelectsProvider({
   children: ReactNode;
 }) {
   const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set(initialSelectedIds));
+  const [submittedAt, setSubmittedAt] = useState<string | null>(initialSubmittedAt);
+  const locked = proofingTarget !== null && submittedAt !== null;
 
   const isSelected = useCallback((contentId: number) => selectedIds.has(contentId), [selectedIds]);
 
   const toggle = useCallback(
     (contentId: number) => {
+      if (locked) return;
       const wasSelected = selectedIds.has(contentId);
 
       // Optimistic update.
@@ -82,12 +106,22 @@ export function SelectsProvider({
         });
       });
     },
-    [collectionId, selectedIds, onChange]
+    [collectionId, selectedIds, onChange, locked]
+  );
+
+  const submit = useCallback(async () => {
+    const status = await submitSelects(collectionId);
+    setSubmittedAt(status.submittedAt);
+  }, [collectionId]);
+
+  const proofing = useMemo<SelectsProofing | null>(
+    () => (proofingTarget === null ? null : { target: proofingTarget, submittedAt }),
+    [proofingTarget, submittedAt]
   );
 
   const value = useMemo<SelectsContextValue>(
-    () => ({ collectionId, selectedIds, isSelected, toggle }),
-    [collectionId, selectedIds, isSelected, toggle]
+    () => ({ collectionId, selectedIds, isSelected, toggle, proofing, submit }),
+    [collectionId, selectedIds, isSelected, toggle, proofing, submit]
   );
 
   return <SelectsContext value={value}>{children}</SelectsContext>;
@@ -0,0 +1,276 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import {
+  type Dispatch,
+  type SetStateAction,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+} from 'react';
+
+import ContentBlockWithFullScreen from '@/app/components/Content/ContentBlockWithFullScreen';
+import { EditBar } from '@/app/components/ui/EditBar/EditBar';
+import { type EditBarCell } from '@/app/components/ui/EditBar/types';
+import { IconButton } from '@/app/components/ui/IconButton/IconButton';
+import { type CollectionModel } from '@/app/types/Collection';
+import { type AnyContentModel } from '@/app/types/Content';
+import { type FilterState, INITIAL_FILTER_STATE } from '@/app/types/GalleryFilter';
+import { type ContentTagModel } from '@/app/types/Metadata';
+import {
+  applyCollectionFilters,
+  buildCollectionCriteria,
+  type ContentFilterCriteria,
+  hasAnyActiveFilter,
+  isImageContent,
+} from '@/app/utils/contentFilter';
+import { processContentBlocks } from '@/app/utils/contentLayout';
+import { applySort } from '@/app/utils/sortContent';
+
+import { CollaboratorImageEditor } from './CollaboratorImageEditor';
+import styles from './EditModeLayer.module.scss';
+import { useCollaboratorEdit } from './hooks/useCollaboratorEdit';
+
+export interface CollaboratorEditLayerProps {
+  /** The server-fetched collection the collaborator is curating. */
+  collection: CollectionModel;
+  /** Row-density budgets, mirrored from CollectionPageClient like EditModeLayer's. */
+  chunkSize?: number;
+  mobileChunkSize?: number;
+  /** Page-level filter state owned by CollectionPageClient. */
+  filterState: FilterState;
+  setFilterState: Dispatch<SetStateAction<FilterState>>;
+  syncToUrl: (criteria: ContentFilterCriteria) => void;
+  /** Fired pre-paint on mount so the parent can drop its public-grid loading fallback. */
+  onMounted: () => void;
+  /** Same contract as EditModeLayer's: live content on every change, null on unmount. */
+  onLiveContentChange?: (content: AnyContentModel[] | null) => void;
+}
+
+/**
+ * The `?manage=1` surface for a COLLABORATOR member of this collection: the grid with reorder,
+ * cover picking and a per-image caption / tags / rating editor, on the same EditBar the admin
+ * uses. There is no edit sheet, upload, select or delete — the controls for access, roles,
+ * visibility and removal are simply not here, and the `edit` channel would refuse them anyway.
+ *
+ * Loaded via `next/dynamic` like EditModeLayer, so neither layer's code reaches public visitors
+ * and a collaborator never downloads the admin one.
+ */
+export default function CollaboratorEditLayer({
+  collection,
+  chunkSize,
+  mobileChunkSize,
+  filterState,
+  setFilterState,
+  syncToUrl,
+  onMounted,
+  onLiveContentChange,
+}: CollaboratorEditLayerProps) {
+  const router = useRouter();
+  const edit = useCollaboratorEdit({ collection });
+
+  useLayoutEffect(() => {
+    onMounted();
+  }, [onMounted]);
+
+  const handleExitManage = useCallback(() => {
+    router.push(`/${collection.slug}`);
+  }, [router, collection.slug]);
+
+  const allContent = useMemo(
+    () => edit.liveCollection.content ?? [],
+    [edit.liveCollection.content]
+  );
+
+  useEffect(() => {
+    onLiveContentChange?.(allContent);
+    return () => onLiveContentChange?.(null);
+  }, [allContent, onLiveContentChange]);
+
+  const allImages = useMemo(() => allContent.filter(isImageContent), [allContent]);
+
+  // The picker offers the tags already in use here; a collaborator can still type a new one.
+  const availableTags = useMemo(() => {
+    const byId = new Map<number, ContentTagModel>();
+    for (const image of allImages) {
+      for (const tag of image.tags ?? []) byId.set(tag.id, tag);
+    }
+    return [...byId.values()];
+  }, [allImages]);
+
+  const hasActiveFilters = hasAnyActiveFilter(filterState);
+
+  const contentBlocks = useMemo(() => {
+    const filtered = hasActiveFilters
+      ? applyCollectionFilters(allContent, allImages, buildCollectionCriteria(filterState))
+      : allContent;
+    const processed = processContentBlocks(
+      filtered,
+      true,
+      edit.liveCollection.id,
+      edit.liveCollection.displayMode
+    );
+    return applySort(processed, filterState.dateSortDirection);
+  }, [
+    allContent,
+    allImages,
+    filterState,
+    hasActiveFilters,
+    edit.liveCollection.id,
+    edit.liveCollection.displayMode,
+  ]);
+
+  // Reordering works on the whole collection, so entering it clears any filter first.
+  const handleEnterReorder = useCallback(() => {
+    if (hasActiveFilters) {
+      setFilterState(INITIAL_FILTER_STATE);
+      syncToUrl(buildCollectionCriteria(INITIAL_FILTER_STATE));
+    }
+    const ordered = processContentBlocks(
+      allContent,
+      true,
+      edit.liveCollection.id,
+      edit.liveCollection.displayMode
+    );
+    edit.reorder.enter(ordered.map(block => block.id));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    hasActiveFilters,
+    setFilterState,
+    syncToUrl,
+    allContent,
+    edit.liveCollection.id,
+    edit.liveCollection.displayMode,
+    edit.reorder.enter,
+  ]);
+
+  const displayContent = useMemo(() => {
+    if (!edit.reorder.active) return contentBlocks;
+    const position = new Map(edit.reorder.displayOrder.map((id, index) => [id, index]));
+    return [...contentBlocks].sort(
+      (a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity)
+    );
+  }, [edit.reorder.active, edit.reorder.displayOrder, contentBlocks]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape' || event.defaultPrevented || edit.editingImage) return;
+      if (edit.mode === 'browse') {
+        handleExitManage();
+      } else {
+        edit.exitToBrowse();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [edit.editingImage, edit.mode, edit.exitToBrowse, handleExitManage]);
+
+  const cells = useMemo<EditBarCell[]>(() => {
+    if (edit.mode === 'pick-cover') {
+      return [{ key: 'cancel', label: 'Cancel', onClick: edit.exitToBrowse }];
+    }
+    if (edit.mode === 'reorder') {
+      return [
+        {
+          key: 'save',
+          label: 'Save',
+          variant: 'primary',
+          disabled: edit.saving || edit.reorder.moves.length === 0,
+          onClick: () => void edit.reorder.save(),
+        },
+        { key: 'cancel', label: 'Cancel', onClick: edit.exitToBrowse },
+      ];
+    }
+    return [
+      {
+        key: 'reorder',
+        label: 'Reorder',
+        disabled: edit.saving,
+        onClick: handleEnterReorder,
+      },
+      {
+        key: 'cover',
+        label: 'Cover',
+        disabled: edit.saving || allImages.length === 0,
+        onClick: edit.startPickCover,
+      },
+      { key: 'cancel', label: 'Close', onClick: handleExitManage },
+    ];
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    edit.mode,
+    edit.saving,
+    edit.exitToBrowse,
+    edit.startPickCover,
+    edit.reorder.moves.length,
+    edit.reorder.save,
+    handleEnterReorder,
+    allImages.length,
+    handleExitManage,
+  ]);
+
+  return (
+    <>
+      <div className={styles.editCanvas}>
+        <ContentBlockWithFullScreen
+          content={displayContent}
+          priorityBlockIndex={0}
+          enableFullScreenView={false}
+          chunkSize={chunkSize}
+          mobileChunkSize={mobileChunkSize}
+          isSelectingCoverImage={edit.mode === 'pick-cover'}
+          currentCoverImageId={edit.liveCollection.coverImage?.id}
+          onImageClick={edit.reorder.active ? undefined : edit.handleImageClick}
+          currentCollectionId={collection.id}
+          collectionSlug={collection.slug}
+          collectionData={edit.liveCollection}
+          isReorderMode={edit.reorder.active}
+          reorderMoves={edit.reorder.active ? edit.reorder.moves : undefined}
+          pickedUpImageId={edit.reorder.active ? edit.reorder.pickedUpImageId : undefined}
+          reorderDisplayOrder={edit.reorder.active ? edit.reorder.displayOrder : undefined}
+          onArrowMove={edit.reorder.active ? edit.reorder.onArrowMove : undefined}
+          onPickUp={edit.reorder.active ? edit.reorder.onPickUp : undefined}
+          onPlace={edit.reorder.active ? edit.reorder.onPlace : undefined}
+          onCancelImageMove={edit.reorder.active ? edit.reorder.onCancelImageMove : undefined}
+        />
+      </div>
+
+      {edit.error && !edit.editingImage && (
+        <div className={styles.errorBanner} role="alert">
+          <span className={styles.errorBannerText}>{edit.error}</span>
+          <IconButton
+            size="sm"
+            className={styles.errorBannerDismiss}
+            aria-label="Dismiss error"
+            onClick={edit.clearError}
+          >
+            <span aria-hidden="true">×</span>
+          </IconButton>
+        </div>
+      )}
+
+      {edit.mode === 'pick-cover' && (
+        <div className={styles.hintBanner} role="status">
+          Click any image to make it the cover.
+        </div>
+      )}
+
+      {!edit.editingImage && <EditBar ariaLabel="Collaborate" fixed cells={cells} />}
+
+      {edit.editingImage && (
+        <CollaboratorImageEditor
+          // Keyed per image so the form starts from that image's saved values.
+          key={edit.editingImage.id}
+          image={edit.editingImage}
+          availableTags={availableTags}
+          saving={edit.saving}
+          error={edit.error}
+          onSave={edit.saveImage}
+          onClose={edit.closeEditor}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import Image from 'next/image';
+import { type FormEvent, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Field } from '@/app/components/ui/Field/Field';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Select } from '@/app/components/ui/Field/Select';
+import { Textarea } from '@/app/components/ui/Field/Textarea';
+import { Modal } from '@/app/components/ui/Modal/Modal';
+import TagsSelector from '@/app/components/ui/TagsSelector/TagsSelector';
+import { type CollaboratorImageUpdate } from '@/app/types/Collaboration';
+import { type ContentImageModel } from '@/app/types/Content';
+import { type ContentTagModel } from '@/app/types/Metadata';
+import { buildTagsDiff } from '@/app/utils/tagUtils';
+
+import styles from './CollaboratorImageEditor.module.scss';
+
+const RATING_OPTIONS: ReadonlyArray<{ value: string; label: string }> = [
+  { value: '', label: 'No rating' },
+  { value: '1', label: '1 Star' },
+  { value: '2', label: '2 Stars' },
+  { value: '3', label: '3 Stars' },
+  { value: '4', label: '4 Stars' },
+  { value: '5', label: '5 Stars' },
+];
+
+interface CollaboratorImageEditorProps {
+  image: ContentImageModel;
+  /** Tags already used in the collection, offered by the picker; new ones can be typed in. */
+  availableTags: ContentTagModel[];
+  saving: boolean;
+  error: string | null;
+  /** Resolves false when the save failed, which keeps the editor open. */
+  onSave: (update: CollaboratorImageUpdate) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/**
+ * Caption, tags and rating for one image — everything a collaborator may change about it. Only
+ * the fields that changed are sent, so saving an untouched form closes without a request (and
+ * without an entry in the activity log).
+ */
+export function CollaboratorImageEditor({
+  image,
+  availableTags,
+  saving,
+  error,
+  onSave,
+  onClose,
+}: CollaboratorImageEditorProps) {
+  const [caption, setCaption] = useState(image.caption ?? '');
+  const [rating, setRating] = useState(image.rating?.toString() ?? '');
+  const [tags, setTags] = useState<ContentTagModel[]>(image.tags ?? []);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const update: CollaboratorImageUpdate = { id: image.id };
+    const nextCaption = caption.trim() || null;
+    if (nextCaption !== (image.caption || null)) update.caption = nextCaption;
+    const nextRating = rating ? Number.parseInt(rating, 10) : null;
+    if (nextRating !== (image.rating ?? null)) update.rating = nextRating;
+    const tagsDiff = buildTagsDiff(tags, image.tags);
+    if (tagsDiff) update.tags = tagsDiff;
+
+    if (Object.keys(update).length === 1 || (await onSave(update))) {
+      onClose();
+    }
+  };
+
+  const label = image.title || 'image';
+
+  return (
+    <Modal open onClose={onClose} variant="overlay" labelledBy="collaborator-image-title">
+      <form className={styles.card} onSubmit={handleSubmit}>
+        <h2 id="collaborator-image-title" className={styles.title}>
+          Edit {label}
+        </h2>
+        <Image
+          className={styles.preview}
+          src={image.imageUrl}
+          alt={image.alt || image.title || ''}
+          width={image.imageWidth || 480}
+          height={image.imageHeight || 320}
+          sizes="28rem"
+        />
+        <Field label="Caption" htmlFor="collaborator-caption">
+          <Textarea
+            id="collaborator-caption"
+            value={caption}
+            onChange={event => setCaption(event.target.value)}
+            rows={3}
+            disabled={saving}
+          />
+        </Field>
+        <TagsSelector selectedTags={tags} availableTags={availableTags} onChange={setTags} />
+        <Field label="Rating" htmlFor="collaborator-rating">
+          <Select
+            id="collaborator-rating"
+            value={rating}
+            onChange={event => setRating(event.target.value)}
+            disabled={saving}
+          >
+            {RATING_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+        </Field>
+        {error && <FormError>{error}</FormError>}
+        <div className={styles.actions}>
+          <Button type="button" variant="ghost" disabled={saving} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={saving}>
+            Save
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default CollaboratorImageEditor;
@@ -0,0 +1,531 @@
+'use client';
+
+import Image from 'next/image';
+import {
+  type KeyboardEvent as ReactKeyboardEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { FullScreenModal } from '@/app/components/FullScreenModal/FullScreenModal';
+import { Button } from '@/app/components/ui/Button/Button';
+import { Modal } from '@/app/components/ui/Modal/Modal';
+import { useFullScreenImage } from '@/app/hooks/useFullScreenImage';
+import { type CollectionModel } from '@/app/types/Collection';
+import { type ContentImageModel } from '@/app/types/Content';
+import { type ContentTagModel } from '@/app/types/Metadata';
+import { humanLabel } from '@/app/utils/contentRendererUtils';
+import { lightroomFilter } from '@/app/utils/pickList';
+
+import {
+  CULL_SHORTCUTS,
+  type CullAction,
+  cullKeyAction,
+  type CullState,
+  type CullSummary,
+  isEmptyCullSummary,
+  summarizeCull,
+  toggleCullTag,
+} from './cullingUtils';
+import styles from './CullingView.module.scss';
+import { type CullingSession, useCullingSession } from './hooks/useCullingSession';
+
+/** Tags listed in the palette at once; typing narrows the rest. */
+const PALETTE_LIMIT = 8;
+
+type CompareSide = 'select' | 'candidate';
+
+interface CullingViewProps {
+  /** The images to cull, in the order the grid shows them. */
+  images: ContentImageModel[];
+  collection: CollectionModel;
+  /** Existing tags offered by the T palette. New tags are made in the metadata editor. */
+  availableTags: ContentTagModel[];
+  /** Fired when the admin dismisses the summary, with every image the session saved. */
+  onClose: (savedImages: ContentImageModel[]) => void;
+}
+
+const stars = (rating: number | null) => '★'.repeat(rating ?? 0) + '☆'.repeat(5 - (rating ?? 0));
+
+function flagLabel(state: CullState): string | null {
+  if (state.flag === 'pick') return 'Pick';
+  if (state.flag === 'reject') return 'Rejected';
+  return null;
+}
+
+interface TagPaletteProps {
+  state: CullState;
+  availableTags: ContentTagModel[];
+  onToggle: (tagId: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * The T palette: a filter box over the existing tags. Enter toggles the first match and closes,
+ * a click toggles and stays open for the next, Escape closes without touching the viewer.
+ */
+function TagPalette({ state, availableTags, onToggle, onClose }: TagPaletteProps) {
+  const [query, setQuery] = useState('');
+  const needle = query.trim().toLowerCase();
+  const matches = availableTags
+    .filter(tag => tag.name.toLowerCase().includes(needle))
+    .slice(0, PALETTE_LIMIT);
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      // Stop here, or the Modal under the viewer reads it as "close the viewer".
+      event.stopPropagation();
+      onClose();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const first = matches[0];
+      if (first) onToggle(first.id);
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.palette} role="group" aria-label="Tags">
+      <input
+        className={styles.paletteInput}
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Filter tags…"
+        aria-label="Filter tags"
+        // The palette opens from a key press; typing goes straight into it.
+        autoFocus
+      />
+      {matches.length > 0 ? (
+        <ul className={styles.paletteList}>
+          {matches.map(tag => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                className={`${styles.hudButton} ${styles.paletteTag}`}
+                aria-pressed={state.tagIds.includes(tag.id)}
+                onClick={() => onToggle(tag.id)}
+              >
+                {tag.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.paletteEmpty}>No matching tags.</p>
+      )}
+    </div>
+  );
+}
+
+interface ComparePaneProps {
+  image: ContentImageModel;
+  state: CullState;
+  side: CompareSide;
+  active: boolean;
+  onSelect: () => void;
+}
+
+function ComparePane({ image, state, side, active, onSelect }: ComparePaneProps) {
+  const name = humanLabel(image.title, image.caption, image.alt) ?? `Image ${image.id}`;
+  const flag = flagLabel(state);
+  return (
+    <button
+      type="button"
+      className={`${styles.comparePane} ${active ? styles.comparePaneActive : ''}`}
+      aria-pressed={active}
+      aria-label={`${side === 'select' ? 'Select' : 'Candidate'}: ${name}`}
+      onClick={onSelect}
+    >
+      <span className={styles.compareImage}>
+        <Image src={image.imageUrl} alt="" fill sizes="50vw" className={styles.compareImg} />
+      </span>
+      <span className={styles.compareCaption}>
+        <span aria-hidden="true">{stars(state.rating)}</span>
+        {flag && <span className={styles.flag}>{flag}</span>}
+      </span>
+    </button>
+  );
+}
+
+interface CullingSummaryProps {
+  summary: CullSummary;
+  session: CullingSession;
+  picks: ContentImageModel[];
+  onDone: () => void;
+}
+
+/**
+ * End-of-session summary. Opens as soon as the viewer closes, while the last batch is still
+ * going out; Done waits for it, and a failed save offers a retry rather than dropping the work.
+ */
+function CullingSummary({ summary, session, picks, onDone }: CullingSummaryProps) {
+  const [copied, setCopied] = useState(false);
+  const { saving, error, pendingCount, flush } = session;
+  const filter = lightroomFilter(picks);
+
+  const lines = [
+    summary.rated > 0 && `${summary.rated} rated`,
+    summary.unrated > 0 && `${summary.unrated} rating${summary.unrated === 1 ? '' : 's'} cleared`,
+    summary.picked.length > 0 && `${summary.picked.length} picked`,
+    summary.rejected > 0 && `${summary.rejected} rejected and hidden from this collection`,
+    summary.restored > 0 && `${summary.restored} shown again`,
+    summary.retagged > 0 && `${summary.retagged} retagged`,
+  ].filter((line): line is string => typeof line === 'string');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(filter);
+      setCopied(true);
+    } catch {
+      // Clipboard permission can be refused; the filter is on screen and selectable regardless.
+    }
+  };
+
+  return (
+    <Modal
+      open
+      // Not while the last batch is out: closing now would report it as unsaved.
+      onClose={() => !saving && onDone()}
+      variant="overlay"
+      labelledBy="culling-summary-title"
+    >
+      <div className={styles.summary}>
+        <h2 id="culling-summary-title" className={styles.summaryTitle}>
+          Culling summary
+        </h2>
+        {isEmptyCullSummary(summary) ? (
+          <p className={styles.muted}>Nothing was changed.</p>
+        ) : (
+          <ul className={styles.summaryList}>
+            {lines.map(line => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        )}
+
+        {filter && (
+          <>
+            <label className={styles.muted} htmlFor="culling-picks-filter">
+              Lightroom filename filter for the picks
+            </label>
+            <textarea
+              id="culling-picks-filter"
+              className={styles.filter}
+              value={filter}
+              readOnly
+              rows={2}
+            />
+          </>
+        )}
+
+        {saving && (
+          <p className={styles.muted} role="status">
+            Saving the last changes…
+          </p>
+        )}
+        {error && !saving && (
+          <p className={styles.error} role="alert">
+            {error} {pendingCount} {pendingCount === 1 ? 'image is' : 'images are'} not saved yet.
+          </p>
+        )}
+
+        <div className={styles.actions}>
+          {filter && (
+            <Button variant="outline" onClick={() => void handleCopy()}>
+              {copied ? 'Copied' : 'Copy file names'}
+            </Button>
+          )}
+          {error && !saving && (
+            <Button variant="outline" onClick={() => void flush()}>
+              Retry
+            </Button>
+          )}
+          <Button onClick={onDone} disabled={saving}>
+            Done
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+/**
+ * Keyboard culling on top of the fullscreen viewer, for working through a whole shoot at speed:
+ * 1–5 rate and 0 clears, P picks, X rejects (hides the image in this collection), U unflags, and T
+ * opens a tag palette. With auto-advance on, rating or flagging moves to the next frame. C puts
+ * the frame beside the next one for a side-by-side; S or a click picks which side the keys act on.
+ * The viewer's own arrows, zoom and swipe work as usual, so focus can be checked at 100%.
+ *
+ * Changes save in batches (see `useCullingSession`). Closing the viewer ends the session with a
+ * summary of what changed; dismissing that hands the saved images to `onClose`.
+ */
+export default function CullingView({
+  images,
+  collection,
+  availableTags,
+  onClose,
+}: CullingViewProps) {
+  const {
+    fullScreenState,
+    loadedImageIds,
+    setLoadedImageIds,
+    modalRef,
+    zoomTargetRef,
+    isZoomed,
+    immersive,
+    toggleImmersive,
+    hideImage,
+    isSwiping,
+    showMetadata,
+    toggleMetadata,
+    router,
+    navigateToNext,
+    navigateToPrevious,
+    showImage,
+    isOpen,
+  } = useFullScreenImage();
+  const session = useCullingSession({
+    collection: { id: collection.id, name: collection.title },
+  });
+  const { stateOf, change, pendingCount, saving, error, flush, originals, states, savedImages } =
+    session;
+
+  const [ended, setEnded] = useState(false);
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  const [compare, setCompare] = useState(false);
+  const [side, setSide] = useState<CompareSide>('select');
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const openedRef = useRef(false);
+
+  const byId = useMemo(() => new Map(images.map(image => [image.id, image])), [images]);
+
+  useEffect(() => {
+    const first = images[0];
+    if (first) showImage(first, images);
+    // Opens once; the viewer owns navigation from here.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Closing the viewer (Escape, the close button, a tap outside the photo) ends the session.
+  useEffect(() => {
+    if (isOpen) {
+      openedRef.current = true;
+    } else if (openedRef.current && !ended) {
+      setEnded(true);
+      void flush();
+    }
+  }, [isOpen, ended, flush]);
+
+  const index = fullScreenState?.currentIndex ?? -1;
+  const current = byId.get(fullScreenState?.images[index]?.id ?? -1);
+  const candidate = byId.get(fullScreenState?.images[index + 1]?.id ?? -1);
+  const comparing = compare && candidate !== undefined;
+  const target = comparing && side === 'candidate' ? candidate : current;
+
+  const perform = useCallback(
+    (action: CullAction) => {
+      if (!target) return;
+      const advance = () => {
+        if (autoAdvance && target === current) navigateToNext();
+      };
+      switch (action.type) {
+        case 'rate':
+          change(target, { rating: action.rating });
+          advance();
+          break;
+        case 'flag':
+          change(target, { flag: action.flag });
+          advance();
+          break;
+        case 'tags':
+          setPaletteOpen(true);
+          break;
+        case 'compare':
+          setCompare(on => !on);
+          setSide('select');
+          break;
+        case 'switch-side':
+          if (comparing) setSide(s => (s === 'select' ? 'candidate' : 'select'));
+          break;
+        case 'auto-advance':
+          setAutoAdvance(on => !on);
+          break;
+      }
+    },
+    [target, current, comparing, autoAdvance, change, navigateToNext]
+  );
+
+  useEffect(() => {
+    if (!isOpen || paletteOpen) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.metaKey || event.ctrlKey || event.altKey) return;
+      if (event.target instanceof Element && event.target.closest('input, textarea')) return;
+      const action = cullKeyAction(event.key);
+      if (!action) return;
+      event.preventDefault();
+      perform(action);
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [isOpen, paletteOpen, perform]);
+
+  const summary = useMemo(() => summarizeCull(originals, states), [originals, states]);
+  const picks = useMemo(
+    () => summary.picked.flatMap(id => byId.get(id) ?? []),
+    [summary.picked, byId]
+  );
+
+  if (ended) {
+    return (
+      <CullingSummary
+        summary={summary}
+        session={session}
+        picks={picks}
+        onDone={() => onClose(savedImages)}
+      />
+    );
+  }
+
+  const targetState = target ? stateOf(target) : null;
+  const flag = targetState ? flagLabel(targetState) : null;
+  const tagNames = targetState
+    ? availableTags.filter(tag => targetState.tagIds.includes(tag.id)).map(tag => tag.name)
+    : [];
+
+  let status = 'All changes saved';
+  if (error) status = `${error} Retrying with the next change.`;
+  else if (saving) status = 'Saving…';
+  else if (pendingCount > 0) status = `${pendingCount} unsaved`;
+
+  return (
+    <FullScreenModal
+      fullScreenState={fullScreenState}
+      loadedImageIds={loadedImageIds}
+      setLoadedImageIds={setLoadedImageIds}
+      modalRef={modalRef}
+      zoomTargetRef={zoomTargetRef}
+      isZoomed={isZoomed}
+      immersive={immersive}
+      toggleImmersive={toggleImmersive}
+      hideImage={hideImage}
+      isSwiping={isSwiping}
+      showMetadata={showMetadata}
+      toggleMetadata={toggleMetadata}
+      router={router}
+      collectionData={collection}
+      navigateToNext={navigateToNext}
+      navigateToPrevious={navigateToPrevious}
+    >
+      {comparing && current && candidate && (
+        <div className={styles.compare} role="group" aria-label="Compare">
+          <ComparePane
+            image={current}
+            state={stateOf(current)}
+            side="select"
+            active={side === 'select'}
+            onSelect={() => setSide('select')}
+          />
+          <ComparePane
+            image={candidate}
+            state={stateOf(candidate)}
+            side="candidate"
+            active={side === 'candidate'}
+            onSelect={() => setSide('candidate')}
+          />
+        </div>
+      )}
+
+      {!immersive && targetState && (
+        <div
+          className={`${styles.hud} ${targetState.flag === 'reject' ? styles.hudRejected : ''}`}
+          role="toolbar"
+          aria-label="Culling"
+        >
+          <div className={styles.hudRow}>
+            <span
+              className={styles.stars}
+              role="img"
+              aria-label={targetState.rating ? `${targetState.rating} stars` : 'Unrated'}
+            >
+              {stars(targetState.rating)}
+            </span>
+            {flag && <span className={styles.flag}>{flag}</span>}
+            {tagNames.map(name => (
+              <span key={name} className={styles.tag}>
+                {name}
+              </span>
+            ))}
+          </div>
+          <div className={styles.hudRow}>
+            <button
+              type="button"
+              className={styles.hudButton}
+              aria-pressed={targetState.flag === 'pick'}
+              onClick={() => perform({ type: 'flag', flag: 'pick' })}
+            >
+              Pick
+            </button>
+            <button
+              type="button"
+              className={styles.hudButton}
+              aria-pressed={targetState.flag === 'reject'}
+              onClick={() => perform({ type: 'flag', flag: 'reject' })}
+            >
+              Reject
+            </button>
+            <button
+              type="button"
+              className={styles.hudButton}
+              aria-expanded={paletteOpen}
+              onClick={() => setPaletteOpen(open => !open)}
+            >
+              Tags
+            </button>
+            <button
+              type="button"
+              className={styles.hudButton}
+              aria-pressed={comparing}
+              disabled={!candidate}
+              onClick={() => perform({ type: 'compare' })}
+            >
+              Compare
+            </button>
+            <button
+              type="button"
+              className={styles.hudButton}
+              aria-pressed={autoAdvance}
+              onClick={() => perform({ type: 'auto-advance' })}
+            >
+              Auto-advance
+            </button>
+          </div>
+          <p className={styles.hudStatus} role="status">
+            {status}
+          </p>
+          <p className={styles.hudKeys}>
+            {CULL_SHORTCUTS.map(({ keys, label }) => (
+              <span key={keys}>
+                <kbd>{keys}</kbd> {label}
+              </span>
+            ))}
+          </p>
+
+          {paletteOpen && target && (
+            <TagPalette
+              state={targetState}
+              availableTags={availableTags}
+              onToggle={tagId =>
+                change(target, { tagIds: toggleCullTag(stateOf(target), tagId).tagIds })
+              }
+              onClose={() => setPaletteOpen(false)}
+            />
+          )}
+        </div>
+      )}
+    </FullScreenModal>
+  );
+}
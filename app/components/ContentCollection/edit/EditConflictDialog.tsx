@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Modal } from '@/app/components/ui/Modal/Modal';
+
+import styles from './EditConflictDialog.module.scss';
+import { type ConflictResolution } from './hooks/useEditQueue';
+import { type EditConflict, fieldLabel } from './offlineEdits';
+
+interface EditConflictDialogProps {
+  conflict: EditConflict;
+  onResolve: (resolution: ConflictResolution) => void;
+  busy?: boolean;
+}
+
+const fieldKey = (imageId: number, field: string) => `${imageId}:${field}`;
+
+const DESCRIPTIONS: Record<EditConflict['reason'], string> = {
+  changed: 'Someone saved this after you made your change offline.',
+  missing: 'An image in this change is no longer in the collection.',
+  rejected: 'The server refused this change when it was sent.',
+};
+
+/**
+ * Shown when replaying offline edits stops on one that cannot be sent as-is. Image edits list each
+ * field next to the server's current value, with a per-field choice of which to keep; a reorder is
+ * all-or-nothing. Closing the dialog leaves the edit queued for the next sync.
+ */
+export function EditConflictDialog({ conflict, onResolve, busy = false }: EditConflictDialogProps) {
+  const [keepMine, setKeepMine] = useState<Set<string>>(
+    () => new Set(conflict.fields.map(row => fieldKey(row.imageId, row.field)))
+  );
+  const { reason, edit, fields, message } = conflict;
+  const multipleImages = new Set(fields.map(row => row.imageId)).size > 1;
+
+  const toggle = (key: string) =>
+    setKeepMine(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+
+  return (
+    <Modal
+      open
+      onClose={() => onResolve({ kind: 'defer' })}
+      variant="overlay"
+      labelledBy="edit-conflict-title"
+    >
+      <div className={styles.card}>
+        <h2 id="edit-conflict-title" className={styles.title}>
+          {edit.label}: offline change not sent
+        </h2>
+        <p className={styles.muted}>{message ?? DESCRIPTIONS[reason]}</p>
+
+        {fields.length > 0 && (
+          <table className={styles.diff}>
+            <thead>
+              <tr>
+                <th scope="col">Keep mine</th>
+                <th scope="col">Field</th>
+                <th scope="col">Mine</th>
+                <th scope="col">Server</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(row => {
+                const key = fieldKey(row.imageId, row.field);
+                const label = multipleImages
+                  ? `Image ${row.imageId} · ${fieldLabel(row.field)}`
+                  : fieldLabel(row.field);
+                return (
+                  <tr key={key} className={row.mine === row.server ? styles.same : undefined}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={keepMine.has(key)}
+                        onChange={() => toggle(key)}
+                        aria-label={`Keep my ${label}`}
+                      />
+                    </td>
+                    <th scope="row">{label}</th>
+                    <td>{row.mine}</td>
+                    <td>{row.server}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className={styles.actions}>
+          <Button variant="ghost" onClick={() => onResolve({ kind: 'defer' })} disabled={busy}>
+            Decide later
+          </Button>
+          {reason === 'changed' ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => onResolve({ kind: 'discard' })}
+                disabled={busy}
+              >
+                Keep server
+              </Button>
+              <Button
+                onClick={() =>
+                  onResolve(fields.length > 0 ? { kind: 'apply', keepMine } : { kind: 'apply' })
+                }
+                loading={busy}
+              >
+                {fields.length > 0 ? 'Apply selected' : 'Apply mine'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="danger" onClick={() => onResolve({ kind: 'discard' })} loading={busy}>
+              Discard change
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default EditConflictDialog;
@@ -1,5 +1,6 @@
 'use client';
 
+import dynamic from 'next/dynamic';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 import {
@@ -9,16 +10,19 @@ import {
   useEffect,
   useLayoutEffect,
   useMemo,
+  useState,
 } from 'react';
 
 import ContentBlockWithFullScreen from '@/app/components/Content/ContentBlockWithFullScreen';
 import MetadataModal from '@/app/components/Metadata/MetadataModal';
 import TextBlockCreateModal from '@/app/components/TextBlockCreateModal/TextBlockCreateModal';
+import { Button } from '@/app/components/ui/Button/Button';
 import { EditBar } from '@/app/components/ui/EditBar/EditBar';
+import { type EditBarBadge, type EditBarCell } from '@/app/components/ui/EditBar/types';
 import { IconButton } from '@/app/components/ui/IconButton/IconButton';
 import { useViewport } from '@/app/hooks/useViewport';
 import { type CollectionModel } from '@/app/types/Collection';
-import { type AnyContentModel } from '@/app/types/Content';
+import { type AnyContentModel, type ContentImageModel } from '@/app/types/Content';
 import { type FilterState, INITIAL_FILTER_STATE } from '@/app/types/GalleryFilter';
 import {
   applyCollectionFilters,
@@ -28,16 +32,23 @@ import {
   isImageContent,
 } from '@/app/utils/contentFilter';
 import { processContentBlocks } from '@/app/utils/contentLayout';
+import { isCollectionCard } from '@/app/utils/contentRatingUtils';
 import { applySort } from '@/app/utils/sortContent';
 
 import CollectionEditSheet from './CollectionEditSheet';
+import { EditConflictDialog } from './EditConflictDialog';
+import { historyShortcut } from './editHistory';
 import styles from './EditModeLayer.module.scss';
 import {
   type InlineEditContextValue,
   type InlineEditField,
   InlineEditProvider,
 } from './InlineEditContext';
-import { useCollectionEdit } from './useCollectionEdit';
+import { UploadQueuePanel } from './UploadQueuePanel';
+import { useCollectionEdit, type UseCollectionEditResult } from './useCollectionEdit';
+
+// Loaded on demand: culling pulls in the fullscreen viewer, which manage mode otherwise never opens.
+const CullingView = dynamic(() => import('./CullingView'));
 
 export interface EditModeLayerProps {
   /** The server-fetched seed collection (shown until the richer admin DTO loads). */
@@ -66,6 +77,26 @@ export interface EditModeLayerProps {
   onLiveContentChange?: (content: AnyContentModel[] | null) => void;
 }
 
+/** Bottom-bar pill for the offline queue: hidden while online with nothing left to send. */
+function queueBadge({
+  pending,
+  online,
+  syncing,
+  syncNow,
+}: UseCollectionEditResult['offlineQueue']): EditBarBadge | undefined {
+  const count = pending.length;
+  if (online && count === 0) return undefined;
+  if (!online) {
+    return { label: count > 0 ? `Offline · ${count} pending` : 'Offline', tone: 'warning' };
+  }
+  if (syncing) return { label: `Syncing ${count}…` };
+  return {
+    label: `${count} pending`,
+    ariaLabel: `Send ${count} pending ${count === 1 ? 'change' : 'changes'} now`,
+    onClick: () => void syncNow(),
+  };
+}
+
 /**
  * Consolidated edit experience for a collection page: grid, inline-edit context, Escape handler,
  * filter reset, and all edit overlays (EditBar, sheet, metadata + text-block modals).
@@ -107,9 +138,14 @@ export default function EditModeLayer({
   /** True once the admin DTO has loaded; until then edit affordances are disabled. */
   const editReady = !edit.isLoadingState && edit.currentState !== null;
 
+  /** Keyboard culling (see `CullingView`) — layered over the grid, so not a manage mode of its own. */
+  const [culling, setCulling] = useState(false);
+
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
       if (event.key !== 'Escape') return;
+      // The culling viewer closes itself on Escape (and then shows its summary).
+      if (culling) return;
       // Inline editors preventDefault their own Escape; bail so one keypress never both reverts
       // an inline edit AND exits manage mode. The activeElement guard is a backup.
       if (event.defaultPrevented) return;
@@ -130,6 +166,7 @@ export default function EditModeLayer({
     return () => window.removeEventListener('keydown', onKeyDown);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
+    culling,
     edit.editingContent,
     edit.isTextBlockModalOpen,
     edit.manageMode,
@@ -137,6 +174,33 @@ export default function EditModeLayer({
     handleExitManage,
   ]);
 
+  // Cmd/Ctrl+Z and Shift+Z step the edit history. Not while a modal owns the keyboard, and not in
+  // reorder or a pick mode: those hold unsaved state built on the order an undo would change.
+  useEffect(() => {
+    const historyActive =
+      !culling &&
+      !edit.editingContent &&
+      !edit.isTextBlockModalOpen &&
+      (edit.manageMode === 'browse' || edit.manageMode === 'select' || edit.manageMode === 'edit');
+    if (!historyActive) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const direction = historyShortcut(event);
+      if (!direction || event.defaultPrevented) return;
+      event.preventDefault();
+      void (direction === 'undo' ? edit.history.undo() : edit.history.redo());
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    culling,
+    edit.editingContent,
+    edit.isTextBlockModalOpen,
+    edit.manageMode,
+    edit.history.undo,
+    edit.history.redo,
+  ]);
+
   // Prefer the admin DTO (reflects saves) over the frozen server seed — e.g. displayMode updates
   // after a Reorder only appear in the admin DTO.
   const liveCollection = edit.currentState?.collection ?? collection;
@@ -185,6 +249,41 @@ export default function EditModeLayer({
 
   const reorderActive = edit.reorder.active;
 
+  // Culling walks the photos in grid order, so a filter (say, unrated only) narrows the session.
+  const cullImages = useMemo(
+    () =>
+      contentBlocks.filter(
+        (block): block is ContentImageModel => isImageContent(block) && !isCollectionCard(block)
+      ),
+    [contentBlocks]
+  );
+
+  // Browse gains a Cull cell, ahead of the trailing Close so leaving manage stays last.
+  const barCells = useMemo<EditBarCell[]>(() => {
+    if (edit.manageMode !== 'browse' || cullImages.length === 0) return edit.bottomBarCells;
+    const cull: EditBarCell = {
+      key: 'cull',
+      label: 'Cull',
+      disabled: !editReady,
+      onClick: () => setCulling(true),
+    };
+    const cells = [...edit.bottomBarCells];
+    const closeIndex = cells.findIndex(cell => cell.key === 'cancel');
+    cells.splice(closeIndex === -1 ? cells.length : closeIndex, 0, cull);
+    return cells;
+  }, [edit.manageMode, edit.bottomBarCells, cullImages.length, editReady]);
+
+  const handleCullingClose = useCallback(
+    (savedImages: ContentImageModel[]) => {
+      setCulling(false);
+      if (savedImages.length > 0) {
+        void edit.handleMetadataSaveSuccess({ updatedImages: savedImages, newMetadata: {} });
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [edit.handleMetadataSaveSuccess]
+  );
+
   // Reorder and select must operate on the full unfiltered list; clear active filters on entry.
   useEffect(() => {
     if (edit.manageMode !== 'reorder' && edit.manageMode !== 'select') return;
@@ -298,6 +397,28 @@ export default function EditModeLayer({
         </div>
       )}
 
+      {edit.history.toast && !edit.error && (
+        <div className={styles.undoToast} role="status">
+          <span className={styles.undoToastText}>{edit.history.toast.message}</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={!edit.history.canUndo}
+            onClick={() => void edit.history.undo()}
+          >
+            Undo
+          </Button>
+          <IconButton
+            size="sm"
+            className={styles.undoToastDismiss}
+            aria-label="Dismiss"
+            onClick={edit.history.dismissToast}
+          >
+            <span aria-hidden="true">×</span>
+          </IconButton>
+        </div>
+      )}
+
       {/* Pick mode arrives with the metadata sheet already closed, so the grid needs to say why. */}
       {edit.manageMode === 'pick-date' && (
         <div className={styles.hintBanner} role="status">
@@ -332,7 +453,8 @@ export default function EditModeLayer({
         <EditBar
           ariaLabel="Manage"
           fixed
-          cells={edit.bottomBarCells}
+          cells={barCells}
+          badge={queueBadge(edit.offlineQueue)}
           // On desktop both panels are shown side-by-side, so the Info/Structure chooser is dropped.
           tabs={twoColumn ? undefined : edit.bottomBarTabs}
           activeTab={edit.editTab}
@@ -340,10 +462,23 @@ export default function EditModeLayer({
         />
       )}
 
+      {edit.uploads.items.length > 0 && <UploadQueuePanel uploads={edit.uploads} />}
+
+      {edit.offlineQueue.conflict && (
+        <EditConflictDialog
+          // Keyed per queued edit so the per-field choices start fresh for the next conflict.
+          key={edit.offlineQueue.conflict.edit.id}
+          conflict={edit.offlineQueue.conflict}
+          onResolve={resolution => void edit.offlineQueue.resolveConflict(resolution)}
+          busy={edit.offlineQueue.syncing}
+        />
+      )}
+
       {edit.editingContent && edit.contentToEdit.length > 0 && (
         <MetadataModal
           onClose={edit.closeEditor}
           onSaveSuccess={edit.handleMetadataSaveSuccess}
+          onQueueOffline={edit.offlineQueue.queueImageUpdates}
           onGifSaveSuccess={edit.handleGifSaveSuccess}
           onDeleteSuccess={edit.handleDeleteSuccess}
           onRemoveFromCollectionSuccess={edit.handleDeleteSuccess}
@@ -363,10 +498,20 @@ export default function EditModeLayer({
         />
       )}
 
+      {culling && (
+        <CullingView
+          images={cullImages}
+          collection={liveCollection}
+          availableTags={edit.currentState?.tags || []}
+          onClose={handleCullingClose}
+        />
+      )}
+
       {edit.isTextBlockModalOpen && (
         <TextBlockCreateModal
           onClose={edit.closeTextBlockModal}
           onSubmit={edit.handleTextBlockSubmit}
+          images={allImages}
         />
       )}
     </>
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { IconButton } from '@/app/components/ui/IconButton/IconButton';
+
+import { type UploadQueue } from './hooks/useUploadQueue';
+import {
+  formatBytes,
+  isFinishedUpload,
+  summarizeUploads,
+  type UploadItem,
+  type UploadStatus,
+} from './uploadQueue';
+import styles from './UploadQueuePanel.module.scss';
+
+interface UploadQueuePanelProps {
+  uploads: UploadQueue;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting',
+  hashing: 'Checking',
+  uploading: 'Uploading',
+  finalizing: 'Processing',
+  paused: 'Paused',
+  done: 'Uploaded',
+  failed: 'Failed',
+  rejected: 'Not uploaded',
+  duplicate: 'Skipped',
+};
+
+function UploadRow({ item, uploads }: { item: UploadItem; uploads: UploadQueue }) {
+  const { id, name, size, status, uploadedBytes, message } = item;
+  const percent = size === 0 ? 0 : Math.round((uploadedBytes / size) * 100);
+  const showProgress = status !== 'rejected' && status !== 'duplicate';
+  const problem = status === 'failed' || status === 'rejected';
+
+  return (
+    <li className={styles.row}>
+      <div className={styles.rowHeader}>
+        <span className={styles.name} title={name}>
+          {name}
+        </span>
+        <span className={styles.meta}>
+          {STATUS_LABELS[status]} · {formatBytes(size)}
+        </span>
+      </div>
+      {showProgress && (
+        <div
+          className={styles.track}
+          role="progressbar"
+          aria-label={`${name} upload progress`}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div
+            className={`${styles.bar} ${status === 'failed' ? styles.barFailed : ''}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+      {message && <p className={problem ? styles.messageError : styles.message}>{message}</p>}
+      <div className={styles.actions}>
+        {(status === 'queued' || status === 'hashing' || status === 'uploading') && (
+          <Button size="sm" variant="ghost" onClick={() => uploads.pause(id)}>
+            Pause
+          </Button>
+        )}
+        {status === 'paused' && (
+          <Button size="sm" variant="ghost" onClick={() => uploads.resume(id)}>
+            Resume
+          </Button>
+        )}
+        {status === 'failed' && (
+          <Button size="sm" variant="ghost" onClick={() => uploads.resume(id)}>
+            Retry
+          </Button>
+        )}
+        {status !== 'finalizing' && (
+          <IconButton size="sm" aria-label={`Remove ${name}`} onClick={() => uploads.remove(id)}>
+            <span aria-hidden="true">×</span>
+          </IconButton>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * The manage page's upload queue: one row per file with its progress and its own pause / resume /
+ * retry / remove, plus an overall line that stays visible when the list is collapsed.
+ */
+export function UploadQueuePanel({ uploads }: UploadQueuePanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const { items, clearFinished } = uploads;
+  const summary = summarizeUploads(items);
+  const hasFinished = items.some(item => isFinishedUpload(item.status));
+
+  const headline =
+    summary.active > 0
+      ? `Uploading ${summary.done + 1} of ${summary.total} · ${summary.percent}%`
+      : summary.failed > 0
+        ? `${summary.failed} ${summary.failed === 1 ? 'upload' : 'uploads'} failed`
+        : `${summary.done} of ${summary.total} uploaded`;
+
+  return (
+    <section className={styles.panel} aria-label="Uploads">
+      <div className={styles.header}>
+        <span className={styles.headline} role="status">
+          {headline}
+        </span>
+        {hasFinished && !collapsed && (
+          <Button size="sm" variant="ghost" onClick={clearFinished}>
+            Clear finished
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          aria-expanded={!collapsed}
+          onClick={() => setCollapsed(prev => !prev)}
+        >
+          {collapsed ? 'Show' : 'Hide'}
+        </Button>
+      </div>
+      {!collapsed && (
+        <ul className={styles.list}>
+          {items.map(item => (
+            <UploadRow key={item.id} item={item} uploads={uploads} />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -3,7 +3,9 @@
  * Handles data normalization, state management, and type guards
  */
 
+import { revalidateCacheAction } from '@/app/lib/actions/revalidateCache';
 import { reorderCollectionContent } from '@/app/lib/api/collections';
+import { collectionTargets, METADATA_CACHE_TAGS } from '@/app/lib/revalidation/events';
 import {
   type CollectionModel,
   type CollectionUpdateRequest,
@@ -52,7 +54,10 @@ export function buildUpdatePayload(
     { key: 'description', original: originalCollection.description },
     { key: 'visibility', original: originalCollection.visibility },
     { key: 'displayMode', original: originalCollection.displayMode },
+    // Absent reads as ROWS, which is what the form seeds — not a change worth sending.
+    { key: 'layoutMode', original: originalCollection.layoutMode ?? 'ROWS' },
     { key: 'rowsWide', original: originalCollection.rowsWide },
+    { key: 'proofingTarget', original: originalCollection.proofingTarget },
   ];
 
   for (const { key, original } of fieldMappings) {
@@ -194,21 +199,14 @@ export function handleSingleImageEdit(
   return null;
 }
 
-/** POSTs to /api/revalidate for the collection's tag, path, and the global indexes. Fails silently in production. */
+/**
+ * Revalidates the collection's tag and path plus the global indexes, via the admin-gated server
+ * action. Fails silently in production.
+ */
 export async function revalidateCollectionCache(slug: string): Promise<void> {
-  const revalidate = (body: Record<string, string>) =>
-    fetch('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-    });
-
   try {
-    await Promise.all([
-      revalidate({ tag: `collection-${slug}`, path: `/${slug}` }),
-      revalidate({ tag: 'collections-index' }),
-      revalidate({ tag: 'collection-home' }),
-    ]);
+    const result = await revalidateCacheAction(collectionTargets(slug));
+    if (!result.ok) throw new Error(result.error);
   } catch (error) {
     if (isLocalEnvironment()) {
       logger.warn('manageUtils', 'Failed to revalidate cache', { error });
@@ -219,21 +217,8 @@ export async function revalidateCollectionCache(slug: string): Promise<void> {
 /** Invalidates all metadata cache tags (tags, people, cameras, locations, lenses, film). */
 export async function revalidateMetadataCache(): Promise<void> {
   try {
-    await fetch('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tags: [
-          'content-tags',
-          'content-people',
-          'content-cameras',
-          'content-locations',
-          'content-lenses',
-          'content-film-metadata',
-          'search-images',
-        ],
-      }),
-    });
+    const result = await revalidateCacheAction({ tags: [...METADATA_CACHE_TAGS] });
+    if (!result.ok) throw new Error(result.error);
   } catch (error) {
     if (isLocalEnvironment()) {
       logger.warn('manageUtils', 'Failed to revalidate metadata cache', { error });
@@ -265,6 +250,42 @@ export function mergeNewMetadata(
   });
 }
 
+/**
+ * The rating `collectionId` holds as far as `collection` knows: its own, or a child card's.
+ * Null when unrated or not found.
+ */
+export function findCollectionRating(
+  collection: CollectionModel,
+  collectionId: number
+): number | null {
+  if (collection.id === collectionId) return collection.rating ?? null;
+  const child = collection.content?.find(
+    (block): block is ContentCollectionModel =>
+      isContentCollection(block) && block.referencedCollectionId === collectionId
+  );
+  return child?.rating ?? null;
+}
+
+/**
+ * Returns `collection` with `collectionId`'s rating replaced — its own, or every child card that
+ * references it. Rating writes have no response to adopt, so this keeps the stars' source in step.
+ */
+export function applyCollectionRating(
+  collection: CollectionModel,
+  collectionId: number,
+  rating: number | null
+): CollectionModel {
+  if (collection.id === collectionId) return { ...collection, rating: rating ?? undefined };
+  return {
+    ...collection,
+    content: collection.content?.map(block =>
+      isContentCollection(block) && block.referencedCollectionId === collectionId
+        ? { ...block, rating }
+        : block
+    ),
+  };
+}
+
 /**
  * Execute `operation`, then re-fetch the admin DTO for `slug` and update the cache.
  * Dependencies are injected for testability. Throws if either step fails.
@@ -0,0 +1,194 @@
+/**
+ * Culling-session state and the writes it turns into (see `CullingView`).
+ *
+ * A session keeps one `CullState` per touched image — rating, flag and tag ids — and persists the
+ * difference from what the server last acknowledged, so a change undone before its batch is sent
+ * never leaves the browser, and one undone after it was sent is written back.
+ *
+ * Flags ride the one per-collection bit the backend has: a reject hides the image in this
+ * collection (`collections[].visible = false`), and a pick or an unflag shows it again. A pick on
+ * an image that was already visible therefore writes nothing; the session still counts it, and
+ * the summary hands the picks over as a Lightroom filename filter.
+ */
+
+import { type ContentImageModel, type ContentImageUpdateRequest } from '@/app/types/Content';
+
+export type CullFlag = 'pick' | 'reject';
+
+export interface CullState {
+  /** 1–5, or null for unrated. */
+  rating: number | null;
+  flag: CullFlag | null;
+  tagIds: number[];
+}
+
+/** What a key press asks the culling view to do; see {@link cullKeyAction}. */
+export type CullAction =
+  | { type: 'rate'; rating: number | null }
+  | { type: 'flag'; flag: CullFlag | null }
+  | { type: 'tags' }
+  | { type: 'compare' }
+  | { type: 'switch-side' }
+  | { type: 'auto-advance' };
+
+/** Pending images that force a save without waiting for the idle delay. */
+export const CULL_BATCH_SIZE = 20;
+
+/** Quiet time after the last change before the pending batch is sent. */
+export const CULL_FLUSH_DELAY_MS = 2000;
+
+/** The shortcut legend shown in the culling HUD, in the order the keys are usually reached for. */
+export const CULL_SHORTCUTS: ReadonlyArray<{ keys: string; label: string }> = [
+  { keys: '1–5', label: 'rate' },
+  { keys: '0', label: 'clear rating' },
+  { keys: 'P', label: 'pick' },
+  { keys: 'X', label: 'reject' },
+  { keys: 'U', label: 'unflag' },
+  { keys: 'T', label: 'tags' },
+  { keys: 'C', label: 'compare' },
+  { keys: 'S', label: 'switch side' },
+  { keys: 'A', label: 'auto-advance' },
+];
+
+/**
+ * Map a `KeyboardEvent.key` to a culling action — Lightroom's keys where it has one (0–5, P, X,
+ * U, C). Null for anything else, which the caller leaves to the viewer (arrows, Escape, F).
+ */
+export function cullKeyAction(key: string): CullAction | null {
+  if (/^[0-5]$/.test(key)) {
+    const rating = Number(key);
+    return { type: 'rate', rating: rating === 0 ? null : rating };
+  }
+  switch (key.toLowerCase()) {
+    case 'p':
+      return { type: 'flag', flag: 'pick' };
+    case 'x':
+      return { type: 'flag', flag: 'reject' };
+    case 'u':
+      return { type: 'flag', flag: null };
+    case 't':
+      return { type: 'tags' };
+    case 'c':
+      return { type: 'compare' };
+    case 's':
+      return { type: 'switch-side' };
+    case 'a':
+      return { type: 'auto-advance' };
+    default:
+      return null;
+  }
+}
+
+/** The image's state as the server has it. Hidden in this collection reads as a reject. */
+export function readCullState(image: ContentImageModel, collectionId: number): CullState {
+  const entry = image.collections?.find(c => c.collectionId === collectionId);
+  return {
+    rating: image.rating ? image.rating : null,
+    flag: entry?.visible === false ? 'reject' : null,
+    tagIds: (image.tags ?? []).map(tag => tag.id),
+  };
+}
+
+/** `state` with `tagId` added, or removed if it was already there. */
+export function toggleCullTag(state: CullState, tagId: number): CullState {
+  return {
+    ...state,
+    tagIds: state.tagIds.includes(tagId)
+      ? state.tagIds.filter(id => id !== tagId)
+      : [...state.tagIds, tagId],
+  };
+}
+
+const isHidden = (state: CullState) => state.flag === 'reject';
+
+const sameIds = (a: number[], b: number[]) =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+/**
+ * The update that takes image `id` from `saved` to `desired`, or null when nothing the server
+ * stores differs. Tags go out in the same prev/remove shape the metadata editor sends.
+ */
+export function buildCullUpdate(
+  id: number,
+  saved: CullState,
+  desired: CullState,
+  collection: { id: number; name: string }
+): ContentImageUpdateRequest | null {
+  const update: ContentImageUpdateRequest = { id };
+  let changed = false;
+
+  if (desired.rating !== saved.rating) {
+    update.rating = desired.rating;
+    changed = true;
+  }
+  if (isHidden(desired) !== isHidden(saved)) {
+    update.collections = {
+      prev: [{ collectionId: collection.id, name: collection.name, visible: !isHidden(desired) }],
+    };
+    changed = true;
+  }
+  if (!sameIds(desired.tagIds, saved.tagIds)) {
+    const removed = saved.tagIds.filter(tagId => !desired.tagIds.includes(tagId));
+    update.tags = {};
+    if (desired.tagIds.length > 0) update.tags.prev = desired.tagIds;
+    if (removed.length > 0) update.tags.remove = removed;
+    changed = true;
+  }
+
+  return changed ? update : null;
+}
+
+/** What a session changed, counted per image against the state it started from. */
+export interface CullSummary {
+  /** Images given a rating, or a different one. */
+  rated: number;
+  /** Images whose rating was cleared with 0. */
+  unrated: number;
+  /** Ids of the images left flagged as picks, in the order they were first touched. */
+  picked: number[];
+  /** Images newly hidden from the collection. */
+  rejected: number;
+  /** Images that started hidden and were shown again. */
+  restored: number;
+  /** Images whose tags changed. */
+  retagged: number;
+}
+
+export function summarizeCull(
+  originals: ReadonlyMap<number, CullState>,
+  current: ReadonlyMap<number, CullState>
+): CullSummary {
+  const summary: CullSummary = {
+    rated: 0,
+    unrated: 0,
+    picked: [],
+    rejected: 0,
+    restored: 0,
+    retagged: 0,
+  };
+  for (const [id, state] of current) {
+    const original = originals.get(id);
+    if (!original) continue;
+    if (state.rating !== original.rating) {
+      if (state.rating === null) summary.unrated++;
+      else summary.rated++;
+    }
+    if (state.flag === 'pick') summary.picked.push(id);
+    if (isHidden(state) && !isHidden(original)) summary.rejected++;
+    if (!isHidden(state) && isHidden(original)) summary.restored++;
+    if (!sameIds(state.tagIds, original.tagIds)) summary.retagged++;
+  }
+  return summary;
+}
+
+/** True when the session changed nothing worth reporting. */
+export function isEmptyCullSummary(summary: CullSummary): boolean {
+  return (
+    summary.rated === 0 &&
+    summary.unrated === 0 &&
+    summary.picked.length === 0 &&
+    summary.rejected === 0 &&
+    summary.restored === 0 &&
+    summary.retagged === 0
+  );
+}
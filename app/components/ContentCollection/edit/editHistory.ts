@@ -0,0 +1,520 @@
+/**
+ * Undo/redo history for the collection manage page.
+ *
+ * Every write the manage page makes goes straight to the backend, so undo cannot just restore a
+ * local snapshot — each history entry is a typed command carrying the request that re-applies it
+ * (`redo`) and the request that reverses it (`undo`). Both are built when the write succeeds, from
+ * what the page knew before and after it, and both address content by id rather than by object,
+ * so a command stays valid across the refetches that replace `currentState` wholesale.
+ */
+
+import {
+  buildGifUpdatePayload,
+  buildImageUpdateDiff,
+} from '@/app/components/Metadata/metadataUtils';
+import { type ContentGifUpdateRequest } from '@/app/lib/api/content';
+import {
+  type ChildCollection,
+  type CollectionUpdate,
+  type CollectionUpdateRequest,
+  type CollectionUpdateResponseDTO,
+} from '@/app/types/Collection';
+import {
+  type ContentGifModel,
+  type ContentImageModel,
+  type ContentImageUpdateRequest,
+} from '@/app/types/Content';
+import { isContentCollection } from '@/app/utils/contentTypeGuards';
+import { convertLocationsToModels } from '@/app/utils/locationUtils';
+import { convertTagsToModels } from '@/app/utils/tagUtils';
+
+import { buildReorderChangesFromFinalOrder, type ReorderChange } from './collectionEditUtils';
+
+export type HistoryDirection = 'undo' | 'redo';
+
+/** Oldest entries fall off past this; a manage session rarely gets near it. */
+export const EDIT_HISTORY_LIMIT = 50;
+
+/** How long the undo toast for a destructive action stays up. */
+export const UNDO_TOAST_DURATION = 8000; // milliseconds
+
+interface EditCommandBase {
+  /** Short noun phrase for the toast and button titles ("Reorder", "Remove 3 images"). */
+  label: string;
+}
+
+/** A collection PATCH: scalar fields, relations, the cover. */
+export interface UpdateCommand extends EditCommandBase {
+  kind: 'update';
+  collectionId: number;
+  undo: CollectionUpdateRequest;
+  redo: CollectionUpdateRequest;
+}
+
+/** A saved reorder. Indexes are absolute positions, so replaying one is idempotent. */
+export interface ReorderCommand extends EditCommandBase {
+  kind: 'reorder';
+  collectionId: number;
+  slug: string;
+  undo: ReorderChange[];
+  redo: ReorderChange[];
+}
+
+/** A rating write — on this collection, or on a child from the home page's children list. */
+export interface RatingCommand extends EditCommandBase {
+  kind: 'rating';
+  collectionId: number;
+  undo: number | null;
+  redo: number | null;
+}
+
+/** Image PATCHes go out as one batch; GIF/MP4 blocks have no batch endpoint, so one each. */
+export interface ContentWrites {
+  images: ContentImageUpdateRequest[];
+  gifs: { id: number; request: ContentGifUpdateRequest }[];
+}
+
+/**
+ * Writes to the content itself: a bulk remove, a metadata save, locations inherited from the
+ * collection, a copied capture date.
+ */
+export interface ContentCommand extends EditCommandBase {
+  kind: 'content';
+  undo: ContentWrites;
+  redo: ContentWrites;
+}
+
+/**
+ * One edit made of several writes — a save and the writes it sets off. Undo reverses the steps
+ * newest first; redo replays them in order.
+ */
+export interface BatchCommand extends EditCommandBase {
+  kind: 'batch';
+  steps: EditCommand[];
+}
+
+export type EditCommand =
+  | UpdateCommand
+  | ReorderCommand
+  | RatingCommand
+  | ContentCommand
+  | BatchCommand;
+
+export interface EditHistory {
+  /** Applied commands, oldest first; the last is the next undo. */
+  past: EditCommand[];
+  /** Undone commands, oldest first; the last is the next redo. */
+  future: EditCommand[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+/** Push a freshly applied command. A new edit forks the timeline, so the redo stack is dropped. */
+export function recordCommand(history: EditHistory, command: EditCommand): EditHistory {
+  return { past: [...history.past, command].slice(-EDIT_HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * The command an undo (or redo) would run, and the history once it has. Null when that stack is
+ * empty. Pure — the caller commits `history` only after the command's request succeeds.
+ */
+export function stepHistory(
+  history: EditHistory,
+  direction: HistoryDirection
+): { command: EditCommand; history: EditHistory } | null {
+  const from = direction === 'undo' ? history.past : history.future;
+  const command = from.at(-1);
+  if (!command) return null;
+  const rest = from.slice(0, -1);
+  return direction === 'undo'
+    ? { command, history: { past: rest, future: [...history.future, command] } }
+    : { command, history: { past: [...history.past, command], future: rest } };
+}
+
+/**
+ * Map a keydown to a history step: Cmd/Ctrl+Z undoes, Cmd/Ctrl+Shift+Z and Ctrl+Y redo. Keys
+ * aimed at a text field are left alone — there they belong to the field's own undo.
+ */
+export function historyShortcut(event: KeyboardEvent): HistoryDirection | null {
+  if (!(event.metaKey || event.ctrlKey) || event.altKey) return null;
+  const target = event.target;
+  if (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || target.closest('input, textarea, select') !== null)
+  ) {
+    return null;
+  }
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && event.ctrlKey && !event.shiftKey) return 'redo';
+  return null;
+}
+
+// ============================================================================
+// Command builders
+// ============================================================================
+
+/** Scalar fields `buildUpdatePayload` can send, restored verbatim from the target state. */
+const SCALAR_FIELDS = [
+  'isClient',
+  'isBlog',
+  'title',
+  'description',
+  'visibility',
+  'displayMode',
+  'layoutMode',
+  'rowsWide',
+  'proofingTarget',
+] as const;
+
+/** The `prev`/`remove` diff that moves a saved id set from `current` to `target`. */
+function idSetDiff(
+  target: number[],
+  current: number[]
+): { prev?: number[]; remove?: number[] } | undefined {
+  const targetSet = new Set(target);
+  const currentSet = new Set(current);
+  const remove = current.filter(id => !targetSet.has(id));
+  if (remove.length === 0 && target.every(id => currentSet.has(id))) return undefined;
+  return {
+    ...(target.length > 0 && { prev: target }),
+    ...(remove.length > 0 && { remove }),
+  };
+}
+
+/**
+ * The `newValue`/`remove` diff that moves an association from `current` to `target` — the only
+ * two keys the backend honors for siblings and parents, and an incremental diff for children.
+ */
+function associationDiff(
+  target: ChildCollection[],
+  current: ChildCollection[]
+): CollectionUpdate | undefined {
+  const targetIds = new Set(target.map(entry => entry.collectionId));
+  const currentIds = new Set(current.map(entry => entry.collectionId));
+  const newValue = target.filter(entry => !currentIds.has(entry.collectionId));
+  const remove = current.filter(entry => !targetIds.has(entry.collectionId));
+  if (newValue.length === 0 && remove.length === 0) return undefined;
+  return {
+    ...(newValue.length > 0 && { newValue }),
+    ...(remove.length > 0 && { remove: remove.map(entry => entry.collectionId) }),
+  };
+}
+
+function tagIds(state: CollectionUpdateResponseDTO): number[] {
+  return convertTagsToModels(state.collection.tags, state.tags ?? [])
+    .map(tag => tag.id)
+    .filter(id => id > 0);
+}
+
+function locationIds(state: CollectionUpdateResponseDTO): number[] {
+  return convertLocationsToModels(state.collection.locations, state.locations ?? [])
+    .map(location => location.id)
+    .filter(id => id > 0);
+}
+
+/**
+ * Child links as they would be re-sent. Visibility and position come from the content block when
+ * it was loaded, so an undone unlink puts the child back where it was rather than at the end.
+ */
+function childLinks(state: CollectionUpdateResponseDTO): ChildCollection[] {
+  const blocks = (state.collection.content ?? []).filter(isContentCollection);
+  const ids = state.childCollectionIds ?? blocks.map(block => block.referencedCollectionId);
+  return ids.map(collectionId => {
+    const block = blocks.find(candidate => candidate.referencedCollectionId === collectionId);
+    return {
+      collectionId,
+      ...(block?.title && { name: block.title }),
+      visible: block?.visible ?? true,
+      ...(block && { orderIndex: block.orderIndex }),
+    };
+  });
+}
+
+const links = (list: { id: number; name?: string }[] | undefined): ChildCollection[] =>
+  (list ?? []).map(entry => ({ collectionId: entry.id, name: entry.name }));
+
+/**
+ * The request that takes the server from `current` back (or forward) to `target`, for the fields
+ * `sent` touched and nothing else — so undoing a title edit never reverts a tag the admin changed
+ * in between. Relations are diffed by id against `current`, which is why a tag created by the
+ * original save is removed by id on undo and re-linked by id (not re-created by name) on redo.
+ *
+ * A field the target never had is left alone: the API has no "clear" for the cover or
+ * `rowsWide`, so undoing the first one ever set is a no-op for that field. The description and
+ * the proofing target do have one (`''` and `null`), so those are cleared instead.
+ */
+export function buildRestoreRequest(
+  sent: CollectionUpdateRequest,
+  target: CollectionUpdateResponseDTO,
+  current: CollectionUpdateResponseDTO
+): CollectionUpdateRequest {
+  const { collection } = target;
+  const request: CollectionUpdateRequest = { id: collection.id };
+  const writable = request as unknown as Record<string, unknown>;
+
+  for (const key of SCALAR_FIELDS) {
+    if (sent[key] === undefined) continue;
+    const value = key === 'layoutMode' ? (collection.layoutMode ?? 'ROWS') : collection[key];
+    if (value !== undefined && value !== null) writable[key] = value;
+    else if (key === 'description') request.description = '';
+    else if (key === 'proofingTarget') request.proofingTarget = null;
+  }
+
+  if (sent.collectionDate !== undefined || sent.clearCollectionDate) {
+    if (collection.collectionDate) request.collectionDate = collection.collectionDate;
+    else request.clearCollectionDate = true;
+  }
+  if (sent.collectionEndDate !== undefined || sent.clearCollectionEndDate) {
+    if (collection.collectionEndDate) request.collectionEndDate = collection.collectionEndDate;
+    else request.clearCollectionEndDate = true;
+  }
+
+  if (sent.coverImageId !== undefined && collection.coverImage?.id !== undefined) {
+    request.coverImageId = collection.coverImage.id;
+  }
+
+  if (sent.tags) {
+    const diff = idSetDiff(tagIds(target), tagIds(current));
+    if (diff) request.tags = diff;
+  }
+  if (sent.locations) {
+    const diff = idSetDiff(locationIds(target), locationIds(current));
+    if (diff) request.locations = diff;
+  }
+  if (sent.collections) {
+    const diff = associationDiff(childLinks(target), childLinks(current));
+    if (diff) request.collections = diff;
+  }
+  if (sent.siblings) {
+    const diff = associationDiff(links(collection.siblings), links(current.collection.siblings));
+    if (diff) request.siblings = diff;
+  }
+  if (sent.parents) {
+    const diff = associationDiff(links(collection.parents), links(current.collection.parents));
+    if (diff) request.parents = diff;
+  }
+
+  return request;
+}
+
+/**
+ * Command for a collection save, from the state before it and the server's response. Null when
+ * nothing it changed can be sent back (a password, say), so the stack never holds a dead entry.
+ */
+export function buildUpdateCommand(
+  label: string,
+  sent: CollectionUpdateRequest,
+  before: CollectionUpdateResponseDTO,
+  after: CollectionUpdateResponseDTO
+): UpdateCommand | null {
+  const undo = buildRestoreRequest(sent, before, after);
+  if (Object.keys(undo).length <= 1) return null;
+  return {
+    kind: 'update',
+    label,
+    collectionId: after.collection.id,
+    undo,
+    redo: buildRestoreRequest(sent, after, before),
+  };
+}
+
+/** Command for a cover pick; null when there was no cover to go back to, or it did not change. */
+export function buildCoverCommand(
+  collectionId: number,
+  previousCoverId: number | undefined,
+  coverImageId: number
+): UpdateCommand | null {
+  if (previousCoverId === undefined || previousCoverId === coverImageId) return null;
+  return {
+    kind: 'update',
+    label: 'Cover image',
+    collectionId,
+    undo: { id: collectionId, coverImageId: previousCoverId },
+    redo: { id: collectionId, coverImageId },
+  };
+}
+
+/** Command for a saved reorder, from the order it started from and the order it saved. */
+export function buildReorderCommand(
+  collectionId: number,
+  slug: string,
+  originalOrder: number[],
+  finalOrder: number[]
+): ReorderCommand {
+  return {
+    kind: 'reorder',
+    label: 'Reorder',
+    collectionId,
+    slug,
+    undo: buildReorderChangesFromFinalOrder(originalOrder, finalOrder),
+    redo: buildReorderChangesFromFinalOrder(finalOrder, originalOrder),
+  };
+}
+
+/** Command for a rating write; null when the rating did not change. */
+export function buildRatingCommand(
+  collectionId: number,
+  previous: number | null,
+  rating: number | null
+): RatingCommand | null {
+  if (previous === rating) return null;
+  return { kind: 'rating', label: 'Rating', collectionId, undo: previous, redo: rating };
+}
+
+/**
+ * Command for a bulk remove: each image's link to this collection dropped, and re-made exactly as
+ * it was — position and visibility included — to undo it.
+ */
+export function buildRemoveCommand(
+  label: string,
+  removed: ContentImageUpdateRequest[],
+  restored: ContentImageUpdateRequest[]
+): ContentCommand {
+  return {
+    kind: 'content',
+    label,
+    undo: { images: restored, gifs: [] },
+    redo: { images: removed, gifs: [] },
+  };
+}
+
+/**
+ * Command for locations a collection save pushed down onto content that had none. Those blocks had
+ * no location before, so the inverse simply unlinks the inherited ones.
+ */
+export function buildInheritedLocationsCommand(
+  imageIds: number[],
+  gifIds: number[],
+  locationIds: number[]
+): ContentCommand | null {
+  if (imageIds.length === 0 && gifIds.length === 0) return null;
+  const writes = (locations: ContentImageUpdateRequest['locations']): ContentWrites => ({
+    images: imageIds.map(id => ({ id, locations })),
+    gifs: gifIds.map(id => ({ id, request: { locations } })),
+  });
+  return {
+    kind: 'content',
+    label: 'Inherited locations',
+    undo: writes({ remove: locationIds }),
+    redo: writes({ prev: locationIds }),
+  };
+}
+
+/** Relations a content block can be loaded without; `undefined` means "not loaded", not "none". */
+const CONTENT_RELATIONS = ['tags', 'people', 'locations', 'collections', 'camera', 'lens'] as const;
+
+/**
+ * `target` with every relation either side was loaded without taken from `current`, so the diff
+ * leaves it alone. The metadata builders read a missing relation as empty — an image the grid
+ * loaded without its collections would otherwise diff as unlinked from all of them.
+ */
+function withKnownRelations<T extends ContentImageModel | ContentGifModel>(
+  target: T,
+  current: T
+): T {
+  const aligned = { ...target } as Record<string, unknown>;
+  const source = current as unknown as Record<string, unknown>;
+  for (const key of CONTENT_RELATIONS) {
+    if (aligned[key] === undefined || source[key] === undefined) aligned[key] = source[key];
+  }
+  return aligned as T;
+}
+
+/**
+ * Command for a metadata save on images, from each image before the save and as the server
+ * returned it. Diffed field by field in both directions, so only what the save changed goes back.
+ */
+export function buildImageEditCommand(
+  label: string,
+  before: readonly ContentImageModel[],
+  after: readonly ContentImageModel[],
+  filmTypes?: Array<{ id: number; name: string; filmTypeName?: string }>
+): ContentCommand | null {
+  const undo: ContentImageUpdateRequest[] = [];
+  const redo: ContentImageUpdateRequest[] = [];
+  for (const saved of after) {
+    const original = before.find(image => image.id === saved.id);
+    if (!original) continue;
+    const back = buildImageUpdateDiff(withKnownRelations(original, saved), saved, filmTypes);
+    if (Object.keys(back).length <= 1) continue;
+    undo.push(back);
+    redo.push(buildImageUpdateDiff(withKnownRelations(saved, original), original, filmTypes));
+  }
+  if (undo.length === 0) return null;
+  return {
+    kind: 'content',
+    label,
+    undo: { images: undo, gifs: [] },
+    redo: { images: redo, gifs: [] },
+  };
+}
+
+/** The GIF PATCH that moves `current` to `target`, leaving relations either side lacks alone. */
+function gifRestoreRequest(
+  target: ContentGifModel,
+  current: ContentGifModel
+): ContentGifUpdateRequest {
+  return buildGifUpdatePayload(
+    withKnownRelations(target, current),
+    current,
+    new Set((current.collections ?? []).map(entry => entry.collectionId))
+  );
+}
+
+/** Command for a GIF/MP4 write — a metadata save or a copied capture date; null if unchanged. */
+export function buildGifEditCommand(
+  label: string,
+  before: ContentGifModel,
+  after: ContentGifModel
+): ContentCommand | null {
+  const undo = gifRestoreRequest(before, after);
+  if (Object.keys(undo).length === 0) return null;
+  return {
+    kind: 'content',
+    label,
+    undo: { images: [], gifs: [{ id: before.id, request: undo }] },
+    redo: { images: [], gifs: [{ id: before.id, request: gifRestoreRequest(after, before) }] },
+  };
+}
+
+/**
+ * Fold the writes one edit made into a single entry, so one undo reverses all of them. Null when
+ * none can be reversed; a lone command is kept as it is.
+ */
+export function combineCommands(
+  label: string,
+  ...commands: (EditCommand | null)[]
+): EditCommand | null {
+  const steps = commands.filter(command => command !== null);
+  if (steps.length <= 1) return steps[0] ?? null;
+  return { kind: 'batch', label, steps };
+}
+
+/** Label for a collection save, named after the one thing it changed when there is only one. */
+export function describeUpdate(sent: CollectionUpdateRequest): string {
+  const names: Partial<Record<keyof CollectionUpdateRequest, string>> = {
+    title: 'Title',
+    description: 'Description',
+    visibility: 'Visibility',
+    displayMode: 'Display mode',
+    layoutMode: 'Layout',
+    rowsWide: 'Row density',
+    collectionDate: 'Date',
+    clearCollectionDate: 'Date',
+    collectionEndDate: 'End date',
+    clearCollectionEndDate: 'End date',
+    tags: 'Tags',
+    locations: 'Locations',
+    collections: 'Child collections',
+    siblings: 'Siblings',
+    parents: 'Parents',
+    coverImageId: 'Cover image',
+  };
+  const touched = new Set(
+    Object.keys(sent)
+      .map(key => names[key as keyof CollectionUpdateRequest])
+      .filter(name => name !== undefined)
+  );
+  return touched.size === 1 ? [...touched][0]! : 'Collection details';
+}
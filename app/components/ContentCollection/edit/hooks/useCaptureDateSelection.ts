@@ -7,15 +7,18 @@ import { updateGif } from '@/app/lib/api/content';
 import { collectionStorage } from '@/app/lib/storage/collectionStorage';
 import { type CollectionModel, type CollectionUpdateResponseDTO } from '@/app/types/Collection';
 import { handleApiError } from '@/app/utils/apiUtils';
-import { isContentImage } from '@/app/utils/contentTypeGuards';
+import { isContentImage, isGifContent } from '@/app/utils/contentTypeGuards';
 
 import { refreshCollectionAfterOperation, revalidateCollectionCache } from '../collectionEditUtils';
+import { buildGifEditCommand, type EditCommand } from '../editHistory';
 
 interface UseCaptureDateSelectionParams {
   collection: CollectionModel | null;
   setCurrentState: Dispatch<SetStateAction<CollectionUpdateResponseDTO | null>>;
   setOperationLoading: Dispatch<SetStateAction<boolean>>;
   setError: Dispatch<SetStateAction<string | null>>;
+  /** Receives the undo/redo command for each capture date that is copied. */
+  recordEdit?: (command: EditCommand | null) => void;
 }
 
 /**
@@ -34,6 +37,7 @@ export function useCaptureDateSelection({
   setCurrentState,
   setOperationLoading,
   setError,
+  recordEdit,
 }: UseCaptureDateSelectionParams) {
   const [captureDateTargetId, setCaptureDateTargetId] = useState<number | null>(null);
 
@@ -66,6 +70,10 @@ export function useCaptureDateSelection({
           getCollectionUpdateMetadata,
           collectionStorage
         );
+        const target = (collection.content ?? []).find(block => block.id === gifId);
+        if (target && isGifContent(target)) {
+          recordEdit?.(buildGifEditCommand('Capture date', target, { ...target, captureDate }));
+        }
         setCurrentState(response);
         await revalidateCollectionCache(collection.slug);
       } catch (error) {
@@ -74,7 +82,7 @@ export function useCaptureDateSelection({
         setOperationLoading(false);
       }
     },
-    [collection, captureDateTargetId, setCurrentState, setOperationLoading, setError]
+    [collection, captureDateTargetId, setCurrentState, setOperationLoading, setError, recordEdit]
   );
 
   return {
@@ -0,0 +1,273 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+
+import { revalidateCollaboratorCacheAction } from '@/app/lib/actions/revalidateCache';
+import {
+  reorderCollectionContent,
+  setCollectionCover,
+  updateCollaboratorImages,
+} from '@/app/lib/api/collections';
+import { type CollaboratorImageUpdate } from '@/app/types/Collaboration';
+import { type CollectionModel } from '@/app/types/Collection';
+import { type AnyContentModel, type ContentImageModel } from '@/app/types/Content';
+import { handleApiError } from '@/app/utils/apiUtils';
+import { isContentImage } from '@/app/utils/contentTypeGuards';
+import { logger } from '@/app/utils/logger';
+
+import {
+  applyArrowMove,
+  applyPickAndPlace,
+  applyReorderChangesOptimistically,
+  buildReorderChangesFromFinalOrder,
+  cancelImageMoves,
+  type ReorderMove,
+  replayMoves,
+} from '../collectionEditUtils';
+
+export type CollaboratorMode = 'browse' | 'reorder' | 'pick-cover';
+
+interface UseCollaboratorEditParams {
+  /** The server-fetched collection; its content is the starting point for every edit. */
+  collection: CollectionModel;
+}
+
+export interface CollaboratorEdit {
+  mode: CollaboratorMode;
+  /** The collection as edited so far: content, order and cover reflect every save. */
+  liveCollection: CollectionModel;
+  /** The image open in the caption / tags / rating editor. */
+  editingImage: ContentImageModel | null;
+  saving: boolean;
+  error: string | null;
+  clearError: () => void;
+  /** Grid click in browse and cover modes: open the editor, or make the image the cover. */
+  handleImageClick: (imageId: number) => void;
+  closeEditor: () => void;
+  /** Save one image's changes. Resolves false when the save failed (the error is set). */
+  saveImage: (update: CollaboratorImageUpdate) => Promise<boolean>;
+  startPickCover: () => void;
+  reorder: {
+    active: boolean;
+    moves: ReorderMove[];
+    displayOrder: number[];
+    pickedUpImageId: number | null;
+    /** Enter reorder mode over `order`, the content ids as the grid currently shows them. */
+    enter: (order: number[]) => void;
+    save: () => Promise<void>;
+    onArrowMove: (contentId: number, direction: -1 | 1) => void;
+    onPickUp: (contentId: number) => void;
+    onPlace: (targetId: number) => void;
+    onCancelImageMove: (contentId: number) => void;
+  };
+  /** Leave reorder or cover picking without saving. */
+  exitToBrowse: () => void;
+}
+
+/**
+ * State and saves for the collaborator edit layer (see `CollaboratorEditLayer`). A trimmed
+ * counterpart to `useCollectionEdit`: it seeds from the public collection instead of the admin
+ * DTO, writes only through the `edit` channel — reorder, image captions / tags / ratings, cover —
+ * and has no offline queue or history. The backend attributes each save to the collaborator in
+ * the collection's activity log, so nothing here records it.
+ *
+ * After a save the collection's public cache is invalidated through
+ * `revalidateCollaboratorCacheAction`, the collaborator-authorized sibling of the admin action.
+ */
+export function useCollaboratorEdit({ collection }: UseCollaboratorEditParams): CollaboratorEdit {
+  const [liveCollection, setLiveCollection] = useState<CollectionModel>(collection);
+  const [mode, setMode] = useState<CollaboratorMode>('browse');
+  const [editingImageId, setEditingImageId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [originalOrder, setOriginalOrder] = useState<number[]>([]);
+  const [moves, setMoves] = useState<ReorderMove[]>([]);
+  const [pickedUpImageId, setPickedUpImageId] = useState<number | null>(null);
+
+  const content = useMemo(() => liveCollection.content ?? [], [liveCollection.content]);
+
+  const editingImage = useMemo(() => {
+    if (editingImageId === null) return null;
+    const found = content.find(block => block.id === editingImageId);
+    return found && isContentImage(found) ? found : null;
+  }, [content, editingImageId]);
+
+  const displayOrder = useMemo(
+    () => (mode === 'reorder' ? replayMoves(originalOrder, moves) : []),
+    [mode, originalOrder, moves]
+  );
+
+  const revalidate = useCallback(async () => {
+    const result = await revalidateCollaboratorCacheAction(collection.id, collection.slug);
+    if (!result.ok) {
+      // The save itself landed; a stale public page is fixed by the next revalidation.
+      logger.warn('useCollaboratorEdit', 'Failed to revalidate cache', { error: result.error });
+    }
+  }, [collection.id, collection.slug]);
+
+  const exitToBrowse = useCallback(() => {
+    setMode('browse');
+    setOriginalOrder([]);
+    setMoves([]);
+    setPickedUpImageId(null);
+  }, []);
+
+  const setCover = useCallback(
+    async (imageId: number) => {
+      const image = content.find(block => block.id === imageId);
+      if (!image || !isContentImage(image)) {
+        setError('Only a photo in this collection can be its cover.');
+        return;
+      }
+      setMode('browse');
+      setSaving(true);
+      setError(null);
+      try {
+        await setCollectionCover(collection.id, imageId);
+        setLiveCollection(prev => ({ ...prev, coverImage: image }));
+        void revalidate();
+      } catch (error_) {
+        setError(handleApiError(error_, 'Failed to set the cover.'));
+      } finally {
+        setSaving(false);
+      }
+    },
+    [content, collection.id, revalidate]
+  );
+
+  const handleImageClick = useCallback(
+    (imageId: number) => {
+      if (mode === 'pick-cover') {
+        void setCover(imageId);
+        return;
+      }
+      if (mode === 'browse') {
+        setError(null);
+        setEditingImageId(imageId);
+      }
+    },
+    [mode, setCover]
+  );
+
+  const saveImage = useCallback(
+    async (update: CollaboratorImageUpdate): Promise<boolean> => {
+      setSaving(true);
+      setError(null);
+      try {
+        const updated = await updateCollaboratorImages(collection.id, [update]);
+        const byId = new Map(updated.map(image => [image.id, image]));
+        setLiveCollection(prev => ({
+          ...prev,
+          content: (prev.content ?? []).map(
+            (block): AnyContentModel => byId.get(block.id) ?? block
+          ),
+        }));
+        void revalidate();
+        return true;
+      } catch (error_) {
+        setError(handleApiError(error_, 'Failed to save the image.'));
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [collection.id, revalidate]
+  );
+
+  const enterReorder = useCallback((order: number[]) => {
+    setEditingImageId(null);
+    setOriginalOrder(order);
+    setMoves([]);
+    setPickedUpImageId(null);
+    setMode('reorder');
+  }, []);
+
+  const saveReorder = useCallback(async () => {
+    const finalOrder = replayMoves(originalOrder, moves);
+    const changes = buildReorderChangesFromFinalOrder(finalOrder, originalOrder);
+    if (changes.length === 0) {
+      exitToBrowse();
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await reorderCollectionContent(collection.id, changes);
+      setLiveCollection(prev =>
+        response?.content
+          ? { ...prev, content: response.content }
+          : applyReorderChangesOptimistically(prev, changes)
+      );
+      exitToBrowse();
+      void revalidate();
+    } catch (error_) {
+      // Stay in reorder mode so the arrangement is not lost; saving again retries it.
+      setError(handleApiError(error_, 'Failed to save the new order.'));
+    } finally {
+      setSaving(false);
+    }
+  }, [originalOrder, moves, collection.id, exitToBrowse, revalidate]);
+
+  const onArrowMove = useCallback(
+    (contentId: number, direction: -1 | 1) => {
+      const result = applyArrowMove(replayMoves(originalOrder, moves), contentId, direction);
+      if (!result) return;
+      setMoves(prev => [...prev, result.move]);
+      setPickedUpImageId(null);
+    },
+    [originalOrder, moves]
+  );
+
+  const onPickUp = useCallback((contentId: number) => {
+    setPickedUpImageId(prev => (prev === contentId ? null : contentId));
+  }, []);
+
+  const onPlace = useCallback(
+    (targetId: number) => {
+      if (pickedUpImageId === null || pickedUpImageId === targetId) return;
+      const result = applyPickAndPlace(
+        replayMoves(originalOrder, moves),
+        pickedUpImageId,
+        targetId
+      );
+      if (!result) return;
+      setMoves(prev => [...prev, result.move]);
+      setPickedUpImageId(null);
+    },
+    [pickedUpImageId, originalOrder, moves]
+  );
+
+  const onCancelImageMove = useCallback((contentId: number) => {
+    setMoves(prev => cancelImageMoves(prev, contentId));
+    setPickedUpImageId(null);
+  }, []);
+
+  return {
+    mode,
+    liveCollection,
+    editingImage,
+    saving,
+    error,
+    clearError: () => setError(null),
+    handleImageClick,
+    closeEditor: () => setEditingImageId(null),
+    saveImage,
+    startPickCover: () => {
+      setEditingImageId(null);
+      setMode('pick-cover');
+    },
+    reorder: {
+      active: mode === 'reorder',
+      moves,
+      displayOrder,
+      pickedUpImageId,
+      enter: enterReorder,
+      save: saveReorder,
+      onArrowMove,
+      onPickUp,
+      onPlace,
+      onCancelImageMove,
+    },
+    exitToBrowse,
+  };
+}
@@ -3,6 +3,7 @@
 import { type Dispatch, type SetStateAction, useCallback, useMemo, useState } from 'react';
 
 import { getCollectionUpdateMetadata } from '@/app/lib/api/collections';
+import { type NewQueuedEdit } from '@/app/lib/storage/editQueue';
 import { type CollectionModel, type CollectionUpdateResponseDTO } from '@/app/types/Collection';
 import { type AnyContentModel } from '@/app/types/Content';
 import { handleApiError } from '@/app/utils/apiUtils';
@@ -17,6 +18,8 @@ import {
   type ReorderMove,
   replayMoves,
 } from '../collectionEditUtils';
+import { buildReorderCommand, type EditCommand } from '../editHistory';
+import { buildReorderEntry } from '../offlineEdits';
 
 interface UseContentReorderingParams {
   collection: CollectionModel | null;
@@ -25,6 +28,10 @@ interface UseContentReorderingParams {
   setCurrentState: Dispatch<SetStateAction<CollectionUpdateResponseDTO | null>>;
   setOperationLoading: Dispatch<SetStateAction<boolean>>;
   setError: Dispatch<SetStateAction<string | null>>;
+  /** Receives the undo/redo command for each reorder that is saved. */
+  recordEdit?: (command: EditCommand | null) => void;
+  /** Queues a reorder that failed offline; resolves false when it failed for another reason. */
+  queueOffline?: (entry: NewQueuedEdit) => Promise<boolean>;
   onExitMultiSelect: () => void;
 }
 
@@ -35,6 +42,8 @@ export function useContentReordering({
   setCurrentState,
   setOperationLoading,
   setError,
+  recordEdit,
+  queueOffline,
   onExitMultiSelect,
 }: UseContentReorderingParams) {
   const [reorderState, setReorderState] = useState<{
@@ -110,8 +119,16 @@ export function useContentReordering({
       );
 
       await executeReorderOperation(collection.id, changes, collection.slug);
+      recordEdit?.(
+        buildReorderCommand(collection.id, collection.slug, reorderState.originalOrder, finalOrder)
+      );
       handleCancelReorder();
     } catch (error_) {
+      if (await queueOffline?.(buildReorderEntry(currentState.collection, changes))) {
+        // The optimistic order stays on screen; the queue sends it on reconnect.
+        handleCancelReorder();
+        return;
+      }
       setError(handleApiError(error_, 'Failed to reorder content.'));
       try {
         const response = await getCollectionUpdateMetadata(collection.slug);
@@ -137,6 +154,8 @@ export function useContentReordering({
     setCurrentState,
     setOperationLoading,
     setError,
+    recordEdit,
+    queueOffline,
   ]);
 
   const handleArrowMove = useCallback(
@@ -16,6 +16,7 @@ import { type AnyContentModel, type ContentImageModel } from '@/app/types/Conten
 import { handleApiError } from '@/app/utils/apiUtils';
 
 import { COVER_IMAGE_FLASH_DURATION, handleCoverImageSelection } from '../collectionEditUtils';
+import { buildCoverCommand, type EditCommand } from '../editHistory';
 
 interface UseCoverImageSelectionParams {
   collection: CollectionModel | null;
@@ -23,6 +24,8 @@ interface UseCoverImageSelectionParams {
   setCurrentState: Dispatch<SetStateAction<CollectionUpdateResponseDTO | null>>;
   setOperationLoading: Dispatch<SetStateAction<boolean>>;
   setError: Dispatch<SetStateAction<string | null>>;
+  /** Receives the undo/redo command for each cover that is saved. */
+  recordEdit?: (command: EditCommand | null) => void;
 }
 
 export function useCoverImageSelection({
@@ -31,6 +34,7 @@ export function useCoverImageSelection({
   setCurrentState,
   setOperationLoading,
   setError,
+  recordEdit,
 }: UseCoverImageSelectionParams) {
   const [isSelectingCoverImage, setIsSelectingCoverImage] = useState(false);
   const [justClickedImageId, setJustClickedImageId] = useState<number | null>(null);
@@ -78,6 +82,9 @@ export function useCoverImageSelection({
           setCurrentState(response);
           collectionStorage.update(response.collection.slug, response.collection);
           collectionStorage.updateFull(response.collection.slug, response);
+          recordEdit?.(
+            buildCoverCommand(collection.id, collection.coverImage?.id, result.coverImageId)
+          );
         }
       } catch (error) {
         setError(handleApiError(error, 'Failed to update cover image'));
@@ -91,7 +98,7 @@ export function useCoverImageSelection({
         }, COVER_IMAGE_FLASH_DURATION);
       }
     },
-    [collection, childCollectionImages, setCurrentState, setOperationLoading, setError]
+    [collection, childCollectionImages, setCurrentState, setOperationLoading, setError, recordEdit]
   );
 
   return {
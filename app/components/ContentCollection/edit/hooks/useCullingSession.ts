@@ -0,0 +1,172 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { updateImages } from '@/app/lib/api/content';
+import { type ContentImageModel } from '@/app/types/Content';
+import { handleApiError } from '@/app/utils/apiUtils';
+
+import {
+  buildCullUpdate,
+  CULL_BATCH_SIZE,
+  CULL_FLUSH_DELAY_MS,
+  type CullState,
+  readCullState,
+} from '../cullingUtils';
+
+interface UseCullingSessionParams {
+  /** The collection being culled: rejects hide images in it, and only in it. */
+  collection: { id: number; name: string };
+}
+
+export interface CullingSession {
+  /** The image's state in this session: its edits if touched, else as the server has it. */
+  stateOf: (image: ContentImageModel) => CullState;
+  /** Record a change; it is saved with the next batch. */
+  change: (image: ContentImageModel, patch: Partial<CullState>) => void;
+  /** Images changed since their last save. */
+  pendingCount: number;
+  saving: boolean;
+  /** The last failed save; pending changes are kept and go out with the next one. */
+  error: string | null;
+  /** Send every pending change now. Resolves false when the save failed. */
+  flush: () => Promise<boolean>;
+  /** Touched images, as the session started with them and as they stand now. */
+  originals: ReadonlyMap<number, CullState>;
+  states: ReadonlyMap<number, CullState>;
+  /** The images the server returned from this session's saves, latest copy of each. */
+  savedImages: ContentImageModel[];
+}
+
+/**
+ * Batched persistence for a culling session (see `CullingView`). Changes apply locally at once
+ * and collect in a pending set, sent through one `updateImages` call after a quiet spell of
+ * {@link CULL_FLUSH_DELAY_MS} or as soon as {@link CULL_BATCH_SIZE} images are waiting — a 1,500-
+ * frame cull makes a few dozen requests rather than one per key press.
+ *
+ * Each image is diffed against the state the server last acknowledged, not the one it started
+ * with, so a change reverted after it was sent is written back rather than lost. A change made
+ * while its batch is in flight stays pending for the next one.
+ */
+export function useCullingSession({ collection }: UseCullingSessionParams): CullingSession {
+  const [states, setStates] = useState<ReadonlyMap<number, CullState>>(() => new Map());
+  const [pendingCount, setPendingCount] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedImages, setSavedImages] = useState<ContentImageModel[]>([]);
+
+  const statesRef = useRef(new Map<number, CullState>());
+  const originalsRef = useRef(new Map<number, CullState>());
+  // What the server holds for each touched image, as of its last acknowledged save.
+  const savedRef = useRef(new Map<number, CullState>());
+  const pendingRef = useRef(new Set<number>());
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const collectionRef = useRef(collection);
+  collectionRef.current = collection;
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  }, []);
+
+  const sendPending = useCallback(async (): Promise<boolean> => {
+    const ids = [...pendingRef.current];
+    const sent = new Map(ids.map(id => [id, statesRef.current.get(id)!]));
+    const updates = ids.flatMap(
+      id =>
+        buildCullUpdate(id, savedRef.current.get(id)!, sent.get(id)!, collectionRef.current) ?? []
+    );
+
+    const settle = () => {
+      for (const [id, state] of sent) {
+        savedRef.current.set(id, state);
+        // Changed again while the request was out: leave it pending for the next batch.
+        if (statesRef.current.get(id) === state) pendingRef.current.delete(id);
+      }
+      setPendingCount(pendingRef.current.size);
+    };
+
+    if (updates.length === 0) {
+      settle();
+      return true;
+    }
+
+    setSaving(true);
+    try {
+      const response = await updateImages(updates);
+      if (response === null) throw new Error('The server did not accept the culling changes.');
+      settle();
+      setError(null);
+      setSavedImages(prev => {
+        const byId = new Map(prev.map(image => [image.id, image]));
+        for (const image of response.updatedImages) byId.set(image.id, image);
+        return [...byId.values()];
+      });
+      return true;
+    } catch (error_) {
+      setError(handleApiError(error_, 'Failed to save culling changes.'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const flush = useCallback(async (): Promise<boolean> => {
+    clearTimer();
+    // One request at a time; whatever piled up behind it goes straight after.
+    while (inFlightRef.current) await inFlightRef.current;
+    if (pendingRef.current.size === 0) return true;
+    const request = sendPending();
+    inFlightRef.current = request;
+    try {
+      return await request;
+    } finally {
+      inFlightRef.current = null;
+    }
+  }, [clearTimer, sendPending]);
+
+  const change = useCallback(
+    (image: ContentImageModel, patch: Partial<CullState>) => {
+      const { id } = image;
+      if (!originalsRef.current.has(id)) {
+        const server = readCullState(image, collectionRef.current.id);
+        originalsRef.current.set(id, server);
+        savedRef.current.set(id, server);
+      }
+      const next = { ...(statesRef.current.get(id) ?? originalsRef.current.get(id)!), ...patch };
+      statesRef.current.set(id, next);
+      pendingRef.current.add(id);
+      setStates(new Map(statesRef.current));
+      setPendingCount(pendingRef.current.size);
+
+      clearTimer();
+      if (pendingRef.current.size >= CULL_BATCH_SIZE) {
+        void flush();
+      } else {
+        timerRef.current = setTimeout(() => void flush(), CULL_FLUSH_DELAY_MS);
+      }
+    },
+    [clearTimer, flush]
+  );
+
+  const stateOf = useCallback(
+    (image: ContentImageModel) =>
+      states.get(image.id) ?? readCullState(image, collectionRef.current.id),
+    [states]
+  );
+
+  useEffect(() => clearTimer, [clearTimer]);
+
+  return {
+    stateOf,
+    change,
+    pendingCount,
+    saving,
+    error,
+    flush,
+    originals: originalsRef.current,
+    states,
+    savedImages,
+  };
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import {
+  type Dispatch,
+  type SetStateAction,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+
+import { handleApiError } from '@/app/utils/apiUtils';
+
+import {
+  type EditCommand,
+  type EditHistory,
+  EMPTY_HISTORY,
+  type HistoryDirection,
+  recordCommand,
+  stepHistory,
+  UNDO_TOAST_DURATION,
+} from '../editHistory';
+
+interface UseEditHistoryParams {
+  /** History belongs to one collection; navigating to another starts it over. */
+  collectionId: number;
+  /** Sends a command's undo or redo request and adopts the result. Rejects on failure. */
+  applyCommand: (command: EditCommand, direction: HistoryDirection) => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+export interface EditHistoryToast {
+  message: string;
+}
+
+export function useEditHistory({ collectionId, applyCommand, setError }: UseEditHistoryParams) {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [replaying, setReplaying] = useState(false);
+  const [toast, setToast] = useState<EditHistoryToast | null>(null);
+  const historyRef = useRef(history);
+  const replayingRef = useRef(false);
+  const toastTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
+  const dismissToast = useCallback(() => {
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
+    toastTimerRef.current = null;
+    setToast(null);
+  }, []);
+
+  useEffect(() => {
+    setHistory(EMPTY_HISTORY);
+    dismissToast();
+  }, [collectionId, dismissToast]);
+
+  useEffect(() => dismissToast, [dismissToast]);
+
+  /**
+   * Record a write that just succeeded. `toast` is shown with a one-click undo — for destructive
+   * actions, whose confirm dialog is otherwise the only chance to back out.
+   */
+  const record = useCallback(
+    (command: EditCommand | null, options?: { toast?: string }) => {
+      if (!command) return;
+      setHistory(prev => recordCommand(prev, command));
+      if (!options?.toast) return;
+      dismissToast();
+      setToast({ message: options.toast });
+      toastTimerRef.current = setTimeout(() => setToast(null), UNDO_TOAST_DURATION);
+    },
+    [dismissToast]
+  );
+
+  /**
+   * Run the next undo or redo. One at a time: a second keypress while a request is in flight is
+   * dropped rather than queued against a stack the first has not settled yet. On failure the
+   * command stays where it was, so the admin can retry.
+   */
+  const step = useCallback(
+    async (direction: HistoryDirection) => {
+      if (replayingRef.current) return;
+      const next = stepHistory(historyRef.current, direction);
+      if (!next) return;
+
+      replayingRef.current = true;
+      setReplaying(true);
+      dismissToast();
+      setError(null);
+      try {
+        await applyCommand(next.command, direction);
+        // Re-derived from the live stack: a command recorded meanwhile would otherwise be lost.
+        setHistory(prev => {
+          const moved = stepHistory(prev, direction);
+          return moved?.command === next.command ? moved.history : prev;
+        });
+      } catch (error_) {
+        setError(
+          handleApiError(error_, `Failed to ${direction} ${next.command.label.toLowerCase()}`)
+        );
+      } finally {
+        replayingRef.current = false;
+        setReplaying(false);
+      }
+    },
+    [applyCommand, dismissToast, setError]
+  );
+
+  const undo = useCallback(() => step('undo'), [step]);
+  const redo = useCallback(() => step('redo'), [step]);
+
+  return {
+    canUndo: history.past.length > 0 && !replaying,
+    canRedo: history.future.length > 0 && !replaying,
+    undoLabel: history.past.at(-1)?.label ?? null,
+    redoLabel: history.future.at(-1)?.label ?? null,
+    replaying,
+    undo,
+    redo,
+    record,
+    toast,
+    dismissToast,
+  };
+}
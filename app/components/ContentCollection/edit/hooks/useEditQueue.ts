@@ -0,0 +1,190 @@
+'use client';
+
+import {
+  type Dispatch,
+  type SetStateAction,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+
+import { getCollectionUpdateMetadata } from '@/app/lib/api/collections';
+import { editQueue, type NewQueuedEdit, type QueuedEdit } from '@/app/lib/storage/editQueue';
+import { handleApiError } from '@/app/utils/apiUtils';
+
+import {
+  adoptServerStamps,
+  collectStamps,
+  detectConflict,
+  type EditConflict,
+  type EntityStamps,
+  isOfflineFailure,
+  mergeImageUpdates,
+  rebaseQueuedEdits,
+  replayQueuedEdit,
+} from '../offlineEdits';
+
+interface UseEditQueueParams {
+  /** The queue is per collection; only this slug's edits are listed and replayed. */
+  slug: string;
+  /** Off on the public page: nothing is listed or replayed. */
+  enabled: boolean;
+  /** Runs after a replay wrote anything, to pull the server's result into the page. */
+  onReplayed: () => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** The admin's answer to a conflict. */
+export type ConflictResolution =
+  /** Drop the queued edit; the server copy stands. */
+  | { kind: 'discard' }
+  /** Replay it over the server copy — only the `<imageId>:<field>` keys in `keepMine`, if given. */
+  | { kind: 'apply'; keepMine?: ReadonlySet<string> }
+  /** Leave it queued and stop for now; the next sync asks again. */
+  | { kind: 'defer' };
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export function useEditQueue({ slug, enabled, onReplayed, setError }: UseEditQueueParams) {
+  const [pending, setPending] = useState<QueuedEdit[]>([]);
+  const [online, setOnline] = useState(isOnline);
+  const [syncing, setSyncing] = useState(false);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const drainingRef = useRef(false);
+  const conflictRef = useRef<EditConflict | null>(null);
+  // Server stamps as of the last drain; what "apply anyway" accepts as the new baseline.
+  const stampsRef = useRef<EntityStamps>({});
+
+  const showConflict = useCallback((next: EditConflict | null) => {
+    conflictRef.current = next;
+    setConflict(next);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setPending(await editQueue.list(slug));
+  }, [slug]);
+
+  /**
+   * Replay this collection's queue, oldest first, stopping at the first edit that conflicts or is
+   * refused. The manage DTO is fetched once; each replay's own stamps are folded in as it lands.
+   */
+  const drain = useCallback(async () => {
+    if (!enabled || drainingRef.current || conflictRef.current || !isOnline()) return;
+    const edits = await editQueue.list(slug);
+    if (edits.length === 0) return;
+
+    drainingRef.current = true;
+    setSyncing(true);
+    let replayed = false;
+    try {
+      const state = await getCollectionUpdateMetadata(slug);
+      if (state === null) return;
+      const stamps = collectStamps(state);
+      stampsRef.current = stamps;
+
+      for (let index = 0; index < edits.length; index++) {
+        const edit = edits[index]!;
+        const found = detectConflict(edit, state, stamps);
+        if (found) {
+          showConflict(found);
+          return;
+        }
+        let written: EntityStamps;
+        try {
+          written = await replayQueuedEdit(edit);
+        } catch (error_) {
+          // Dropped again mid-replay: keep the rest queued for the next `online`.
+          if (isOfflineFailure()) return;
+          showConflict({
+            edit,
+            reason: 'rejected',
+            fields: [],
+            message: handleApiError(error_, 'The server refused this change.'),
+          });
+          return;
+        }
+        replayed = true;
+        for (const rebased of rebaseQueuedEdits(edits.slice(index + 1), stamps, written)) {
+          await editQueue.put(rebased);
+          edits[edits.findIndex(later => later.id === rebased.id)] = rebased;
+        }
+        Object.assign(stamps, written);
+        await editQueue.remove(edit.id);
+      }
+    } catch (error_) {
+      if (!isOfflineFailure()) setError(handleApiError(error_, 'Failed to sync offline changes.'));
+    } finally {
+      drainingRef.current = false;
+      setSyncing(false);
+      if (replayed) await onReplayed();
+    }
+  }, [slug, enabled, onReplayed, setError, showConflict]);
+
+  useEffect(() => {
+    showConflict(null);
+    if (!enabled) return;
+    void refresh().then(() => drain());
+    return editQueue.subscribe(() => void refresh());
+  }, [enabled, refresh, drain, showConflict]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      void drain();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [drain]);
+
+  /**
+   * Queue a write that failed because the browser is offline. Resolves false — leaving the caller
+   * to surface its error as usual — when the failure had another cause.
+   */
+  const queue = useCallback(async (entry: NewQueuedEdit): Promise<boolean> => {
+    if (!isOfflineFailure()) return false;
+    await editQueue.enqueue(entry);
+    setOnline(false);
+    return true;
+  }, []);
+
+  const resolveConflict = useCallback(
+    async (resolution: ConflictResolution) => {
+      const current = conflictRef.current;
+      if (!current) return;
+      const { edit } = current;
+
+      if (resolution.kind === 'defer') {
+        showConflict(null);
+        return;
+      }
+      if (resolution.kind === 'discard') {
+        await editQueue.remove(edit.id);
+      } else {
+        let next = adoptServerStamps(edit, stampsRef.current);
+        if (resolution.keepMine && next.mutation.kind === 'images') {
+          const updates = mergeImageUpdates(next.mutation.updates, resolution.keepMine);
+          next = { ...next, mutation: { kind: 'images', updates } };
+        }
+        await (next.mutation.kind === 'images' && next.mutation.updates.length === 0
+          ? editQueue.remove(edit.id)
+          : editQueue.put(next));
+      }
+      showConflict(null);
+      await drain();
+    },
+    [drain, showConflict]
+  );
+
+  const syncNow = useCallback(async () => {
+    showConflict(null);
+    await drain();
+  }, [drain, showConflict]);
+
+  return { pending, online, syncing, conflict, queue, resolveConflict, syncNow };
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { ApiError } from '@/app/lib/api/core';
+import { abortUpload, completeUpload, startUpload, uploadChunk } from '@/app/lib/api/uploads';
+import { handleApiError } from '@/app/utils/apiUtils';
+import { logger } from '@/app/utils/logger';
+
+import { isOfflineFailure } from '../offlineEdits';
+import {
+  chunkRanges,
+  confirmedBytes,
+  hashFile,
+  isActiveUpload,
+  isFinishedUpload,
+  readImageDimensions,
+  UPLOAD_CHUNK_BYTES,
+  type UploadItem,
+  uploadKind,
+  validateImageDimensions,
+  validateUploadFile,
+} from '../uploadQueue';
+
+interface UseUploadQueueParams {
+  collectionId: number;
+  /** Runs once the queue goes idle with at least one new file landed, to pull the content in. */
+  onUploaded: () => Promise<void>;
+}
+
+/** Waits before re-sending a chunk that failed on the server or the network. */
+const CHUNK_RETRY_DELAYS_MS = [1000, 3000];
+
+const OFFLINE_MESSAGE = 'Offline — resumes when the connection returns';
+
+/** A 4xx is the backend refusing the chunk; sending it again would be refused the same way. */
+const isRetryable = (error: unknown) => !(error instanceof ApiError) || error.status >= 500;
+
+/**
+ * Let the backend drop the chunks a session stored. A failed abort only leaves them for the
+ * backend's own expiry, so it is logged rather than surfaced.
+ */
+function abandonSession(uploadId: string) {
+  void abortUpload(uploadId).catch(error => {
+    logger.warn('useUploadQueue', 'Failed to abort upload session', { uploadId, error });
+  });
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Chunked, resumable uploads for the manage page. Files go up one at a time, chunk by chunk (see
+ * `app/lib/api/uploads.ts`); each can be paused, resumed, retried or removed on its own. A
+ * resumed file reopens its session and sends only the chunks the backend is missing.
+ */
+export function useUploadQueue({ collectionId, onUploaded }: UseUploadQueueParams) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  // Mirrors `items` for the upload loop, which runs across many renders.
+  const itemsRef = useRef<UploadItem[]>([]);
+  const filesRef = useRef(new Map<string, File>());
+  const chunkHashesRef = useRef(new Map<string, string[]>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const runningRef = useRef(false);
+  const landedRef = useRef(false);
+  // Set once the page is gone, so the loop stops instead of starting the next file.
+  const disposedRef = useRef(false);
+  const nextIdRef = useRef(0);
+
+  const commit = useCallback((next: UploadItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const patch = useCallback(
+    (id: string, changes: Partial<UploadItem>) => {
+      commit(itemsRef.current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    },
+    [commit]
+  );
+
+  const sendChunk = useCallback(
+    async (uploadId: string, index: number, chunk: Blob, hash: string, signal: AbortSignal) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await uploadChunk(uploadId, index, chunk, hash, signal);
+          return;
+        } catch (error_) {
+          const delay = CHUNK_RETRY_DELAYS_MS[attempt];
+          if (signal.aborted || isOfflineFailure() || !isRetryable(error_) || delay === undefined) {
+            throw error_;
+          }
+          await wait(delay, signal);
+        }
+      }
+    },
+    []
+  );
+
+  const uploadOne = useCallback(
+    async (item: UploadItem) => {
+      const { id, kind } = item;
+      const file = filesRef.current.get(id);
+      if (!file || disposedRef.current) return;
+      const controller = new AbortController();
+      const { signal } = controller;
+      controllersRef.current.set(id, controller);
+
+      try {
+        let { hash } = item;
+        let chunkHashes = chunkHashesRef.current.get(id);
+        if (!hash || !chunkHashes) {
+          patch(id, { status: 'hashing', message: undefined });
+          ({ hash, chunkHashes } = await hashFile(file, signal));
+          if (signal.aborted) return;
+          const twin = itemsRef.current.find(
+            other =>
+              other.id !== id &&
+              other.hash === hash &&
+              (isActiveUpload(other.status) || other.status === 'paused' || other.status === 'done')
+          );
+          if (twin) {
+            patch(id, { status: 'duplicate', hash, message: `Same file as ${twin.name}` });
+            return;
+          }
+          chunkHashesRef.current.set(id, chunkHashes);
+          patch(id, { hash });
+        }
+
+        patch(id, { status: 'uploading', message: undefined, offline: false });
+        const session = await startUpload(collectionId, {
+          filename: file.name,
+          mimeType: file.type,
+          size: file.size,
+          kind,
+          sha256: hash,
+          chunkSize: UPLOAD_CHUNK_BYTES,
+        });
+        if (signal.aborted) {
+          // Removed while the session was opening, before `remove` could know its id.
+          const removed = !itemsRef.current.some(other => other.id === id);
+          if (session && removed) abandonSession(session.uploadId);
+          return;
+        }
+        if (!session) throw new Error('No upload session returned');
+        const { uploadId, receivedChunks, duplicateOfContentId } = session;
+        if (duplicateOfContentId != null) {
+          patch(id, { status: 'duplicate', message: 'Already in this collection' });
+          return;
+        }
+
+        const received = new Set(receivedChunks);
+        patch(id, { uploadId, uploadedBytes: confirmedBytes(file.size, received) });
+        for (const { index, start, end } of chunkRanges(file.size)) {
+          if (received.has(index)) continue;
+          await sendChunk(uploadId, index, file.slice(start, end), chunkHashes[index]!, signal);
+          received.add(index);
+          patch(id, { uploadedBytes: confirmedBytes(file.size, received) });
+        }
+
+        patch(id, { status: 'finalizing' });
+        await completeUpload(uploadId);
+        patch(id, { status: 'done', uploadedBytes: file.size });
+        landedRef.current = true;
+        filesRef.current.delete(id);
+        chunkHashesRef.current.delete(id);
+      } catch (error_) {
+        // Paused, removed or left: whoever aborted has already set the status.
+        if (signal.aborted) return;
+        if (isOfflineFailure()) {
+          patch(id, { status: 'paused', offline: true, message: OFFLINE_MESSAGE });
+        } else {
+          patch(id, { status: 'failed', message: handleApiError(error_, 'Upload failed') });
+        }
+      } finally {
+        controllersRef.current.delete(id);
+      }
+    },
+    [collectionId, patch, sendChunk]
+  );
+
+  /** Work through queued files until none are left, then refresh once. */
+  const pump = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    try {
+      let next = itemsRef.current.find(item => item.status === 'queued');
+      while (next && !disposedRef.current) {
+        await uploadOne(next);
+        next = itemsRef.current.find(item => item.status === 'queued');
+      }
+    } finally {
+      runningRef.current = false;
+    }
+    if (landedRef.current && !disposedRef.current) {
+      landedRef.current = false;
+      await onUploaded();
+    }
+  }, [uploadOne, onUploaded]);
+
+  /** Validate and queue files. Rejected ones stay listed with the reason. */
+  const addFiles = useCallback(
+    async (files: FileList | readonly File[]) => {
+      const added: UploadItem[] = [];
+      for (const file of Array.from(files)) {
+        const id = `upload-${nextIdRef.current++}`;
+        const kind = uploadKind(file) ?? 'image';
+        const problem =
+          validateUploadFile(file) ??
+          (kind === 'image' ? validateImageDimensions(await readImageDimensions(file)) : null);
+        if (!problem) filesRef.current.set(id, file);
+        added.push({
+          id,
+          name: file.name,
+          size: file.size,
+          kind,
+          status: problem ? 'rejected' : 'queued',
+          uploadedBytes: 0,
+          message: problem ?? undefined,
+        });
+      }
+      commit([...itemsRef.current, ...added]);
+      await pump();
+    },
+    [commit, pump]
+  );
+
+  const pause = useCallback(
+    (id: string) => {
+      const item = itemsRef.current.find(candidate => candidate.id === id);
+      if (
+        !item ||
+        !(item.status === 'queued' || item.status === 'hashing' || item.status === 'uploading')
+      ) {
+        return;
+      }
+      patch(id, { status: 'paused', offline: false, message: undefined });
+      controllersRef.current.get(id)?.abort();
+    },
+    [patch]
+  );
+
+  /** Resume a paused file or retry a failed one; either way only missing chunks are sent. */
+  const resume = useCallback(
+    (id: string) => {
+      const item = itemsRef.current.find(candidate => candidate.id === id);
+      if (!item || !(item.status === 'paused' || item.status === 'failed')) return;
+      patch(id, { status: 'queued', offline: false, message: undefined });
+      void pump();
+    },
+    [patch, pump]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      const item = itemsRef.current.find(candidate => candidate.id === id);
+      if (!item) return;
+      controllersRef.current.get(id)?.abort();
+      filesRef.current.delete(id);
+      chunkHashesRef.current.delete(id);
+      commit(itemsRef.current.filter(candidate => candidate.id !== id));
+      if (item.uploadId && item.status !== 'done') abandonSession(item.uploadId);
+    },
+    [commit]
+  );
+
+  const clearFinished = useCallback(() => {
+    commit(itemsRef.current.filter(item => !isFinishedUpload(item.status)));
+  }, [commit]);
+
+  // Files paused by a dropped connection pick up again when it returns.
+  useEffect(() => {
+    const onOnline = () => {
+      const waiting = itemsRef.current.filter(item => item.offline && item.status === 'paused');
+      if (waiting.length === 0) return;
+      commit(
+        itemsRef.current.map(item =>
+          waiting.includes(item)
+            ? { ...item, status: 'queued', offline: false, message: undefined }
+            : item
+        )
+      );
+      void pump();
+    };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [commit, pump]);
+
+  // Leaving the page stops every request in flight and parks the unfinished files as paused;
+  // reopening a file resumes its session.
+  useEffect(() => {
+    disposedRef.current = false;
+    const controllers = controllersRef.current;
+    return () => {
+      disposedRef.current = true;
+      for (const controller of controllers.values()) controller.abort();
+      commit(
+        itemsRef.current.map(item =>
+          isActiveUpload(item.status) ? { ...item, status: 'paused', message: undefined } : item
+        )
+      );
+    };
+  }, [commit]);
+
+  return { items, addFiles, pause, resume, remove, clearFinished };
+}
+
+export type UploadQueue = ReturnType<typeof useUploadQueue>;
@@ -0,0 +1,288 @@
+/**
+ * Offline edits for the manage page: what to stamp on a write queued while offline, how to tell on
+ * reconnect whether someone else changed the same thing in the meantime, and how to replay it.
+ *
+ * Conflicts are detected by `updatedAt`, not by value: the queue records each touched entity's
+ * stamp as the admin saw it, and a different stamp on the server copy means another write landed
+ * first. Only then are values compared, to show the admin what they would overwrite.
+ */
+
+import { updateImages } from '@/app/lib/api/content';
+import { type NewQueuedEdit, type QueuedEdit } from '@/app/lib/storage/editQueue';
+import { type CollectionModel, type CollectionUpdateResponseDTO } from '@/app/types/Collection';
+import { type Content, type ContentImageUpdateRequest } from '@/app/types/Content';
+
+import { executeReorderOperation, type ReorderChange } from './collectionEditUtils';
+
+/** Why a queued edit stopped the replay. */
+export type ConflictReason =
+  /** Someone saved the same image or collection after the admin last saw it. */
+  | 'changed'
+  /** The image is no longer in this collection, so there is nothing to compare against. */
+  | 'missing'
+  /** The server refused the replayed request. */
+  | 'rejected';
+
+/** One field of a queued image edit, next to what the server holds now. */
+export interface ConflictField {
+  imageId: number;
+  field: string;
+  mine: string;
+  server: string;
+}
+
+export interface EditConflict {
+  edit: QueuedEdit;
+  reason: ConflictReason;
+  /** Image edits only; empty for a reorder. */
+  fields: ConflictField[];
+  /** Server message, for `rejected`. */
+  message?: string;
+}
+
+/** `updatedAt` of every entity a queued edit touches, keyed as in `QueuedEdit.baseline`. */
+export type EntityStamps = Record<string, string | null>;
+
+const imageKey = (id: number) => `image:${id}`;
+const collectionKey = (id: number) => `collection:${id}`;
+
+const FIELD_LABELS: Partial<Record<keyof ContentImageUpdateRequest, string>> = {
+  fStop: 'F-stop',
+  iso: 'ISO',
+  isFilm: 'Film',
+  blackAndWhite: 'Black & white',
+  filmType: 'Film stock',
+  captureDate: 'Capture date',
+  shutterSpeed: 'Shutter speed',
+  focalLength: 'Focal length',
+};
+
+/**
+ * True when a failed request failed because the browser is offline. `throwApiError` folds network
+ * errors into a generic 500, so the error itself cannot tell us.
+ */
+export function isOfflineFailure(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/** The queue entry for a metadata save that could not be sent. */
+export function buildImageEditEntry(
+  slug: string,
+  updates: ContentImageUpdateRequest[],
+  images: readonly Pick<Content, 'id' | 'updatedAt'>[]
+): NewQueuedEdit {
+  const stamps = new Map(images.map(image => [image.id, image.updatedAt ?? null]));
+  return {
+    slug,
+    label: updates.length === 1 ? 'Image details' : `Details of ${updates.length} images`,
+    mutation: { kind: 'images', updates },
+    baseline: Object.fromEntries(
+      updates.map(update => [imageKey(update.id), stamps.get(update.id) ?? null])
+    ),
+  };
+}
+
+/** The queue entry for a reorder that could not be sent. */
+export function buildReorderEntry(
+  collection: Pick<CollectionModel, 'id' | 'slug' | 'updatedAt'>,
+  changes: ReorderChange[]
+): NewQueuedEdit {
+  return {
+    slug: collection.slug,
+    label: 'Reorder',
+    mutation: {
+      kind: 'reorder',
+      collectionId: collection.id,
+      reorders: changes.map(({ contentId, newOrderIndex }) => ({ contentId, newOrderIndex })),
+    },
+    baseline: { [collectionKey(collection.id)]: collection.updatedAt ?? null },
+  };
+}
+
+/** Current server stamps for everything in the manage DTO. */
+export function collectStamps(state: CollectionUpdateResponseDTO): EntityStamps {
+  const stamps: EntityStamps = {
+    [collectionKey(state.collection.id)]: state.collection.updatedAt ?? null,
+  };
+  for (const block of state.collection.content ?? []) {
+    stamps[imageKey(block.id)] = block.updatedAt ?? null;
+  }
+  return stamps;
+}
+
+/** Renders a request or model value for the conflict dialog. */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '—' : value.map(item => formatFieldValue(item)).join(', ');
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value !== 'object') return String(value);
+
+  const record = value as Record<string, unknown>;
+  const name = record.name ?? record.tagName ?? record.personName ?? record.collectionName;
+  if (typeof name === 'string') return name;
+
+  // prev/newValue/remove update requests
+  const parts: string[] = [];
+  if (Array.isArray(record.newValue) ? record.newValue.length > 0 : record.newValue != null) {
+    parts.push(`add ${formatFieldValue(record.newValue)}`);
+  }
+  if (Array.isArray(record.remove) && record.remove.length > 0) {
+    parts.push(`remove ${record.remove.length}`);
+  }
+  if (Array.isArray(record.prev) && record.prev.length > 0)
+    parts.push(`keep ${record.prev.length}`);
+  else if (typeof record.prev === 'number') parts.push(`#${record.prev}`);
+  return parts.length > 0 ? parts.join('; ') : '—';
+}
+
+/** Label for a request field, e.g. `fStop` → `F-stop`. */
+export function fieldLabel(field: string): string {
+  return (
+    FIELD_LABELS[field as keyof ContentImageUpdateRequest] ??
+    field.charAt(0).toUpperCase() + field.slice(1)
+  );
+}
+
+/**
+ * Whether a queued edit can be replayed as-is. `stamps` is the server's current view — the manage
+ * DTO, overlaid with the stamps each earlier replay returned.
+ */
+export function detectConflict(
+  edit: QueuedEdit,
+  state: CollectionUpdateResponseDTO,
+  stamps: EntityStamps
+): EditConflict | null {
+  const changed = Object.entries(edit.baseline).some(
+    ([key, seen]) => key in stamps && stamps[key] !== seen
+  );
+
+  if (edit.mutation.kind === 'reorder') {
+    return changed ? { edit, reason: 'changed', fields: [] } : null;
+  }
+
+  const images = new Map((state.collection.content ?? []).map(block => [block.id, block]));
+  if (edit.mutation.updates.some(update => !images.has(update.id))) {
+    return { edit, reason: 'missing', fields: [] };
+  }
+  if (!changed) return null;
+
+  const fields: ConflictField[] = [];
+  for (const update of edit.mutation.updates) {
+    const server = images.get(update.id) as unknown as Record<string, unknown>;
+    for (const [field, value] of Object.entries(update)) {
+      if (field === 'id') continue;
+      fields.push({
+        imageId: update.id,
+        field,
+        mine: formatFieldValue(value),
+        server: formatFieldValue(server[field]),
+      });
+    }
+  }
+  return { edit, reason: 'changed', fields };
+}
+
+/**
+ * Keep only the fields the admin chose to keep (`<imageId>:<field>`); the rest stay as the server
+ * has them. Images left with nothing to change are dropped.
+ */
+export function mergeImageUpdates(
+  updates: ContentImageUpdateRequest[],
+  keepMine: ReadonlySet<string>
+): ContentImageUpdateRequest[] {
+  return updates
+    .map(update => {
+      const kept = Object.entries(update).filter(
+        ([field]) => field === 'id' || keepMine.has(`${update.id}:${field}`)
+      );
+      return Object.fromEntries(kept) as unknown as ContentImageUpdateRequest;
+    })
+    .filter(update => Object.keys(update).length > 1);
+}
+
+/**
+ * Send a queued edit. Resolves with the stamps the server now holds for what it touched, so later
+ * edits in the queue are not mistaken for conflicting with this one.
+ */
+export async function replayQueuedEdit({ slug, mutation }: QueuedEdit): Promise<EntityStamps> {
+  if (mutation.kind === 'reorder') {
+    const collection = await executeReorderOperation(
+      mutation.collectionId,
+      mutation.reorders,
+      slug
+    );
+    return { [collectionKey(collection.id)]: collection.updatedAt ?? null };
+  }
+
+  const response = await updateImages(mutation.updates);
+  if (response === null) {
+    throw new Error('No response received from server after image update');
+  }
+  return Object.fromEntries(
+    response.updatedImages.map(image => [imageKey(image.id), image.updatedAt ?? null])
+  );
+}
+
+/**
+ * Move later edits' baselines onto stamps the replay itself produced. Persisted, so a replay that
+ * stops halfway does not flag the admin's own earlier edits as conflicts after a reload.
+ * Returns only the edits that changed.
+ */
+export function rebaseQueuedEdits(
+  edits: readonly QueuedEdit[],
+  before: EntityStamps,
+  after: EntityStamps
+): QueuedEdit[] {
+  return edits.flatMap(edit => {
+    let rebased = false;
+    const baseline = { ...edit.baseline };
+    for (const [key, stamp] of Object.entries(after)) {
+      if (key in baseline && baseline[key] === before[key] && baseline[key] !== stamp) {
+        baseline[key] = stamp;
+        rebased = true;
+      }
+    }
+    return rebased ? [{ ...edit, baseline }] : [];
+  });
+}
+
+/**
+ * Accept the server's current stamps for everything an edit touches — the admin has seen the
+ * conflict and chosen to apply their version anyway.
+ */
+export function adoptServerStamps(edit: QueuedEdit, stamps: EntityStamps): QueuedEdit {
+  return {
+    ...edit,
+    baseline: Object.fromEntries(
+      Object.keys(edit.baseline).map(key => [key, stamps[key] ?? edit.baseline[key] ?? null])
+    ),
+  };
+}
+
+/**
+ * Show a queued image edit on the page before it is sent. Only plain values are applied; a
+ * relationship change (tags, camera, collections) waits for the replay, since only the server can
+ * resolve the ids it creates.
+ */
+export function applyQueuedImageUpdates(
+  collection: CollectionModel,
+  updates: readonly ContentImageUpdateRequest[]
+): CollectionModel {
+  const patches = new Map(
+    updates.map(({ id, ...fields }) => [
+      id,
+      Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value === null || typeof value !== 'object')
+      ),
+    ])
+  );
+  return {
+    ...collection,
+    content: collection.content?.map(block => {
+      const patch = patches.get(block.id);
+      return patch && block.contentType === 'IMAGE' ? { ...block, ...patch } : block;
+    }),
+  };
+}
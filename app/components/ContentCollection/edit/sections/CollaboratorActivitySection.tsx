@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import { getCollectionActivity } from '@/app/lib/api/collections';
+import {
+  type CollectionActivityEntry,
+  type CollectionActivityKind,
+} from '@/app/types/Collaboration';
+import { formatLongDate } from '@/app/utils/formatDateRange';
+
+import styles from './CollaboratorActivitySection.module.scss';
+
+interface CollaboratorActivitySectionProps {
+  /** Saved collection id — the section only renders for persisted collections. */
+  collectionId: number;
+}
+
+const KIND_LABELS: Record<CollectionActivityKind, string> = {
+  REORDER: 'Order',
+  CAPTION: 'Caption',
+  TAGS: 'Tags',
+  RATING: 'Rating',
+  COVER: 'Cover',
+};
+
+/**
+ * Collaborator activity on the collection edit Info tab, below Role Access: every change a
+ * COLLABORATOR member made through their curation layer, who made it and when. Read once on
+ * mount, like the access log — it only moves when a collaborator is editing somewhere else.
+ */
+export function CollaboratorActivitySection({ collectionId }: CollaboratorActivitySectionProps) {
+  // Undefined while loading, null when the read failed.
+  const [entries, setEntries] = useState<CollectionActivityEntry[] | null | undefined>();
+
+  useEffect(() => {
+    let cancelled = false;
+    getCollectionActivity(collectionId).then(
+      list => {
+        if (!cancelled) setEntries(list);
+      },
+      () => {
+        if (!cancelled) setEntries(null);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId]);
+
+  return (
+    <section aria-labelledby="collaborator-activity-heading" className={styles.section}>
+      <h3 id="collaborator-activity-heading" className={styles.sectionTitle}>
+        Collaborator Activity
+      </h3>
+      {entries === null && (
+        <p className={styles.fieldHint}>Collaborator activity could not be loaded.</p>
+      )}
+      {entries?.length === 0 && <EmptyState>No collaborator edits yet.</EmptyState>}
+      {entries && entries.length > 0 && (
+        <ul className={styles.list} aria-label="Collaborator edits">
+          {entries.map(entry => (
+            <li key={entry.id} className={styles.row}>
+              <span className={styles.kind}>{KIND_LABELS[entry.kind]}</span>
+              <span className={styles.summary}>{entry.summary}</span>
+              <span className={styles.meta}>
+                {entry.actorEmail} · {formatLongDate(entry.createdAt)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Checkbox } from '@/app/components/ui/Field/Checkbox';
+import { Field } from '@/app/components/ui/Field/Field';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Input } from '@/app/components/ui/Field/Input';
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import {
+  createGalleryAccessCode,
+  getGalleryAccessLog,
+  listGalleryAccessCodes,
+  revokeGalleryAccessCode,
+} from '@/app/lib/api/collections';
+import {
+  type GalleryAccessCode,
+  type GalleryAccessCodeStatus,
+  type GalleryAccessLogEntry,
+} from '@/app/types/GalleryAccess';
+import { formatLongDate } from '@/app/utils/formatDateRange';
+
+import styles from './GalleryAccessCodesSection.module.scss';
+
+interface GalleryAccessCodesSectionProps {
+  /** Saved collection id — the section only renders for persisted collections. */
+  collectionId: number;
+}
+
+const STATUS_LABELS: Record<GalleryAccessCodeStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  exhausted: 'Limit reached',
+};
+
+const regionNames =
+  typeof Intl.DisplayNames === 'function'
+    ? new Intl.DisplayNames(['en'], { type: 'region' })
+    : null;
+
+/** `US` → `United States`; the raw code when the runtime cannot name it. */
+function countryName(code: string | null): string {
+  if (!code) return '—';
+  try {
+    return regionNames?.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/** A date input's `YYYY-MM-DD` as the end of that day, local time — "expires on the 30th". */
+function endOfDayIso(date: string): string | null {
+  if (!date) return null;
+  const end = new Date(`${date}T23:59:59`);
+  return Number.isNaN(end.getTime()) ? null : end.toISOString();
+}
+
+function whoLabel(entry: { label: string | null; recipientEmail: string | null }): string {
+  return entry.label ?? entry.recipientEmail ?? 'Unnamed recipient';
+}
+
+/**
+ * Per-recipient access codes and the access log, on the collection edit Info tab below the shared
+ * gallery password. Each code opens the gallery like the password does but answers for one
+ * recipient: it can expire on a date, stop after a number of downloads, and be revoked alone.
+ *
+ * Changes save immediately, like Role Access, and every mutation re-reads the list so statuses
+ * (which the backend derives from the clock and the download count) stay authoritative. The log
+ * is read once on mount — it moves only when someone outside this page opens the gallery.
+ */
+export function GalleryAccessCodesSection({ collectionId }: GalleryAccessCodesSectionProps) {
+  const [codes, setCodes] = useState<GalleryAccessCode[]>([]);
+  // Undefined while loading, null when the read failed.
+  const [log, setLog] = useState<GalleryAccessLogEntry[] | null | undefined>();
+  const [email, setEmail] = useState('');
+  const [label, setLabel] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [downloadLimit, setDownloadLimit] = useState('');
+  const [sendEmail, setSendEmail] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listGalleryAccessCodes(collectionId)
+      .then(setCodes)
+      .catch(() => {
+        setCodes([]);
+        setError('Failed to load access codes.');
+      });
+    getGalleryAccessLog(collectionId)
+      .then(setLog)
+      .catch(() => setLog(null));
+  }, [collectionId]);
+
+  async function onCreate() {
+    const limit = downloadLimit === '' ? null : Number.parseInt(downloadLimit);
+    if (limit !== null && !(limit >= 1)) {
+      setError('Download limit must be at least 1, or empty for no limit.');
+      return;
+    }
+    setCreating(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const recipientEmail = email.trim() || null;
+      const result = await createGalleryAccessCode(collectionId, {
+        recipientEmail,
+        label: label.trim() || null,
+        expiresAt: endOfDayIso(expiresOn),
+        downloadLimit: limit,
+        sendEmail: sendEmail && recipientEmail !== null,
+      });
+      const { code } = result.accessCode;
+      setStatus(
+        result.emailSent
+          ? `Code ${code} created and emailed to ${recipientEmail}.`
+          : `Code ${code} created. ${result.reason ?? 'No email sent.'}`
+      );
+      setEmail('');
+      setLabel('');
+      setExpiresOn('');
+      setDownloadLimit('');
+      setCodes(await listGalleryAccessCodes(collectionId));
+    } catch {
+      setError('Failed to create the access code.');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function onRevoke(code: GalleryAccessCode) {
+    setError(null);
+    setStatus(null);
+    try {
+      await revokeGalleryAccessCode(collectionId, code.id);
+      setCodes(await listGalleryAccessCodes(collectionId));
+    } catch {
+      setError('Failed to revoke the access code.');
+    }
+  }
+
+  return (
+    <section aria-labelledby="gallery-access-codes-heading" className={styles.section}>
+      <h3 id="gallery-access-codes-heading" className={styles.sectionTitle}>
+        Access Codes
+      </h3>
+      <p className={styles.fieldHint}>
+        One code per recipient, each with its own expiry and download limit. Works at the gallery
+        gate alongside the shared password. Changes save immediately.
+      </p>
+
+      {error && <FormError>{error}</FormError>}
+
+      {codes.length === 0 && <EmptyState>No access codes yet.</EmptyState>}
+      {codes.length > 0 && (
+        <ul className={styles.codeList}>
+          {codes.map(code => (
+            <li key={code.id} className={styles.codeRow}>
+              <div className={styles.codeMain}>
+                <span className={styles.rowName}>{whoLabel(code)}</span>
+                <code className={styles.code}>{code.code}</code>
+              </div>
+              <span className={`${styles.statusBadge} ${styles[code.status]}`}>
+                {STATUS_LABELS[code.status]}
+              </span>
+              <span className={styles.codeMeta}>
+                {code.expiresAt ? `Expires ${formatLongDate(code.expiresAt)}` : 'No expiry'}
+                {' · '}
+                {code.downloadLimit === null
+                  ? `${code.downloadCount} downloads`
+                  : `${code.downloadCount} of ${code.downloadLimit} downloads`}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => void onRevoke(code)}
+                aria-label={`Revoke code for ${whoLabel(code)}`}
+              >
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.createForm}>
+        <Field label="Recipient" htmlFor="access-code-email">
+          <Input
+            id="access-code-email"
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            placeholder="client@example.com"
+            autoComplete="off"
+          />
+        </Field>
+        <Field label="Label" htmlFor="access-code-label">
+          <Input
+            id="access-code-label"
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder="Optional, e.g. Parents"
+            autoComplete="off"
+          />
+        </Field>
+        <Field label="Expires on" htmlFor="access-code-expires">
+          <Input
+            id="access-code-expires"
+            type="date"
+            value={expiresOn}
+            onChange={e => setExpiresOn(e.target.value)}
+          />
+        </Field>
+        <Field label="Download limit" htmlFor="access-code-limit">
+          <Input
+            id="access-code-limit"
+            type="number"
+            min="1"
+            value={downloadLimit}
+            onChange={e => setDownloadLimit(e.target.value)}
+            placeholder="No limit"
+          />
+        </Field>
+      </div>
+      <div className={styles.createActions}>
+        <label className={styles.checkboxLabel}>
+          <Checkbox
+            checked={sendEmail}
+            onChange={e => setSendEmail(e.target.checked)}
+            disabled={!email.trim()}
+          />
+          <span>Email the code to the recipient</span>
+        </label>
+        <Button size="sm" onClick={() => void onCreate()} loading={creating}>
+          Create code
+        </Button>
+      </div>
+      {status && (
+        <p role="status" className={styles.fieldHint}>
+          {status}
+        </p>
+      )}
+
+      <h4 className={styles.subTitle}>Access Log</h4>
+      {log === null && <p className={styles.fieldHint}>The access log could not be loaded.</p>}
+      {log?.length === 0 && <EmptyState>Nobody has opened this gallery yet.</EmptyState>}
+      {log && log.length > 0 && (
+        <div className={styles.tableWrapper}>
+          <table className={styles.logTable}>
+            <thead>
+              <tr>
+                <th scope="col">Recipient</th>
+                <th scope="col">First view</th>
+                <th scope="col">Last view</th>
+                <th scope="col">Views</th>
+                <th scope="col">Downloads</th>
+                <th scope="col">Country</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.map(entry => (
+                <tr key={entry.codeId ?? 'shared'}>
+                  <td>{entry.codeId === null ? 'Shared password' : whoLabel(entry)}</td>
+                  <td>{formatLongDate(entry.firstViewedAt)}</td>
+                  <td>{formatLongDate(entry.lastViewedAt)}</td>
+                  <td>{entry.viewCount}</td>
+                  <td>{entry.downloadCount}</td>
+                  <td>{countryName(entry.country)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,7 @@
 'use client';
 
+import Link from 'next/link';
+
 import {
   LOCATION_ADD_NEW_FIELDS,
   PERSON_ADD_NEW_FIELDS,
@@ -20,7 +22,9 @@ import {
 
 import { Button } from '../../../ui/Button/Button';
 import { type UseCollectionEditResult } from '../useCollectionEdit';
+import { CollaboratorActivitySection } from './CollaboratorActivitySection';
 import { CollectionRolesSection } from './CollectionRolesSection';
+import { GalleryAccessCodesSection } from './GalleryAccessCodesSection';
 import styles from './InfoTab.module.scss';
 
 interface InfoTabProps {
@@ -29,7 +33,8 @@ interface InfoTabProps {
 
 /**
  * Info tab: title, kind, date, description, locations, visibility, tags, people, and (when
- * applicable) gallery access. Tags + people were consolidated here from a former Tags tab.
+ * applicable) gallery access, per-recipient access codes with their access log, and proofing. Tags + people were consolidated here from a former Tags
+ * tab.
  */
 export function InfoTab({ edit }: InfoTabProps) {
   const {
@@ -333,12 +338,48 @@ export function InfoTab({ edit }: InfoTabProps) {
         </section>
       )}
 
+      {showGalleryAccess && collection?.id != null && (
+        <GalleryAccessCodesSection collectionId={collection.id} />
+      )}
+
+      {updateData.isClient === true && (
+        <section aria-labelledby="proofing-heading" className={styles.formGroup}>
+          <h3 id="proofing-heading" className={styles.sectionTitle}>
+            Proofing
+          </h3>
+          <Field label="Pick target" htmlFor="edit-sheet-proofing-target">
+            <Input
+              id="edit-sheet-proofing-target"
+              type="number"
+              min="1"
+              value={updateData.proofingTarget ?? ''}
+              placeholder="Off"
+              onChange={e => {
+                const value = e.target.value === '' ? null : Number.parseInt(e.target.value);
+                if (value === null || value >= 1) setUpdateField('proofingTarget', value);
+              }}
+            />
+          </Field>
+          <p className={styles.fieldHint}>
+            How many images the client should pick. Leave empty for plain favorites with no submit
+            step. Saved with the rest of the form.
+          </p>
+          {collection?.id != null && collection.proofingTarget != null && (
+            <Link href={`/admin/proofing/${collection.id}`} className={styles.fieldHint}>
+              Review submitted picks
+            </Link>
+          )}
+        </section>
+      )}
+
       {collection?.id != null && (
         <CollectionRolesSection
           collectionId={collection.id}
           collectionTitle={updateData.title ?? ''}
         />
       )}
+
+      {collection?.id != null && <CollaboratorActivitySection collectionId={collection.id} />}
     </div>
   );
 }
@@ -12,6 +12,7 @@ import { Select } from '@/app/components/ui/Field/Select';
 import {
   type CollectionListModel,
   type DisplayMode,
+  type LayoutMode,
   type TagViewModel,
 } from '@/app/types/Collection';
 import { HOME_SLUG } from '@/app/utils/collectionSlugs';
@@ -34,10 +35,10 @@ interface StructureTabProps {
 /**
  * Structure tab: display/density, relationships, ratings.
  *
- * The Presentation block (Order / Row Density) is un-gated (D4): `displayMode` and `rowsWide`
- * stay live on the update contract for every collection, including one that holds child
- * collections, so hiding the controls behind `isParent` was the frontend half of the
- * "a parent holds only child collections" invariant that Rule B removes.
+ * The Presentation block (Order / Layout / Row Density) is un-gated (D4): `displayMode`,
+ * `layoutMode` and `rowsWide` stay live on the update contract for every collection, including
+ * one that holds child collections, so hiding the controls behind `isParent` was the frontend
+ * half of the "a parent holds only child collections" invariant that Rule B removes.
  */
 export function StructureTab({ edit }: StructureTabProps) {
   const router = useRouter();
@@ -58,6 +59,7 @@ export function StructureTab({ edit }: StructureTabProps) {
     updateCollectionRating,
     deleting,
     handleDeleteCollection,
+    stepUpDialog,
   } = edit;
 
   const collection = currentState?.collection;
@@ -84,6 +86,20 @@ export function StructureTab({ edit }: StructureTabProps) {
           </Field>
         </div>
 
+        <div>
+          <Field label="Layout" htmlFor="edit-sheet-layout-mode">
+            <Select
+              id="edit-sheet-layout-mode"
+              value={updateData.layoutMode}
+              onChange={e => setUpdateField('layoutMode', e.target.value as LayoutMode)}
+            >
+              <option value="ROWS">Rows</option>
+              <option value="MASONRY">Masonry</option>
+              <option value="JUSTIFIED">Justified</option>
+            </Select>
+          </Field>
+        </div>
+
         <div>
           <Field label="Row Density" htmlFor="edit-sheet-rows-wide" hint="Default: 4">
             <div className={styles.numberStepperWrapper}>
@@ -106,8 +122,7 @@ export function StructureTab({ edit }: StructureTabProps) {
                 value={updateData.rowsWide ?? ''}
                 placeholder="4"
                 onChange={e => {
-                  const value =
-                    e.target.value === '' ? undefined : Number.parseInt(e.target.value);
+                  const value = e.target.value === '' ? undefined : Number.parseInt(e.target.value);
                   if (value === undefined || (value >= 1 && value <= 10)) {
                     setUpdateField('rowsWide', value);
                   }
@@ -220,6 +235,7 @@ export function StructureTab({ edit }: StructureTabProps) {
           >
             Delete collection
           </Button>
+          {stepUpDialog}
         </section>
       )}
     </div>
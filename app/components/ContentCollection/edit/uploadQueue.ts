@@ -0,0 +1,199 @@
+/**
+ * Upload queue — the pure half of chunked uploads on the manage page.
+ *
+ * What a file has to pass before it is sent (type, size, pixel dimensions), how it is cut into
+ * chunks, and how it is fingerprinted. `hooks/useUploadQueue.ts` drives the network side.
+ *
+ * The content hash is a hash of chunk hashes: SHA-256 over the concatenated SHA-256 digests of each
+ * `UPLOAD_CHUNK_BYTES` slice. Web Crypto cannot hash incrementally, so hashing a multi-GB MP4 in
+ * one piece would mean holding all of it in memory; this reads one chunk at a time, and the backend
+ * reproduces it from the chunks it stores.
+ */
+
+import { type UploadKind } from '@/app/lib/api/uploads';
+
+/** Chunk size for uploads. Must stay under the proxy's 8 MB chunk cap. */
+export const UPLOAD_CHUNK_BYTES = 5 * 1024 * 1024;
+
+/** Film scans are large TIFFs; anything past this is a mistake rather than an original. */
+export const MAX_IMAGE_BYTES = 500 * 1024 * 1024;
+export const MAX_ANIMATED_BYTES = 2 * 1024 * 1024 * 1024;
+
+/** Shortest edge an image may have. Below this it is a thumbnail or a screenshot, not a photo. */
+export const MIN_IMAGE_EDGE = 400;
+
+const ANIMATED_MEDIA_MIME_TYPES = new Set(['image/gif', 'video/mp4', 'video/quicktime']);
+const ANIMATED_MEDIA_EXTENSION_REGEX = /\.(gif|mp4|mov)$/i;
+
+const IMAGE_MIME_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/tiff',
+  'image/heic',
+  'image/heif',
+]);
+const IMAGE_EXTENSION_REGEX = /\.(jpe?g|png|webp|tiff?|heic|heif)$/i;
+
+export type UploadStatus =
+  | 'queued'
+  | 'hashing'
+  | 'uploading'
+  | 'finalizing'
+  | 'paused'
+  | 'done'
+  | 'failed'
+  | 'rejected'
+  | 'duplicate';
+
+export interface UploadItem {
+  /** Queue-local id; the backend's session id is `uploadId`. */
+  id: string;
+  name: string;
+  size: number;
+  kind: UploadKind;
+  status: UploadStatus;
+  /** Bytes the backend has confirmed. */
+  uploadedBytes: number;
+  /** Why the file was rejected, failed or paused. */
+  message?: string;
+  hash?: string;
+  uploadId?: string;
+  /** Paused because the connection dropped; resumes by itself when it returns. */
+  offline?: boolean;
+}
+
+export interface ChunkRange {
+  index: number;
+  start: number;
+  end: number;
+}
+
+type FileLike = Pick<File, 'name' | 'type' | 'size'>;
+
+export function isAnimatedMediaFile(file: Pick<File, 'name' | 'type'>): boolean {
+  return ANIMATED_MEDIA_MIME_TYPES.has(file.type) || ANIMATED_MEDIA_EXTENSION_REGEX.test(file.name);
+}
+
+/** Which pipeline takes the file, or null when neither accepts it. */
+export function uploadKind(file: Pick<File, 'name' | 'type'>): UploadKind | null {
+  if (isAnimatedMediaFile(file)) return 'gif';
+  if (IMAGE_MIME_TYPES.has(file.type) || IMAGE_EXTENSION_REGEX.test(file.name)) return 'image';
+  return null;
+}
+
+/** Type and size checks. @returns Why the file cannot be uploaded, or null. */
+export function validateUploadFile(file: FileLike): string | null {
+  const kind = uploadKind(file);
+  if (!kind) return 'Not a supported image, GIF or video';
+  if (file.size === 0) return 'File is empty';
+  const limit = kind === 'gif' ? MAX_ANIMATED_BYTES : MAX_IMAGE_BYTES;
+  if (file.size > limit) return `Larger than ${formatBytes(limit)}`;
+  return null;
+}
+
+/** @returns Why an image is too small, or null. Unknown dimensions pass; the backend decides. */
+export function validateImageDimensions(
+  dimensions: { width: number; height: number } | null
+): string | null {
+  if (!dimensions) return null;
+  const { width, height } = dimensions;
+  return Math.min(width, height) < MIN_IMAGE_EDGE
+    ? `Too small (${width}×${height}); the short edge must be at least ${MIN_IMAGE_EDGE}px`
+    : null;
+}
+
+/**
+ * Decode just enough of an image to read its size. Null when the browser cannot decode the format
+ * (TIFF and HEIC in most browsers) — those are checked server-side instead.
+ */
+export async function readImageDimensions(
+  file: Blob
+): Promise<{ width: number; height: number } | null> {
+  if (typeof createImageBitmap !== 'function') return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const { width, height } = bitmap;
+    bitmap.close();
+    return { width, height };
+  } catch {
+    return null;
+  }
+}
+
+export function chunkRanges(size: number, chunkSize: number = UPLOAD_CHUNK_BYTES): ChunkRange[] {
+  const ranges: ChunkRange[] = [];
+  for (let start = 0, index = 0; start < size; start += chunkSize, index++) {
+    ranges.push({ index, start, end: Math.min(start + chunkSize, size) });
+  }
+  return ranges;
+}
+
+/** Bytes covered by the chunks the backend holds. */
+export function confirmedBytes(
+  size: number,
+  received: Iterable<number>,
+  chunkSize: number = UPLOAD_CHUNK_BYTES
+): number {
+  let total = 0;
+  for (const index of received) {
+    const start = index * chunkSize;
+    if (start < size) total += Math.min(chunkSize, size - start);
+  }
+  return total;
+}
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fingerprint a file one chunk at a time (see the module comment).
+ * @returns The content hash and each chunk's own hash, which travels with the chunk
+ * @throws The signal's reason once it aborts — checked between chunks
+ */
+export async function hashFile(
+  file: Blob,
+  signal?: AbortSignal,
+  chunkSize: number = UPLOAD_CHUNK_BYTES
+): Promise<{ hash: string; chunkHashes: string[] }> {
+  const chunkHashes: string[] = [];
+  for (const { start, end } of chunkRanges(file.size, chunkSize)) {
+    if (signal?.aborted) throw signal.reason;
+    chunkHashes.push(await sha256Hex(await file.slice(start, end).arrayBuffer()));
+  }
+  return { hash: await sha256Hex(new TextEncoder().encode(chunkHashes.join(''))), chunkHashes };
+}
+
+/** Still moving, or waiting its turn to. */
+export function isActiveUpload(status: UploadStatus): boolean {
+  return (
+    status === 'queued' || status === 'hashing' || status === 'uploading' || status === 'finalizing'
+  );
+}
+
+/** Out of the queue's hands for good; "Clear finished" drops these. */
+export function isFinishedUpload(status: UploadStatus): boolean {
+  return status === 'done' || status === 'duplicate' || status === 'rejected';
+}
+
+/** Whole-queue progress, over the files that are still meant to go up. */
+export function summarizeUploads(items: readonly UploadItem[]) {
+  const counted = items.filter(item => item.status !== 'rejected' && item.status !== 'duplicate');
+  const totalBytes = counted.reduce((sum, item) => sum + item.size, 0);
+  const uploadedBytes = counted.reduce((sum, item) => sum + item.uploadedBytes, 0);
+  return {
+    active: items.filter(item => isActiveUpload(item.status)).length,
+    done: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed').length,
+    total: counted.length,
+    percent: totalBytes === 0 ? 0 : Math.round((uploadedBytes / totalBytes) * 100),
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
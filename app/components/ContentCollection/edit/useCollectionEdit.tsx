@@ -1,10 +1,11 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { type EditBarCell, type EditBarTab } from '@/app/components/ui/EditBar/types';
 import { type EditableContent, useMetadataEditor } from '@/app/hooks/useMetadataEditor';
+import { useStepUp } from '@/app/hooks/useStepUp';
 import { useToggleTriple } from '@/app/hooks/useToggleTriple';
 import {
   createChildCollection,
@@ -18,14 +19,9 @@ import {
   updateCollection,
   updateCollectionRating,
 } from '@/app/lib/api/collections';
-import {
-  createGif,
-  createImages,
-  createTextContent,
-  updateGif,
-  updateImages,
-} from '@/app/lib/api/content';
+import { createTextContent, updateGif, updateImages } from '@/app/lib/api/content';
 import { collectionStorage } from '@/app/lib/storage/collectionStorage';
+import { type QueuedEdit } from '@/app/lib/storage/editQueue';
 import {
   type CollectionListModel,
   type CollectionModel,
@@ -62,8 +58,10 @@ import { buildTagsDiff, convertTagsToModels } from '@/app/utils/tagUtils';
 
 import { buildImageUpdateDiff } from '../../Metadata/metadataUtils';
 import {
+  applyCollectionRating,
   buildUpdatePayload,
   executeReorderOperation,
+  findCollectionRating,
   handleMultiSelectToggle as handleMultiSelectToggleUtil,
   mergeNewMetadata,
   refreshCollectionAfterOperation,
@@ -71,21 +69,33 @@ import {
   revalidateMetadataCache,
   toggleRelation,
 } from './collectionEditUtils';
+import {
+  buildGifEditCommand,
+  buildImageEditCommand,
+  buildInheritedLocationsCommand,
+  buildRatingCommand,
+  buildRemoveCommand,
+  buildReorderCommand,
+  buildUpdateCommand,
+  combineCommands,
+  type ContentCommand,
+  describeUpdate,
+  type EditCommand,
+  type HistoryDirection,
+} from './editHistory';
 import { useCaptureDateSelection } from './hooks/useCaptureDateSelection';
 import { useContentReordering } from './hooks/useContentReordering';
 import { useCoverImageSelection } from './hooks/useCoverImageSelection';
+import { type EditHistoryToast, useEditHistory } from './hooks/useEditHistory';
+import { type ConflictResolution, useEditQueue } from './hooks/useEditQueue';
 import { useImageClickHandler } from './hooks/useImageClickHandler';
-
-const ANIMATED_MEDIA_MIME_TYPES = new Set(['image/gif', 'video/mp4', 'video/quicktime']);
-const ANIMATED_MEDIA_EXTENSION_REGEX = /\.(gif|mp4|mov)$/i;
+import { type UploadQueue, useUploadQueue } from './hooks/useUploadQueue';
+import { applyQueuedImageUpdates, buildImageEditEntry, type EditConflict } from './offlineEdits';
+import { isActiveUpload } from './uploadQueue';
 
 /** Stable empty content array so the public (disabled) path never re-runs the layout pass. */
 const EMPTY_CONTENT: AnyContentModel[] = [];
 
-function isAnimatedMediaFile(file: File): boolean {
-  return ANIMATED_MEDIA_MIME_TYPES.has(file.type) || ANIMATED_MEDIA_EXTENSION_REGEX.test(file.name);
-}
-
 /**
  * Push a collection's locations down onto every piece of content that has none of its own.
  *
@@ -99,13 +109,13 @@ function isAnimatedMediaFile(file: File): boolean {
  *
  * @param content - The collection's current content blocks.
  * @param locationIds - IDs of the collection's saved locations.
- * @returns True when at least one block was updated (the caller then refetches), false when
+ * @returns The history command for the writes (the caller then refetches), or null when
  *   everything already had a location and no request was made.
  */
 async function inheritLocationsToContent(
   content: readonly AnyContentModel[],
   locationIds: number[]
-): Promise<boolean> {
+): Promise<ContentCommand | null> {
   const hasNoLocation = (item: { locations?: LocationModel[] | null }) => !item.locations?.length;
 
   const imagesWithoutLocation = content.filter(
@@ -116,7 +126,7 @@ async function inheritLocationsToContent(
   );
 
   if (imagesWithoutLocation.length === 0 && gifsWithoutLocation.length === 0) {
-    return false;
+    return null;
   }
 
   const requests: Promise<unknown>[] = gifsWithoutLocation.map(gif =>
@@ -132,7 +142,11 @@ async function inheritLocationsToContent(
   }
 
   await Promise.all(requests);
-  return true;
+  return buildInheritedLocationsCommand(
+    imagesWithoutLocation.map(img => img.id),
+    gifsWithoutLocation.map(gif => gif.id),
+    locationIds
+  );
 }
 
 export type ManageMode =
@@ -216,6 +230,8 @@ export interface UseCollectionEditResult {
   handleUpdate: (patch?: Partial<CollectionUpdateRequest>) => Promise<void>;
   deleting: boolean;
   handleDeleteCollection: () => Promise<void>;
+  /** The step-up dialog a delete may open; rendered beside the Delete button in the danger zone. */
+  stepUpDialog: ReactNode;
 
   collectionPeople: ContentPersonModel[];
   setCollectionPeople: (people: ContentPersonModel[]) => void;
@@ -292,6 +308,43 @@ export interface UseCollectionEditResult {
   enterEdit: () => void;
   exitToBrowse: () => void;
 
+  /**
+   * Undo/redo over every write this hook makes (see `editHistory.ts`). `toast` is set for a
+   * moment after a destructive action, offering its undo.
+   */
+  history: {
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string | null;
+    redoLabel: string | null;
+    replaying: boolean;
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
+    toast: EditHistoryToast | null;
+    dismissToast: () => void;
+  };
+
+  /**
+   * Writes made while offline (see `offlineEdits.ts`), replayed in order on reconnect. The replay
+   * pauses on `conflict` until the admin resolves it.
+   */
+  offlineQueue: {
+    pending: QueuedEdit[];
+    online: boolean;
+    syncing: boolean;
+    conflict: EditConflict | null;
+    /** Queue a metadata save that failed offline; false when it failed for another reason. */
+    queueImageUpdates: (
+      updates: ContentImageUpdateRequest[],
+      images: EditableContent[]
+    ) => Promise<boolean>;
+    resolveConflict: (resolution: ConflictResolution) => Promise<void>;
+    syncNow: () => Promise<void>;
+  };
+
+  /** Chunked uploads started from the add-mode Upload cell (see `hooks/useUploadQueue.ts`). */
+  uploads: UploadQueue;
+
   bottomBarTabs?: EditBarTab[];
   bottomBarCells: EditBarCell[];
   error: string | null;
@@ -308,6 +361,7 @@ export function useCollectionEdit({
   onExitManage,
 }: UseCollectionEditParams): UseCollectionEditResult {
   const router = useRouter();
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
@@ -451,7 +505,9 @@ export function useCollectionEdit({
       collectionEndDate: source.collectionEndDate || '',
       visibility: source.visibility ?? CollectionVisibility.HIDDEN,
       displayMode: source.displayMode || 'CHRONOLOGICAL',
+      layoutMode: source.layoutMode ?? 'ROWS',
       rowsWide: source.rowsWide ?? undefined,
+      proofingTarget: source.proofingTarget ?? null,
     }),
     []
   );
@@ -464,6 +520,141 @@ export function useCollectionEdit({
   /** True once the buffer has been seeded from the admin DTO (not the public seed prop). */
   const seededFromAdminRef = useRef(currentState !== null);
 
+  /** Adopt a saved collection: state, a rebased edit buffer, both caches, and a renamed URL. */
+  const adoptSavedResponse = useCallback(
+    (response: CollectionUpdateResponseDTO) => {
+      setCurrentState(response);
+      setUpdateData(seedUpdateData(response.collection)); // rebase buffer on saved baseline
+      seededCollectionIdRef.current = response.collection.id;
+      seededFromAdminRef.current = true;
+      collectionStorage.update(response.collection.slug, response.collection);
+      collectionStorage.updateFull(response.collection.slug, response);
+      void revalidateCollectionCache(response.collection.slug);
+
+      if (response.collection.slug !== latestCollectionRef.current.slug) {
+        router.replace(manageHref(response.collection.slug));
+      }
+    },
+    [router, seedUpdateData]
+  );
+
+  /**
+   * Send one side of a history command. Collection PATCHes answer with the saved collection and
+   * rating writes are patched in place; reorders and content writes answer with neither, so those
+   * refetch the admin DTO — the same refetch every other operation ends with. A batch sends its
+   * steps one after another, newest first on undo.
+   */
+  const applyEditCommand = useCallback(
+    async (command: EditCommand, direction: HistoryDirection) => {
+      const send = async (step: EditCommand): Promise<void> => {
+        switch (step.kind) {
+          case 'batch': {
+            const steps = direction === 'undo' ? [...step.steps].reverse() : step.steps;
+            for (const inner of steps) await send(inner);
+            return;
+          }
+          case 'update': {
+            const response = await updateCollection(step.collectionId, step[direction]);
+            if (response === null) {
+              throw new Error('No response received from server after update');
+            }
+            adoptSavedResponse(response);
+            return;
+          }
+          case 'rating': {
+            const rating = step[direction];
+            await updateCollectionRating(step.collectionId, rating);
+            setCurrentState(prev =>
+              prev
+                ? {
+                    ...prev,
+                    collection: applyCollectionRating(prev.collection, step.collectionId, rating),
+                  }
+                : null
+            );
+            return;
+          }
+          case 'reorder':
+          case 'content': {
+            const stateSlug = latestCollectionRef.current.slug;
+            const response = await refreshCollectionAfterOperation(
+              stateSlug,
+              async () => {
+                if (step.kind === 'reorder') {
+                  await executeReorderOperation(step.collectionId, step[direction], step.slug);
+                  return;
+                }
+                const { images, gifs } = step[direction];
+                await Promise.all([
+                  ...(images.length > 0 ? [updateImages(images)] : []),
+                  ...gifs.map(gif => updateGif(gif.id, gif.request)),
+                ]);
+              },
+              getCollectionUpdateMetadata,
+              collectionStorage
+            );
+            setCurrentState(response);
+            void revalidateCollectionCache(stateSlug);
+            if (step.kind === 'content') void revalidateMetadataCache();
+            return;
+          }
+        }
+      };
+
+      try {
+        setOperationLoading(true);
+        await send(command);
+      } finally {
+        setOperationLoading(false);
+      }
+    },
+    [adoptSavedResponse]
+  );
+
+  const { record: recordEdit, ...history } = useEditHistory({
+    collectionId: collection.id,
+    applyCommand: applyEditCommand,
+    setError,
+  });
+
+  /** Pull the server's copy back in once queued offline edits have replayed. */
+  const refreshAfterReplay = useCallback(async () => {
+    const stateSlug = latestCollectionRef.current.slug;
+    try {
+      const response = await getCollectionUpdateMetadata(stateSlug);
+      if (response === null) return;
+      setCurrentState(response);
+      collectionStorage.update(stateSlug, response.collection);
+      collectionStorage.updateFull(stateSlug, response);
+      void revalidateCollectionCache(stateSlug);
+      void revalidateMetadataCache();
+    } catch (error_) {
+      setError(handleApiError(error_, 'Synced offline changes, but failed to refresh the page.'));
+    }
+  }, []);
+
+  const { queue: queueOfflineEdit, ...offlineQueue } = useEditQueue({
+    slug: collection.slug,
+    enabled,
+    onReplayed: refreshAfterReplay,
+    setError,
+  });
+
+  const queueImageUpdates = useCallback(
+    async (updates: ContentImageUpdateRequest[], images: EditableContent[]) => {
+      const entry = buildImageEditEntry(latestCollectionRef.current.slug, updates, images);
+      if (!(await queueOfflineEdit(entry))) return false;
+      // Shown right away; relationship fields appear once the replay has run.
+      setCurrentState(prev =>
+        prev ? { ...prev, collection: applyQueuedImageUpdates(prev.collection, updates) } : null
+      );
+      setSelectedIds([]);
+      setIsMultiSelectMode(false);
+      return true;
+    },
+    [queueOfflineEdit]
+  );
+
   const setUpdateField = useCallback(
     <K extends keyof CollectionUpdateRequest>(key: K, value: CollectionUpdateRequest[K]) => {
       setUpdateData(prev => ({ ...prev, [key]: value }));
@@ -559,6 +750,7 @@ export function useCollectionEdit({
     setCurrentState,
     setOperationLoading,
     setError,
+    recordEdit,
   });
 
   const { captureDateTargetId, setCaptureDateTargetId, handleCaptureDateSourceClick } =
@@ -567,6 +759,7 @@ export function useCollectionEdit({
       setCurrentState,
       setOperationLoading,
       setError,
+      recordEdit,
     });
 
   /**
@@ -601,6 +794,8 @@ export function useCollectionEdit({
     setCurrentState,
     setOperationLoading,
     setError,
+    recordEdit,
+    queueOffline: queueOfflineEdit,
     onExitMultiSelect: useCallback(() => {
       setIsMultiSelectMode(false);
       setSelectedIds([]);
@@ -723,46 +918,44 @@ export function useCollectionEdit({
         const response = await updateCollection(collection.id, payload);
 
         if (response !== null) {
-          setCurrentState(response);
-          setUpdateData(seedUpdateData(response.collection)); // rebase buffer on saved baseline
-          seededCollectionIdRef.current = response.collection.id;
-          seededFromAdminRef.current = true;
-          collectionStorage.update(response.collection.slug, response.collection);
-          collectionStorage.updateFull(response.collection.slug, response);
-          void revalidateCollectionCache(response.collection.slug);
-
-          if (response.collection.slug !== collection.slug) {
-            router.replace(manageHref(response.collection.slug));
-          }
-
+          adoptSavedResponse(response);
+          const saved = buildUpdateCommand(
+            describeUpdate(payload),
+            payload,
+            currentState,
+            response
+          );
+
+          // Locations the save pushes down onto content are part of the same edit: one undo
+          // takes both back.
+          let inherited: ContentCommand | null = null;
           const locationsUpdate = payload.locations;
+          const resolvedLocationIds = (response.collection.locations ?? []).map(l => l.id);
           if (
             locationsUpdate &&
             !locationsUpdate.remove?.length &&
-            (locationsUpdate.prev?.length || locationsUpdate.newValue?.length)
+            (locationsUpdate.prev?.length || locationsUpdate.newValue?.length) &&
+            resolvedLocationIds.length > 0
           ) {
-            const resolvedLocationIds = (response.collection.locations ?? []).map(l => l.id);
-            if (resolvedLocationIds.length > 0) {
-              inheritLocationsToContent(collection.content ?? [], resolvedLocationIds)
-                .then(async inherited => {
-                  if (!inherited) return;
-                  const refreshed = await getCollectionUpdateMetadata(response.collection.slug);
-                  if (refreshed) {
-                    setCurrentState(refreshed);
-                    collectionStorage.update(refreshed.collection.slug, refreshed.collection);
-                    collectionStorage.updateFull(refreshed.collection.slug, refreshed);
-                  }
-                })
-                .catch((error_: unknown) => {
-                  logger.error(
-                    'useCollectionEdit',
-                    'Failed to inherit locations to content',
-                    error_
-                  );
-                  setError('Collection saved, but failed to inherit locations to its content.');
-                });
+            try {
+              inherited = await inheritLocationsToContent(
+                collection.content ?? [],
+                resolvedLocationIds
+              );
+              if (inherited) {
+                const refreshed = await getCollectionUpdateMetadata(response.collection.slug);
+                if (refreshed) {
+                  setCurrentState(refreshed);
+                  collectionStorage.update(refreshed.collection.slug, refreshed.collection);
+                  collectionStorage.updateFull(refreshed.collection.slug, refreshed);
+                }
+              }
+            } catch (error_) {
+              logger.error('useCollectionEdit', 'Failed to inherit locations to content', error_);
+              setError('Collection saved, but failed to inherit locations to its content.');
             }
           }
+          recordEdit(combineCommands(saved?.label ?? 'Locations', saved, inherited));
         }
       } catch (error_) {
         setError(handleApiError(error_, 'Failed to update collection'));
@@ -770,7 +963,7 @@ export function useCollectionEdit({
         setSaving(false);
       }
     },
-    [collection, currentState, updateData, router, seedUpdateData]
+    [collection, currentState, updateData, adoptSavedResponse, recordEdit]
   );
 
   const handleSaveAccess = useCallback(async () => {
@@ -832,59 +1025,33 @@ export function useCollectionEdit({
     }
   }, [collection]);
 
-  const handleMediaUpload = useCallback(
-    async (files: FileList) => {
-      if (!collection || files.length === 0) return;
-
-      try {
-        setOperationLoading(true);
-        setError(null);
-
-        const fileArray = Array.from(files);
-        const animatedFiles = fileArray.filter(isAnimatedMediaFile);
-        const imageFiles = fileArray.filter(f => !isAnimatedMediaFile(f));
-        const uploadFailures: string[] = [];
-
-        const response = await refreshCollectionAfterOperation(
-          collection.slug,
-          async () => {
-            for (const file of imageFiles) {
-              // one POST per file to stay under the proxy's multipart cap
-              try {
-                const formData = new FormData();
-                formData.append('files', file);
-                await createImages(collection.id, formData);
-              } catch (imageError) {
-                uploadFailures.push(`${file.name}: ${handleApiError(imageError, 'upload failed')}`);
-              }
-            }
-            for (const file of animatedFiles) {
-              try {
-                await createGif(collection.id, file);
-              } catch (gifError) {
-                uploadFailures.push(`${file.name}: ${handleApiError(gifError, 'upload failed')}`);
-              }
-            }
-          },
-          getCollectionUpdateMetadata,
-          collectionStorage
-        );
+  // New content only appears in the manage DTO once the backend has assembled it, so this runs
+  // once per drained queue rather than once per file.
+  const refreshAfterUpload = useCallback(async () => {
+    const stateSlug = latestCollectionRef.current.slug;
+    try {
+      const response = await getCollectionUpdateMetadata(stateSlug);
+      if (response === null) return;
+      setCurrentState(prev => (prev ? { ...prev, collection: response.collection } : response));
+      collectionStorage.update(stateSlug, response.collection);
+      collectionStorage.updateFull(stateSlug, response);
+      void revalidateCollectionCache(stateSlug);
+    } catch (error_) {
+      setError(handleApiError(error_, 'Uploaded, but failed to refresh the page.'));
+    }
+  }, []);
 
-        setCurrentState(prev => ({
-          ...prev!,
-          collection: response.collection,
-        }));
+  const uploads = useUploadQueue({ collectionId: collection.id, onUploaded: refreshAfterUpload });
+  const { addFiles: addUploadFiles, items: uploadItems } = uploads;
+  const uploadsActive = uploadItems.some(item => isActiveUpload(item.status));
 
-        if (uploadFailures.length > 0) {
-          setError(`Some files failed to upload:\n${uploadFailures.join('\n')}`);
-        }
-      } catch (error_) {
-        setError(handleApiError(error_, 'Failed to upload media'));
-      } finally {
-        setOperationLoading(false);
-      }
+  const handleMediaUpload = useCallback(
+    (files: FileList) => {
+      if (files.length === 0) return;
+      setError(null);
+      void addUploadFiles(files);
     },
-    [collection]
+    [addUploadFiles]
   );
 
   const handleTextBlockSubmit = useCallback(
@@ -974,6 +1141,17 @@ export function useCollectionEdit({
     async (response: ContentImageUpdateResponse) => {
       if (!currentState?.collection.content || !currentState.collection.slug) return;
 
+      const before = currentState.collection.content.filter(isContentImage);
+      const count = response.updatedImages?.length ?? 0;
+      recordEdit(
+        buildImageEditCommand(
+          count === 1 ? 'Image details' : `Details of ${count} images`,
+          before,
+          response.updatedImages ?? [],
+          currentState.filmTypes
+        )
+      );
+
       try {
         const stateSlug = currentState.collection.slug;
 
@@ -998,12 +1176,16 @@ export function useCollectionEdit({
         setError(handleApiError(error_, 'An error occurred. Try reloading the page.'));
       }
     },
-    [currentState]
+    [currentState, recordEdit]
   );
 
   const handleGifSaveSuccess = useCallback(
     async (updated: ContentGifModel) => {
       if (!currentState?.collection.slug) return;
+      const before = currentState.collection.content?.find(
+        (block): block is ContentGifModel => isGifContent(block) && block.id === updated.id
+      );
+      if (before) recordEdit(buildGifEditCommand('GIF details', before, updated));
       try {
         const stateSlug = currentState.collection.slug;
         const fullResponse = await getCollectionUpdateMetadata(stateSlug);
@@ -1019,7 +1201,7 @@ export function useCollectionEdit({
         setError(handleApiError(error_, `Failed to refresh after GIF ${updated.id} update`));
       }
     },
-    [currentState]
+    [currentState, recordEdit]
   );
 
   const handleDeleteSuccess = useCallback(
@@ -1082,6 +1264,21 @@ export function useCollectionEdit({
       });
       const response = await updateImages(imageUpdates);
       if (response !== null) {
+        // The inverse re-links each image exactly as it was, position and visibility included.
+        const restoreUpdates = imageSubset.map(img =>
+          buildImageUpdateDiff(
+            { id: img.id, collections: img.collections },
+            {
+              ...img,
+              collections: (img.collections || []).filter(c => c.collectionId !== collection.id),
+            },
+            currentState?.filmTypes
+          )
+        );
+        const count = `${imageSubset.length} image${imageSubset.length === 1 ? '' : 's'}`;
+        recordEdit(buildRemoveCommand(`Remove ${count}`, imageUpdates, restoreUpdates), {
+          toast: `Removed ${count} from this collection.`,
+        });
         await handleDeleteSuccess(imageSubset.map(img => img.id));
       }
     } catch (error_) {
@@ -1089,7 +1286,7 @@ export function useCollectionEdit({
     } finally {
       setOperationLoading(false);
     }
-  }, [selectedIds, collection, currentState?.filmTypes, handleDeleteSuccess]);
+  }, [selectedIds, collection, currentState?.filmTypes, handleDeleteSuccess, recordEdit]);
 
   const handleDeleteCollection = useCallback(async () => {
     if (!collection) return;
@@ -1107,7 +1304,7 @@ export function useCollectionEdit({
     try {
       setDeleting(true);
       setError(null);
-      await deleteCollection(collection.id); // throws on failure
+      await withStepUp(() => deleteCollection(collection.id)); // throws on failure
 
       collectionStorage.clear(collection.slug);
       collectionStorage.clearFull(collection.slug);
@@ -1126,7 +1323,7 @@ export function useCollectionEdit({
       setError(handleApiError(error_, 'Failed to delete collection'));
       setDeleting(false); // stay on the page to retry; success navigates away (unmounts)
     }
-  }, [collection, router]);
+  }, [collection, router, withStepUp]);
 
   /**
    * The saved child ids every child toggle is classified against. Prefers the server-supplied
@@ -1317,16 +1514,24 @@ export function useCollectionEdit({
    * the caller discards the promise. Rethrows after surfacing so the optimistic star
    * commit is skipped.
    */
-  const handleRatingChange = useCallback(async (id: number, rating: number | null) => {
-    try {
-      setError(null);
-      await updateCollectionRating(id, rating);
-    } catch (error_) {
-      logger.error('useCollectionEdit', `Failed to update rating for collection ${id}`, error_);
-      setError(handleApiError(error_, 'Failed to update rating'));
-      throw error_;
-    }
-  }, []);
+  const handleRatingChange = useCallback(
+    async (id: number, rating: number | null) => {
+      const previous = findCollectionRating(latestCollectionRef.current, id);
+      try {
+        setError(null);
+        await updateCollectionRating(id, rating);
+      } catch (error_) {
+        logger.error('useCollectionEdit', `Failed to update rating for collection ${id}`, error_);
+        setError(handleApiError(error_, 'Failed to update rating'));
+        throw error_;
+      }
+      setCurrentState(prev =>
+        prev ? { ...prev, collection: applyCollectionRating(prev.collection, id, rating) } : null
+      );
+      recordEdit(buildRatingCommand(id, previous, rating));
+    },
+    [recordEdit]
+  );
 
   const handleAddNewChild = useCallback(async () => {
     if (!collection) {
@@ -1391,6 +1596,10 @@ export function useCollectionEdit({
 
         // The true displayed (captureDate) order — what the viewer currently sees.
         const chronoIds = toChronologicalOrder(processedContent).map(c => c.id);
+        // The saved order it replaces, which undo puts back.
+        const savedIds = [...processedContent]
+          .sort((a, b) => a.orderIndex - b.orderIndex)
+          .map(c => c.id);
 
         // WRITE A: materialize the full order into orderIndex while still CHRONOLOGICAL. This is
         // harmless (chronological display ignores orderIndex) and makes cancel safe. Full
@@ -1412,6 +1621,16 @@ export function useCollectionEdit({
           collectionStorage.update(response.collection.slug, response.collection);
           collectionStorage.updateFull(response.collection.slug, response);
           void revalidateCollectionCache(response.collection.slug);
+          // Both writes are one edit: undo goes back to CHRONOLOGICAL, then to the saved order.
+          recordEdit(
+            combineCommands(
+              'Custom order',
+              chronoIds.length > 0
+                ? buildReorderCommand(collection.id, collection.slug, savedIds, chronoIds)
+                : null,
+              buildUpdateCommand('Display mode', payload, currentState, response)
+            )
+          );
 
           // Seed the reorder base from the order we just persisted (not the stale processedContent).
           handleEnterReorderMode(chronoIds);
@@ -1429,6 +1648,7 @@ export function useCollectionEdit({
     processedContent,
     seedUpdateData,
     handleEnterReorderMode,
+    recordEdit,
   ]);
   const enterAdd = useCallback(() => setIsAddMode(true), []);
   const enterEdit = useCallback(() => setIsEditSheetOpen(true), []);
@@ -1515,13 +1735,13 @@ export function useCollectionEdit({
         },
         {
           key: 'upload',
-          label: operationLoading ? 'Uploading…' : 'Upload',
+          label: 'Upload',
           disabled: isLoading,
           fileInput: {
             accept: 'image/*,video/mp4,video/quicktime,.gif,.mp4,.mov',
             multiple: true,
             onFiles: files => {
-              void handleMediaUpload(files);
+              handleMediaUpload(files);
               setIsAddMode(false);
             },
           },
@@ -1567,7 +1787,8 @@ export function useCollectionEdit({
       // collection no longer removes the ability to add images.
       {
         key: 'add',
-        label: operationLoading ? 'Uploading…' : 'Add',
+        // Uploads run in the background queue, so Add stays open for the next batch.
+        label: uploadsActive ? 'Uploading…' : 'Add',
         disabled: browseBusy,
         onClick: () => setIsAddMode(true),
       },
@@ -1591,7 +1812,6 @@ export function useCollectionEdit({
   }, [
     manageMode,
     isLoading,
-    operationLoading,
     reorderState.moves.length,
     handleSaveReorder,
     handleCancelReorder,
@@ -1604,6 +1824,7 @@ export function useCollectionEdit({
     handleBulkRemove,
     handleCreateNewTextBlock,
     handleMediaUpload,
+    uploadsActive,
     saving,
     isUpdateDirty,
     handleUpdate,
@@ -1657,6 +1878,7 @@ export function useCollectionEdit({
     handleUpdate,
     deleting,
     handleDeleteCollection,
+    stepUpDialog,
 
     collectionPeople,
     setCollectionPeople: setCollectionPeopleState,
@@ -1724,6 +1946,10 @@ export function useCollectionEdit({
     enterEdit,
     exitToBrowse,
 
+    history,
+    offlineQueue: { ...offlineQueue, queueImageUpdates },
+    uploads,
+
     bottomBarTabs,
     bottomBarCells,
     error,
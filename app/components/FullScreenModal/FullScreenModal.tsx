@@ -4,8 +4,10 @@ import type { AppRouterInstance } from 'next/dist/shared/lib/app-router-context.
 import Image from 'next/image';
 import Link from 'next/link';
 import {
+  type CSSProperties,
   type Dispatch,
   type MouseEvent,
+  type ReactNode,
   type RefObject,
   type SetStateAction,
   useEffect,
@@ -14,16 +16,21 @@ import {
 
 import { useMe } from '@/app/components/auth/MeProvider';
 import FullScreenDownloadButton from '@/app/components/ClientGalleryDownload/FullScreenDownloadButton';
+import CommentPins from '@/app/components/ImageComments/CommentPins';
+import ImageCommentsSection from '@/app/components/ImageComments/ImageCommentsSection';
+import { useImageComments } from '@/app/components/ImageComments/useImageComments';
 import { CloseButton } from '@/app/components/ui/CloseButton/CloseButton';
 import { IconButton } from '@/app/components/ui/IconButton/IconButton';
 import { Modal } from '@/app/components/ui/Modal/Modal';
 import { IMAGE } from '@/app/constants';
+import { type Slideshow } from '@/app/hooks/useSlideshow';
 import styles from '@/app/styles/fullscreen-image.module.scss';
 import { type CollectionModel } from '@/app/types/Collection';
 import type { ViewableContent } from '@/app/types/Content';
 import { humanLabel } from '@/app/utils/contentRendererUtils';
 import { formatLongDate } from '@/app/utils/formatDateRange';
-import { canDownloadCollection } from '@/app/utils/galleryAccess';
+import { canDownloadCollection, isClientOfCollection } from '@/app/utils/galleryAccess';
+import { kenBurnsMotion } from '@/app/utils/slideshow';
 
 import {
   isGifBlock,
@@ -31,6 +38,7 @@ import {
   resolveDisplayFilmStock,
   resolveDisplayLocations,
 } from './fullScreenModalUtils';
+import { SlideshowControls } from './SlideshowControls';
 
 type ImageBlock = ViewableContent;
 
@@ -61,6 +69,13 @@ interface FullScreenModalProps {
   collectionData?: CollectionModel;
   navigateToNext: () => void;
   navigateToPrevious: () => void;
+  /** Slideshow mode (see `useSlideshow`); omitted, the viewer has no slideshow controls. */
+  slideshow?: Slideshow;
+  /**
+   * Extra overlay layered over the photo — the admin culling HUD. A slot rather than a prop per
+   * feature, so admin-only code never lands in the public viewer's bundle.
+   */
+  children?: ReactNode;
 }
 
 /**
@@ -86,6 +101,18 @@ interface FullScreenModalProps {
  * tiles use: the backend seeds `title` from the uploaded filename, so naming the dialog straight
  * off `title` announced "Fullscreen image: DSC_4364.webp". A filename-shaped value is dropped in
  * favour of the next authored field, and the generic name when there is none.
+ *
+ * Client galleries carry per-image comment threads (see `useImageComments`) for the collection's
+ * clients and the admin: a "Comments" section at the foot of the metadata panel, and numbered pins
+ * over the photo. While a pin is armed, a click on the photo drops it instead of toggling immersive.
+ *
+ * With a `slideshow`, a multi-image viewer gets {@link SlideshowControls}. While a show runs, the
+ * prev/next rails follow its play order (so they stay up at the ends of a looping show) and the
+ * loaded photo carries the chosen transition class — a fade, or a fade plus a Ken Burns drift whose
+ * transforms come from `kenBurnsMotion`.
+ *
+ * `children` render last, above the chrome and regardless of immersive mode, inside a wrapper that
+ * keeps their clicks and taps from closing the viewer or toggling immersive.
  */
 export function FullScreenModal({
   fullScreenState,
@@ -104,6 +131,8 @@ export function FullScreenModal({
   collectionData,
   navigateToNext,
   navigateToPrevious,
+  slideshow,
+  children,
 }: FullScreenModalProps) {
   const currentImage = fullScreenState?.images[fullScreenState.currentIndex];
   const isOpen = currentImage != null;
@@ -143,6 +172,17 @@ export function FullScreenModal({
   // Target of the toggle's aria-controls. Only emitted while the panel is mounted (see below).
   const metadataPanelId = useId();
 
+  // Comment threads for the image on screen. A login-less password client has no `me` and so no
+  // author to post as; they comment once signed in through their invite.
+  const isAdmin = me?.isAdmin ?? false;
+  const comments = useImageComments({
+    collectionId: collectionData?.id,
+    contentId: currentImage?.id,
+    enabled:
+      collectionData?.isClient === true &&
+      (isAdmin || isClientOfCollection(me, collectionData.id, false)),
+  });
+
   if (!fullScreenState || !currentImage) return null;
 
   const isGif = isGifBlock(currentImage);
@@ -154,8 +194,27 @@ export function FullScreenModal({
   const displayFilmStock = resolveDisplayFilmStock(currentImage, isGif);
 
   const currentImageLoaded = loadedImageIds.has(currentImage.id);
-  const hasPrevious = fullScreenState.currentIndex > 0;
-  const hasNext = fullScreenState.currentIndex < fullScreenState.images.length - 1;
+  const slideshowActive = slideshow?.active === true;
+  const hasPrevious = slideshowActive ? slideshow.hasPrevious : fullScreenState.currentIndex > 0;
+  const hasNext = slideshowActive
+    ? slideshow.hasNext
+    : fullScreenState.currentIndex < fullScreenState.images.length - 1;
+
+  const transition = slideshowActive ? slideshow.settings.transition : 'cut';
+  const kenBurns = transition === 'kenburns' && !isZoomed;
+  let slideClassName = '';
+  let slideStyle: CSSProperties | undefined;
+  if (currentImageLoaded && kenBurns) {
+    const motion = kenBurnsMotion(fullScreenState.currentIndex);
+    slideClassName = `${styles.slideKenBurns} ${slideshow?.playing ? '' : styles.slidePaused}`;
+    slideStyle = {
+      '--kb-from': motion.from,
+      '--kb-to': motion.to,
+      '--slide-duration': `${slideshow?.settings.intervalMs}ms`,
+    } as CSSProperties;
+  } else if (currentImageLoaded && transition !== 'cut') {
+    slideClassName = styles.slideCrossfade ?? '';
+  }
 
   /**
    * Where a pointer lands decides the action, mirroring the touch tap split in useFullScreenImage:
@@ -170,6 +229,19 @@ export function FullScreenModal({
     if (isSwiping.current || isZoomed) return;
 
     const target = event.target;
+    const layer = zoomTargetRef.current;
+    if (comments.pinArmed && layer && target instanceof Node && layer.contains(target)) {
+      const rect = layer.getBoundingClientRect();
+      if (rect.width > 0 && rect.height > 0) {
+        const clamp = (n: number) => Math.min(1, Math.max(0, n));
+        comments.placePin({
+          x: clamp((event.clientX - rect.left) / rect.width),
+          y: clamp((event.clientY - rect.top) / rect.height),
+        });
+      }
+      return;
+    }
+
     if (target instanceof Element && target.closest(`.${styles.imageWrapper}`)) {
       toggleImmersive?.();
       return;
@@ -194,7 +266,10 @@ export function FullScreenModal({
         <div
           className={`${styles.imageWrapper} ${currentImageLoaded ? styles.imageWrapperLoaded : ''}`}
         >
-          <div ref={zoomTargetRef} className={styles.zoomLayer}>
+          <div
+            ref={zoomTargetRef}
+            className={`${styles.zoomLayer} ${comments.pinArmed ? styles.zoomLayerPinning : ''} ${kenBurns ? styles.zoomLayerKenBurns : ''}`}
+          >
             {isGif ? (
               <video
                 key={currentImage.id}
@@ -207,7 +282,8 @@ export function FullScreenModal({
                 poster={currentImage.thumbnailUrl ?? undefined}
                 width={currentImage.width || IMAGE.defaultWidth}
                 height={currentImage.height || IMAGE.defaultHeight}
-                className={`${styles.fullScreenImage} ${currentImageLoaded ? styles.fullScreenImageLoaded : ''}`}
+                className={`${styles.fullScreenImage} ${currentImageLoaded ? styles.fullScreenImageLoaded : ''} ${slideClassName}`}
+                style={slideStyle}
               >
                 <source src={currentImage.gifUrl} type="video/mp4" />
               </video>
@@ -221,7 +297,8 @@ export function FullScreenModal({
                 }
                 width={currentImage.imageWidth || IMAGE.defaultWidth}
                 height={currentImage.imageHeight || IMAGE.defaultHeight}
-                className={`${styles.fullScreenImage} ${currentImageLoaded ? styles.fullScreenImageLoaded : ''}`}
+                className={`${styles.fullScreenImage} ${currentImageLoaded ? styles.fullScreenImageLoaded : ''} ${slideClassName}`}
+                style={slideStyle}
                 priority
                 onLoad={() => {
                   setLoadedImageIds(prev => {
@@ -233,6 +310,7 @@ export function FullScreenModal({
                 }}
               />
             )}
+            {!immersive && <CommentPins comments={comments} />}
           </div>
 
           {currentImageLoaded && (!immersive || showMetadata) && (
@@ -359,6 +437,7 @@ export function FullScreenModal({
                       </div>
                     </div>
                   )}
+                  <ImageCommentsSection comments={comments} isAdmin={isAdmin} />
                 </div>
               )}
               {!immersive && (
@@ -422,9 +501,19 @@ export function FullScreenModal({
         />
       )}
 
+      {!immersive && slideshow && fullScreenState.images.length > 1 && (
+        <SlideshowControls slideshow={slideshow} />
+      )}
+
       {!immersive && canDownloadCollection(me, collectionData) && !isGif && (
         <FullScreenDownloadButton imageId={currentImage.id} />
       )}
+
+      {children && (
+        <div className={styles.overlaySlot} onClick={e => e.stopPropagation()}>
+          {children}
+        </div>
+      )}
     </div>
   );
 
@@ -0,0 +1,158 @@
+'use client';
+
+import { CircleStop, Pause, Play, Repeat, Shuffle, SkipBack, SkipForward } from 'lucide-react';
+
+import { IconButton } from '@/app/components/ui/IconButton/IconButton';
+import { type Slideshow } from '@/app/hooks/useSlideshow';
+import styles from '@/app/styles/fullscreen-image.module.scss';
+import {
+  SLIDESHOW_INTERVALS_S,
+  SLIDESHOW_TRANSITIONS,
+  type SlideshowTransition,
+} from '@/app/utils/slideshow';
+
+interface SlideshowControlsProps {
+  slideshow: Slideshow;
+}
+
+/**
+ * Slideshow controls for the fullscreen viewer, top-centre between the download and close
+ * controls. Idle, it is a single "Start slideshow" button; while a show runs it expands into a
+ * toolbar: previous / play-pause / next, the interval and transition pickers, shuffle and loop
+ * toggles (`aria-pressed`), and "End slideshow".
+ *
+ * Everything here is a native button or select, so it is reachable by Tab and a TV remote's
+ * D-pad. The viewer's own key handling (Space / K / the Media* keys, F for fullscreen) covers the
+ * hands-off case. Clicks stop at the toolbar so they never reach the overlay's close-on-click.
+ */
+export function SlideshowControls({ slideshow }: SlideshowControlsProps) {
+  const {
+    active,
+    playing,
+    settings,
+    hasNext,
+    hasPrevious,
+    start,
+    stop,
+    togglePlaying,
+    updateSettings,
+    next,
+    previous,
+  } = slideshow;
+
+  if (!active) {
+    return (
+      <div className={styles.slideshowControls} onClick={e => e.stopPropagation()}>
+        <IconButton
+          variant="overlay"
+          className={styles.slideshowButton}
+          onClick={() => start()}
+          aria-label="Start slideshow"
+        >
+          <Play aria-hidden="true" />
+        </IconButton>
+      </div>
+    );
+  }
+
+  // A deep link may carry an interval the picker does not offer; list it so the select is honest.
+  const currentSeconds = Math.round(settings.intervalMs / 1000);
+  const intervals = SLIDESHOW_INTERVALS_S.includes(
+    currentSeconds as (typeof SLIDESHOW_INTERVALS_S)[number]
+  )
+    ? [...SLIDESHOW_INTERVALS_S]
+    : [...SLIDESHOW_INTERVALS_S, currentSeconds].sort((a, b) => a - b);
+
+  return (
+    <div
+      className={styles.slideshowControls}
+      role="toolbar"
+      aria-label="Slideshow"
+      onClick={e => e.stopPropagation()}
+    >
+      <IconButton
+        variant="overlay"
+        size="sm"
+        className={styles.slideshowButton}
+        onClick={previous}
+        disabled={!hasPrevious}
+        aria-label="Previous slide"
+      >
+        <SkipBack aria-hidden="true" />
+      </IconButton>
+      <IconButton
+        variant="overlay"
+        className={styles.slideshowButton}
+        onClick={togglePlaying}
+        aria-label={playing ? 'Pause slideshow' : 'Play slideshow'}
+      >
+        {playing ? <Pause aria-hidden="true" /> : <Play aria-hidden="true" />}
+      </IconButton>
+      <IconButton
+        variant="overlay"
+        size="sm"
+        className={styles.slideshowButton}
+        onClick={next}
+        disabled={!hasNext}
+        aria-label="Next slide"
+      >
+        <SkipForward aria-hidden="true" />
+      </IconButton>
+
+      <select
+        className={styles.slideshowSelect}
+        value={currentSeconds}
+        onChange={e => updateSettings({ intervalMs: Number(e.target.value) * 1000 })}
+        aria-label="Slide interval"
+      >
+        {intervals.map(seconds => (
+          <option key={seconds} value={seconds}>
+            {seconds}s
+          </option>
+        ))}
+      </select>
+      <select
+        className={styles.slideshowSelect}
+        value={settings.transition}
+        onChange={e => updateSettings({ transition: e.target.value as SlideshowTransition })}
+        aria-label="Transition"
+      >
+        {SLIDESHOW_TRANSITIONS.map(t => (
+          <option key={t.value} value={t.value}>
+            {t.label}
+          </option>
+        ))}
+      </select>
+
+      <IconButton
+        variant="overlay"
+        size="sm"
+        className={styles.slideshowButton}
+        onClick={() => updateSettings({ shuffle: !settings.shuffle })}
+        aria-pressed={settings.shuffle}
+        aria-label="Shuffle"
+      >
+        <Shuffle aria-hidden="true" />
+      </IconButton>
+      <IconButton
+        variant="overlay"
+        size="sm"
+        className={styles.slideshowButton}
+        onClick={() => updateSettings({ loop: !settings.loop })}
+        aria-pressed={settings.loop}
+        aria-label="Loop"
+      >
+        <Repeat aria-hidden="true" />
+      </IconButton>
+      <IconButton
+        variant="overlay"
+        size="sm"
+        className={styles.slideshowButton}
+        onClick={stop}
+        aria-label="End slideshow"
+      >
+        <CircleStop aria-hidden="true" />
+      </IconButton>
+    </div>
+  );
+}
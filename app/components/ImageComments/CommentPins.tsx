@@ -0,0 +1,40 @@
+'use client';
+
+import { type ImageCommentPin } from '@/app/types/ImageComments';
+
+import styles from './ImageComments.module.scss';
+import { type ImageComments } from './useImageComments';
+
+const position = (pin: ImageCommentPin) => ({ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` });
+
+/**
+ * Numbered markers over the fullscreen photo, one per pinned thread, plus the draft pin for the
+ * thread being written. Mounted inside the zoom layer, so the markers scale and pan with the photo
+ * and their percentage offsets stay on the spot they were dropped on.
+ *
+ * Purely visual (`aria-hidden`): each thread's number is repeated in the comments panel, which is
+ * where a screen reader meets it. Resolved threads keep their marker, dimmed.
+ */
+export default function CommentPins({ comments }: { comments: ImageComments }) {
+  const { threads, draftPin } = comments;
+  if (!draftPin && !threads.some(t => t.pin)) return null;
+
+  return (
+    <div className={styles.pinLayer} aria-hidden="true">
+      {threads.map((thread, index) =>
+        thread.pin ? (
+          <span
+            key={thread.id}
+            className={`${styles.pin} ${thread.resolvedAt ? styles.pinResolved : ''}`}
+            style={position(thread.pin)}
+          >
+            {index + 1}
+          </span>
+        ) : null
+      )}
+      {draftPin && (
+        <span className={`${styles.pin} ${styles.pinDraft}`} style={position(draftPin)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { type FormEvent, type ReactNode, useState } from 'react';
+
+import { ApiError } from '@/app/lib/api/core';
+import { type ImageComment, type ImageCommentThread } from '@/app/types/ImageComments';
+import { formatLongDate } from '@/app/utils/formatDateRange';
+
+import styles from './ImageComments.module.scss';
+import { type ImageComments } from './useImageComments';
+
+/** Map a failed write to user-facing copy. */
+function mapError(error: unknown): string {
+  if (error instanceof ApiError) {
+    if (error.status === 401) return 'Your session has expired. Sign in again to comment.';
+    if (error.status === 403) return 'You do not have access to comment on this gallery.';
+    if (error.status === 400) return 'Write something before posting.';
+  }
+  return 'Could not save that. Please try again.';
+}
+
+function authorLabel(comment: ImageComment): string {
+  if (comment.authorIsAdmin) return 'Photographer';
+  return comment.authorName ?? 'Client';
+}
+
+interface CommentFormProps {
+  label: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  children?: ReactNode;
+}
+
+/** A comment box and its submit button; clears itself once the post lands. */
+function CommentForm({ label, submitLabel, onSubmit, children }: CommentFormProps) {
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = body.trim();
+    if (!trimmed) return;
+    setSaving(true);
+    setError(null);
+    onSubmit(trimmed)
+      .then(() => setBody(''))
+      .catch((error_: unknown) => setError(mapError(error_)))
+      .finally(() => setSaving(false));
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit}>
+      <textarea
+        className={styles.textarea}
+        aria-label={label}
+        placeholder={label}
+        rows={2}
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        disabled={saving}
+      />
+      <div className={styles.formActions}>
+        {children}
+        <button type="submit" className={styles.actionButton} disabled={saving || !body.trim()}>
+          {saving ? 'Posting…' : submitLabel}
+        </button>
+      </div>
+      {error && (
+        <span className={styles.error} role="alert">
+          {error}
+        </span>
+      )}
+    </form>
+  );
+}
+
+interface ThreadProps {
+  thread: ImageCommentThread;
+  number: number;
+  isAdmin: boolean;
+  comments: ImageComments;
+}
+
+function Thread({ thread, number, isAdmin, comments }: ThreadProps) {
+  const [toggling, setToggling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const resolved = thread.resolvedAt !== null;
+
+  const handleToggleResolved = () => {
+    setToggling(true);
+    setError(null);
+    comments
+      .setResolved(thread.id, !resolved)
+      .catch((error_: unknown) => setError(mapError(error_)))
+      .finally(() => setToggling(false));
+  };
+
+  return (
+    <li className={`${styles.thread} ${resolved ? styles.threadResolved : ''}`}>
+      <div className={styles.threadHeader}>
+        {thread.pin && (
+          <span className={styles.pinBadge} aria-label={`Pin ${number}`}>
+            {number}
+          </span>
+        )}
+        {resolved && <span className={styles.resolvedLabel}>Resolved</span>}
+        {isAdmin && (
+          <button
+            type="button"
+            className={styles.linkButton}
+            onClick={handleToggleResolved}
+            disabled={toggling}
+          >
+            {resolved ? 'Reopen' : 'Resolve'}
+          </button>
+        )}
+      </div>
+      <ul className={styles.comments}>
+        {thread.comments.map(comment => (
+          <li key={comment.id} className={styles.comment}>
+            <span className={styles.commentMeta}>
+              {authorLabel(comment)} · {formatLongDate(comment.createdAt)}
+            </span>
+            <p className={styles.commentBody}>{comment.body}</p>
+          </li>
+        ))}
+      </ul>
+      {!resolved && (
+        <CommentForm
+          label="Reply"
+          submitLabel="Reply"
+          onSubmit={body => comments.post(body, thread.id)}
+        />
+      )}
+      {error && (
+        <span className={styles.error} role="alert">
+          {error}
+        </span>
+      )}
+    </li>
+  );
+}
+
+interface ImageCommentsSectionProps {
+  comments: ImageComments;
+  /** Shows the Resolve / Reopen controls. The backend enforces it regardless. */
+  isAdmin: boolean;
+}
+
+/**
+ * The "Comments" section at the foot of the fullscreen viewer's metadata panel, on client galleries,
+ * for their clients and the admin (FullScreenModal decides, and the backend enforces it).
+ *
+ * Threads are numbered in order; a pinned thread's number matches its marker on the photo (see
+ * `CommentPins`). "Pin a point" arms the viewer so the next click on the photo drops the new
+ * thread's pin instead of toggling immersive mode. Resolved threads stay listed, dimmed, and take
+ * no more replies until the admin reopens them.
+ */
+export default function ImageCommentsSection({ comments, isAdmin }: ImageCommentsSectionProps) {
+  if (comments.status === 'idle') return null;
+
+  const { threads, status, pinArmed, draftPin } = comments;
+
+  return (
+    <section className={styles.commentsSection} aria-label="Comments">
+      <div className={styles.sectionHeader}>Comments</div>
+      {status === 'loading' && <p className={styles.hint}>Loading comments…</p>}
+      {status === 'error' && <p className={styles.hint}>Comments could not be loaded.</p>}
+      {status === 'ready' && (
+        <>
+          {threads.length === 0 ? (
+            <p className={styles.hint}>No comments on this image yet.</p>
+          ) : (
+            <ol className={styles.threads}>
+              {threads.map((thread, index) => (
+                <Thread
+                  key={thread.id}
+                  thread={thread}
+                  number={index + 1}
+                  isAdmin={isAdmin}
+                  comments={comments}
+                />
+              ))}
+            </ol>
+          )}
+          <CommentForm
+            label="Comment on this image"
+            submitLabel="Post"
+            onSubmit={body => comments.post(body, null)}
+          >
+            {draftPin ? (
+              <button
+                type="button"
+                className={styles.linkButton}
+                onClick={() => comments.placePin(null)}
+              >
+                Remove pin
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={styles.linkButton}
+                aria-pressed={pinArmed}
+                onClick={() => comments.setPinArmed(!pinArmed)}
+              >
+                {pinArmed ? 'Click the photo…' : 'Pin a point'}
+              </button>
+            )}
+          </CommentForm>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  listImageComments,
+  postImageComment,
+  reopenImageCommentThread,
+  resolveImageCommentThread,
+} from '@/app/lib/api/imageComments';
+import { type ImageCommentPin, type ImageCommentThread } from '@/app/types/ImageComments';
+
+export type ImageCommentsStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface ImageComments {
+  threads: ImageCommentThread[];
+  status: ImageCommentsStatus;
+  /** Start a thread (`threadId` null, with the draft pin if one is placed) or reply to one. */
+  post: (body: string, threadId: number | null) => Promise<void>;
+  /** Admin only — the backend refuses anyone else. */
+  setResolved: (threadId: number, resolved: boolean) => Promise<void>;
+  /** True while the next click on the photo places a pin instead of toggling immersive mode. */
+  pinArmed: boolean;
+  setPinArmed: (armed: boolean) => void;
+  /** The pin the next new thread will carry, placed but not yet posted. */
+  draftPin: ImageCommentPin | null;
+  placePin: (pin: ImageCommentPin | null) => void;
+}
+
+/** Swap one thread for its updated copy, or append it when it is new. */
+function upsertThread(threads: ImageCommentThread[], next: ImageCommentThread) {
+  return threads.some(t => t.id === next.id)
+    ? threads.map(t => (t.id === next.id ? next : t))
+    : [...threads, next];
+}
+
+/**
+ * Comment threads for the image on screen in the fullscreen viewer, plus the pin-placing state the
+ * viewer's click handler and the comments panel share.
+ *
+ * `enabled` is false for anyone who may not comment (see FullScreenModal) — nothing is fetched and
+ * `status` stays `idle`, so callers can render nothing on it. Moving to another image drops the
+ * previous image's threads and any half-placed pin, and aborts a read still in flight so a slow
+ * response cannot land on the wrong photo.
+ *
+ * Writes reject with the `ApiError` from the API layer; the panel maps it to copy.
+ */
+export function useImageComments({
+  collectionId,
+  contentId,
+  enabled,
+}: {
+  collectionId: number | undefined;
+  contentId: number | undefined;
+  enabled: boolean;
+}): ImageComments {
+  const [threads, setThreads] = useState<ImageCommentThread[]>([]);
+  const [status, setStatus] = useState<ImageCommentsStatus>('idle');
+  const [pinArmed, setPinArmed] = useState(false);
+  const [draftPin, setDraftPin] = useState<ImageCommentPin | null>(null);
+
+  useEffect(() => {
+    setThreads([]);
+    setPinArmed(false);
+    setDraftPin(null);
+    if (!enabled || collectionId === undefined || contentId === undefined) {
+      setStatus('idle');
+      return;
+    }
+
+    const controller = new AbortController();
+    setStatus('loading');
+    listImageComments(collectionId, contentId, controller.signal)
+      .then(result => {
+        setThreads(result);
+        setStatus('ready');
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setStatus('error');
+      });
+    return () => controller.abort();
+  }, [collectionId, contentId, enabled]);
+
+  const post = useCallback(
+    async (body: string, threadId: number | null) => {
+      if (collectionId === undefined || contentId === undefined) return;
+      const thread = await postImageComment(collectionId, contentId, {
+        body,
+        pin: threadId === null ? draftPin : null,
+        threadId,
+      });
+      setThreads(prev => upsertThread(prev, thread));
+      if (threadId === null) {
+        setDraftPin(null);
+        setPinArmed(false);
+      }
+    },
+    [collectionId, contentId, draftPin]
+  );
+
+  const setResolved = useCallback(async (threadId: number, resolved: boolean) => {
+    const thread = resolved
+      ? await resolveImageCommentThread(threadId)
+      : await reopenImageCommentThread(threadId);
+    setThreads(prev => upsertThread(prev, thread));
+  }, []);
+
+  const placePin = useCallback((pin: ImageCommentPin | null) => {
+    setDraftPin(pin);
+    setPinArmed(false);
+  }, []);
+
+  return { threads, status, post, setResolved, pinArmed, setPinArmed, draftPin, placePin };
+}
@@ -0,0 +1,19 @@
+import { type JsonLdObject, serializeJsonLd } from '@/app/utils/structuredData';
+
+interface JsonLdProps {
+  data: JsonLdObject | JsonLdObject[];
+}
+
+/**
+ * Inline schema.org structured data. Server-rendered only — crawlers read it from the first
+ * response — and escaped by {@link serializeJsonLd}, which is what makes the raw-HTML injection
+ * safe for payloads that carry authored captions.
+ */
+export function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  );
+}
@@ -14,6 +14,7 @@ import {
   buildLocationCriteria,
   computeFilterCounts,
   computeFilterVisibility,
+  expressionTextFromCriteria,
   extractFilterOptions,
   filmFilterFromIsFilm,
   filterContent,
@@ -39,6 +40,7 @@ export default function LocationPageClient({ images, collections }: LocationPage
     filmFilter: filmFilterFromIsFilm(initialCriteria.isFilm),
     selectedTags: initialCriteria.tags ?? [],
     selectedPeople: initialCriteria.people ?? [],
+    expression: expressionTextFromCriteria(initialCriteria),
   }));
 
   const availableOptions = useMemo(() => extractFilterOptions(images), [images]);
@@ -129,6 +131,7 @@ export default function LocationPageClient({ images, collections }: LocationPage
         showDateSort={visibility.dateSort}
         showHighlyRated={visibility.highlyRated}
         showFilm={visibility.film}
+        showExpression
       />
 
       {contentBlocks.length > 0 ? (
@@ -18,6 +18,7 @@ import { clearCacheAction } from '@/app/lib/actions/clearCache';
 import { logout } from '@/app/lib/api/auth';
 import { collectionStorage } from '@/app/lib/storage/collectionStorage';
 import { isLocalEnvironment } from '@/app/utils/environment';
+import { canCollaborateOnCollection } from '@/app/utils/galleryAccess';
 import { manageHref } from '@/app/utils/manageUrl';
 
 import styles from './MenuDropdown.module.scss';
@@ -27,6 +28,8 @@ interface MenuDropdownProps {
   onClose: () => void;
   pageType?: 'default' | 'manage' | 'collection' | 'collectionsCollection';
   collectionSlug?: string;
+  /** Id of the collection on screen, for the collaborator "Update" link. */
+  collectionId?: number;
   /** Applied to the overlay root so the trigger can point `aria-controls` at it. */
   id?: string;
 }
@@ -100,10 +103,11 @@ function restoreFocus(previous: HTMLElement | null) {
  *
  * "Update" links to `/[slug]?manage=1`, the same route the page is already on, so the soft
  * navigation hands `CollectionPageClient` `editMode=true` without remounting it. No slug falls
- * back to the create surface.
+ * back to the create surface. A COLLABORATOR member of the collection on screen gets the same
+ * link, which opens their curation-only layer there.
  *
- * Public items (including Explore — the /explore taxonomy directory is
- * deliberately ungated, see proxy.ts) render for logged-out visitors; admin
+ * Public items (including Explore and Search — the /explore taxonomy directory
+ * and /search are deliberately ungated, see proxy.ts) render for logged-out visitors; admin
  * items are gated on the `isAdmin` principal.
  *
  * @param isOpen - Controls dropdown visibility
@@ -114,6 +118,7 @@ export function MenuDropdown({
   onClose,
   pageType = 'default',
   collectionSlug,
+  collectionId,
   id,
 }: MenuDropdownProps) {
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -127,6 +132,11 @@ export function MenuDropdown({
 
   const { me, loading: meLoading } = useFetchMe();
   const isAdmin = me?.isAdmin ?? false;
+  const canUpdate =
+    isAdmin ||
+    (collectionSlug !== undefined &&
+      collectionId !== undefined &&
+      canCollaborateOnCollection(me, collectionId));
 
   const handleLogin = () => {
     router.push('/login');
@@ -349,6 +359,12 @@ export function MenuDropdown({
           </NavLink>
         </div>
 
+        <div className={styles.dropdownMenuItem}>
+          <NavLink href="/search" className={styles.dropdownMenuLink} onClick={onClose}>
+            <span className={styles.dropdownMenuOptions}>Search</span>
+          </NavLink>
+        </div>
+
         <div className={styles.dropdownMenuItem}>
           <NavLink href="/collections" className={styles.dropdownMenuLink} onClick={onClose}>
             <span className={styles.dropdownMenuOptions}>Collections</span>
@@ -367,7 +383,7 @@ export function MenuDropdown({
           </div>
         )}
 
-        {isAdmin && pageType === 'collection' && (
+        {canUpdate && pageType === 'collection' && (
           <div className={styles.dropdownMenuItem}>
             <NavLink
               href={collectionSlug ? manageHref(collectionSlug) : '/collection/manage'}
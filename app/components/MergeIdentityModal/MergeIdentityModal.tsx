@@ -5,6 +5,7 @@ import { useState } from 'react';
 import { Button } from '@/app/components/ui/Button/Button';
 import { FormError } from '@/app/components/ui/Field/FormError';
 import { Modal } from '@/app/components/ui/Modal/Modal';
+import { useStepUp } from '@/app/hooks/useStepUp';
 import { ApiError } from '@/app/lib/api/core';
 import { getMergePreview, mergeUser } from '@/app/lib/api/users';
 import { type AdminUserSummary, type MergePreview } from '@/app/types/User';
@@ -27,7 +28,8 @@ const labelFor = (u: AdminUserSummary) =>
 /**
  * Confirmation modal for absorbing a tag-only PERSON (`source`) into a surviving identity. A native
  * `<select>` survivor-picker loads a {@link getMergePreview} on change; confirming calls
- * {@link mergeUser} then `onMerged`. The merge is irreversible (the source row is hard-deleted).
+ * {@link mergeUser} then `onMerged`. The merge is irreversible (the source row is hard-deleted), so
+ * it goes through {@link useStepUp} — the backend may first ask for a fresh second-factor check.
  */
 export function MergeIdentityModal({
   source,
@@ -40,6 +42,7 @@ export function MergeIdentityModal({
   const [preview, setPreview] = useState<MergePreview | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { withStepUp, stepUpDialog } = useStepUp();
 
   const loadPreview = async (id: number) => {
     setTargetId(id);
@@ -66,7 +69,7 @@ export function MergeIdentityModal({
     setLoading(true);
     setError(null);
     try {
-      await mergeUser(targetId, source.id);
+      await withStepUp(() => mergeUser(targetId, source.id));
       onMerged();
     } catch (error_) {
       setError(
@@ -128,6 +131,7 @@ export function MergeIdentityModal({
             Merge
           </Button>
         </div>
+        {stepUpDialog}
       </div>
     </Modal>
   );
@@ -7,7 +7,12 @@ import { CloseButton } from '@/app/components/ui/CloseButton/CloseButton';
 import { EditBar } from '@/app/components/ui/EditBar/EditBar';
 import { Modal } from '@/app/components/ui/Modal/Modal';
 import { type CollectionListModel, type LocationModel } from '@/app/types/Collection';
-import { type ContentGifModel, type ContentImageUpdateResponse } from '@/app/types/Content';
+import {
+  type ContentGifModel,
+  type ContentImageModel,
+  type ContentImageUpdateRequest,
+  type ContentImageUpdateResponse,
+} from '@/app/types/Content';
 import {
   type ContentCameraModel,
   type ContentFilmTypeModel,
@@ -39,6 +44,14 @@ const TABS: ReadonlyArray<{ id: TabId; label: string }> = [
 interface MetadataModalProps {
   onClose: () => void;
   onSaveSuccess?: (response: ContentImageUpdateResponse) => void;
+  /**
+   * Offered an image save that failed; resolves true if it was queued to send later (the browser
+   * is offline), which closes the sheet instead of showing the error. Not used for GIF edits.
+   */
+  onQueueOffline?: (
+    updates: ContentImageUpdateRequest[],
+    images: ContentImageModel[]
+  ) => Promise<boolean>;
   /**
    * Fired after a single-GIF save. Separate from `onSaveSuccess` because the GIF update endpoint
    * returns one record instead of the batched ImageUpdate response.
@@ -80,6 +93,7 @@ interface MetadataModalProps {
 export default function MetadataModal({
   onClose,
   onSaveSuccess,
+  onQueueOffline,
   onGifSaveSuccess,
   onDeleteSuccess,
   onRemoveFromCollectionSuccess,
@@ -123,6 +137,7 @@ export default function MetadataModal({
       currentCollectionId,
       onClose,
       onSaveSuccess,
+      onQueueOffline,
       onGifSaveSuccess,
       onDeleteSuccess,
       onRemoveFromCollectionSuccess,
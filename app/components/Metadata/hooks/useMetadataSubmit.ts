@@ -31,6 +31,10 @@ export interface UseMetadataSubmitParams {
   currentCollectionId?: number;
   onClose: () => void;
   onSaveSuccess?: (response: ContentImageUpdateResponse) => void;
+  onQueueOffline?: (
+    updates: ContentImageUpdateRequest[],
+    images: ContentImageModel[]
+  ) => Promise<boolean>;
   onGifSaveSuccess?: (gif: ContentGifModel) => void;
   onDeleteSuccess?: (deletedIds: number[]) => void;
   onRemoveFromCollectionSuccess?: (removedImageIds: number[]) => void;
@@ -55,6 +59,7 @@ export function useMetadataSubmit({
   currentCollectionId,
   onClose,
   onSaveSuccess,
+  onQueueOffline,
   onGifSaveSuccess,
   onDeleteSuccess,
   onRemoveFromCollectionSuccess,
@@ -115,7 +120,17 @@ export function useMetadataSubmit({
       ? buildImageUpdatesForBulkEdit(updateState, imageSubset, selectedIds, availableFilmTypes)
       : [buildImageUpdateDiff(updateState, imageSubset[0]!, availableFilmTypes)];
 
-    const response = await updateImages(imageUpdates);
+    let response: Awaited<ReturnType<typeof updateImages>>;
+    try {
+      response = await updateImages(imageUpdates);
+    } catch (error_) {
+      // Offline: the caller keeps the edit for later, so the sheet closes as if it saved.
+      if (await onQueueOffline?.(imageUpdates, imageSubset)) {
+        onClose();
+        return;
+      }
+      throw error_;
+    }
     if (response !== null) {
       onSaveSuccess?.(mapUpdateResponseToFrontend(response));
       onClose();
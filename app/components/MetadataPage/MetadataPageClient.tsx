@@ -1,38 +1,43 @@
 'use client';
 
+import { TAXONOMY_KINDS, taxonomyHref } from '@/app/components/TaxonomyConsole/taxonomyKinds';
 import { CollectionHeader } from '@/app/components/ui/CollectionHeader/CollectionHeader';
 import { MetadataList } from '@/app/components/ui/MetadataList/MetadataList';
 import { PageShell } from '@/app/components/ui/PageShell/PageShell';
-import type { LocationModel } from '@/app/types/Collection';
-import type { ContentPersonModel, ContentTagModel } from '@/app/types/Metadata';
+import type { GeneralMetadataDTO } from '@/app/types/Collection';
+import type { TaxonomyKind } from '@/app/types/Taxonomy';
 
 import styles from './MetadataPage.module.scss';
 
 interface MetadataPageClientProps {
-  tags: ContentTagModel[];
-  people: ContentPersonModel[];
-  locations: LocationModel[];
+  metadata: Pick<
+    GeneralMetadataDTO,
+    'tags' | 'people' | 'locations' | 'cameras' | 'lenses' | 'filmTypes'
+  >;
 }
 
-export function MetadataPageClient({ tags, people, locations }: MetadataPageClientProps) {
+/**
+ * The `/metadata` index: one editable list per vocabulary, each row linking to its console at
+ * `/metadata/[kind]/[id]` for usage, aliases, merge and delete.
+ */
+export function MetadataPageClient({ metadata }: MetadataPageClientProps) {
   return (
     <PageShell>
       <CollectionHeader title="Metadata" />
       <div className={styles.grid}>
-        <MetadataList title="Tags" emptyLabel="No tags" items={tags} basePath="/metadata/tags" />
-        <MetadataList
-          title="People"
-          emptyLabel="No people"
-          items={people}
-          basePath="/metadata/people"
-        />
-        <MetadataList
-          title="Locations"
-          emptyLabel="No locations"
-          items={locations}
-          basePath="/metadata/locations"
-          getHref={item => (item.slug ? `/location/${item.slug}` : null)}
-        />
+        {(Object.keys(TAXONOMY_KINDS) as TaxonomyKind[]).map(kind => {
+          const { title, metadataKey } = TAXONOMY_KINDS[kind];
+          return (
+            <MetadataList
+              key={kind}
+              title={title}
+              emptyLabel={`No ${title.toLowerCase()}`}
+              items={metadata[metadataKey]}
+              basePath={`/metadata/${kind}`}
+              getHref={item => taxonomyHref(kind, item.id)}
+            />
+          );
+        })}
       </div>
     </PageShell>
   );
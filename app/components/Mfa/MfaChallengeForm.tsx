@@ -0,0 +1,113 @@
+'use client';
+
+import { type FormEvent, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Field } from '@/app/components/ui/Field/Field';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Input } from '@/app/components/ui/Field/Input';
+import { verifyMfa, verifyMfaWithPasskey } from '@/app/lib/api/auth';
+import { ApiError } from '@/app/lib/api/core';
+
+import styles from './MfaChallengeForm.module.scss';
+
+export interface MfaChallengeFormProps {
+  /** Called once the backend has accepted the code or passkey. */
+  onVerified: () => void;
+  /** Prefix for the field id, so two forms on one page (page + step-up) cannot collide. */
+  idPrefix?: string;
+}
+
+/**
+ * Map a failed second-factor check to user-facing copy. A 401 is a wrong or
+ * already-used code; 429 is the backend's verification rate limiter, whose window
+ * matches sign-in's. Passkey failures are `DOMException`s from the browser sheet.
+ */
+function mapVerifyError(err: unknown): string {
+  if (err instanceof ApiError) {
+    if (err.status === 401) {
+      return "That code didn't work. Check your authenticator app and try again.";
+    }
+    if (err.status === 429) {
+      return 'Too many attempts. Please wait about 15 minutes before trying again.';
+    }
+  }
+  if (err instanceof DOMException && err.name === 'NotAllowedError') {
+    return 'No passkey was used. Enter a code instead, or try again.';
+  }
+  return 'Something went wrong. Please try again.';
+}
+
+/**
+ * Second-factor check: a code from the authenticator app (or a recovery code) via
+ * {@link verifyMfa}, or Face / Touch ID via {@link verifyMfaWithPasskey}. Shared by the
+ * post-sign-in challenge at `/login/mfa` and the step-up dialog in front of destructive admin
+ * actions — the backend treats both as the same verification.
+ */
+export function MfaChallengeForm({ onVerified, idPrefix = 'mfa' }: MfaChallengeFormProps) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const run = async (verify: () => Promise<void>) => {
+    setError(null);
+    try {
+      setSubmitting(true);
+      await verify();
+      onVerified();
+    } catch (error_) {
+      setError(mapVerifyError(error_));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!code.trim()) {
+      setError('Enter the code from your authenticator app.');
+      return;
+    }
+    void run(() => verifyMfa(code));
+  };
+
+  const codeId = `${idPrefix}-code`;
+
+  return (
+    <form onSubmit={handleSubmit} className={styles.form}>
+      <Field
+        label="Authentication code"
+        htmlFor={codeId}
+        hint="The 6-digit code from your authenticator app, or one of your recovery codes."
+      >
+        <Input
+          id={codeId}
+          value={code}
+          onChange={event => setCode(event.target.value)}
+          inputMode="text"
+          autoComplete="one-time-code"
+          autoCapitalize="off"
+          spellCheck={false}
+          disabled={submitting}
+        />
+      </Field>
+
+      {error && <FormError>{error}</FormError>}
+
+      <Button type="submit" loading={submitting} className={styles.fullWidth}>
+        Verify
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        disabled={submitting}
+        onClick={() => void run(verifyMfaWithPasskey)}
+        className={styles.fullWidth}
+      >
+        Use Face / Touch ID instead
+      </Button>
+    </form>
+  );
+}
+
+export default MfaChallengeForm;
@@ -0,0 +1,209 @@
+'use client';
+
+import { type FormEvent, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Field } from '@/app/components/ui/Field/Field';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Input } from '@/app/components/ui/Field/Input';
+import { confirmTotpEnrollment, registerPasskey, startTotpEnrollment } from '@/app/lib/api/auth';
+import { ApiError } from '@/app/lib/api/core';
+import { type TotpEnrollment } from '@/app/types/Auth';
+
+import styles from './MfaEnrollment.module.scss';
+
+export interface MfaEnrollmentProps {
+  /**
+   * Called once a factor is in place. `verified` is true when enrolling also verified this
+   * session (an authenticator app proves itself with a code); a new passkey has not been used
+   * yet, so the caller still has to challenge for it.
+   */
+  onEnrolled: (verified: boolean) => void;
+}
+
+type Step =
+  | { kind: 'choose' }
+  | { kind: 'scan'; enrollment: TotpEnrollment }
+  | { kind: 'codes'; recoveryCodes: string[] };
+
+/**
+ * Map an enrollment failure to user-facing copy. An expired session is called out like the rest
+ * of the account screens; a rejected confirmation code is almost always clock drift on the phone.
+ */
+function mapEnrollError(err: unknown, step: Step['kind']): string {
+  if (err instanceof ApiError) {
+    if (err.status === 401) {
+      return 'Your session has expired. Sign in again to set up two-step verification.';
+    }
+    if (err.status === 400 && step === 'scan') {
+      return "That code didn't match. Check that your phone's clock is set automatically and try again.";
+    }
+  }
+  if (err instanceof DOMException && err.name === 'NotAllowedError') {
+    return "Face / Touch ID wasn't saved — the prompt was closed or timed out. Try again whenever you like.";
+  }
+  return "Two-step verification couldn't be set up. Please try again.";
+}
+
+/**
+ * Second-factor enrollment: an authenticator app (scan the QR, confirm with a code, then save the
+ * one-time recovery codes) or a passkey. Used on `/login/mfa` for an admin who has no factor yet,
+ * and on the `/user` two-step verification card.
+ *
+ * The recovery codes step cannot be skipped by accident — the codes are shown only this once, so
+ * the flow does not report success until they have been acknowledged.
+ */
+export function MfaEnrollment({ onEnrolled }: MfaEnrollmentProps) {
+  const [step, setStep] = useState<Step>({ kind: 'choose' });
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleStartTotp = async () => {
+    setError(null);
+    setPending(true);
+    try {
+      setStep({ kind: 'scan', enrollment: await startTotpEnrollment() });
+    } catch (error_) {
+      setError(mapEnrollError(error_, 'choose'));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handlePasskey = async () => {
+    setError(null);
+    setPending(true);
+    try {
+      await registerPasskey();
+      onEnrolled(false);
+    } catch (error_) {
+      setError(mapEnrollError(error_, 'choose'));
+      setPending(false);
+    }
+  };
+
+  const handleConfirm = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!code.trim()) {
+      setError('Enter the code your authenticator app shows.');
+      return;
+    }
+    setError(null);
+    setPending(true);
+    try {
+      const { recoveryCodes } = await confirmTotpEnrollment(code);
+      setStep({ kind: 'codes', recoveryCodes });
+    } catch (error_) {
+      setError(mapEnrollError(error_, 'scan'));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleCopy = async (recoveryCodes: string[]) => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+    } catch {
+      setError('Could not copy automatically — select the codes above and copy them.');
+    }
+  };
+
+  if (step.kind === 'codes') {
+    return (
+      <div className={styles.step}>
+        <p className={styles.text}>
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+          phone. They won’t be shown again.
+        </p>
+        <ol className={styles.codes} aria-label="Recovery codes">
+          {step.recoveryCodes.map(recoveryCode => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ol>
+        {error && <FormError>{error}</FormError>}
+        <div className={styles.actions}>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => void handleCopy(step.recoveryCodes)}
+          >
+            {copied ? 'Copied' : 'Copy codes'}
+          </Button>
+          <Button type="button" onClick={() => onEnrolled(true)}>
+            I’ve saved these codes
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step.kind === 'scan') {
+    return (
+      <form className={styles.step} onSubmit={handleConfirm}>
+        <p className={styles.text}>Scan this code with your authenticator app.</p>
+        <img
+          className={styles.qr}
+          src={step.enrollment.qrCodeDataUri}
+          alt="QR code for your authenticator app"
+          width={180}
+          height={180}
+        />
+        <p className={styles.text}>
+          Can’t scan it? Enter this key instead:{' '}
+          <code className={styles.secret}>{step.enrollment.secret}</code>
+        </p>
+        <Field label="Code from the app" htmlFor="mfa-enroll-code">
+          <Input
+            id="mfa-enroll-code"
+            value={code}
+            onChange={event => setCode(event.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            disabled={pending}
+          />
+        </Field>
+        {error && <FormError>{error}</FormError>}
+        <div className={styles.actions}>
+          <Button
+            type="button"
+            variant="ghost"
+            disabled={pending}
+            onClick={() => {
+              setStep({ kind: 'choose' });
+              setCode('');
+              setError(null);
+            }}
+          >
+            Back
+          </Button>
+          <Button type="submit" loading={pending}>
+            Turn on
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className={styles.step}>
+      <p className={styles.text}>
+        Add a second step to signing in with a password: a code from an authenticator app, or Face /
+        Touch ID on this device.
+      </p>
+      {error && <FormError>{error}</FormError>}
+      <div className={styles.actions}>
+        <Button type="button" variant="outline" disabled={pending} onClick={handlePasskey}>
+          Use Face / Touch ID
+        </Button>
+        <Button type="button" loading={pending} onClick={handleStartTotp}>
+          Set up an authenticator app
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default MfaEnrollment;
@@ -0,0 +1,38 @@
+'use client';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Modal } from '@/app/components/ui/Modal/Modal';
+
+import { MfaChallengeForm } from './MfaChallengeForm';
+import styles from './StepUpDialog.module.scss';
+
+export interface StepUpDialogProps {
+  open: boolean;
+  /** `true` once the second factor was accepted; `false` when the admin backed out. */
+  onDone: (verified: boolean) => void;
+}
+
+/**
+ * "Confirm it's you" in front of a destructive admin action the backend refused for want of a
+ * recent second-factor check. Opened by {@link useStepUp}, never directly.
+ */
+export function StepUpDialog({ open, onDone }: StepUpDialogProps) {
+  return (
+    <Modal open={open} onClose={() => onDone(false)} variant="overlay" labelledBy="step-up-title">
+      <div className={styles.card}>
+        <h2 id="step-up-title" className={styles.title}>
+          Confirm it’s you
+        </h2>
+        <p className={styles.text}>
+          This can’t be undone, so it needs a fresh check of your second factor.
+        </p>
+        <MfaChallengeForm idPrefix="step-up" onVerified={() => onDone(true)} />
+        <Button variant="ghost" onClick={() => onDone(false)} className={styles.cancel}>
+          Cancel
+        </Button>
+      </div>
+    </Modal>
+  );
+}
+
+export default StepUpDialog;
@@ -6,9 +6,9 @@ import { Button } from '@/app/components/ui/Button/Button';
 import { Card } from '@/app/components/ui/Card/Card';
 import { FormError } from '@/app/components/ui/Field/FormError';
 import { registerPasskey } from '@/app/lib/api/auth';
-import { ApiError } from '@/app/lib/api/core';
 
 import styles from './AccountCard.module.scss';
+import { mapAccountError, PasskeyList, SessionList } from './AccountSecurity';
 
 export interface AccountCardProps {
   /** The signed-in principal's email, from the server-resolved `meServer()`. */
@@ -20,8 +20,8 @@ type EnrollPhase = 'idle' | 'pending' | 'success' | 'error';
 /**
  * Map a failed `registerPasskey()` ceremony to user-facing copy. Browser-side
  * failures are `DOMException`s (`NotAllowedError` = sheet dismissed / timed out;
- * `SecurityError` = WebAuthn misconfig for this domain); server-side failures are
- * `ApiError`s, of which only the expired-session 401 gets dedicated wording.
+ * `SecurityError` = WebAuthn misconfig for this domain); server-side failures go
+ * through the card's shared {@link mapAccountError}.
  */
 function mapEnrollError(err: unknown): string {
   if (err instanceof DOMException) {
@@ -32,23 +32,27 @@ function mapEnrollError(err: unknown): string {
       return "Face / Touch ID isn't available right now. Please try again later.";
     }
   }
-  if (err instanceof ApiError && err.status === 401) {
-    return 'Your session has expired. Sign in again to add Face / Touch ID.';
-  }
-  return "Face / Touch ID couldn't be saved. Please try again.";
+  return mapAccountError(
+    err,
+    'add Face / Touch ID',
+    "Face / Touch ID couldn't be saved. Please try again."
+  );
 }
 
 /**
- * "Account" card for the `/user` page: the signed-in email plus a passkey
- * (Face / Touch ID) enrollment control driving the existing `registerPasskey()`
- * WebAuthn ceremony, with pending / success / error feedback (never a silent
- * swallow). Stateless about existing credentials — the backend exposes no
- * credential-list endpoint yet — so the button is always offered; enrolling the
- * same authenticator twice is stopped by the ceremony's `excludeCredentials`.
+ * "Account" card for the `/user` page: the signed-in email, a passkey
+ * (Face / Touch ID) enrollment control driving the `registerPasskey()` WebAuthn
+ * ceremony with pending / success / error feedback (never a silent swallow), and
+ * the security lists — registered passkeys with rename / remove, and live
+ * sessions with "sign out everywhere else" — so a lost device can be cut off
+ * from here. The enroll button is always offered; enrolling the same
+ * authenticator twice is stopped by the ceremony's `excludeCredentials`, and a
+ * successful enrollment refetches the passkey list.
  */
 export function AccountCard({ email }: AccountCardProps) {
   const [phase, setPhase] = useState<EnrollPhase>('idle');
   const [error, setError] = useState<string | null>(null);
+  const [enrollments, setEnrollments] = useState(0);
 
   const handleEnroll = async () => {
     setError(null);
@@ -56,6 +60,7 @@ export function AccountCard({ email }: AccountCardProps) {
     try {
       await registerPasskey();
       setPhase('success');
+      setEnrollments(count => count + 1);
     } catch (error_) {
       setError(mapEnrollError(error_));
       setPhase('error');
@@ -83,6 +88,9 @@ export function AccountCard({ email }: AccountCardProps) {
         </p>
       )}
       {error && <FormError>{error}</FormError>}
+      <PasskeyList refreshKey={enrollments} />
+      <h3 className={styles.subheading}>Signed-in devices</h3>
+      <SessionList />
     </Card>
   );
 }
@@ -0,0 +1,314 @@
+'use client';
+
+import { type FormEvent, useEffect, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Input } from '@/app/components/ui/Field/Input';
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
+import {
+  listPasskeys,
+  listSessions,
+  removePasskey,
+  renamePasskey,
+  signOutOtherSessions,
+} from '@/app/lib/api/auth';
+import { ApiError } from '@/app/lib/api/core';
+import { type AuthSession, type PasskeyCredential } from '@/app/types/Auth';
+import { formatLongDate } from '@/app/utils/formatDateRange';
+
+import styles from './AccountSecurity.module.scss';
+
+/**
+ * Map a failed account-security call to user-facing copy. An expired session (`ApiError` 401)
+ * reads the same on every control of the account card — sign in again to `action` — and anything
+ * else gets the caller's `fallback`.
+ */
+export function mapAccountError(err: unknown, action: string, fallback: string): string {
+  if (err instanceof ApiError && err.status === 401) {
+    return `Your session has expired. Sign in again to ${action}.`;
+  }
+  return fallback;
+}
+
+function passkeyName(passkey: PasskeyCredential): string {
+  return passkey.nickname || 'Unnamed passkey';
+}
+
+export interface PasskeyListProps {
+  /** Bumped by the card after an enrollment so the new passkey is fetched in. */
+  refreshKey: number;
+}
+
+/**
+ * The signed-in user's passkeys: name, when each was added and last used, with an inline rename
+ * and a confirmed remove. Removing is how a lost or replaced device stops being able to sign in;
+ * its open sessions are a separate matter, ended from {@link SessionList}.
+ */
+export function PasskeyList({ refreshKey }: PasskeyListProps) {
+  const [passkeys, setPasskeys] = useState<PasskeyCredential[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    listPasskeys().then(
+      list => {
+        if (!cancelled) setPasskeys(list);
+      },
+      (error_: unknown) => {
+        if (!cancelled) {
+          setLoadError(
+            mapAccountError(
+              error_,
+              'see your passkeys',
+              "Your passkeys couldn't be loaded. Please try again later."
+            )
+          );
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const startRename = (passkey: PasskeyCredential) => {
+    setError(null);
+    setEditingId(passkey.id);
+    setDraft(passkey.nickname ?? '');
+  };
+
+  const handleRename = async (event: FormEvent<HTMLFormElement>, id: string) => {
+    event.preventDefault();
+    setError(null);
+    setPendingId(id);
+    try {
+      const updated = await renamePasskey(id, draft);
+      setPasskeys(prev => prev?.map(passkey => (passkey.id === id ? updated : passkey)) ?? null);
+      setEditingId(null);
+    } catch (error_) {
+      setError(
+        mapAccountError(
+          error_,
+          'rename a passkey',
+          "The passkey couldn't be renamed. Please try again."
+        )
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (passkey: PasskeyCredential) => {
+    if (
+      !window.confirm(
+        `Remove “${passkeyName(passkey)}”? The device holding it can no longer use it to sign in.`
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    setPendingId(passkey.id);
+    try {
+      await removePasskey(passkey.id);
+      setPasskeys(prev => prev?.filter(item => item.id !== passkey.id) ?? null);
+    } catch (error_) {
+      setError(
+        mapAccountError(
+          error_,
+          'remove a passkey',
+          "The passkey couldn't be removed. Please try again."
+        )
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <LoadingText isLoading={passkeys === null && !loadError}>Loading passkeys…</LoadingText>
+      {loadError && <FormError>{loadError}</FormError>}
+      {passkeys?.length === 0 && <EmptyState>No passkeys yet.</EmptyState>}
+      {passkeys && passkeys.length > 0 && (
+        <ul className={styles.list} aria-label="Passkeys">
+          {passkeys.map(passkey => (
+            <li key={passkey.id} className={styles.row}>
+              {editingId === passkey.id ? (
+                <form
+                  className={styles.renameForm}
+                  onSubmit={event => handleRename(event, passkey.id)}
+                >
+                  <Input
+                    aria-label="Passkey name"
+                    value={draft}
+                    maxLength={60}
+                    onChange={event => setDraft(event.target.value)}
+                    autoFocus
+                  />
+                  <Button type="submit" size="sm" loading={pendingId === passkey.id}>
+                    Save
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    disabled={pendingId === passkey.id}
+                    onClick={() => setEditingId(null)}
+                  >
+                    Cancel
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <div className={styles.details}>
+                    <span className={styles.name}>{passkeyName(passkey)}</span>
+                    <span className={styles.meta}>
+                      Added {formatLongDate(passkey.createdAt)} ·{' '}
+                      {passkey.lastUsedAt
+                        ? `Last used ${formatLongDate(passkey.lastUsedAt)}`
+                        : 'Never used'}
+                    </span>
+                  </div>
+                  <div className={styles.actions}>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={pendingId !== null}
+                      onClick={() => startRename(passkey)}
+                      aria-label={`Rename ${passkeyName(passkey)}`}
+                    >
+                      Rename
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      loading={pendingId === passkey.id}
+                      disabled={pendingId !== null}
+                      onClick={() => handleRemove(passkey)}
+                      aria-label={`Remove ${passkeyName(passkey)}`}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <FormError>{error}</FormError>}
+    </div>
+  );
+}
+
+/**
+ * The signed-in user's live sessions — device, last seen, and which one is this browser — with
+ * "Sign out everywhere else" to end all the others at once. Individual revokes are deliberately not
+ * offered: the case this serves is a lost device, where every other session is suspect anyway.
+ */
+export function SessionList() {
+  const [sessions, setSessions] = useState<AuthSession[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+  const [signedOut, setSignedOut] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSessions().then(
+      list => {
+        if (!cancelled) setSessions(list);
+      },
+      (error_: unknown) => {
+        if (!cancelled) {
+          setLoadError(
+            mapAccountError(
+              error_,
+              'see your sessions',
+              "Your sessions couldn't be loaded. Please try again later."
+            )
+          );
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const others = sessions?.filter(session => !session.current).length ?? 0;
+
+  const handleSignOutOthers = async () => {
+    setError(null);
+    setPending(true);
+    try {
+      await signOutOtherSessions();
+      setSessions(prev => prev?.filter(session => session.current) ?? null);
+      setSignedOut(true);
+    } catch (error_) {
+      setError(
+        mapAccountError(
+          error_,
+          'sign out your other devices',
+          "Your other devices couldn't be signed out. Please try again."
+        )
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <LoadingText isLoading={sessions === null && !loadError}>Loading sessions…</LoadingText>
+      {loadError && <FormError>{loadError}</FormError>}
+      {sessions && sessions.length > 0 && (
+        <ul className={styles.list} aria-label="Sessions">
+          {sessions.map(session => (
+            <li key={session.id} className={styles.row}>
+              <div className={styles.details}>
+                <span className={styles.name}>
+                  {session.device || 'Unknown device'}
+                  {session.current && <span className={styles.current}>This device</span>}
+                </span>
+                <span className={styles.meta}>Last seen {formatLongDate(session.lastSeenAt)}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {sessions && (
+        <div className={styles.footer}>
+          {signedOut && others === 0 ? (
+            <p className={styles.hint}>Every other device has been signed out.</p>
+          ) : (
+            <p className={styles.hint}>
+              {others === 0
+                ? 'You are not signed in anywhere else.'
+                : `Signed in on ${others} other ${others === 1 ? 'device' : 'devices'}.`}
+            </p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            loading={pending}
+            disabled={others === 0}
+            onClick={handleSignOutOthers}
+          >
+            Sign out everywhere else
+          </Button>
+        </div>
+      )}
+      {error && <FormError>{error}</FormError>}
+    </div>
+  );
+}
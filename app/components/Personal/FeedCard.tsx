@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Card } from '@/app/components/ui/Card/Card';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { ApiError } from '@/app/lib/api/core';
+import { buildFollowingFeedUrl, type FeedSettingsRead, rotateFeedToken } from '@/app/lib/api/feeds';
+import { type FeedTokenSettings } from '@/app/types/Feed';
+
+import styles from './FeedCard.module.scss';
+
+export interface FeedCardProps {
+  /** Server-resolved starting state; the failure arm is distinct from "no feed yet". */
+  read: FeedSettingsRead;
+}
+
+/**
+ * "Feed" card for `/user`: the private URL a feed reader polls for new work in the collections
+ * the owner follows. RSS is the URL shown — every reader takes it — with Atom and JSON Feed
+ * offered as alternates of the same token.
+ *
+ * Like the share link, the URL is shown on every visit so a second reader can subscribe without
+ * a reset; reset is kept apart as the action that disconnects every existing subscription.
+ */
+export function FeedCard({ read }: FeedCardProps) {
+  const [settings, setSettings] = useState<FeedTokenSettings | null>(
+    read.ok ? read.settings : null
+  );
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [origin, setOrigin] = useState('');
+
+  // Same reason as ShareCard: the copied URL should match the origin the owner is on.
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  const token = settings?.token;
+  const feedUrl = token && origin ? buildFollowingFeedUrl(token, origin, 'rss') : null;
+
+  const handleRotate = async () => {
+    setError(null);
+    setPending(true);
+    try {
+      setSettings(await rotateFeedToken());
+      setCopied(false);
+    } catch (error_) {
+      setError(
+        error_ instanceof ApiError && error_.status === 401
+          ? 'Your session has expired. Sign in again to manage your feed.'
+          : 'Could not update your feed link. Please try again.'
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy automatically — select the link above and copy it.');
+    }
+  };
+
+  if (!read.ok) {
+    return (
+      <Card title="Feed">
+        <p className={styles.hint}>Your feed link is unavailable right now.</p>
+      </Card>
+    );
+  }
+
+  if (!token) {
+    return (
+      <Card title="Feed">
+        <p className={styles.hint}>
+          Get new work from the collections you follow in your feed reader, through a private link
+          only you have.
+        </p>
+        <Button type="button" variant="outline" loading={pending} onClick={handleRotate}>
+          Create a feed link
+        </Button>
+        {error && <FormError>{error}</FormError>}
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Feed">
+      <p className={styles.hint}>
+        Add this link to your feed reader. It is private to you — anyone holding it sees what you
+        follow.
+      </p>
+      {feedUrl && <p className={styles.link}>{feedUrl}</p>}
+      <div className={styles.row}>
+        <Button type="button" variant="outline" onClick={handleCopy} disabled={pending || !feedUrl}>
+          {copied ? 'Copied' : 'Copy link'}
+        </Button>
+        {origin && (
+          <span className={styles.formats}>
+            Also as <a href={buildFollowingFeedUrl(token, origin, 'atom')}>Atom</a> or{' '}
+            <a href={buildFollowingFeedUrl(token, origin, 'json')}>JSON Feed</a>
+          </span>
+        )}
+      </div>
+      <div className={styles.danger}>
+        <p className={styles.hint}>
+          Resetting makes a new link; readers using the old one stop getting updates.
+        </p>
+        <Button type="button" variant="outline" loading={pending} onClick={handleRotate}>
+          Reset feed link
+        </Button>
+      </div>
+      {error && <FormError>{error}</FormError>}
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { MfaEnrollment } from '@/app/components/Mfa/MfaEnrollment';
+import { Card } from '@/app/components/ui/Card/Card';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
+import { getMfaStatus } from '@/app/lib/api/auth';
+import { type MfaStatus } from '@/app/types/Auth';
+
+import { mapAccountError } from './AccountSecurity';
+import styles from './MfaCard.module.scss';
+
+/**
+ * "Two-step verification" card for `/user`: what second factors the account has, and enrollment
+ * for an authenticator app while it has none. Passkeys are listed and managed on the Account card;
+ * here they only count toward whether a second factor exists. Required for admins in production
+ * (see `requireAdmin`), optional for everyone else.
+ */
+export function MfaCard() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setStatus(await getMfaStatus());
+    } catch (error_) {
+      setError(
+        mapAccountError(
+          error_,
+          'manage two-step verification',
+          'Two-step verification settings are unavailable right now.'
+        )
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <Card title="Two-step verification">
+      <LoadingText isLoading={status === null && !error}>Loading…</LoadingText>
+      {error && <FormError>{error}</FormError>}
+      {status?.totpEnabled && (
+        <p className={styles.hint}>
+          On, with an authenticator app. {status.recoveryCodesRemaining}{' '}
+          {status.recoveryCodesRemaining === 1 ? 'recovery code' : 'recovery codes'} left.
+        </p>
+      )}
+      {status && !status.totpEnabled && (
+        <>
+          {status.passkeyCount > 0 && (
+            <p className={styles.hint}>
+              On — your passkeys count as a second step. An authenticator app adds recovery codes
+              for when no passkey device is at hand.
+            </p>
+          )}
+          <MfaEnrollment onEnrolled={() => void load()} />
+        </>
+      )}
+    </Card>
+  );
+}
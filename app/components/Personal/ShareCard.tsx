@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { type FormEvent, useEffect, useMemo, useState } from 'react';
 
 import { Button } from '@/app/components/ui/Button/Button';
 import { Card } from '@/app/components/ui/Card/Card';
@@ -9,13 +9,16 @@ import { ApiError } from '@/app/lib/api/core';
 import {
   addShareCollection,
   buildShareUrl,
+  createShareLink,
   emailShareLink,
   removeShareCollection,
-  rotateShareLink,
+  revokeShareLink,
+  type ShareLink,
   type ShareSettings,
   type ShareSettingsRead,
 } from '@/app/lib/api/share';
 import { type CollectionModel } from '@/app/types/Collection';
+import { formatLongDate } from '@/app/utils/formatDateRange';
 
 import styles from './ShareCard.module.scss';
 
@@ -29,27 +32,326 @@ export interface ShareCardProps {
 
 type Phase = 'idle' | 'pending' | 'error';
 
+type RunAction = (action: () => Promise<void>, fallback: string) => Promise<void>;
+
+const EMPTY_SETTINGS: ShareSettings = {
+  links: [],
+  optedInCollectionIds: [],
+  candidateCollections: [],
+  sharedCollections: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Expiry choices, in days; `0` is "never". Two weeks covers the "send it to a parent" case. */
+const EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never' },
+  { days: 1, label: 'After 1 day' },
+  { days: 7, label: 'After 1 week' },
+  { days: 14, label: 'After 2 weeks' },
+  { days: 30, label: 'After 30 days' },
+] as const;
+
 /** Map a failed share action to user-facing copy. */
 function mapError(error: unknown, fallback: string): string {
   if (error instanceof ApiError) {
-    if (error.status === 401) return 'Your session has expired. Sign in again to manage your link.';
+    if (error.status === 401) {
+      return 'Your session has expired. Sign in again to manage your links.';
+    }
     if (error.status === 409) {
-      return 'This link was created before links could be re-shown. Reset it to get one you can copy.';
+      return 'This link was created before links could be re-shown. Revoke it and create a new one.';
     }
     if (error.status === 403) return 'You no longer have access to that gallery.';
   }
   return fallback;
 }
 
+/** "3 views", "3 of 10 views", plus when it was last opened. */
+function usageLabel(link: ShareLink): string {
+  const count =
+    link.maxViews === null
+      ? `${link.viewCount} ${link.viewCount === 1 ? 'view' : 'views'}`
+      : `${link.viewCount} of ${link.maxViews} views`;
+  return link.lastUsedAt
+    ? `${count} · last opened ${formatLongDate(link.lastUsedAt)}`
+    : `${count} · not opened yet`;
+}
+
+function expiryLabel(link: ShareLink): string {
+  if (!link.expiresAt) return 'Never expires';
+  const date = formatLongDate(link.expiresAt);
+  return link.status === 'expired' ? `Expired ${date}` : `Expires ${date}`;
+}
+
+function scopeLabel(link: ShareLink, collections: CollectionModel[]): string {
+  if (link.collectionIds === null) return 'Shows everything you share';
+  const titles = collections.filter(c => link.collectionIds?.includes(c.id)).map(c => c.title);
+  return titles.length > 0 ? `Shows only ${titles.join(', ')}` : 'Shows none of your galleries';
+}
+
+const STATUS_LABELS: Record<ShareLink['status'], string | null> = {
+  active: null,
+  expired: 'Expired',
+  exhausted: 'View limit reached',
+};
+
+interface ShareLinkItemProps {
+  link: ShareLink;
+  origin: string;
+  /** The owner's shared galleries, to name a narrowed link's scope. */
+  collections: CollectionModel[];
+  busy: boolean;
+  run: RunAction;
+  onRevoked: (linkId: number) => void;
+  onCopyFailed: () => void;
+}
+
+/** One link: its usage, its limits, and the controls for sending or revoking just this one. */
+function ShareLinkItem({
+  link,
+  origin,
+  collections,
+  busy,
+  run,
+  onRevoked,
+  onCopyFailed,
+}: ShareLinkItemProps) {
+  const [copied, setCopied] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const [emailNote, setEmailNote] = useState<string | null>(null);
+
+  const shareUrl = link.token && origin ? buildShareUrl(link.token, origin) : null;
+  const status = STATUS_LABELS[link.status];
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard permission can be refused; the link is on screen and selectable regardless.
+      onCopyFailed();
+    }
+  };
+
+  const handleEmail = () =>
+    run(async () => {
+      setEmailNote(null);
+      const result = await emailShareLink(link.id, recipient.trim());
+      setEmailNote(
+        result.sent
+          ? `Sent to ${recipient.trim()}.`
+          : 'Email is not switched on right now — copy the link and send it yourself.'
+      );
+      setRecipient('');
+    }, 'Could not send that email. Please try again.');
+
+  const handleRevoke = () =>
+    run(async () => {
+      await revokeShareLink(link.id);
+      onRevoked(link.id);
+    }, 'Could not revoke that link. Please try again.');
+
+  return (
+    <li className={styles.linkItem}>
+      <p className={styles.linkName}>
+        {link.name}
+        {status && <span className={styles.status}>{status}</span>}
+      </p>
+      <p className={styles.meta}>{usageLabel(link)}</p>
+      <p className={styles.meta}>
+        {expiryLabel(link)} · {scopeLabel(link, collections)}
+      </p>
+
+      {shareUrl ? (
+        <>
+          <p className={styles.link}>{shareUrl}</p>
+          {link.status === 'active' && (
+            <>
+              <div className={styles.row}>
+                <Button type="button" variant="outline" onClick={handleCopy} disabled={busy}>
+                  {copied ? 'Copied' : 'Copy link'}
+                </Button>
+              </div>
+              <div className={styles.row}>
+                <input
+                  type="email"
+                  className={styles.input}
+                  placeholder="Email it to someone"
+                  aria-label={`Send ${link.name} to this email address`}
+                  value={recipient}
+                  onChange={event => setRecipient(event.target.value)}
+                  disabled={busy}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  loading={busy}
+                  disabled={!recipient.trim()}
+                  onClick={handleEmail}
+                >
+                  Send
+                </Button>
+              </div>
+              {emailNote && <p className={styles.note}>{emailNote}</p>}
+            </>
+          )}
+        </>
+      ) : (
+        <p className={styles.hint}>
+          This link works, but it was created before links could be shown again here. Revoke it and
+          create a new one to get a link you can copy.
+        </p>
+      )}
+
+      <div className={styles.row}>
+        <Button
+          type="button"
+          variant="outline"
+          loading={busy}
+          onClick={handleRevoke}
+          aria-label={`Revoke ${link.name}`}
+        >
+          Revoke
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+interface NewShareLinkFormProps {
+  collections: CollectionModel[];
+  busy: boolean;
+  run: RunAction;
+  onCreated: (link: ShareLink) => void;
+}
+
+/** Name a new link and, optionally, give it an expiry, a view limit and a narrower scope. */
+function NewShareLinkForm({ collections, busy, run, onCreated }: NewShareLinkFormProps) {
+  const [name, setName] = useState('');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [maxViews, setMaxViews] = useState('');
+  const [scope, setScope] = useState<number[]>([]);
+
+  const parsedMaxViews = maxViews.trim() ? Number(maxViews) : null;
+  const maxViewsValid =
+    parsedMaxViews === null || (Number.isInteger(parsedMaxViews) && parsedMaxViews > 0);
+
+  const toggleScope = (collectionId: number, include: boolean) =>
+    setScope(current =>
+      include ? [...current, collectionId] : current.filter(id => id !== collectionId)
+    );
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !maxViewsValid) return;
+    void run(async () => {
+      const link = await createShareLink({
+        name: name.trim(),
+        expiresAt: expiryDays > 0 ? new Date(Date.now() + expiryDays * DAY_MS).toISOString() : null,
+        maxViews: parsedMaxViews,
+        // Nothing ticked means "everything", not "nothing": a link that shows no galleries is
+        // never what someone creating one meant.
+        collectionIds: scope.length > 0 ? scope : null,
+      });
+      onCreated(link);
+      setName('');
+      setExpiryDays(0);
+      setMaxViews('');
+      setScope([]);
+    }, 'Could not create that link. Please try again.');
+  };
+
+  return (
+    <form className={styles.newLink} onSubmit={handleSubmit}>
+      <div className={styles.row}>
+        <input
+          type="text"
+          className={styles.input}
+          placeholder="Who is it for?"
+          aria-label="Link name"
+          value={name}
+          onChange={event => setName(event.target.value)}
+          disabled={busy}
+        />
+      </div>
+      <div className={styles.row}>
+        <label className={styles.fieldLabel}>
+          <span>Expires</span>
+          <select
+            className={styles.input}
+            value={expiryDays}
+            onChange={event => setExpiryDays(Number(event.target.value))}
+            disabled={busy}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.fieldLabel}>
+          <span>View limit</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            className={styles.input}
+            placeholder="No limit"
+            value={maxViews}
+            onChange={event => setMaxViews(event.target.value)}
+            disabled={busy}
+          />
+        </label>
+      </div>
+
+      {collections.length > 1 && (
+        <fieldset className={styles.scope}>
+          <legend className={styles.hint}>
+            Only show some galleries? Leave them all unticked to share everything.
+          </legend>
+          <ul className={styles.optInList}>
+            {collections.map(collection => (
+              <li key={collection.id} className={styles.optInItem}>
+                <label className={styles.optInLabel}>
+                  <input
+                    type="checkbox"
+                    checked={scope.includes(collection.id)}
+                    disabled={busy}
+                    onChange={event => toggleScope(collection.id, event.target.checked)}
+                  />
+                  <span>{collection.title}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </fieldset>
+      )}
+
+      {!maxViewsValid && <FormError>The view limit must be a whole number above zero.</FormError>}
+      <Button
+        type="submit"
+        variant="outline"
+        loading={busy}
+        disabled={!name.trim() || !maxViewsValid}
+      >
+        Create a link
+      </Button>
+    </form>
+  );
+}
+
 /**
- * "Share" card for `/user`: the link the owner hands to a friend, client or parent, plus the
- * controls for sending and revoking it.
+ * "Share" card for `/user`: the links the owner hands to friends, clients and parents, with what
+ * each has been used for and the controls for sending and revoking them.
  *
- * The link is deliberately shown in full and copyable on every visit, not just the one that
- * created it. Sending the same link to a second person months later must not require a reset —
- * a reset cuts off whoever is already using the first copy, which is the failure this whole
- * feature exists to avoid. Reset is therefore presented as the destructive action it is, well
- * away from the everyday copy and email controls.
+ * An owner holds as many links as they like, one per person or purpose, and each can expire,
+ * stop after a number of views, or show only some galleries. That is what makes revoking safe:
+ * cutting off one recipient touches only their link, never everyone else's. Each link is shown in
+ * full and copyable on every visit, not just the one that created it, so sending the same link to
+ * a second person never needs a new one.
  *
  * The opt-in list is off by default and covers only galleries the owner was granted access to but
  * is not tagged in. Tagged-in work is in every share already; a gallery someone else let them into
@@ -59,28 +361,19 @@ export function ShareCard({ read }: ShareCardProps) {
   const [settings, setSettings] = useState<ShareSettings | null>(read.ok ? read.settings : null);
   const [phase, setPhase] = useState<Phase>('idle');
   const [error, setError] = useState<string | null>(null);
-  const [copied, setCopied] = useState(false);
-  const [recipient, setRecipient] = useState('');
-  const [emailNote, setEmailNote] = useState<string | null>(null);
   const [origin, setOrigin] = useState('');
 
   // Read on the client so the copied link matches the origin the owner is actually on — localhost
   // in dev, the real domain in production — without threading a base URL through from the server.
   useEffect(() => setOrigin(window.location.origin), []);
 
-  const shareUrl = useMemo(
-    () => (settings?.token && origin ? buildShareUrl(settings.token, origin) : null),
-    [settings?.token, origin]
-  );
-
   const optedIn = useMemo(
     () => new Set(settings?.optedInCollectionIds ?? []),
     [settings?.optedInCollectionIds]
   );
 
-  const run = async (action: () => Promise<void>, fallback: string) => {
+  const run: RunAction = async (action, fallback) => {
     setError(null);
-    setEmailNote(null);
     setPhase('pending');
     try {
       await action();
@@ -91,40 +384,23 @@ export function ShareCard({ read }: ShareCardProps) {
     }
   };
 
-  const handleCopy = async () => {
-    if (!shareUrl) return;
-    try {
-      await navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch {
-      // Clipboard permission can be refused; the link is on screen and selectable regardless.
-      setError('Could not copy automatically — select the link above and copy it.');
-    }
-  };
+  const handleCreated = (link: ShareLink) =>
+    setSettings(current => ({
+      ...(current ?? EMPTY_SETTINGS),
+      links: [link, ...(current?.links ?? [])],
+    }));
 
-  const handleReset = () =>
-    run(async () => {
-      setSettings(await rotateShareLink());
-      setCopied(false);
-    }, 'Could not reset your link. Please try again.');
+  const handleRevoked = (linkId: number) =>
+    setSettings(current =>
+      current ? { ...current, links: current.links.filter(l => l.id !== linkId) } : current
+    );
 
-  const handleEmail = () =>
-    run(async () => {
-      const result = await emailShareLink(recipient.trim());
-      setEmailNote(
-        result.sent
-          ? `Sent to ${recipient.trim()}.`
-          : 'Email is not switched on right now — copy the link and send it yourself.'
-      );
-      setRecipient('');
-    }, 'Could not send that email. Please try again.');
+  const handleCopyFailed = () =>
+    setError('Could not copy automatically — select the link above and copy it.');
 
   const toggleCollection = (collection: CollectionModel, include: boolean) =>
     run(async () => {
-      await (include
-        ? addShareCollection(collection.id)
-        : removeShareCollection(collection.id));
+      await (include ? addShareCollection(collection.id) : removeShareCollection(collection.id));
       setSettings(current =>
         current
           ? {
@@ -132,10 +408,13 @@ export function ShareCard({ read }: ShareCardProps) {
               optedInCollectionIds: include
                 ? [...current.optedInCollectionIds, collection.id]
                 : current.optedInCollectionIds.filter(id => id !== collection.id),
+              sharedCollections: include
+                ? [...current.sharedCollections, collection]
+                : current.sharedCollections.filter(c => c.id !== collection.id),
             }
           : current
       );
-    }, 'Could not update what your link shows. Please try again.');
+    }, 'Could not update what your links show. Please try again.');
 
   const busy = phase === 'pending';
 
@@ -144,75 +423,56 @@ export function ShareCard({ read }: ShareCardProps) {
   if (!read.ok) {
     return (
       <Card title="Share">
-        <p className={styles.hint}>Your share link is unavailable right now.</p>
+        <p className={styles.hint}>Your share links are unavailable right now.</p>
       </Card>
     );
   }
 
-  if (!settings?.exists) {
-    return (
-      <Card title="Share">
-        <p className={styles.hint}>
-          Create a link that shows your work to anyone you send it to. No account or password
-          needed on their side, and you can turn it off whenever you like.
-        </p>
-        <Button type="button" variant="outline" loading={busy} onClick={handleReset}>
-          Create a link
-        </Button>
-        {error && <FormError>{error}</FormError>}
-      </Card>
-    );
-  }
+  const links = settings?.links ?? [];
+  const sharedCollections = settings?.sharedCollections ?? [];
 
   return (
     <Card title="Share">
-      {shareUrl ? (
+      {links.length === 0 ? (
+        <p className={styles.hint}>
+          Create a link that shows your work to anyone you send it to. No account or password needed
+          on their side, and you can turn it off whenever you like.
+        </p>
+      ) : (
         <>
           <p className={styles.hint}>
-            Anyone with this link can see your work. The same link keeps working until you reset
-            it, so you can send it to as many people as you like.
+            Anyone with one of these links can see your work. Revoking a link stops only that one —
+            everyone using your other links keeps access.
           </p>
-          <p className={styles.link}>{shareUrl}</p>
-          <div className={styles.row}>
-            <Button type="button" variant="outline" onClick={handleCopy} disabled={busy}>
-              {copied ? 'Copied' : 'Copy link'}
-            </Button>
-          </div>
-
-          <div className={styles.row}>
-            <input
-              type="email"
-              className={styles.input}
-              placeholder="Email it to someone"
-              aria-label="Send the link to this email address"
-              value={recipient}
-              onChange={event => setRecipient(event.target.value)}
-              disabled={busy}
-            />
-            <Button
-              type="button"
-              variant="outline"
-              loading={busy}
-              disabled={!recipient.trim()}
-              onClick={handleEmail}
-            >
-              Send
-            </Button>
-          </div>
-          {emailNote && <p className={styles.note}>{emailNote}</p>}
+          <ul className={styles.links}>
+            {links.map(link => (
+              <ShareLinkItem
+                key={link.id}
+                link={link}
+                origin={origin}
+                collections={sharedCollections}
+                busy={busy}
+                run={run}
+                onRevoked={handleRevoked}
+                onCopyFailed={handleCopyFailed}
+              />
+            ))}
+          </ul>
         </>
-      ) : (
-        <p className={styles.hint}>
-          Your link is active, but it was created before links could be shown again here. Reset it
-          to get one you can copy.
-        </p>
       )}
 
-      {settings.candidateCollections.length > 0 && (
+      <NewShareLinkForm
+        collections={sharedCollections}
+        busy={busy}
+        run={run}
+        onCreated={handleCreated}
+      />
+
+      {settings && settings.candidateCollections.length > 0 && (
         <div className={styles.optIns}>
           <p className={styles.hint}>
             Galleries you were given access to are not shared by default. Add any you want your
-            link to include.
+            links to include.
           </p>
           <ul className={styles.optInList}>
             {settings.candidateCollections.map(collection => (
@@ -232,16 +492,6 @@ export function ShareCard({ read }: ShareCardProps) {
         </div>
       )}
 
-      <div className={styles.danger}>
-        <p className={styles.hint}>
-          Resetting makes a new link and stops the old one working — anyone still using it will
-          lose access.
-        </p>
-        <Button type="button" variant="outline" loading={busy} onClick={handleReset}>
-          Reset link
-        </Button>
-      </div>
-
       {error && <FormError>{error}</FormError>}
     </Card>
   );
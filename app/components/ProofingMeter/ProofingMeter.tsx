@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useSelects } from '@/app/components/ContentCollection/SelectsContext';
+import { Button } from '@/app/components/ui/Button/Button';
+import { ApiError } from '@/app/lib/api/core';
+import { formatLongDate } from '@/app/utils/formatDateRange';
+
+import styles from './ProofingMeter.module.scss';
+
+/** Map a failed submit to user-facing copy. */
+function mapError(error: unknown): string {
+  if (error instanceof ApiError) {
+    if (error.status === 401) return 'Your session has expired. Sign in again to submit.';
+    if (error.status === 409) return 'These picks were already submitted.';
+    if (error.status === 400) return 'Pick at least one image before submitting.';
+  }
+  return 'Could not submit your picks. Please try again.';
+}
+
+/** How far the current pick count is from the target, or null when it is on it. */
+function targetHint(picked: number, target: number): string | null {
+  if (picked < target) return `${target - picked} more to go.`;
+  if (picked > target) return `${picked - target} over — you can still submit.`;
+  return null;
+}
+
+/**
+ * Client proofing progress, in the collection's header rail beside the download row.
+ *
+ * Renders only when the mounted SelectsProvider carries a proofing target — i.e. a client gallery
+ * the admin asked to be proofed, viewed by one of its clients. The picks themselves are the
+ * viewer's Selects (the star on each image); this shows how many of the target are chosen and
+ * submits them as final. The target is guidance, not a gate: a client who loves 27 of the 25 can
+ * still submit, and the admin sees exactly what they chose.
+ *
+ * Once submitted the meter reads as a receipt and the stars lock (see `SelectsProvider`). Changing
+ * the picks after that goes through the admin, who can reopen proofing from the review page.
+ */
+export default function ProofingMeter() {
+  const selects = useSelects();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!selects?.proofing) return null;
+
+  const { target, submittedAt } = selects.proofing;
+  const picked = selects.selectedIds.size;
+  const hint = targetHint(picked, target);
+
+  const handleSubmit = () => {
+    setSubmitting(true);
+    setError(null);
+    selects
+      .submit()
+      .catch((error_: unknown) => setError(mapError(error_)))
+      .finally(() => setSubmitting(false));
+  };
+
+  return (
+    <div className={styles.proofingContainer}>
+      <span className={styles.sectionLabel}>Proofing</span>
+      <div className={styles.progressRow}>
+        <progress
+          className={styles.meter}
+          value={Math.min(picked, target)}
+          max={target}
+          aria-label="Picks chosen"
+        />
+        <span className={styles.count} aria-live="polite">
+          {picked} of {target} picked
+        </span>
+      </div>
+      {submittedAt ? (
+        <span className={styles.hint}>Picks submitted on {formatLongDate(submittedAt)}.</span>
+      ) : (
+        <>
+          {hint && <span className={styles.hint}>{hint}</span>}
+          <Button
+            className={styles.submitButton}
+            size="sm"
+            onClick={handleSubmit}
+            loading={submitting}
+            disabled={picked === 0}
+          >
+            Submit final picks
+          </Button>
+        </>
+      )}
+      {error && (
+        <span className={styles.error} role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from '@/app/components/ui/Button/Button';
 import { FormError } from '@/app/components/ui/Field/FormError';
 import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
 import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
+import { useStepUp } from '@/app/hooks/useStepUp';
 import { getAllCollectionsAdmin } from '@/app/lib/api/collections';
 import {
   addRoleMember,
@@ -59,6 +60,7 @@ function userLabel(user: AdminUserSummary): string {
 export function RoleDetailView({ role, onDeleted }: RoleDetailViewProps) {
   const [detail, setDetail] = useState<RoleDetail | null>(null);
   const [loading, setLoading] = useState(true);
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [loadError, setLoadError] = useState<string | null>(null);
   const [collections, setCollections] = useState<CollectionModel[]>([]);
   const [users, setUsers] = useState<AdminUserSummary[]>([]);
@@ -164,7 +166,7 @@ export function RoleDetailView({ role, onDeleted }: RoleDetailViewProps) {
     if (!window.confirm(`Delete role “${role.name}”? Everyone in it loses that access.`)) return;
     setError(null);
     try {
-      await deleteRole(role.id);
+      await withStepUp(() => deleteRole(role.id));
       onDeleted();
     } catch {
       setError('Failed to delete the role.');
@@ -293,6 +295,7 @@ export function RoleDetailView({ role, onDeleted }: RoleDetailViewProps) {
           </div>
         </>
       )}
+      {stepUpDialog}
     </div>
   );
 }
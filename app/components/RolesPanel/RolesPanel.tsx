@@ -23,6 +23,7 @@ import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
 import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
 import { StaleNotice } from '@/app/components/ui/StatusText/StaleNotice';
 import { useCachedPanelData } from '@/app/hooks/useCachedPanelData';
+import { useStepUp } from '@/app/hooks/useStepUp';
 import { ApiError } from '@/app/lib/api/core';
 import { createRole, deleteRole, listRoles } from '@/app/lib/api/roles';
 import { type RoleSummary } from '@/app/types/Role';
@@ -90,6 +91,7 @@ export function RolesPanel({ collapsed, onCollapsedChange }: RolesPanelProps) {
   const searchParams = useSearchParams();
   const [view, setView] = useState<View>({ mode: 'list' });
   const [deletingId, setDeletingId] = useState<number | null>(null);
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [createError, setCreateError] = useState<string | null>(null);
@@ -186,7 +188,7 @@ export function RolesPanel({ collapsed, onCollapsedChange }: RolesPanelProps) {
     const previous = roles;
     setRoles(current => current.filter(r => r.id !== role.id));
     try {
-      await deleteRole(role.id);
+      await withStepUp(() => deleteRole(role.id));
     } catch (error) {
       logger.error('RolesPanel', 'Failed to delete role', error);
       setRoles(previous);
@@ -295,6 +297,7 @@ export function RolesPanel({ collapsed, onCollapsedChange }: RolesPanelProps) {
       {view.mode === 'list' && !loading && !loadError && revalidationFailed && <StaleNotice />}
 
       {view.mode === 'list' && listBody}
+      {stepUpDialog}
     </ListPanel>
   );
 }
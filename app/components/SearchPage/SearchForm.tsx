@@ -0,0 +1,74 @@
+'use client';
+
+import { type FormEvent, useId, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Field } from '@/app/components/ui/Field/Field';
+import { Input } from '@/app/components/ui/Field/Input';
+import { type SearchScopeCriteria } from '@/app/utils/contentFilter';
+
+import styles from './SearchPage.module.scss';
+
+interface SearchFormProps {
+  /** The scope the current results were searched with; seeds the fields. */
+  scope: SearchScopeCriteria;
+  onSubmit: (scope: SearchScopeCriteria) => void;
+}
+
+/**
+ * Free text plus capture-date range for `/search`. Submitting starts a NEW search — the caller
+ * navigates, the server re-runs the query — so the fields are local until then. Collections
+ * scoped in from the URL are carried through untouched; there is no control for them here.
+ */
+export function SearchForm({ scope, onSubmit }: SearchFormProps) {
+  const id = useId();
+  const [query, setQuery] = useState(scope.query ?? '');
+  const [dateFrom, setDateFrom] = useState(scope.dateFrom ?? '');
+  const [dateTo, setDateTo] = useState(scope.dateTo ?? '');
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = query.trim();
+    onSubmit({
+      ...(trimmed ? { query: trimmed } : {}),
+      ...(dateFrom ? { dateFrom } : {}),
+      ...(dateTo ? { dateTo } : {}),
+      ...(scope.collectionIds?.length ? { collectionIds: scope.collectionIds } : {}),
+    });
+  };
+
+  return (
+    <form role="search" className={styles.form} onSubmit={handleSubmit}>
+      <Field label="Search" htmlFor={`${id}-q`} className={styles.queryField}>
+        <Input
+          id={`${id}-q`}
+          type="search"
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder="Title, tag, person, place…"
+        />
+      </Field>
+      <Field label="From" htmlFor={`${id}-from`}>
+        <Input
+          id={`${id}-from`}
+          type="date"
+          value={dateFrom}
+          max={dateTo || undefined}
+          onChange={event => setDateFrom(event.target.value)}
+        />
+      </Field>
+      <Field label="To" htmlFor={`${id}-to`}>
+        <Input
+          id={`${id}-to`}
+          type="date"
+          value={dateTo}
+          min={dateFrom || undefined}
+          onChange={event => setDateTo(event.target.value)}
+        />
+      </Field>
+      <Button type="submit" size="sm" className={styles.submit}>
+        Search
+      </Button>
+    </form>
+  );
+}
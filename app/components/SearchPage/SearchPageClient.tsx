@@ -0,0 +1,309 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import CollectionPage from '@/app/components/ContentCollection/CollectionPage';
+import { FilterToolbar } from '@/app/components/ui/FilterToolbar/FilterToolbar';
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
+import { useInViewport } from '@/app/hooks/inViewport';
+import { useFilterUrlState } from '@/app/hooks/useFilterUrlState';
+import { type ImagePageFetcher, useImageBrowser } from '@/app/hooks/useImageBrowser';
+import { type PagedImages, searchImagesPage, type SearchImagesParams } from '@/app/lib/api/content';
+import { type CollectionModel } from '@/app/types/Collection';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import { type ContentImageModel } from '@/app/types/Content';
+import { type FilterState, INITIAL_FILTER_STATE } from '@/app/types/GalleryFilter';
+import {
+  applyActiveOverride,
+  buildSearchCriteria,
+  computeFilterCounts,
+  computeFilterVisibility,
+  expressionTextFromCriteria,
+  extractFilterOptions,
+  filmFilterFromIsFilm,
+  filterContent,
+  type FilterCounts,
+  pickSearchScope,
+  type SearchScopeCriteria,
+  serializeFilterToParams,
+} from '@/app/utils/contentFilter';
+import { logger } from '@/app/utils/logger';
+import { sortByDate } from '@/app/utils/sortByDate';
+import { type SsrViewport } from '@/app/utils/ssrViewport';
+
+import { SearchForm } from './SearchForm';
+import styles from './SearchPage.module.scss';
+
+/**
+ * What the server-side search resolved to. `invalid` is the backend (or the route) rejecting the
+ * criteria themselves — the viewer can fix it in the form; `unavailable` is everything else, and
+ * must never render as "no results" (see {@link EmptyState}).
+ */
+export type SearchOutcome =
+  | { status: 'ok'; page: PagedImages }
+  | { status: 'invalid'; message: string }
+  | { status: 'unavailable' };
+
+interface SearchPageClientProps {
+  outcome: SearchOutcome;
+  /** Backend params the first page was fetched with; later pages reuse them. */
+  scope: SearchImagesParams;
+  ssrViewport?: SsrViewport;
+}
+
+const EMPTY_PAGE: PagedImages = {
+  items: [],
+  page: 0,
+  totalPages: 0,
+  totalElements: 0,
+  isLast: true,
+};
+
+const ZERO_COUNTS: FilterCounts = {
+  highlyRated: 0,
+  film: 0,
+  digital: 0,
+  collections: {},
+  tags: {},
+  people: {},
+  cameras: {},
+  lenses: {},
+  locations: {},
+};
+
+/**
+ * Client half of `/search`. The route runs the scope (text, dates, collections) server-side and
+ * seeds page 0; this component pages the rest in with {@link useImageBrowser} exactly as
+ * `AllImagesClient` does, and refines the loaded results with the shared {@link FilterToolbar}.
+ *
+ * Facet counts come from {@link computeFilterCounts} over the LOADED results, so they grow as
+ * pages arrive — they describe what is on this page, not the whole index. Results render through
+ * {@link CollectionPage} as a synthetic ORDERED collection; its own filter bar is suppressed and
+ * the search controls take its place in the header rail.
+ *
+ * The route keys this component on the scope, so a new search remounts it with fresh paging, while
+ * a facet toggle (a same-scope URL write) keeps the pages already loaded.
+ */
+export default function SearchPageClient({ outcome, scope, ssrViewport }: SearchPageClientProps) {
+  const router = useRouter();
+  const { initialCriteria, syncToUrl } = useFilterUrlState();
+  const searchScope = useMemo(() => pickSearchScope(initialCriteria), [initialCriteria]);
+
+  const fetchPage = useCallback<ImagePageFetcher>(
+    (page, size) => searchImagesPage({ ...scope, page, size }),
+    [scope]
+  );
+  const { items, loadNext, isLoading, isDone, error } = useImageBrowser(
+    outcome.status === 'ok' ? outcome.page : EMPTY_PAGE,
+    fetchPage
+  );
+
+  const [filterState, setFilterState] = useState<FilterState>(() => ({
+    ...INITIAL_FILTER_STATE,
+    highlyRatedOnly: initialCriteria.minRating !== undefined && initialCriteria.minRating >= 4,
+    filmFilter: filmFilterFromIsFilm(initialCriteria.isFilm),
+    selectedTags: initialCriteria.tags ?? [],
+    selectedPeople: initialCriteria.people ?? [],
+    selectedCameras: initialCriteria.cameras ?? [],
+    selectedLocations: initialCriteria.locations ?? [],
+    expression: expressionTextFromCriteria(initialCriteria),
+  }));
+
+  const criteria = useMemo(() => buildSearchCriteria(filterState), [filterState]);
+  const availableOptions = useMemo(() => extractFilterOptions(items), [items]);
+
+  const baseVisibility = useMemo(() => computeFilterVisibility(items), [items]);
+  const visibility = useMemo(
+    () => applyActiveOverride(baseVisibility, filterState),
+    [baseVisibility, filterState]
+  );
+
+  const filterCounts: FilterCounts = useMemo(() => {
+    try {
+      return computeFilterCounts(items, criteria, availableOptions);
+    } catch (error_) {
+      logger.error('SearchPageClient', 'Failed to compute filter counts', error_);
+      return ZERO_COUNTS;
+    }
+  }, [items, criteria, availableOptions]);
+
+  const filteredImages = useMemo(() => {
+    const filtered = filterContent(items, criteria).filter(
+      (item): item is ContentImageModel => item.contentType === 'IMAGE'
+    );
+    if (filterState.dateSortDirection === 'off') return filtered;
+    return sortByDate(filtered, filterState.dateSortDirection);
+  }, [items, criteria, filterState.dateSortDirection]);
+
+  const handleFilterChange = useCallback(
+    (update: Partial<FilterState>) => {
+      setFilterState(prev => {
+        const next = { ...prev, ...update };
+        // The scope rides along: syncToUrl clears every filter key it owns, `q` included.
+        syncToUrl({ ...searchScope, ...buildSearchCriteria(next) });
+        return next;
+      });
+    },
+    [syncToUrl, searchScope]
+  );
+
+  const handleSearch = useCallback(
+    (nextScope: SearchScopeCriteria) => {
+      // A new search is a new result set: facets chosen against the old one are dropped, and the
+      // navigation gets its own history entry so Back returns to the previous search.
+      const qs = serializeFilterToParams(nextScope).toString();
+      router.push(qs ? `/search?${qs}` : '/search');
+    },
+    [router]
+  );
+
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { isVisible: sentinelVisible } = useInViewport(sentinelRef, {
+    rootMargin: '100% 0px',
+  });
+
+  // A narrow facet can leave the sentinel on screen page after page; that is intended — it keeps
+  // loading until the refinement has something to show or the results run out.
+  useEffect(() => {
+    if (outcome.status === 'ok' && sentinelVisible && !isLoading && !isDone) {
+      loadNext();
+    }
+  }, [outcome.status, sentinelVisible, isLoading, isDone, loadNext]);
+
+  const orderedItems = useMemo(
+    () => filteredImages.map((item, index) => ({ ...item, orderIndex: index })),
+    [filteredImages]
+  );
+
+  const resultsCollection: CollectionModel = useMemo(
+    () => ({
+      id: 0,
+      isClient: false,
+      isBlog: false,
+      title: 'Search',
+      slug: 'search',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      visibility: CollectionVisibility.LISTED,
+      displayMode: 'ORDERED',
+      contentPerPage: Number.MAX_SAFE_INTEGER,
+      content: orderedItems,
+      contentCount: orderedItems.length,
+      locations: [],
+    }),
+    [orderedItems]
+  );
+
+  const rail = (
+    <div className={styles.rail}>
+      <SearchForm scope={searchScope} onSubmit={handleSearch} />
+      {outcome.status === 'invalid' && (
+        <p className={styles.invalid} role="alert">
+          {outcome.message}
+        </p>
+      )}
+      {outcome.status === 'ok' && items.length > 0 && (
+        <FilterToolbar
+          filterState={filterState}
+          onFilterChange={handleFilterChange}
+          dimensions={{
+            ...(visibility.tags
+              ? {
+                  selectedTags: {
+                    label: 'Tags',
+                    options: availableOptions.tags,
+                    counts: filterCounts.tags,
+                  },
+                }
+              : {}),
+            ...(visibility.people
+              ? {
+                  selectedPeople: {
+                    label: 'People',
+                    options: availableOptions.people,
+                    counts: filterCounts.people,
+                  },
+                }
+              : {}),
+            ...(visibility.locations
+              ? {
+                  selectedLocations: {
+                    label: 'Locations',
+                    options: availableOptions.locations,
+                    counts: filterCounts.locations,
+                  },
+                }
+              : {}),
+            ...(visibility.cameras
+              ? {
+                  selectedCameras: {
+                    label: 'Cameras',
+                    options: availableOptions.cameras,
+                    counts: filterCounts.cameras,
+                  },
+                }
+              : {}),
+          }}
+          counts={{
+            highlyRated: filterCounts.highlyRated,
+            film: filterCounts.film,
+            digital: filterCounts.digital,
+          }}
+          showDateSort={visibility.dateSort}
+          showHighlyRated={visibility.highlyRated}
+          showFilm={visibility.film}
+          showExpression
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <CollectionPage
+        collection={resultsCollection}
+        chunkSize={4}
+        ssrViewport={ssrViewport}
+        railExtras={rail}
+        suppressFilterBar
+      />
+
+      {outcome.status === 'unavailable' && (
+        <div className={styles.status} role="alert">
+          Search is unavailable right now.{' '}
+          <button type="button" className={styles.retry} onClick={() => router.refresh()}>
+            Retry
+          </button>
+        </div>
+      )}
+
+      {outcome.status === 'ok' && (
+        <>
+          {isDone && items.length === 0 && (
+            <EmptyState align="page">No images match this search.</EmptyState>
+          )}
+          {isDone && items.length > 0 && filteredImages.length === 0 && (
+            <EmptyState align="page">No images match the current filters.</EmptyState>
+          )}
+
+          <div ref={sentinelRef} className={styles.sentinel} aria-hidden />
+
+          <LoadingText isLoading={isLoading} align="page">
+            Loading more…
+          </LoadingText>
+
+          {error && (
+            <div className={styles.status} role="alert">
+              Failed to load more results.{' '}
+              <button type="button" className={styles.retry} onClick={loadNext}>
+                Retry
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
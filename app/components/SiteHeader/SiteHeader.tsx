@@ -11,6 +11,8 @@ import styles from './SiteHeader.module.scss';
 interface SiteHeaderProps {
   pageType?: 'default' | 'manage' | 'collection' | 'collectionsCollection';
   collectionSlug?: string;
+  /** Id of the collection on screen; lets its collaborators reach the edit surface. */
+  collectionId?: number;
 }
 
 /**
@@ -23,7 +25,11 @@ interface SiteHeaderProps {
  * the overlay is mounted — pointing it at an id that is not in the document would be an invalid
  * ARIA reference.
  */
-export function SiteHeader({ pageType = 'default', collectionSlug }: SiteHeaderProps) {
+export function SiteHeader({
+  pageType = 'default',
+  collectionSlug,
+  collectionId,
+}: SiteHeaderProps) {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const menuId = useId();
 
@@ -60,6 +66,7 @@ export function SiteHeader({ pageType = 'default', collectionSlug }: SiteHeaderP
         onClose={closeMenu}
         pageType={pageType}
         collectionSlug={collectionSlug}
+        collectionId={collectionId}
       />
     </>
   );
@@ -0,0 +1,330 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { type FormEvent, useState } from 'react';
+
+import { revalidateMetadataCache } from '@/app/components/ContentCollection/edit/collectionEditUtils';
+import { Button } from '@/app/components/ui/Button/Button';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Input } from '@/app/components/ui/Field/Input';
+import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
+import { ApiError } from '@/app/lib/api/core';
+import {
+  addTaxonomyAlias,
+  deleteTaxonomyEntity,
+  removeTaxonomyAlias,
+  renameTaxonomyEntity,
+} from '@/app/lib/api/taxonomy';
+import { type IdNameModel } from '@/app/types/Metadata';
+import {
+  type TaxonomyAlias,
+  type TaxonomyEntityDetail,
+  type TaxonomyKind,
+} from '@/app/types/Taxonomy';
+import { logger } from '@/app/utils/logger';
+
+import styles from './TaxonomyConsole.module.scss';
+import { TAXONOMY_KINDS, taxonomyHref, taxonomyPublicHref } from './taxonomyKinds';
+import { TaxonomyMergeModal } from './TaxonomyMergeModal';
+
+export interface TaxonomyEntityConsoleProps {
+  kind: TaxonomyKind;
+  entity: TaxonomyEntityDetail;
+  /** Every other entity of the same kind, for the merge picker. */
+  candidates: IdNameModel[];
+}
+
+/** Which mutation is in flight; one at a time, so the controls disable together. */
+type Busy = 'rename' | 'alias' | 'delete' | null;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Admin console for one vocabulary entry — a tag, person, location, camera, lens or film stock —
+ * reached from its row on `/metadata`; the route supplies the `PageShell`. Shows what carries it
+ * (image and collection counts, a strip of sample thumbnails) and the four cleanups that used to
+ * mean editing images one by one:
+ *
+ * - **Rename.** The backend re-slugs and keeps the old slug, so `/tag/[slug]` and
+ *   `/location/[slug]` links to the old name redirect instead of 404ing.
+ * - **Aliases.** Alternate names ("Portra400") that resolve to this entry — when tagging, and in
+ *   public URLs via `resolveTaxonomyBySlug`.
+ * - **Merge into** another entry of the same kind, through {@link TaxonomyMergeModal}. The survivor
+ *   inherits the source's images and its name as an alias; the console follows it there.
+ * - **Delete**, only once nothing carries the entry. The backend refuses an in-use delete with a
+ *   409 either way; disabling the button just says so before the click.
+ *
+ * Every mutation revalidates the metadata cache tags, so the public pages and the editors' pick
+ * lists see the change on their next read.
+ */
+export function TaxonomyEntityConsole({
+  kind,
+  entity: initialEntity,
+  candidates,
+}: TaxonomyEntityConsoleProps) {
+  const router = useRouter();
+  const [entity, setEntity] = useState(initialEntity);
+  const [name, setName] = useState(initialEntity.name);
+  const [aliasName, setAliasName] = useState('');
+  const [busy, setBusy] = useState<Busy>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
+
+  const { title, noun } = TAXONOMY_KINDS[kind];
+  const publicHref = taxonomyPublicHref(kind, entity.slug);
+  const inUse = entity.imageCount > 0 || entity.collectionCount > 0;
+  const trimmedName = name.trim();
+
+  const handleRename = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!trimmedName || trimmedName === entity.name || busy) return;
+    setBusy('rename');
+    setError(null);
+    try {
+      const updated = await renameTaxonomyEntity(kind, entity.id, trimmedName);
+      setEntity(updated);
+      setName(updated.name);
+      void revalidateMetadataCache();
+    } catch (error_) {
+      logger.error('TaxonomyEntityConsole', `Failed to rename ${kind} ${entity.id}`, error_);
+      setError(
+        error_ instanceof ApiError && error_.status === 409
+          ? `Another ${noun} is already called “${trimmedName}” — merge into it instead.`
+          : `Failed to rename '${entity.name}'.`
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAddAlias = async (e: FormEvent) => {
+    e.preventDefault();
+    const alias = aliasName.trim();
+    if (!alias || busy) return;
+    setBusy('alias');
+    setError(null);
+    try {
+      const added = await addTaxonomyAlias(kind, entity.id, alias);
+      setEntity(prev => ({ ...prev, aliases: [...prev.aliases, added] }));
+      setAliasName('');
+      void revalidateMetadataCache();
+    } catch (error_) {
+      logger.error('TaxonomyEntityConsole', `Failed to add alias to ${kind} ${entity.id}`, error_);
+      setError(
+        error_ instanceof ApiError && error_.status === 409
+          ? `“${alias}” is already the name or an alias of another ${noun}.`
+          : `Failed to add the alias '${alias}'.`
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemoveAlias = async (alias: TaxonomyAlias) => {
+    if (busy) return;
+    setBusy('alias');
+    setError(null);
+    try {
+      await removeTaxonomyAlias(kind, entity.id, alias.id);
+      setEntity(prev => ({ ...prev, aliases: prev.aliases.filter(a => a.id !== alias.id) }));
+      void revalidateMetadataCache();
+    } catch (error_) {
+      logger.error('TaxonomyEntityConsole', `Failed to remove alias ${alias.id}`, error_);
+      setError(`Failed to remove the alias '${alias.name}'.`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (inUse || busy || !window.confirm(`Delete '${entity.name}'?`)) return;
+    setBusy('delete');
+    setError(null);
+    try {
+      await deleteTaxonomyEntity(kind, entity.id);
+      void revalidateMetadataCache();
+      router.push('/metadata');
+    } catch (error_) {
+      logger.error('TaxonomyEntityConsole', `Failed to delete ${kind} ${entity.id}`, error_);
+      setError(
+        error_ instanceof ApiError && error_.status === 409
+          ? `'${entity.name}' is still in use — merge it into another ${noun} instead.`
+          : `Failed to delete '${entity.name}'.`
+      );
+      setBusy(null);
+    }
+  };
+
+  return (
+    <>
+      <div className={styles.header}>
+        <Link href="/metadata" className={styles.back}>
+          ← {title}
+        </Link>
+        <h1 className={styles.pageTitle}>{entity.name}</h1>
+        <span className={styles.usage}>
+          {plural(entity.imageCount, 'image')} · {plural(entity.collectionCount, 'collection')}
+          {publicHref && (
+            <>
+              {' · '}
+              <Link href={publicHref} className={styles.publicLink}>
+                {publicHref}
+              </Link>
+            </>
+          )}
+        </span>
+      </div>
+
+      <div className={styles.sections}>
+        <section className={styles.section} aria-labelledby="taxonomy-samples">
+          <h2 id="taxonomy-samples" className={styles.sectionTitle}>
+            Images
+          </h2>
+          {entity.sampleImages.length === 0 ? (
+            <EmptyState>No images carry this {noun}.</EmptyState>
+          ) : (
+            <ul className={styles.samples}>
+              {entity.sampleImages.map(image => (
+                <li key={image.id} className={styles.sample}>
+                  <Image
+                    src={image.imageUrl}
+                    alt={image.alt ?? image.title ?? ''}
+                    fill
+                    sizes="8rem"
+                    className={styles.sampleImg}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className={styles.section} aria-labelledby="taxonomy-rename">
+          <h2 id="taxonomy-rename" className={styles.sectionTitle}>
+            Name
+          </h2>
+          <form className={styles.inlineForm} onSubmit={e => void handleRename(e)}>
+            <Input aria-label="Name" value={name} onChange={e => setName(e.target.value)} />
+            <Button
+              type="submit"
+              variant="secondary"
+              size="sm"
+              loading={busy === 'rename'}
+              disabled={busy !== null || !trimmedName || trimmedName === entity.name}
+            >
+              Rename
+            </Button>
+          </form>
+          {publicHref && (
+            <p className={styles.hint}>
+              Renaming changes the public URL. Links to {publicHref} keep working — they redirect to
+              the new one.
+            </p>
+          )}
+          {publicHref && entity.previousSlugs.length > 0 && (
+            <p className={styles.hint}>
+              Also redirects here:{' '}
+              {entity.previousSlugs
+                .map(slug => taxonomyPublicHref(kind, slug))
+                .filter(Boolean)
+                .join(', ')}
+            </p>
+          )}
+        </section>
+
+        <section className={styles.section} aria-labelledby="taxonomy-aliases">
+          <h2 id="taxonomy-aliases" className={styles.sectionTitle}>
+            Aliases
+          </h2>
+          {entity.aliases.length > 0 && (
+            <ul className={styles.aliases}>
+              {entity.aliases.map(alias => (
+                <li key={alias.id} className={styles.alias}>
+                  <span>{alias.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Remove alias ${alias.name}`}
+                    disabled={busy !== null}
+                    onClick={() => void handleRemoveAlias(alias)}
+                  >
+                    ×
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form className={styles.inlineForm} onSubmit={e => void handleAddAlias(e)}>
+            <Input
+              aria-label="New alias"
+              placeholder={`Another name for this ${noun}`}
+              value={aliasName}
+              onChange={e => setAliasName(e.target.value)}
+            />
+            <Button
+              type="submit"
+              variant="secondary"
+              size="sm"
+              loading={busy === 'alias'}
+              disabled={busy !== null || !aliasName.trim()}
+            >
+              Add
+            </Button>
+          </form>
+        </section>
+
+        <section className={styles.section} aria-labelledby="taxonomy-cleanup">
+          <h2 id="taxonomy-cleanup" className={styles.sectionTitle}>
+            Merge or delete
+          </h2>
+          <div className={styles.cleanup}>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={busy !== null || candidates.length === 0}
+              onClick={() => setMergeOpen(true)}
+            >
+              Merge into…
+            </Button>
+            <Button
+              variant="danger"
+              size="sm"
+              loading={busy === 'delete'}
+              disabled={busy !== null || inUse}
+              onClick={() => void handleDelete()}
+            >
+              Delete
+            </Button>
+          </div>
+          {inUse && (
+            <p className={styles.hint}>
+              Only an unused {noun} can be deleted. Merge it into another {noun} to move its images
+              over first.
+            </p>
+          )}
+        </section>
+
+        <FormError>{error}</FormError>
+      </div>
+
+      {mergeOpen && (
+        <TaxonomyMergeModal
+          kind={kind}
+          source={entity}
+          candidates={candidates}
+          open={mergeOpen}
+          onClose={() => setMergeOpen(false)}
+          onMerged={result => {
+            setMergeOpen(false);
+            void revalidateMetadataCache();
+            router.push(taxonomyHref(kind, result.target.id));
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+export default TaxonomyEntityConsole;
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Modal } from '@/app/components/ui/Modal/Modal';
+import { useStepUp } from '@/app/hooks/useStepUp';
+import { ApiError } from '@/app/lib/api/core';
+import { getTaxonomyMergePreview, mergeTaxonomyEntity } from '@/app/lib/api/taxonomy';
+import { type IdNameModel } from '@/app/types/Metadata';
+import {
+  type TaxonomyKind,
+  type TaxonomyMergePreview,
+  type TaxonomyMergeResult,
+} from '@/app/types/Taxonomy';
+
+import styles from './TaxonomyConsole.module.scss';
+import { TAXONOMY_KINDS } from './taxonomyKinds';
+
+export interface TaxonomyMergeModalProps {
+  kind: TaxonomyKind;
+  /** The entity being absorbed — the one whose console opened the modal. */
+  source: IdNameModel;
+  /** Candidate survivors: every other entity of the same kind. */
+  candidates: IdNameModel[];
+  open: boolean;
+  onClose: () => void;
+  onMerged: (result: TaxonomyMergeResult) => void;
+}
+
+/**
+ * Confirmation modal for folding one vocabulary entry into another — "Portra400" into "Kodak
+ * Portra 400". Same shape as {@link MergeIdentityModal}: a native `<select>` survivor-picker loads a
+ * {@link getTaxonomyMergePreview} on change, and confirming calls {@link mergeTaxonomyEntity} then
+ * `onMerged`. The source row is deleted, so the merge goes through {@link useStepUp}.
+ */
+export function TaxonomyMergeModal({
+  kind,
+  source,
+  candidates,
+  open,
+  onClose,
+  onMerged,
+}: TaxonomyMergeModalProps) {
+  const [targetId, setTargetId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<TaxonomyMergePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { withStepUp, stepUpDialog } = useStepUp();
+  const noun = TAXONOMY_KINDS[kind].noun;
+
+  const loadPreview = async (id: number) => {
+    setTargetId(id || null);
+    setPreview(null);
+    setError(null);
+    if (!id) return;
+    setLoading(true);
+    try {
+      const result = await getTaxonomyMergePreview(kind, source.id, id);
+      if (result == null) {
+        setError(`That ${noun} no longer exists — refresh the page.`);
+        return;
+      }
+      setPreview(result);
+    } catch {
+      setError(`Could not load a preview for that ${noun}.`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirm = async () => {
+    if (targetId == null) return;
+    setLoading(true);
+    setError(null);
+    try {
+      onMerged(await withStepUp(() => mergeTaxonomyEntity(kind, targetId, source.id)));
+    } catch (error_) {
+      setError(
+        error_ instanceof ApiError && error_.status === 409
+          ? `That merge is not allowed — pick a different ${noun}.`
+          : 'Merge failed. Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} variant="overlay" labelledBy="taxonomy-merge-title">
+      <div className={styles.mergeCard}>
+        <h2 id="taxonomy-merge-title" className={styles.mergeTitle}>
+          Merge “{source.name}” into…
+        </h2>
+        <label className={styles.mergeField}>
+          <span>Keep this {noun}:</span>
+          <select
+            className={styles.mergeSelect}
+            value={targetId ?? ''}
+            onChange={e => void loadPreview(Number(e.target.value))}
+          >
+            <option value="">Select a {noun}…</option>
+            {candidates.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {loading && <p className={styles.muted}>Working…</p>}
+        {error && <FormError>{error}</FormError>}
+        {preview && !loading && (
+          <p className={styles.mergePreview}>
+            Moves <strong>{preview.imageCount}</strong> image(s) and{' '}
+            <strong>{preview.collectionCount}</strong> collection(s) from{' '}
+            <strong>{preview.sourceName}</strong> onto <strong>{preview.targetName}</strong>
+            {preview.duplicatesCollapsed > 0
+              ? `, collapsing ${preview.duplicatesCollapsed} duplicate(s)`
+              : ''}
+            , then deletes “{preview.sourceName}” and keeps its name as an alias. This can’t be
+            undone.
+          </p>
+        )}
+
+        <div className={styles.mergeActions}>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={confirm}
+            disabled={targetId == null || preview == null || loading}
+            loading={loading}
+          >
+            Merge
+          </Button>
+        </div>
+        {stepUpDialog}
+      </div>
+    </Modal>
+  );
+}
+
+export default TaxonomyMergeModal;
@@ -0,0 +1,50 @@
+import { type GeneralMetadataDTO } from '@/app/types/Collection';
+import { type IdNameModel } from '@/app/types/Metadata';
+import { type TaxonomyKind } from '@/app/types/Taxonomy';
+
+interface TaxonomyKindConfig {
+  /** Plural heading on `/metadata`. */
+  title: string;
+  /** "tag", "film stock" — for sentences about one entity. */
+  noun: string;
+  /** The `GeneralMetadataDTO` list this kind's entities come from. */
+  metadataKey: 'tags' | 'people' | 'locations' | 'cameras' | 'lenses' | 'filmTypes';
+  /** Public page prefix, for the kinds that have one. */
+  publicPath: '/tag' | '/location' | null;
+}
+
+/** Every vocabulary the console manages, in `/metadata` column order. */
+export const TAXONOMY_KINDS: Record<TaxonomyKind, TaxonomyKindConfig> = {
+  tags: { title: 'Tags', noun: 'tag', metadataKey: 'tags', publicPath: '/tag' },
+  people: { title: 'People', noun: 'person', metadataKey: 'people', publicPath: null },
+  locations: {
+    title: 'Locations',
+    noun: 'location',
+    metadataKey: 'locations',
+    publicPath: '/location',
+  },
+  cameras: { title: 'Cameras', noun: 'camera', metadataKey: 'cameras', publicPath: null },
+  lenses: { title: 'Lenses', noun: 'lens', metadataKey: 'lenses', publicPath: null },
+  'film-types': {
+    title: 'Film stocks',
+    noun: 'film stock',
+    metadataKey: 'filmTypes',
+    publicPath: null,
+  },
+};
+
+export const isTaxonomyKind = (value: string): value is TaxonomyKind =>
+  Object.hasOwn(TAXONOMY_KINDS, value);
+
+/** The console's detail page for one entity. */
+export const taxonomyHref = (kind: TaxonomyKind, id: number) => `/metadata/${kind}/${id}`;
+
+/** The entity's public page, or null for a kind without one (or an entity without a slug). */
+export const taxonomyPublicHref = (kind: TaxonomyKind, slug: string | null | undefined) => {
+  const prefix = TAXONOMY_KINDS[kind].publicPath;
+  return prefix && slug ? `${prefix}/${slug}` : null;
+};
+
+/** One kind's entities out of the bulk metadata read, as `{ id, name }`. */
+export const entitiesOfKind = (metadata: GeneralMetadataDTO, kind: TaxonomyKind): IdNameModel[] =>
+  metadata[TAXONOMY_KINDS[kind].metadataKey].map(({ id, name }) => ({ id, name }));
@@ -1,16 +1,28 @@
+/** `decodeURIComponent`, or the slug as is when it is not a valid escape (a stray `%`). */
+function decodedSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
+
 /**
- * Find an entity by its API slug. Falls back to a case-insensitive name match
- * (with hyphens treated as spaces) for backwards-compatible URLs.
+ * Find an entity by its API slug, then by one of its `aliases` (alias and pre-rename slugs). Falls
+ * back to a case-insensitive name match (with hyphens treated as spaces) for backwards-compatible
+ * URLs.
+ *
+ * A match through anything but `slug` is an old URL for the entity, so a page route should
+ * `permanentRedirect` to the canonical one rather than render under it.
  */
-export function resolveTaxonomyBySlug<E extends { slug: string; name: string }>(
+export function resolveTaxonomyBySlug<E extends { slug: string; name: string; aliases?: string[] }>(
   entities: E[] | null | undefined,
   slug: string
 ): E | undefined {
   if (!entities?.length) return undefined;
   return (
     entities.find(e => e.slug === slug) ??
-    entities.find(
-      e => e.name.toLowerCase() === decodeURIComponent(slug).replace(/-/g, ' ').toLowerCase()
-    )
+    entities.find(e => e.aliases?.includes(slug)) ??
+    entities.find(e => e.name.toLowerCase() === decodedSlug(slug).replace(/-/g, ' ').toLowerCase())
   );
 }
@@ -1,7 +1,8 @@
 'use client';
 
-import { type FormEvent, useState } from 'react';
+import { type FormEvent, useMemo, useState } from 'react';
 
+import { RichText } from '@/app/components/Content/RichText';
 import { Button } from '@/app/components/ui/Button/Button';
 import { CloseButton } from '@/app/components/ui/CloseButton/CloseButton';
 import { Field } from '@/app/components/ui/Field/Field';
@@ -10,32 +11,55 @@ import { Select } from '@/app/components/ui/Field/Select';
 import { Textarea } from '@/app/components/ui/Field/Textarea';
 import { Modal } from '@/app/components/ui/Modal/Modal';
 import {
+  type ContentImageModel,
   TEXT_ALIGN_OPTIONS,
   TEXT_FORMAT_OPTIONS,
   type TextAlign,
   type TextFormat,
 } from '@/app/types/Content';
+import { collectionImageResolver, parseRichText } from '@/app/utils/richText';
 
 import styles from './TextBlockCreateModal.module.scss';
 
 interface TextBlockCreateModalProps {
   onClose: () => void;
   onSubmit: (data: { content: string; format: TextFormat; align: TextAlign }) => Promise<void>;
+  /** The collection's images — what `image:<contentId>` references in the preview resolve to. */
+  images?: ContentImageModel[];
 }
 
+const NO_IMAGES: ContentImageModel[] = [];
+
+const FORMAT_HINTS: Partial<Record<TextFormat, string>> = {
+  markdown: 'Show an image from this collection with ![caption](image:ID).',
+  html: 'Show an image from this collection with <img src="image:ID" alt="caption">. Scripts, styles and unknown tags are removed.',
+};
+
 /**
- * Modal for creating a new text block.
+ * Modal for creating a new text block, with a live preview rendered exactly as the page will
+ * render it (same parser, same allow-list, same styles).
  *
  * Renders inside {@link Modal} which propagates the admin dark surface through
  * its portal, so all ui/ primitives adapt via token cascade with no hardcoded colors.
  */
-export default function TextBlockCreateModal({ onClose, onSubmit }: TextBlockCreateModalProps) {
+export default function TextBlockCreateModal({
+  onClose,
+  onSubmit,
+  images = NO_IMAGES,
+}: TextBlockCreateModalProps) {
   const [content, setContent] = useState('');
   const [format, setFormat] = useState<TextFormat>('plain');
   const [align, setAlign] = useState<TextAlign>('left');
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
 
+  const resolveImage = useMemo(() => collectionImageResolver(images), [images]);
+  const preview = useMemo(
+    () => parseRichText(format, content, resolveImage),
+    [format, content, resolveImage]
+  );
+  const formatHint = FORMAT_HINTS[format];
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError(null);
@@ -85,6 +109,17 @@ export default function TextBlockCreateModal({ onClose, onSubmit }: TextBlockCre
             />
           </Field>
 
+          {formatHint && <p className={styles.hint}>{formatHint}</p>}
+
+          <section className={styles.preview} aria-label="Preview">
+            <h3 className={styles.previewLabel}>Preview</h3>
+            {preview.length > 0 ? (
+              <RichText blocks={preview} align={align} className={styles.previewBody} />
+            ) : (
+              <p className={styles.previewEmpty}>Nothing to preview yet.</p>
+            )}
+          </section>
+
           <div className={styles.formRow}>
             <Field label="Format" htmlFor="text-block-format" className={styles.formGroup}>
               <Select
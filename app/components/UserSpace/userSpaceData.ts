@@ -12,7 +12,7 @@
 import { getAllCollections } from '@/app/lib/api/collections';
 import { ApiError } from '@/app/lib/api/core';
 import { listFollowedCollectionIdsServer, listSavedImagesServer } from '@/app/lib/api/personal';
-import { getCurrentShareView, getShareView, type ShareView } from '@/app/lib/api/share';
+import { getCurrentShareView, type ShareView } from '@/app/lib/api/share';
 import { getUserPage } from '@/app/lib/api/user';
 import {
   getUserPageById,
@@ -47,13 +47,14 @@ export const SHARE_TAB_KEYS = ['collections', 'images'] as const satisfies reado
  * cosmetic — it decides which reads run AND whether the personal action controls are armed. See
  * {@link UserSpace} for why the other two modes render them off.
  *
- * `share` carries the raw token on the first landing (the URL is the only place it exists) and
- * omits it afterwards, when the cookie identifies the link instead.
+ * `share` carries the view the page already resolved from the URL's token on the first landing —
+ * the page must know whether the link is open or closed before it renders anything — and omits
+ * it afterwards, when the cookie identifies the link instead.
  */
 export type UserSpaceMode =
   | 'self'
   | { mode: 'admin'; userId: number }
-  | { mode: 'share'; token?: string };
+  | { mode: 'share'; view?: ShareView };
 
 /** Narrow an untrusted `?tab=` value to a known key, falling back to the default section. */
 export function resolveTabKey(raw: string | string[] | undefined): TabKey {
@@ -176,13 +177,15 @@ async function loadAdminUserPage(userId: number): Promise<CollectionModel | null
 }
 
 /**
- * The recipient view behind a share link: the token on first landing, the cookie thereafter.
- *
- * Both arms already map a missing or reset link to null, so the caller's `null` -> 404 path
- * covers a dead link without this needing to distinguish the two.
+ * The recipient view behind a share link: the page's own read on first landing, the cookie
+ * thereafter. The cookie arm maps a missing or closed link to null, so the caller's `null` -> 404
+ * path covers a dead one.
  */
-async function loadShareView(target: { mode: 'share'; token?: string }): Promise<ShareView | null> {
-  return target.token ? await getShareView(target.token) : await getCurrentShareView();
+async function loadShareView(target: {
+  mode: 'share';
+  view?: ShareView;
+}): Promise<ShareView | null> {
+  return target.view ?? (await getCurrentShareView());
 }
 
 /**
@@ -237,7 +240,7 @@ export async function loadUserSpace(
     isSelf
       ? getUserPage()
       : isShare
-        ? loadShareView(target as { mode: 'share'; token?: string })
+        ? loadShareView(target as { mode: 'share'; view?: ShareView })
         : loadAdminUserPage((target as { mode: 'admin'; userId: number }).userId),
     isSelf
       ? listSavedImagesServer()
@@ -1,7 +1,7 @@
 'use client';
 
 import styles from './EditBar.module.scss';
-import { type EditBarCell, type EditBarProps } from './types';
+import { type EditBarBadge, type EditBarCell, type EditBarProps } from './types';
 
 function cellClassName(variant: EditBarCell['variant'], disabled?: boolean): string {
   const map = {
@@ -15,6 +15,26 @@ function cellClassName(variant: EditBarCell['variant'], disabled?: boolean): str
     .join(' ');
 }
 
+function renderBadge(badge: EditBarBadge) {
+  const className = [styles.badge, badge.tone === 'warning' ? styles.badgeWarning : '']
+    .filter(Boolean)
+    .join(' ');
+  return badge.onClick ? (
+    <button
+      type="button"
+      className={className}
+      aria-label={badge.ariaLabel}
+      onClick={badge.onClick}
+    >
+      {badge.label}
+    </button>
+  ) : (
+    <span className={className} role="status" aria-label={badge.ariaLabel}>
+      {badge.label}
+    </span>
+  );
+}
+
 /**
  * Shared bottom bar for collection-edit, image-edit, and manage modes. Two shapes:
  * an optional tab row above a uniform-height action row. Emphasis is by color/weight.
@@ -29,6 +49,7 @@ export function EditBar({
   activeTab,
   onTabChange,
   cells,
+  badge,
   ariaLabel,
   fixed = true,
 }: EditBarProps) {
@@ -58,6 +79,7 @@ export function EditBar({
         </nav>
       )}
       <div className={styles.actionRow}>
+        {badge && renderBadge(badge)}
         {cells.map(cell =>
           cell.fileInput ? (
             <label key={cell.key} className={cellClassName(cell.variant, cell.disabled)}>
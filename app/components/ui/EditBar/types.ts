@@ -10,6 +10,15 @@ export interface EditBarCell {
   fileInput?: { accept?: string; multiple?: boolean; onFiles: (files: FileList) => void };
 }
 
+/** Status pill at the start of the action row. Clickable when `onClick` is set. */
+export interface EditBarBadge {
+  label: string;
+  onClick?: () => void;
+  ariaLabel?: string;
+  /** `warning` for state that needs the admin's attention (e.g. working offline). */
+  tone?: 'default' | 'warning';
+}
+
 export interface EditBarTab {
   id: string;
   label: string;
@@ -22,6 +31,8 @@ export interface EditBarProps {
   onTabChange?: (id: string) => void;
   /** Action cells. In mode shape this is the only row. */
   cells: ReadonlyArray<EditBarCell>;
+  /** Optional status pill ahead of the cells, e.g. a count of unsynced edits. */
+  badge?: EditBarBadge;
   ariaLabel?: string;
   /**
    * When true (default), the bar is `position: fixed` pinned to the viewport bottom.
@@ -0,0 +1,78 @@
+'use client';
+
+import { type FormEvent, useId, useState } from 'react';
+
+import { Button } from '@/app/components/ui/Button/Button';
+import { Field } from '@/app/components/ui/Field/Field';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { Input } from '@/app/components/ui/Field/Input';
+import { parseFilterExpression } from '@/app/utils/filterExpression';
+
+import styles from './ExpressionFilterInput.module.scss';
+
+interface ExpressionFilterInputProps {
+  /** The committed expression text (`''` when none). Seeds the field. */
+  value: string;
+  /** Receives trimmed text that parsed, or `''` to clear. Never called with invalid text. */
+  onCommit: (expression: string) => void;
+}
+
+/**
+ * The toolbar's advanced filter: one line of `film AND portra NOT person:Zac`.
+ *
+ * Text is local until Apply, and only text that parses is committed — a syntax error stays in the
+ * field with the message and the column it points at, so a half-typed expression never empties the
+ * grid. Applying an empty field clears the expression.
+ */
+export function ExpressionFilterInput({ value, onCommit }: ExpressionFilterInputProps) {
+  const id = useId();
+  const [text, setText] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      setError(null);
+      onCommit('');
+      return;
+    }
+    const parsed = parseFilterExpression(trimmed);
+    if (!parsed.ok) {
+      // Columns are 1-based for people; the offset is into the trimmed text they see.
+      const offset = text.length - text.trimStart().length;
+      setError(`${parsed.message} (at column ${parsed.position + offset + 1})`);
+      return;
+    }
+    setError(null);
+    onCommit(trimmed);
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit}>
+      <Field
+        label="Filter expression"
+        htmlFor={`${id}-expr`}
+        hint="AND, OR, NOT, ( ). Fields: tag: person: location: camera: lens: rating: date: is:"
+      >
+        <Input
+          id={`${id}-expr`}
+          className={styles.input}
+          value={text}
+          onChange={event => {
+            setText(event.target.value);
+            setError(null);
+          }}
+          placeholder="film AND portra NOT person:Zac"
+          spellCheck={false}
+          autoComplete="off"
+          aria-invalid={error !== null}
+        />
+      </Field>
+      <FormError>{error}</FormError>
+      <Button type="submit" size="sm" className={styles.apply}>
+        Apply
+      </Button>
+    </form>
+  );
+}
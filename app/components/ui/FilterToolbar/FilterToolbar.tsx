@@ -7,6 +7,7 @@ import {
   type DensityTier,
   DensityTierControl,
 } from '@/app/components/ui/FilterToolbar/DensityTierControl';
+import { ExpressionFilterInput } from '@/app/components/ui/FilterToolbar/ExpressionFilterInput';
 import { useClickOutside } from '@/app/hooks/useClickOutside';
 import {
   ARRAY_FILTER_KEYS,
@@ -101,6 +102,12 @@ export interface FilterToolbarProps {
    */
   showHiddenToggle?: boolean;
   showFilm?: boolean;
+  /**
+   * Renders the "Advanced" dropdown: a boolean filter expression across dimensions
+   * ({@link FilterState.expression}). Opt-in because only pages whose criteria builder carries the
+   * expression through can honor it.
+   */
+  showExpression?: boolean;
   /** When provided, renders the photo-size control (density min 1, max {@link densityMax}). */
   density?: number;
   /** Upper bound of the fine slider. Defaults to 10 (desktop scale). */
@@ -132,6 +139,9 @@ export interface FilterToolbarProps {
  * chip's rendered width is a function of the fixed-width trailing slot, never of which direction
  * is selected.
  */
+/** The dropdowns the bar can open: one per array dimension, plus the expression panel. */
+type DropdownKey = ArrayFilterKey | 'expression';
+
 const ORDER_GLYPHS: Record<FilterState['dateSortDirection'], string> = {
   asc: '^',
   desc: 'v',
@@ -147,7 +157,8 @@ export const MAX_FLAT_DATE_CHIPS = 5;
 
 /**
  * Canonical, config-driven filter toolbar: dropdowns with a 3-state availability model, count
- * badges, highly-rated / film (neutral tri-state) / digital toggles, and an optional density slider.
+ * badges, highly-rated / film (neutral tri-state) / digital toggles, an optional boolean-expression
+ * input, and an optional density slider.
  */
 export function FilterToolbar({
   filterState,
@@ -162,6 +173,7 @@ export function FilterToolbar({
   showHighlyRated = false,
   showHiddenToggle = false,
   showFilm = false,
+  showExpression = false,
   density,
   densityMax = 10,
   onDensityChange,
@@ -170,14 +182,14 @@ export function FilterToolbar({
   activeDensityTier,
   onDensityTierSelect,
 }: FilterToolbarProps) {
-  const [openDropdown, setOpenDropdown] = useState<ArrayFilterKey | null>(null);
+  const [openDropdown, setOpenDropdown] = useState<DropdownKey | null>(null);
   const barRef = useRef<HTMLDivElement>(null);
   /**
    * The trigger that opened the current panel. Selecting an option unmounts the focused chip, which
    * would otherwise drop focus to `document.body` on every single selection; restoring it here
    * keeps a keyboard user in the bar. Same on close-by-Escape and click-outside.
    */
-  const triggerRefs = useRef<Partial<Record<ArrayFilterKey, HTMLButtonElement | null>>>({});
+  const triggerRefs = useRef<Partial<Record<DropdownKey, HTMLButtonElement | null>>>({});
 
   const closeAll = useCallback(() => {
     if (openDropdown !== null) triggerRefs.current[openDropdown]?.focus();
@@ -185,7 +197,7 @@ export function FilterToolbar({
   }, [openDropdown]);
   useClickOutside(barRef, openDropdown !== null, closeAll);
 
-  const toggleOpen = (key: ArrayFilterKey) => setOpenDropdown(prev => (prev === key ? null : key));
+  const toggleOpen = (key: DropdownKey) => setOpenDropdown(prev => (prev === key ? null : key));
 
   const cycleFilm = () => onFilterChange({ filmFilter: cycleFilmFilter(filterState.filmFilter) });
 
@@ -338,6 +350,37 @@ export function FilterToolbar({
             </div>
           );
         })}
+
+        {showExpression && (
+          <div className={styles.dropdown}>
+            <button
+              ref={node => {
+                triggerRefs.current.expression = node;
+              }}
+              type="button"
+              aria-haspopup="true"
+              aria-expanded={openDropdown === 'expression'}
+              className={`${styles.dropdownTrigger} ${filterState.expression === '' ? '' : styles.dropdownTriggerActive}`}
+              onClick={() => toggleOpen('expression')}
+            >
+              Advanced
+              <span className={styles.chevron} aria-hidden="true">
+                {openDropdown === 'expression' ? '▴' : '▾'}
+              </span>
+            </button>
+            {openDropdown === 'expression' && (
+              <div className={styles.panel}>
+                <ExpressionFilterInput
+                  value={filterState.expression}
+                  onCommit={expression => {
+                    onFilterChange({ expression });
+                    closeAll();
+                  }}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       <div className={styles.trailing}>
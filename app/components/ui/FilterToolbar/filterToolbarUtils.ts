@@ -24,7 +24,7 @@ export function isOptionAvailable(
 
 /**
  * Whether any filter is active: a date sort, the highly-rated toggle, the admin hide-hidden
- * preview, the film/digital filter, or any non-empty array dimension. Drives the reset (×)
+ * preview, the film/digital filter, a committed expression, or any non-empty array dimension. Drives the reset (×)
  * button's visibility.
  *
  * In two-state mode ({@link FilterToolbarProps.dateTwoState}) the date sort is structurally
@@ -42,6 +42,7 @@ export function computeHasActiveFilters(
     filterState.highlyRatedOnly ||
     !filterState.showHidden ||
     filterState.filmFilter !== 'off' ||
+    filterState.expression !== '' ||
     arrayKeys.some(k => (filterState[k] as readonly string[]).length > 0)
   );
 }
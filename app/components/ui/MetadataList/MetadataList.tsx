@@ -5,7 +5,7 @@ import { useState } from 'react';
 
 import { Button } from '@/app/components/ui/Button/Button';
 import { EmptyState } from '@/app/components/ui/StatusText/EmptyState';
-import { fetchAdminDeleteApi, fetchAdminPutJsonApi } from '@/app/lib/api/core';
+import { ApiError, fetchAdminDeleteApi, fetchAdminPutJsonApi } from '@/app/lib/api/core';
 
 import styles from './MetadataList.module.scss';
 
@@ -21,11 +21,11 @@ export interface MetadataListProps<T extends MetadataListItem> {
   items: T[];
   /** REST base for PUT/DELETE, e.g. "/metadata/tags". Item id is appended. */
   basePath: string;
-  /** Optional "go to" target for an item (e.g. /location/[slug]). */
+  /** Optional "go to" target for an item (e.g. its `/metadata/[kind]/[id]` console). */
   getHref?: (item: T) => string | null;
 }
 
-/** Generic editable metadata list (tags / people / locations). */
+/** Generic editable metadata list (tags / people / locations / equipment / film stocks). */
 export function MetadataList<T extends MetadataListItem>({
   title,
   emptyLabel,
@@ -80,8 +80,13 @@ export function MetadataList<T extends MetadataListItem>({
       await fetchAdminDeleteApi(`${basePath}/${item.id}`);
       setItems(prev => prev.filter(i => i.id !== item.id));
       clearEdit(item.id);
-    } catch {
-      setError(`Failed to delete '${item.name}'`);
+    } catch (error_) {
+      // The backend refuses to delete an entry images still carry; the console can merge it away.
+      setError(
+        error_ instanceof ApiError && error_.status === 409
+          ? `'${item.name}' is still in use — open it to merge it into another entry`
+          : `Failed to delete '${item.name}'`
+      );
     } finally {
       setSaving(null);
     }
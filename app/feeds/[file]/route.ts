@@ -0,0 +1,35 @@
+import { type NextRequest } from 'next/server';
+
+import { getAllCollections } from '@/app/lib/api/collections';
+import { feedNotFound, feedResponse, parseFeedFile } from '@/app/lib/feeds/response';
+import { blogFeed, collectionsFeed } from '@/app/lib/feeds/sources';
+import { absoluteUrl } from '@/app/utils/structuredData';
+
+// Built per request, behind the Cache-Control the response sets; see app/sitemap.ts.
+export const dynamic = 'force-dynamic';
+
+/** Collections fetched per feed build — comfortably more than the newest items a feed keeps. */
+const COLLECTIONS_FETCH_SIZE = 200;
+
+const STREAMS = { collections: collectionsFeed, blog: blogFeed };
+
+/**
+ * Site-wide feeds
+ *
+ * GET /feeds/collections.{rss,atom,json} — new LISTED collections
+ * GET /feeds/blog.{rss,atom,json} — blog collections, by story date
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  const parsed = parseFeedFile(file);
+  if (!parsed || !Object.hasOwn(STREAMS, parsed.name)) return feedNotFound();
+
+  const build = STREAMS[parsed.name as keyof typeof STREAMS];
+  const collections = await getAllCollections(0, COLLECTIONS_FETCH_SIZE);
+  return feedResponse(
+    request,
+    build(collections, absoluteUrl(`/feeds/${file}`)),
+    parsed.format,
+    'public'
+  );
+}
@@ -0,0 +1,31 @@
+import { type NextRequest } from 'next/server';
+
+import { getFollowingFeed } from '@/app/lib/api/feeds';
+import { feedNotFound, feedResponse, parseFeedFile } from '@/app/lib/feeds/response';
+import { followingFeed } from '@/app/lib/feeds/sources';
+import { absoluteUrl } from '@/app/utils/structuredData';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Private following feed — GET /feeds/following/{token}.{rss,atom,json}
+ *
+ * New work in the token owner's followed collections. The token in the path is the credential
+ * (feed readers carry no session), so the response is privately cached and kept out of search;
+ * robots.txt disallows the whole prefix as well.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  const parsed = parseFeedFile(file);
+  if (!parsed) return feedNotFound();
+
+  const following = await getFollowingFeed(parsed.name);
+  if (!following) return feedNotFound();
+
+  return feedResponse(
+    request,
+    followingFeed(following, absoluteUrl(`/feeds/following/${file}`)),
+    parsed.format,
+    'private'
+  );
+}
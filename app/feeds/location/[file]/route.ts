@@ -0,0 +1,33 @@
+import { type NextRequest } from 'next/server';
+
+import { getAllLocations, searchImages } from '@/app/lib/api/content';
+import { feedNotFound, feedResponse, parseFeedFile } from '@/app/lib/feeds/response';
+import { imagesFeed } from '@/app/lib/feeds/sources';
+import { absoluteUrl, SITE_NAME } from '@/app/utils/structuredData';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Per-location feed — GET /feeds/location/{slug}.{rss,atom,json}
+ *
+ * The photographs on `/location/{slug}`. Matches by slug only: feed URLs are generated from the
+ * slug, so the page's name-match fallback for legacy links has nothing to serve here.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  const parsed = parseFeedFile(file);
+  if (!parsed) return feedNotFound();
+
+  const location = (await getAllLocations())?.find(l => l.slug === parsed.name);
+  if (!location) return feedNotFound();
+
+  const images = await searchImages({ locationId: location.id });
+  const feed = imagesFeed({
+    title: location.name,
+    description: `Photography of ${location.name} from ${SITE_NAME}`,
+    path: `/location/${location.slug}`,
+    feedUrl: absoluteUrl(`/feeds/location/${file}`),
+    images,
+  });
+  return feedResponse(request, feed, parsed.format, 'public');
+}
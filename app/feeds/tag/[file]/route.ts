@@ -0,0 +1,33 @@
+import { type NextRequest } from 'next/server';
+
+import { resolveTaxonomyBySlug } from '@/app/components/TaxonomyPage/resolveTaxonomy';
+import { getAllTags, searchImages } from '@/app/lib/api/content';
+import { feedNotFound, feedResponse, parseFeedFile } from '@/app/lib/feeds/response';
+import { imagesFeed } from '@/app/lib/feeds/sources';
+import { absoluteUrl, SITE_NAME } from '@/app/utils/structuredData';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Per-tag feed — GET /feeds/tag/{slug}.{rss,atom,json}
+ *
+ * The photographs on `/tag/{slug}`, resolved the same way that page resolves its slug.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  const parsed = parseFeedFile(file);
+  if (!parsed) return feedNotFound();
+
+  const tag = resolveTaxonomyBySlug(await getAllTags(), parsed.name);
+  if (!tag) return feedNotFound();
+
+  const images = await searchImages({ tagIds: [tag.id] });
+  const feed = imagesFeed({
+    title: tag.name,
+    description: `Photos tagged "${tag.name}" from ${SITE_NAME}`,
+    path: `/tag/${tag.slug}`,
+    feedUrl: absoluteUrl(`/feeds/tag/${file}`),
+    images,
+  });
+  return feedResponse(request, feed, parsed.format, 'public');
+}
@@ -8,6 +8,7 @@ import {
 } from 'react';
 
 import { type AdminMessageView } from '@/app/lib/api/messages';
+import { type ChangeLogPage } from '@/app/types/ChangeLog';
 import { type RoleSummary } from '@/app/types/Role';
 import { type AdminUserSummary } from '@/app/types/User';
 import { logger } from '@/app/utils/logger';
@@ -44,6 +45,7 @@ export interface PanelCacheSchema {
   'users:people': AdminUserSummary[];
   messages: AdminMessagesPayload;
   roles: RoleSummary[];
+  activity: ChangeLogPage;
 }
 
 /** A key of {@link PanelCacheSchema} — the only thing this cache accepts as an identity. */
@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import {
+  getCachedLayout,
+  type LayoutJob,
+  layoutJobKey,
+  type LayoutResult,
+  layoutSync,
+  setCachedLayout,
+} from '@/app/utils/layoutJob';
+import {
+  canUseLayoutWorker,
+  requestLayout,
+  WORKER_MIN_CONTENT,
+} from '@/app/utils/layoutWorkerClient';
+
+interface SettledLayout {
+  key: string;
+  result: LayoutResult;
+}
+
+/**
+ * Packed rows for `job`, memoized by {@link layoutJobKey} and, for large collections, computed in
+ * the layout worker.
+ *
+ * - The FIRST layout is always synchronous. The server renders rows, so hydration must produce the
+ *   same rows in the same pass; a worker result would arrive a frame too late and mismatch.
+ * - After that, a change to a collection of {@link WORKER_MIN_CONTENT}+ items goes to the worker,
+ *   and the previous rows stay on screen until the new ones land. A newer change cancels the
+ *   request in flight, so dragging the density slider lays out only where it stops.
+ * - Smaller collections, and anywhere without a worker (SSR, Jest), lay out inline as before.
+ * - A key seen before is served from the cache on either path, without a round trip.
+ *
+ * `job` should be memoized by the caller; its identity is what triggers re-keying.
+ */
+export function useContentRows(job: LayoutJob): LayoutResult & { isPending: boolean } {
+  const key = useMemo(() => layoutJobKey(job), [job]);
+  const offload = job.content.length >= WORKER_MIN_CONTENT && canUseLayoutWorker();
+
+  const [settled, setSettled] = useState<SettledLayout>(() => ({
+    key,
+    result: layoutSync(job, key),
+  }));
+
+  const current = settled.key === key ? settled.result : getCachedLayout(key);
+  const waiting = offload && current === undefined;
+
+  useEffect(() => {
+    if (!waiting) return;
+    const request = requestLayout(job);
+    void request.promise.then(result => {
+      setCachedLayout(key, result);
+      setSettled({ key, result });
+    });
+    return request.cancel;
+  }, [waiting, job, key]);
+
+  if (current) return { ...current, isPending: false };
+  if (waiting) return { ...settled.result, isPending: true };
+  return { ...layoutSync(job, key), isPending: false };
+}
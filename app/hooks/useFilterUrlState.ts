@@ -27,6 +27,7 @@ const FILTER_PARAM_KEYS = [
   'isFilm',
   'bw',
   'collection',
+  'expr',
 ] as const;
 
 /**
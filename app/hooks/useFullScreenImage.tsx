@@ -13,6 +13,7 @@ import {
 } from 'react';
 
 import { INTERACTION } from '@/app/constants';
+import { type Slideshow, useSlideshow } from '@/app/hooks/useSlideshow';
 import styles from '@/app/styles/fullscreen-image.module.scss';
 import type { ViewableContent } from '@/app/types/Content';
 import {
@@ -50,6 +51,14 @@ function isInteractiveTarget(target: EventTarget | null): boolean {
   return target instanceof Element && target.closest(INTERACTIVE_SELECTOR) !== null;
 }
 
+/**
+ * True when a key event originated in a text field (the image comment box), where the arrows move
+ * the caret. Navigation must skip those, or typing a comment flips to the next photo mid-sentence.
+ */
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  return target instanceof Element && target.closest('input, textarea') !== null;
+}
+
 /**
  * Backwards-compatible alias for the union of content types that can open in the fullscreen
  * viewer. Now includes GIF/MP4 — see {@link ViewableContent}.
@@ -69,10 +78,14 @@ function buildImageSearch(id: number): string {
   return qs ? `?${qs}` : '';
 }
 
-/** Build a search string with `image` removed, preserving other params. */
-function buildSearchWithoutImage(): string {
+/**
+ * Build a search string with the viewer's own params (`image`, and `slideshow` for a running show)
+ * removed, preserving other params.
+ */
+function buildSearchWithoutViewer(): string {
   const params = new URLSearchParams(typeof window !== 'undefined' ? window.location.search : '');
   params.delete('image');
+  params.delete('slideshow');
   const qs = params.toString();
   return qs ? `?${qs}` : '';
 }
@@ -97,8 +110,10 @@ export function useFullScreenImage(): {
   setLoadedImageIds: Dispatch<SetStateAction<Set<number>>>;
   router: ReturnType<typeof useRouter>;
   isOpen: boolean;
+  /** Next / previous image — in slideshow play order while a slideshow is active. */
   navigateToNext: () => void;
   navigateToPrevious: () => void;
+  slideshow: Slideshow;
 } {
   const router = useRouter();
   const [fullScreenState, setFullScreenState] = useState<FullScreenState>(null);
@@ -235,7 +250,7 @@ export function useFullScreenImage(): {
         window.history.replaceState(
           {},
           '',
-          `${window.location.pathname}${buildSearchWithoutImage()}`
+          `${window.location.pathname}${buildSearchWithoutViewer()}`
         );
       }
     }
@@ -253,8 +268,34 @@ export function useFullScreenImage(): {
     });
   }, []);
 
-  const navigateToNext = useCallback(() => navigate('next'), [navigate]);
-  const navigateToPrevious = useCallback(() => navigate('previous'), [navigate]);
+  const moveTo = useCallback((pick: (state: NonNullable<FullScreenState>) => number | null) => {
+    setFullScreenState(prev => {
+      if (!prev) return prev;
+      const index = pick(prev);
+      if (index === null || index === prev.currentIndex || !prev.images[index]) return prev;
+      return { ...prev, currentIndex: index };
+    });
+  }, []);
+
+  const slideshow = useSlideshow({ fullScreenState, moveTo, modalRef, isZoomed });
+  const {
+    active: slideshowActive,
+    next: slideshowNext,
+    previous: slideshowPrevious,
+    start: startSlideshow,
+    togglePlaying: toggleSlideshowPlaying,
+  } = slideshow;
+
+  // A slideshow owns prev/next while it runs, so arrows and swipes follow its (possibly shuffled,
+  // possibly looping) order rather than stopping at the ends of the collection.
+  const navigateToNext = useCallback(
+    () => (slideshowActive ? slideshowNext() : navigate('next')),
+    [slideshowActive, slideshowNext, navigate]
+  );
+  const navigateToPrevious = useCallback(
+    () => (slideshowActive ? slideshowPrevious() : navigate('previous')),
+    [slideshowActive, slideshowPrevious, navigate]
+  );
 
   // Sync ?image=<id> on swipe/arrow via replaceState (never push) so Back closes
   // the viewer instead of stepping through images. Lives in an effect — not the
@@ -319,15 +360,32 @@ export function useFullScreenImage(): {
   useEffect(() => {
     if (!isOpen) return;
 
+    // Presentation keys double as TV-remote keys: remotes send the Media* keys and the arrows.
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'ArrowLeft') {
+      if (isTextEntryTarget(event.target)) return;
+      if (event.key === 'ArrowLeft' || event.key === 'MediaTrackPrevious') {
         event.preventDefault();
         navigateToPrevious();
-      } else if (event.key === 'ArrowRight') {
+      } else if (event.key === 'ArrowRight' || event.key === 'MediaTrackNext') {
         event.preventDefault();
         navigateToNext();
+      } else if (
+        (event.key === 'MediaPlayPause' || event.key === 'k' || event.key === 'K') &&
+        !isInteractiveTarget(event.target)
+      ) {
+        event.preventDefault();
+        if (slideshowActive) {
+          toggleSlideshowPlaying();
+        } else {
+          startSlideshow();
+        }
+      } else if ((event.key === 'f' || event.key === 'F') && !isInteractiveTarget(event.target)) {
+        event.preventDefault();
+        toggleImmersive();
       } else if (SCROLL_BLOCKING_KEYS.includes(event.key) && !isInteractiveTarget(event.target)) {
         event.preventDefault();
+        // Space pauses and resumes a running show; outside one it only keeps the page still.
+        if (event.key === ' ' && slideshowActive) toggleSlideshowPlaying();
       }
     };
 
@@ -340,7 +398,15 @@ export function useFullScreenImage(): {
       document.removeEventListener('keydown', handleKeyDown);
       document.removeEventListener('wheel', preventScroll);
     };
-  }, [isOpen, navigateToNext, navigateToPrevious]);
+  }, [
+    isOpen,
+    navigateToNext,
+    navigateToPrevious,
+    slideshowActive,
+    startSlideshow,
+    toggleSlideshowPlaying,
+    toggleImmersive,
+  ]);
 
   // Browser Back: when the user navigates back and the `image` param is gone,
   // close the modal in place. We do NOT push/replace history here — the URL has
@@ -417,10 +483,14 @@ export function useFullScreenImage(): {
     };
 
     // Where a stationary tap lands decides its action. A tap on a control (nav arrows, close,
-    // download, or the metadata UI) runs that control. A tap on the framed photo toggles immersive.
-    // A tap on the black letterbox outside the photo dismisses the viewer.
+    // download, the slideshow bar, the metadata UI, or an overlay slotted in by the caller) runs
+    // that control. A tap on the framed photo
+    // toggles immersive. A tap on the black letterbox outside the photo dismisses the viewer.
     const isControlTap = (target: EventTarget | null): boolean =>
-      target instanceof HTMLElement && !!target.closest(`button, a, .${styles.metadataOverlay}`);
+      target instanceof HTMLElement &&
+      !!target.closest(
+        `button, a, input, select, .${styles.metadataOverlay}, .${styles.slideshowControls}, .${styles.overlaySlot}`
+      );
     const isImageTap = (target: EventTarget | null): boolean =>
       target instanceof HTMLElement && !!target.closest(`.${styles.imageWrapper}`);
 
@@ -638,5 +708,6 @@ export function useFullScreenImage(): {
     isOpen: !!fullScreenState,
     navigateToNext,
     navigateToPrevious,
+    slideshow,
   };
 }
@@ -13,15 +13,27 @@ export interface UseImageBrowserResult {
   error: Error | null;
 }
 
+/** Fetches one page of images; `page` is zero-based. */
+export type ImagePageFetcher = (page: number, size: number) => Promise<PagedImages>;
+
 const DEFAULT_PAGE_SIZE = 150;
 
+const fetchAllImagesPage: ImagePageFetcher = (page, size) => getAllImages({ page, size });
+
 /**
  * Paginated all-images browser. SSR seeds page 0; on mount we auto-prefetch
  * page 1 so it's cached before the user scrolls. {@link loadNext} appends
  * subsequent pages on demand. {@code fetchingRef} prevents concurrent fetches
  * — pages are sequential, so a queue is overkill.
+ *
+ * `fetchPage` swaps the source (e.g. `/search` pages a scoped search instead of
+ * the admin list). Keep it referentially stable; the initial page must come from
+ * the same source.
  */
-export function useImageBrowser(initial: PagedImages): UseImageBrowserResult {
+export function useImageBrowser(
+  initial: PagedImages,
+  fetchPage: ImagePageFetcher = fetchAllImagesPage
+): UseImageBrowserResult {
   const [pages, setPages] = useState<PagedImages[]>([initial]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -32,14 +44,14 @@ export function useImageBrowser(initial: PagedImages): UseImageBrowserResult {
   const items = useMemo(() => pages.flatMap(p => p.items), [pages]);
   const isDone = pages.at(-1)?.isLast ?? true;
 
-  const fetchPage = useCallback(
+  const fetchNextPage = useCallback(
     async (page: number) => {
       if (fetchingRef.current) return;
       fetchingRef.current = true;
       setIsLoading(true);
       setError(null);
       try {
-        const result = await getAllImages({ page, size: pageSize });
+        const result = await fetchPage(page, pageSize);
         setPages(prev => [...prev, result]);
       } catch (error_) {
         setError(error_ instanceof Error ? error_ : new Error(String(error_)));
@@ -48,14 +60,14 @@ export function useImageBrowser(initial: PagedImages): UseImageBrowserResult {
         fetchingRef.current = false;
       }
     },
-    [pageSize]
+    [fetchPage, pageSize]
   );
 
   const loadNext = useCallback(() => {
     if (isDone) return;
     const nextPage = (pages.at(-1)?.page ?? -1) + 1;
-    void fetchPage(nextPage);
-  }, [isDone, pages, fetchPage]);
+    void fetchNextPage(nextPage);
+  }, [isDone, pages, fetchNextPage]);
 
   // Auto-prefetch page 1 once on mount, unless the SSR page already covers everything.
   const didMountPrefetchRef = useRef(false);
@@ -63,8 +75,8 @@ export function useImageBrowser(initial: PagedImages): UseImageBrowserResult {
     if (didMountPrefetchRef.current) return;
     didMountPrefetchRef.current = true;
     if (initial.isLast) return;
-    void fetchPage(1);
-    // Intentionally mount-only — fetchPage and initial are captured by design.
+    void fetchNextPage(1);
+    // Intentionally mount-only — fetchNextPage and initial are captured by design.
   }, []);
 
   return { items, loadNext, isLoading, isDone, error };
@@ -0,0 +1,218 @@
+import {
+  type RefObject,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { type RowWithPatternAndSizes } from '@/app/utils/contentLayout';
+import { isBlankContent } from '@/app/utils/contentTypeGuards';
+import {
+  estimateRowPitch,
+  rowAt,
+  rowOffsets,
+  type RowWindowSegment,
+  visibleRowRange,
+  windowSegments,
+} from '@/app/utils/rowWindow';
+
+interface UseRowWindowOptions {
+  rows: RowWithPatternAndSizes[];
+  /** One identity per row, from its items. Measurements are remembered under it. */
+  rowKeys: string[];
+  /** Off: every row mounts, as if this hook were not here. */
+  enabled: boolean;
+  /** Rows to keep mounted wherever the viewport is. */
+  pinned: number[];
+  /** Viewport height for the first render, before anything is measured. Must match SSR. */
+  initialViewportHeight: number;
+}
+
+interface RowWindow {
+  /** Attach to the element the rows render into. */
+  containerRef: RefObject<HTMLDivElement | null>;
+  /** Callback ref per mounted row, for measuring. */
+  rowRef: (index: number) => (element: HTMLElement | null) => void;
+  /** Rows and spacers to render, in order. */
+  segments: RowWindowSegment[];
+}
+
+/** A content item near the top of the viewport, and where its row sat relative to that top. */
+interface ScrollAnchor {
+  contentId: number;
+  delta: number;
+}
+
+/** Rows near the top of the viewport that anchor a re-layout; the first that survives wins. */
+const ANCHOR_ROWS = 3;
+
+/**
+ * Window the content grid's rows to the viewport (see `app/utils/rowWindow.ts` for the math).
+ *
+ * - The first render is deterministic — top of the grid, `initialViewportHeight` tall — so SSR
+ *   and hydration mount the same rows; the real scroll position is read after mount.
+ * - The window is recomputed on scroll and resize, once per frame, and only re-renders when the
+ *   mounted range actually changes.
+ * - Mounted rows are measured after every commit. Adjacent mounted rows are measured top to top,
+ *   which folds in the row gap and anything rendered between them (the non-visible separator).
+ * - Positions are read from the container's bounding rect, not `window.scrollY`, so the body
+ *   scroll lock behind the fullscreen viewer (which pins the body at `top: -scrollY`) leaves the
+ *   window where it was, and the unmounted height it preserves lets the lock restore the scroll.
+ * - When the layout changes (filter, density, a page appended, a worker result landing), the page
+ *   is scrolled so the first surviving item near the top stays where it was on screen.
+ */
+export function useRowWindow({
+  rows,
+  rowKeys,
+  enabled,
+  pinned,
+  initialViewportHeight,
+}: UseRowWindowOptions): RowWindow {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const rowElements = useRef(new Map<number, HTMLElement>());
+  const [measured, setMeasured] = useState<ReadonlyMap<string, number>>(() => new Map());
+
+  // A measurement is only reusable for the same items at the same computed size, so the estimate
+  // is part of its key: a re-pack that resizes a row re-measures it.
+  const estimates = useMemo(() => rows.map(row => estimateRowPitch(row)), [rows]);
+  const measureKeys = useMemo(
+    () => estimates.map((estimate, i) => `${rowKeys[i]}@${Math.round(estimate)}`),
+    [estimates, rowKeys]
+  );
+  const offsets = useMemo(
+    () => rowOffsets(estimates.map((estimate, i) => measured.get(measureKeys[i]!) ?? estimate)),
+    [estimates, measureKeys, measured]
+  );
+
+  const [range, setRange] = useState(() =>
+    visibleRowRange(offsets, 0, Math.max(initialViewportHeight, 1))
+  );
+
+  const offsetsRef = useRef(offsets);
+  const rowsRef = useRef(rows);
+  const anchorsRef = useRef<ScrollAnchor[]>([]);
+
+  /** Read the viewport against the grid; update the range and remember a scroll anchor. */
+  const syncViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = -container.getBoundingClientRect().top;
+    const bottom = top + window.innerHeight;
+    const currentOffsets = offsetsRef.current;
+    const next = visibleRowRange(currentOffsets, top, bottom);
+    setRange(prev => (prev.start === next.start && prev.end === next.end ? prev : next));
+
+    const anchors: ScrollAnchor[] = [];
+    const first = rowAt(currentOffsets, Math.max(0, top));
+    const currentRows = rowsRef.current;
+    for (let i = first; i < Math.min(currentRows.length, first + ANCHOR_ROWS); i++) {
+      for (const item of currentRows[i]!.items) {
+        if (isBlankContent(item.content)) continue;
+        anchors.push({ contentId: item.content.id, delta: currentOffsets[i]! - top });
+      }
+    }
+    anchorsRef.current = anchors;
+  }, []);
+
+  // Keep the anchor on the item the user is looking at across a re-layout, then re-window.
+  useLayoutEffect(() => {
+    const previousRows = rowsRef.current;
+    offsetsRef.current = offsets;
+    rowsRef.current = rows;
+    if (!enabled) return;
+
+    const container = containerRef.current;
+    const locked = document.body.classList.contains('scroll-locked');
+    if (container && previousRows !== rows && !locked) {
+      const rowOf = new Map<number, number>();
+      for (const [index, row] of rows.entries()) {
+        for (const item of row.items) rowOf.set(item.content.id, index);
+      }
+      const anchor = anchorsRef.current.find(candidate => rowOf.has(candidate.contentId));
+      if (anchor) {
+        const top = -container.getBoundingClientRect().top;
+        const shift = offsets[rowOf.get(anchor.contentId)!]! - anchor.delta - top;
+        if (Math.abs(shift) >= 1) window.scrollBy(0, shift);
+      }
+    }
+    syncViewport();
+  }, [enabled, rows, offsets, syncViewport]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let frame = 0;
+    const onChange = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        syncViewport();
+      });
+    };
+    window.addEventListener('scroll', onChange, { passive: true });
+    window.addEventListener('resize', onChange);
+    return () => {
+      window.removeEventListener('scroll', onChange);
+      window.removeEventListener('resize', onChange);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [enabled, syncViewport]);
+
+  // Measure what mounted. Unlaid-out elements (zero height, as in jsdom) keep their estimate. A
+  // row that mounts ABOVE the viewport at a height other than its estimate has already moved
+  // everything below it in this commit, so the difference is scrolled away before paint.
+  useLayoutEffect(() => {
+    if (!enabled) return;
+    const container = containerRef.current;
+    const viewTop = container ? -container.getBoundingClientRect().top : 0;
+    const firstVisible = rowAt(offsets, Math.max(0, viewTop));
+    const mounted = [...rowElements.current.entries()].sort(([a], [b]) => a - b);
+    const updates = new Map<string, number>();
+    let shiftAbove = 0;
+    for (const [position, [index, element]] of mounted.entries()) {
+      const rect = element.getBoundingClientRect();
+      if (rect.height <= 0) continue;
+      const following = mounted[position + 1];
+      const pitch =
+        following && following[0] === index + 1
+          ? following[1].getBoundingClientRect().top - rect.top
+          : rect.height + Number.parseFloat(getComputedStyle(element).marginBottom || '0');
+      const key = measureKeys[index];
+      if (key === undefined || pitch <= 0) continue;
+      const assumed = offsets[index + 1]! - offsets[index]!;
+      if (Math.abs(assumed - pitch) <= 0.5) continue;
+      updates.set(key, pitch);
+      if (index < firstVisible) shiftAbove += pitch - assumed;
+    }
+    if (updates.size === 0) return;
+    if (Math.abs(shiftAbove) >= 1 && !document.body.classList.contains('scroll-locked')) {
+      window.scrollBy(0, shiftAbove);
+    }
+    setMeasured(prev => {
+      const live = new Set(measureKeys);
+      const next = new Map([...prev].filter(([key]) => live.has(key)));
+      for (const [key, pitch] of updates) next.set(key, pitch);
+      return next;
+    });
+  });
+
+  const rowRef = useCallback(
+    (index: number) => (element: HTMLElement | null) => {
+      if (element) rowElements.current.set(index, element);
+      else rowElements.current.delete(index);
+    },
+    []
+  );
+
+  const segments = useMemo<RowWindowSegment[]>(
+    () =>
+      enabled
+        ? windowSegments(offsets, range.start, range.end, pinned)
+        : rows.map((_, index) => ({ kind: 'row', index })),
+    [enabled, offsets, range, pinned, rows]
+  );
+
+  return { containerRef, rowRef, segments };
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { getImageProps } from 'next/image';
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+import { IMAGE } from '@/app/constants';
+import type { ViewableContent } from '@/app/types/Content';
+import { exitFullscreen, fullscreenElement, requestFullscreen } from '@/app/utils/fullscreen';
+import {
+  DEFAULT_SLIDESHOW_SETTINGS,
+  serializeSlideshowSettings,
+  shuffleOrder,
+  SLIDESHOW_PRELOAD_COUNT,
+  type SlideshowSettings,
+  stepSlide,
+  upcomingSlides,
+} from '@/app/utils/slideshow';
+
+type OpenViewerState = { images: ViewableContent[]; currentIndex: number };
+
+/** Slideshow state and controls for the fullscreen viewer; returned by `useFullScreenImage`. */
+export interface Slideshow {
+  /** Slideshow mode is on: its controls show, and prev/next follow the play order. */
+  active: boolean;
+  /** The timer is running. False while paused, and after a non-looping run reaches its end. */
+  playing: boolean;
+  settings: SlideshowSettings;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  /** Enter slideshow mode and play, optionally with deep-linked settings. Call from a user gesture. */
+  start: (settings?: SlideshowSettings) => void;
+  stop: () => void;
+  togglePlaying: () => void;
+  updateSettings: (patch: Partial<SlideshowSettings>) => void;
+  next: () => void;
+  previous: () => void;
+}
+
+interface UseSlideshowOptions {
+  fullScreenState: OpenViewerState | null;
+  /** Move the viewer to the index `pick` chooses from the live state; null stays put. */
+  moveTo: (pick: (state: OpenViewerState) => number | null) => void;
+  /** The viewer root — what the slideshow asks the browser to show fullscreen. */
+  modalRef: RefObject<HTMLDivElement | null>;
+  /** Playback holds while the photo is pinch-zoomed, so a slide never changes under a pan. */
+  isZoomed: boolean;
+}
+
+/**
+ * Slideshow / presentation mode for the fullscreen viewer.
+ *
+ * A timer advances the viewer every `intervalMs` in play order — collection order, or a shuffled
+ * order fixed for the run that starts on the photo on screen — wrapping when `loop` is on and
+ * pausing on the last slide when it is off. Any navigation restarts the interval, so a manual step
+ * always gets a full slide's time. The next {@link SLIDESHOW_PRELOAD_COUNT} photos are fetched ahead
+ * through `getImageProps`, which yields the same optimizer URLs the viewer's `<Image>` will request.
+ *
+ * Starting requests native fullscreen on the viewer (best-effort; see `app/utils/fullscreen.ts`),
+ * and stopping leaves it only if the slideshow was what entered it. While active, the settings are
+ * mirrored onto `?slideshow=` (see `parseSlideshowParam`) so the address bar is a shareable link to
+ * the running show. Closing the viewer ends the slideshow.
+ */
+export function useSlideshow({
+  fullScreenState,
+  moveTo,
+  modalRef,
+  isZoomed,
+}: UseSlideshowOptions): Slideshow {
+  const [active, setActive] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [settings, setSettings] = useState<SlideshowSettings>(DEFAULT_SLIDESHOW_SETTINGS);
+  // Shuffled play order (indices into the open list); null plays in collection order.
+  const [order, setOrder] = useState<number[] | null>(null);
+  // Whether this slideshow entered native fullscreen, so stopping does not undo the user's own.
+  const ownsFullscreenRef = useRef(false);
+  // Image ids already fetched ahead this run; the browser caches them, so never request twice.
+  const preloadedRef = useRef<Set<number>>(new Set());
+
+  const isOpen = fullScreenState !== null;
+  const length = fullScreenState?.images.length ?? 0;
+  const currentIndex = fullScreenState?.currentIndex ?? -1;
+
+  // Closing the viewer — by any route — ends the slideshow.
+  useEffect(() => {
+    if (isOpen) return;
+    setActive(false);
+    setPlaying(false);
+    setOrder(null);
+    ownsFullscreenRef.current = false;
+    preloadedRef.current = new Set();
+  }, [isOpen]);
+
+  // Draw a shuffled order when shuffle comes on (or the list changes under it); drop it when off.
+  useEffect(() => {
+    if (!active || !settings.shuffle || length === 0) {
+      if (order) setOrder(null);
+      return;
+    }
+    if (order?.length === length) return;
+    setOrder(shuffleOrder(length, currentIndex));
+  }, [active, settings.shuffle, length, currentIndex, order]);
+
+  useEffect(() => {
+    if (!active || !playing || isZoomed || length === 0) return;
+    const timer = setTimeout(() => {
+      const next = stepSlide(currentIndex, length, order, settings.loop, 1);
+      if (next === null) {
+        setPlaying(false);
+      } else {
+        moveTo(() => next);
+      }
+    }, settings.intervalMs);
+    return () => clearTimeout(timer);
+  }, [
+    active,
+    playing,
+    isZoomed,
+    currentIndex,
+    length,
+    order,
+    settings.loop,
+    settings.intervalMs,
+    moveTo,
+  ]);
+
+  useEffect(() => {
+    if (!active || !fullScreenState) return;
+    const { images } = fullScreenState;
+    for (const index of upcomingSlides(
+      currentIndex,
+      length,
+      order,
+      settings.loop,
+      SLIDESHOW_PRELOAD_COUNT
+    )) {
+      const block = images[index];
+      if (!block || block.contentType === 'GIF' || preloadedRef.current.has(block.id)) continue;
+      preloadedRef.current.add(block.id);
+      // Same src/width/height as the viewer's <Image>, so the srcset — and the cache entry — match.
+      const { props } = getImageProps({
+        src: block.imageUrl,
+        alt: '',
+        width: block.imageWidth || IMAGE.defaultWidth,
+        height: block.imageHeight || IMAGE.defaultHeight,
+      });
+      const preload = new window.Image();
+      if (props.srcSet) preload.srcset = props.srcSet;
+      preload.src = props.src;
+    }
+  }, [active, fullScreenState, currentIndex, length, order, settings.loop]);
+
+  // Mirror the running show onto ?slideshow= (replace, never push: Back still closes the viewer).
+  useEffect(() => {
+    if (!isOpen || typeof window === 'undefined') return;
+    const params = new URLSearchParams(window.location.search);
+    const value = active ? serializeSlideshowSettings(settings) : null;
+    if (params.get('slideshow') === value) return;
+    if (value === null) {
+      params.delete('slideshow');
+    } else {
+      params.set('slideshow', value);
+    }
+    const qs = params.toString();
+    window.history.replaceState(
+      window.history.state,
+      '',
+      `${window.location.pathname}${qs ? `?${qs}` : ''}`
+    );
+  }, [isOpen, active, settings]);
+
+  const start = useCallback(
+    (initial?: SlideshowSettings) => {
+      if (initial) setSettings(initial);
+      setOrder(null);
+      setActive(true);
+      setPlaying(true);
+      if (!fullscreenElement()) {
+        void requestFullscreen(modalRef.current).then(entered => {
+          ownsFullscreenRef.current = entered;
+        });
+      }
+    },
+    [modalRef]
+  );
+
+  const stop = useCallback(() => {
+    setActive(false);
+    setPlaying(false);
+    setOrder(null);
+    if (ownsFullscreenRef.current) {
+      ownsFullscreenRef.current = false;
+      void exitFullscreen();
+    }
+  }, []);
+
+  const step = useCallback(
+    (direction: 1 | -1) => {
+      moveTo(state =>
+        stepSlide(state.currentIndex, state.images.length, order, settings.loop, direction)
+      );
+    },
+    [moveTo, order, settings.loop]
+  );
+
+  const next = useCallback(() => step(1), [step]);
+  const previous = useCallback(() => step(-1), [step]);
+
+  const togglePlaying = useCallback(() => {
+    // Pressing play on the last slide of a finished run-through plays it again from the top.
+    if (!playing && stepSlide(currentIndex, length, order, settings.loop, 1) === null) {
+      moveTo(() => order?.[0] ?? 0);
+    }
+    setPlaying(!playing);
+  }, [playing, currentIndex, length, order, settings.loop, moveTo]);
+
+  const updateSettings = useCallback((patch: Partial<SlideshowSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  return {
+    active,
+    playing,
+    settings,
+    hasNext: stepSlide(currentIndex, length, order, settings.loop, 1) !== null,
+    hasPrevious: stepSlide(currentIndex, length, order, settings.loop, -1) !== null,
+    start,
+    stop,
+    togglePlaying,
+    updateSettings,
+    next,
+    previous,
+  };
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { type ReactNode, useCallback, useEffect, useRef, useState } from 'react';
+
+import { StepUpDialog } from '@/app/components/Mfa/StepUpDialog';
+import { isStepUpRequired } from '@/app/lib/api/core';
+
+export interface StepUp {
+  /**
+   * Run `action`; if the backend refuses it for want of a recent second-factor check, open the
+   * step-up dialog and, once verified, run it once more. Any other failure — or a dismissed
+   * dialog — rejects with the original error, so callers keep their existing error handling.
+   */
+  withStepUp: <T>(action: () => Promise<T>) => Promise<T>;
+  /**
+   * The dialog element; render it anywhere in the caller's tree. Unmounting it dismisses any
+   * check still waiting, so the action rejects rather than hanging with no dialog to answer.
+   */
+  stepUpDialog: ReactNode;
+}
+
+interface StepUpHostProps {
+  open: boolean;
+  onDone: (verified: boolean) => void;
+}
+
+/** The dialog, plus the unmount that settles a check nobody can answer any more. */
+function StepUpHost({ open, onDone }: StepUpHostProps) {
+  useEffect(() => () => onDone(false), [onDone]);
+  return <StepUpDialog open={open} onDone={onDone} />;
+}
+
+/**
+ * Step-up re-authentication for destructive admin actions (deleting a collection or a role,
+ * merging identities). The backend decides when a check is due — it answers 403
+ * `STEP_UP_REQUIRED` when the session's last verification is too old — so the happy path costs
+ * nothing: the action simply succeeds, and the dialog only appears when it is actually needed.
+ *
+ * The hook owns its dialog rather than reaching for a provider because the actions live on
+ * different roots (the `/admin` hub, and the collection edit layer on a public route).
+ */
+export function useStepUp(): StepUp {
+  const [open, setOpen] = useState(false);
+  // The waiting check's resolver. A ref, so the host's unmount cleanup reads the current one.
+  const pendingRef = useRef<((verified: boolean) => void) | null>(null);
+
+  const withStepUp = useCallback(async <T,>(action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error_) {
+      if (!isStepUpRequired(error_)) throw error_;
+      const verified = await new Promise<boolean>(resolve => {
+        pendingRef.current = resolve;
+        setOpen(true);
+      });
+      if (!verified) throw error_;
+      return await action();
+    }
+  }, []);
+
+  const handleDone = useCallback((verified: boolean) => {
+    const resolve = pendingRef.current;
+    pendingRef.current = null;
+    setOpen(false);
+    resolve?.(verified);
+  }, []);
+
+  return {
+    withStepUp,
+    stepUpDialog: <StepUpHost open={open} onDone={handleDone} />,
+  };
+}
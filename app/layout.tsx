@@ -10,15 +10,29 @@ import { type ReactNode } from 'react';
 
 import { Footer } from '@/app/components/Footer/Footer';
 import { SkipLink } from '@/app/components/ui/SkipLink/SkipLink';
+import { siteOrigin } from '@/app/utils/structuredData';
 
 const inter = Inter({ subsets: ['latin'], display: 'swap' });
 
 export const metadata: Metadata = {
+  // Resolves relative OG/Twitter image and canonical URLs against the public origin.
+  metadataBase: new URL(siteOrigin()),
   title: {
     default: 'Edens Zac',
     template: '%s | Edens Zac',
   },
   description: 'Edens Zac portfolio',
+  // Feed autodiscovery: readers pointed at any page find the site-wide streams.
+  alternates: {
+    types: {
+      'application/rss+xml': [
+        { url: '/feeds/collections.rss', title: 'New collections' },
+        { url: '/feeds/blog.rss', title: 'Stories' },
+      ],
+      'application/atom+xml': [{ url: '/feeds/collections.atom', title: 'New collections' }],
+      'application/feed+json': [{ url: '/feeds/collections.json', title: 'New collections' }],
+    },
+  },
 };
 
 export const viewport: Viewport = {
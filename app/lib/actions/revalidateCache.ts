@@ -0,0 +1,70 @@
+'use server';
+
+import { revalidatePath, revalidateTag } from 'next/cache';
+
+import { meServer } from '@/app/lib/api/auth';
+import { collectionTargets, isSlug } from '@/app/lib/revalidation/events';
+import { isLocalEnvironment } from '@/app/utils/environment';
+import { canCollaborateOnCollection, owesSecondFactor } from '@/app/utils/galleryAccess';
+
+export type RevalidateCacheResult = { ok: true } | { ok: false; error: string };
+
+// The manage page's own cache invalidation, after a save it made. This used to be a fetch to
+// /api/revalidate, but that route is now the backend's signed webhook and a browser cannot hold
+// the signing secret — so the admin's session authorizes it instead, the same way it authorizes
+// the save itself: an admin still owing their second factor is refused, as requireAdmin() would.
+// Local/dev is open, matching requireAdmin().
+export async function revalidateCacheAction(targets: {
+  tags?: string[];
+  paths?: string[];
+}): Promise<RevalidateCacheResult> {
+  if (!isLocalEnvironment()) {
+    const principal = await meServer();
+    if (!principal?.isAdmin || owesSecondFactor(principal)) {
+      return { ok: false, error: 'Unauthorized' };
+    }
+  }
+
+  // Server action arguments arrive from the client; take only what a cache key can be.
+  const tags = (targets.tags ?? []).filter(tag => typeof tag === 'string' && tag.length > 0);
+  const paths = (targets.paths ?? []).filter(
+    path => typeof path === 'string' && path.startsWith('/')
+  );
+
+  try {
+    for (const tag of tags) revalidateTag(tag, 'max');
+    for (const path of paths) revalidatePath(path);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  return { ok: true };
+}
+
+// A collaborator's saves go through the `edit` channel, and their session cannot authorize the
+// admin action above. This one takes no targets from the client at all: it checks the caller
+// collaborates on `collectionId` and invalidates the collection targets for `slug`. The slug is
+// still the caller's word, so at worst a collaborator refreshes some other collection's cache —
+// a refetch, never a change to what it holds.
+export async function revalidateCollaboratorCacheAction(
+  collectionId: number,
+  slug: string
+): Promise<RevalidateCacheResult> {
+  if (!isLocalEnvironment()) {
+    const principal = await meServer();
+    if (!principal?.isAdmin && !canCollaborateOnCollection(principal ?? null, collectionId)) {
+      return { ok: false, error: 'Unauthorized' };
+    }
+  }
+  if (!isSlug(slug)) {
+    return { ok: false, error: 'Invalid slug' };
+  }
+
+  const { tags, paths } = collectionTargets(slug);
+  try {
+    for (const tag of tags) revalidateTag(tag, 'max');
+    for (const path of paths) revalidatePath(path);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  return { ok: true };
+}
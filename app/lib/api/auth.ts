@@ -12,11 +12,19 @@
 import { cache } from 'react';
 
 import { ApiError, getApiBaseUrl, getServerCookieHeader } from '@/app/lib/api/core';
-import { type MeResponse } from '@/app/types/Auth';
+import {
+  type AuthSession,
+  type MeResponse,
+  type MfaStatus,
+  type PasskeyCredential,
+  type TotpConfirmation,
+  type TotpEnrollment,
+} from '@/app/types/Auth';
 
 /**
  * Browser event dispatched on `window` whenever a client-side auth call changes the
- * session — successful `login()`, `loginWithPasskey()`, or `logout()`. Client hooks
+ * session — successful `login()`, `loginWithPasskey()`, `logout()`, or a second-factor
+ * check (`confirmTotpEnrollment()`, `verifyMfa()`, `verifyMfaWithPasskey()`). Client hooks
  * that cache the principal (`useFetchMe`) listen for it and refetch, so always-mounted
  * surfaces (the nav menu) update without a remount or hard refresh.
  */
@@ -51,7 +59,9 @@ async function throwFromResponse(res: Response): Promise<never> {
       : detail && typeof detail === 'object'
         ? ((detail as { message?: string }).message ?? JSON.stringify(detail))
         : `API error: ${res.status}`;
-  throw new ApiError(message, res.status);
+  const code =
+    detail && typeof detail === 'object' ? (detail as { code?: unknown }).code : undefined;
+  throw new ApiError(message, res.status, typeof code === 'string' ? code : undefined);
 }
 
 /**
@@ -249,21 +259,17 @@ interface RequestOptionsJSON {
 }
 
 /**
- * Log in with a passkey (public, no session required). Drives the WebAuthn
- * assertion ceremony: fetch request options for `email`, decode the base64url
- * binary fields, call `navigator.credentials.get()`, encode the assertion back
- * to base64url, and POST it to `/webauthn/login/finish` (the backend sets the
- * session cookie on `204`). Dispatches {@link AUTH_CHANGED_EVENT} once the finish
- * step succeeds. Throws `ApiError` (e.g. `429`) on a non-OK round-trip.
+ * Drive a WebAuthn assertion ceremony: POST `startBody` to `startUrl` for request
+ * options, decode the base64url binary fields, call `navigator.credentials.get()`,
+ * encode the assertion back to base64url, and POST it to `finishUrl`. Throws
+ * `ApiError` on a non-OK round-trip. Shared by passkey sign-in and passkey MFA.
  */
-export async function loginWithPasskey(email: string): Promise<void> {
-  if (!email) throw new Error('email is required');
-
-  const startRes = await fetch('/api/proxy/api/auth/webauthn/login/start', {
+async function assertPasskey(startUrl: string, startBody: unknown, finishUrl: string) {
+  const startRes = await fetch(startUrl, {
     method: 'POST',
     credentials: 'same-origin',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ email }),
+    body: JSON.stringify(startBody),
     cache: 'no-store',
   });
   if (!startRes.ok) {
@@ -296,7 +302,7 @@ export async function loginWithPasskey(email: string): Promise<void> {
     },
   };
 
-  const finishRes = await fetch('/api/proxy/api/auth/webauthn/login/finish', {
+  const finishRes = await fetch(finishUrl, {
     method: 'POST',
     credentials: 'same-origin',
     headers: { 'Content-Type': 'application/json' },
@@ -306,6 +312,205 @@ export async function loginWithPasskey(email: string): Promise<void> {
   if (!finishRes.ok) {
     await throwFromResponse(finishRes);
   }
+}
+
+/**
+ * Log in with a passkey (public, no session required). Drives the WebAuthn
+ * assertion ceremony for `email` against `/webauthn/login/start` and
+ * `/webauthn/login/finish` (the backend sets the session cookie on `204`).
+ * Dispatches {@link AUTH_CHANGED_EVENT} once the finish step succeeds. Throws
+ * `ApiError` (e.g. `429`) on a non-OK round-trip.
+ */
+export async function loginWithPasskey(email: string): Promise<void> {
+  if (!email) throw new Error('email is required');
+  await assertPasskey(
+    '/api/proxy/api/auth/webauthn/login/start',
+    { email },
+    '/api/proxy/api/auth/webauthn/login/finish'
+  );
+  dispatchAuthChanged();
+}
+
+/**
+ * List the signed-in user's registered passkeys. GETs
+ * `/api/proxy/api/auth/webauthn/credentials`, oldest first as the backend returns
+ * them. Throws `ApiError` on any non-OK status (401 when the session has expired).
+ */
+export async function listPasskeys(): Promise<PasskeyCredential[]> {
+  const res = await fetch('/api/proxy/api/auth/webauthn/credentials', {
+    method: 'GET',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as PasskeyCredential[];
+}
+
+/**
+ * Rename one of the signed-in user's passkeys. PATCHes `{nickname}` to
+ * `/api/proxy/api/auth/webauthn/credentials/{id}` and resolves with the updated
+ * credential. A blank nickname clears it. Throws `ApiError` on any non-OK status
+ * (404 when the passkey is not the caller's or was already removed).
+ */
+export async function renamePasskey(id: string, nickname: string): Promise<PasskeyCredential> {
+  if (!id) throw new Error('id is required');
+  const res = await fetch(`/api/proxy/api/auth/webauthn/credentials/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ nickname: nickname.trim() || null }),
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as PasskeyCredential;
+}
+
+/**
+ * Remove one of the signed-in user's passkeys. DELETEs
+ * `/api/proxy/api/auth/webauthn/credentials/{id}`; resolves on `204`. The device
+ * holding it can no longer sign in with it, though its sessions stay alive until
+ * signed out. Throws `ApiError` on any non-OK status.
+ */
+export async function removePasskey(id: string): Promise<void> {
+  if (!id) throw new Error('id is required');
+  const res = await fetch(`/api/proxy/api/auth/webauthn/credentials/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+}
+
+/**
+ * List the signed-in user's live sessions, the current one flagged `current`.
+ * GETs `/api/proxy/api/auth/sessions`. Throws `ApiError` on any non-OK status.
+ */
+export async function listSessions(): Promise<AuthSession[]> {
+  const res = await fetch('/api/proxy/api/auth/sessions', {
+    method: 'GET',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as AuthSession[];
+}
+
+/**
+ * Revoke every session except the current one. POSTs to
+ * `/api/proxy/api/auth/sessions/revoke-others`; resolves on `204`. Does not
+ * dispatch {@link AUTH_CHANGED_EVENT} — this browser's principal is unchanged.
+ * Throws `ApiError` on any non-OK status.
+ */
+export async function signOutOtherSessions(): Promise<void> {
+  const res = await fetch('/api/proxy/api/auth/sessions/revoke-others', {
+    method: 'POST',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+}
+
+/**
+ * The signed-in user's second factors. GETs `/api/proxy/api/auth/mfa`. Throws
+ * `ApiError` on any non-OK status.
+ */
+export async function getMfaStatus(): Promise<MfaStatus> {
+  const res = await fetch('/api/proxy/api/auth/mfa', {
+    method: 'GET',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as MfaStatus;
+}
+
+/**
+ * Begin authenticator-app enrollment. POSTs to `/api/proxy/api/auth/mfa/totp/start`
+ * and resolves with the pending secret and its QR code. Nothing is switched on
+ * until {@link confirmTotpEnrollment} proves the app produces valid codes.
+ */
+export async function startTotpEnrollment(): Promise<TotpEnrollment> {
+  const res = await fetch('/api/proxy/api/auth/mfa/totp/start', {
+    method: 'POST',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as TotpEnrollment;
+}
+
+/**
+ * Finish authenticator-app enrollment with a code from the app. POSTs `{code}` to
+ * `/api/proxy/api/auth/mfa/totp/confirm` and resolves with the one-time recovery
+ * codes — the only time they are ever returned. The confirming session counts as
+ * verified, so this dispatches {@link AUTH_CHANGED_EVENT}. Throws `ApiError(400)`
+ * on a wrong code.
+ */
+export async function confirmTotpEnrollment(code: string): Promise<TotpConfirmation> {
+  if (!code.trim()) throw new Error('code is required');
+  const res = await fetch('/api/proxy/api/auth/mfa/totp/confirm', {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code: code.replace(/\s/g, '') }),
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  const confirmation = (await res.json()) as TotpConfirmation;
+  dispatchAuthChanged();
+  return confirmation;
+}
+
+/**
+ * Verify the second factor with an authenticator-app or recovery code. POSTs
+ * `{code}` to `/api/proxy/api/auth/mfa/verify`; resolves on `204`. Serves both the
+ * challenge after a password sign-in (the session becomes `mfaSatisfied`) and
+ * step-up before a destructive admin action (the session's verification is
+ * refreshed). Dispatches {@link AUTH_CHANGED_EVENT}. Throws `ApiError(401)` on a
+ * wrong code and `ApiError(429)` when rate-limited.
+ */
+export async function verifyMfa(code: string): Promise<void> {
+  if (!code.trim()) throw new Error('code is required');
+  const res = await fetch('/api/proxy/api/auth/mfa/verify', {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code: code.replace(/\s/g, '') }),
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  dispatchAuthChanged();
+}
+
+/**
+ * Passkey counterpart to {@link verifyMfa}: the assertion ceremony against
+ * `/mfa/webauthn/start` and `/mfa/webauthn/finish`, limited by the backend to the
+ * signed-in user's own passkeys. Dispatches {@link AUTH_CHANGED_EVENT} on success.
+ */
+export async function verifyMfaWithPasskey(): Promise<void> {
+  await assertPasskey(
+    '/api/proxy/api/auth/mfa/webauthn/start',
+    {},
+    '/api/proxy/api/auth/mfa/webauthn/finish'
+  );
   dispatchAuthChanged();
 }
 
@@ -0,0 +1,55 @@
+/**
+ * Change log API — the admin's view of canonical content/collection mutations
+ * (`/api/admin/change-log`), with per-admin read state and a revert per row. See
+ * `app/types/ChangeLog.ts` for what a row carries.
+ */
+
+import {
+  type ChangeLogEntry,
+  type ChangeLogPage,
+  type ChangeLogQuery,
+} from '@/app/types/ChangeLog';
+
+import { fetchAdminGetApi, fetchAdminPostJsonApi } from './core';
+
+const BASE = '/change-log';
+
+/** Rows per request: the panel's first page, and each "Load more" after it. */
+export const CHANGE_LOG_PAGE_SIZE = 50;
+
+const EMPTY_PAGE: ChangeLogPage = { entries: [], total: 0, unseen: 0, collections: [], actors: [] };
+
+function buildChangeLogQuery(query: ChangeLogQuery): string {
+  const searchParams = new URLSearchParams();
+  searchParams.set('limit', String(query.limit ?? CHANGE_LOG_PAGE_SIZE));
+  if (query.offset) searchParams.set('offset', String(query.offset));
+  if (query.collectionId != null) searchParams.set('collectionId', String(query.collectionId));
+  if (query.actor) searchParams.set('actor', query.actor);
+  if (query.changeType) searchParams.set('changeType', query.changeType);
+  return searchParams.toString();
+}
+
+/**
+ * One page of changes, newest first, filtered by the backend across the whole log — `total` is
+ * the filtered count, so `offset` can page past it. An empty (204) body reads as an empty log.
+ */
+export async function getChangeLog(query: ChangeLogQuery = {}): Promise<ChangeLogPage> {
+  return (
+    (await fetchAdminGetApi<ChangeLogPage>(`${BASE}?${buildChangeLogQuery(query)}`, {
+      cache: 'no-store',
+    })) ?? EMPTY_PAGE
+  );
+}
+
+/** Mark every change up to and including `throughId` read for the signed-in admin. */
+export async function markChangeLogSeen(throughId: number): Promise<void> {
+  await fetchAdminPostJsonApi<void>(`${BASE}/seen`, { throughId });
+}
+
+/**
+ * Write the entry's before-value back. Resolves the updated entry (`revertedAt` set); throws
+ * `ApiError(409)` when the entry is no longer revertible.
+ */
+export async function revertChange(entryId: number): Promise<ChangeLogEntry | null> {
+  return await fetchAdminPostJsonApi<ChangeLogEntry>(`${BASE}/${entryId}/revert`, {});
+}
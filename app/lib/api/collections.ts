@@ -18,6 +18,10 @@ import {
   fetchEditPostJsonApi,
   fetchReadApi,
 } from '@/app/lib/api/core';
+import {
+  type CollaboratorImageUpdate,
+  type CollectionActivityEntry,
+} from '@/app/types/Collaboration';
 import {
   type CollectionCreateRequest,
   type CollectionModel,
@@ -26,6 +30,13 @@ import {
   type GeneralMetadataDTO,
 } from '@/app/types/Collection';
 import { type CollectionVisibility } from '@/app/types/CollectionVisibility';
+import { type ContentImageModel } from '@/app/types/Content';
+import {
+  type GalleryAccessCode,
+  type GalleryAccessCodeRequest,
+  type GalleryAccessCodeResponse,
+  type GalleryAccessLogEntry,
+} from '@/app/types/GalleryAccess';
 import { logger } from '@/app/utils/logger';
 
 // ============================================================================
@@ -73,9 +84,10 @@ export function parseCollectionArrayResponse(data: unknown): CollectionModel[] {
 
 /**
  * GET /api/read/collections
- * Get all collections with basic info (paginated)
+ * One page of collections with basic info. Only a 404 reads as empty; any other failure throws,
+ * for callers that must tell "no collections" from "could not read them" (the sitemap's walk).
  */
-export async function getAllCollections(
+export async function getCollectionsPage(
   page = 0,
   size: number = PAGINATION.homePageSize
 ): Promise<CollectionModel[]> {
@@ -86,6 +98,21 @@ export async function getAllCollections(
     return parseCollectionArrayResponse(data);
   } catch (error) {
     if (error instanceof ApiError && error.status === 404) return [];
+    throw error;
+  }
+}
+
+/**
+ * GET /api/read/collections
+ * Get all collections with basic info (paginated). A failed read is logged and returns `[]`.
+ */
+export async function getAllCollections(
+  page = 0,
+  size: number = PAGINATION.homePageSize
+): Promise<CollectionModel[]> {
+  try {
+    return await getCollectionsPage(page, size);
+  } catch (error) {
     logger.error('collections', 'Failed to fetch all collections', error);
     return [];
   }
@@ -168,8 +195,12 @@ export async function getCollectionsByLocation(
  * cookie. The browser stores it transparently — `credentials: 'same-origin'`
  * ensures the cookie is accepted from the same-origin proxy response.
  *
- * Throws `ApiError` with status `429` when the rate limiter rejects the
- * request, so callers can surface a friendly "too many attempts" message.
+ * Accepts the shared gallery password or a recipient's access code (see
+ * `GalleryAccessCode`). Throws `ApiError` with status `429` when the rate
+ * limiter rejects the request, so callers can surface a friendly "too many
+ * attempts" message, and with status `410` for a code that is no longer good —
+ * carrying `ACCESS_CODE_EXHAUSTED` as its `code` when the download limit closed
+ * it, as share links do (see `isExhausted`).
  */
 export async function validateClientGalleryAccess(
   slug: string,
@@ -199,8 +230,10 @@ export async function validateClientGalleryAccess(
         : detail && typeof detail === 'object'
           ? ((detail as { message?: string }).message ?? JSON.stringify(detail))
           : `API error: ${res.status}`;
+    const code =
+      detail && typeof detail === 'object' ? (detail as { code?: unknown }).code : undefined;
     if (res.status === 404) throw new ApiError('Gallery not found', 404);
-    throw new ApiError(message, res.status);
+    throw new ApiError(message, res.status, typeof code === 'string' ? code : undefined);
   }
   // Runtime-validate the response shape — backend should always return
   // `{ hasAccess: boolean }` but a regression here would silently flip the gate
@@ -284,6 +317,57 @@ export async function saveGalleryAccess(
   return result;
 }
 
+/**
+ * GET /api/admin/collections/{id}/access-codes
+ * Every recipient access code on the collection, newest first, lapsed ones included.
+ */
+export async function listGalleryAccessCodes(id: number): Promise<GalleryAccessCode[]> {
+  return (
+    (await fetchAdminGetApi<GalleryAccessCode[]>(`/collections/${id}/access-codes`, {
+      cache: 'no-store',
+    })) ?? []
+  );
+}
+
+/**
+ * POST /api/admin/collections/{id}/access-codes
+ * Issue a code for one recipient. The backend generates the code and, when asked, emails it. Same
+ * contract as {@link saveGalleryAccess}: an empty body is a failure, not a silent no-op.
+ */
+export async function createGalleryAccessCode(
+  id: number,
+  body: GalleryAccessCodeRequest
+): Promise<GalleryAccessCodeResponse> {
+  const result = await fetchAdminPostJsonApi<GalleryAccessCodeResponse>(
+    `/collections/${id}/access-codes`,
+    body
+  );
+  if (result === null) {
+    throw new ApiError('Failed to create access code — see network tab for details.', 400);
+  }
+  return result;
+}
+
+/**
+ * DELETE /api/admin/collections/{id}/access-codes/{codeId}
+ * Revoke a code. Cookies it already set stop working too; its rows stay in the access log.
+ */
+export async function revokeGalleryAccessCode(id: number, codeId: number): Promise<void> {
+  await fetchAdminDeleteApi<void>(`/collections/${id}/access-codes/${codeId}`);
+}
+
+/**
+ * GET /api/admin/collections/{id}/access-log
+ * Who opened the gallery: one row per code (plus one for the shared password), most recent first.
+ */
+export async function getGalleryAccessLog(id: number): Promise<GalleryAccessLogEntry[]> {
+  return (
+    (await fetchAdminGetApi<GalleryAccessLogEntry[]>(`/collections/${id}/access-log`, {
+      cache: 'no-store',
+    })) ?? []
+  );
+}
+
 /**
  * DELETE /api/admin/collections/{id}
  * Hard-delete a collection. The backend cleans up association rows
@@ -350,6 +434,45 @@ export async function reorderCollectionContent(
   });
 }
 
+/**
+ * PATCH /api/edit/collections/{collectionId}/images
+ * Caption, rating and tag changes to images in a collection — the collaborator's counterpart to
+ * the admin `updateImages`, scoped to this one collection. Returns the updated images.
+ */
+export async function updateCollaboratorImages(
+  collectionId: number,
+  updates: CollaboratorImageUpdate[]
+): Promise<ContentImageModel[]> {
+  return (
+    (await fetchEditPatchJsonApi<ContentImageModel[]>(`/collections/${collectionId}/images`, {
+      updates,
+    })) ?? []
+  );
+}
+
+/**
+ * PATCH /api/edit/collections/{collectionId}/cover
+ * Make one of the collection's images its cover.
+ */
+export async function setCollectionCover(
+  collectionId: number,
+  coverImageId: number
+): Promise<void> {
+  await fetchEditPatchJsonApi<void>(`/collections/${collectionId}/cover`, { coverImageId });
+}
+
+/**
+ * GET /api/admin/collections/{id}/activity
+ * The attributed log of collaborator edits on the collection, newest first.
+ */
+export async function getCollectionActivity(id: number): Promise<CollectionActivityEntry[]> {
+  return (
+    (await fetchAdminGetApi<CollectionActivityEntry[]>(`/collections/${id}/activity`, {
+      cache: 'no-store',
+    })) ?? []
+  );
+}
+
 /**
  * PUT /api/admin/collections/{id}/people
  * Replace the people list on a collection. Pass the desired set of person IDs;
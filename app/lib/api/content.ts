@@ -8,7 +8,6 @@
 import { TIMING } from '@/app/constants';
 import {
   fetchAdminDeleteJsonApi,
-  fetchAdminFormDataApi,
   fetchAdminGetApi,
   fetchAdminPatchJsonApi,
   fetchAdminPostJsonApi,
@@ -26,6 +25,7 @@ import {
   type ContentImageUpdateRequest,
 } from '@/app/types/Content';
 import { type ContentTagModel } from '@/app/types/Metadata';
+import { type ContentFilterCriteria } from '@/app/utils/contentFilter';
 import { logger } from '@/app/utils/logger';
 
 // ============================================================================
@@ -37,11 +37,17 @@ import { logger } from '@/app/utils/logger';
  * Get all tags (ordered alphabetically)
  */
 export async function getAllTags(): Promise<ContentTagModel[] | null> {
-  const raw = await fetchReadApi<Array<{ id: number; tagName: string; slug: string }>>(
-    '/content/tags',
-    { next: { revalidate: TIMING.revalidateCache, tags: ['content-tags'] } }
+  const raw = await fetchReadApi<
+    Array<{ id: number; tagName: string; slug: string; aliases?: string[] }>
+  >('/content/tags', { next: { revalidate: TIMING.revalidateCache, tags: ['content-tags'] } });
+  return (
+    raw?.map(t => ({
+      id: t.id,
+      name: t.tagName,
+      slug: t.slug,
+      ...(t.aliases?.length ? { aliases: t.aliases } : {}),
+    })) ?? null
   );
-  return raw?.map(t => ({ id: t.id, name: t.tagName, slug: t.slug })) ?? null;
 }
 
 /**
@@ -53,6 +59,8 @@ export async function getAllLocations(): Promise<Array<{
   name: string;
   slug: string;
   count?: number;
+  /** Alias and pre-rename slugs; see `ContentTagModel.aliases`. */
+  aliases?: string[];
 }> | null> {
   return fetchReadApi('/content/locations', {
     next: { revalidate: TIMING.revalidateCache, tags: ['content-locations'] },
@@ -73,17 +81,23 @@ export interface SearchImagesParams {
   minRating?: number;
   isFilm?: boolean;
   blackAndWhite?: boolean;
+  /** Free text, matched by the backend against title, caption, tags, people and location. */
+  query?: string;
+  /** ISO YYYY-MM-DD; inclusive lower bound on capture_date. */
+  captureStartDate?: string;
+  /** ISO YYYY-MM-DD; inclusive upper bound on capture_date. */
+  captureEndDate?: string;
+  /** Restrict to images held by ANY of these collections. */
+  collectionIds?: number[];
   page?: number;
   size?: number;
 }
 
-/**
- * GET /api/read/content/images/search
- * Multi-dimensional image search with optional filters
- */
-export async function searchImages(params: SearchImagesParams): Promise<ContentImageModel[]> {
+function buildSearchQuery(params: SearchImagesParams): string {
   const searchParams = new URLSearchParams();
 
+  const query = params.query?.trim();
+  if (query) searchParams.set('q', query);
   if (params.tagIds?.length) searchParams.set('tagIds', params.tagIds.join(','));
   if (params.personIds?.length) searchParams.set('personIds', params.personIds.join(','));
   if (params.cameraId !== undefined) searchParams.set('cameraId', String(params.cameraId));
@@ -93,10 +107,39 @@ export async function searchImages(params: SearchImagesParams): Promise<ContentI
   if (params.isFilm !== undefined) searchParams.set('isFilm', String(params.isFilm));
   if (params.blackAndWhite !== undefined)
     searchParams.set('blackAndWhite', String(params.blackAndWhite));
+  if (params.captureStartDate) searchParams.set('captureStartDate', params.captureStartDate);
+  if (params.captureEndDate) searchParams.set('captureEndDate', params.captureEndDate);
+  if (params.collectionIds?.length)
+    searchParams.set('collectionIds', params.collectionIds.join(','));
   if (params.page !== undefined) searchParams.set('page', String(params.page));
   if (params.size !== undefined) searchParams.set('size', String(params.size));
 
-  const query = searchParams.toString();
+  return searchParams.toString();
+}
+
+/**
+ * Map filter criteria onto the search endpoint's SCOPE: the free text, capture-date range and
+ * collection restriction, none of which can be answered from a page of results already loaded.
+ * The named facets (tags, people, cameras, film, rating...) are deliberately left out so a
+ * results page can count and refine them client-side with `computeFilterCounts` — sending them
+ * here would pre-filter the very set those counts are taken over.
+ */
+export function searchScopeFromCriteria(criteria: ContentFilterCriteria): SearchImagesParams {
+  const scope: SearchImagesParams = {};
+  const query = criteria.query?.trim();
+  if (query) scope.query = query;
+  if (criteria.dateFrom) scope.captureStartDate = criteria.dateFrom.slice(0, 10);
+  if (criteria.dateTo) scope.captureEndDate = criteria.dateTo.slice(0, 10);
+  if (criteria.collectionIds?.length) scope.collectionIds = [...criteria.collectionIds];
+  return scope;
+}
+
+/**
+ * GET /api/read/content/images/search
+ * Multi-dimensional image search with optional filters
+ */
+export async function searchImages(params: SearchImagesParams): Promise<ContentImageModel[]> {
+  const query = buildSearchQuery(params);
   const endpoint = `/content/images/search${query ? `?${query}` : ''}`;
 
   const result = await fetchReadApi<ContentImageModel[] | { content: ContentImageModel[] }>(
@@ -117,41 +160,23 @@ export async function searchImages(params: SearchImagesParams): Promise<ContentI
   );
 }
 
-// ============================================================================
-// ADMIN Endpoints (Dev only - /api/admin/content)
-// ============================================================================
-
-/**
- * Response shape for image upload operations.
- * Backend returns three arrays: successfully uploaded images, failed filenames, and skipped filenames.
- */
-export interface ImageUploadResponse {
-  successful: ContentImageModel[];
-  failed: Array<{ filename: string; reason: string }>;
-  skipped: Array<{ filename: string; reason: string }>;
-}
-
 /**
- * POST /api/admin/content/images/{collectionId}
- * Create and upload images to a collection
+ * GET /api/read/content/images/search
+ * One page of search results with its envelope, for surfaces that paginate the search (`/search`).
+ * Same filters as {@link searchImages}; `page` defaults to 0 and `size` to 60.
  */
-export async function createImages(
-  collectionId: number,
-  formData: FormData
-): Promise<ImageUploadResponse | null> {
-  return fetchAdminFormDataApi<ImageUploadResponse>(`/content/images/${collectionId}`, formData);
+export async function searchImagesPage(params: SearchImagesParams): Promise<PagedImages> {
+  const { page = 0, size = 60 } = params;
+  const data = await fetchReadApi<unknown>(
+    `/content/images/search?${buildSearchQuery({ ...params, page, size })}`,
+    { next: { revalidate: TIMING.revalidateCache, tags: ['search-images'] } }
+  );
+  return toPagedImages(data, page, size);
 }
 
-/**
- * POST /api/admin/content/{collectionId}/gifs
- * Upload a single GIF or video file to a collection.
- * Accepted MIME types: video/mp4, video/quicktime, image/gif
- */
-export async function createGif(collectionId: number, file: File): Promise<ContentGifModel | null> {
-  const formData = new FormData();
-  formData.append('file', file);
-  return fetchAdminFormDataApi<ContentGifModel>(`/content/${collectionId}/gifs`, formData);
-}
+// ============================================================================
+// ADMIN Endpoints (Dev only - /api/admin/content)
+// ============================================================================
 
 /**
  * Patch payload for {@link updateGif}. Only non-null fields are applied on the backend.
@@ -319,6 +344,16 @@ export async function getAllImages(params: GetAllImagesParams = {}): Promise<Pag
     cache: 'no-store',
   });
 
+  return toPagedImages(data, page, size);
+}
+
+/** Unwrap a Spring `Page<>` envelope (or a bare array) into {@link PagedImages}. */
+function toPagedImages(data: unknown, page: number, size: number): PagedImages {
+  if (Array.isArray(data)) {
+    const items = data as ContentImageModel[];
+    return { items, page, totalPages: 1, totalElements: items.length, isLast: true };
+  }
+
   if (data && typeof data === 'object') {
     const env = data as Record<string, unknown>;
     const items = Array.isArray(env.content) ? (env.content as ContentImageModel[]) : [];
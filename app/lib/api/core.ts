@@ -86,18 +86,51 @@ function buildSimpleApiUrl(endpointType: string, endpoint: string): string {
 }
 
 /**
- * Custom error class for API responses
+ * Custom error class for API responses. `code` carries the backend's machine-readable error code
+ * when the body has one (e.g. {@link STEP_UP_REQUIRED}); the message stays the display text.
  */
 export class ApiError extends Error {
   status: number;
+  code?: string;
 
-  constructor(message: string, status: number) {
+  constructor(message: string, status: number, code?: string) {
     super(message);
     this.status = status;
+    this.code = code;
     this.name = 'ApiError';
   }
 }
 
+/**
+ * Error code on the backend's 403 for a destructive admin action attempted without a recent
+ * second-factor check. The action is retried once the admin has re-verified (see `useStepUp`).
+ */
+export const STEP_UP_REQUIRED = 'STEP_UP_REQUIRED';
+
+/** Whether `error` is the backend asking for a fresh second-factor check before retrying. */
+export function isStepUpRequired(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 403 && error.code === STEP_UP_REQUIRED;
+}
+
+/** Error code on the backend's 410 for a share link that has reached its view limit. */
+export const SHARE_EXHAUSTED = 'SHARE_EXHAUSTED';
+
+/** Error code on the backend's 410 for a gallery access code that has reached its download limit. */
+export const ACCESS_CODE_EXHAUSTED = 'ACCESS_CODE_EXHAUSTED';
+
+const EXHAUSTED_CODES: ReadonlySet<string | undefined> = new Set([
+  SHARE_EXHAUSTED,
+  ACCESS_CODE_EXHAUSTED,
+]);
+
+/**
+ * Whether `error` is the backend's 410 for something that ran out of uses rather than out of time.
+ * Any other 410 on the same endpoints means expired.
+ */
+export function isExhausted(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 410 && EXHAUSTED_CODES.has(error.code);
+}
+
 /**
  * Unified error handling for API requests
  * Handles both Response errors and catch block errors
@@ -125,7 +158,8 @@ async function throwApiError(error: unknown, response?: Response): Promise<never
     const errorData = await responseObj.json().catch(() => null);
     throw new ApiError(
       errorData?.message || `API error: ${responseObj.status} ${responseObj.statusText}`,
-      responseObj.status
+      responseObj.status,
+      typeof errorData?.code === 'string' ? errorData.code : undefined
     );
   }
 
@@ -254,14 +288,17 @@ export async function fetchAdminPatchJsonApi<T>(
   });
 }
 
-/** POST FormData to the admin endpoint — used for image uploads */
-export async function fetchAdminFormDataApi<T>(
+/** PUT raw bytes to the admin endpoint — one chunk of a chunked upload */
+export async function fetchAdminPutBytesApi<T>(
   endpoint: string,
-  formData: FormData
+  body: Blob,
+  options: { headers?: Record<string, string>; signal?: AbortSignal } = {}
 ): Promise<T | null> {
   return await fetchBase<T>('admin', endpoint, {
-    method: 'POST',
-    body: formData,
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream', ...options.headers },
+    body,
+    signal: options.signal,
   });
 }
 
@@ -1,53 +1,110 @@
 /**
- * Download URL Builders
+ * Client gallery downloads.
  *
- * Pure helpers that produce BFF-routed download URLs for client galleries.
- * Auth (httpOnly `gallery_access_{slug}` cookie set on the gate) flows
- * automatically via `same-origin`, so callers just navigate to these URLs
- * (e.g. `window.location.href = ...`) and the browser handles the response.
+ * Single images are a navigation to a BFF-routed URL: auth (httpOnly `gallery_access_{slug}`
+ * cookie set on the gate) flows automatically via `same-origin`, the backend redirects to a
+ * presigned S3 URL, and the browser saves the `Content-Disposition: attachment` response.
  *
- * Collection ZIP downloads are intentionally navigation-based rather than
- * `fetch`+blob: a full-gallery ZIP can be large, and streaming straight to disk
- * avoids buffering the whole archive in memory. The tradeoff is that an HTTP
- * error can't be surfaced inline (the browser navigates to the error response);
- * the single-image button uses `fetch`+blob precisely because those payloads are
- * small enough to inspect and report failures on.
+ * Collection ZIPs are background export jobs (see `app/types/ExportJob.ts`). A streamed ZIP of a
+ * large gallery outlived mobile connections, and as a navigation it could not report an error
+ * inline. Now the client starts a job, polls it for progress, and downloads the finished archive
+ * from {@link exportArchiveUrl} — a plain link, so the browser can resume it, and one the backend
+ * can email. The job calls are client-side `fetch`es under the READ channel and throw `ApiError`
+ * on any non-OK response, carrying the backend's readable message.
  *
  * Backend endpoints:
- * - GET /api/read/content/images/{id}/download?format=web|original
- * - GET /api/read/collections/{slug}/download?format=web|original
- * - GET /api/read/collections/{slug}/download?format=web|original&imageIds=1,2,3 (selected subset)
+ * - GET  /api/read/content/images/{id}/download?format=web|original
+ * - POST /api/read/collections/{slug}/exports          → ExportJob (body: ExportJobRequest)
+ * - GET  /api/read/exports/{id}                        → ExportJob
+ * - POST /api/read/exports/{id}/email                  → ExportJob (body: { email })
+ * - GET  /api/read/exports/{id}/archive                (302 to the presigned archive; Range-capable)
  */
 
+import { ApiError } from '@/app/lib/api/core';
+import { type ExportJob } from '@/app/types/ExportJob';
+
 export type DownloadFormat = 'web' | 'original';
 
+const READ_BASE = '/api/proxy/api/read';
+
 export const downloadImageUrl = (imageId: number, format: DownloadFormat = 'web'): string =>
-  `/api/proxy/api/read/content/images/${imageId}/download?format=${format}`;
+  `${READ_BASE}/content/images/${imageId}/download?format=${format}`;
+
+/** Where a `ready` job's archive is fetched from — also the link the backend emails. */
+export const exportArchiveUrl = (jobId: string): string =>
+  `${READ_BASE}/exports/${encodeURIComponent(jobId)}/archive`;
 
-export const downloadCollectionUrl = (slug: string, format: DownloadFormat = 'web'): string =>
-  `/api/proxy/api/read/collections/${encodeURIComponent(slug)}/download?format=${format}`;
+/** Throw an `ApiError` carrying the backend message (or a status fallback) for a non-OK response. */
+async function throwFromResponse(res: Response): Promise<never> {
+  let detail: unknown;
+  const contentType = res.headers.get('content-type') || '';
+  try {
+    detail = contentType.includes('application/json') ? await res.json() : await res.text();
+  } catch {
+    detail = '';
+  }
+  const message =
+    typeof detail === 'string' && detail
+      ? detail
+      : detail && typeof detail === 'object'
+        ? ((detail as { message?: string }).message ?? JSON.stringify(detail))
+        : `API error: ${res.status}`;
+  throw new ApiError(message, res.status);
+}
+
+async function postJob(url: string, body: unknown): Promise<ExportJob> {
+  const res = await fetch(url, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as ExportJob;
+}
 
 /**
- * ZIP download of a chosen subset of a collection's images. Same endpoint as
- * {@link downloadCollectionUrl} plus an `imageIds` filter (comma-separated; Spring binds it to a
- * `List<Long>`). When the backend subset filter is not yet deployed the param is ignored and the
- * whole-collection ZIP is returned.
+ * Start building a ZIP of a gallery, or of `imageIds` within it (null for everything).
  *
- * Throws on an empty selection: emitting a bare `imageIds=` is ambiguous (the backend can read an
- * empty filter as "no filter → whole collection"), which is the opposite of a selected subset.
- * Callers already gate the Download button on a non-empty selection, so reaching here with `[]` is
- * a bug — fail loudly rather than silently ZIP the entire gallery.
+ * Throws on an empty selection: sending `imageIds: []` is ambiguous (the backend can read an empty
+ * filter as "no filter → whole collection"), which is the opposite of a selected subset. Callers
+ * already gate the Download button on a non-empty selection, so reaching here with `[]` is a bug —
+ * fail loudly rather than silently ZIP the entire gallery.
  */
-export const downloadCollectionSelectionUrl = (
+export async function startCollectionExport(
   slug: string,
-  imageIds: number[],
-  format: DownloadFormat = 'web'
-): string => {
-  if (imageIds.length === 0) {
-    throw new Error('downloadCollectionSelectionUrl requires at least one imageId');
+  format: DownloadFormat,
+  imageIds: number[] | null = null
+): Promise<ExportJob> {
+  if (imageIds?.length === 0) {
+    throw new Error('startCollectionExport requires at least one imageId when given a selection');
   }
-  return (
-    `/api/proxy/api/read/collections/${encodeURIComponent(slug)}/download?format=${format}` +
-    `&imageIds=${imageIds.join(',')}`
-  );
-};
+  return postJob(`${READ_BASE}/collections/${encodeURIComponent(slug)}/exports`, {
+    format,
+    imageIds,
+  });
+}
+
+/** Current state of an export job. Polled by `useExportJob` until it is `ready` or `failed`. */
+export async function getExportJob(jobId: string, signal?: AbortSignal): Promise<ExportJob> {
+  const res = await fetch(`${READ_BASE}/exports/${encodeURIComponent(jobId)}`, {
+    credentials: 'same-origin',
+    cache: 'no-store',
+    signal,
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as ExportJob;
+}
+
+/**
+ * Email the archive link to `email` — now if the job is ready, otherwise as soon as it is. Lets a
+ * client close the tab on a long export. Resolves to the job with `emailTo` set.
+ */
+export async function emailExportJob(jobId: string, email: string): Promise<ExportJob> {
+  return postJob(`${READ_BASE}/exports/${encodeURIComponent(jobId)}/email`, { email });
+}
@@ -0,0 +1,71 @@
+/**
+ * The private following feed — a per-user token URL a feed reader can poll without a session.
+ *
+ * Same split as `share.ts`: the token-authorized feed read and the owner's settings read run
+ * server-side through `fetchReadApi`; minting or resetting the token runs client-side as a raw
+ * `fetch` on the READ channel, scoped by the backend to the session principal.
+ */
+import { ApiError, fetchReadApi } from '@/app/lib/api/core';
+import { type FeedFormat, type FeedTokenSettings, type FollowingFeed } from '@/app/types/Feed';
+import { logger } from '@/app/utils/logger';
+
+/**
+ * The feed behind a token. Null on 404 — an unknown token and a reset one look the same, as they
+ * do for share links.
+ */
+export async function getFollowingFeed(token: string): Promise<FollowingFeed | null> {
+  try {
+    return await fetchReadApi<FollowingFeed>(`feed/following/${encodeURIComponent(token)}`, {
+      cache: 'no-store',
+    });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Outcome of the owner-side token read. `{ ok: false }` is "unknown", never "no feed yet" — the
+ * same distinction {@link ShareSettingsRead} draws, so the card cannot offer to create a feed
+ * over one that is already in a reader somewhere.
+ */
+export type FeedSettingsRead = { ok: true; settings: FeedTokenSettings | null } | { ok: false };
+
+/** Fail-soft read of the signed-in user's feed token; null settings on 401. */
+export async function readFeedSettings(): Promise<FeedSettingsRead> {
+  try {
+    return {
+      ok: true,
+      settings: await fetchReadApi<FeedTokenSettings>('user/feed', { cache: 'no-store' }),
+    };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      return { ok: true, settings: null };
+    }
+    logger.error('feeds', 'Could not load feed settings', error);
+    return { ok: false };
+  }
+}
+
+/**
+ * Mint the feed token, or reset it. Destructive: every reader subscribed to the old URL stops
+ * receiving updates.
+ */
+export async function rotateFeedToken(): Promise<FeedTokenSettings> {
+  const res = await fetch('/api/proxy/api/read/user/feed/rotate', {
+    method: 'POST',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    throw new ApiError(`API error: ${res.status}`, res.status);
+  }
+  return (await res.json()) as FeedTokenSettings;
+}
+
+/** The subscribable URL for a token, against the browser's own origin. */
+export function buildFollowingFeedUrl(token: string, origin: string, format: FeedFormat): string {
+  return `${origin.replace(/\/+$/, '')}/feeds/following/${token}.${format}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Per-image comment threads on client galleries (see `app/types/ImageComments.ts`).
+ *
+ * The viewer's reads and posts are client-side `fetch` calls to the BFF proxy under the READ
+ * channel, acting as the session principal — same shape as the Selects calls, throwing `ApiError`
+ * on any non-OK response. Resolving and the cross-collection inbox are the admin's, and go through
+ * the admin perimeter like every other `/api/admin/**` call.
+ */
+import {
+  ApiError,
+  fetchAdminDeleteApi,
+  fetchAdminGetApi,
+  fetchAdminPutJsonApi,
+} from '@/app/lib/api/core';
+import {
+  type ImageCommentInboxGroup,
+  type ImageCommentRequest,
+  type ImageCommentThread,
+} from '@/app/types/ImageComments';
+
+const BASE = '/api/proxy/api/read/collections';
+
+const commentsPath = (collectionId: number, contentId: number) =>
+  `${BASE}/${collectionId}/images/${contentId}/comments`;
+
+/** Throw an `ApiError` carrying the backend message (or a status fallback) for a non-OK response. */
+async function throwFromResponse(res: Response): Promise<never> {
+  let detail: unknown;
+  const contentType = res.headers.get('content-type') || '';
+  try {
+    detail = contentType.includes('application/json') ? await res.json() : await res.text();
+  } catch {
+    detail = '';
+  }
+  const message =
+    typeof detail === 'string' && detail
+      ? detail
+      : detail && typeof detail === 'object'
+        ? ((detail as { message?: string }).message ?? JSON.stringify(detail))
+        : `API error: ${res.status}`;
+  throw new ApiError(message, res.status);
+}
+
+/** Every thread on one image in one collection, open and resolved, oldest first. */
+export async function listImageComments(
+  collectionId: number,
+  contentId: number,
+  signal?: AbortSignal
+): Promise<ImageCommentThread[]> {
+  const res = await fetch(commentsPath(collectionId, contentId), {
+    credentials: 'same-origin',
+    cache: 'no-store',
+    signal,
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as ImageCommentThread[];
+}
+
+/**
+ * Start a thread, or reply to one when `request.threadId` is set. Resolves to the whole thread as
+ * it now stands, so the caller can replace it in place rather than re-read the image's list.
+ */
+export async function postImageComment(
+  collectionId: number,
+  contentId: number,
+  request: ImageCommentRequest
+): Promise<ImageCommentThread> {
+  const res = await fetch(commentsPath(collectionId, contentId), {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as ImageCommentThread;
+}
+
+/** Admin: mark a thread resolved. Resolves to the updated thread. */
+export async function resolveImageCommentThread(threadId: number): Promise<ImageCommentThread> {
+  const thread = await fetchAdminPutJsonApi<ImageCommentThread>(
+    `/image-comments/${threadId}/resolve`,
+    {}
+  );
+  if (!thread) throw new ApiError('Empty response resolving comment thread', 500);
+  return thread;
+}
+
+/** Admin: reopen a resolved thread. Resolves to the updated thread. */
+export async function reopenImageCommentThread(threadId: number): Promise<ImageCommentThread> {
+  const thread = await fetchAdminDeleteApi<ImageCommentThread>(
+    `/image-comments/${threadId}/resolve`
+  );
+  if (!thread) throw new ApiError('Empty response reopening comment thread', 500);
+  return thread;
+}
+
+/** Admin: every unresolved thread, grouped by collection then image. Null on an empty body. */
+export async function getImageCommentInbox(): Promise<ImageCommentInboxGroup[] | null> {
+  return fetchAdminGetApi<ImageCommentInboxGroup[]>('/image-comments?status=unresolved', {
+    cache: 'no-store',
+  });
+}
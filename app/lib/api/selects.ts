@@ -4,9 +4,13 @@
  * `credentials: 'same-origin'` and `cache: 'no-store'`, throwing `ApiError` on any non-OK
  * response. Distinct from the ephemeral download "select mode" (see `ClientGalleryDownloadContext`)
  * — these calls persist a user's favorites.
+ *
+ * The proofing calls at the bottom follow the same split: the client's status read and submit ride
+ * the READ channel as the session principal; the admin's review and reopen go through the admin
+ * perimeter like every other `/api/admin/**` call.
  */
-import { ApiError, fetchReadApi } from '@/app/lib/api/core';
-import { type SelectGroup } from '@/app/types/Selects';
+import { ApiError, fetchAdminDeleteApi, fetchAdminGetApi, fetchReadApi } from '@/app/lib/api/core';
+import { type ProofingReview, type ProofingStatus, type SelectGroup } from '@/app/types/Selects';
 import { logger } from '@/app/utils/logger';
 
 const BASE = '/api/proxy/api/read/user/selects';
@@ -95,3 +99,54 @@ export async function listAllSelectsServer(): Promise<SelectGroup[]> {
     return [];
   }
 }
+
+/**
+ * Server-side read of the viewer's proofing status on one collection, to seed the SelectsProvider.
+ *
+ * Fail-soft to "not submitted", like the selects seed above. That errs towards an unlocked star,
+ * which is safe: the backend still refuses a change to submitted picks, and the provider rolls the
+ * toggle back.
+ */
+export async function getProofingStatusServer(collectionId: number): Promise<ProofingStatus> {
+  const unsubmitted: ProofingStatus = { collectionId, submittedAt: null };
+  try {
+    return (
+      (await fetchReadApi<ProofingStatus>(`/user/selects/proofing?collectionId=${collectionId}`)) ??
+      unsubmitted
+    );
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 401) {
+      logger.error('selects', 'Failed to fetch proofing status; rendering unsubmitted', error);
+    }
+    return unsubmitted;
+  }
+}
+
+/**
+ * Submit the viewer's selects on a collection as their final picks. Locks them, and the backend
+ * notifies the admin through the messages inbox. 409 when they were already submitted; 400 when
+ * there is nothing to submit.
+ */
+export async function submitSelects(collectionId: number): Promise<ProofingStatus> {
+  const res = await fetch(`${BASE}/proofing/${collectionId}/submit`, {
+    method: 'POST',
+    credentials: 'same-origin',
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as ProofingStatus;
+}
+
+/** Admin: every client's picks on a collection. Null on an empty body, like the other admin reads. */
+export async function getProofingReview(collectionId: number): Promise<ProofingReview | null> {
+  return fetchAdminGetApi<ProofingReview>(`/collections/${collectionId}/proofing`, {
+    cache: 'no-store',
+  });
+}
+
+/** Admin: unlock one client's submitted picks so they can change them and submit again. */
+export async function reopenProofing(collectionId: number, userId: number): Promise<void> {
+  await fetchAdminDeleteApi<void>(`/collections/${collectionId}/proofing/${userId}`);
+}
@@ -1,5 +1,7 @@
 /**
- * User share links — the "guest pass" a signed-in user hands to a friend, client or parent.
+ * User share links — the "guest pass" a signed-in user hands to a friend, client or parent. An
+ * owner holds any number of named links, each optionally expiring, capped at a number of views, or
+ * narrowed to some of their galleries.
  *
  * Two audiences, two idioms, matching the rest of this directory:
  *
@@ -9,7 +11,7 @@
  *   the same shape as `personal.ts` — these are POST/PUT/DELETE on the READ channel because the
  *   backend scopes them to the session principal rather than to the admin surface.
  */
-import { ApiError, fetchReadApi } from '@/app/lib/api/core';
+import { ApiError, fetchReadApi, isExhausted } from '@/app/lib/api/core';
 import { type CollectionModel } from '@/app/types/Collection';
 import { logger } from '@/app/utils/logger';
 
@@ -39,22 +41,62 @@ export interface ShareView {
   page: CollectionModel;
 }
 
-/** The owner's view of their own link. */
-export interface ShareSettings {
-  exists: boolean;
+/**
+ * Where a link stands. Computed by the backend, which owns the clock and the view counter, so the
+ * card never disagrees with what a recipient would actually get.
+ */
+export type ShareLinkStatus = 'active' | 'expired' | 'exhausted';
+
+/**
+ * One of the owner's links. An owner can hold several at once — one per person, or per purpose —
+ * and each is limited and revoked on its own.
+ */
+export interface ShareLink {
+  id: number;
+  /** The owner's label ("Mum", "Wedding guests"). Never shown to the recipient. */
+  name: string;
   /**
-   * The live raw token, so the page can render a copyable link and re-send it.
+   * The live raw token, so the card can render a copyable link and re-send it.
    *
    * Null when it cannot be recovered — a link minted before the backend stored a decryptable copy.
    * That is NOT an error state: the link still works for whoever holds it, we simply cannot show
-   * it, so the UI offers a reset rather than reporting a failure.
+   * it, so the UI offers to revoke it and make a new one rather than reporting a failure.
    */
   token: string | null;
-  createdAt: string | null;
-  rotatedAt: string | null;
+  createdAt: string;
+  /** Null for a link that never expires. */
+  expiresAt: string | null;
+  /** Null for no limit. */
+  maxViews: number | null;
+  /**
+   * Browsers that have opened the link. A browser already holding this link's cookie is not
+   * counted again, and is not turned away once the limit is reached — the limit caps how many
+   * people get in, not how often each of them looks.
+   */
+  viewCount: number;
   lastUsedAt: string | null;
+  /** Null shows everything the owner shares; otherwise only these galleries. */
+  collectionIds: number[] | null;
+  status: ShareLinkStatus;
+}
+
+/** The owner's view of their sharing: every link, plus the galleries links can draw on. */
+export interface ShareSettings {
+  /** Newest first. Revoked links are gone, not listed. */
+  links: ShareLink[];
   optedInCollectionIds: number[];
+  /** Galleries the owner was granted access to but is not tagged in — the opt-in choices. */
   candidateCollections: CollectionModel[];
+  /** Galleries the owner's share shows today — the choices for narrowing a single link. */
+  sharedCollections: CollectionModel[];
+}
+
+/** Request body for `POST /user/share/links`. */
+export interface ShareLinkRequest {
+  name: string;
+  expiresAt: string | null;
+  maxViews: number | null;
+  collectionIds: number[] | null;
 }
 
 export interface ShareEmailResult {
@@ -63,19 +105,33 @@ export interface ShareEmailResult {
 }
 
 /**
- * The recipient view behind a share token.
+ * Outcome of opening a share token.
  *
- * Returns null on 404, which covers an unknown token and a reset one alike — the backend cannot
- * tell them apart by design, and neither should the page.
+ * The backend answers an unknown or revoked token with 404 and a closed one with 410, carrying
+ * `SHARE_EXHAUSTED` as its error `code` when the view limit closed it (see {@link isExhausted})
+ * and none when its expiry did. The two closed states get their own pages: a recipient whose link
+ * ran out should be told so — and that the sender can make another — rather than handed a 404 that
+ * reads like a typo. Revoked stays indistinguishable from unknown by design, as a reset always was.
  */
-export async function getShareView(token: string): Promise<ShareView | null> {
+export type ShareViewResult =
+  | { status: 'ok'; view: ShareView }
+  | { status: 'expired' }
+  | { status: 'exhausted' }
+  | { status: 'invalid' };
+
+/** The recipient view behind a share token. See {@link ShareViewResult} for the closed states. */
+export async function getShareView(token: string): Promise<ShareViewResult> {
   try {
-    return await fetchReadApi<ShareView>(`share/${encodeURIComponent(token)}`, {
+    const view = await fetchReadApi<ShareView>(`share/${encodeURIComponent(token)}`, {
       cache: 'no-store',
     });
+    return view ? { status: 'ok', view } : { status: 'invalid' };
   } catch (error) {
     if (error instanceof ApiError && error.status === 404) {
-      return null;
+      return { status: 'invalid' };
+    }
+    if (error instanceof ApiError && error.status === 410) {
+      return { status: isExhausted(error) ? 'exhausted' : 'expired' };
     }
     throw error;
   }
@@ -83,20 +139,21 @@ export async function getShareView(token: string): Promise<ShareView | null> {
 
 /**
  * The recipient view for a visitor who already holds the cookie — the "way back" after they have
- * walked off into a collection. Null when the cookie is absent or its link has since been reset.
+ * walked off into a collection. Null when the cookie is absent or its link has since been revoked
+ * or has expired.
  */
 export async function getCurrentShareView(): Promise<ShareView | null> {
   try {
     return await fetchReadApi<ShareView>('share/view', { cache: 'no-store' });
   } catch (error) {
-    if (error instanceof ApiError && (error.status === 401 || error.status === 404)) {
+    if (error instanceof ApiError && [401, 404, 410].includes(error.status)) {
       return null;
     }
     throw error;
   }
 }
 
-/** The signed-in user's own link. Null on 401, matching {@link getUserPage}. Internal to this module — {@link readShareSettings} is the exported entry point. */
+/** The signed-in user's own links. Null on 401, matching {@link getUserPage}. Internal to this module — {@link readShareSettings} is the exported entry point. */
 async function getShareSettings(): Promise<ShareSettings | null> {
   try {
     return await fetchReadApi<ShareSettings>('user/share', { cache: 'no-store' });
@@ -111,7 +168,7 @@ async function getShareSettings(): Promise<ShareSettings | null> {
 /**
  * Outcome of the owner-side settings read.
  *
- * `{ ok: true, settings: null }` is a genuine "you have no link yet"; `{ ok: false }` is "the read
+ * `{ ok: true, settings: null }` or an empty `links` is a genuine "you have no link yet"; `{ ok: false }` is "the read
  * failed, so nothing is known". Same distinction {@link FailSoftRead} draws for the list reads, and
  * for the same reason: collapsing the two would have the Share card offer "Create a link" to
  * someone who already has one in circulation, which is a claim we cannot support from a failure.
@@ -135,6 +192,10 @@ export async function readShareSettings(): Promise<ShareSettingsRead> {
  * Plant the share cookie for a token that arrived in the URL, so the recipient keeps their view
  * while browsing the rest of the site.
  *
+ * This is also where the backend counts a view. The page's own server-side read does not: link
+ * previews (chat apps unfurling the URL) fetch the page without running scripts, and counting them
+ * would spend a limited link before its recipient ever saw it.
+ *
  * Runs from the browser on purpose. The backend owns the cookie's attributes (HttpOnly, Lax, the
  * rolling 30-day window) and sets them on this response; the BFF proxy forwards `Set-Cookie`
  * through. A Server Component cannot set cookies, and re-declaring those attributes in a Server
@@ -142,6 +203,7 @@ export async function readShareSettings(): Promise<ShareSettingsRead> {
  */
 export async function plantShareCookie(token: string): Promise<void> {
   const res = await fetch(`/api/proxy/api/read/share/${encodeURIComponent(token)}`, {
+    method: 'POST',
     credentials: 'same-origin',
     cache: 'no-store',
   });
@@ -150,31 +212,42 @@ export async function plantShareCookie(token: string): Promise<void> {
   }
 }
 
+/** Mint a new link. The owner's other links are untouched. */
+export async function createShareLink(request: ShareLinkRequest): Promise<ShareLink> {
+  const res = await fetch(`${SHARE}/links`, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    await throwFromResponse(res);
+  }
+  return (await res.json()) as ShareLink;
+}
+
 /**
- * Mint the link, or reset it.
- *
- * Destructive: anyone holding the previous link loses access immediately. Re-sending to a new
- * person does NOT need this — {@link getShareSettings} returns the live link precisely so that
- * sending it again is a copy rather than a reset.
+ * Revoke one link. Whoever holds it loses access immediately; everyone holding one of the owner's
+ * other links keeps theirs.
  */
-export async function rotateShareLink(): Promise<ShareSettings> {
-  const res = await fetch(`${SHARE}/rotate`, {
-    method: 'POST',
+export async function revokeShareLink(linkId: number): Promise<void> {
+  const res = await fetch(`${SHARE}/links/${linkId}`, {
+    method: 'DELETE',
     credentials: 'same-origin',
     cache: 'no-store',
   });
   if (!res.ok) {
     await throwFromResponse(res);
   }
-  return (await res.json()) as ShareSettings;
 }
 
 /**
- * Email the link that is already in circulation. Does not mint a new one, so emailing a second
+ * Email a link that is already in circulation. Does not mint a new one, so emailing a second
  * person cannot cut off the first.
  */
-export async function emailShareLink(toEmail: string): Promise<ShareEmailResult> {
-  const res = await fetch(`${SHARE}/email`, {
+export async function emailShareLink(linkId: number, toEmail: string): Promise<ShareEmailResult> {
+  const res = await fetch(`${SHARE}/links/${linkId}/email`, {
     method: 'POST',
     credentials: 'same-origin',
     headers: { 'Content-Type': 'application/json' },
@@ -0,0 +1,101 @@
+/**
+ * Taxonomy API — per-entity management of the metadata vocabularies (`/api/admin/metadata/{kind}`):
+ * detail with usage, rename, merge-into, delete-when-unused and aliases. See `app/types/Taxonomy.ts`
+ * for the shapes. The bulk list the `/metadata` index renders still comes from `getMetadata()`.
+ */
+
+import {
+  type TaxonomyAlias,
+  type TaxonomyEntityDetail,
+  type TaxonomyKind,
+  type TaxonomyMergePreview,
+  type TaxonomyMergeResult,
+} from '@/app/types/Taxonomy';
+
+import {
+  ApiError,
+  fetchAdminDeleteApi,
+  fetchAdminGetApi,
+  fetchAdminPostJsonApi,
+  fetchAdminPutJsonApi,
+} from './core';
+
+const base = (kind: TaxonomyKind, id: number) => `/metadata/${kind}/${id}`;
+
+/** One entity with its usage, aliases and sample images. `null` when the id is gone. */
+export async function getTaxonomyEntity(
+  kind: TaxonomyKind,
+  id: number
+): Promise<TaxonomyEntityDetail | null> {
+  return await fetchAdminGetApi<TaxonomyEntityDetail>(base(kind, id), { cache: 'no-store' });
+}
+
+/**
+ * Rename an entity. The backend re-slugs it and keeps the old slug in `previousSlugs`, so public
+ * links to the old name redirect rather than 404.
+ *
+ * @throws `ApiError(409)` when another entity of the same kind already has the name.
+ */
+export async function renameTaxonomyEntity(
+  kind: TaxonomyKind,
+  id: number,
+  name: string
+): Promise<TaxonomyEntityDetail> {
+  const result = await fetchAdminPutJsonApi<TaxonomyEntityDetail>(base(kind, id), { name });
+  if (!result) {
+    throw new ApiError('Unexpected empty response from rename', 500);
+  }
+  return result;
+}
+
+/** Preview what a merge of `sourceId` into `targetId` would move. `null` if either id is gone. */
+export async function getTaxonomyMergePreview(
+  kind: TaxonomyKind,
+  sourceId: number,
+  targetId: number
+): Promise<TaxonomyMergePreview | null> {
+  return await fetchAdminGetApi<TaxonomyMergePreview>(
+    `${base(kind, sourceId)}/merge-preview?targetId=${targetId}`
+  );
+}
+
+/** Fold `sourceId` into `targetId` and delete the source. Throws ApiError(409) on a self-merge. */
+export async function mergeTaxonomyEntity(
+  kind: TaxonomyKind,
+  targetId: number,
+  sourceId: number
+): Promise<TaxonomyMergeResult> {
+  const result = await fetchAdminPostJsonApi<TaxonomyMergeResult>(`${base(kind, targetId)}/merge`, {
+    sourceId,
+  });
+  if (!result) {
+    throw new ApiError('Unexpected empty response from merge', 500);
+  }
+  return result;
+}
+
+/** Delete an entity. Throws `ApiError(409)` while any image or collection still carries it. */
+export async function deleteTaxonomyEntity(kind: TaxonomyKind, id: number): Promise<void> {
+  await fetchAdminDeleteApi(base(kind, id));
+}
+
+/** Add an alternate name. Throws `ApiError(409)` when the name is already taken in this kind. */
+export async function addTaxonomyAlias(
+  kind: TaxonomyKind,
+  id: number,
+  name: string
+): Promise<TaxonomyAlias> {
+  const result = await fetchAdminPostJsonApi<TaxonomyAlias>(`${base(kind, id)}/aliases`, { name });
+  if (!result) {
+    throw new ApiError('Unexpected empty response from add-alias', 500);
+  }
+  return result;
+}
+
+export async function removeTaxonomyAlias(
+  kind: TaxonomyKind,
+  id: number,
+  aliasId: number
+): Promise<void> {
+  await fetchAdminDeleteApi(`${base(kind, id)}/aliases/${aliasId}`);
+}
@@ -0,0 +1,96 @@
+/**
+ * Chunked Upload API - Mirrors backend UploadController endpoints
+ *
+ * Large originals (film scans, MP4s) go up in fixed-size chunks through the BFF instead of one
+ * multipart POST, so no single request comes near the proxy's body cap and an interrupted upload
+ * picks up where it stopped.
+ *
+ * Protocol:
+ * 1. POST   /api/admin/content/uploads/{collectionId} — open a session for one file. Idempotent
+ *    per (collection, content hash): re-opening a file that was cut off returns the same session
+ *    with the chunks already received, which is how an upload resumes after a reload.
+ * 2. PUT    /api/admin/content/uploads/{uploadId}/chunks/{index} — raw bytes, any order, re-sendable
+ * 3. POST   /api/admin/content/uploads/{uploadId}/complete — assemble, verify the hash, create the
+ *    image or GIF/MP4 block exactly as the multipart endpoints would
+ * 4. DELETE /api/admin/content/uploads/{uploadId} — abandon the session and its stored chunks
+ */
+
+import {
+  fetchAdminDeleteApi,
+  fetchAdminPostJsonApi,
+  fetchAdminPutBytesApi,
+} from '@/app/lib/api/core';
+import { type ContentGifModel, type ContentImageModel } from '@/app/types/Content';
+
+/** Which backend pipeline assembles the file: still image, or GIF/MP4/MOV. */
+export type UploadKind = 'image' | 'gif';
+
+export interface StartUploadRequest {
+  filename: string;
+  mimeType: string;
+  size: number;
+  kind: UploadKind;
+  /** Content hash from `hashFile` — identifies the file for resume and duplicate detection. */
+  sha256: string;
+  chunkSize: number;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  /** Chunk indexes the backend already holds; empty for a fresh session. */
+  receivedChunks: number[];
+  /** Set when this collection already has content with the same hash; no session is opened. */
+  duplicateOfContentId?: number | null;
+}
+
+export interface UploadCompleteResponse {
+  content: ContentImageModel | ContentGifModel;
+}
+
+/**
+ * POST /api/admin/content/uploads/{collectionId}
+ * Open (or reopen) an upload session for one file.
+ */
+export async function startUpload(
+  collectionId: number,
+  request: StartUploadRequest
+): Promise<UploadSession | null> {
+  return fetchAdminPostJsonApi<UploadSession>(`/content/uploads/${collectionId}`, request);
+}
+
+/**
+ * PUT /api/admin/content/uploads/{uploadId}/chunks/{index}
+ * Send one chunk. `chunkSha256` lets the backend refuse a chunk that was corrupted in transit.
+ */
+export async function uploadChunk(
+  uploadId: string,
+  index: number,
+  chunk: Blob,
+  chunkSha256: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await fetchAdminPutBytesApi<unknown>(
+    `/content/uploads/${encodeURIComponent(uploadId)}/chunks/${index}`,
+    chunk,
+    { headers: { 'X-Chunk-Sha256': chunkSha256 }, signal }
+  );
+}
+
+/**
+ * POST /api/admin/content/uploads/{uploadId}/complete
+ * Assemble the received chunks into a content block.
+ */
+export async function completeUpload(uploadId: string): Promise<UploadCompleteResponse | null> {
+  return fetchAdminPostJsonApi<UploadCompleteResponse>(
+    `/content/uploads/${encodeURIComponent(uploadId)}/complete`,
+    {}
+  );
+}
+
+/**
+ * DELETE /api/admin/content/uploads/{uploadId}
+ * Abandon a session the admin removed from the queue.
+ */
+export async function abortUpload(uploadId: string): Promise<void> {
+  await fetchAdminDeleteApi<unknown>(`/content/uploads/${encodeURIComponent(uploadId)}`);
+}
@@ -6,14 +6,15 @@ import { LAYOUT } from '@/app/constants';
 import { meServer } from '@/app/lib/api/auth';
 import { getCollectionBySlug, getScopedAllCollections } from '@/app/lib/api/collections';
 import { listSavedImageIdsServer } from '@/app/lib/api/personal';
-import { listSelectIdsServer } from '@/app/lib/api/selects';
+import { getProofingStatusServer, listSelectIdsServer } from '@/app/lib/api/selects';
 import { getUserPage } from '@/app/lib/api/user';
 import { buildAllCollectionsContentBlock } from '@/app/utils/allCollectionsContentBlock';
 import { HOME_SLUG } from '@/app/utils/collectionSlugs';
-import { findMembership } from '@/app/utils/galleryAccess';
+import { type EditScope, findMembership } from '@/app/utils/galleryAccess';
 import { logger } from '@/app/utils/logger';
 import { buildMeContentBlock } from '@/app/utils/meContentBlock';
 import { resolveSsrViewport } from '@/app/utils/ssrViewport';
+import { collectionJsonLd, isIndexableCollection } from '@/app/utils/structuredData';
 
 interface CollectionPageWrapperProps {
   slug: string;
@@ -29,6 +30,17 @@ interface CollectionPageWrapperProps {
    * When false/absent the fetch, gate, and render are byte-identical to the public view.
    */
   editMode?: boolean;
+  /**
+   * Which edit surface `editMode` mounts: the full admin one, or the curation-only layer for a
+   * COLLABORATOR member. Only the admin surface bypasses the password gate — a collaborator's
+   * membership already opens the gallery to them.
+   */
+  editScope?: EditScope;
+  /**
+   * Image the page was opened on (the `?image=` fullscreen deep link). Only feeds the
+   * structured data, which then names that photograph as its own entity.
+   */
+  imageId?: number;
 }
 
 /**
@@ -39,6 +51,8 @@ export default async function CollectionPageWrapper({
   slug,
   excludeContentSlugs,
   editMode = false,
+  editScope = 'admin',
+  imageId,
 }: CollectionPageWrapperProps) {
   if (!slug) {
     notFound();
@@ -96,33 +110,47 @@ export default async function CollectionPageWrapper({
     // global saved (bookmarked) image ids so the SelectsProvider/SavesProvider prime without a
     // client round-trip. Saves are cross-collection, so they seed on EVERY collection render
     // whenever a principal is present; both reads return [] for anonymous viewers. Pinned by test.
-    const [initialSelectedIds, initialSavedImageIds] = await Promise.all([
+    // A client gallery under proofing also seeds whether this viewer has already submitted, so a
+    // locked pick list never renders as editable for a frame.
+    const isProofing = collection.isClient === true && collection.proofingTarget != null;
+    const [initialSelectedIds, initialSavedImageIds, proofingStatus] = await Promise.all([
       collection.isClient === true
         ? listSelectIdsServer(collection.id)
         : Promise.resolve<number[]>([]),
       me ? listSavedImageIdsServer() : Promise.resolve<number[]>([]),
+      isProofing && me ? getProofingStatusServer(collection.id) : Promise.resolve(null),
     ]);
 
     // Gate password-protected collections. `Array.isArray(content)` is the auth signal:
     // the backend sets content to null when the password cookie fails to validate.
     // Routing here (not wrapping children) prevents RSC payload serialization for
-    // locked viewers. editMode bypasses the gate — admins are never password-walled.
-    if (!editMode && collection.isPasswordProtected === true) {
+    // locked viewers. The admin edit surface bypasses the gate — admins are never password-walled.
+    if (!(editMode && editScope === 'admin') && collection.isPasswordProtected === true) {
       const isAuthenticated = Array.isArray(collection.content);
       if (!isAuthenticated) {
         return <ClientGalleryGate collection={collection} />;
       }
     }
 
+    // Structured data describes public pages only: never the edit surface, and never a
+    // collection the sitemap leaves out.
+    const structuredData =
+      !editMode && isIndexableCollection(collection)
+        ? collectionJsonLd(collection, imageId)
+        : undefined;
+
     return (
       <CollectionPage
         collection={collection}
         chunkSize={chunkSize}
         ssrViewport={ssrViewport}
         editMode={editMode}
+        editScope={editScope}
         me={me}
         initialSelectedIds={initialSelectedIds}
         initialSavedImageIds={initialSavedImageIds}
+        initialProofingSubmittedAt={proofingStatus?.submittedAt ?? null}
+        structuredData={structuredData}
       />
     );
   } catch (error) {
@@ -0,0 +1,157 @@
+/**
+ * Serializers for a format-neutral {@link Feed}: RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+ *
+ * Output is a pure function of the feed — no "now" timestamps — so an unchanged feed serializes
+ * to identical bytes and its ETag holds across requests (see `response.ts`).
+ */
+
+import { type Feed, type FeedFormat, type FeedItem } from '@/app/types/Feed';
+import { SITE_NAME } from '@/app/utils/structuredData';
+
+const AUTHOR_NAME = 'Zac Edens';
+
+/** Stand-in `updated` for a feed with no items; Atom requires the element. */
+const EPOCH = '1970-01-01T00:00:00.000Z';
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+/** Escape text for XML content and attributes, dropping control characters XML 1.0 forbids. */
+export function escapeXml(value: string): string {
+  return value
+    .replaceAll(/\p{Cc}/gu, char => ('\t\n\r'.includes(char) ? char : ''))
+    .replaceAll(/["&'<>]/g, char => XML_ESCAPES[char] ?? char);
+}
+
+function isoDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? EPOCH : date.toISOString();
+}
+
+/** RFC 822 date, as RSS requires. */
+function rfc822Date(value: string): string {
+  return new Date(isoDate(value)).toUTCString();
+}
+
+function itemUpdated(item: FeedItem): string {
+  return isoDate(item.updated ?? item.published);
+}
+
+/** The newest change across the feed's items — the feed's own `updated` / `lastBuildDate`. */
+export function feedUpdated(feed: Feed): string {
+  return feed.items
+    .map(itemUpdated)
+    .reduce((latest, date) => (date > latest ? date : latest), EPOCH);
+}
+
+function element(name: string, value: string | undefined, attributes = ''): string {
+  return value === undefined ? '' : `<${name}${attributes}>${escapeXml(value)}</${name}>`;
+}
+
+function rssItem(item: FeedItem): string {
+  return [
+    '<item>',
+    element('title', item.title),
+    element('link', item.url),
+    element('guid', item.id, ' isPermaLink="true"'),
+    element('pubDate', rfc822Date(item.published)),
+    element('description', item.summary),
+    ...(item.tags ?? []).map(tag => element('category', tag)),
+    // The byte length of a CDN object is not known here; RSS readers accept 0 for "unknown".
+    item.image
+      ? `<enclosure url="${escapeXml(item.image.url)}" length="0" type="${escapeXml(item.image.type)}"/>`
+      : '',
+    '</item>',
+  ].join('');
+}
+
+export function toRss(feed: Feed): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    element('title', feed.title),
+    element('link', feed.homePageUrl),
+    element('description', feed.description),
+    `<atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    element('lastBuildDate', rfc822Date(feedUpdated(feed))),
+    ...feed.items.map(rssItem),
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+function atomEntry(item: FeedItem): string {
+  return [
+    '<entry>',
+    element('id', item.id),
+    element('title', item.title),
+    `<link rel="alternate" href="${escapeXml(item.url)}"/>`,
+    element('published', isoDate(item.published)),
+    element('updated', itemUpdated(item)),
+    element('summary', item.summary),
+    ...(item.tags ?? []).map(tag => `<category term="${escapeXml(tag)}"/>`),
+    item.image
+      ? `<link rel="enclosure" href="${escapeXml(item.image.url)}" type="${escapeXml(item.image.type)}"/>`
+      : '',
+    '</entry>',
+  ].join('');
+}
+
+export function toAtom(feed: Feed): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    element('id', feed.feedUrl),
+    element('title', feed.title),
+    element('subtitle', feed.description),
+    element('updated', feedUpdated(feed)),
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `<link rel="alternate" href="${escapeXml(feed.homePageUrl)}"/>`,
+    `<author>${element('name', AUTHOR_NAME)}</author>`,
+    element('generator', SITE_NAME),
+    ...feed.items.map(atomEntry),
+    '</feed>',
+  ].join('\n');
+}
+
+export function toJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrl,
+    description: feed.description,
+    authors: [{ name: AUTHOR_NAME }],
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      // JSON Feed requires one of content_text / content_html on every item.
+      content_text: item.summary ?? item.title,
+      ...(item.summary ? { summary: item.summary } : {}),
+      ...(item.image ? { image: item.image.url } : {}),
+      date_published: isoDate(item.published),
+      date_modified: itemUpdated(item),
+      ...(item.tags?.length ? { tags: item.tags } : {}),
+      ...(item.image ? { attachments: [{ url: item.image.url, mime_type: item.image.type }] } : {}),
+    })),
+  });
+}
+
+export const FEED_SERIALIZERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: toRss,
+  atom: toAtom,
+  json: toJsonFeed,
+};
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
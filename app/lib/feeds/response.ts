@@ -0,0 +1,69 @@
+import { createHash } from 'node:crypto';
+
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { FEED_CONTENT_TYPES, FEED_SERIALIZERS, feedUpdated } from '@/app/lib/feeds/formats';
+import { type Feed, type FeedFormat } from '@/app/types/Feed';
+
+const EXTENSIONS: Record<string, FeedFormat> = { rss: 'rss', atom: 'atom', json: 'json' };
+
+/**
+ * Split a feed route's last segment into its name and format: `collections.rss`,
+ * `black-white.atom`, `<token>.json`. Null for an unknown extension. The segment arrives already
+ * decoded by the router, so the name is used as is — decoding it again would misread a literal
+ * `%` and throw on a stray one.
+ */
+export function parseFeedFile(file: string): { name: string; format: FeedFormat } | null {
+  const dot = file.lastIndexOf('.');
+  if (dot <= 0) return null;
+  const format = EXTENSIONS[file.slice(dot + 1).toLowerCase()];
+  return format ? { name: file.slice(0, dot), format } : null;
+}
+
+/**
+ * Public feeds are identical for every reader, so CDNs and readers may share them; a quarter
+ * hour matches how often new work lands, and the stale window rides out a slow backend.
+ * The private feed is one reader's own and must never sit in a shared cache.
+ */
+const CACHE_CONTROL = {
+  public: 'public, max-age=900, s-maxage=900, stale-while-revalidate=3600',
+  private: 'private, max-age=300',
+} as const;
+
+export type FeedAudience = keyof typeof CACHE_CONTROL;
+
+/**
+ * Serialize `feed` with caching headers, answering a matching `If-None-Match` with 304 so
+ * polling readers only download a feed that changed. The ETag hashes the body, which is
+ * deterministic (see `formats.ts`).
+ */
+export function feedResponse(
+  request: NextRequest,
+  feed: Feed,
+  format: FeedFormat,
+  audience: FeedAudience
+): NextResponse {
+  const body = FEED_SERIALIZERS[format](feed);
+  const etag = `"${createHash('sha256').update(body).digest('base64url').slice(0, 32)}"`;
+  const headers = new Headers({
+    'Content-Type': FEED_CONTENT_TYPES[format],
+    'Cache-Control': CACHE_CONTROL[audience],
+    ETag: etag,
+    'Last-Modified': new Date(feedUpdated(feed)).toUTCString(),
+  });
+  if (audience === 'private') headers.set('X-Robots-Tag', 'noindex');
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch?.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(body, { status: 200, headers });
+}
+
+/** A 404 that is not cached for long — a tag or token that does not exist yet may exist soon. */
+export function feedNotFound(): NextResponse {
+  return NextResponse.json(
+    { error: 'Feed not found' },
+    { status: 404, headers: { 'Cache-Control': 'public, max-age=60' } }
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * Builders that turn backend models into format-neutral feeds (see `app/types/Feed.ts`).
+ *
+ * Public feeds apply the sitemap's rule — LISTED, not password-protected — so a feed never
+ * announces a collection the site keeps out of search. Items link to the page a visitor would
+ * land on: a collection's own page, or the fullscreen deep link (`?image=`) for a photograph.
+ */
+
+import { type CollectionModel } from '@/app/types/Collection';
+import { type ContentImageModel } from '@/app/types/Content';
+import { type Feed, type FeedEnclosure, type FeedItem, type FollowingFeed } from '@/app/types/Feed';
+import { humanLabel } from '@/app/utils/contentRendererUtils';
+import {
+  absoluteUrl,
+  collectionPath,
+  isIndexableCollection,
+  SITE_NAME,
+} from '@/app/utils/structuredData';
+
+/** Newest items a feed carries. Readers poll; anything older they have already seen. */
+export const FEED_ITEM_LIMIT = 50;
+
+const IMAGE_TYPES: Record<string, string> = {
+  avif: 'image/avif',
+  gif: 'image/gif',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+/** The enclosure for a CloudFront image URL, typed by its extension (JPEG when there is none). */
+export function imageEnclosure(url: string | null | undefined): FeedEnclosure | undefined {
+  if (!url) return undefined;
+  const extension = /\.(\w+)(?:[#?]|$)/.exec(url)?.[1]?.toLowerCase() ?? '';
+  return { url, type: IMAGE_TYPES[extension] ?? 'image/jpeg' };
+}
+
+const newestFirst = (a: FeedItem, b: FeedItem) => b.published.localeCompare(a.published);
+
+function newest(items: FeedItem[]): FeedItem[] {
+  return items.sort(newestFirst).slice(0, FEED_ITEM_LIMIT);
+}
+
+function collectionItem(collection: CollectionModel, published: string): FeedItem {
+  const url = absoluteUrl(collectionPath(collection.slug));
+  return {
+    id: url,
+    url,
+    title: collection.title,
+    ...(collection.description ? { summary: collection.description } : {}),
+    published,
+    updated: collection.updatedAt,
+    image: imageEnclosure(collection.coverImage?.imageUrl),
+    ...(collection.tags?.length ? { tags: collection.tags } : {}),
+  };
+}
+
+function imageItem(image: ContentImageModel, pagePath: string, published: string): FeedItem {
+  const url = `${absoluteUrl(pagePath)}?image=${image.id}`;
+  const tags = (image.tags ?? []).map(tag => tag.name);
+  return {
+    id: url,
+    url,
+    title: humanLabel(image.title, image.alt, image.caption) ?? 'Photo',
+    ...(image.caption ? { summary: image.caption } : {}),
+    published,
+    ...(image.updatedAt ? { updated: image.updatedAt } : {}),
+    image: imageEnclosure(image.imageUrl),
+    ...(tags.length > 0 ? { tags } : {}),
+  };
+}
+
+/** Site-wide stream of new collections, by when they were created. */
+export function collectionsFeed(collections: CollectionModel[], feedUrl: string): Feed {
+  return {
+    title: SITE_NAME,
+    description: `New collections from ${SITE_NAME}`,
+    homePageUrl: absoluteUrl('/collections'),
+    feedUrl,
+    items: newest(
+      collections
+        .filter(isIndexableCollection)
+        .map(collection => collectionItem(collection, collection.createdAt))
+    ),
+  };
+}
+
+/** Blog collections only, dated by the story's own `collectionDate` rather than its upload. */
+export function blogFeed(collections: CollectionModel[], feedUrl: string): Feed {
+  return {
+    title: `${SITE_NAME} — Stories`,
+    description: `Stories from ${SITE_NAME}`,
+    homePageUrl: absoluteUrl('/collections'),
+    feedUrl,
+    items: newest(
+      collections
+        .filter(collection => collection.isBlog === true && isIndexableCollection(collection))
+        .map(collection =>
+          collectionItem(collection, collection.collectionDate ?? collection.createdAt)
+        )
+    ),
+  };
+}
+
+interface ImagesFeedInput {
+  title: string;
+  description: string;
+  /** Site path of the page the images appear on, e.g. `/tag/desert`. */
+  path: string;
+  feedUrl: string;
+  images: ContentImageModel[];
+}
+
+/**
+ * Photographs from a tag or location page, newest first. An image is dated by when it was added
+ * to the site, falling back to its capture date; one with neither has no place in a timeline.
+ */
+export function imagesFeed({ title, description, path, feedUrl, images }: ImagesFeedInput): Feed {
+  return {
+    title: `${title} — ${SITE_NAME}`,
+    description,
+    homePageUrl: absoluteUrl(path),
+    feedUrl,
+    items: newest(
+      images.flatMap(image => {
+        const published = image.createdAt ?? image.captureDate;
+        return published ? [imageItem(image, path, published)] : [];
+      })
+    ),
+  };
+}
+
+/** The private feed of additions to the token owner's followed collections. */
+export function followingFeed(following: FollowingFeed, feedUrl: string): Feed {
+  return {
+    title: `Following — ${SITE_NAME}`,
+    description: following.ownerName
+      ? `New work in the collections ${following.ownerName} follows`
+      : 'New work in the collections you follow',
+    homePageUrl: absoluteUrl('/user?tab=following'),
+    feedUrl,
+    items: newest(
+      following.entries.map(({ collection, image, addedAt }) => {
+        const item = imageItem(image, collectionPath(collection.slug), addedAt);
+        return { ...item, title: `${item.title} — ${collection.title}` };
+      })
+    ),
+  };
+}
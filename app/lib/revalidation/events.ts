@@ -0,0 +1,147 @@
+/**
+ * Cache invalidation vocabulary.
+ *
+ * Every on-demand revalidation — the backend's signed webhook (`/api/revalidate`) and the manage
+ * page's own server action — is phrased as one of these events, so the Next cache tags and paths a
+ * change touches are decided in one place. Tags mirror the `next.tags` set in `app/lib/api/`.
+ */
+
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+
+/** Payload for each event type. Slugs are the public ones; `previousSlug` covers a rename. */
+export interface RevalidationEventData {
+  'collection.updated': { slug: string; previousSlug?: string };
+  'collection.visibility_changed': { slug: string; visibility: CollectionVisibility };
+  'image.updated': { imageId: number; collectionSlugs: string[] };
+  'tag.renamed': { slug: string; previousSlug?: string };
+}
+
+export type RevalidationEventType = keyof RevalidationEventData;
+
+/** One delivery. `id` is unique per event and is what replay protection keys on. */
+export type RevalidationEvent = {
+  [K in RevalidationEventType]: { id: string; type: K; data: RevalidationEventData[K] };
+}[RevalidationEventType];
+
+export interface RevalidationTargets {
+  tags: string[];
+  paths: string[];
+}
+
+/** Every metadata list the metadata editors read (tags, people, cameras, …) plus image search. */
+export const METADATA_CACHE_TAGS = [
+  'content-tags',
+  'content-people',
+  'content-cameras',
+  'content-locations',
+  'content-lenses',
+  'content-film-metadata',
+  'search-images',
+] as const;
+
+const EVENT_TYPES = new Set<string>([
+  'collection.updated',
+  'collection.visibility_changed',
+  'image.updated',
+  'tag.renamed',
+] satisfies RevalidationEventType[]);
+
+const SLUG = /^[\w-]{1,200}$/;
+
+/** A public slug as the backend mints them; anything else is refused before it reaches the cache. */
+export const isSlug = (value: unknown): value is string =>
+  typeof value === 'string' && SLUG.test(value);
+const isOptionalSlug = (value: unknown) => value === undefined || isSlug(value);
+
+/** A collection page, plus the listings every collection appears in. */
+export function collectionTargets(slug: string): RevalidationTargets {
+  return {
+    tags: [`collection-${slug}`, 'collections-index', 'collection-home'],
+    paths: [`/${slug}`],
+  };
+}
+
+function merge(...targets: RevalidationTargets[]): RevalidationTargets {
+  return {
+    tags: [...new Set(targets.flatMap(t => t.tags))],
+    paths: [...new Set(targets.flatMap(t => t.paths))],
+  };
+}
+
+/** The cache tags and paths an event invalidates. */
+export function targetsForEvent(event: RevalidationEvent): RevalidationTargets {
+  switch (event.type) {
+    case 'collection.updated': {
+      const { slug, previousSlug } = event.data;
+      return merge(
+        collectionTargets(slug),
+        ...(previousSlug && previousSlug !== slug ? [collectionTargets(previousSlug)] : [])
+      );
+    }
+    case 'collection.visibility_changed':
+      // Hiding a collection also has to pull it from the directory and from image search.
+      return merge(collectionTargets(event.data.slug), {
+        tags: ['search-images'],
+        paths: ['/collections'],
+      });
+    case 'image.updated':
+      return merge(...event.data.collectionSlugs.map(collectionTargets), {
+        tags: ['search-images'],
+        paths: [],
+      });
+    case 'tag.renamed': {
+      const { slug, previousSlug } = event.data;
+      return {
+        tags: ['content-tags', 'search-images'],
+        paths: [
+          `/tag/${slug}`,
+          ...(previousSlug && previousSlug !== slug ? [`/tag/${previousSlug}`] : []),
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * Narrow an untrusted webhook body to an event. Null for an unknown type or a malformed payload —
+ * a slug that could not have come from the backend is refused rather than passed to the cache.
+ */
+export function parseRevalidationEvent(body: unknown): RevalidationEvent | null {
+  if (typeof body !== 'object' || body === null) return null;
+  const { id, type, data } = body as Record<string, unknown>;
+  if (typeof id !== 'string' || id.length === 0 || id.length > 200) return null;
+  if (typeof type !== 'string' || !EVENT_TYPES.has(type)) return null;
+  if (typeof data !== 'object' || data === null) return null;
+  const fields = data as Record<string, unknown>;
+
+  switch (type as RevalidationEventType) {
+    case 'collection.updated':
+    case 'tag.renamed':
+      return isSlug(fields.slug) && isOptionalSlug(fields.previousSlug)
+        ? ({
+            id,
+            type,
+            data: { slug: fields.slug, previousSlug: fields.previousSlug },
+          } as RevalidationEvent)
+        : null;
+    case 'collection.visibility_changed':
+      return isSlug(fields.slug) &&
+        Object.values(CollectionVisibility).includes(fields.visibility as CollectionVisibility)
+        ? {
+            id,
+            type: 'collection.visibility_changed',
+            data: { slug: fields.slug, visibility: fields.visibility as CollectionVisibility },
+          }
+        : null;
+    case 'image.updated':
+      return Number.isInteger(fields.imageId) &&
+        Array.isArray(fields.collectionSlugs) &&
+        fields.collectionSlugs.every(isSlug)
+        ? {
+            id,
+            type: 'image.updated',
+            data: { imageId: fields.imageId as number, collectionSlugs: fields.collectionSlugs },
+          }
+        : null;
+  }
+}
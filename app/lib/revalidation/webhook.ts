@@ -0,0 +1,122 @@
+/**
+ * Revalidation Webhook
+ *
+ * Authentication for `/api/revalidate`, which the backend calls when data changes outside this
+ * frontend (another admin client, a batch job, a direct DB fix).
+ *
+ * Key Features:
+ * - HMAC-SHA256 over `<timestamp>.<raw body>` with `REVALIDATE_WEBHOOK_SECRET`, sent as
+ *   `X-Ezac-Signature: sha256=<hex>` next to `X-Ezac-Timestamp` (unix seconds)
+ * - Timestamps outside ±5 minutes are refused, so a captured request cannot be replayed later
+ * - Event ids seen inside that window are refused, so it cannot be replayed sooner either. The
+ *   id cache is per server instance — a replay landing on another instance within five minutes
+ *   gets through, which costs one redundant revalidation and nothing else
+ * - Every delivery, accepted or not, is written to the server log — that log is the audit trail,
+ *   since it outlives the instance and is already where an admin reads deploy-side history
+ *
+ * Server-only: imports `node:crypto`.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import { logger } from '@/app/utils/logger';
+
+import { type RevalidationEventType } from './events';
+
+export const SIGNATURE_HEADER = 'x-ezac-signature';
+export const TIMESTAMP_HEADER = 'x-ezac-timestamp';
+
+/** How far a delivery's timestamp may drift from this server's clock. */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export type WebhookRejection =
+  | 'not-configured'
+  | 'missing-signature'
+  | 'stale-timestamp'
+  | 'bad-signature'
+  | 'replayed'
+  | 'invalid-event';
+
+export interface RevalidationAuditEntry {
+  receivedAt: string;
+  outcome: 'accepted' | 'rejected';
+  reason?: WebhookRejection;
+  eventId?: string;
+  type?: RevalidationEventType;
+  tags?: string[];
+  paths?: string[];
+}
+
+/** Event id → unix seconds it was accepted at. */
+const delivered = new Map<string, number>();
+
+/** The `X-Ezac-Signature` value for a body — what the backend computes, and what tests send. */
+export function signPayload(secret: string, timestamp: number | string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a delivery's signature and timestamp. `now` is unix seconds.
+ * @returns Null when the delivery is authentic, otherwise why it is not
+ */
+export function verifyWebhookSignature({
+  secret,
+  signature,
+  timestamp,
+  body,
+  now,
+}: {
+  secret: string | undefined;
+  signature: string | null;
+  timestamp: string | null;
+  body: string;
+  now: number;
+}): WebhookRejection | null {
+  if (!secret) return 'not-configured';
+  if (!signature || !timestamp) return 'missing-signature';
+
+  const sentAt = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || Math.abs(now - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return 'stale-timestamp';
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return 'bad-signature';
+  }
+  return null;
+}
+
+/**
+ * Claim an event id. False when it was already delivered inside the tolerance window; older ids
+ * are forgotten, since their timestamps could no longer pass verification anyway.
+ */
+export function claimEventId(eventId: string, now: number): boolean {
+  for (const [id, at] of delivered) {
+    if (now - at > SIGNATURE_TOLERANCE_SECONDS * 2) delivered.delete(id);
+  }
+  if (delivered.has(eventId)) return false;
+  delivered.set(eventId, now);
+  return true;
+}
+
+/** Give an id back after the delivery failed downstream, so the backend's retry is accepted. */
+export function releaseEventId(eventId: string): void {
+  delivered.delete(eventId);
+}
+
+/** Write a delivery to the server log: rejections as warnings, accepted events at debug. */
+export function recordWebhookDelivery(entry: Omit<RevalidationAuditEntry, 'receivedAt'>): void {
+  const stamped: RevalidationAuditEntry = { receivedAt: new Date().toISOString(), ...entry };
+  if (entry.outcome === 'rejected') {
+    logger.warn('revalidateWebhook', `Rejected delivery: ${entry.reason}`, { ...stamped });
+  } else {
+    logger.debug('revalidateWebhook', `Revalidated for ${entry.type}`, { ...stamped });
+  }
+}
+
+/** Forget delivered ids. For tests. */
+export function resetWebhookState(): void {
+  delivered.clear();
+}
@@ -0,0 +1,180 @@
+/**
+ * Edit Queue
+ *
+ * Persists manage-page writes that could not reach the backend (the admin went offline mid-save)
+ * so they survive a reload and can be replayed in order on reconnect.
+ *
+ * Key Features:
+ * - IndexedDB-backed: unlike the sessionStorage collection cache, a queued edit is the only copy
+ *   of the admin's work, so it outlives the tab
+ * - Auto-increment ids preserve the order edits were made in
+ * - Each edit carries the `updatedAt` of everything it touches, as the admin last saw it, so the
+ *   replay can tell a stale edit from a safe one
+ * - Falls back to an in-memory queue where IndexedDB is unavailable (private mode, SSR, tests)
+ */
+
+import { type ContentImageUpdateRequest } from '@/app/types/Content';
+import { logger } from '@/app/utils/logger';
+
+const DB_NAME = 'ezac-edit-queue';
+const DB_VERSION = 1;
+const STORE = 'edits';
+
+/** A write the manage page makes that can wait for the network. */
+export type QueuedMutation =
+  | { kind: 'images'; updates: ContentImageUpdateRequest[] }
+  | {
+      kind: 'reorder';
+      collectionId: number;
+      reorders: Array<{ contentId: number; newOrderIndex: number }>;
+    };
+
+export interface QueuedEdit {
+  /** Assigned on enqueue; ascending in the order edits were made. */
+  id: number;
+  /** The collection whose manage page queued it — replay checks conflicts against its DTO. */
+  slug: string;
+  /** Short description for the pending list and the conflict dialog. */
+  label: string;
+  queuedAt: number;
+  mutation: QueuedMutation;
+  /**
+   * `updatedAt` of every entity the mutation touches, keyed `image:<id>` / `collection:<id>`, as
+   * the admin saw it when editing. Null when the server never sent one.
+   */
+  baseline: Record<string, string | null>;
+}
+
+export type NewQueuedEdit = Omit<QueuedEdit, 'id' | 'queuedAt'>;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/** Fallback store, used whenever IndexedDB cannot be opened. */
+let memory: QueuedEdit[] = [];
+let memoryNextId = 1;
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result));
+    request.addEventListener('error', () => reject(request.error));
+  });
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    dbPromise = Promise.resolve(null);
+    return dbPromise;
+  }
+  dbPromise = new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.addEventListener('upgradeneeded', () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('slug', 'slug');
+    });
+    request.addEventListener('success', () => resolve(request.result));
+    request.addEventListener('error', () => {
+      logger.warn('editQueue', 'IndexedDB unavailable, queueing in memory', {
+        error: request.error,
+      });
+      resolve(null);
+    });
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  if (!db) throw new Error('IndexedDB unavailable');
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export const editQueue = {
+  /**
+   * Append an edit. Resolves with the stored edit, id assigned.
+   * @param edit - The edit, without id or timestamp
+   */
+  async enqueue(edit: NewQueuedEdit): Promise<QueuedEdit> {
+    const queuedAt = Date.now();
+    const db = await openDb();
+    let stored: QueuedEdit;
+    if (db) {
+      const id = await withStore('readwrite', store => store.add({ ...edit, queuedAt }));
+      stored = { ...edit, id: Number(id), queuedAt };
+    } else {
+      stored = { ...edit, id: memoryNextId++, queuedAt };
+      memory = [...memory, stored];
+    }
+    notify();
+    return stored;
+  },
+
+  /**
+   * Every queued edit for a collection, oldest first.
+   * @param slug - Collection slug
+   */
+  async list(slug: string): Promise<QueuedEdit[]> {
+    const db = await openDb();
+    if (!db) return memory.filter(edit => edit.slug === slug);
+    try {
+      const edits = await withStore('readonly', store =>
+        store.index('slug').getAll(IDBKeyRange.only(slug))
+      );
+      return (edits as QueuedEdit[]).sort((a, b) => a.id - b.id);
+    } catch (error) {
+      logger.warn('editQueue', `list: failed to read queue for slug: ${slug}`, { error });
+      return [];
+    }
+  },
+
+  /**
+   * Overwrite a queued edit in place (a rebased baseline, a merged mutation). Order is unchanged.
+   * @param edit - The edit, id included
+   */
+  async put(edit: QueuedEdit): Promise<void> {
+    const db = await openDb();
+    if (db) await withStore('readwrite', store => store.put(edit));
+    else memory = memory.map(existing => (existing.id === edit.id ? edit : existing));
+    notify();
+  },
+
+  /**
+   * Drop a queued edit — replayed, or discarded by the admin.
+   * @param id - Queued edit id
+   */
+  async remove(id: number): Promise<void> {
+    const db = await openDb();
+    if (db) await withStore('readwrite', store => store.delete(id));
+    else memory = memory.filter(edit => edit.id !== id);
+    notify();
+  },
+
+  /**
+   * Be told whenever the queue changes, from this tab.
+   * @returns Unsubscribe
+   */
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+/** Forget the open database and empty the in-memory fallback. For tests. */
+export function resetEditQueue(): void {
+  dbPromise = null;
+  memory = [];
+  memoryNextId = 1;
+  listeners.clear();
+}
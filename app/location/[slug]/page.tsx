@@ -1,10 +1,12 @@
 import { type Metadata } from 'next';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import { cache } from 'react';
 
+import { JsonLd } from '@/app/components/JsonLd/JsonLd';
 import LocationPage from '@/app/components/LocationPage/LocationPage';
 import { getCollectionsByLocation } from '@/app/lib/api/collections';
 import { getAllLocations, searchImages } from '@/app/lib/api/content';
+import { breadcrumbJsonLd, imageGalleryJsonLd } from '@/app/utils/structuredData';
 
 interface LocationPageRouteProps {
   params: Promise<{ slug: string }>;
@@ -19,6 +21,7 @@ interface ResolvedLocation {
 /**
  * Resolve a URL slug to a real location by matching against the backend location list.
  * Primary: match by API slug field directly.
+ * Then: an alias or pre-rename slug, which the page redirects to the canonical slug.
  * Fallback: exact name match for backwards-compatible URLs.
  * Returns null if no match found.
  */
@@ -29,6 +32,9 @@ async function resolveLocationFromSlug(slug: string): Promise<ResolvedLocation |
   const slugMatch = locations.find(l => l.slug === slug);
   if (slugMatch) return { id: slugMatch.id, name: slugMatch.name, slug: slugMatch.slug };
 
+  const aliasMatch = locations.find(l => l.aliases?.includes(slug));
+  if (aliasMatch) return { id: aliasMatch.id, name: aliasMatch.name, slug: aliasMatch.slug };
+
   const decoded = decodeURIComponent(slug);
   const nameMatch = locations.find(l => l.name === decoded);
   if (nameMatch) return { id: nameMatch.id, name: nameMatch.name, slug: nameMatch.slug };
@@ -58,6 +64,13 @@ export async function generateMetadata({ params }: LocationPageRouteProps): Prom
       description: `Photography from ${locationName} by Zac Edens`,
       type: 'website',
     },
+    alternates: {
+      types: {
+        'application/rss+xml': [
+          { url: `/feeds/location/${location?.slug ?? slug}.rss`, title: locationName },
+        ],
+      },
+    },
   };
 }
 
@@ -76,6 +89,8 @@ export default async function LocationPageRoute({ params }: LocationPageRoutePro
 
   const location = await getCachedLocation(slug);
   if (!location) notFound();
+  // Same as the tag page: an alias, old slug or name redirects to the canonical URL.
+  if (location.slug !== slug) permanentRedirect(`/location/${location.slug}`);
 
   const [collections, images] = await Promise.all([
     getCollectionsByLocation(location.slug),
@@ -86,12 +101,22 @@ export default async function LocationPageRoute({ params }: LocationPageRoutePro
 
   const coverImage = images.find(img => (img.rating ?? 0) >= 4) ?? images[0] ?? null;
 
+  const path = `/location/${location.slug}`;
+
   return (
-    <LocationPage
-      locationName={location.name}
-      collections={collections}
-      images={images}
-      coverImage={coverImage}
-    />
+    <>
+      <JsonLd
+        data={[
+          imageGalleryJsonLd({ name: location.name, path, images }),
+          breadcrumbJsonLd([{ name: location.name, path }]),
+        ]}
+      />
+      <LocationPage
+        locationName={location.name}
+        collections={collections}
+        images={images}
+        coverImage={coverImage}
+      />
+    </>
   );
 }
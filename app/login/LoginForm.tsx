@@ -7,8 +7,9 @@ import { Button } from '@/app/components/ui/Button/Button';
 import { Field } from '@/app/components/ui/Field/Field';
 import { FormError } from '@/app/components/ui/Field/FormError';
 import { Input } from '@/app/components/ui/Field/Input';
-import { login, loginWithPasskey } from '@/app/lib/api/auth';
+import { login, loginWithPasskey, me } from '@/app/lib/api/auth';
 import { ApiError } from '@/app/lib/api/core';
+import { owesSecondFactor } from '@/app/utils/galleryAccess';
 
 import styles from './LoginForm.module.scss';
 
@@ -50,8 +51,16 @@ function mapError(err: unknown, flow: LoginFlow): string {
 /**
  * Returning-user sign-in form. Email + password drives the break-glass `login()`;
  * the "Face / Touch ID" button drives `loginWithPasskey()` (email-keyed). On
- * success the backend sets the `ezac_session` cookie and we land on `/user`.
- * Failures render through {@link mapError}, keyed by which flow was attempted.
+ * success the backend sets the `ezac_session` cookie and we land on `/user` —
+ * unless a password sign-in leaves a production admin owing its second factor
+ * ({@link owesSecondFactor}), which goes on to the `/login/mfa` challenge. A
+ * passkey is a second factor in itself, so that flow never does. Failures render
+ * through {@link mapError}, keyed by which flow was attempted.
+ *
+ * The `me()` read after a password sign-in is not part of the sign-in: the session
+ * already exists when it runs, so a failure there must not surface as a login
+ * error. It lands on `/user` instead, and an admin who still owes the factor is
+ * caught by `requireAdmin` on the way into any admin page.
  */
 export default function LoginForm() {
   const router = useRouter();
@@ -75,7 +84,8 @@ export default function LoginForm() {
     try {
       setSubmitting(true);
       await login(email.trim(), password);
-      router.push('/user');
+      const principal = await me().catch(() => null);
+      router.push(owesSecondFactor(principal) ? '/login/mfa' : '/user');
       router.refresh();
     } catch (error_) {
       setError(mapError(error_, 'password'));
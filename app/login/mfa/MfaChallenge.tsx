@@ -0,0 +1,74 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+
+import { MfaChallengeForm } from '@/app/components/Mfa/MfaChallengeForm';
+import { MfaEnrollment } from '@/app/components/Mfa/MfaEnrollment';
+import { Button } from '@/app/components/ui/Button/Button';
+import { FormError } from '@/app/components/ui/Field/FormError';
+import { LoadingText } from '@/app/components/ui/StatusText/LoadingText';
+import { getMfaStatus } from '@/app/lib/api/auth';
+import { type MfaStatus } from '@/app/types/Auth';
+
+import styles from './page.module.scss';
+
+/**
+ * Body of `/login/mfa`. With a factor on the account it challenges for it; without one — an admin
+ * signing in for the first time since MFA became required — it enrolls one first. A new
+ * authenticator app verifies the session as it is confirmed; a new passkey still has to be used
+ * once, so that path reloads the status and lands on the challenge.
+ */
+export default function MfaChallenge() {
+  const router = useRouter();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoadError(null);
+    try {
+      setStatus(await getMfaStatus());
+    } catch {
+      setLoadError("Your sign-in options couldn't be loaded. Please try again.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const finish = () => {
+    router.push('/user');
+    router.refresh();
+  };
+
+  const hasFactor = status !== null && (status.totpEnabled || status.passkeyCount > 0);
+
+  return (
+    <div className={styles.body}>
+      <LoadingText isLoading={status === null && !loadError}>Loading…</LoadingText>
+      {loadError && (
+        <>
+          <FormError>{loadError}</FormError>
+          <Button variant="outline" onClick={() => void load()}>
+            Retry
+          </Button>
+        </>
+      )}
+      {status && hasFactor && (
+        <>
+          <p className={styles.text}>Confirm it’s you to finish signing in.</p>
+          <MfaChallengeForm onVerified={finish} />
+        </>
+      )}
+      {status && !hasFactor && (
+        <>
+          <p className={styles.text}>
+            Your account needs two-step verification before you can continue.
+          </p>
+          <MfaEnrollment onEnrolled={verified => (verified ? finish() : void load())} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { type Metadata } from 'next';
+import { redirect } from 'next/navigation';
+
+import { skipTargetProps } from '@/app/components/ui/SkipLink/SkipLink';
+import { meServer } from '@/app/lib/api/auth';
+import { owesSecondFactor } from '@/app/utils/galleryAccess';
+
+import MfaChallenge from './MfaChallenge';
+import styles from './page.module.scss';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = { title: 'Two-step verification' };
+
+/**
+ * Second half of a password sign-in: where `LoginForm` and `requireAdmin` send a production admin
+ * whose session still owes its second factor ({@link owesSecondFactor}). Anonymous visitors go back
+ * to `/login`; any other session — already verified, not an admin, or outside production — has
+ * nothing to do here and lands on `/user`, like a signed-in visit to `/login` does.
+ */
+export default async function MfaPage() {
+  const principal = await meServer();
+  if (!principal) redirect('/login');
+  if (!owesSecondFactor(principal)) redirect('/user');
+
+  return (
+    <main className={styles.page} {...skipTargetProps}>
+      <div className={styles.card}>
+        <h1 className={styles.heading}>Two-step verification</h1>
+        <MfaChallenge />
+      </div>
+    </main>
+  );
+}
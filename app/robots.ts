@@ -0,0 +1,34 @@
+import { type MetadataRoute } from 'next';
+
+import { absoluteUrl } from '@/app/utils/structuredData';
+
+/**
+ * Routes crawlers have no business in: account and auth flows, share links, client-gallery
+ * listings, the admin surfaces and the API. These are already auth-gated or unlisted; keeping
+ * crawlers out saves them a redirect to /login and keeps share tokens out of search results.
+ */
+export const DISALLOWED_PATHS = [
+  '/admin',
+  '/all-client-galleries',
+  '/all-images',
+  '/api/',
+  '/collection/manage',
+  '/comments',
+  // Private token feeds; the token is a credential.
+  '/feeds/following/',
+  '/invite',
+  '/login',
+  '/metadata',
+  '/s/',
+  '/user',
+  // The in-place edit surface on any collection page.
+  '/*?manage=',
+];
+
+/** `/robots.txt`: everything public is crawlable; private surfaces are not. */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: '*', allow: '/', disallow: DISALLOWED_PATHS },
+    sitemap: absoluteUrl('/sitemap.xml'),
+  };
+}
@@ -0,0 +1,34 @@
+import styles from './ShareClosed.module.scss';
+
+export interface ShareClosedProps {
+  /** Why the link no longer opens. */
+  reason: 'expired' | 'exhausted';
+}
+
+const COPY: Record<ShareClosedProps['reason'], { heading: string; text: string }> = {
+  expired: {
+    heading: 'This link has expired',
+    text: 'The person who shared it set it to stop working after a while. Ask them for a new link.',
+  },
+  exhausted: {
+    heading: 'This link has been used up',
+    text: 'The person who shared it limited how many people could open it, and that limit has been reached. Ask them for a new link.',
+  },
+};
+
+/**
+ * What a recipient sees when the link they were sent has closed on its own.
+ *
+ * Shown instead of a 404 because the recipient did nothing wrong: the link was real and worked
+ * for someone, and "ask for a new one" is an answer they can act on. Neither state names the
+ * owner — a closed link no longer grants a look at whose work it was.
+ */
+export function ShareClosed({ reason }: ShareClosedProps) {
+  const { heading, text } = COPY[reason];
+  return (
+    <section className={styles.closed}>
+      <h1 className={styles.heading}>{heading}</h1>
+      <p className={styles.text}>{text}</p>
+    </section>
+  );
+}
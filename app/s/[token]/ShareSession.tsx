@@ -21,9 +21,10 @@ export interface ShareSessionProps {
  * drift from the backend that owns them.
  *
  * The cost is one extra request on the first landing only — every later visit is served from the
- * cookie. A failure is logged and swallowed: the page the visitor asked for is already rendered
- * above, and the link in their messages keeps working, so an error banner would report a problem
- * they do not have.
+ * cookie. That request is also the one the backend counts as a view (see {@link plantShareCookie}).
+ * A failure is logged and swallowed: the page the visitor asked for is already rendered above, and
+ * the link in their messages keeps working, so an error banner would report a problem they do not
+ * have.
  */
 export function ShareSession({ token }: ShareSessionProps) {
   useEffect(() => {
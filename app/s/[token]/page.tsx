@@ -4,10 +4,12 @@ import { notFound } from 'next/navigation';
 import { PageShell } from '@/app/components/ui/PageShell/PageShell';
 import { UserSpace } from '@/app/components/UserSpace/UserSpace';
 import { loadUserSpace, resolveTabKey } from '@/app/components/UserSpace/userSpaceData';
+import { getShareView } from '@/app/lib/api/share';
 import { resolveSsrViewport } from '@/app/utils/ssrViewport';
 
 import styles from './page.module.scss';
 import { ShareBanner } from './ShareBanner';
+import { ShareClosed } from './ShareClosed';
 import { ShareSession } from './ShareSession';
 
 export const dynamic = 'force-dynamic';
@@ -38,18 +40,29 @@ interface SharePageProps {
  * rendered empty — an empty "Saved" tab would assert the owner has saved nothing, which is not
  * what we know.
  *
- * A dead link (unknown or reset) is a 404. The backend cannot tell those apart by design — a reset
- * leaves no trace of the old token — and neither should this page.
+ * A dead link (unknown or revoked) is a 404. The backend cannot tell those apart by design — a
+ * revoke leaves no trace of the old token — and neither should this page. A link that closed on
+ * its own, by expiring or reaching its view limit, renders {@link ShareClosed} instead: it was
+ * real, and its recipient should learn to ask for another rather than suspect a typo. The view is
+ * read here rather than inside `loadUserSpace` for that reason — the link's state decides what
+ * the page is before any of the space is loaded.
  */
 export default async function SharePage({ params, searchParams }: SharePageProps) {
   const { token } = await params;
   const { tab } = await searchParams;
 
   const activeKey = resolveTabKey(tab);
-  const [data, ssrViewport] = await Promise.all([
-    loadUserSpace({ mode: 'share', token }, activeKey),
-    resolveSsrViewport(),
-  ]);
+  const [result, ssrViewport] = await Promise.all([getShareView(token), resolveSsrViewport()]);
+  if (result.status === 'invalid') notFound();
+  if (result.status !== 'ok') {
+    return (
+      <PageShell pageType="default">
+        <ShareClosed reason={result.status} />
+      </PageShell>
+    );
+  }
+
+  const data = await loadUserSpace({ mode: 'share', view: result.view }, activeKey);
   if (!data) notFound();
 
   // `?tab=saved` on a shared link resolves to a section this view does not offer. Clamp rather
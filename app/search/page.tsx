@@ -0,0 +1,84 @@
+import { type Metadata } from 'next';
+
+import SearchPageClient, { type SearchOutcome } from '@/app/components/SearchPage/SearchPageClient';
+import {
+  searchImagesPage,
+  type SearchImagesParams,
+  searchScopeFromCriteria,
+} from '@/app/lib/api/content';
+import { ApiError } from '@/app/lib/api/core';
+import { parseFilterFromParams } from '@/app/utils/contentFilter';
+import { logger } from '@/app/utils/logger';
+import { resolveSsrViewport } from '@/app/utils/ssrViewport';
+
+interface SearchPageRouteProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/** First page size. Later pages reuse it (see useImageBrowser). */
+const SEARCH_PAGE_SIZE = 60;
+
+// Every request is a different query; there is nothing to prerender.
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata({ searchParams }: SearchPageRouteProps): Promise<Metadata> {
+  const { query } = parseFilterFromParams(await searchParams);
+  const title = query
+    ? `“${query}” — Search — Zac Edens Photography`
+    : 'Search — Zac Edens Photography';
+
+  return {
+    title,
+    description: 'Search photography by Zac Edens',
+    // Result pages are unbounded permutations of the index; keep them out of it.
+    robots: { index: false, follow: true },
+  };
+}
+
+/**
+ * Run the first page of the search. Failures are resolved into a typed {@link SearchOutcome}
+ * rather than thrown: a rejected query belongs in the form, not the route error boundary.
+ */
+async function runSearch(scope: SearchImagesParams): Promise<SearchOutcome> {
+  if (
+    scope.captureStartDate &&
+    scope.captureEndDate &&
+    scope.captureStartDate > scope.captureEndDate
+  ) {
+    return { status: 'invalid', message: 'The start date is after the end date.' };
+  }
+  try {
+    const page = await searchImagesPage({ ...scope, page: 0, size: SEARCH_PAGE_SIZE });
+    return { status: 'ok', page };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 400) {
+      return { status: 'invalid', message: error.message };
+    }
+    logger.error('SearchPage', 'Search failed', error, { scope });
+    return { status: 'unavailable' };
+  }
+}
+
+/**
+ * Search Page Route
+ *
+ * Parses the shared filter params with {@link parseFilterFromParams}. The scope half (`q`, `from`,
+ * `to`, `collection`) runs server-side; the facet half (`tag`, `people`, `rating`, ...) is applied
+ * by {@link SearchPageClient} to the loaded results so it can count them.
+ */
+export default async function SearchPageRoute({ searchParams }: SearchPageRouteProps) {
+  const criteria = parseFilterFromParams(await searchParams);
+  const scope = searchScopeFromCriteria(criteria);
+
+  const [outcome, ssrViewport] = await Promise.all([runSearch(scope), resolveSsrViewport()]);
+
+  // Keyed on the scope so a new search remounts with fresh paging; facet-only URL writes keep it.
+  return (
+    <SearchPageClient
+      key={JSON.stringify(scope)}
+      outcome={outcome}
+      scope={scope}
+      ssrViewport={ssrViewport}
+    />
+  );
+}
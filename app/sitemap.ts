@@ -0,0 +1,84 @@
+import { type MetadataRoute } from 'next';
+
+import { getCollectionsPage } from '@/app/lib/api/collections';
+import { getAllLocations, getAllTags } from '@/app/lib/api/content';
+import { type CollectionModel } from '@/app/types/Collection';
+import { isShadowedRouteSlug } from '@/app/utils/collectionSlugs';
+import { logger } from '@/app/utils/logger';
+import { absoluteUrl, collectionPath, isIndexableCollection } from '@/app/utils/structuredData';
+
+// Built per request, like the pages it lists: prerendering would need the backend reachable
+// from the build container (see app/tag/[slug]/page.tsx), and the list changes with every
+// publish. The underlying reads keep their revalidate windows, so crawls stay cheap.
+export const dynamic = 'force-dynamic';
+
+const COLLECTIONS_PAGE_SIZE = 100;
+/** Hard stop for the page walk, so a backend that ignores `page` cannot loop forever. */
+const MAX_COLLECTION_PAGES = 50;
+
+const STATIC_ROUTES = ['/collections', '/explore', '/search'];
+
+// A failed page keeps the pages already read: a partial sitemap still beats a 500 for crawlers.
+async function listAllCollections(): Promise<CollectionModel[]> {
+  const collections: CollectionModel[] = [];
+  try {
+    for (let page = 0; page < MAX_COLLECTION_PAGES; page++) {
+      const batch = await getCollectionsPage(page, COLLECTIONS_PAGE_SIZE);
+      collections.push(...batch);
+      if (batch.length < COLLECTIONS_PAGE_SIZE) break;
+    }
+  } catch (error) {
+    logger.error('sitemap', 'Failed to read collections; listing those already read', {
+      error,
+      read: collections.length,
+    });
+  }
+  return collections;
+}
+
+// One failed taxonomy read drops that section, not the whole sitemap.
+async function orEmpty<T>(section: string, read: () => Promise<T[] | null>): Promise<T[]> {
+  try {
+    return (await read()) ?? [];
+  } catch (error) {
+    logger.warn('sitemap', `Failed to read ${section}; omitting them`, { error });
+    return [];
+  }
+}
+
+/**
+ * `/sitemap.xml`: the public static pages, every LISTED collection that is not
+ * password-protected, and the tag and location pages.
+ *
+ * A collection whose slug is shadowed by a static route is left out — its URL would index the
+ * static page instead (see `SHADOWED_ROUTE_SLUGS`). The home singleton is listed once, at `/`.
+ * No backend failure fails the sitemap — the static routes are always listed.
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [collections, tags, locations] = await Promise.all([
+    listAllCollections(),
+    orEmpty('tags', getAllTags),
+    orEmpty('locations', getAllLocations),
+  ]);
+
+  const collectionEntries = collections
+    .filter(
+      collection => isIndexableCollection(collection) && !isShadowedRouteSlug(collection.slug)
+    )
+    .map(collection => ({
+      url: absoluteUrl(collectionPath(collection.slug)),
+      lastModified: collection.updatedAt,
+      ...(collection.coverImage?.imageUrl ? { images: [collection.coverImage.imageUrl] } : {}),
+    }));
+  const hasHome = collectionEntries.some(entry => entry.url === absoluteUrl('/'));
+
+  return [
+    ...(hasHome ? [] : [{ url: absoluteUrl('/') }]),
+    ...collectionEntries,
+    ...STATIC_ROUTES.map(path => ({ url: absoluteUrl(path) })),
+    ...tags.map(tag => ({ url: absoluteUrl(`/tag/${encodeURIComponent(tag.slug)}`) })),
+    ...locations.map(location => ({
+      url: absoluteUrl(`/location/${encodeURIComponent(location.slug)}`),
+    })),
+  ];
+}
@@ -1,10 +1,12 @@
 import { type Metadata } from 'next';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import { cache } from 'react';
 
+import { JsonLd } from '@/app/components/JsonLd/JsonLd';
 import { resolveTaxonomyBySlug } from '@/app/components/TaxonomyPage/resolveTaxonomy';
 import TaxonomyPage from '@/app/components/TaxonomyPage/TaxonomyPage';
 import { getAllTags, searchImages } from '@/app/lib/api/content';
+import { breadcrumbJsonLd, imageGalleryJsonLd } from '@/app/utils/structuredData';
 
 const getCachedTags = cache(() => getAllTags());
 
@@ -34,6 +36,11 @@ export async function generateMetadata({ params }: TagPageRouteProps): Promise<M
       description: `Photos tagged "${tagName}" by Zac Edens`,
       type: 'website',
     },
+    alternates: {
+      types: {
+        'application/rss+xml': [{ url: `/feeds/tag/${tag?.slug ?? slug}.rss`, title: tagName }],
+      },
+    },
   };
 }
 
@@ -44,7 +51,20 @@ export default async function TagPageRoute({ params }: TagPageRouteProps) {
   const tags = await getCachedTags();
   const matchedTag = resolveTaxonomyBySlug(tags, slug);
   if (!matchedTag) notFound();
+  // An alias, a pre-rename slug or a bare name: send it on to the canonical URL.
+  if (matchedTag.slug !== slug) permanentRedirect(`/tag/${matchedTag.slug}`);
 
   const images = await searchImages({ tagIds: [matchedTag.id] });
-  return <TaxonomyPage entityName={matchedTag.name} images={images} />;
+  const path = `/tag/${matchedTag.slug}`;
+  return (
+    <>
+      <JsonLd
+        data={[
+          imageGalleryJsonLd({ name: matchedTag.name, path, images }),
+          breadcrumbJsonLd([{ name: matchedTag.name, path }]),
+        ]}
+      />
+      <TaxonomyPage entityName={matchedTag.name} images={images} />
+    </>
+  );
 }
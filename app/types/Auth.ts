@@ -1,6 +1,6 @@
 /**
  * Auth API types — mirror the backend Auth contract exactly.
- * Source of truth: edens.zac.backend MeResponse / GalleryMembership.
+ * Source of truth: edens.zac.backend MeResponse / GalleryMembership / credential + session views.
  */
 
 /**
@@ -25,3 +25,52 @@ export interface MeResponse {
   mfaSatisfied: boolean;
   galleries: GalleryMembership[];
 }
+
+/**
+ * A registered passkey, from `GET /api/auth/webauthn/credentials`. `nickname` is null until the
+ * owner names it; `lastUsedAt` is null for a passkey that has never signed in.
+ */
+export interface PasskeyCredential {
+  id: string;
+  nickname: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+/**
+ * A live session for the signed-in account, from `GET /api/auth/sessions`. `device` is the
+ * backend's label for the user agent (e.g. "Safari on iPhone"), null when it couldn't tell;
+ * `current` marks the session making the request.
+ */
+export interface AuthSession {
+  id: string;
+  device: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+/**
+ * The signed-in user's second factors, from `GET /api/auth/mfa`. Any registered passkey counts as
+ * a factor; `recoveryCodesRemaining` is 0 until an authenticator app has been enrolled.
+ */
+export interface MfaStatus {
+  totpEnabled: boolean;
+  passkeyCount: number;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * A pending authenticator-app enrollment, from `POST /api/auth/mfa/totp/start`. `qrCodeDataUri`
+ * encodes `otpauthUrl` for scanning; `secret` is the same key for typing in by hand.
+ */
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUri: string;
+}
+
+/** The confirmed enrollment — the recovery codes are shown this once and never again. */
+export interface TotpConfirmation {
+  recoveryCodes: string[];
+}
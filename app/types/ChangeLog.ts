@@ -0,0 +1,71 @@
+/**
+ * Canonical-change log — the `user_change_log` the logged-in user-flow review designed. User edits
+ * mutate canonical values (there is no per-user overlay), so this log is how an admin sees what
+ * changed underneath them: every content and collection mutation, who made it, the value before and
+ * after, and a revert that writes the before-value back.
+ */
+
+/** What kind of mutation a row records. Mirrors backend `ChangeType`. */
+export type ChangeType = 'CREATE' | 'UPDATE' | 'DELETE' | 'REORDER';
+
+/** Which side of the model changed. Mirrors backend `ChangeTarget`. */
+export type ChangeTarget = 'CONTENT' | 'COLLECTION';
+
+/**
+ * One row of `GET /api/admin/change-log`, newest first. `before`/`after` are the backend's display
+ * strings for the changed field, not raw JSON — `null` on the side that did not exist (a CREATE has
+ * no before, a DELETE no after).
+ */
+export interface ChangeLogEntry {
+  id: number;
+  actorEmail: string;
+  /** True when an admin made the change. Admin changes are logged too, so a revert can be undone. */
+  actorIsAdmin: boolean;
+  target: ChangeTarget;
+  changeType: ChangeType;
+  /** The collection the change happened in; null for a library-wide content edit. */
+  collectionId: number | null;
+  collectionSlug: string | null;
+  collectionTitle: string | null;
+  contentId: number | null;
+  /** The changed field (`caption`, `rating`, `title`…); null for a whole-record create/delete. */
+  field: string | null;
+  before: string | null;
+  after: string | null;
+  createdAt: string;
+  /** Set once reverted. A reverted row stays in the log; the revert is logged as its own row. */
+  revertedAt: string | null;
+  /** False when a later change to the same field would be clobbered, or the record is gone. */
+  revertible: boolean;
+  /** Whether the signed-in admin has marked this row read. Tracked per admin by the backend. */
+  seen: boolean;
+}
+
+/** A collection the log has a change in — one option of the panel's collection filter. */
+export interface ChangeLogCollection {
+  id: number;
+  title: string;
+}
+
+/**
+ * `GET /api/admin/change-log` — one page of the (filtered) log plus the reading admin's unread
+ * count. `total` counts every row matching the filters, not just this page. `collections` and
+ * `actors` are the filter options, drawn from the WHOLE log and independent of the filters, so a
+ * filter can offer a change that is not on the first page.
+ */
+export interface ChangeLogPage {
+  entries: ChangeLogEntry[];
+  total: number;
+  unseen: number;
+  collections: ChangeLogCollection[];
+  actors: string[];
+}
+
+/** Query for `GET /api/admin/change-log`. Omitted filters match everything. */
+export interface ChangeLogQuery {
+  collectionId?: number | null;
+  actor?: string | null;
+  changeType?: ChangeType | null;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,40 @@
+/**
+ * Collaborator editing: the curation writes a COLLABORATOR member makes through the `edit`
+ * channel, and the activity log that attributes each one for the admin.
+ *
+ * A collaborator curates — order, captions, tags, ratings, cover — and nothing else. Deleting,
+ * access, roles and visibility stay admin-only, on the backend as much as in the UI.
+ */
+
+import { type TagUpdate } from './Collection';
+
+/**
+ * One image's changes in `PATCH /api/edit/collections/{id}/images`. The backend accepts only
+ * these fields on the edit channel and rejects an image that is not in the collection.
+ */
+export interface CollaboratorImageUpdate {
+  id: number;
+  caption?: string | null;
+  /** 1-5, or null to clear. */
+  rating?: number | null;
+  /** Same prev/newValue/remove diff as the admin image update (see `buildTagsDiff`). */
+  tags?: TagUpdate;
+}
+
+/** What a collaborator changed. Mirrors backend `CollectionActivityKind`. */
+export type CollectionActivityKind = 'REORDER' | 'CAPTION' | 'TAGS' | 'RATING' | 'COVER';
+
+/**
+ * One row of `GET /api/admin/collections/{id}/activity`, newest first. The backend writes a row
+ * per collaborator save and composes `summary` itself ("Moved 4 images", "Set the cover"), so the
+ * log reads the same wherever it is shown.
+ */
+export interface CollectionActivityEntry {
+  id: number;
+  actorEmail: string;
+  kind: CollectionActivityKind;
+  summary: string;
+  /** The image the change was about; null for collection-wide changes such as a reorder. */
+  contentId: number | null;
+  createdAt: string;
+}
@@ -5,6 +5,7 @@
 
 import { type CollectionVisibility } from './CollectionVisibility';
 import type { AnyContentModel, ContentImageModel } from './Content';
+import { type GalleryAccessCodeStatus } from './GalleryAccess';
 import type { ContentCameraModel, ContentPersonModel, ContentTagModel } from './Metadata';
 
 /**
@@ -15,6 +16,16 @@ import type { ContentCameraModel, ContentPersonModel, ContentTagModel } from './
  */
 export type DisplayMode = 'CHRONOLOGICAL' | 'ORDERED' | 'FIXED';
 
+/**
+ * Layout strategy for a collection's content grid. Independent of {@link DisplayMode}, which
+ * decides ORDER; this decides SHAPE.
+ * - ROWS: the rating-aware BoxTree row packer (default)
+ * - MASONRY: equal-width columns, each item at its own aspect ratio
+ * - JUSTIFIED: equal-height rows filled edge to edge (Flickr-style)
+ * Matches backend CollectionBaseModel.LayoutMode enum
+ */
+export type LayoutMode = 'ROWS' | 'MASONRY' | 'JUSTIFIED';
+
 /**
  * Common fields shared across all Collection DTOs.
  * Matches backend CollectionBaseModel.java
@@ -47,6 +58,8 @@ export interface CollectionBaseModel {
   /** Rating 0-5, nullable. Used for ordering multi-collection list views. */
   rating?: number;
   displayMode?: DisplayMode;
+  /** Absent on collections saved before layout modes existed; reads as `ROWS`. */
+  layoutMode?: LayoutMode;
   rowsWide?: number; // Number of items per row (chunk size for layout)
   createdAt?: string;
   updatedAt?: string;
@@ -170,7 +183,10 @@ export interface CollectionUpdateRequest {
   visibility?: CollectionVisibility;
   /** Rating 0-5, nullable. `null` clears the rating. */
   rating?: number | null;
+  /** Proofing pick target; `null` clears it and turns proofing off. */
+  proofingTarget?: number | null;
   displayMode?: DisplayMode;
+  layoutMode?: LayoutMode;
   rowsWide?: number; // Number of items per row (chunk size for layout)
   password?: string;
   contentPerPage?: number;
@@ -246,6 +262,20 @@ export interface CollectionModel extends CollectionBaseModel {
   /** Admin-only: recipient email addresses. Populated only in admin/manage responses. */
   recipientEmails?: string[];
 
+  /**
+   * Set on a locked client gallery (content withheld) when the viewer's access cookie came from an
+   * access code that has since expired or used up its download quota, so the gate can say which
+   * rather than ask for a password as if they had never been in. Absent otherwise.
+   */
+  accessCodeStatus?: Exclude<GalleryAccessCodeStatus, 'active'> | null;
+
+  /**
+   * Client galleries only: how many images the client is asked to pick ("pick 25"). Setting it
+   * turns on proofing — a progress meter and a submit action beside the client's Selects. Null or
+   * absent means no proofing, and Selects behave as plain favorites.
+   */
+  proofingTarget?: number | null;
+
   /**
    * Curated, mutual "sibling" collections (variant peers). Public reads return only
    * LISTED siblings; admin/manage reads return all. Rendered as `Related:` text links
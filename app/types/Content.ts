@@ -24,6 +24,7 @@ import type {
   ContentPersonModel,
   ContentTagModel,
 } from './Metadata';
+import type { RichBlock } from './RichText';
 
 /** Content type discriminator - maps to backend Content contentType field */
 export type ContentType = 'IMAGE' | 'TEXT' | 'GIF' | 'COLLECTION' | 'PANEL' | 'BLANK';
@@ -276,6 +277,11 @@ export interface ContentTextModel extends Content {
   format: TextFormat; // Frontend format type
   formatType?: 'plain' | 'markdown' | 'html' | 'js' | 'css' | 'json'; // Backend field (maps to format)
   align: TextAlign;
+  /**
+   * Parsed body, attached by `processContentBlocks` (see `app/utils/richText.ts`). Never sent by
+   * the backend; absent on the synthetic header rail, which renders `items` as metadata instead.
+   */
+  rich?: RichBlock[];
 }
 
 /**
@@ -385,7 +391,7 @@ export interface ContentCollectionModel extends Content {
 }
 
 /** The admin hub panels that can appear as a PANEL content block. */
-export type PanelType = 'users' | 'messages' | 'roles';
+export type PanelType = 'users' | 'messages' | 'roles' | 'activity';
 
 /**
  * Panel content model - displays a UI panel (e.g. users or messages) as a rated content block
@@ -4,7 +4,8 @@
  * This eliminates the need for type checking inside the renderer component
  */
 
-import { type TextBlockItem, type ViewableContent } from './Content';
+import { type TextAlign, type TextBlockItem, type ViewableContent } from './Content';
+import { type RichBlock } from './RichText';
 
 /**
  * Base props that all content renderers receive
@@ -52,6 +53,8 @@ export interface ContentRendererProps {
 
   // TEXT-specific
   textItems?: TextBlockItem[];
+  richText?: RichBlock[]; // Body blocks only; the header rail renders textItems as metadata
+  textAlign?: TextAlign;
 
   // GIF-specific
   isGif?: boolean; // For unoptimized flag
@@ -0,0 +1,36 @@
+/**
+ * Background ZIP exports of client galleries.
+ *
+ * Instead of streaming a ZIP for the whole request (which mobile connections drop on an
+ * 800-image `original` wedding), the client asks the backend to build the archive, polls the job,
+ * and downloads the finished file from a stable link that can be resumed and, on request, emailed.
+ */
+
+/** `queued` → `running` → `ready`, or `failed` at any point. Only `ready` has an archive. */
+export type ExportJobStatus = 'queued' | 'running' | 'ready' | 'failed';
+
+/** Mirrors backend `ExportJobDTO` from `GET /api/read/exports/{id}`. */
+export interface ExportJob {
+  /** Opaque, unguessable — it is the capability to fetch the archive, so it goes in emails. */
+  id: string;
+  collectionSlug: string;
+  /** Same values as `DownloadFormat` in `app/lib/api/downloads.ts`. */
+  format: 'web' | 'original';
+  imageCount: number;
+  /** Images written to the archive so far; equals `imageCount` once ready. */
+  processedCount: number;
+  status: ExportJobStatus;
+  /** Readable reason for a `failed` job, shown as-is. Null otherwise. */
+  error: string | null;
+  /** ISO instant the finished archive is deleted; null until ready. */
+  expiresAt: string | null;
+  /** Address the archive link goes to once ready; null when nobody asked. */
+  emailTo: string | null;
+}
+
+/** Body of `POST /api/read/collections/{slug}/exports`. */
+export interface ExportJobRequest {
+  format: 'web' | 'original';
+  /** Null exports the whole gallery; otherwise a non-empty subset. */
+  imageIds: number[] | null;
+}
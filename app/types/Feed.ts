@@ -0,0 +1,68 @@
+/**
+ * Syndication feed types — new work published as RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+ *
+ * {@link Feed} is format-neutral: `app/lib/feeds/sources.ts` builds one from backend models and
+ * `app/lib/feeds/formats.ts` serializes it, so the three formats can never disagree about what a
+ * feed contains. The backend types at the bottom mirror the private following-feed endpoints.
+ */
+
+import { type ContentImageModel } from '@/app/types/Content';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/** An image attached to an item: the CloudFront URL a reader downloads, with its MIME type. */
+export interface FeedEnclosure {
+  url: string;
+  type: string;
+}
+
+export interface FeedItem {
+  /** Stable, absolute — the item's page URL, so a re-published item is not seen as new. */
+  id: string;
+  url: string;
+  title: string;
+  summary?: string;
+  /** ISO timestamp. */
+  published: string;
+  /** ISO timestamp; defaults to `published` where a format requires one. */
+  updated?: string;
+  image?: FeedEnclosure;
+  tags?: string[];
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** The site page this feed mirrors. */
+  homePageUrl: string;
+  /** The feed's own URL (its `self` link). */
+  feedUrl: string;
+  /** Newest first. */
+  items: FeedItem[];
+}
+
+/**
+ * The owner's private following-feed token. Mirrors backend `GET /user/feed`. `token` is null
+ * until the owner creates one.
+ */
+export interface FeedTokenSettings {
+  token: string | null;
+  createdAt: string | null;
+}
+
+/** One image that landed in a followed collection. */
+export interface FollowingFeedEntry {
+  collection: { id: number; title: string; slug: string };
+  image: ContentImageModel;
+  /** When the image was added to the collection (ISO). */
+  addedAt: string;
+}
+
+/**
+ * Mirrors backend `GET /feed/following/{token}`: recent additions to the token owner's followed
+ * collections, newest first. The token is the only credential — feed readers send no cookies.
+ */
+export interface FollowingFeed {
+  ownerName: string | null;
+  entries: FollowingFeedEntry[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Per-recipient access codes for client galleries, and the access log they feed.
+ *
+ * A code works at the gallery gate exactly like the shared gallery password — it sets the same
+ * access cookie — but belongs to one recipient, can carry an expiry date and a download quota,
+ * and is what the access log attributes views and downloads to. The shared password stays for
+ * galleries that do not need any of that; its visits log with a null code.
+ */
+
+/**
+ * `expired` once past `expiresAt`; `exhausted` once `downloadCount` reaches `downloadLimit` —
+ * delivery is done, so the code stops opening the gallery. Revoked codes are deleted, not listed.
+ */
+export type GalleryAccessCodeStatus = 'active' | 'expired' | 'exhausted';
+
+/** Mirrors backend `GalleryAccessCodeDTO` from `GET /api/admin/collections/{id}/access-codes`. */
+export interface GalleryAccessCode {
+  id: number;
+  /** Plaintext, like `galleryPassword` — the admin sends it on. Generated by the backend. */
+  code: string;
+  recipientEmail: string | null;
+  /** The admin's own note ("Parents", "Second shooter"); falls back to the email in lists. */
+  label: string | null;
+  /** ISO instant; null never expires. */
+  expiresAt: string | null;
+  /** Null is unlimited. Counts single-image and ZIP downloads alike. */
+  downloadLimit: number | null;
+  downloadCount: number;
+  status: GalleryAccessCodeStatus;
+  createdAt: string;
+}
+
+/** Body of `POST /api/admin/collections/{id}/access-codes`. */
+export interface GalleryAccessCodeRequest {
+  recipientEmail: string | null;
+  label: string | null;
+  expiresAt: string | null;
+  downloadLimit: number | null;
+  /** Email the code and the gallery link to `recipientEmail`. */
+  sendEmail: boolean;
+}
+
+/**
+ * Mirrors backend `POST .../access-codes` response: the created code, and whether the email went.
+ * `reason` explains an unsent email (no address, mail down) — the code is created either way.
+ */
+export interface GalleryAccessCodeResponse {
+  accessCode: GalleryAccessCode;
+  emailSent: boolean;
+  reason: string | null;
+}
+
+/**
+ * One row of `GET /api/admin/collections/{id}/access-log`: a code's (or the shared password's)
+ * visits, rolled up. `country` is the ISO 3166 alpha-2 code the backend resolves from the
+ * `X-Real-IP` the BFF proxy forwards; null when the address could not be placed.
+ */
+export interface GalleryAccessLogEntry {
+  /** Null for visits through the shared gallery password. */
+  codeId: number | null;
+  recipientEmail: string | null;
+  label: string | null;
+  firstViewedAt: string;
+  lastViewedAt: string;
+  viewCount: number;
+  downloadCount: number;
+  country: string | null;
+}
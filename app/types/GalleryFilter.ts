@@ -37,6 +37,12 @@ export interface FilterState {
   readonly selectedLocations: readonly string[];
   /** ISO calendar days ('YYYY-MM-DD') to include. OR logic: an image matches any selected day. */
   readonly selectedDates: readonly string[];
+  /**
+   * Committed boolean filter expression (`film AND NOT person:Zac`), ANDed with the chips above.
+   * Always valid text — the toolbar only commits what parses — and `''` when unset. See
+   * `app/utils/filterExpression.ts` for the syntax.
+   */
+  expression: string;
 }
 
 export const INITIAL_FILTER_STATE: FilterState = Object.freeze({
@@ -50,6 +56,7 @@ export const INITIAL_FILTER_STATE: FilterState = Object.freeze({
   selectedLenses: Object.freeze([] as readonly string[]),
   selectedLocations: Object.freeze([] as readonly string[]),
   selectedDates: Object.freeze([] as readonly string[]),
+  expression: '',
 });
 
 /** Keys of FilterState whose value is a readonly string array. */
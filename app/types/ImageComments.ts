@@ -0,0 +1,60 @@
+/**
+ * Per-image comment threads on client galleries. A client (a CLIENT-or-above grant on the
+ * collection) or the admin starts a thread on one image, optionally pinned to a point on the photo
+ * ("retouch this"); replies stay flat under the thread. Only the admin resolves a thread.
+ *
+ * Distinct from the site-wide contact messages (`AdminMessageView`), which carry no image or
+ * collection and land in the same admin `/comments` page under their own heading.
+ */
+
+/** A point on the photo, as fractions of its rendered width and height (0–1, top-left origin). */
+export interface ImageCommentPin {
+  x: number;
+  y: number;
+}
+
+/** One comment: a thread's opening comment or a reply. */
+export interface ImageComment {
+  id: number;
+  authorName: string | null;
+  /** True for the admin's own comments, so the thread can tell the photographer apart. */
+  authorIsAdmin: boolean;
+  body: string;
+  createdAt: string;
+}
+
+/** Mirrors backend `ImageCommentThread`: the opening comment, its pin, and the replies in order. */
+export interface ImageCommentThread {
+  id: number;
+  collectionId: number;
+  contentId: number;
+  pin: ImageCommentPin | null;
+  /** Null while open. */
+  resolvedAt: string | null;
+  /** `comments[0]` opened the thread; the rest are replies, oldest first. Never empty. */
+  comments: ImageComment[];
+}
+
+/** Body of `POST .../comments`: a new thread, or a reply when `threadId` is set. */
+export interface ImageCommentRequest {
+  body: string;
+  /** Ignored on a reply — a pin belongs to the thread. */
+  pin: ImageCommentPin | null;
+  threadId: number | null;
+}
+
+/** One image's open threads in the admin inbox, with enough of the image to recognise it. */
+export interface ImageCommentInboxImage {
+  contentId: number;
+  title: string | null;
+  imageUrl: string;
+  threads: ImageCommentThread[];
+}
+
+/** Mirrors backend `GET /api/admin/image-comments`: unresolved threads, grouped by collection. */
+export interface ImageCommentInboxGroup {
+  collectionId: number;
+  title: string;
+  slug: string;
+  images: ImageCommentInboxImage[];
+}
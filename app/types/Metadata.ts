@@ -18,6 +18,11 @@ export interface IdNameModel {
  */
 export interface ContentTagModel extends IdNameModel {
   slug: string;
+  /**
+   * Other slugs that resolve to this tag: its aliases' and the ones it had before a rename. Only
+   * the public read list carries them, so `/tag/[slug]` can redirect an old link to `slug`.
+   */
+  aliases?: string[];
 }
 
 /**
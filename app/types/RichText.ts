@@ -0,0 +1,42 @@
+/**
+ * Rich text — the document tree a TEXT block renders from.
+ *
+ * Markdown (`app/utils/markdown.ts`) and HTML (`app/utils/sanitizeHtml.ts`) both parse into this
+ * tree, and `RichText` renders it as React elements. The tree IS the allow-list: a construct with
+ * no node here cannot reach the page, whichever format it was written in, so nothing is ever
+ * handed to `dangerouslySetInnerHTML`.
+ */
+
+export type RichInline =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'break' }
+  | { type: 'strong' | 'em' | 'del'; children: RichInline[] }
+  | { type: 'link'; href: string; children: RichInline[] }
+  | RichImage;
+
+/**
+ * An image from the block's own collection. Only `image:<contentId>` references resolve to one, so
+ * a text block cannot pull in (or track readers with) an image from anywhere else.
+ */
+export interface RichImage {
+  type: 'image';
+  contentId: number;
+  src: string;
+  alt: string;
+  width: number;
+  height: number;
+}
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+export type RichBlock =
+  | { type: 'heading'; level: HeadingLevel; children: RichInline[] }
+  | { type: 'paragraph'; children: RichInline[] }
+  | { type: 'list'; ordered: boolean; start?: number; items: RichBlock[][] }
+  | { type: 'blockquote'; children: RichBlock[] }
+  | { type: 'code'; language?: string; value: string }
+  | { type: 'rule' };
+
+/** What an `image:<contentId>` reference points at, or null when it is not in the collection. */
+export type RichImageResolver = (contentId: number) => Omit<RichImage, 'type' | 'alt'> | null;
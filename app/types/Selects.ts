@@ -1,8 +1,14 @@
+import { type ContentImageModel } from '@/app/types/Content';
+
 /**
  * Per-user Selects types. A "Select" is an image a viewer has added to their personal
  * shortlist within a collection; it is duplicated (pinned at the top of the owner's view
  * + listed on their `/user` page) rather than moved. Distinct from the ephemeral download
  * "select mode" cart (see `ClientGalleryDownloadContext`).
+ *
+ * On a client collection with a `proofingTarget`, Selects double as the client's proofing picks:
+ * once the client submits them ({@link ProofingStatus}) they are locked and land in the admin's
+ * review ({@link ProofingReview}).
  */
 
 /** One collection's worth of a viewer's selected image ids. Mirrors backend `UserSelectGroup`. */
@@ -21,3 +27,34 @@ export const PINNED_SELECT = '__pinnedSelect' as const;
 
 /** A model that may carry the local {@link PINNED_SELECT} marker (only pinned clones do). */
 export type MaybePinned<T> = T & { [PINNED_SELECT]?: true };
+
+/**
+ * The viewer's proofing state on one collection. Mirrors backend `GET /user/selects/proofing`.
+ *
+ * `submittedAt` is set when the client submits their final picks. From then on the backend answers
+ * any select change on that collection with 409, until an admin reopens proofing for them.
+ */
+export interface ProofingStatus {
+  collectionId: number;
+  submittedAt: string | null;
+}
+
+/** One client's picks, as the admin review lists them. */
+export interface ProofingClientPicks {
+  userId: number;
+  displayName: string | null;
+  email: string | null;
+  /** Null while the client is still choosing; their current picks are listed regardless. */
+  submittedAt: string | null;
+  /** In the order the client picked them. */
+  images: ContentImageModel[];
+}
+
+/** Mirrors backend `GET /api/admin/collections/{id}/proofing`. */
+export interface ProofingReview {
+  collectionId: number;
+  title: string;
+  slug: string;
+  proofingTarget: number | null;
+  clients: ProofingClientPicks[];
+}
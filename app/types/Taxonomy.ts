@@ -0,0 +1,63 @@
+/**
+ * Taxonomy console types — the admin's per-entity view of the metadata vocabularies (tags, people,
+ * locations, cameras, lenses, film stocks) behind `/api/admin/metadata/{kind}/{id}`. The list
+ * shapes themselves stay in `app/types/Metadata.ts`; these are what the detail page, the merge and
+ * the alias endpoints carry on top of them.
+ */
+
+import { type ContentImageModel } from '@/app/types/Content';
+
+/** Path segment of a vocabulary under `/api/admin/metadata`. Also the `/metadata/[kind]` segment. */
+export type TaxonomyKind = 'tags' | 'people' | 'locations' | 'cameras' | 'lenses' | 'film-types';
+
+/**
+ * An alternate name that resolves to the entity. The backend matches aliases when tagging, so
+ * "Portra400" lands on "Kodak Portra 400", and the public read lists carry alias slugs so an alias
+ * URL redirects to the canonical page.
+ */
+export interface TaxonomyAlias {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+/** One entity of `GET /api/admin/metadata/{kind}/{id}`. */
+export interface TaxonomyEntityDetail {
+  id: number;
+  name: string;
+  /** Null for the kinds without a public page (people, cameras, lenses, film stocks). */
+  slug: string | null;
+  /** Images carrying the entity. */
+  imageCount: number;
+  /** Collections carrying the entity directly (locations, tags); 0 for equipment. */
+  collectionCount: number;
+  aliases: TaxonomyAlias[];
+  /** Slugs the entity answered to before a rename. Each still resolves, and redirects. */
+  previousSlugs: string[];
+  /** A handful of the newest images carrying the entity, for the console's thumbnail strip. */
+  sampleImages: ContentImageModel[];
+}
+
+/** Preview of folding `sourceId` into `targetId` (`GET .../{sourceId}/merge-preview`). */
+export interface TaxonomyMergePreview {
+  sourceId: number;
+  sourceName: string;
+  targetId: number;
+  targetName: string;
+  /** Images that move from the source onto the target. */
+  imageCount: number;
+  collectionCount: number;
+  /** Images already carrying both, which end up with the target once rather than twice. */
+  duplicatesCollapsed: number;
+}
+
+/**
+ * Result of a completed merge (`POST .../{targetId}/merge`). The source is deleted; its name and
+ * slug become aliases of the target, so links to the source redirect to the survivor.
+ */
+export interface TaxonomyMergeResult {
+  movedImages: number;
+  movedCollections: number;
+  duplicatesCollapsed: number;
+  target: TaxonomyEntityDetail;
+}
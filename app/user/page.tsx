@@ -3,12 +3,15 @@ import { notFound } from 'next/navigation';
 import { MeProvider } from '@/app/components/auth/MeProvider';
 import { AccountCard } from '@/app/components/Personal/AccountCard';
 import { AdminCard } from '@/app/components/Personal/AdminCard';
+import { FeedCard } from '@/app/components/Personal/FeedCard';
+import { MfaCard } from '@/app/components/Personal/MfaCard';
 import { ShareCard } from '@/app/components/Personal/ShareCard';
 import { SendMessageButton } from '@/app/components/SendMessageButton/SendMessageButton';
 import { PageShell } from '@/app/components/ui/PageShell/PageShell';
 import { UserSpace } from '@/app/components/UserSpace/UserSpace';
 import { loadUserSpace, resolveTabKey } from '@/app/components/UserSpace/userSpaceData';
 import { meServer } from '@/app/lib/api/auth';
+import { readFeedSettings } from '@/app/lib/api/feeds';
 import { readShareSettings } from '@/app/lib/api/share';
 import { resolveSsrViewport } from '@/app/utils/ssrViewport';
 
@@ -23,8 +26,9 @@ interface UserPageProps {
 /**
  * Session-gated self-only "Your Space" page for the signed-in user. Four sections — Collections
  * (default), Images (tagged), Saved (bookmarks), Following — selected via `?tab=`, then an Account
- * card (email + passkey enrollment) below. Anonymous visitors get a 404; sign-in lives at `/login`
- * (which lands here on success) and onboarding at the invite-link flow.
+ * card (email, passkeys, sessions) and a two-step verification card below. Anonymous visitors get
+ * a 404; sign-in lives at `/login` (which lands here on success) and onboarding at the invite-link
+ * flow.
  *
  * The sections themselves live in {@link UserSpace}, shared with `/admin/users/[id]` so an admin
  * sees a user's space exactly as that user sees it. Everything specific to viewing one's OWN
@@ -50,10 +54,11 @@ export default async function UserPage({ searchParams }: UserPageProps) {
   const { tab } = await searchParams;
   const activeKey = resolveTabKey(tab);
 
-  const [data, ssrViewport, share] = await Promise.all([
+  const [data, ssrViewport, share, feed] = await Promise.all([
     loadUserSpace('self', activeKey),
     resolveSsrViewport(),
     readShareSettings(),
+    readFeedSettings(),
   ]);
   if (!data) notFound();
 
@@ -76,7 +81,9 @@ export default async function UserPage({ searchParams }: UserPageProps) {
             railExtras={
               <>
                 <AccountCard email={principal.email} />
+                <MfaCard />
                 <ShareCard read={share} />
+                <FeedCard read={feed} />
                 {principal.isAdmin && <AdminCard />}
               </>
             }
@@ -1,7 +1,15 @@
 import { redirect } from 'next/navigation';
 
 import { meServer } from '@/app/lib/api/auth';
+import { getCollectionBySlug } from '@/app/lib/api/collections';
+import { ApiError } from '@/app/lib/api/core';
 import { isLocalEnvironment } from '@/app/utils/environment';
+import {
+  canCollaborateOnCollection,
+  type EditScope,
+  hasRoleAtLeast,
+  owesSecondFactor,
+} from '@/app/utils/galleryAccess';
 
 /**
  * Admin authorization helpers.
@@ -27,6 +35,14 @@ import { isLocalEnvironment } from '@/app/utils/environment';
  *
  * Admin-ness comes from the row-level `isAdmin` flag, NOT session identity.
  *
+ * On every deployed build the session must also have passed its second factor (`mfaSatisfied`):
+ * an admin who signed in with a password alone is sent to `/login/mfa`, which challenges for a
+ * code or passkey — or walks a first-time admin through enrolling one — before any admin page
+ * renders. A stolen password is then a signed-in user, not an admin. Staging and preview are
+ * deployed builds (`NODE_ENV=production`), so they challenge too; a seeded admin there needs an
+ * authenticator like anyone else. The rule is {@link owesSecondFactor}, shared with the post-login
+ * redirect and `/login/mfa` so the three cannot disagree about who is challenged.
+ *
  * LOCAL/DEV IS OPEN, and this function was the last thing pretending otherwise. Every other
  * layer of the local stack already serves admin anonymously and says so in as many words:
  * `proxy.ts` returns `NextResponse.next()` for the whole (admin) group when
@@ -64,4 +80,39 @@ export async function requireAdmin(): Promise<void> {
   if (!principal || !principal.isAdmin) {
     redirect('/login');
   }
+  if (owesSecondFactor(principal)) {
+    redirect('/login/mfa');
+  }
+}
+
+/**
+ * Which edit surface `/[slug]?manage=1` opens for the current viewer (SERVER-SIDE). A non-admin
+ * holding a COLLABORATOR membership on THIS collection gets `collaborator`; everyone else gets
+ * `admin`, which the caller must still pass through {@link requireAdmin} — so a viewer who is
+ * neither is redirected exactly as before.
+ *
+ * The collection is read only when the principal collaborates somewhere, so the common admin and
+ * anonymous paths cost nothing beyond the `meServer()` they already make — and then one row deep,
+ * since only its id is needed. A slug this viewer cannot read (403, or a 404 that reached here as
+ * an error) is not one they collaborate on, so it falls to the admin gate like any other. The
+ * backend checks the same membership on every `edit` channel write; this decides what to render,
+ * not what is allowed.
+ */
+export async function resolveEditScope(slug: string): Promise<EditScope> {
+  const principal = await meServer();
+  if (
+    !principal ||
+    principal.isAdmin ||
+    !principal.galleries.some(membership => hasRoleAtLeast(membership.role, 'COLLABORATOR'))
+  ) {
+    return 'admin';
+  }
+  let collectionId: number;
+  try {
+    collectionId = (await getCollectionBySlug(slug, 0, 1)).id;
+  } catch (error) {
+    if (error instanceof ApiError && (error.status === 403 || error.status === 404)) return 'admin';
+    throw error;
+  }
+  return canCollaborateOnCollection(principal, collectionId) ? 'collaborator' : 'admin';
 }
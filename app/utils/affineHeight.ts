@@ -27,8 +27,8 @@
  * `availableWidth` before reaching {@link solveEqualHeightSplit}.
  *
  * What is deliberately NOT unified: the leaf aspect-ratio fallback chains. The composer
- * reads leaves through `getAspectRatio` (anything without a photographic shape — TEXT,
- * COLLECTION refs, BLANK spacers, a dimension-less PANEL — answers a neutral 1.0), the
+ * reads leaves through `getAspectRatio` (anything without a photographic shape — COLLECTION
+ * refs, BLANK spacers, a dimension-less PANEL or TEXT block — answers a neutral 1.0), the
  * sizer through `getContentDimensions` (every leaf must produce a renderable shape: a BLANK
  * encodes its aspect ratio in width/height, a COLLECTION renders its cover's, and the
  * fallback is the 1300×867 placeholder). Those chains genuinely disagree on those classes,
@@ -36,7 +36,8 @@
  * padded row, and a collection card packed at its cover's AR would reshuffle every catalog
  * page. They agree on everything that can appear in a pinned row (IMAGE/GIF and PANEL with
  * declared dimensions), which is the only place both models are consulted about the same
- * tree, and the mirror test pins that agreement.
+ * tree, and the mirror test pins that agreement. TEXT bodies joined that set once they carried
+ * an estimated size: both chains read it from width/height.
  */
 
 /**
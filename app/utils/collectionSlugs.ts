@@ -29,6 +29,7 @@ export const SHADOWED_ROUTE_SLUGS = [
   'invite',
   'location',
   'login',
+  'search',
   'tag',
   'user',
 ] as const;
@@ -19,6 +19,12 @@ import { type FilmFilter, type FilterState } from '@/app/types/GalleryFilter';
 import { captureDayKey, distinctDays } from '@/app/utils/collectionDates';
 import { isCollectionCard } from '@/app/utils/contentRatingUtils';
 import { isGifContent } from '@/app/utils/contentTypeGuards';
+import {
+  type FilterExpression,
+  type FilterExpressionField,
+  formatFilterExpression,
+  parseFilterExpression,
+} from '@/app/utils/filterExpression';
 
 /**
  * Filter criteria for content arrays.
@@ -60,6 +66,8 @@ export interface ContentFilterCriteria {
   cameraMatchMode?: 'AND' | 'OR';
   /** Match mode for lenses: 'AND' requires all, 'OR' requires any (default: 'OR') */
   lensMatchMode?: 'AND' | 'OR';
+  /** Boolean expression across dimensions (see filterExpression.ts), ANDed with the rest */
+  expression?: FilterExpression;
 }
 
 /**
@@ -134,11 +142,168 @@ function isWithinDateRange(
   return true;
 }
 
+/**
+ * Whether one image passes every dimension set in `criteria` (the expression aside).
+ * This is the single definition of what each filter means; {@link filterContent} and the
+ * expression evaluator both go through it.
+ */
+export function imageMatchesCriteria(
+  item: ContentImageModel,
+  criteria: ContentFilterCriteria
+): boolean {
+  if (criteria.minRating !== undefined) {
+    const rating = item.rating ?? 0;
+    if (rating < criteria.minRating) return false;
+  }
+
+  if (criteria.people && criteria.people.length > 0) {
+    const imagePersonNames = item.people?.map(p => p.name.toLowerCase()) ?? [];
+    const matcher = criteria.peopleMatchMode === 'AND' ? 'every' : 'some';
+    const matchesPerson = criteria.people[matcher](name =>
+      imagePersonNames.includes(name.toLowerCase())
+    );
+    if (!matchesPerson) return false;
+  }
+
+  if (criteria.locations && criteria.locations.length > 0) {
+    const imageLocationNames = item.locations?.map(l => l.name.toLowerCase()) ?? [];
+    const matchesLocation = criteria.locations.some(loc =>
+      imageLocationNames.includes(loc.toLowerCase())
+    );
+    if (!matchesLocation) return false;
+  }
+
+  if (criteria.tags && criteria.tags.length > 0) {
+    const imageTagNames = item.tags?.map(t => t.name.toLowerCase()) ?? [];
+    const matcher = criteria.tagMatchMode === 'AND' ? 'every' : 'some';
+    const matchesTag = criteria.tags[matcher](tag => imageTagNames.includes(tag.toLowerCase()));
+    if (!matchesTag) return false;
+  }
+
+  if (criteria.cameras && criteria.cameras.length > 0) {
+    const imageCameraName = item.camera?.name?.toLowerCase() ?? '';
+    const matcher = criteria.cameraMatchMode === 'AND' ? 'every' : 'some';
+    const matchesCamera = criteria.cameras[matcher](cam => cam.toLowerCase() === imageCameraName);
+    if (!matchesCamera) return false;
+  }
+
+  if (criteria.lenses && criteria.lenses.length > 0) {
+    const imageLensName = item.lens?.name?.toLowerCase() ?? '';
+    const matcher = criteria.lensMatchMode === 'AND' ? 'every' : 'some';
+    const matchesLens = criteria.lenses[matcher](lens => lens.toLowerCase() === imageLensName);
+    if (!matchesLens) return false;
+  }
+
+  if (
+    criteria.query &&
+    criteria.query.trim().length > 0 &&
+    !imageMatchesQuery(item, criteria.query.trim())
+  ) {
+    return false;
+  }
+
+  if (
+    (criteria.dateFrom || criteria.dateTo) &&
+    !isWithinDateRange(item.captureDate, criteria.dateFrom, criteria.dateTo)
+  ) {
+    return false;
+  }
+
+  if (criteria.dates && criteria.dates.length > 0) {
+    const day = captureDayKey(item.captureDate);
+    if (!day || !criteria.dates.includes(day)) return false;
+  }
+
+  if (criteria.isFilm !== undefined && (item.isFilm ?? false) !== criteria.isFilm) {
+    return false;
+  }
+
+  if (
+    criteria.blackAndWhite !== undefined &&
+    (item.blackAndWhite ?? false) !== criteria.blackAndWhite
+  ) {
+    return false;
+  }
+
+  if (criteria.collectionIds && criteria.collectionIds.length > 0) {
+    const imageCollectionIds = item.collections?.map(c => c.collectionId) ?? [];
+    const matchesCollection = criteria.collectionIds.some(id => imageCollectionIds.includes(id));
+    if (!matchesCollection) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Criteria for one expression term. Each term maps onto exactly one existing dimension, so
+ * `tag:film` means what selecting the "film" tag chip means.
+ */
+function criteriaForTerm(field: FilterExpressionField, value: string): ContentFilterCriteria {
+  switch (field) {
+    case 'text': {
+      return { query: value };
+    }
+    case 'tag': {
+      return { tags: [value] };
+    }
+    case 'person': {
+      return { people: [value] };
+    }
+    case 'location': {
+      return { locations: [value] };
+    }
+    case 'camera': {
+      return { cameras: [value] };
+    }
+    case 'lens': {
+      return { lenses: [value] };
+    }
+    case 'rating': {
+      return { minRating: Number(value) };
+    }
+    case 'date': {
+      return { dates: [value] };
+    }
+    case 'collection': {
+      return { collectionIds: [Number(value)] };
+    }
+    case 'is': {
+      if (value === 'film') return { isFilm: true };
+      if (value === 'digital') return { isFilm: false };
+      return { blackAndWhite: value === 'bw' };
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed filter expression against one image.
+ * `rating:4` is "at least 4", like the rating filter it maps to.
+ */
+export function matchesFilterExpression(
+  image: ContentImageModel,
+  expression: FilterExpression
+): boolean {
+  switch (expression.type) {
+    case 'term': {
+      return imageMatchesCriteria(image, criteriaForTerm(expression.field, expression.value));
+    }
+    case 'not': {
+      return !matchesFilterExpression(image, expression.operand);
+    }
+    case 'and': {
+      return expression.operands.every(operand => matchesFilterExpression(image, operand));
+    }
+    case 'or': {
+      return expression.operands.some(operand => matchesFilterExpression(image, operand));
+    }
+  }
+}
+
 /**
  * Apply filter criteria to a content array.
  *
  * Non-image content types are excluded when any image-specific filter is active
- * (rating, people, location, tags, camera, query, date range).
+ * (rating, people, location, tags, camera, query, date range, expression).
  *
  * @param content - Array of content to filter
  * @param criteria - Filter criteria to apply
@@ -161,95 +326,18 @@ export function filterContent(
     (criteria.dates && criteria.dates.length > 0) ||
     criteria.isFilm !== undefined ||
     criteria.blackAndWhite !== undefined ||
-    (criteria.collectionIds && criteria.collectionIds.length > 0);
+    (criteria.collectionIds && criteria.collectionIds.length > 0) ||
+    criteria.expression !== undefined;
 
   if (!hasActiveFilters) return content;
 
-  return content.filter(item => {
-    if (!isImageContent(item)) return false;
-
-    if (criteria.minRating !== undefined) {
-      const rating = item.rating ?? 0;
-      if (rating < criteria.minRating) return false;
-    }
-
-    if (criteria.people && criteria.people.length > 0) {
-      const imagePersonNames = item.people?.map(p => p.name.toLowerCase()) ?? [];
-      const matcher = criteria.peopleMatchMode === 'AND' ? 'every' : 'some';
-      const matchesPerson = criteria.people[matcher](name =>
-        imagePersonNames.includes(name.toLowerCase())
-      );
-      if (!matchesPerson) return false;
-    }
-
-    if (criteria.locations && criteria.locations.length > 0) {
-      const imageLocationNames = item.locations?.map(l => l.name.toLowerCase()) ?? [];
-      const matchesLocation = criteria.locations.some(loc =>
-        imageLocationNames.includes(loc.toLowerCase())
-      );
-      if (!matchesLocation) return false;
-    }
-
-    if (criteria.tags && criteria.tags.length > 0) {
-      const imageTagNames = item.tags?.map(t => t.name.toLowerCase()) ?? [];
-      const matcher = criteria.tagMatchMode === 'AND' ? 'every' : 'some';
-      const matchesTag = criteria.tags[matcher](tag => imageTagNames.includes(tag.toLowerCase()));
-      if (!matchesTag) return false;
-    }
-
-    if (criteria.cameras && criteria.cameras.length > 0) {
-      const imageCameraName = item.camera?.name?.toLowerCase() ?? '';
-      const matcher = criteria.cameraMatchMode === 'AND' ? 'every' : 'some';
-      const matchesCamera = criteria.cameras[matcher](cam => cam.toLowerCase() === imageCameraName);
-      if (!matchesCamera) return false;
-    }
-
-    if (criteria.lenses && criteria.lenses.length > 0) {
-      const imageLensName = item.lens?.name?.toLowerCase() ?? '';
-      const matcher = criteria.lensMatchMode === 'AND' ? 'every' : 'some';
-      const matchesLens = criteria.lenses[matcher](lens => lens.toLowerCase() === imageLensName);
-      if (!matchesLens) return false;
-    }
-
-    if (
-      criteria.query &&
-      criteria.query.trim().length > 0 &&
-      !imageMatchesQuery(item, criteria.query.trim())
-    ) {
-      return false;
-    }
-
-    if (
-      (criteria.dateFrom || criteria.dateTo) &&
-      !isWithinDateRange(item.captureDate, criteria.dateFrom, criteria.dateTo)
-    ) {
-      return false;
-    }
-
-    if (criteria.dates && criteria.dates.length > 0) {
-      const day = captureDayKey(item.captureDate);
-      if (!day || !criteria.dates.includes(day)) return false;
-    }
-
-    if (criteria.isFilm !== undefined && (item.isFilm ?? false) !== criteria.isFilm) {
-      return false;
-    }
-
-    if (
-      criteria.blackAndWhite !== undefined &&
-      (item.blackAndWhite ?? false) !== criteria.blackAndWhite
-    ) {
-      return false;
-    }
-
-    if (criteria.collectionIds && criteria.collectionIds.length > 0) {
-      const imageCollectionIds = item.collections?.map(c => c.collectionId) ?? [];
-      const matchesCollection = criteria.collectionIds.some(id => imageCollectionIds.includes(id));
-      if (!matchesCollection) return false;
-    }
-
-    return true;
-  });
+  const { expression } = criteria;
+  return content.filter(
+    item =>
+      isImageContent(item) &&
+      imageMatchesCriteria(item, criteria) &&
+      (expression === undefined || matchesFilterExpression(item, expression))
+  );
 }
 
 /**
@@ -656,6 +744,13 @@ export function parseFilterFromParams(
     .filter(n => !Number.isNaN(n));
   if (collectionIds.length > 0) criteria.collectionIds = collectionIds;
 
+  // A hand-edited link with a broken expression drops just the expression, like a bad rating.
+  const expr = get('expr');
+  if (expr) {
+    const parsed = parseFilterExpression(expr);
+    if (parsed.ok) criteria.expression = parsed.expression;
+  }
+
   return criteria;
 }
 
@@ -686,6 +781,7 @@ export function serializeFilterToParams(criteria: ContentFilterCriteria): URLSea
   if (criteria.isFilm !== undefined) params.set('isFilm', String(criteria.isFilm));
   if (criteria.blackAndWhite !== undefined) params.set('bw', String(criteria.blackAndWhite));
   for (const id of criteria.collectionIds ?? []) params.append('collection', String(id));
+  if (criteria.expression) params.set('expr', formatFilterExpression(criteria.expression));
 
   return params;
 }
@@ -803,6 +899,18 @@ export function extractCollectionFilterOptions(
   };
 }
 
+/** The `expression` criterion for a FilterState's committed expression text (none when empty). */
+function expressionCriteria(text: string): Pick<ContentFilterCriteria, 'expression'> {
+  if (text === '') return {};
+  const parsed = parseFilterExpression(text);
+  return parsed.ok ? { expression: parsed.expression } : {};
+}
+
+/** Seed for {@link FilterState.expression} from URL criteria: canonical text, or `''`. */
+export function expressionTextFromCriteria(criteria: ContentFilterCriteria): string {
+  return criteria.expression ? formatFilterExpression(criteria.expression) : '';
+}
+
 /**
  * Build filter criteria from a collection page's filter state — all-AND match
  * mode. Single source of truth for both the live filter and the URL sync (the
@@ -828,6 +936,7 @@ export function buildCollectionCriteria(filterState: FilterState): ContentFilter
       ? { locations: filterState.selectedLocations }
       : {}),
     ...(filterState.selectedDates.length > 0 ? { dates: filterState.selectedDates } : {}),
+    ...expressionCriteria(filterState.expression),
   };
 }
 
@@ -842,7 +951,8 @@ export function hasAnyActiveFilter(filterState: FilterState): boolean {
     filterState.selectedCameras.length > 0 ||
     filterState.selectedLenses.length > 0 ||
     filterState.selectedLocations.length > 0 ||
-    filterState.selectedDates.length > 0
+    filterState.selectedDates.length > 0 ||
+    filterState.expression !== ''
   );
 }
 
@@ -863,6 +973,8 @@ export function hasAnyActiveFilter(filterState: FilterState): boolean {
  * and strip the page of its only route into the sub-collections. A tile that DOES carry
  * an explicit rating is still held to `minRating`.
  *
+ * A filter `expression` is image-only for the same reason and never hides a tile.
+ *
  * @param ref - The collection-ref block
  * @param criteria - Filter criteria (from {@link buildCollectionCriteria})
  */
@@ -1085,5 +1197,45 @@ export function buildLocationCriteria(filterState: FilterState): ContentFilterCr
     ...(filterState.filmFilter === 'digital' ? { isFilm: false as const } : {}),
     ...(filterState.selectedTags.length > 0 ? { tags: filterState.selectedTags } : {}),
     ...(filterState.selectedPeople.length > 0 ? { people: filterState.selectedPeople } : {}),
+    ...expressionCriteria(filterState.expression),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Search-page filter derivations
+//
+// `/search` splits criteria in two: the scope (free text, capture-date range,
+// collections) runs server-side, and the facets below refine the loaded results
+// client-side so `computeFilterCounts` can count them. Facets use the location
+// page's OR semantics, widened with the camera and location dimensions.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Criteria keys `/search` sends to the backend rather than applying to loaded results. */
+export type SearchScopeCriteria = Pick<
+  ContentFilterCriteria,
+  'query' | 'dateFrom' | 'dateTo' | 'collectionIds'
+>;
+
+/** The scope half of a search URL's criteria; facets are dropped. */
+export function pickSearchScope(criteria: ContentFilterCriteria): SearchScopeCriteria {
+  return {
+    ...(criteria.query ? { query: criteria.query } : {}),
+    ...(criteria.dateFrom ? { dateFrom: criteria.dateFrom } : {}),
+    ...(criteria.dateTo ? { dateTo: criteria.dateTo } : {}),
+    ...(criteria.collectionIds?.length ? { collectionIds: criteria.collectionIds } : {}),
+  };
+}
+
+/**
+ * Build facet criteria from the search page's filter state. Single source of truth for both the
+ * live refinement and the URL sync (merged with the scope by the caller).
+ */
+export function buildSearchCriteria(filterState: FilterState): ContentFilterCriteria {
+  return {
+    ...buildLocationCriteria(filterState),
+    ...(filterState.selectedCameras.length > 0 ? { cameras: filterState.selectedCameras } : {}),
+    ...(filterState.selectedLocations.length > 0
+      ? { locations: filterState.selectedLocations }
+      : {}),
   };
 }
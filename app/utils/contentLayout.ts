@@ -1,5 +1,5 @@
 import { DENSITY_ROW_WIDTH_MULTIPLIER, IMAGE, LAYOUT } from '@/app/constants';
-import { type CollectionModel } from '@/app/types/Collection';
+import { type CollectionModel, type LayoutMode } from '@/app/types/Collection';
 import {
   type AnyContentModel,
   type ContentCollectionModel,
@@ -9,15 +9,21 @@ import {
   type TextBlockItem,
 } from '@/app/types/Content';
 import { getMeanWidthCost } from '@/app/utils/contentRatingUtils';
-import { isContentCollection, pickImageDimensions } from '@/app/utils/contentTypeGuards';
+import {
+  isContentCollection,
+  isContentImage,
+  isTextContent,
+  pickImageDimensions,
+} from '@/app/utils/contentTypeGuards';
 import { formatDateRange } from '@/app/utils/formatDateRange';
+import { LAYOUT_STRATEGIES } from '@/app/utils/layoutStrategies';
 import {
-  acToBoxTree,
-  type BoxTree,
-  buildRows,
-  hChain,
-  toImageType,
-} from '@/app/utils/rowCombination';
+  collectionImageResolver,
+  estimateRichTextSize,
+  parseRichText,
+  textBlockSource,
+} from '@/app/utils/richText';
+import { acToBoxTree, type BoxTree, hChain, toImageType } from '@/app/utils/rowCombination';
 import { calculateSizesFromBoxTree } from '@/app/utils/rowStructureAlgorithm';
 
 /**
@@ -59,6 +65,11 @@ export interface ProcessContentOptions {
   collectionData?: CollectionModel;
   /** Display mode — controls content sort order */
   displayMode?: 'CHRONOLOGICAL' | 'ORDERED' | 'FIXED';
+  /**
+   * Grid shape (default `ROWS`). Every mode yields the same row shape, so nothing downstream of
+   * this function branches on it — see `layoutStrategies.ts`.
+   */
+  layoutMode?: LayoutMode;
   /** Target aspect ratio for AR-aware tree structure selection (default 1.5) */
   targetAR?: number;
   /**
@@ -112,9 +123,10 @@ function createSimpleHorizontalBoxTree(items: AnyContentModel[]): BoxTree {
 /**
  * Process content for display, returning sized rows ready to render.
  *
- * Runs the single row-composition algorithm: {@link buildRows} greedily fills
+ * By default runs the row-composition algorithm: {@link buildRows} greedily fills
  * each row to the per-viewport width-cost budget, then composes its BoxTree via
- * {@link buildAtomic}. The only mobile/desktop difference is the row-width budget
+ * {@link buildAtomic}. `options.layoutMode` swaps in a masonry or justified
+ * strategy instead; all three share the budget below and the sizer after it. The only mobile/desktop difference is the row-width budget
  * (desktop derives it from the density chunkSize × {@link DENSITY_ROW_WIDTH_MULTIPLIER};
  * mobile derives it from the 1-5 mobileChunkSize when supplied, else pins to a
  * narrow slot width) — there is no separate pattern-detection or slot-based mode.
@@ -176,15 +188,20 @@ export function processContentForDisplay(
   const effectiveGap = options?.isMobile ? LAYOUT.mobileGridGap : LAYOUT.gridGap;
   const targetAR = options?.targetAR ?? 1.5;
 
-  const rows = buildRows(content, rowWidth, targetAR, { componentWidth, gap: effectiveGap });
+  const strategy = LAYOUT_STRATEGIES[options?.layoutMode ?? 'ROWS'];
+  const boxTrees = strategy(content, {
+    rowWidth,
+    targetAR,
+    pixelContext: { componentWidth, gap: effectiveGap },
+  });
 
-  const contentRows = rows.map(row => {
-    const items = calculateSizesFromBoxTree(row.boxTree, componentWidth, effectiveGap);
+  const contentRows = boxTrees.map(boxTree => {
+    const items = calculateSizesFromBoxTree(boxTree, componentWidth, effectiveGap);
 
     return {
       rowType: 'content' as const,
       items,
-      boxTree: row.boxTree,
+      boxTree,
     };
   });
   result.push(...contentRows);
@@ -364,6 +381,26 @@ function ensureParallaxDimensions(content: AnyContentModel[]): AnyContentModel[]
   });
 }
 
+/**
+ * Parse each TEXT block's body into rich text and size it by the estimate in `richText.ts`, so
+ * the row composer and sizer see a real aspect ratio instead of a neutral square.
+ * `image:<contentId>` references resolve only against images in `content` — after visibility
+ * filtering, so a public text block cannot surface an image hidden from the page.
+ */
+function prepareTextBlocks(content: AnyContentModel[]): AnyContentModel[] {
+  if (!content.some(isTextContent)) return content;
+  const resolveImage = collectionImageResolver(content.filter(isContentImage));
+  return content.map(block => {
+    if (!isTextContent(block)) return block;
+    const rich = parseRichText(
+      block.formatType ?? block.format,
+      textBlockSource(block),
+      resolveImage
+    );
+    return { ...block, rich, ...estimateRichTextSize(rich) };
+  });
+}
+
 /**
  * Sort content blocks by orderIndex in ascending order
  */
@@ -409,7 +446,7 @@ function sortNonVisibleToBottom(
 
 /**
  * Process content blocks through filtering, sorting, and transformation pipeline.
- * Converts collections to parallax images and ensures proper dimensions.
+ * Converts collections to parallax images, ensures proper dimensions, and parses TEXT bodies.
  *
  * Ordering uses `block.orderIndex` directly (not `collections[].orderIndex`) and is honoured
  * VERBATIM across content types: a child-collection card sits wherever the admin put it, mixed
@@ -435,6 +472,7 @@ export function processContentBlocks(
 ): AnyContentModel[] {
   let processed = filterVisibleBlocks(content, filterVisible, collectionId);
   processed = ensureParallaxDimensions(processed);
+  processed = prepareTextBlocks(processed);
 
   processed =
     displayMode === 'CHRONOLOGICAL'
@@ -387,6 +387,8 @@ export function normalizeContentToRendererProps(
       isCollection: false,
       contentType: 'TEXT',
       textItems: content.items,
+      richText: content.rich,
+      textAlign: content.align,
     };
   }
 
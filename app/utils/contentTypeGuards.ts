@@ -144,7 +144,9 @@ export function pickImageDimensions(
  * Get aspect ratio for content item
  */
 export function getAspectRatio(item: Content): number {
-  if (isPanelContent(item)) {
+  // A TEXT body declares the size its rich text is estimated at (see `richText.ts`); read it the
+  // way the sizer's `getContentDimensions` does, so both models agree on text leaves.
+  if (isPanelContent(item) || isTextContent(item)) {
     const width = item.width ?? 0;
     const height = item.height ?? 0;
     return width <= 0 || height <= 0 ? 1.0 : width / height;
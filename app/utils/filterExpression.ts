@@ -0,0 +1,318 @@
+/**
+ * Boolean filter expressions for galleries: `film AND portra NOT person:Zac`.
+ *
+ * The per-dimension chips in {@link FilterState} can only say "any of" / "all of" within one
+ * dimension and never "not". This is the small language for everything else — a parser into a
+ * {@link FilterExpression} tree, and a formatter back to canonical text for the URL. Evaluation
+ * lives with the other predicates in `contentFilter.ts` (`matchesFilterExpression`), so every
+ * term means exactly what the matching chip means.
+ *
+ * Grammar (keywords are UPPERCASE so a tag called "or" still works as a bare word):
+ *
+ *   expression := or
+ *   or         := and ( "OR" and )*
+ *   and        := unary ( "AND"? unary )*        -- juxtaposition is AND
+ *   unary      := ( "NOT" | "-" ) unary | primary
+ *   primary    := "(" expression ")" | term
+ *   term       := ( field ":" )? value           -- value is a word or a "quoted string"
+ *
+ * A bare value is free text (title, caption, tags, people, place — see `ContentFilterCriteria.query`).
+ */
+
+/** Term fields. `text` is the implicit field of a bare value. */
+export type FilterExpressionField =
+  | 'text'
+  | 'tag'
+  | 'person'
+  | 'location'
+  | 'camera'
+  | 'lens'
+  | 'rating'
+  | 'date'
+  | 'is'
+  | 'collection';
+
+export type FilterExpression =
+  | { type: 'term'; field: FilterExpressionField; value: string }
+  | { type: 'not'; operand: FilterExpression }
+  | { type: 'and'; operands: readonly FilterExpression[] }
+  | { type: 'or'; operands: readonly FilterExpression[] };
+
+export type FilterExpressionParseResult =
+  | { ok: true; expression: FilterExpression }
+  | {
+      ok: false;
+      message: string;
+      /** Zero-based offset into the input where the problem starts. */
+      position: number;
+    };
+
+/** Values accepted by `is:`. */
+export const IS_VALUES = ['film', 'digital', 'bw', 'color'] as const;
+
+/** Written field name -> canonical field. Plural and short aliases read naturally in a URL. */
+const FIELD_ALIASES: Record<string, Exclude<FilterExpressionField, 'text'>> = {
+  tag: 'tag',
+  tags: 'tag',
+  person: 'person',
+  people: 'person',
+  location: 'location',
+  place: 'location',
+  camera: 'camera',
+  lens: 'lens',
+  rating: 'rating',
+  date: 'date',
+  is: 'is',
+  collection: 'collection',
+};
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT']);
+
+type Token =
+  | { kind: 'word'; text: string; quoted: boolean; position: number }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen' | 'colon'; position: number }
+  | { kind: 'end'; position: number };
+
+class ExpressionSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+const isDelimiter = (char: string) => /[\s"():]/.test(char);
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i]!;
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const position = i;
+    if (char === '(' || char === ')' || char === ':') {
+      tokens.push({ kind: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'colon', position });
+      i++;
+      continue;
+    }
+    // `-` negates only when it leads a value (`-tag:x`); inside a word (`2024-01-01`) it is text.
+    if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1]!)) {
+      tokens.push({ kind: 'not', position });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) throw new ExpressionSyntaxError('Unclosed quote', position);
+      tokens.push({ kind: 'word', text: input.slice(i + 1, close), quoted: true, position });
+      i = close + 1;
+      continue;
+    }
+    let end = i;
+    while (end < input.length && !isDelimiter(input[end]!)) end++;
+    const text = input.slice(i, end);
+    if (KEYWORDS.has(text)) {
+      tokens.push({ kind: text.toLowerCase() as 'and' | 'or' | 'not', position });
+    } else {
+      tokens.push({ kind: 'word', text, quoted: false, position });
+    }
+    i = end;
+  }
+  tokens.push({ kind: 'end', position: input.length });
+  return tokens;
+}
+
+function validateTerm(field: FilterExpressionField, value: string, position: number): string {
+  if (value.trim() === '') throw new ExpressionSyntaxError('Empty value', position);
+  switch (field) {
+    case 'rating': {
+      if (!/^[1-5]$/.test(value)) {
+        throw new ExpressionSyntaxError('rating: takes a whole number from 1 to 5', position);
+      }
+      return value;
+    }
+    case 'date': {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new ExpressionSyntaxError('date: takes a day as YYYY-MM-DD', position);
+      }
+      return value;
+    }
+    case 'collection': {
+      if (!/^\d+$/.test(value)) {
+        throw new ExpressionSyntaxError('collection: takes a collection id', position);
+      }
+      return value;
+    }
+    case 'is': {
+      const normalized = value.toLowerCase();
+      if (!(IS_VALUES as readonly string[]).includes(normalized)) {
+        throw new ExpressionSyntaxError(`is: takes one of ${IS_VALUES.join(', ')}`, position);
+      }
+      return normalized;
+    }
+    default: {
+      return value;
+    }
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FilterExpression {
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.kind === 'rparen') throw new ExpressionSyntaxError('Unmatched ")"', next.position);
+    if (next.kind !== 'end') throw new ExpressionSyntaxError('Unexpected input', next.position);
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++]!;
+  }
+
+  private parseOr(): FilterExpression {
+    const operands = [this.parseAnd()];
+    while (this.peek().kind === 'or') {
+      this.advance();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0]! : { type: 'or', operands };
+  }
+
+  private parseAnd(): FilterExpression {
+    const operands = [this.parseUnary()];
+    for (;;) {
+      const next = this.peek();
+      if (next.kind === 'and') {
+        this.advance();
+        operands.push(this.parseUnary());
+      } else if (next.kind === 'word' || next.kind === 'not' || next.kind === 'lparen') {
+        operands.push(this.parseUnary());
+      } else {
+        break;
+      }
+    }
+    return operands.length === 1 ? operands[0]! : { type: 'and', operands };
+  }
+
+  private parseUnary(): FilterExpression {
+    if (this.peek().kind === 'not') {
+      this.advance();
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterExpression {
+    const token = this.advance();
+    if (token.kind === 'lparen') {
+      const inner = this.parseOr();
+      const close = this.advance();
+      if (close.kind !== 'rparen') {
+        throw new ExpressionSyntaxError('Missing ")"', close.position);
+      }
+      return inner;
+    }
+    if (token.kind !== 'word') {
+      const message =
+        token.kind === 'end'
+          ? 'Expression ends too early'
+          : token.kind === 'rparen'
+            ? 'Unexpected ")"'
+            : token.kind === 'colon'
+              ? 'Missing field name before ":"'
+              : `Expected a value before ${token.kind.toUpperCase()}`;
+      throw new ExpressionSyntaxError(message, token.position);
+    }
+    if (token.quoted || this.peek().kind !== 'colon') {
+      return {
+        type: 'term',
+        field: 'text',
+        value: validateTerm('text', token.text, token.position),
+      };
+    }
+
+    this.advance(); // the colon
+    const field = FIELD_ALIASES[token.text.toLowerCase()];
+    if (!field) {
+      throw new ExpressionSyntaxError(
+        `Unknown field "${token.text}" — try tag:, person:, location:, camera:, lens:, rating:, date:, is: or collection:`,
+        token.position
+      );
+    }
+    const value = this.advance();
+    if (value.kind !== 'word') {
+      throw new ExpressionSyntaxError(`Missing value after "${token.text}:"`, value.position);
+    }
+    return { type: 'term', field, value: validateTerm(field, value.text, value.position) };
+  }
+}
+
+/**
+ * Parse a filter expression. Never throws: a syntax error comes back as `{ ok: false }` with a
+ * message written for the person typing, and the offset to point them at.
+ */
+export function parseFilterExpression(input: string): FilterExpressionParseResult {
+  if (input.trim() === '') {
+    return { ok: false, message: 'Enter an expression', position: 0 };
+  }
+  try {
+    return { ok: true, expression: new Parser(tokenize(input)).parse() };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { ok: false, message: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+/** Quote a value unless it reads back as the same single word. */
+function formatValue(value: string): string {
+  const bare =
+    value !== '' && !KEYWORDS.has(value) && !value.startsWith('-') && !/[\s"():]/.test(value);
+  return bare ? value : `"${value}"`;
+}
+
+const PRECEDENCE: Record<FilterExpression['type'], number> = { or: 1, and: 2, not: 3, term: 4 };
+
+/**
+ * Canonical text for an expression: explicit `AND`, parentheses only where precedence needs them.
+ * `parseFilterExpression(formatFilterExpression(e))` yields `e` again, which is what makes the
+ * form safe to put in a URL.
+ */
+export function formatFilterExpression(expression: FilterExpression): string {
+  const wrap = (child: FilterExpression, parent: FilterExpression['type']) => {
+    const text = formatFilterExpression(child);
+    return PRECEDENCE[child.type] <= PRECEDENCE[parent] && child.type !== 'term'
+      ? `(${text})`
+      : text;
+  };
+
+  switch (expression.type) {
+    case 'term': {
+      const value = formatValue(expression.value);
+      return expression.field === 'text' ? value : `${expression.field}:${value}`;
+    }
+    case 'not': {
+      return `NOT ${wrap(expression.operand, 'not')}`;
+    }
+    case 'and': {
+      return expression.operands.map(child => wrap(child, 'and')).join(' AND ');
+    }
+    case 'or': {
+      return expression.operands.map(child => wrap(child, 'or')).join(' OR ');
+    }
+  }
+}
@@ -6,6 +6,7 @@
  */
 import { type CollectionRole, type GalleryMembership, type MeResponse } from '@/app/types/Auth';
 import { type CollectionModel } from '@/app/types/Collection';
+import { isProduction } from '@/app/utils/environment';
 
 /** Ladder order for per-collection roles; mirrors the backend AccessLevel ranks. */
 const ROLE_RANK: Record<CollectionRole, number> = {
@@ -27,6 +28,29 @@ export function findMembership(
   return me?.galleries.find(g => g.collectionId === collectionId);
 }
 
+/**
+ * Who the `?manage=1` edit surface is for. `admin` is the full surface; `collaborator` is the
+ * curation-only layer a COLLABORATOR member gets on that one collection — reorder, captions, tags,
+ * ratings and cover, with delete, access, roles and visibility left out.
+ */
+export type EditScope = 'admin' | 'collaborator';
+
+/** True when a non-admin viewer may curate this collection (a COLLABORATOR membership on it). */
+export function canCollaborateOnCollection(me: MeResponse | null, collectionId: number): boolean {
+  return hasRoleAtLeast(findMembership(me, collectionId)?.role, 'COLLABORATOR');
+}
+
+/**
+ * True when this session must pass `/login/mfa` before it goes anywhere else: an admin signed in
+ * with a password alone, on any deployed build. `isProduction()` holds for every non-local build
+ * with `NODE_ENV=production`, so staging and preview challenge too; only a local build skips it.
+ * Non-admins are never challenged. The one rule behind `requireAdmin`, the post-login redirect,
+ * the challenge page and the admin server actions.
+ */
+export function owesSecondFactor(me: MeResponse | null): boolean {
+  return me !== null && me.isAdmin && !me.mfaSatisfied && isProduction();
+}
+
 /**
  * True when the viewer may act as a client of this collection: admin (editMode) anywhere, or a
  * non-admin holding a CLIENT-or-above membership for the collection.
@@ -0,0 +1,225 @@
+/**
+ * One layout pass as a value: the inputs {@link buildContentRows} takes, the result it returns, the
+ * key it is memoized under, and the message protocol that carries it to and from the layout worker.
+ *
+ * Everything here runs in both places — the main thread (SSR, Jest, small collections and the
+ * cache) and `app/workers/contentLayout.worker.ts` — so it stays free of React and the DOM.
+ */
+
+import { buildContentRows, type EffectiveViewport } from '@/app/components/Content/componentUtils';
+import { type CollectionModel } from '@/app/types/Collection';
+import { type AnyContentModel } from '@/app/types/Content';
+import { type RowWithPatternAndSizes } from '@/app/utils/contentLayout';
+import { type BoxTree } from '@/app/utils/rowCombination';
+
+/** Everything one layout pass reads. Plain data, so it survives `postMessage` intact. */
+export interface LayoutJob {
+  content: AnyContentModel[];
+  collectionData?: CollectionModel;
+  viewport: EffectiveViewport;
+  chunkSize: number;
+  mobileChunkSize?: number;
+  forceHeaderRail?: boolean;
+  widthCostBaseline?: number;
+}
+
+/** What {@link buildContentRows} returns. */
+export interface LayoutResult {
+  rows: RowWithPatternAndSizes[];
+  layoutError: string | null;
+}
+
+/** Main thread → worker. */
+export type LayoutWorkerRequest =
+  | { type: 'layout'; requestId: number; job: LayoutJob }
+  | { type: 'cancel'; requestId: number };
+
+/**
+ * Worker → main thread. `content` is the worker's copy of `job.content`, posted in the same
+ * message as the rows so structured clone keeps the two pointing at the same objects — which is
+ * what lets {@link rehydrateLayoutResult} swap the caller's originals back in.
+ */
+export type LayoutWorkerResponse = {
+  type: 'result';
+  requestId: number;
+  result: LayoutResult;
+  content: AnyContentModel[];
+};
+
+/** Run one pass synchronously. The worker and the main-thread fallback both end up here. */
+export function runLayoutJob(job: LayoutJob): LayoutResult {
+  return buildContentRows(
+    job.content,
+    job.collectionData,
+    job.viewport,
+    job.chunkSize,
+    job.mobileChunkSize,
+    job.forceHeaderRail,
+    job.widthCostBaseline
+  );
+}
+
+/** cyrb53: a fast 53-bit string hash. Collisions are negligible at cache sizes of dozens. */
+function hash53(text: string): number {
+  let h1 = 0xde_ad_be_ef;
+  let h2 = 0x41_c6_ce_57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2_654_435_761);
+    h2 = Math.imul(h2 ^ code, 1_597_334_677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2_246_822_507) ^ Math.imul(h2 ^ (h2 >>> 13), 3_266_489_909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2_246_822_507) ^ Math.imul(h1 ^ (h1 >>> 13), 3_266_489_909);
+  return 4_294_967_296 * (2_097_151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Memo key for a job: a hash of every input, content included.
+ *
+ * Hashing the content itself rather than its array identity is the point — a filter toggled off
+ * and on again builds a fresh array of the same items, and that should be a cache hit. It also
+ * means an edit that changes a rating or a crop (same ids, new layout) is correctly a miss.
+ * Serializing a 500-image collection costs a few milliseconds; packing it costs far more.
+ */
+export function layoutJobKey(job: LayoutJob): string {
+  const {
+    content,
+    collectionData,
+    viewport,
+    chunkSize,
+    mobileChunkSize,
+    forceHeaderRail,
+    widthCostBaseline,
+  } = job;
+  const shape = [
+    viewport.contentWidth,
+    viewport.viewportHeight,
+    viewport.isMobile ? 1 : 0,
+    chunkSize,
+    mobileChunkSize ?? '',
+    forceHeaderRail ? 1 : 0,
+    widthCostBaseline ?? '',
+  ].join(':');
+  const data = hash53(JSON.stringify([content, collectionData ?? null]));
+  return `${shape}:${data.toString(36)}`;
+}
+
+/** Results kept per session. A density sweep or a few filter toggles fit comfortably. */
+export const LAYOUT_CACHE_SIZE = 32;
+
+/** Least-recently-used results by {@link layoutJobKey}. Map order is recency order. */
+const layoutCache = new Map<string, LayoutResult>();
+
+/** Cached result for `key`, refreshing its recency. */
+export function getCachedLayout(key: string): LayoutResult | undefined {
+  const hit = layoutCache.get(key);
+  if (hit) {
+    layoutCache.delete(key);
+    layoutCache.set(key, hit);
+  }
+  return hit;
+}
+
+/**
+ * Remember a result. Failed layouts are not cached, so the next attempt retries. Nothing is kept
+ * on the server, where this module is shared by every request.
+ */
+export function setCachedLayout(key: string, result: LayoutResult): void {
+  if (typeof window === 'undefined' || result.layoutError !== null) return;
+  layoutCache.delete(key);
+  layoutCache.set(key, result);
+  while (layoutCache.size > LAYOUT_CACHE_SIZE) {
+    const oldest = layoutCache.keys().next().value;
+    if (oldest === undefined) break;
+    layoutCache.delete(oldest);
+  }
+}
+
+/** Empty the cache. For tests. */
+export function clearLayoutCache(): void {
+  layoutCache.clear();
+}
+
+/** Cached result, or lay out synchronously and cache it. */
+export function layoutSync(job: LayoutJob, key: string): LayoutResult {
+  const cached = getCachedLayout(key);
+  if (cached) return cached;
+  const result = runLayoutJob(job);
+  setCachedLayout(key, result);
+  return result;
+}
+
+/**
+ * Swap the caller's own content objects back into a result that crossed the worker boundary.
+ *
+ * Rows from the worker hold copies. Consumers downstream key some state by object — and a
+ * same-thread layout has always handed back the caller's objects — so every copy that came from
+ * `job.content` is replaced by the original at the same index. Synthesized items (header cards,
+ * blank spacers) have no original and stay as they are; each copy maps to one replacement, so a
+ * row's `items` and its `boxTree` leaves keep sharing objects the way `measureRow` expects.
+ */
+export function rehydrateLayoutResult(
+  result: LayoutResult,
+  copies: AnyContentModel[],
+  originals: AnyContentModel[]
+): LayoutResult {
+  const originalOf = new Map<AnyContentModel, AnyContentModel>();
+  for (const [index, copy] of copies.entries()) {
+    const original = originals[index];
+    if (original) originalOf.set(copy, original);
+  }
+  const swap = (content: AnyContentModel) => originalOf.get(content) ?? content;
+  const swapTree = (tree: BoxTree): BoxTree =>
+    tree.type === 'leaf'
+      ? { ...tree, content: swap(tree.content) }
+      : { ...tree, children: [swapTree(tree.children[0]), swapTree(tree.children[1])] };
+
+  return {
+    layoutError: result.layoutError,
+    rows: result.rows.map(row => ({
+      ...row,
+      items: row.items.map(item => ({ ...item, content: swap(item.content) })),
+      boxTree: swapTree(row.boxTree),
+    })),
+  };
+}
+
+/**
+ * The worker's message loop, kept here so it can be exercised without a worker.
+ *
+ * Jobs queue rather than run on arrival, and each runs in its own task, so a `cancel` posted while
+ * a job waits — the density slider moved again, the component unmounted — lands before that job
+ * starts and it is dropped unrun. A job already running finishes; the client ignores its result.
+ */
+export function createLayoutWorkerHandler(
+  post: (response: LayoutWorkerResponse) => void,
+  schedule: (run: () => void) => void = run => setTimeout(run, 0)
+): (request: LayoutWorkerRequest) => void {
+  const queue = new Map<number, LayoutJob>();
+  let scheduled = false;
+
+  const drain = () => {
+    scheduled = false;
+    const next = queue.entries().next().value;
+    if (!next) return;
+    const [requestId, job] = next;
+    queue.delete(requestId);
+    post({ type: 'result', requestId, result: runLayoutJob(job), content: job.content });
+    if (queue.size > 0) {
+      scheduled = true;
+      schedule(drain);
+    }
+  };
+
+  return request => {
+    if (request.type === 'cancel') {
+      queue.delete(request.requestId);
+      return;
+    }
+    queue.set(request.requestId, request.job);
+    if (!scheduled) {
+      scheduled = true;
+      schedule(drain);
+    }
+  };
+}
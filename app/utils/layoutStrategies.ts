@@ -0,0 +1,193 @@
+/**
+ * Alternative grid layouts beside the BoxTree row packer.
+ *
+ * Every strategy answers the same question — "which BoxTree is each row?" — so its output sizes
+ * through {@link calculateSizesFromBoxTree} and renders through `BoxRenderer` exactly like a
+ * {@link buildRows} row. That is the whole contract: the renderer, edit mode and the fullscreen
+ * viewer never learn which strategy ran.
+ *
+ * Neither alternative reads ratings. A 5★ is as wide as a 3★ in a masonry column and as tall as one
+ * in a justified row; prominence is what the ROWS packer is for.
+ */
+
+import { type LayoutMode } from '@/app/types/Collection';
+import { type AnyContentModel } from '@/app/types/Content';
+import {
+  BLANK_ID_BASE,
+  type BoxTree,
+  buildRows,
+  createBlankLeaf,
+  type PixelContext,
+} from '@/app/utils/rowCombination';
+import { calculateBoxTreeAspectRatio } from '@/app/utils/rowStructureAlgorithm';
+
+/** Inputs every strategy gets. Each uses what it needs and ignores the rest. */
+export interface LayoutStrategyInput {
+  /** Width-cost budget per row (density × {@link DENSITY_ROW_WIDTH_MULTIPLIER}, filter-adjusted). */
+  rowWidth: number;
+  /** Baseline target aspect ratio for a ROWS row. */
+  targetAR: number;
+  pixelContext: PixelContext;
+}
+
+export type LayoutStrategy = (content: AnyContentModel[], input: LayoutStrategyInput) => BoxTree[];
+
+/**
+ * Width-cost of a normal 3★ landscape — the unit the density budget is calibrated in (see
+ * {@link DENSITY_ROW_WIDTH_MULTIPLIER}). Dividing the budget by it turns density into "photos
+ * across", which is what masonry columns and justified row heights are both sized from, so the
+ * photo-size control means the same thing in every mode.
+ */
+export const PHOTOS_ACROSS_WIDTH_COST = 2.108;
+
+/** Items per column in one masonry band. See {@link masonryLayout}. */
+export const MASONRY_BAND_DEPTH = 6;
+
+/** The final justified row is padded rather than rendered taller than this multiple of target. */
+export const JUSTIFIED_LAST_ROW_MAX_STRETCH = 1.25;
+
+/** Deficits below this (in height-per-unit-width) are rounding, not a gap worth a spacer. */
+const PAD_EPSILON = 1e-6;
+
+function photosAcross(rowWidth: number): number {
+  return Math.max(1, Math.round(rowWidth / PHOTOS_ACROSS_WIDTH_COST));
+}
+
+function leaf(content: AnyContentModel): BoxTree {
+  return { type: 'leaf', content };
+}
+
+function chain(trees: BoxTree[], direction: 'horizontal' | 'vertical'): BoxTree {
+  let tree = trees[0]!;
+  for (let i = 1; i < trees.length; i++) {
+    tree = { type: 'combined', direction, children: [tree, trees[i]!] };
+  }
+  return tree;
+}
+
+function horizontalRow(items: AnyContentModel[]): BoxTree {
+  return chain(items.map(leaf), 'horizontal');
+}
+
+/** Declared aspect ratio, through the same dimensions path the sizer uses. */
+function aspectRatioOf(content: AnyContentModel): number {
+  const ar = calculateBoxTreeAspectRatio(leaf(content));
+  return ar > 0 && Number.isFinite(ar) ? ar : 1;
+}
+
+/** Hands out blank ids below {@link BLANK_ID_BASE}, unique across one layout. */
+function blankIds(): () => number {
+  let next = BLANK_ID_BASE;
+  return () => next--;
+}
+
+/** The default: rating-aware rows from {@link buildRows}. */
+export const rowsLayout: LayoutStrategy = (content, { rowWidth, targetAR, pixelContext }) =>
+  buildRows(content, rowWidth, targetAR, pixelContext).map(row => row.boxTree);
+
+/**
+ * Equal-width columns, each item at its own aspect ratio, placed shortest-column-first.
+ *
+ * A BoxTree row cannot be ragged — an hbox renders its children at one height — so the grid is cut
+ * into BANDS of {@link MASONRY_BAND_DEPTH} items per column, and each band is one row: a horizontal
+ * chain of vertical column stacks, each column topped up to the band's tallest with a blank spacer.
+ * Equal declared heights give equal column widths, and greedy placement keeps the spacers under one
+ * item tall. Bands are also what keep a 500-image gallery from becoming one unrenderable row.
+ *
+ * The column count follows density ({@link photosAcross}), and a short final band keeps it, so
+ * columns line up down the page.
+ */
+export const masonryLayout: LayoutStrategy = (content, { rowWidth }) => {
+  if (content.length === 0) return [];
+  const columnCount = photosAcross(rowWidth);
+  const bandSize = columnCount * MASONRY_BAND_DEPTH;
+  const nextBlankId = blankIds();
+  const rows: BoxTree[] = [];
+
+  for (let start = 0; start < content.length; start += bandSize) {
+    const band = content.slice(start, start + bandSize);
+    const columns: AnyContentModel[][] = Array.from({ length: columnCount }, () => []);
+    // Height at unit column width: the sum of 1/AR down the column.
+    const heights: number[] = Array.from({ length: columnCount }, () => 0);
+
+    for (const item of band) {
+      let shortest = 0;
+      for (let c = 1; c < columnCount; c++) {
+        if (heights[c]! < heights[shortest]!) shortest = c;
+      }
+      columns[shortest]!.push(item);
+      heights[shortest] = heights[shortest]! + 1 / aspectRatioOf(item);
+    }
+
+    const bandHeight = Math.max(...heights);
+    const columnTrees = columns.map((items, c) => {
+      const deficit = bandHeight - heights[c]!;
+      const trees = items.map(leaf);
+      if (deficit > PAD_EPSILON) trees.push(createBlankLeaf(1 / deficit, nextBlankId()));
+      return chain(trees, 'vertical');
+    });
+    rows.push(chain(columnTrees, 'horizontal'));
+  }
+
+  return rows;
+};
+
+/**
+ * Strict equal-height rows, filled edge to edge — the Flickr grid.
+ *
+ * Target row height is the one a row of {@link photosAcross} 3:2 landscapes would have, so density
+ * means what it means for ROWS. Items join a row while it would still render taller than target;
+ * the item that crosses is kept only if that lands closer to target than stopping short. The final
+ * row gets a trailing spacer when filling the width would stretch it past
+ * {@link JUSTIFIED_LAST_ROW_MAX_STRETCH} × target, so a leftover pair does not render as giants.
+ *
+ * Works in aspect-ratio units (height = width ÷ summed AR); gaps are the sizer's concern and shift
+ * every row alike.
+ */
+export const justifiedLayout: LayoutStrategy = (content, { rowWidth }) => {
+  if (content.length === 0) return [];
+  const targetRowAR = photosAcross(rowWidth) * 1.5;
+  const nextBlankId = blankIds();
+  const rows: BoxTree[] = [];
+
+  let current: AnyContentModel[] = [];
+  let currentAR = 0;
+  for (const item of content) {
+    const ar = aspectRatioOf(item);
+    if (current.length > 0 && currentAR + ar > targetRowAR) {
+      // Height error as a ratio either way: stopping short renders target × (target / currentAR).
+      const shortError = targetRowAR / currentAR;
+      const overError = (currentAR + ar) / targetRowAR;
+      if (overError <= shortError) {
+        rows.push(horizontalRow([...current, item]));
+        current = [];
+        currentAR = 0;
+        continue;
+      }
+      rows.push(horizontalRow(current));
+      current = [];
+      currentAR = 0;
+    }
+    current.push(item);
+    currentAR += ar;
+  }
+
+  if (current.length > 0) {
+    const row = horizontalRow(current);
+    const stretch = targetRowAR / currentAR;
+    rows.push(
+      stretch > JUSTIFIED_LAST_ROW_MAX_STRETCH
+        ? chain([row, createBlankLeaf(targetRowAR - currentAR, nextBlankId())], 'horizontal')
+        : row
+    );
+  }
+
+  return rows;
+};
+
+/** Strategy per {@link LayoutMode}. */
+export const LAYOUT_STRATEGIES: Record<LayoutMode, LayoutStrategy> = {
+  ROWS: rowsLayout,
+  MASONRY: masonryLayout,
+  JUSTIFIED: justifiedLayout,
+};
@@ -0,0 +1,125 @@
+/**
+ * Main-thread side of the layout worker: one lazily-started worker per tab, requests matched to
+ * responses by id, and a synchronous fallback wherever a worker is unavailable.
+ */
+
+import {
+  type LayoutJob,
+  type LayoutResult,
+  type LayoutWorkerRequest,
+  type LayoutWorkerResponse,
+  rehydrateLayoutResult,
+  runLayoutJob,
+} from '@/app/utils/layoutJob';
+import { logger } from '@/app/utils/logger';
+
+/**
+ * Collections smaller than this lay out on the main thread. Below it a pack takes a few
+ * milliseconds, less than the round trip of cloning the content out and the rows back.
+ */
+export const WORKER_MIN_CONTENT = 150;
+
+/** An in-flight layout. `cancel` drops it; its promise then never settles. */
+export interface LayoutRequest {
+  promise: Promise<LayoutResult>;
+  cancel: () => void;
+}
+
+interface PendingRequest {
+  job: LayoutJob;
+  resolve: (result: LayoutResult) => void;
+}
+
+let worker: Worker | null = null;
+/** Set once the worker fails to start or errors; every later request runs inline. */
+let workerBroken = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+/** True where a layout can leave the main thread: a browser with `Worker` (never SSR or Jest). */
+export function canUseLayoutWorker(): boolean {
+  return !workerBroken && typeof window !== 'undefined' && typeof Worker !== 'undefined';
+}
+
+/**
+ * Give up on the worker and settle everything it owed inline, so a crash costs one slow frame
+ * rather than a grid that never updates.
+ */
+function abandonWorker(reason: unknown): void {
+  logger.error('layoutWorker', 'Layout worker failed; laying out on the main thread', reason);
+  workerBroken = true;
+  worker?.terminate();
+  worker = null;
+  const owed = [...pending.values()];
+  pending.clear();
+  for (const { job, resolve } of owed) resolve(runLayoutJob(job));
+}
+
+function handleResponse(response: LayoutWorkerResponse): void {
+  const request = pending.get(response.requestId);
+  // Cancelled after the worker had already started it: the result has no one left to receive it.
+  if (!request) return;
+  pending.delete(response.requestId);
+  request.resolve(rehydrateLayoutResult(response.result, response.content, request.job.content));
+}
+
+function getWorker(): Worker | null {
+  if (worker || !canUseLayoutWorker()) return worker;
+  try {
+    worker = new Worker(new URL('../workers/contentLayout.worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<LayoutWorkerResponse>) =>
+      handleResponse(event.data)
+    );
+    worker.addEventListener('error', event => abandonWorker(event.message));
+  } catch (error) {
+    abandonWorker(error);
+  }
+  return worker;
+}
+
+function post(message: LayoutWorkerRequest): void {
+  worker?.postMessage(message);
+}
+
+/**
+ * Lay out `job` off the main thread. Without a worker the promise resolves with an inline layout
+ * on the next microtask, so callers have one code path.
+ */
+export function requestLayout(job: LayoutJob): LayoutRequest {
+  const requestId = nextRequestId++;
+  const target = getWorker();
+  if (!target) {
+    let cancelled = false;
+    return {
+      promise: Promise.resolve().then(
+        () => new Promise<LayoutResult>(resolve => !cancelled && resolve(runLayoutJob(job)))
+      ),
+      cancel: () => {
+        cancelled = true;
+      },
+    };
+  }
+
+  const promise = new Promise<LayoutResult>(resolve => pending.set(requestId, { job, resolve }));
+  try {
+    post({ type: 'layout', requestId, job });
+  } catch (error) {
+    // DataCloneError: something in the job is not plain data. Nothing else can be either.
+    abandonWorker(error);
+  }
+  return {
+    promise,
+    cancel: () => {
+      if (!pending.delete(requestId)) return;
+      post({ type: 'cancel', requestId });
+    },
+  };
+}
+
+/** Tear down the worker and forget every request. For tests. */
+export function resetLayoutWorker(): void {
+  worker?.terminate();
+  worker = null;
+  workerBroken = false;
+  pending.clear();
+}
@@ -0,0 +1,431 @@
+/**
+ * Markdown → rich text.
+ *
+ * Covers what a gallery text block is written with: ATX and setext headings, paragraphs with hard
+ * breaks, bullet and numbered lists (nested by indentation), block quotes, fenced code, rules, and
+ * inline emphasis, strikethrough, code, links and autolinks. It is not a full CommonMark
+ * implementation — no reference-style links, no raw HTML (that is what the HTML format is for),
+ * and emphasis pairs by nearest closer rather than by the spec's delimiter algorithm.
+ *
+ * Images are references into the block's own collection: `![alt](image:<contentId>)`. A reference
+ * to content the collection does not hold renders as its alt text.
+ */
+
+import {
+  type HeadingLevel,
+  type RichBlock,
+  type RichImageResolver,
+  type RichInline,
+} from '@/app/types/RichText';
+
+import { resolveImageRef, safeHref } from './sanitizeHtml';
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const ATX_HEADING_REGEX = /^ {0,3}(#{1,6})(?:[\t ]+(.*?))?(?:[\t ]+#+)?[\t ]*$/;
+const RULE_REGEX = /^ {0,3}([*_-])(?:[\t ]*\1){2,}[\t ]*$/;
+const QUOTE_REGEX = /^ {0,3}> ?/;
+const LIST_ITEM_REGEX = /^( {0,3})([*+-]|\d{1,9}[).])([\t ]+|$)/;
+const SETEXT_REGEX = /^ {0,3}(=+|-+)[\t ]*$/;
+const AUTOLINK_REGEX = /^<((?:https?|mailto):[^\s<>]+)>/i;
+const BARE_URL_REGEX = /^https?:\/\/[^\s<]*[^\s"'),.:;<\]]/i;
+const ESCAPABLE = new Set('!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~');
+
+const isBlank = (line: string) => line.trim() === '';
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_REGEX.test(line) ||
+    ATX_HEADING_REGEX.test(line) ||
+    RULE_REGEX.test(line) ||
+    QUOTE_REGEX.test(line) ||
+    LIST_ITEM_REGEX.test(line)
+  );
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// ---------------------------------------------------------------------------
+// Inline
+// ---------------------------------------------------------------------------
+
+/** Index just past a backtick run's matching closer, or -1. */
+function codeSpanEnd(text: string, start: number): number {
+  let ticks = 0;
+  while (text[start + ticks] === '`') ticks++;
+  for (let pos = start + ticks; pos < text.length; ) {
+    if (text[pos] !== '`') {
+      pos++;
+      continue;
+    }
+    let run = 0;
+    while (text[pos + run] === '`') run++;
+    if (run === ticks) return pos + run;
+    pos += run;
+  }
+  return -1;
+}
+
+/** Index of the `]` closing the `[` at `open`, skipping escapes, code and nested brackets. */
+function closingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let pos = open; pos < text.length; pos++) {
+    const char = text[pos];
+    if (char === '\\') {
+      pos++;
+    } else if (char === '`') {
+      const end = codeSpanEnd(text, pos);
+      if (end !== -1) pos = end - 1;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return pos;
+    }
+  }
+  return -1;
+}
+
+/** `(destination "optional title")` right after a link label. */
+function linkDestination(text: string, start: number): { href: string; end: number } | null {
+  if (text[start] !== '(') return null;
+  const match = /^\(\s*(<[^\n<>]*>|[^\s()]*)(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/.exec(
+    text.slice(start)
+  );
+  if (!match) return null;
+  const href = match[1]!.replace(/^<(.*)>$/, '$1');
+  return { href, end: start + match[0].length };
+}
+
+/** Index of the delimiter closing an emphasis run opened at `from`, or -1. */
+function emphasisCloser(text: string, from: number, delimiter: string): number {
+  const char = delimiter[0]!;
+  for (let pos = from; pos < text.length; pos++) {
+    const current = text[pos];
+    if (current === '\\') {
+      pos++;
+      continue;
+    }
+    if (current === '`') {
+      const end = codeSpanEnd(text, pos);
+      if (end !== -1) pos = end - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, pos) || /\s/.test(text[pos - 1] ?? ' ')) continue;
+    let run = 0;
+    while (text[pos + run] === char) run++;
+    // A single `*` must not close on half of a `**`, and `_` only closes at a word's end.
+    if (delimiter.length === 1 && run === 2) {
+      pos++;
+      continue;
+    }
+    if (char === '_' && /\w/.test(text[pos + run] ?? '')) continue;
+    // `***x***` closes its `**` on the outer pair, leaving `*x*` inside.
+    return pos + run - delimiter.length;
+  }
+  return -1;
+}
+
+function plainText(inlines: RichInline[]): string {
+  return inlines
+    .map(inline => {
+      if (inline.type === 'text' || inline.type === 'code') return inline.value;
+      if (inline.type === 'break') return ' ';
+      if (inline.type === 'image') return inline.alt;
+      return plainText(inline.children);
+    })
+    .join('');
+}
+
+/** Parse a paragraph's (or heading's) text into inline nodes. */
+export function parseInline(text: string, resolveImage: RichImageResolver): RichInline[] {
+  const nodes: RichInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', value: buffer });
+    buffer = '';
+  };
+
+  for (let pos = 0; pos < text.length; ) {
+    const char = text[pos]!;
+    const rest = text.slice(pos);
+
+    if (char === '\\') {
+      const next = text[pos + 1];
+      if (next === '\n') {
+        flush();
+        nodes.push({ type: 'break' });
+        pos += 2;
+      } else if (next !== undefined && ESCAPABLE.has(next)) {
+        buffer += next;
+        pos += 2;
+      } else {
+        buffer += char;
+        pos++;
+      }
+      continue;
+    }
+
+    if (char === '\n') {
+      const hard = / {2,}$/.test(buffer);
+      buffer = buffer.trimEnd();
+      if (hard) {
+        flush();
+        nodes.push({ type: 'break' });
+      } else {
+        buffer += ' ';
+      }
+      pos++;
+      while (text[pos] === ' ' || text[pos] === '\t') pos++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = codeSpanEnd(text, pos);
+      if (end === -1) {
+        while (text[pos] === '`') buffer += text[pos++];
+        continue;
+      }
+      let ticks = 0;
+      while (text[pos + ticks] === '`') ticks++;
+      let value = text.slice(pos + ticks, end - ticks).replaceAll('\n', ' ');
+      if (value.length > 2 && value.startsWith(' ') && value.endsWith(' ')) {
+        value = value.slice(1, -1);
+      }
+      flush();
+      nodes.push({ type: 'code', value });
+      pos = end;
+      continue;
+    }
+
+    if (char === '[' || (char === '!' && text[pos + 1] === '[')) {
+      const isImage = char === '!';
+      const open = isImage ? pos + 1 : pos;
+      const close = closingBracket(text, open);
+      const destination = close === -1 ? null : linkDestination(text, close + 1);
+      if (destination) {
+        const label = parseInline(text.slice(open + 1, close), resolveImage);
+        flush();
+        if (isImage) {
+          const alt = plainText(label);
+          const image = resolveImageRef(destination.href, alt, resolveImage);
+          nodes.push(image ?? { type: 'text', value: alt });
+        } else {
+          const href = safeHref(destination.href);
+          nodes.push(...(href ? [{ type: 'link' as const, href, children: label }] : label));
+        }
+        pos = destination.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const match = AUTOLINK_REGEX.exec(rest);
+      if (match) {
+        flush();
+        nodes.push({
+          type: 'link',
+          href: match[1]!,
+          children: [{ type: 'text', value: match[1]! }],
+        });
+        pos += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && !/\w/.test(text[pos - 1] ?? '')) {
+      const match = BARE_URL_REGEX.exec(rest);
+      if (match) {
+        flush();
+        nodes.push({ type: 'link', href: match[0], children: [{ type: 'text', value: match[0] }] });
+        pos += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      let run = 0;
+      while (text[pos + run] === char) run++;
+      const delimiter = char === '~' ? (run >= 2 ? '~~' : null) : char.repeat(Math.min(run, 2));
+      const opensWord =
+        delimiter !== null &&
+        !/\s/.test(text[pos + delimiter.length] ?? ' ') &&
+        (char !== '_' || !/\w/.test(text[pos - 1] ?? ''));
+      const close = opensWord ? emphasisCloser(text, pos + delimiter.length, delimiter) : -1;
+      if (delimiter !== null && close !== -1) {
+        flush();
+        const children = parseInline(text.slice(pos + delimiter.length, close), resolveImage);
+        const type = char === '~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        nodes.push({ type, children });
+        pos = close + delimiter.length;
+        continue;
+      }
+      buffer += text.slice(pos, pos + run);
+      pos += run;
+      continue;
+    }
+
+    buffer += char;
+    pos++;
+  }
+  flush();
+
+  // An unresolved image falls back to text beside other text; keep runs of text as one node.
+  return nodes.reduce<RichInline[]>((merged, node) => {
+    const previous = merged.at(-1);
+    if (node.type === 'text' && previous?.type === 'text') {
+      merged[merged.length - 1] = { type: 'text', value: previous.value + node.value };
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+}
+
+// ---------------------------------------------------------------------------
+// Block
+// ---------------------------------------------------------------------------
+
+/** Collect one list's items; each item's lines come back dedented to its content column. */
+function collectListItems(
+  lines: string[],
+  start: number,
+  ordered: boolean
+): { items: string[][]; firstNumber: number; end: number } {
+  const items: string[][] = [];
+  let firstNumber = 1;
+  let contentIndent = 0;
+  let pos = start;
+
+  while (pos < lines.length) {
+    const line = lines[pos]!;
+    const marker = LIST_ITEM_REGEX.exec(line);
+    const sameKind = marker !== null && /\d/.test(marker[2]!) === ordered;
+
+    if (sameKind && leadingSpaces(line) < Math.max(contentIndent, 1)) {
+      if (items.length === 0 && ordered) firstNumber = Number.parseInt(marker[2]!, 10);
+      const markerWidth = marker[0].length;
+      contentIndent = marker[3] === '' ? markerWidth + 1 : markerWidth;
+      items.push([line.slice(markerWidth)]);
+      pos++;
+      continue;
+    }
+
+    const item = items.at(-1)!;
+    if (isBlank(line)) {
+      // A blank line ends the list unless the item (or another item) carries on after it.
+      const next = lines.slice(pos + 1).find(candidate => !isBlank(candidate));
+      const continues =
+        next !== undefined &&
+        (leadingSpaces(next) >= contentIndent ||
+          (LIST_ITEM_REGEX.test(next) && /\d/.test(LIST_ITEM_REGEX.exec(next)![2]!) === ordered));
+      if (!continues) break;
+      item.push('');
+    } else if (leadingSpaces(line) >= contentIndent) {
+      item.push(line.slice(contentIndent));
+    } else if (!isBlank(item.at(-1) ?? '') && !startsBlock(line)) {
+      // Lazy continuation of the item's paragraph.
+      item.push(line.trimStart());
+    } else {
+      break;
+    }
+    pos++;
+  }
+
+  return { items, firstNumber, end: pos };
+}
+
+function parseBlocks(lines: string[], resolveImage: RichImageResolver): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  let pos = 0;
+
+  while (pos < lines.length) {
+    const line = lines[pos]!;
+
+    if (isBlank(line)) {
+      pos++;
+      continue;
+    }
+
+    const fence = FENCE_REGEX.exec(line);
+    if (fence) {
+      const marker = fence[1]!;
+      const language = fence[2];
+      const body: string[] = [];
+      pos++;
+      while (pos < lines.length && !lines[pos]!.trim().startsWith(marker)) {
+        body.push(lines[pos]!);
+        pos++;
+      }
+      pos++;
+      blocks.push({ type: 'code', ...(language ? { language } : {}), value: body.join('\n') });
+      continue;
+    }
+
+    const heading = ATX_HEADING_REGEX.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1]!.length as HeadingLevel,
+        children: parseInline(heading[2] ?? '', resolveImage),
+      });
+      pos++;
+      continue;
+    }
+
+    if (RULE_REGEX.test(line)) {
+      blocks.push({ type: 'rule' });
+      pos++;
+      continue;
+    }
+
+    if (QUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (pos < lines.length && QUOTE_REGEX.test(lines[pos]!)) {
+        quoted.push(lines[pos]!.replace(QUOTE_REGEX, ''));
+        pos++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, resolveImage) });
+      continue;
+    }
+
+    const marker = LIST_ITEM_REGEX.exec(line);
+    if (marker) {
+      const ordered = /\d/.test(marker[2]!);
+      const { items, firstNumber, end } = collectListItems(lines, pos, ordered);
+      blocks.push({
+        type: 'list',
+        ordered,
+        ...(ordered && firstNumber !== 1 ? { start: firstNumber } : {}),
+        items: items.map(item => parseBlocks(item, resolveImage)),
+      });
+      pos = end;
+      continue;
+    }
+
+    const paragraph: string[] = [line.trimStart()];
+    pos++;
+    let level: HeadingLevel | null = null;
+    while (pos < lines.length && !isBlank(lines[pos]!)) {
+      const setext = SETEXT_REGEX.exec(lines[pos]!);
+      if (setext) {
+        level = setext[1]!.startsWith('=') ? 1 : 2;
+        pos++;
+        break;
+      }
+      if (startsBlock(lines[pos]!)) break;
+      paragraph.push(lines[pos]!.trimStart());
+      pos++;
+    }
+    const children = parseInline(paragraph.join('\n').trimEnd(), resolveImage);
+    blocks.push(level ? { type: 'heading', level, children } : { type: 'paragraph', children });
+  }
+
+  return blocks;
+}
+
+/** Parse a Markdown text block into rich text (see the module comment for what is supported). */
+export function parseMarkdown(source: string, resolveImage: RichImageResolver): RichBlock[] {
+  const lines = source.replaceAll(/\r\n?/g, '\n').replaceAll('\t', '    ').split('\n');
+  return parseBlocks(lines, resolveImage);
+}
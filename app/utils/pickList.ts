@@ -0,0 +1,63 @@
+/**
+ * Exports for a client's proofing picks (see `ProofingReview`): a CSV for the record, and a
+ * filename list to paste into Lightroom.
+ *
+ * Both key on `rawFileName` — the name the file had when it left the camera or the catalog — since
+ * that is what the admin's editing tools know the image by. Site ids and titles ride along in the
+ * CSV for cross-reference only.
+ */
+
+import { type ContentImageModel } from '@/app/types/Content';
+import { type ProofingClientPicks, type ProofingReview } from '@/app/types/Selects';
+
+/** `DSC_0142.NEF` → `DSC_0142`. Null when the image has no recorded file name. */
+export function fileStem(image: ContentImageModel): string | null {
+  const name = image.rawFileName?.trim();
+  if (!name) return null;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+/**
+ * The picks as a Lightroom Library Filter: paste into Text › Filename › Contains, which matches
+ * any of the comma-separated terms. Stems rather than full names, so a pick exported as JPEG
+ * still finds its RAW original. Images with no file name are left out — there is nothing to match.
+ */
+export function lightroomFilter(images: ContentImageModel[]): string {
+  const stems = images.flatMap(image => fileStem(image) ?? []);
+  return [...new Set(stems)].join(', ');
+}
+
+/**
+ * Quote a CSV field when it needs it (RFC 4180), and defuse a leading `=`, `+`, `-` or `@` that a
+ * spreadsheet would otherwise run as a formula — titles and file names are free text.
+ */
+export function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[+=@-]/.test(text)) text = `'${text}`;
+  return /[\n\r",]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+const CSV_HEADER = ['#', 'File name', 'Image ID', 'Title', 'Capture date'];
+
+/** One client's picks as CSV, in the order they were picked. CRLF line ends, per RFC 4180. */
+export function pickListCsv(client: ProofingClientPicks): string {
+  const rows = client.images.map((image, index) => [
+    index + 1,
+    image.rawFileName ?? '',
+    image.id,
+    image.title ?? '',
+    image.captureDate ?? '',
+  ]);
+  return [CSV_HEADER, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** `smith-wedding-jane-doe-picks.csv` — readable in a downloads folder full of them. */
+export function pickListFileName(review: ProofingReview, client: ProofingClientPicks): string {
+  const who = (client.displayName ?? client.email ?? `client-${client.userId}`)
+    .toLowerCase()
+    .replaceAll(/[^\da-z]+/g, '-')
+    .replaceAll(/^-+|-+$/g, '');
+  return `${review.slug}-${who || `client-${client.userId}`}-picks.csv`;
+}
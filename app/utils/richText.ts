@@ -0,0 +1,200 @@
+/**
+ * Rich text for TEXT blocks: one entry point from a block's stored source to the
+ * {@link RichBlock} tree, and the height model the layout engine sizes the block by.
+ *
+ * The height model is an estimate at a fixed reference width, not a measurement — layout runs
+ * before anything is in the DOM (and in a worker). The block declares
+ * {@link TEXT_BLOCK_REFERENCE_WIDTH} × estimated height, so the row composer and sizer treat it
+ * like any other leaf with an aspect ratio; `RichText` scrolls rather than clips if the rendered
+ * width reflows the text taller than the estimate. The constants below mirror
+ * `RichText.module.scss` and have to move with it.
+ */
+
+import {
+  type ContentImageModel,
+  type ContentTextModel,
+  type TextFormat,
+} from '@/app/types/Content';
+import { type RichBlock, type RichImageResolver, type RichInline } from '@/app/types/RichText';
+
+import { parseMarkdown } from './markdown';
+import { sanitizeHtml } from './sanitizeHtml';
+
+export type RichTextFormat = TextFormat | 'js' | 'css' | 'json';
+
+/** Width the height estimate is taken at; a text block's declared width. */
+export const TEXT_BLOCK_REFERENCE_WIDTH = 640;
+
+/** Shortest a text block is laid out at, however little it says. */
+const MIN_TEXT_BLOCK_HEIGHT = 80;
+
+// Mirrors RichText.module.scss.
+const BODY_FONT_PX = 16;
+const BODY_LINE_HEIGHT = 1.6;
+const HEADING_LINE_HEIGHT = 1.25;
+const HEADING_FONT_PX: Record<number, number> = { 1: 30, 2: 24, 3: 20, 4: 16, 5: 16, 6: 16 };
+const CODE_FONT_PX = 14;
+const CODE_LINE_HEIGHT = 1.5;
+const CODE_PADDING_PX = 12;
+const BLOCK_PADDING_PX = 24;
+const BLOCK_GAP_PX = 16;
+const LIST_INDENT_PX = 24;
+const LIST_ITEM_GAP_PX = 4;
+const QUOTE_INDENT_PX = 16;
+const RULE_HEIGHT_PX = 1;
+/** Average glyph advance as a fraction of the font size, for proportional body text. */
+const AVERAGE_CHAR_EM = 0.5;
+
+/** An image resolver over the collection's own images. */
+export function collectionImageResolver(
+  images: readonly Pick<ContentImageModel, 'id' | 'imageUrl' | 'imageWidth' | 'imageHeight'>[]
+): RichImageResolver {
+  const byId = new Map(images.map(image => [image.id, image]));
+  return contentId => {
+    const image = byId.get(contentId);
+    if (!image?.imageUrl || !image.imageWidth || !image.imageHeight) return null;
+    return {
+      contentId,
+      src: image.imageUrl,
+      width: image.imageWidth,
+      height: image.imageHeight,
+    };
+  };
+}
+
+function plainParagraphs(source: string): RichBlock[] {
+  return source
+    .replaceAll(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => ({
+      type: 'paragraph' as const,
+      children: paragraph
+        .split('\n')
+        .flatMap((line, index): RichInline[] =>
+          index === 0
+            ? [{ type: 'text', value: line }]
+            : [{ type: 'break' }, { type: 'text', value: line }]
+        ),
+    }));
+}
+
+/**
+ * Parse a text block's source in its declared format. Code formats (`js`, `css`, `json`) render
+ * as a single code block; unknown formats fall back to plain text.
+ */
+export function parseRichText(
+  format: RichTextFormat | undefined,
+  source: string,
+  resolveImage: RichImageResolver
+): RichBlock[] {
+  switch (format) {
+    case 'markdown': {
+      return parseMarkdown(source, resolveImage);
+    }
+    case 'html': {
+      return sanitizeHtml(source, resolveImage);
+    }
+    case 'js':
+    case 'css':
+    case 'json': {
+      return source.trim() ? [{ type: 'code', language: format, value: source }] : [];
+    }
+    default: {
+      return plainParagraphs(source);
+    }
+  }
+}
+
+/** A stored TEXT block's source: its text items, joined as the backend split them. */
+export function textBlockSource(block: Pick<ContentTextModel, 'items'>): string {
+  return block.items
+    .filter(item => item.type === 'text')
+    .map(item => item.value)
+    .join('\n\n');
+}
+
+function inlineHeight(
+  inlines: RichInline[],
+  width: number,
+  fontPx: number,
+  lineHeight: number
+): number {
+  const charsPerLine = Math.max(1, Math.floor(width / (fontPx * AVERAGE_CHAR_EM)));
+  let lines = 0;
+  let lineChars = 0;
+  let images = 0;
+  const endLine = () => {
+    lines += Math.max(1, Math.ceil(lineChars / charsPerLine));
+    lineChars = 0;
+  };
+  const walk = (nodes: RichInline[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text' || node.type === 'code') {
+        lineChars += node.value.length;
+      } else if (node.type === 'break') {
+        endLine();
+      } else if (node.type === 'image') {
+        // Images sit on their own line at up to the full column width.
+        const imageWidth = Math.min(width, node.width);
+        images += (imageWidth * node.height) / node.width;
+      } else {
+        walk(node.children);
+      }
+    }
+  };
+  walk(inlines);
+  if (lineChars > 0 || images === 0) endLine();
+  return lines * fontPx * lineHeight + images;
+}
+
+function blocksHeight(blocks: RichBlock[], width: number, gap: number): number {
+  if (blocks.length === 0) return 0;
+  const total = blocks.reduce((sum, block) => sum + blockHeight(block, width), 0);
+  return total + gap * (blocks.length - 1);
+}
+
+function blockHeight(block: RichBlock, width: number): number {
+  switch (block.type) {
+    case 'paragraph': {
+      return inlineHeight(block.children, width, BODY_FONT_PX, BODY_LINE_HEIGHT);
+    }
+    case 'heading': {
+      const fontPx = HEADING_FONT_PX[block.level] ?? BODY_FONT_PX;
+      return inlineHeight(block.children, width, fontPx, HEADING_LINE_HEIGHT);
+    }
+    case 'list': {
+      const itemWidth = width - LIST_INDENT_PX;
+      const items = block.items.map(item => blocksHeight(item, itemWidth, BLOCK_GAP_PX));
+      return (
+        items.reduce((sum, height) => sum + height, 0) +
+        LIST_ITEM_GAP_PX * Math.max(0, items.length - 1)
+      );
+    }
+    case 'blockquote': {
+      return blocksHeight(block.children, width - QUOTE_INDENT_PX, BLOCK_GAP_PX);
+    }
+    case 'code': {
+      // Code does not wrap; long lines scroll sideways.
+      const lines = block.value.split('\n').length;
+      return lines * CODE_FONT_PX * CODE_LINE_HEIGHT + 2 * CODE_PADDING_PX;
+    }
+    case 'rule': {
+      return RULE_HEIGHT_PX;
+    }
+  }
+}
+
+/**
+ * Layout size for a rich text block: the reference width and the estimated height of the blocks
+ * set at that width (see the module comment).
+ */
+export function estimateRichTextSize(blocks: RichBlock[]): { width: number; height: number } {
+  const contentWidth = TEXT_BLOCK_REFERENCE_WIDTH - 2 * BLOCK_PADDING_PX;
+  const contentHeight = blocksHeight(blocks, contentWidth, BLOCK_GAP_PX);
+  return {
+    width: TEXT_BLOCK_REFERENCE_WIDTH,
+    height: Math.max(MIN_TEXT_BLOCK_HEIGHT, Math.ceil(contentHeight + 2 * BLOCK_PADDING_PX)),
+  };
+}
@@ -616,7 +616,7 @@ export const BLANK_ID_BASE = -1_000_000;
  * `visible` must stay true, or `isContentVisibleInCollection` would trip the
  * "Non-Visible Content" separator.
  */
-function createBlankLeaf(aspectRatio: number, id: number): BoxTree {
+export function createBlankLeaf(aspectRatio: number, id: number): BoxTree {
   const blank: ContentBlankModel = {
     id,
     contentType: 'BLANK',
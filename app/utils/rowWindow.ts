@@ -0,0 +1,112 @@
+/**
+ * Row windowing math for the content grid: which packed rows to mount for a scroll position, and
+ * how much empty height stands in for the rest.
+ *
+ * Everything is in CONTAINER coordinates — px from the top of the grid — and every row is one
+ * "pitch": its rendered height plus the gap below it. Pitches start as estimates from the sizes the
+ * layout already computed and are replaced by measurements as rows mount, so the page is as tall
+ * as it would be with every row mounted and the scrollbar does not jump.
+ */
+
+import { LAYOUT } from '@/app/constants';
+import { type RowWithPatternAndSizes } from '@/app/utils/contentLayout';
+import { measureRow } from '@/app/utils/layoutDebug';
+
+/** Grids shorter than this mount every row: below it, windowing saves less than it costs. */
+export const VIRTUALIZE_MIN_ROWS = 30;
+
+/** Rows mounted past each edge of the viewport, so a fling does not outrun the mount. */
+export const ROW_OVERSCAN = 3;
+
+/** One stretch of the windowed grid: a mounted row, or the height of the unmounted rows it skips. */
+export type RowWindowSegment =
+  | { kind: 'row'; index: number }
+  | { kind: 'spacer'; key: string; height: number };
+
+/**
+ * Pitch the layout predicts for a row: its height through the BoxTree, plus the row gap. Rows
+ * without sizes (nothing to measure) fall back to one gap, never zero, so offsets stay ordered.
+ */
+export function estimateRowPitch(row: RowWithPatternAndSizes): number {
+  return measureRow(row, LAYOUT.gridGap).heightPx + LAYOUT.gridGap;
+}
+
+/** Prefix sums: `offsets[i]` is where row `i` starts, `offsets[n]` the grid's full height. */
+export function rowOffsets(pitches: readonly number[]): number[] {
+  const offsets = [0];
+  for (const pitch of pitches) offsets.push(offsets.at(-1)! + pitch);
+  return offsets;
+}
+
+/**
+ * Index of the row containing container-y `y`, clamped to `[0, n - 1]`. Binary search: the
+ * thousand-row grid this exists for runs it on every scroll frame.
+ */
+export function rowAt(offsets: readonly number[], y: number): number {
+  const count = offsets.length - 1;
+  let lo = 0;
+  let hi = count - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid]! <= y) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+}
+
+/** The rows `[start, end)` overlapping `[top, bottom)`, widened by `overscan` on each side. */
+export function visibleRowRange(
+  offsets: readonly number[],
+  top: number,
+  bottom: number,
+  overscan: number = ROW_OVERSCAN
+): { start: number; end: number } {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const first = rowAt(offsets, top);
+  const last = rowAt(offsets, Math.max(top, bottom - 1));
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + overscan + 1),
+  };
+}
+
+/**
+ * The grid as mounted rows and spacers: every row in `[start, end)` plus every pinned row, with
+ * one spacer per run of skipped rows. Pinned rows stay mounted wherever they sit — a picked-up
+ * tile in reorder mode keeps its focus and its handlers while the admin scrolls to the drop spot.
+ */
+export function windowSegments(
+  offsets: readonly number[],
+  start: number,
+  end: number,
+  pinned: Iterable<number> = []
+): RowWindowSegment[] {
+  const count = offsets.length - 1;
+  const mounted = new Set<number>();
+  for (let i = start; i < end; i++) mounted.add(i);
+  for (const index of pinned) if (index >= 0 && index < count) mounted.add(index);
+
+  const segments: RowWindowSegment[] = [];
+  let skippedFrom: number | null = null;
+  const closeSpacer = (to: number) => {
+    if (skippedFrom === null) return;
+    segments.push({
+      kind: 'spacer',
+      key: `spacer-${skippedFrom}-${to}`,
+      height: offsets[to]! - offsets[skippedFrom]!,
+    });
+    skippedFrom = null;
+  };
+
+  for (let i = 0; i < count; i++) {
+    if (mounted.has(i)) {
+      closeSpacer(i);
+      segments.push({ kind: 'row', index: i });
+    } else if (skippedFrom === null) {
+      skippedFrom = i;
+    }
+  }
+  closeSpacer(count);
+  return segments;
+}
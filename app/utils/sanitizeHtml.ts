@@ -0,0 +1,425 @@
+/**
+ * HTML → rich text, through an allow-list.
+ *
+ * HTML text blocks are parsed into the {@link RichBlock} tree rather than cleaned and re-emitted
+ * as markup: an element outside the list below is unwrapped to its text, an element that only
+ * carries code or foreign content (`<script>`, `<style>`, `<iframe>`, `<svg>` …) is dropped with
+ * everything inside it, and every attribute is discarded except a safe `href`, an `<img>`'s
+ * `image:<contentId>` `src` and `alt`, and an `<ol>`'s `start`. Event handlers, inline styles and
+ * `javascript:` URLs have no slot in the tree to survive into.
+ *
+ * The tokenizer is deliberately forgiving — unclosed and mis-nested tags close at the nearest
+ * matching ancestor or are ignored, as a browser would — since the input is hand-written.
+ */
+
+import {
+  type HeadingLevel,
+  type RichBlock,
+  type RichImageResolver,
+  type RichInline,
+} from '@/app/types/RichText';
+
+interface HtmlElement {
+  kind: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | { kind: 'text'; value: string };
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/** Contents are raw text, not markup, until the matching close tag. */
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'noscript']);
+
+/** Removed together with their contents. */
+const DROPPED_TAGS = new Set([
+  'script',
+  'style',
+  'textarea',
+  'title',
+  'xmp',
+  'noscript',
+  'template',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'applet',
+  'svg',
+  'math',
+  'canvas',
+  'audio',
+  'video',
+  'picture',
+  'head',
+  'select',
+  'button',
+  'input',
+]);
+
+/** Layout wrappers: their contents are kept as blocks, the wrapper itself is not. */
+const CONTAINER_TAGS = new Set([
+  'article',
+  'aside',
+  'body',
+  'details',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'header',
+  'html',
+  'main',
+  'nav',
+  'section',
+  'summary',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+]);
+
+const BLOCK_TAGS = new Set([
+  ...CONTAINER_TAGS,
+  'blockquote',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'ul',
+]);
+
+const INLINE_WRAPPERS: Record<string, 'strong' | 'em' | 'del'> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  del: 'del',
+  s: 'del',
+  strike: 'del',
+};
+
+const CODE_TAGS = new Set(['code', 'kbd', 'samp', 'tt']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  times: '×',
+  middot: '·',
+  bull: '•',
+};
+
+/** One start or end tag, matched in place at `lastIndex` (sticky) rather than on a copied tail. */
+const TAG_REGEX = /<(\/?)([a-z][\da-z-]*)((?:[^"'>]|"[^"]*"|'[^']*')*)>/iy;
+const ATTRIBUTE_REGEX = /([^\s"'/=>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'<=>`]+)))?/g;
+const IMAGE_REF_REGEX = /^image:(\d+)$/;
+const SAFE_SCHEMES = new Set(['http:', 'https:', 'mailto:']);
+
+export function decodeEntities(text: string): string {
+  return text.replaceAll(/&(#\d+|#x[\da-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10_ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * A link target a text block may carry: http(s), mailto, or a same-site path or fragment.
+ * @returns The trimmed URL, or null for anything else (`javascript:`, `data:`, …)
+ */
+export function safeHref(raw: string): string | null {
+  const href = raw.trim();
+  if (!href) return null;
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:").
+  const compact = href.replaceAll(/[\s\p{Cc}]/gu, '');
+  const scheme = /^([a-z][\d+.a-z-]*):/i.exec(compact)?.[1];
+  if (scheme === undefined) return href;
+  return SAFE_SCHEMES.has(`${scheme.toLowerCase()}:`) ? href : null;
+}
+
+/** The content id in an `image:<contentId>` reference, or null. */
+export function imageRefId(src: string): number | null {
+  const match = IMAGE_REF_REGEX.exec(src.trim());
+  return match ? Number(match[1]) : null;
+}
+
+/** Resolve an image reference against the collection, or null when it points elsewhere. */
+export function resolveImageRef(
+  src: string,
+  alt: string,
+  resolveImage: RichImageResolver
+): RichInline | null {
+  const contentId = imageRefId(src);
+  if (contentId === null) return null;
+  const image = resolveImage(contentId);
+  return image ? { type: 'image', alt, ...image } : null;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_REGEX)) {
+    const name = match[1]!.toLowerCase();
+    if (!(name in attrs)) attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/** Tokenize and build a loose element tree. */
+function parseHtmlTree(html: string): HtmlNode[] {
+  const root: HtmlElement = { kind: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack.at(-1)!;
+  const pushText = (value: string) => {
+    if (value) current().children.push({ kind: 'text', value: decodeEntities(value) });
+  };
+
+  // Lower-cased once for the raw-text close-tag search. ASCII only, so every index still lines up
+  // with `html` — a full `toLowerCase()` can change the length of some non-ASCII text.
+  const lower = html.replace(/[A-Z]+/g, letters => letters.toLowerCase());
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      pushText(html.slice(pos));
+      break;
+    }
+    pushText(html.slice(pos, lt));
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG_REGEX.lastIndex = lt;
+    const tagMatch = TAG_REGEX.exec(html);
+    if (!tagMatch) {
+      pushText('<');
+      pos = lt + 1;
+      continue;
+    }
+    pos = lt + tagMatch[0].length;
+    const closing = tagMatch[1] === '/';
+    const tag = tagMatch[2]!.toLowerCase();
+
+    if (closing) {
+      const open = stack.findLastIndex(element => element.tag === tag);
+      if (open > 0) stack.length = open;
+      continue;
+    }
+
+    const element: HtmlElement = {
+      kind: 'element',
+      tag,
+      attrs: parseAttributes(tagMatch[3] ?? ''),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = lower.indexOf(`</${tag}`, pos);
+      const close = end === -1 ? -1 : html.indexOf('>', end);
+      pos = close === -1 ? html.length : close + 1;
+      continue;
+    }
+    if (!VOID_TAGS.has(tag) && !tagMatch[0].endsWith('/>')) stack.push(element);
+  }
+
+  return root.children;
+}
+
+function textContent(nodes: HtmlNode[]): string {
+  return nodes
+    .map(node => (node.kind === 'text' ? node.value : textContent(node.children)))
+    .join('');
+}
+
+function isBlockNode(node: HtmlNode): boolean {
+  return node.kind === 'element' && (BLOCK_TAGS.has(node.tag) || DROPPED_TAGS.has(node.tag));
+}
+
+/** Merge neighbouring text and trim the whitespace HTML would not render at the edges. */
+function normalizeInlines(inlines: RichInline[]): RichInline[] {
+  const merged: RichInline[] = [];
+  for (const inline of inlines) {
+    const previous = merged.at(-1);
+    if (inline.type === 'text' && previous?.type === 'text') {
+      merged[merged.length - 1] = { type: 'text', value: previous.value + inline.value };
+    } else {
+      merged.push(inline);
+    }
+  }
+  const first = merged[0];
+  if (first?.type === 'text') merged[0] = { type: 'text', value: first.value.trimStart() };
+  const last = merged.at(-1);
+  if (last?.type === 'text')
+    merged[merged.length - 1] = { type: 'text', value: last.value.trimEnd() };
+  return merged.filter(inline => inline.type !== 'text' || inline.value !== '');
+}
+
+function toInlines(nodes: HtmlNode[], resolveImage: RichImageResolver): RichInline[] {
+  const inlines: RichInline[] = [];
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      inlines.push({ type: 'text', value: node.value.replaceAll(/\s+/g, ' ') });
+      continue;
+    }
+    const { tag, attrs, children } = node;
+    if (DROPPED_TAGS.has(tag)) continue;
+
+    const wrapper = INLINE_WRAPPERS[tag];
+    if (wrapper) {
+      inlines.push({ type: wrapper, children: toInlines(children, resolveImage) });
+    } else if (CODE_TAGS.has(tag)) {
+      inlines.push({ type: 'code', value: textContent(children) });
+    } else if (tag === 'br') {
+      inlines.push({ type: 'break' });
+    } else if (tag === 'img') {
+      const image = resolveImageRef(attrs.src ?? '', attrs.alt ?? '', resolveImage);
+      if (image) inlines.push(image);
+    } else if (tag === 'a') {
+      const href = attrs.href === undefined ? null : safeHref(attrs.href);
+      const content = toInlines(children, resolveImage);
+      inlines.push(...(href ? [{ type: 'link' as const, href, children: content }] : content));
+    } else {
+      // A block inside inline content, or an inline element with nothing to keep (span, u, sup …).
+      if (BLOCK_TAGS.has(tag)) inlines.push({ type: 'text', value: ' ' });
+      inlines.push(...toInlines(children, resolveImage));
+    }
+  }
+  return inlines;
+}
+
+function toBlocks(nodes: HtmlNode[], resolveImage: RichImageResolver): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  let run: HtmlNode[] = [];
+
+  const paragraph = (children: RichInline[]) => {
+    const inlines = normalizeInlines(children);
+    if (inlines.length > 0) blocks.push({ type: 'paragraph', children: inlines });
+  };
+  const flushRun = () => {
+    paragraph(toInlines(run, resolveImage));
+    run = [];
+  };
+
+  for (const node of nodes) {
+    if (!isBlockNode(node) || node.kind === 'text') {
+      run.push(node);
+      continue;
+    }
+    flushRun();
+    const { tag, attrs, children } = node;
+    if (DROPPED_TAGS.has(tag)) continue;
+
+    if (tag === 'p') {
+      paragraph(toInlines(children, resolveImage));
+    } else if (/^h[1-6]$/.test(tag)) {
+      blocks.push({
+        type: 'heading',
+        level: Number(tag[1]) as HeadingLevel,
+        children: normalizeInlines(toInlines(children, resolveImage)),
+      });
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = children
+        .map(child =>
+          child.kind === 'element' && child.tag === 'li'
+            ? toBlocks(child.children, resolveImage)
+            : toBlocks([child], resolveImage)
+        )
+        .filter(item => item.length > 0);
+      const start = Number.parseInt(attrs.start ?? '', 10);
+      blocks.push({
+        type: 'list',
+        ordered: tag === 'ol',
+        ...(tag === 'ol' && Number.isFinite(start) && start !== 1 ? { start } : {}),
+        items,
+      });
+    } else if (tag === 'blockquote') {
+      blocks.push({ type: 'blockquote', children: toBlocks(children, resolveImage) });
+    } else if (tag === 'pre') {
+      const code = children.find(
+        (child): child is HtmlElement => child.kind === 'element' && child.tag === 'code'
+      );
+      const language = /(?:^|\s)language-([\w+-]+)/.exec(code?.attrs.class ?? '')?.[1];
+      blocks.push({
+        type: 'code',
+        ...(language ? { language } : {}),
+        value: textContent(children).replace(/^\n/, '').replace(/\n$/, ''),
+      });
+    } else if (tag === 'hr') {
+      blocks.push({ type: 'rule' });
+    } else {
+      blocks.push(...toBlocks(children, resolveImage));
+    }
+  }
+  flushRun();
+
+  return blocks;
+}
+
+/**
+ * Parse an HTML text block into rich text, keeping only what the allow-list names (see the module
+ * comment). `<img src="image:<contentId>">` resolves against the collection; any other image is
+ * dropped.
+ */
+export function sanitizeHtml(html: string, resolveImage: RichImageResolver): RichBlock[] {
+  return toBlocks(parseHtmlTree(html), resolveImage);
+}
@@ -0,0 +1,171 @@
+/**
+ * Pure helpers for the fullscreen viewer's slideshow mode (see `useSlideshow`).
+ *
+ * Side-effect-free — no DOM, no timers, randomness injected — so play order, the `?slideshow=`
+ * deep-link format and the Ken Burns motion can be unit-tested directly.
+ */
+
+import { buildTransform } from '@/app/utils/imageZoomPan';
+
+/** How one slide replaces the last: instantly, by fading in, or by fading in while drifting. */
+export type SlideshowTransition = 'cut' | 'crossfade' | 'kenburns';
+
+export interface SlideshowSettings {
+  /** Time each slide stays on screen, in ms. */
+  intervalMs: number;
+  transition: SlideshowTransition;
+  /** Play in a random order (fixed for the run) instead of collection order. */
+  shuffle: boolean;
+  /** Start over after the last slide instead of pausing on it. */
+  loop: boolean;
+}
+
+export const SLIDESHOW_TRANSITIONS: { value: SlideshowTransition; label: string }[] = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'kenburns', label: 'Ken Burns' },
+];
+
+/** Interval choices offered by the controls, in seconds. A deep link may carry any value in range. */
+export const SLIDESHOW_INTERVALS_S = [3, 5, 8, 12, 20] as const;
+
+/** Bounds for a deep-linked interval, in seconds: faster is a strobe, slower is a stalled show. */
+const MIN_INTERVAL_S = 2;
+const MAX_INTERVAL_S = 60;
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  intervalMs: 5000,
+  transition: 'crossfade',
+  shuffle: false,
+  loop: true,
+};
+
+/** How many upcoming slides are fetched ahead, so a slide is decoded before its turn. */
+export const SLIDESHOW_PRELOAD_COUNT = 3;
+
+const isTransition = (token: string): token is SlideshowTransition =>
+  SLIDESHOW_TRANSITIONS.some(t => t.value === token);
+
+/**
+ * Parse the `?slideshow=` param into settings, or null when the param is absent.
+ *
+ * The value is a comma-separated token list, any order, every token optional: an interval in whole
+ * seconds, a transition name, `shuffle`, and `once` (play through without looping) — e.g.
+ * `?slideshow=8,kenburns,shuffle`. A bare `?slideshow` or `?slideshow=1`-style value starts the
+ * defaults. Unknown tokens are ignored rather than rejected, so a link from a newer build still
+ * plays on an older one.
+ */
+export function parseSlideshowParam(value: string | null): SlideshowSettings | null {
+  if (value === null) return null;
+  const settings = { ...DEFAULT_SLIDESHOW_SETTINGS };
+  for (const raw of value.split(',')) {
+    const token = raw.trim().toLowerCase();
+    if (/^\d+$/.test(token)) {
+      const seconds = Number.parseInt(token, 10);
+      // A lone `1` is the "just play" flag, not a one-second strobe.
+      if (seconds >= MIN_INTERVAL_S) settings.intervalMs = Math.min(seconds, MAX_INTERVAL_S) * 1000;
+    } else if (isTransition(token)) {
+      settings.transition = token;
+    } else if (token === 'shuffle') {
+      settings.shuffle = true;
+    } else if (token === 'once') {
+      settings.loop = false;
+    }
+  }
+  return settings;
+}
+
+/** Inverse of {@link parseSlideshowParam}: the shortest token list that round-trips `settings`. */
+export function serializeSlideshowSettings(settings: SlideshowSettings): string {
+  const tokens = [String(Math.round(settings.intervalMs / 1000)), settings.transition];
+  if (settings.shuffle) tokens.push('shuffle');
+  if (!settings.loop) tokens.push('once');
+  return tokens.join(',');
+}
+
+/**
+ * A shuffled play order over `length` slides that starts on `startIndex`, so turning shuffle on
+ * never jumps away from the photo on screen. Fisher–Yates over the rest; `random` is injectable for
+ * deterministic tests.
+ */
+export function shuffleOrder(
+  length: number,
+  startIndex: number,
+  random: () => number = Math.random
+): number[] {
+  const rest = Array.from({ length }, (_, i) => i).filter(i => i !== startIndex);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j]!, rest[i]!];
+  }
+  return startIndex >= 0 && startIndex < length ? [startIndex, ...rest] : rest;
+}
+
+/**
+ * The slide after (`step` 1) or before (`step` -1) `currentIndex` in play order — `order` when
+ * shuffled, collection order when null. Wraps when `loop`; otherwise null past either end.
+ */
+export function stepSlide(
+  currentIndex: number,
+  length: number,
+  order: number[] | null,
+  loop: boolean,
+  step: 1 | -1
+): number | null {
+  if (length < 2) return null;
+  const sequence = order && order.length === length ? order : null;
+  const position = sequence ? sequence.indexOf(currentIndex) : currentIndex;
+  // An index missing from a stale order restarts the run rather than stalling it.
+  if (position === -1) return sequence?.[0] ?? null;
+  let next = position + step;
+  if (next < 0 || next >= length) {
+    if (!loop) return null;
+    next = (next + length) % length;
+  }
+  return sequence ? (sequence[next] ?? null) : next;
+}
+
+/** The next `count` slides after `currentIndex` in play order, for preloading. Never repeats one. */
+export function upcomingSlides(
+  currentIndex: number,
+  length: number,
+  order: number[] | null,
+  loop: boolean,
+  count: number
+): number[] {
+  const upcoming: number[] = [];
+  let index: number | null = currentIndex;
+  while (upcoming.length < count) {
+    index = stepSlide(index, length, order, loop, 1);
+    if (index === null || index === currentIndex || upcoming.includes(index)) break;
+    upcoming.push(index);
+  }
+  return upcoming;
+}
+
+/** Ken Burns motion: the end scale and how far (px) the photo drifts over one slide. */
+export const KEN_BURNS = {
+  scale: 1.12,
+  drift: 24,
+} as const;
+
+/** Drift directions, cycled per slide so consecutive photos do not all slide the same way. */
+const KEN_BURNS_DIRECTIONS: [number, number][] = [
+  [-1, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+];
+
+/**
+ * Start and end transforms for one slide's Ken Burns move, built with the zoom-pan
+ * {@link buildTransform} so the slideshow and pinch-zoom speak the same transform. Even slides push
+ * in, odd slides pull out; the drift stays inside what {@link KEN_BURNS.scale} overflows on any
+ * photo wider than 400px, so no edge of the matte shows.
+ */
+export function kenBurnsMotion(slide: number): { from: string; to: string } {
+  const [dx, dy] = KEN_BURNS_DIRECTIONS[slide % KEN_BURNS_DIRECTIONS.length]!;
+  const still = buildTransform(1, 0, 0);
+  const moved = buildTransform(KEN_BURNS.scale, dx * KEN_BURNS.drift, dy * KEN_BURNS.drift);
+  return slide % 2 === 0 ? { from: still, to: moved } : { from: moved, to: still };
+}
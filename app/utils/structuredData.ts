@@ -0,0 +1,189 @@
+/**
+ * Crawler-facing descriptions of the public site: absolute URLs, the indexability rule the
+ * sitemap and page metadata share, and the schema.org JSON-LD emitted on collection, tag and
+ * location pages (rendered by `JsonLd`).
+ *
+ * Builders are pure and take already-fetched models, so every page derives its structured data
+ * from the same payload it renders — the markup can never describe an image the page hides.
+ */
+
+import { type CollectionModel } from '@/app/types/Collection';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import { type AnyContentModel, type ContentImageModel } from '@/app/types/Content';
+import { HOME_SLUG } from '@/app/utils/collectionSlugs';
+import { humanLabel } from '@/app/utils/contentRendererUtils';
+import { isContentImage } from '@/app/utils/contentTypeGuards';
+import { formatFilmFormat } from '@/app/utils/filmFormat';
+
+export type JsonLdObject = Record<string, unknown>;
+
+export const SITE_NAME = 'Zac Edens Photography';
+
+const PHOTOGRAPHER = { '@type': 'Person', name: 'Zac Edens' } as const;
+
+/** Upper bound on photographs listed in one gallery's markup; crawlers ignore a longer tail. */
+export const MAX_GALLERY_PHOTOGRAPHS = 100;
+
+/** Public origin of the site, without a trailing slash. */
+export function siteOrigin(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/** Absolute URL for a site path (`/film` → `https://…/film`). */
+export function absoluteUrl(path: string): string {
+  return `${siteOrigin()}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/** Path a collection is served at — the home singleton lives at `/`, not `/home`. */
+export function collectionPath(slug: string): string {
+  return slug === HOME_SLUG ? '/' : `/${slug}`;
+}
+
+/**
+ * True when a collection may appear in the sitemap, carry structured data and be indexed.
+ * LISTED only, and never password-protected: a protected gallery's cover and content are
+ * private until the password is verified, and crawlers never have it.
+ */
+export function isIndexableCollection(
+  collection: Pick<CollectionModel, 'visibility' | 'isPasswordProtected'>
+): boolean {
+  return (
+    collection.visibility === CollectionVisibility.LISTED && collection.isPasswordProtected !== true
+  );
+}
+
+/** Images a page actually shows: image blocks not hidden from the public view. */
+export function publicImages(content: AnyContentModel[] | undefined): ContentImageModel[] {
+  return (content ?? []).filter(
+    (block): block is ContentImageModel => isContentImage(block) && block.visible !== false
+  );
+}
+
+function propertyValue(name: string, value: string | number | null | undefined) {
+  if (value === undefined || value === null || value === '') return null;
+  return { '@type': 'PropertyValue', name, value };
+}
+
+function exifData(image: ContentImageModel): JsonLdObject[] {
+  return [
+    propertyValue('Camera', image.camera?.name),
+    propertyValue('Lens', image.lens?.name),
+    propertyValue('Focal length', image.focalLength),
+    propertyValue('F-number', image.fStop),
+    propertyValue('Exposure time', image.shutterSpeed),
+    propertyValue('ISO', image.iso),
+    propertyValue('Film', image.filmType),
+    propertyValue('Film format', image.filmFormat ? formatFilmFormat(image.filmFormat) : null),
+  ].filter(entry => entry !== null);
+}
+
+/**
+ * A `Photograph` for one image, addressed by its fullscreen deep link on `pagePath`
+ * (`/{slug}?image={id}`). Camera settings travel as `exifData` on the embedded `ImageObject`.
+ */
+export function photographJsonLd(image: ContentImageModel, pagePath: string): JsonLdObject {
+  const url = `${absoluteUrl(pagePath)}?image=${image.id}`;
+  const name = humanLabel(image.title, image.alt, image.caption);
+  const exif = exifData(image);
+  const [location] = image.locations ?? [];
+  const keywords = (image.tags ?? []).map(tag => tag.name).join(', ');
+
+  return {
+    '@type': 'Photograph',
+    '@id': url,
+    url,
+    ...(name ? { name } : {}),
+    ...(image.caption ? { caption: image.caption } : {}),
+    ...(image.captureDate ? { dateCreated: image.captureDate } : {}),
+    creator: image.author ? { '@type': 'Person', name: image.author } : PHOTOGRAPHER,
+    ...(keywords ? { keywords } : {}),
+    ...(location ? { contentLocation: { '@type': 'Place', name: location.name } } : {}),
+    image: {
+      '@type': 'ImageObject',
+      contentUrl: image.imageUrl,
+      ...(image.imageWidth ? { width: image.imageWidth } : {}),
+      ...(image.imageHeight ? { height: image.imageHeight } : {}),
+      ...(exif.length > 0 ? { exifData: exif } : {}),
+    },
+  };
+}
+
+interface ImageGalleryInput {
+  name: string;
+  path: string;
+  description?: string | null;
+  images: ContentImageModel[];
+}
+
+/** An `ImageGallery` page whose parts are the photographs it shows, in page order. */
+export function imageGalleryJsonLd({
+  name,
+  path,
+  description,
+  images,
+}: ImageGalleryInput): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ImageGallery',
+    name,
+    url: absoluteUrl(path),
+    ...(description ? { description } : {}),
+    author: PHOTOGRAPHER,
+    hasPart: images.slice(0, MAX_GALLERY_PHOTOGRAPHS).map(image => photographJsonLd(image, path)),
+  };
+}
+
+/** A `BreadcrumbList` from the home page down to the current page. */
+export function breadcrumbJsonLd(trail: { name: string; path: string }[]): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: [{ name: 'Home', path: '/' }, ...trail].map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      item: absoluteUrl(crumb.path),
+    })),
+  };
+}
+
+/**
+ * Structured data for a collection page: the gallery and its breadcrumb, plus — when the page
+ * was opened on a fullscreen deep link — that photograph as a standalone entity. An `imageId`
+ * that does not name a public image on the page is ignored rather than described.
+ */
+export function collectionJsonLd(
+  collection: Pick<CollectionModel, 'title' | 'slug' | 'description' | 'content' | 'parents'>,
+  imageId?: number
+): JsonLdObject[] {
+  const path = collectionPath(collection.slug);
+  const images = publicImages(collection.content);
+  const [parent] = collection.parents ?? [];
+  const trail =
+    collection.slug === HOME_SLUG
+      ? []
+      : [
+          ...(parent?.slug ? [{ name: parent.name, path: collectionPath(parent.slug) }] : []),
+          { name: collection.title, path },
+        ];
+  const focused = imageId === undefined ? undefined : images.find(image => image.id === imageId);
+
+  return [
+    imageGalleryJsonLd({
+      name: collection.title,
+      path,
+      description: collection.description,
+      images,
+    }),
+    breadcrumbJsonLd(trail),
+    ...(focused ? [{ '@context': 'https://schema.org', ...photographJsonLd(focused, path) }] : []),
+  ];
+}
+
+/**
+ * Serializes JSON-LD for an inline `<script>`. `<` is escaped so a caption containing
+ * `</script>` cannot close the element early; JSON parsers read `\u003c` back as `<`.
+ */
+export function serializeJsonLd(data: JsonLdObject | JsonLdObject[]): string {
+  return JSON.stringify(data).replaceAll('<', String.raw`\u003c`);
+}
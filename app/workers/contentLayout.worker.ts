@@ -0,0 +1,25 @@
+/**
+ * The layout worker: runs {@link runLayoutJob} off the main thread so re-packing a large collection
+ * never blocks input. Started by `app/utils/layoutWorkerClient.ts`; the protocol and the queue
+ * live in `app/utils/layoutJob.ts`.
+ */
+
+import {
+  createLayoutWorkerHandler,
+  type LayoutWorkerRequest,
+  type LayoutWorkerResponse,
+} from '@/app/utils/layoutJob';
+
+/** The slice of `DedicatedWorkerGlobalScope` this file uses; the project compiles against DOM. */
+interface LayoutWorkerScope {
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent<LayoutWorkerRequest>) => void
+  ): void;
+  postMessage(message: LayoutWorkerResponse): void;
+}
+
+const scope = self as unknown as LayoutWorkerScope;
+const handle = createLayoutWorkerHandler(response => scope.postMessage(response));
+
+scope.addEventListener('message', event => handle(event.data));
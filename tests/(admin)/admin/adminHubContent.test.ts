@@ -20,8 +20,8 @@ function makeTile(tileKey: string, overrides: Partial<AdminHomeTileApi> = {}): A
   };
 }
 
-/** Users, Messages, Roles — the panels the hub puts ahead of the nav tiles. */
-const PANEL_COUNT = 3;
+/** Users, Messages, Roles, Activity — the panels the hub puts ahead of the nav tiles. */
+const PANEL_COUNT = 4;
 
 describe('buildAdminHubContent', () => {
   const apiTiles: AdminHomeTileApi[] = ADMIN_TILES.map(c => makeTile(c.tileKey));
@@ -105,7 +105,7 @@ describe('buildAdminHubContent', () => {
 
   it('carries every panel type, in order, all rated 5', () => {
     const panels = result.slice(0, PANEL_COUNT) as ContentPanelModel[];
-    expect(panels.map(p => p.panelType)).toEqual(['users', 'messages', 'roles']);
+    expect(panels.map(p => p.panelType)).toEqual(['users', 'messages', 'roles', 'activity']);
     for (const panel of panels) {
       expect(panel.rating).toBe(5);
     }
@@ -147,14 +147,14 @@ describe('buildAdminHubContent', () => {
 
 describe('withPanelFootprints', () => {
   const content = buildAdminHubContent([]);
-  const NONE = { users: false, messages: false, roles: false } as const;
+  const NONE = { users: false, messages: false, roles: false, activity: false } as const;
 
   it('returns the content unchanged when nothing is collapsed', () => {
     expect(withPanelFootprints(content, NONE)).toEqual(content);
   });
 
   it('gives a collapsed panel the bar footprint and leaves its siblings alone', () => {
-    const [users, messages, roles] = withPanelFootprints(content, {
+    const [users, messages, roles, activity] = withPanelFootprints(content, {
       ...NONE,
       users: true,
     }) as ContentPanelModel[];
@@ -168,6 +168,7 @@ describe('withPanelFootprints', () => {
     expect(users?.maxHeight).toBe(COLLAPSED_PANEL_SIZE.maxHeight);
     expect(messages?.height).toBe(1100);
     expect(roles?.height).toBe(1100);
+    expect(activity?.height).toBe(1100);
   });
 
   it('collapses every panel type, not just the first', () => {
@@ -175,6 +176,7 @@ describe('withPanelFootprints', () => {
       users: true,
       messages: true,
       roles: true,
+      activity: true,
     }).slice(0, PANEL_COUNT) as ContentPanelModel[];
 
     for (const panel of panels) {
@@ -187,6 +189,7 @@ describe('withPanelFootprints', () => {
       users: true,
       messages: true,
       roles: true,
+      activity: true,
     });
     expect(collapsed.slice(PANEL_COUNT)).toEqual(content.slice(PANEL_COUNT));
   });
@@ -217,13 +220,18 @@ describe('withPanelFootprints', () => {
    * 2026-08-10 and was reverted the same day (oscillating re-pack → remount → refetch storm).
    */
   it('hands an expanded panel back exactly as declared, pin included', () => {
-    const [users, messages, roles] = withPanelFootprints(content, NONE) as ContentPanelModel[];
-    const [declaredUsers, declaredMessages, declaredRoles] = content as ContentPanelModel[];
+    const [users, messages, roles, activity] = withPanelFootprints(
+      content,
+      NONE
+    ) as ContentPanelModel[];
+    const [declaredUsers, declaredMessages, declaredRoles, declaredActivity] =
+      content as ContentPanelModel[];
 
     for (const [panel, declared] of [
       [users, declaredUsers],
       [messages, declaredMessages],
       [roles, declaredRoles],
+      [activity, declaredActivity],
     ] as const) {
       expect(panel?.width).toBe(600);
       expect(panel?.height).toBe(1100);
@@ -268,4 +276,20 @@ describe('withPanelFootprints', () => {
     expect(emptyUsers?.minHeight).toBe(192);
     expect(hugeUsers?.minHeight).toBe(1000);
   });
+
+  /**
+   * Activity reserves its filter toolbar on top of its chrome and rows: the toolbar renders inside
+   * the body like a row does, so a model that left it out would clip the last row off the panel.
+   * One `button` slot plus a row's padding and separator — 40px. The rows are a fixed four, not a
+   * count: the list is filtered and paged after the pack, and must never re-pack the hub.
+   */
+  it('reserves activity a fixed footprint, filter toolbar included', () => {
+    const lean = buildAdminHubContent([], { users: 0, messages: 0, roles: 0 })[3];
+    const full = buildAdminHubContent([], { users: 12, messages: 9, roles: 9 })[3];
+
+    // 86 of button-header chrome, the toolbar, then four 58.5px rows.
+    expect((lean as ContentPanelModel).minHeight).toBe(86 + 40 + 4 * 58.5);
+    expect((lean as ContentPanelModel).maxHeight).toBe(86 + 40 + 4 * 58.5);
+    expect(full).toEqual(lean);
+  });
 });
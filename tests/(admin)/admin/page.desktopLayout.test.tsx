@@ -5,11 +5,11 @@ import { LAYOUT } from '@/app/constants';
 import type { AdminHomeTileApi } from '@/app/lib/api/adminHome';
 
 /**
- * The hub's three panels are rating-5 leaves competing for one row against the nav tiles, and the
+ * The hub's four panels are rating-5 leaves competing for one row against the nav tiles, and the
  * packer re-solves that row whenever a panel is added or its rating changes. Nothing pinned the
- * desktop composition before the roles panel arrived, so a future fourth panel — or a rating tweak
- * — could quietly squeeze the panels to a width no list is readable at, and the first sign of it
- * would be in the browser.
+ * desktop composition before the roles panel arrived, so another panel — like the activity panel
+ * since — or a rating tweak could quietly squeeze the panels to a width no list is readable at,
+ * and the first sign of it would be in the browser.
  */
 const DESKTOP_VIEWPORT = { contentWidth: 1274, viewportHeight: 900, isMobile: false };
 
@@ -43,13 +43,26 @@ const coverCases: [string, AdminHomeTileApi[]][] = [
   ['portrait covers', tilesWithCovers(1600, 2400)],
 ];
 
+const panelTypes = (row: ReturnType<typeof layout>[number] | undefined) =>
+  (row?.items ?? []).flatMap(item =>
+    item.content.contentType === 'PANEL' ? [item.content.panelType] : []
+  );
+
 describe('admin hub desktop layout', () => {
-  it.each(coverCases)('keeps all three panels in the first row — %s', (_label, tiles) => {
-    const [firstRow] = layout(tiles);
-    const panels = (firstRow?.items ?? []).filter(item => item.content.contentType === 'PANEL');
+  /**
+   * On the zero-count fallback the three count-sized panels sit on their 192px floor, while
+   * Activity keeps its fixed footprint (see `adminHubContent`) — nearly twice as tall, so it opens
+   * the next row rather than stretching the first.
+   */
+  it.each(coverCases)(
+    'keeps the count-sized panels in the first row, Activity opening the next — %s',
+    (_label, tiles) => {
+      const [firstRow, secondRow] = layout(tiles);
 
-    expect(panels).toHaveLength(3);
-  });
+      expect(panelTypes(firstRow)).toEqual(['users', 'messages', 'roles']);
+      expect(panelTypes(secondRow)).toEqual(['activity']);
+    }
+  );
 
   it.each(coverCases)('leaves every panel wide enough to read — %s', (_label, tiles) => {
     for (const row of layout(tiles)) {
@@ -69,7 +69,7 @@ describe('admin hub mobile layout', () => {
       row.items.some(item => item.content.contentType === 'PANEL')
     );
 
-    expect(panelRows).toHaveLength(3);
+    expect(panelRows).toHaveLength(4);
     for (const row of panelRows) {
       expect(row.items).toHaveLength(1);
       expect(Math.round(row.items[0]!.width)).toBe(MOBILE_VIEWPORT.contentWidth);
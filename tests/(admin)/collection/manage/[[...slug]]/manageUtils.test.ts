@@ -4,6 +4,11 @@
  */
 
 // Mock the collections API module
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('@/app/lib/api/collections');
 
 import {
@@ -27,6 +32,7 @@ import {
   updateBlockOrderIndex,
   validateCoverImageSelection,
 } from '@/app/components/ContentCollection/edit/collectionEditUtils';
+import { revalidateCacheAction } from '@/app/lib/actions/revalidateCache';
 import * as collectionsApi from '@/app/lib/api/collections';
 import {
   type CollectionListModel,
@@ -1035,67 +1041,38 @@ describe('handleApiError', () => {
 });
 
 describe('revalidateCollectionCache', () => {
-  beforeEach(() => {
-    global.fetch = jest.fn();
-  });
+  const mockRevalidate = jest.mocked(revalidateCacheAction);
 
-  afterEach(() => {
-    jest.restoreAllMocks();
+  beforeEach(() => {
+    mockRevalidate.mockReset();
   });
 
-  it('should call /api/revalidate with correct tag and path, plus collections-index', async () => {
-    const slug = 'test-collection';
-    (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
-
-    await revalidateCollectionCache(slug);
+  it('should revalidate the collection tag and path, plus collections-index and home', async () => {
+    mockRevalidate.mockResolvedValue({ ok: true });
 
-    // Should revalidate the specific collection
-    expect(global.fetch).toHaveBeenCalledWith('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tag: 'collection-test-collection',
-        path: '/test-collection',
-      }),
-    });
-
-    // Should also revalidate the collections index (home page)
-    expect(global.fetch).toHaveBeenCalledWith('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tag: 'collections-index',
-      }),
-    });
+    await revalidateCollectionCache('test-collection');
 
-    // Should also revalidate the home collection
-    expect(global.fetch).toHaveBeenCalledWith('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tag: 'collection-home',
-      }),
+    expect(mockRevalidate).toHaveBeenCalledTimes(1);
+    expect(mockRevalidate).toHaveBeenCalledWith({
+      tags: ['collection-test-collection', 'collections-index', 'collection-home'],
+      paths: ['/test-collection'],
     });
-
-    expect(global.fetch).toHaveBeenCalledTimes(3);
   });
 
   it('should resolve successfully when revalidation succeeds', async () => {
-    const slug = 'test-collection';
-    (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
+    mockRevalidate.mockResolvedValue({ ok: true });
 
-    await expect(revalidateCollectionCache(slug)).resolves.toBeUndefined();
+    await expect(revalidateCollectionCache('test-collection')).resolves.toBeUndefined();
   });
 
   it('should fail silently when revalidation fails', async () => {
-    const slug = 'test-collection';
     // Mock isLocalEnvironment to return true so logger.warn is called
     const originalEnv = process.env.NEXT_PUBLIC_ENV;
     process.env.NEXT_PUBLIC_ENV = 'local';
     const warnSpy = jest.spyOn(logger, 'warn').mockImplementation(() => {});
-    (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+    mockRevalidate.mockRejectedValue(new Error('Network error'));
 
-    await expect(revalidateCollectionCache(slug)).resolves.toBeUndefined();
+    await expect(revalidateCollectionCache('test-collection')).resolves.toBeUndefined();
     expect(warnSpy).toHaveBeenCalled();
 
     warnSpy.mockRestore();
@@ -1106,48 +1083,21 @@ describe('revalidateCollectionCache', () => {
     }
   });
 
-  it('should fail silently when API returns error status', async () => {
-    const slug = 'test-collection';
-    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
-    (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500 });
-
-    await expect(revalidateCollectionCache(slug)).resolves.toBeUndefined();
+  it('should fail silently when the action refuses', async () => {
+    mockRevalidate.mockResolvedValue({ ok: false, error: 'Unauthorized' });
 
-    consoleWarnSpy.mockRestore();
+    await expect(revalidateCollectionCache('test-collection')).resolves.toBeUndefined();
   });
 
   it('should work with empty string slug', async () => {
-    const slug = '';
-    (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
-
-    await revalidateCollectionCache(slug);
+    mockRevalidate.mockResolvedValue({ ok: true });
 
-    expect(global.fetch).toHaveBeenCalledWith('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tag: 'collection-',
-        path: '/',
-      }),
-    });
+    await revalidateCollectionCache('');
 
-    expect(global.fetch).toHaveBeenCalledWith('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tag: 'collections-index',
-      }),
+    expect(mockRevalidate).toHaveBeenCalledWith({
+      tags: ['collection-', 'collections-index', 'collection-home'],
+      paths: ['/'],
     });
-
-    expect(global.fetch).toHaveBeenCalledWith('/api/revalidate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tag: 'collection-home',
-      }),
-    });
-
-    expect(global.fetch).toHaveBeenCalledTimes(3);
   });
 });
 
@@ -1325,17 +1275,16 @@ describe('mergeNewMetadata', () => {
  * Returns: Promise<void>
  *
  * Passing test cases:
- * - Calls /api/revalidate with correct tag and path
- * - Request body contains correct tag format: `collection-${slug}`
- * - Request body contains correct path format: `/${slug}`
+ * - Calls revalidateCacheAction with correct tags and path
+ * - Tags include `collection-${slug}`, collections-index and collection-home
+ * - Path format: `/${slug}`
  * - Resolves successfully when revalidation succeeds
  * - Fails silently when revalidation fails (catches error, logs warning)
  *
  * Failing test cases:
  * - Slug is empty string -> still makes request (no validation)
- * - Network error -> fails silently, logs warning
- * - API returns error status -> fails silently, logs warning
- * - fetch is not available (SSR) -> fails silently
+ * - Action throws -> fails silently, logs warning
+ * - Action refuses (not an admin) -> fails silently
  */
 
 /**
@@ -1635,9 +1584,13 @@ describe('executeReorderOperation', () => {
     jest.mocked(collectionsApi.reorderCollectionContent).mockResolvedValue(mockCollection);
     (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
 
+    jest.mocked(revalidateCacheAction).mockResolvedValue({ ok: true });
+
     await executeReorderOperation(collectionId, mockReorders, slug);
 
-    expect(global.fetch).toHaveBeenCalledWith('/api/revalidate', expect.any(Object));
+    expect(revalidateCacheAction).toHaveBeenCalledWith(
+      expect.objectContaining({ paths: [`/${slug}`] })
+    );
   });
 });
 
@@ -11,7 +11,7 @@
 
 import { NextRequest } from 'next/server';
 
-import { GET, POST } from '@/app/api/proxy/[...path]/route';
+import { GET, POST, PUT } from '@/app/api/proxy/[...path]/route';
 
 describe('Vercel BFF proxy /api/proxy/[...path] — Set-Cookie forwarding', () => {
   const ORIGINAL_ENV = process.env;
@@ -159,6 +159,25 @@ describe('Vercel BFF proxy /api/proxy/[...path] — payload size limits', () =>
     expect(res.status).toBe(413);
   });
 
+  it('allows an upload chunk up to 8 MB, and only on the chunk route', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+    const chunk = (path: string[], bytes: number) =>
+      PUT(
+        new NextRequest(`http://localhost:3000/api/proxy/${path.join('/')}`, {
+          method: 'PUT',
+          body: new Uint8Array(bytes),
+          headers: { 'content-type': 'application/octet-stream', origin: 'http://localhost:3000' },
+        }),
+        { params: Promise.resolve({ path }) } as never
+      );
+    const chunkPath = ['api', 'admin', 'content', 'uploads', 'u1', 'chunks', '0'];
+
+    expect((await chunk(chunkPath, 5 * 1024 * 1024)).status).toBe(204);
+    expect((await chunk(chunkPath, 8 * 1024 * 1024 + 1)).status).toBe(413);
+    // Raw bytes anywhere else get the JSON cap.
+    expect((await chunk(['api', 'admin', 'content', 'images', '1'], 1024 * 1024)).status).toBe(413);
+  });
+
   it('enforces cap against actual buffered body size when Content-Length is missing', async () => {
     // Construct a request where the underlying body is large but the
     // Content-Length header is absent — the proxy must still reject it.
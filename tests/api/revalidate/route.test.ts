@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ *
+ * The backend's revalidation webhook: only signed, fresh, first-time deliveries of a known event
+ * reach the Next cache.
+ */
+
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { POST } from '@/app/api/revalidate/route';
+import { resetWebhookState, signPayload } from '@/app/lib/revalidation/webhook';
+import { logger } from '@/app/utils/logger';
+
+jest.mock('next/cache', () => ({ revalidateTag: jest.fn(), revalidatePath: jest.fn() }));
+jest.mock('@/app/utils/logger', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+const SECRET = 'webhook-secret';
+
+function deliver(
+  event: unknown,
+  { secret = SECRET, timestamp = Math.floor(Date.now() / 1000), signed = true } = {}
+) {
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  if (signed) {
+    headers['x-ezac-timestamp'] = String(timestamp);
+    headers['x-ezac-signature'] = signPayload(secret, timestamp, body);
+  }
+  return POST(
+    new NextRequest('http://localhost:3000/api/revalidate', { method: 'POST', headers, body })
+  );
+}
+
+const updated = { id: 'evt-1', type: 'collection.updated', data: { slug: 'iceland' } };
+
+describe('POST /api/revalidate', () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV, REVALIDATE_WEBHOOK_SECRET: SECRET };
+    resetWebhookState();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it('revalidates the tags and paths a signed event maps to', async () => {
+    const response = await deliver(updated);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      revalidated: true,
+      event: 'evt-1',
+      tags: ['collection-iceland', 'collections-index', 'collection-home'],
+      paths: ['/iceland'],
+    });
+    expect(revalidateTag).toHaveBeenCalledWith('collection-iceland', 'max');
+    expect(revalidatePath).toHaveBeenCalledWith('/iceland');
+    expect(logger.debug).toHaveBeenCalledWith(
+      'revalidateWebhook',
+      expect.any(String),
+      expect.objectContaining({ outcome: 'accepted', eventId: 'evt-1' })
+    );
+  });
+
+  it.each([
+    ['unsigned', { signed: false }, 401, 'missing-signature'],
+    ['signed with another secret', { secret: 'guess' }, 401, 'bad-signature'],
+    [
+      'signed too long ago',
+      { timestamp: Math.floor(Date.now() / 1000) - 3600 },
+      401,
+      'stale-timestamp',
+    ],
+  ])('rejects a delivery %s', async (_label, options, status, reason) => {
+    const response = await deliver(updated, options);
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toEqual({ error: reason });
+    expect(revalidateTag).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      'revalidateWebhook',
+      expect.any(String),
+      expect.objectContaining({ outcome: 'rejected', reason })
+    );
+  });
+
+  it('rejects a replay of an event it already handled', async () => {
+    await deliver(updated);
+    const replay = await deliver(updated);
+
+    expect(replay.status).toBe(409);
+    expect(revalidateTag).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects a signed body that is not a known event', async () => {
+    const response = await deliver({ id: 'evt-2', type: 'collection.deleted', data: {} });
+    expect(response.status).toBe(400);
+  });
+
+  it('accepts a retry after revalidation failed', async () => {
+    jest.mocked(revalidateTag).mockImplementationOnce(() => {
+      throw new Error('cache unavailable');
+    });
+
+    expect((await deliver(updated)).status).toBe(500);
+    expect((await deliver(updated)).status).toBe(200);
+  });
+
+  it('refuses everything while no secret is configured', async () => {
+    delete process.env.REVALIDATE_WEBHOOK_SECRET;
+    expect((await deliver(updated)).status).toBe(503);
+  });
+});
@@ -0,0 +1,86 @@
+/** @jest-environment node */
+/**
+ * Route tests for app/login/mfa/page.tsx — who gets the second-factor challenge:
+ *  - anonymous                         → redirect('/login')
+ *  - already verified                  → redirect('/user')
+ *  - non-admin, or outside production  → redirect('/user')
+ *  - production admin owing its factor → the challenge renders
+ */
+
+import { redirect } from 'next/navigation';
+
+jest.mock('next/navigation', () => ({
+  redirect: jest.fn((url: string) => {
+    throw new Error(`NEXT_REDIRECT:${url}`);
+  }),
+}));
+
+jest.mock('@/app/lib/api/auth', () => ({
+  meServer: jest.fn(),
+}));
+
+// MfaChallenge is a client component — stub it for the server-env test.
+jest.mock('@/app/login/mfa/MfaChallenge', () => ({
+  __esModule: true,
+  default: () => 'MfaChallenge',
+}));
+
+import { renderToStaticMarkup } from 'react-dom/server';
+
+import { meServer } from '@/app/lib/api/auth';
+import MfaPage from '@/app/login/mfa/page';
+
+const principal = (mfaSatisfied: boolean, isAdmin = true) => ({
+  email: 'admin@example.com',
+  isAdmin,
+  mfaSatisfied,
+  galleries: [],
+});
+
+describe('MfaPage', () => {
+  const originalEnv = process.env.NEXT_PUBLIC_ENV;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXT_PUBLIC_ENV = 'production';
+  });
+
+  afterEach(() => {
+    process.env.NEXT_PUBLIC_ENV = originalEnv;
+  });
+
+  it('sends an anonymous visitor to sign in', async () => {
+    (meServer as jest.Mock).mockResolvedValue(null);
+
+    await expect(MfaPage()).rejects.toThrow('NEXT_REDIRECT:/login');
+  });
+
+  it('sends a session that has already passed its second factor on to /user', async () => {
+    (meServer as jest.Mock).mockResolvedValue(principal(true));
+
+    await expect(MfaPage()).rejects.toThrow('NEXT_REDIRECT:/user');
+  });
+
+  it('sends a non-admin on to /user — only admins are challenged', async () => {
+    (meServer as jest.Mock).mockResolvedValue(principal(false, false));
+
+    await expect(MfaPage()).rejects.toThrow('NEXT_REDIRECT:/user');
+  });
+
+  it('sends an unverified admin on to /user outside production', async () => {
+    process.env.NEXT_PUBLIC_ENV = 'staging';
+    (meServer as jest.Mock).mockResolvedValue(principal(false));
+
+    await expect(MfaPage()).rejects.toThrow('NEXT_REDIRECT:/user');
+  });
+
+  it('renders the challenge for a session that still owes its second factor', async () => {
+    (meServer as jest.Mock).mockResolvedValue(principal(false));
+
+    const html = renderToStaticMarkup(await MfaPage());
+
+    expect(redirect).not.toHaveBeenCalled();
+    expect(html).toContain('Two-step verification');
+    expect(html).toContain('MfaChallenge');
+  });
+});
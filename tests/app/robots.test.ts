@@ -0,0 +1,21 @@
+import robots from '@/app/robots';
+
+describe('robots', () => {
+  const ORIGINAL_APP_URL = process.env.NEXT_PUBLIC_APP_URL;
+
+  afterAll(() => {
+    process.env.NEXT_PUBLIC_APP_URL = ORIGINAL_APP_URL;
+  });
+
+  it('points crawlers at the sitemap and keeps them out of private surfaces', () => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://photos.test';
+
+    const { rules, sitemap } = robots();
+
+    expect(sitemap).toBe('https://photos.test/sitemap.xml');
+    expect(rules).toMatchObject({ userAgent: '*', allow: '/' });
+    expect(Array.isArray(rules) ? [] : rules.disallow).toEqual(
+      expect.arrayContaining(['/admin', '/login', '/s/', '/api/', '/*?manage='])
+    );
+  });
+});
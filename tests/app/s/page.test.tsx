@@ -0,0 +1,88 @@
+/** @jest-environment node */
+/**
+ * Route tests for app/s/[token]/page.tsx.
+ *
+ * Verifies the branch on the state of the link being opened:
+ *  - unknown or revoked (404)        → notFound()
+ *  - expired / view limit reached    → ShareClosed with that reason, space never loaded
+ *  - open                            → the shared space, loaded from the view already read
+ */
+
+import { notFound } from 'next/navigation';
+import { type ReactElement } from 'react';
+
+jest.mock('next/navigation', () => ({
+  notFound: jest.fn(() => {
+    throw new Error('NEXT_NOT_FOUND');
+  }),
+}));
+
+jest.mock('@/app/lib/api/share', () => ({
+  getShareView: jest.fn(),
+}));
+
+jest.mock('@/app/components/UserSpace/userSpaceData', () => ({
+  loadUserSpace: jest.fn(),
+  resolveTabKey: () => 'collections',
+}));
+
+jest.mock('@/app/utils/ssrViewport', () => ({
+  resolveSsrViewport: jest.fn(async () => null),
+}));
+
+// Client and layout components are irrelevant to the branch — stub them for the server-env test.
+jest.mock('@/app/components/ui/PageShell/PageShell', () => ({ PageShell: () => null }));
+jest.mock('@/app/components/UserSpace/UserSpace', () => ({ UserSpace: () => null }));
+jest.mock('@/app/s/[token]/ShareSession', () => ({ ShareSession: () => null }));
+
+import { loadUserSpace } from '@/app/components/UserSpace/userSpaceData';
+import { getShareView } from '@/app/lib/api/share';
+import SharePage from '@/app/s/[token]/page';
+import { ShareClosed } from '@/app/s/[token]/ShareClosed';
+import { type CollectionModel } from '@/app/types/Collection';
+
+const page = { slug: 'user', title: 'Ada', content: [] } as unknown as CollectionModel;
+
+const open = (token: string) =>
+  SharePage({ params: Promise.resolve({ token }), searchParams: Promise.resolve({}) });
+
+describe('SharePage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('calls notFound() for an unknown or revoked link', async () => {
+    (getShareView as jest.Mock).mockResolvedValue({ status: 'invalid' });
+
+    await expect(open('gone')).rejects.toThrow('NEXT_NOT_FOUND');
+    expect(loadUserSpace).not.toHaveBeenCalled();
+  });
+
+  it.each(['expired', 'exhausted'] as const)(
+    'renders the %s state instead of a 404',
+    async reason => {
+      (getShareView as jest.Mock).mockResolvedValue({ status: reason });
+
+      const element = (await open('closed')) as ReactElement<{ children: ReactElement }>;
+
+      expect(notFound).not.toHaveBeenCalled();
+      expect(element.props.children.type).toBe(ShareClosed);
+      expect(element.props.children.props).toEqual({ reason });
+      // A closed link grants no look at the owner's space.
+      expect(loadUserSpace).not.toHaveBeenCalled();
+    }
+  );
+
+  it('loads the space from the view it already read', async () => {
+    const view = { ownerName: 'Ada', page };
+    (getShareView as jest.Mock).mockResolvedValue({ status: 'ok', view });
+    (loadUserSpace as jest.Mock).mockResolvedValue({
+      collection: page,
+      visibleKeys: ['collections', 'images'],
+      ownerName: 'Ada',
+    });
+
+    await expect(open('tok-123')).resolves.toBeTruthy();
+    expect(loadUserSpace).toHaveBeenCalledWith({ mode: 'share', view }, 'collections');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for app/sitemap.ts — which collections reach the sitemap. The indexability rule is the
+ * one the page metadata uses (LISTED and not password-protected), so a collection the sitemap
+ * omits is also marked noindex on its page.
+ */
+
+import { getCollectionsPage } from '@/app/lib/api/collections';
+import { getAllLocations, getAllTags } from '@/app/lib/api/content';
+import sitemap from '@/app/sitemap';
+import { type CollectionModel } from '@/app/types/Collection';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import { logger } from '@/app/utils/logger';
+import { createImageContent } from '@/tests/fixtures/contentFixtures';
+
+jest.mock('@/app/lib/api/collections', () => ({
+  getCollectionsPage: jest.fn(),
+}));
+jest.mock('@/app/lib/api/content', () => ({
+  getAllTags: jest.fn(),
+  getAllLocations: jest.fn(),
+}));
+
+const mockGetCollectionsPage = getCollectionsPage as jest.MockedFunction<typeof getCollectionsPage>;
+const mockGetAllTags = getAllTags as jest.MockedFunction<typeof getAllTags>;
+const mockGetAllLocations = getAllLocations as jest.MockedFunction<typeof getAllLocations>;
+
+const ORIGINAL_APP_URL = process.env.NEXT_PUBLIC_APP_URL;
+
+function makeCollection(slug: string, overrides: Partial<CollectionModel> = {}): CollectionModel {
+  return {
+    id: slug.length,
+    slug,
+    title: slug,
+    isClient: false,
+    isBlog: false,
+    locations: [],
+    visibility: CollectionVisibility.LISTED,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-02-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('sitemap', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXT_PUBLIC_APP_URL = 'https://photos.test';
+    mockGetCollectionsPage.mockResolvedValue([]);
+    mockGetAllTags.mockResolvedValue([]);
+    mockGetAllLocations.mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    process.env.NEXT_PUBLIC_APP_URL = ORIGINAL_APP_URL;
+  });
+
+  it('lists LISTED, unprotected collections with their cover and last edit', async () => {
+    mockGetCollectionsPage.mockResolvedValue([
+      makeCollection('film', {
+        coverImage: createImageContent(1, { imageUrl: 'https://cdn.test/cover.webp' }),
+      }),
+      makeCollection('drafts', { visibility: CollectionVisibility.UNLISTED }),
+      makeCollection('archive', { visibility: CollectionVisibility.HIDDEN }),
+      makeCollection('smith-wedding', { isPasswordProtected: true }),
+    ]);
+
+    const entries = await sitemap();
+
+    expect(entries).toContainEqual({
+      url: 'https://photos.test/film',
+      lastModified: '2026-02-01T00:00:00Z',
+      images: ['https://cdn.test/cover.webp'],
+    });
+    const urls = entries.map(entry => entry.url);
+    expect(urls).not.toContain('https://photos.test/drafts');
+    expect(urls).not.toContain('https://photos.test/archive');
+    expect(urls).not.toContain('https://photos.test/smith-wedding');
+  });
+
+  it('lists home once at the root and skips slugs a static route shadows', async () => {
+    mockGetCollectionsPage.mockResolvedValue([makeCollection('home'), makeCollection('search')]);
+
+    const urls = (await sitemap()).map(entry => entry.url);
+
+    expect(urls.filter(url => url === 'https://photos.test/')).toHaveLength(1);
+    expect(urls).not.toContain('https://photos.test/home');
+    expect(urls.filter(url => url === 'https://photos.test/search')).toHaveLength(1);
+  });
+
+  it('walks every page of collections', async () => {
+    const fullPage = Array.from({ length: 100 }, (_, index) => makeCollection(`c-${index}`));
+    mockGetCollectionsPage
+      .mockResolvedValueOnce(fullPage)
+      .mockResolvedValueOnce([makeCollection('last')]);
+
+    const urls = (await sitemap()).map(entry => entry.url);
+
+    expect(mockGetCollectionsPage).toHaveBeenCalledTimes(2);
+    expect(mockGetCollectionsPage).toHaveBeenLastCalledWith(1, 100);
+    expect(urls).toContain('https://photos.test/last');
+  });
+
+  it('lists tag and location pages', async () => {
+    mockGetAllTags.mockResolvedValue([{ id: 1, name: 'Black & White', slug: 'black-white' }]);
+    mockGetAllLocations.mockResolvedValue([{ id: 2, name: 'Death Valley', slug: 'death-valley' }]);
+
+    const urls = (await sitemap()).map(entry => entry.url);
+
+    expect(urls).toEqual(
+      expect.arrayContaining([
+        'https://photos.test/tag/black-white',
+        'https://photos.test/location/death-valley',
+      ])
+    );
+  });
+
+  it('drops a section whose read fails instead of failing the sitemap', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => {});
+    mockGetAllTags.mockRejectedValue(new Error('backend down'));
+    mockGetAllLocations.mockResolvedValue([{ id: 2, name: 'Death Valley', slug: 'death-valley' }]);
+
+    const urls = (await sitemap()).map(entry => entry.url);
+
+    expect(urls).toContain('https://photos.test/location/death-valley');
+    expect(warn).toHaveBeenCalledWith(
+      'sitemap',
+      expect.stringContaining('tags'),
+      expect.anything()
+    );
+    warn.mockRestore();
+  });
+
+  it('keeps the static routes and the pages already read when a collections read fails', async () => {
+    const error = jest.spyOn(logger, 'error').mockImplementation(() => {});
+    const fullPage = Array.from({ length: 100 }, (_, index) => makeCollection(`c-${index}`));
+    mockGetCollectionsPage
+      .mockResolvedValueOnce(fullPage)
+      .mockRejectedValueOnce(new Error('backend down'));
+
+    const urls = (await sitemap()).map(entry => entry.url);
+
+    expect(urls).toEqual(
+      expect.arrayContaining([
+        'https://photos.test/',
+        'https://photos.test/collections',
+        'https://photos.test/explore',
+        'https://photos.test/search',
+        'https://photos.test/c-0',
+        'https://photos.test/c-99',
+      ])
+    );
+    expect(error).toHaveBeenCalledWith(
+      'sitemap',
+      expect.stringContaining('collections'),
+      expect.objectContaining({ read: 100 })
+    );
+    error.mockRestore();
+  });
+});
@@ -2,7 +2,7 @@ import { render } from '@testing-library/react';
 
 import CollectionPage from '@/app/[slug]/page';
 import CollectionPageWrapper from '@/app/lib/components/CollectionPageWrapper';
-import { requireAdmin } from '@/app/utils/admin';
+import { requireAdmin, resolveEditScope } from '@/app/utils/admin';
 
 jest.mock('@/app/lib/components/CollectionPageWrapper', () => ({
   __esModule: true,
@@ -11,10 +11,12 @@ jest.mock('@/app/lib/components/CollectionPageWrapper', () => ({
 
 jest.mock('@/app/utils/admin', () => ({
   requireAdmin: jest.fn(async () => {}),
+  resolveEditScope: jest.fn(async () => 'admin'),
 }));
 
 const mockWrapper = CollectionPageWrapper as unknown as jest.Mock;
 const mockRequireAdmin = requireAdmin as jest.MockedFunction<typeof requireAdmin>;
+const mockResolveEditScope = resolveEditScope as jest.MockedFunction<typeof resolveEditScope>;
 
 async function renderPage(slug: string, manage?: string) {
   const element = await CollectionPage({
@@ -30,6 +32,7 @@ describe('app/[slug]/page.tsx — ?manage=1 entry (isAdmin-gated via requireAdmi
   beforeEach(() => {
     jest.clearAllMocks();
     mockRequireAdmin.mockImplementation(async () => {});
+    mockResolveEditScope.mockResolvedValue('admin');
   });
 
   afterEach(() => {
@@ -80,4 +83,24 @@ describe('app/[slug]/page.tsx — ?manage=1 entry (isAdmin-gated via requireAdmi
     expect(mockWrapper.mock.calls[0][0]).toMatchObject({ slug: 'film', editMode: false });
     expect(mockRequireAdmin).not.toHaveBeenCalled();
   });
+
+  it('hands a collaborator on this collection the collaborator layer without the admin gate', async () => {
+    process.env.NEXT_PUBLIC_ENV = 'production';
+    mockResolveEditScope.mockResolvedValue('collaborator');
+    await renderPage('film', '1');
+
+    expect(mockResolveEditScope).toHaveBeenCalledWith('film');
+    expect(mockWrapper.mock.calls[0][0]).toMatchObject({
+      slug: 'film',
+      editMode: true,
+      editScope: 'collaborator',
+    });
+    expect(mockRequireAdmin).not.toHaveBeenCalled();
+  });
+
+  it('does not resolve an edit scope for a public view', async () => {
+    await renderPage('film');
+
+    expect(mockResolveEditScope).not.toHaveBeenCalled();
+  });
 });
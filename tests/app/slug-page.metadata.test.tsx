@@ -112,4 +112,17 @@ describe('generateMetadata — protected-collection suppression', () => {
 
     expect(metadata.openGraph?.images).toEqual([{ url: 'https://example.com/secret-cover.jpg' }]);
   });
+
+  it('marks collections the sitemap leaves out as noindex', async () => {
+    expect((await metadataFor({ isPasswordProtected: false })).robots).toBeUndefined();
+    expect((await metadataFor({ isPasswordProtected: true })).robots).toEqual({ index: false });
+    expect(
+      (
+        await metadataFor({
+          isPasswordProtected: false,
+          visibility: CollectionVisibility.UNLISTED,
+        })
+      ).robots
+    ).toEqual({ index: false });
+  });
 });
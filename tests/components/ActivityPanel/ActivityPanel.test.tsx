@@ -0,0 +1,229 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+
+import { ActivityPanel } from '@/app/components/ActivityPanel/ActivityPanel';
+import { revalidateCollectionCache } from '@/app/components/ContentCollection/edit/collectionEditUtils';
+import { clearCachedPanelData } from '@/app/hooks/useCachedPanelData';
+import * as changeLogApi from '@/app/lib/api/changeLog';
+import { ApiError } from '@/app/lib/api/core';
+import type { ChangeLogEntry, ChangeLogPage } from '@/app/types/ChangeLog';
+
+jest.mock('@/app/lib/api/changeLog');
+
+jest.mock('@/app/components/ContentCollection/edit/collectionEditUtils', () => ({
+  revalidateCollectionCache: jest.fn(async () => {}),
+}));
+
+const mockGet = changeLogApi.getChangeLog as jest.MockedFunction<typeof changeLogApi.getChangeLog>;
+const mockSeen = changeLogApi.markChangeLogSeen as jest.MockedFunction<
+  typeof changeLogApi.markChangeLogSeen
+>;
+const mockRevert = changeLogApi.revertChange as jest.MockedFunction<
+  typeof changeLogApi.revertChange
+>;
+const mockRevalidate = revalidateCollectionCache as jest.MockedFunction<
+  typeof revalidateCollectionCache
+>;
+
+const makeEntry = (id: number, overrides: Partial<ChangeLogEntry> = {}): ChangeLogEntry => ({
+  id,
+  actorEmail: 'ana@example.com',
+  actorIsAdmin: false,
+  target: 'CONTENT',
+  changeType: 'UPDATE',
+  collectionId: 10,
+  collectionSlug: 'wedding',
+  collectionTitle: 'Wedding',
+  contentId: 100 + id,
+  field: 'caption',
+  before: 'Old caption',
+  after: 'New caption',
+  createdAt: '2026-10-18T12:00:00Z',
+  revertedAt: null,
+  revertible: true,
+  seen: false,
+  ...overrides,
+});
+
+const pageOf = (entries: ChangeLogEntry[], total = entries.length): ChangeLogPage => ({
+  entries,
+  total,
+  unseen: entries.filter(entry => !entry.seen).length,
+  collections: [
+    { id: 20, title: 'Portraits' },
+    { id: 10, title: 'Wedding' },
+  ],
+  actors: ['ana@example.com', 'ben@example.com'],
+});
+
+describe('ActivityPanel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearCachedPanelData();
+    window.localStorage.clear();
+  });
+
+  it('shows the empty state when nothing has changed', async () => {
+    mockGet.mockResolvedValue(pageOf([]));
+    render(<ActivityPanel />);
+    await waitFor(() => expect(screen.getByText('No changes yet.')).toBeInTheDocument());
+  });
+
+  it('renders each change with its actor and its before → after diff', async () => {
+    mockGet.mockResolvedValue(pageOf([makeEntry(1)]));
+
+    render(<ActivityPanel />);
+
+    const row = await screen.findByRole('listitem');
+    expect(row).toHaveTextContent('Updated caption · Wedding');
+    expect(row).toHaveTextContent('ana@example.com');
+    expect(within(row).getByText('Old caption').tagName).toBe('DEL');
+    expect(within(row).getByText('New caption').tagName).toBe('INS');
+  });
+
+  it('filters through the backend, offering options from the whole log', async () => {
+    mockGet.mockResolvedValueOnce(pageOf([makeEntry(1)]));
+
+    render(<ActivityPanel />);
+    await screen.findByRole('listitem');
+
+    // Portraits has no change on the first page; the option comes from the page's `collections`.
+    expect(screen.getByRole('option', { name: 'Portraits' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'ben@example.com' })).toBeInTheDocument();
+
+    mockGet.mockResolvedValueOnce(
+      pageOf([makeEntry(7, { collectionId: 20, collectionTitle: 'Portraits' })], 1)
+    );
+    fireEvent.change(screen.getByRole('combobox', { name: 'Collection' }), {
+      target: { value: '20' },
+    });
+
+    expect(await screen.findByText('Updated caption · Portraits')).toBeInTheDocument();
+    expect(mockGet).toHaveBeenLastCalledWith({ collectionId: 20, actor: null, changeType: null });
+
+    mockGet.mockResolvedValueOnce(pageOf([], 0));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Change type' }), {
+      target: { value: 'DELETE' },
+    });
+
+    expect(await screen.findByText('No changes match these filters.')).toBeInTheDocument();
+    expect(mockGet).toHaveBeenLastCalledWith({
+      collectionId: 20,
+      actor: null,
+      changeType: 'DELETE',
+    });
+  });
+
+  it('goes back to the cached page when the filters are cleared', async () => {
+    mockGet.mockResolvedValueOnce(pageOf([makeEntry(1)]));
+    render(<ActivityPanel />);
+    await screen.findByRole('listitem');
+
+    mockGet.mockResolvedValueOnce(pageOf([], 0));
+    const actor = screen.getByRole('combobox', { name: 'Changed by' });
+    fireEvent.change(actor, { target: { value: 'ben@example.com' } });
+    await screen.findByText('No changes match these filters.');
+
+    fireEvent.change(actor, { target: { value: '' } });
+    expect(screen.getByRole('listitem')).toHaveTextContent('Updated caption · Wedding');
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('loads older changes after the first page, keeping the filters', async () => {
+    mockGet.mockResolvedValueOnce(pageOf([makeEntry(3), makeEntry(2)], 3));
+    render(<ActivityPanel />);
+    await waitFor(() => expect(screen.getAllByRole('listitem')).toHaveLength(2));
+
+    // Page two overlaps page one by a row, as it does when a change lands between the requests.
+    mockGet.mockResolvedValueOnce(pageOf([makeEntry(2), makeEntry(1)], 4));
+    fireEvent.click(screen.getByRole('button', { name: 'Load more (1 remaining)' }));
+
+    await waitFor(() => expect(screen.getAllByRole('listitem')).toHaveLength(3));
+    expect(mockGet).toHaveBeenLastCalledWith({
+      collectionId: null,
+      actor: null,
+      changeType: null,
+      offset: 2,
+    });
+    expect(screen.queryByRole('button', { name: /load more/i })).not.toBeInTheDocument();
+  });
+
+  it('badges the unread count and clears it through the newest row', async () => {
+    mockGet.mockResolvedValue(pageOf([makeEntry(2), makeEntry(1)]));
+    mockSeen.mockResolvedValue();
+
+    render(<ActivityPanel />);
+
+    await waitFor(() => expect(screen.getByText('2 new')).toBeInTheDocument());
+    fireEvent.click(screen.getByRole('button', { name: 'Mark read' }));
+
+    await waitFor(() => expect(screen.queryByText('2 new')).not.toBeInTheDocument());
+    expect(mockSeen).toHaveBeenCalledWith(2);
+    expect(screen.queryByRole('button', { name: 'Mark read' })).not.toBeInTheDocument();
+  });
+
+  it('puts the unread count back when marking read fails', async () => {
+    mockGet.mockResolvedValue(pageOf([makeEntry(1)]));
+    mockSeen.mockRejectedValue(new Error('Network error'));
+
+    render(<ActivityPanel />);
+
+    await waitFor(() => expect(screen.getByText('1 new')).toBeInTheDocument());
+    fireEvent.click(screen.getByRole('button', { name: 'Mark read' }));
+
+    await waitFor(() =>
+      expect(screen.getByText('Failed to mark activity read.')).toBeInTheDocument()
+    );
+    expect(screen.getByText('1 new')).toBeInTheDocument();
+  });
+
+  it('reverts a change, marks the row reverted and revalidates its collection', async () => {
+    const entry = makeEntry(1);
+    mockGet.mockResolvedValue(pageOf([entry]));
+    mockRevert.mockResolvedValue({ ...entry, revertedAt: '2026-10-19T09:00:00Z' });
+
+    render(<ActivityPanel />);
+
+    fireEvent.click(
+      await screen.findByRole('button', { name: 'Revert: Updated caption · Wedding' })
+    );
+
+    await waitFor(() => expect(screen.getByText('Reverted')).toBeInTheDocument());
+    expect(mockRevert).toHaveBeenCalledWith(1);
+    expect(mockRevalidate).toHaveBeenCalledWith('wedding');
+  });
+
+  it('says why when the backend refuses a revert as stale', async () => {
+    mockGet.mockResolvedValue(pageOf([makeEntry(1)]));
+    mockRevert.mockRejectedValue(new ApiError('Conflict', 409));
+
+    render(<ActivityPanel />);
+
+    fireEvent.click(
+      await screen.findByRole('button', { name: 'Revert: Updated caption · Wedding' })
+    );
+
+    await waitFor(() => expect(screen.getByText(/can no longer be reverted/i)).toBeInTheDocument());
+    expect(screen.queryByText('Reverted')).not.toBeInTheDocument();
+  });
+
+  it('disables Revert on a row a later change would be clobbered by', async () => {
+    mockGet.mockResolvedValue(pageOf([makeEntry(1, { revertible: false })]));
+
+    render(<ActivityPanel />);
+
+    expect(
+      await screen.findByRole('button', { name: 'Revert: Updated caption · Wedding' })
+    ).toBeDisabled();
+  });
+
+  it('does not show the empty state when the load failed', async () => {
+    mockGet.mockRejectedValue(new Error('Backend unreachable'));
+
+    render(<ActivityPanel />);
+
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent(/could not load activity/i)
+    );
+    expect(screen.queryByText('No changes yet.')).not.toBeInTheDocument();
+  });
+});
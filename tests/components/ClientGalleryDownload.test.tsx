@@ -4,32 +4,77 @@
  * The quality picker (Web / Full / Cancel) always lives in the single bottom action bar, for BOTH
  * flows:
  *  - **All** (no download context): inline "Download · All" → bar shows Web / Full / Cancel →
- *    navigates to the whole-collection download URL.
+ *    starts a whole-collection export job.
  *  - **Select** (wrapped in ClientGalleryDownloadProvider): bar shows "N selected" + Download +
- *    Cancel; Download swaps the bar to the Web / Full / Cancel picker → subset download URL.
+ *    Cancel; Download swaps the bar to the Web / Full / Cancel picker → subset export job.
  *    Deselecting everything while the picker is open auto-backs-out of it.
+ *
+ * Once a job starts, the bar tracks it: progress while it builds, the archive link when ready,
+ * and a readable error with Try again when it fails. The job API is mocked; polling runs on fake
+ * timers.
  */
 
-import { act, fireEvent, render, screen } from '@testing-library/react';
+import { act, fireEvent, render, renderHook, screen } from '@testing-library/react';
 
 import ClientGalleryDownload from '@/app/components/ClientGalleryDownload/ClientGalleryDownload';
+import {
+  EXPORT_POLL_INTERVAL_MS,
+  useExportJob,
+} from '@/app/components/ClientGalleryDownload/useExportJob';
 import {
   type ClientGalleryDownloadContextValue,
   ClientGalleryDownloadProvider,
 } from '@/app/components/ContentCollection/ClientGalleryDownloadContext';
-import { downloadCollectionSelectionUrl, downloadCollectionUrl } from '@/app/lib/api/downloads';
+import { ApiError } from '@/app/lib/api/core';
+import { emailExportJob, getExportJob, startCollectionExport } from '@/app/lib/api/downloads';
+import { type ExportJob } from '@/app/types/ExportJob';
+
+jest.mock('@/app/lib/api/downloads', () => ({
+  ...jest.requireActual('@/app/lib/api/downloads'),
+  emailExportJob: jest.fn(),
+  getExportJob: jest.fn(),
+  startCollectionExport: jest.fn(),
+}));
+
+const startMock = startCollectionExport as jest.Mock;
+const pollMock = getExportJob as jest.Mock;
+const emailMock = emailExportJob as jest.Mock;
+
+const job = (overrides: Partial<ExportJob> = {}): ExportJob => ({
+  id: 'exp-1',
+  collectionSlug: 'smith-wedding',
+  format: 'web',
+  imageCount: 12,
+  processedCount: 0,
+  status: 'queued',
+  error: null,
+  expiresAt: null,
+  emailTo: null,
+  ...overrides,
+});
 
-// Replace window.location with a writable stub so we can assert on `href`
-// assignments without triggering jsdom navigation.
-const originalLocation = window.location;
+/** Click, then let the export request's promise settle inside act. */
+async function clickAndSettle(element: HTMLElement) {
+  await act(async () => {
+    fireEvent.click(element);
+  });
+}
+
+/** Advance one poll interval and let the poll's promise settle. */
+async function nextPoll() {
+  await act(async () => {
+    jest.advanceTimersByTime(EXPORT_POLL_INTERVAL_MS);
+  });
+}
 
-beforeAll(() => {
-  delete (window as { location?: Location }).location;
-  (window as unknown as { location: { href: string } }).location = { href: '' };
+beforeEach(() => {
+  startMock.mockResolvedValue(job());
+  // A poll nobody scripted never answers, so the teardown's pending-timer flush stays inert.
+  pollMock.mockReturnValue(new Promise(() => {}));
 });
 
-afterAll(() => {
-  (window as unknown as { location: Location }).location = originalLocation;
+afterEach(() => {
+  jest.resetAllMocks();
 });
 
 function makeValue(
@@ -59,7 +104,6 @@ function renderWithProvider(
 
 describe('ClientGalleryDownload — All flow (no context)', () => {
   beforeEach(() => {
-    window.location.href = '';
     jest.useFakeTimers();
   });
 
@@ -77,42 +121,128 @@ describe('ClientGalleryDownload — All flow (no context)', () => {
     expect(screen.queryByRole('button', { name: /^select$/i })).not.toBeInTheDocument();
   });
 
-  it('opens the bottom quality picker on "All" click instead of navigating', () => {
+  it('opens the bottom quality picker on "All" click without starting anything', () => {
     render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
     fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
 
     expect(screen.getByRole('button', { name: /^web$/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /^full$/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /cancel/i })).toBeInTheDocument();
-    expect(window.location.href).toBe('');
+    expect(startMock).not.toHaveBeenCalled();
+  });
+
+  it('starts a whole-gallery export in the picked format', async () => {
+    render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
+    fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^full$/i }));
+
+    expect(startMock).toHaveBeenCalledWith('smith-wedding', 'original', null);
+    expect(screen.getByRole('status')).toHaveTextContent('Waiting to start…');
+  });
+
+  it('polls the job for progress, then offers the finished archive as a link', async () => {
+    pollMock
+      .mockResolvedValueOnce(job({ status: 'running', processedCount: 5 }))
+      .mockResolvedValueOnce(
+        job({ status: 'ready', processedCount: 12, expiresAt: '2026-10-26T12:00:00Z' })
+      );
+    render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
+    fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^web$/i }));
+
+    await nextPoll();
+    expect(screen.getByRole('status')).toHaveTextContent('Preparing 5 of 12 photos…');
+    expect(screen.getByRole('progressbar', { name: 'Download progress' })).toHaveAttribute(
+      'value',
+      '5'
+    );
+
+    await nextPoll();
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Your download is ready. The link works until October 26th, 2026.'
+    );
+    expect(screen.getByRole('link', { name: /download zip/i })).toHaveAttribute(
+      'href',
+      '/api/proxy/api/read/exports/exp-1/archive'
+    );
+    expect(pollMock).toHaveBeenCalledWith('exp-1', expect.any(AbortSignal));
+
+    // Ready is terminal: no further polls.
+    await nextPoll();
+    expect(pollMock).toHaveBeenCalledTimes(2);
   });
 
-  it('navigates to the web download URL when "Web" is picked', () => {
+  it('shows a failed job’s reason and starts it again on Try again', async () => {
+    pollMock.mockResolvedValueOnce(
+      job({ status: 'failed', error: 'Three originals are missing from storage.' })
+    );
     render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
     fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
-    fireEvent.click(screen.getByRole('button', { name: /^web$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^web$/i }));
+    await nextPoll();
 
-    expect(window.location.href).toBe(downloadCollectionUrl('smith-wedding', 'web'));
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Three originals are missing from storage.'
+    );
+
+    await clickAndSettle(screen.getByRole('button', { name: /try again/i }));
+    expect(startMock).toHaveBeenCalledTimes(2);
+    expect(startMock).toHaveBeenLastCalledWith('smith-wedding', 'web', null);
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
   });
 
-  it('navigates to the original download URL when "Full" is picked', () => {
+  it('shows the backend’s message when the export cannot be started', async () => {
+    startMock.mockRejectedValue(new ApiError('Gallery access required', 403));
     render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
     fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
-    fireEvent.click(screen.getByRole('button', { name: /^full$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^web$/i }));
 
-    expect(window.location.href).toBe(downloadCollectionUrl('smith-wedding', 'original'));
+    expect(screen.getByRole('alert')).toHaveTextContent('Gallery access required');
   });
 
-  it('closes the picker after the 4s cooldown', () => {
+  it('rides out a dropped poll and gives up after three in a row', async () => {
+    pollMock.mockRejectedValue(new TypeError('Failed to fetch'));
     render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
     fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
-    fireEvent.click(screen.getByRole('button', { name: /^web$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^web$/i }));
 
-    act(() => {
-      jest.advanceTimersByTime(4000);
+    await nextPoll();
+    await nextPoll();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+    await nextPoll();
+    expect(screen.getByRole('alert')).toHaveTextContent(/lost track of the download/i);
+  });
+
+  it('emails the link on request and confirms the address', async () => {
+    emailMock.mockResolvedValue(job({ emailTo: 'sam@example.com' }));
+    render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
+    fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^web$/i }));
+
+    fireEvent.click(screen.getByRole('button', { name: /email me the link/i }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email address' }), {
+      target: { value: ' sam@example.com ' },
     });
+    await clickAndSettle(screen.getByRole('button', { name: /^send$/i }));
+
+    expect(emailMock).toHaveBeenCalledWith('exp-1', 'sam@example.com');
+    expect(
+      screen.getByText('We’ll email the link to sam@example.com when it’s ready.')
+    ).toBeVisible();
+  });
 
+  it('hides the tracker without another request', async () => {
+    render(<ClientGalleryDownload collectionSlug="smith-wedding" />);
+    fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^web$/i }));
+
+    fireEvent.click(screen.getByRole('button', { name: /^hide$/i }));
+    await nextPoll();
+
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
     expect(screen.queryByRole('button', { name: /^web$/i })).not.toBeInTheDocument();
+    expect(pollMock).not.toHaveBeenCalled();
   });
 
   it('closes the picker on Cancel and on Escape', () => {
@@ -127,21 +257,10 @@ describe('ClientGalleryDownload — All flow (no context)', () => {
     });
     expect(screen.queryByRole('button', { name: /^web$/i })).not.toBeInTheDocument();
   });
-
-  it('URL-encodes the slug in the navigation target', () => {
-    render(<ClientGalleryDownload collectionSlug="hello world & more" />);
-    fireEvent.click(screen.getByRole('button', { name: /^all$/i }));
-    fireEvent.click(screen.getByRole('button', { name: /^web$/i }));
-
-    expect(window.location.href).toBe(
-      '/api/proxy/api/read/collections/hello%20world%20%26%20more/download?format=web'
-    );
-  });
 });
 
 describe('ClientGalleryDownload — Select flow (with context)', () => {
   beforeEach(() => {
-    window.location.href = '';
     jest.useFakeTimers();
   });
 
@@ -177,14 +296,12 @@ describe('ClientGalleryDownload — Select flow (with context)', () => {
     expect(screen.getByRole('button', { name: /^download$/i })).toBeDisabled();
   });
 
-  it('navigates to the subset download URL with the selected ids', () => {
+  it('starts a subset export with the selected ids', async () => {
     renderWithProvider('smith-wedding', { isSelectMode: true, selectedIds: [10, 20] });
     fireEvent.click(screen.getByRole('button', { name: /^download$/i }));
-    fireEvent.click(screen.getByRole('button', { name: /^web$/i }));
+    await clickAndSettle(screen.getByRole('button', { name: /^web$/i }));
 
-    expect(window.location.href).toBe(
-      downloadCollectionSelectionUrl('smith-wedding', [10, 20], 'web')
-    );
+    expect(startMock).toHaveBeenCalledWith('smith-wedding', 'web', [10, 20]);
   });
 
   it('calls exitSelectMode when the bar Cancel is clicked', () => {
@@ -238,3 +355,29 @@ describe('ClientGalleryDownload — Select flow (with context)', () => {
     expect(value.exitSelectMode).not.toHaveBeenCalled();
   });
 });
+
+describe('useExportJob', () => {
+  it('ignores an email answer that lands after a newer job started', async () => {
+    let answer!: (value: ExportJob) => void;
+    emailMock.mockReturnValue(new Promise(resolve => (answer = resolve)));
+    const { result } = renderHook(() => useExportJob('smith-wedding'));
+    await act(async () => {
+      await result.current.start('web', null);
+    });
+
+    let sent!: Promise<void>;
+    act(() => {
+      sent = result.current.emailLink('sam@example.com');
+    });
+    startMock.mockResolvedValue(job({ id: 'exp-2', format: 'original' }));
+    await act(async () => {
+      await result.current.start('original', null);
+    });
+    await act(async () => {
+      answer(job({ emailTo: 'sam@example.com' }));
+      await sent;
+    });
+
+    expect(result.current.job).toMatchObject({ id: 'exp-2', emailTo: null });
+  });
+});
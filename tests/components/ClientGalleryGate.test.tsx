@@ -13,7 +13,7 @@ import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
 
 import ClientGalleryGate from '@/app/components/ClientGalleryGate/ClientGalleryGate';
 import * as collectionsApi from '@/app/lib/api/collections';
-import { ApiError } from '@/app/lib/api/core';
+import { ACCESS_CODE_EXHAUSTED, ApiError } from '@/app/lib/api/core';
 import { type CollectionModel } from '@/app/types/Collection';
 import { CollectionVisibility } from '@/app/types/CollectionVisibility';
 
@@ -191,6 +191,31 @@ describe('ClientGalleryGate', () => {
     expect(mockRefresh).not.toHaveBeenCalled();
   });
 
+  it.each([
+    ['expired', undefined, /access code has expired/i],
+    ['exhausted', ACCESS_CODE_EXHAUSTED, /reached its download limit/i],
+  ])('tells a lapsed access code apart on ApiError 410 (%s)', async (_label, code, message) => {
+    mockValidate.mockRejectedValue(new ApiError('Access code is no longer valid', 410, code));
+
+    render(<ClientGalleryGate collection={makeCollection()} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Gallery password'), {
+      target: { value: 'CODE-1234' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /enter gallery/i }));
+
+    expect(await screen.findByText(message)).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Gallery password')).toHaveValue('');
+    expect(mockRefresh).not.toHaveBeenCalled();
+  });
+
+  it('opens with the lapsed-code message for a viewer whose code ran out since their last visit', () => {
+    render(<ClientGalleryGate collection={makeCollection({ accessCodeStatus: 'exhausted' })} />);
+
+    expect(screen.getByText(/reached its download limit/i)).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Gallery password')).toBeInTheDocument();
+  });
+
   it('shows the generic API error message on other ApiError statuses (e.g. 500)', async () => {
     mockValidate.mockRejectedValue(new ApiError('Server error', 500));
 
@@ -41,6 +41,10 @@ jest.mock('@/app/components/RolesPanel/RolesPanel', () => ({
   RolesPanel: panelStub('RolesPanel'),
 }));
 
+jest.mock('@/app/components/ActivityPanel/ActivityPanel', () => ({
+  ActivityPanel: panelStub('ActivityPanel'),
+}));
+
 const baseContent: ContentPanelModel = {
   id: 1,
   contentType: 'PANEL',
@@ -77,6 +81,17 @@ describe('AdminPanelRenderer', () => {
     expect(screen.getByText('RolesPanel')).toBeInTheDocument();
   });
 
+  it('renders ActivityPanel for panelType "activity"', () => {
+    render(
+      <AdminPanelRenderer
+        content={{ ...baseContent, panelType: 'activity' }}
+        width={800}
+        height={600}
+      />
+    );
+    expect(screen.getByText('ActivityPanel')).toBeInTheDocument();
+  });
+
   /**
    * The packer's height is the panel's TRUE content height now (`chrome + rowCount × rowHeight`),
    * so the box occupies exactly what it reserved. The previous contract — height applied as a
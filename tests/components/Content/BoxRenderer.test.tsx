@@ -7,6 +7,11 @@ import type { ContentBlankModel } from '@/app/types/Content';
 import { BLANK_ID_BASE } from '@/app/utils/rowCombination';
 import { createImageContent } from '@/tests/fixtures/contentFixtures';
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('@/app/components/Content/CollectionContentRenderer', () => ({
   __esModule: true,
   default: () => <div data-testid="real-content" />,
@@ -95,6 +95,25 @@ describe('CollectionContentRenderer — TEXT branch sibling collections', () =>
   });
 });
 
+describe('CollectionContentRenderer — TEXT body blocks', () => {
+  it('renders parsed rich text instead of the metadata rail', () => {
+    render(
+      <CollectionContentRenderer
+        {...baseProps}
+        textItems={[{ type: 'text', value: '## Notes' }]}
+        richText={[
+          { type: 'heading', level: 2, children: [{ type: 'text', value: 'Notes' }] },
+          { type: 'paragraph', children: [{ type: 'text', value: 'Body copy' }] },
+        ]}
+        textAlign="center"
+      />
+    );
+    expect(screen.getByRole('heading', { level: 2, name: 'Notes' })).toBeInTheDocument();
+    expect(screen.getByText('Body copy')).toBeInTheDocument();
+    expect(screen.queryByText('## Notes')).not.toBeInTheDocument();
+  });
+});
+
 describe('CollectionContentRenderer — sibling collections as cover cards', () => {
   it('renders a cover-image card per sibling when coverImageUrl is present', () => {
     const textItems: TextBlockItem[] = [
@@ -6,6 +6,11 @@ import Component from '@/app/components/Content/Component';
 import { type AnyContentModel } from '@/app/types/Content';
 
 const measured = { contentWidth: 1274, viewportHeight: 800, isMobile: false, width: 1280 };
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('@/app/hooks/useViewport', () => ({
   useViewport: () => measured,
 }));
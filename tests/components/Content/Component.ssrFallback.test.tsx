@@ -6,6 +6,11 @@ import Component from '@/app/components/Content/Component';
 import { type AnyContentModel } from '@/app/types/Content';
 
 const measured = { contentWidth: 0, viewportHeight: 0, isMobile: false, width: 0 };
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('@/app/hooks/useViewport', () => ({
   useViewport: () => measured,
 }));
@@ -34,10 +34,15 @@ const client: MeResponse = {
   galleries: [{ collectionId: 3, role: 'CLIENT' }],
 };
 
-function wrap(ui: ReactNode, me: MeResponse | null, collectionId = 3) {
+function wrap(ui: ReactNode, me: MeResponse | null, collectionId = 3, submittedAt?: string) {
   return render(
     <MeProvider me={me}>
-      <SelectsProvider collectionId={collectionId} initialSelectedIds={[42]}>
+      <SelectsProvider
+        collectionId={collectionId}
+        initialSelectedIds={[42]}
+        proofingTarget={submittedAt ? 25 : null}
+        initialSubmittedAt={submittedAt ?? null}
+      >
         {ui}
       </SelectsProvider>
     </MeProvider>
@@ -83,4 +88,12 @@ describe('SelectStar', () => {
     fireEvent.click(screen.getByRole('button', { name: /remove from your selects/i }));
     expect(screen.getByTestId('ids')).toHaveTextContent('');
   });
+
+  it('stays visible but disabled once proofing picks are submitted', () => {
+    wrap(<SelectStar contentId={42} />, client, 3, '2026-10-12T09:00:00Z');
+
+    const button = screen.getByRole('button', { name: /remove from your selects/i });
+    expect(button).toHaveAttribute('aria-pressed', 'true');
+    expect(button).toBeDisabled();
+  });
 });
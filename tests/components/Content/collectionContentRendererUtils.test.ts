@@ -23,6 +23,7 @@ const options = (overrides: Partial<CollectionInfoOptions> = {}): CollectionInfo
   showDateSort: false,
   showHiddenToggle: false,
   hiddenCount: 0,
+  showExpression: false,
   ...overrides,
 });
 
@@ -67,6 +68,7 @@ describe('toCollectionDimensions', () => {
       showDateSort: false,
       showHiddenToggle: false,
       hiddenCount: 0,
+      showExpression: false,
     });
     expect(dims.selectedDates).toEqual({
       label: 'Date',
@@ -86,6 +88,7 @@ describe('toCollectionDimensions', () => {
       showDateSort: false,
       showHiddenToggle: false,
       hiddenCount: 0,
+      showExpression: false,
     });
     expect(dims.selectedDates).toBeUndefined();
   });
@@ -12,6 +12,11 @@ import { CollectionVisibility } from '@/app/types/CollectionVisibility';
 let mockSearchParams = new URLSearchParams();
 const mockPush = jest.fn();
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('next/navigation', () => ({
   useRouter: () => ({ push: mockPush, replace: jest.fn(), refresh: jest.fn() }),
   usePathname: () => '/smith-wedding',
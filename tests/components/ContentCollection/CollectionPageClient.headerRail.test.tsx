@@ -35,6 +35,11 @@ class NoopIntersectionObserver {
 globalThis.IntersectionObserver =
   NoopIntersectionObserver as unknown as typeof IntersectionObserver;
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('next/navigation', () => ({
   useRouter: () => ({ push: jest.fn(), replace: jest.fn(), refresh: jest.fn() }),
   usePathname: () => '/user',
@@ -267,3 +272,38 @@ describe('CollectionPageClient — the landing page keeps the filter bar while c
     expect(screen.getByLabelText('Row density')).toBeInTheDocument();
   });
 });
+
+/**
+ * `/search` owns its filtering: its results are already the filtered set, and its own controls
+ * ride in the rail. The shared bar stands down, and the rail must still exist for the extras on a
+ * synthetic collection with no cover and no metadata.
+ */
+describe('CollectionPageClient — caller-owned filtering', () => {
+  it('suppresses the shared bar even when alwaysShowFilterBar is set', () => {
+    render(
+      <CollectionPageClient
+        collection={bareCollection([collectionCard(1), collectionCard(2)])}
+        {...ssr}
+        alwaysShowFilterBar
+        suppressFilterBar
+      />
+    );
+    expect(screen.queryByRole('radiogroup', { name: 'Photo size' })).not.toBeInTheDocument();
+  });
+
+  it('forces the rail for rail extras on a cover-less, metadata-less collection', () => {
+    const coverless = {
+      ...bareCollection([collectionCard(1)]),
+      coverImage: null,
+    } as unknown as CollectionModel;
+    render(
+      <CollectionPageClient
+        collection={coverless}
+        {...ssr}
+        suppressFilterBar
+        railExtras={<form role="search" aria-label="Search images" />}
+      />
+    );
+    expect(screen.getByRole('search', { name: 'Search images' })).toBeInTheDocument();
+  });
+});
@@ -2,20 +2,23 @@
  * Tests for SelectsContext — per-collection Selects state with an optimistic toggle
  * that rolls back on a failed persist. The Probe renders the current selectedIds joined
  * and a button that toggles id 42, so each spec asserts the rendered id list before/after.
+ * The proofing specs add a submit button and the submitted time to the same Probe.
  */
 
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 
 import { SelectsProvider, useSelects } from '@/app/components/ContentCollection/SelectsContext';
-import { addSelect, removeSelect } from '@/app/lib/api/selects';
+import { addSelect, removeSelect, submitSelects } from '@/app/lib/api/selects';
 
 jest.mock('@/app/lib/api/selects', () => ({
   addSelect: jest.fn(),
   removeSelect: jest.fn(),
+  submitSelects: jest.fn(),
 }));
 
 const addMock = addSelect as jest.Mock;
 const removeMock = removeSelect as jest.Mock;
+const submitMock = submitSelects as jest.Mock;
 
 beforeEach(() => {
   // Default both persists to resolve; reject-path specs override per test. Use mockImplementation
@@ -34,9 +37,13 @@ function Probe() {
   return (
     <div>
       <span data-testid="ids">{[...selects.selectedIds].join(',')}</span>
+      <span data-testid="submitted">{selects.proofing?.submittedAt ?? 'open'}</span>
       <button type="button" onClick={() => selects.toggle(42)}>
         toggle
       </button>
+      <button type="button" onClick={() => void selects.submit()}>
+        submit
+      </button>
     </div>
   );
 }
@@ -97,4 +104,48 @@ describe('SelectsContext', () => {
     await waitFor(() => expect(screen.getByTestId('ids')).toHaveTextContent('42'));
     expect(removeMock).toHaveBeenCalledWith(42);
   });
+
+  describe('proofing', () => {
+    function renderProofing(initial: number[], initialSubmittedAt: string | null = null) {
+      return render(
+        <SelectsProvider
+          collectionId={3}
+          initialSelectedIds={initial}
+          proofingTarget={25}
+          initialSubmittedAt={initialSubmittedAt}
+        >
+          <Probe />
+        </SelectsProvider>
+      );
+    }
+
+    it('has no proofing state without a target', () => {
+      renderWithProvider([]);
+      expect(screen.getByTestId('submitted')).toHaveTextContent('open');
+    });
+
+    it('ignores toggles once the picks are submitted', () => {
+      renderProofing([42], '2026-10-12T09:00:00Z');
+
+      fireEvent.click(screen.getByText('toggle'));
+
+      // No optimistic flip the backend would refuse with a 409, and no request at all.
+      expect(screen.getByTestId('ids')).toHaveTextContent('42');
+      expect(removeMock).not.toHaveBeenCalled();
+    });
+
+    it('locks the picks after a successful submit', async () => {
+      submitMock.mockResolvedValue({ collectionId: 3, submittedAt: '2026-10-19T10:00:00Z' });
+      renderProofing([42]);
+
+      fireEvent.click(screen.getByText('submit'));
+
+      await waitFor(() =>
+        expect(screen.getByTestId('submitted')).toHaveTextContent('2026-10-19T10:00:00Z')
+      );
+      expect(submitMock).toHaveBeenCalledWith(3);
+      fireEvent.click(screen.getByText('toggle'));
+      expect(removeMock).not.toHaveBeenCalled();
+    });
+  });
 });
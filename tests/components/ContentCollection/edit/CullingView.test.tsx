@@ -0,0 +1,159 @@
+/**
+ * CullingView: keyboard culling over the fullscreen viewer. Pins the key map (rate, flag, tags,
+ * compare), auto-advance, and the end-of-session summary that closing the viewer opens.
+ */
+import { act, fireEvent, render, screen } from '@testing-library/react';
+
+import { CULL_FLUSH_DELAY_MS } from '@/app/components/ContentCollection/edit/cullingUtils';
+import CullingView from '@/app/components/ContentCollection/edit/CullingView';
+import { updateImages } from '@/app/lib/api/content';
+import { type CollectionModel } from '@/app/types/Collection';
+import { type ContentImageModel } from '@/app/types/Content';
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: jest.fn(), replace: jest.fn(), prefetch: jest.fn() }),
+  useSearchParams: () => new URLSearchParams(),
+}));
+// See FullScreenModal.slideshow.test: the scroll lock's cleanup calls window.scrollTo.
+jest.mock('@/app/hooks/useBodyScrollLock', () => ({ useBodyScrollLock: jest.fn() }));
+jest.mock('@/app/lib/api/content');
+
+const mockUpdateImages = updateImages as jest.MockedFunction<typeof updateImages>;
+
+const img = (id: number): ContentImageModel => ({
+  id,
+  contentType: 'IMAGE',
+  imageUrl: `https://cdn.example/${id}.jpg`,
+  imageWidth: 1000,
+  imageHeight: 800,
+  orderIndex: id,
+  visible: true,
+  title: `Frame ${id}`,
+  rawFileName: `DSC_000${id}.NEF`,
+  locations: [],
+});
+
+const IMAGES = [img(1), img(2), img(3)];
+const COLLECTION = { id: 7, title: 'Coast', slug: 'coast' } as CollectionModel;
+const TAGS = [
+  { id: 11, name: 'sunset', slug: 'sunset' },
+  { id: 12, name: 'surf', slug: 'surf' },
+];
+
+function renderView() {
+  const onClose = jest.fn();
+  render(
+    <CullingView images={IMAGES} collection={COLLECTION} availableTags={TAGS} onClose={onClose} />
+  );
+  return { onClose };
+}
+
+function press(key: string) {
+  act(() => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+  });
+}
+
+const position = () => screen.getByText(/\d+ \/ 3/).textContent;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.clearAllMocks();
+  window.history.replaceState({}, '', '/coast/manage');
+  mockUpdateImages.mockImplementation(async updates => ({
+    updatedImages: updates.map(update => img(update.id)),
+  }));
+});
+
+afterEach(() => jest.useRealTimers());
+
+describe('CullingView', () => {
+  it('rates with a number key and moves on to the next frame', () => {
+    renderView();
+    expect(position()).toBe('1 / 3');
+
+    press('4');
+
+    expect(position()).toBe('2 / 3');
+    press('ArrowLeft');
+    expect(screen.getByRole('img', { name: '4 stars' })).toBeInTheDocument();
+  });
+
+  it('stays on the frame with auto-advance off', () => {
+    renderView();
+
+    press('a');
+    press('x');
+
+    expect(position()).toBe('1 / 3');
+    expect(screen.getByRole('button', { name: 'Reject' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('Rejected')).toBeInTheDocument();
+  });
+
+  it('sends the session in one batch after the idle delay', async () => {
+    renderView();
+
+    press('5');
+    press('x');
+    await act(async () => {
+      jest.advanceTimersByTime(CULL_FLUSH_DELAY_MS);
+    });
+
+    expect(mockUpdateImages).toHaveBeenCalledTimes(1);
+    expect(mockUpdateImages).toHaveBeenCalledWith([
+      { id: 1, rating: 5 },
+      { id: 2, collections: { prev: [{ collectionId: 7, name: 'Coast', visible: false }] } },
+    ]);
+  });
+
+  it('toggles a tag from the T palette with Enter', () => {
+    renderView();
+
+    press('t');
+    const filter = screen.getByLabelText('Filter tags');
+    fireEvent.change(filter, { target: { value: 'surf' } });
+    fireEvent.keyDown(filter, { key: 'Enter' });
+
+    expect(screen.queryByLabelText('Filter tags')).not.toBeInTheDocument();
+    expect(screen.getByText('surf')).toBeInTheDocument();
+  });
+
+  it('puts the frame beside the next one, and acts on the chosen side', () => {
+    renderView();
+
+    press('c');
+    expect(screen.getByRole('group', { name: 'Compare' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Select: Frame 1' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+
+    press('s');
+    press('p');
+
+    // The candidate was picked; the select stays put.
+    expect(position()).toBe('1 / 3');
+    expect(screen.getByRole('button', { name: 'Candidate: Frame 2' })).toHaveTextContent('Pick');
+  });
+
+  it('ends with a summary once the viewer closes, and hands back the saved images', async () => {
+    const { onClose } = renderView();
+
+    press('3');
+    press('p');
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Close fullscreen image' }));
+    });
+
+    expect(screen.getByRole('heading', { name: 'Culling summary' })).toBeInTheDocument();
+    expect(screen.getByText('1 rated')).toBeInTheDocument();
+    expect(screen.getByText('1 picked')).toBeInTheDocument();
+    expect(screen.getByLabelText('Lightroom filename filter for the picks')).toHaveValue(
+      'DSC_0002'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+    expect(onClose).toHaveBeenCalledWith([expect.objectContaining({ id: 1 })]);
+  });
+});
@@ -11,6 +11,11 @@ import { buildUpdatePayload } from '@/app/components/ContentCollection/edit/coll
 import { type CollectionModel, type CollectionUpdateRequest } from '@/app/types/Collection';
 import { CollectionVisibility } from '@/app/types/CollectionVisibility';
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 function makeCollection(overrides: Partial<CollectionModel> = {}): CollectionModel {
   return {
     id: 1,
@@ -188,3 +193,18 @@ describe('buildUpdatePayload — kind flags', () => {
     expect(result.isBlog).toBe(true);
   });
 });
+
+describe('buildUpdatePayload — layout mode', () => {
+  it('sends layoutMode when the admin picks a different layout', () => {
+    const result = buildUpdatePayload(
+      makeForm({ layoutMode: 'MASONRY' }),
+      makeCollection({ layoutMode: 'ROWS' })
+    );
+    expect(result.layoutMode).toBe('MASONRY');
+  });
+
+  it('treats an absent layoutMode as ROWS, so the seeded default is not a change', () => {
+    const result = buildUpdatePayload(makeForm({ layoutMode: 'ROWS' }), makeCollection());
+    expect(result).toEqual({ id: 1 });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  buildCullUpdate,
+  cullKeyAction,
+  type CullState,
+  isEmptyCullSummary,
+  readCullState,
+  summarizeCull,
+  toggleCullTag,
+} from '@/app/components/ContentCollection/edit/cullingUtils';
+import { type ContentImageModel } from '@/app/types/Content';
+
+const COLLECTION = { id: 7, name: 'Coast' };
+
+const state = (overrides: Partial<CullState> = {}): CullState => ({
+  rating: null,
+  flag: null,
+  tagIds: [],
+  ...overrides,
+});
+
+describe('cullingUtils', () => {
+  describe('cullKeyAction', () => {
+    it('rates with 1–5 and clears with 0', () => {
+      expect(cullKeyAction('4')).toEqual({ type: 'rate', rating: 4 });
+      expect(cullKeyAction('0')).toEqual({ type: 'rate', rating: null });
+      expect(cullKeyAction('6')).toBeNull();
+    });
+
+    it('maps the flag and mode letters in either case', () => {
+      expect(cullKeyAction('P')).toEqual({ type: 'flag', flag: 'pick' });
+      expect(cullKeyAction('x')).toEqual({ type: 'flag', flag: 'reject' });
+      expect(cullKeyAction('u')).toEqual({ type: 'flag', flag: null });
+      expect(cullKeyAction('t')).toEqual({ type: 'tags' });
+      expect(cullKeyAction('C')).toEqual({ type: 'compare' });
+    });
+
+    it('leaves the viewer keys alone', () => {
+      expect(cullKeyAction('ArrowRight')).toBeNull();
+      expect(cullKeyAction('Escape')).toBeNull();
+      expect(cullKeyAction('f')).toBeNull();
+    });
+  });
+
+  describe('readCullState', () => {
+    it('reads a hidden-in-this-collection image as a reject', () => {
+      const image = {
+        id: 1,
+        contentType: 'IMAGE',
+        imageUrl: 'https://cdn.example/1.jpg',
+        orderIndex: 0,
+        rating: 3,
+        tags: [{ id: 5, name: 'sea', slug: 'sea' }],
+        collections: [
+          { collectionId: 2, visible: true },
+          { collectionId: 7, visible: false },
+        ],
+      } as ContentImageModel;
+
+      expect(readCullState(image, 7)).toEqual({ rating: 3, flag: 'reject', tagIds: [5] });
+      expect(readCullState(image, 2).flag).toBeNull();
+    });
+  });
+
+  describe('buildCullUpdate', () => {
+    it('is null when nothing the server stores changed', () => {
+      expect(buildCullUpdate(1, state(), state({ flag: 'pick' }), COLLECTION)).toBeNull();
+    });
+
+    it('writes a reject as this collection’s visibility', () => {
+      expect(buildCullUpdate(1, state(), state({ flag: 'reject', rating: 1 }), COLLECTION)).toEqual(
+        {
+          id: 1,
+          rating: 1,
+          collections: { prev: [{ collectionId: 7, name: 'Coast', visible: false }] },
+        }
+      );
+    });
+
+    it('shows a rejected image again on pick or unflag', () => {
+      const update = buildCullUpdate(
+        1,
+        state({ flag: 'reject' }),
+        state({ flag: 'pick' }),
+        COLLECTION
+      );
+      expect(update?.collections?.prev?.[0]?.visible).toBe(true);
+    });
+
+    it('sends the kept tags as prev and the dropped ones as remove', () => {
+      expect(
+        buildCullUpdate(1, state({ tagIds: [1, 2] }), state({ tagIds: [2, 3] }), COLLECTION)
+      ).toEqual({ id: 1, tags: { prev: [2, 3], remove: [1] } });
+      expect(buildCullUpdate(1, state({ tagIds: [1] }), state(), COLLECTION)).toEqual({
+        id: 1,
+        tags: { remove: [1] },
+      });
+    });
+
+    it('clears a rating with null', () => {
+      expect(buildCullUpdate(1, state({ rating: 4 }), state(), COLLECTION)).toEqual({
+        id: 1,
+        rating: null,
+      });
+    });
+  });
+
+  describe('toggleCullTag', () => {
+    it('adds a missing tag and removes a present one', () => {
+      expect(toggleCullTag(state({ tagIds: [1] }), 2).tagIds).toEqual([1, 2]);
+      expect(toggleCullTag(state({ tagIds: [1, 2] }), 1).tagIds).toEqual([2]);
+    });
+  });
+
+  describe('summarizeCull', () => {
+    it('counts each kind of change against where the image started', () => {
+      const originals = new Map([
+        [1, state()],
+        [2, state({ rating: 2 })],
+        [3, state({ flag: 'reject' })],
+        [4, state({ tagIds: [9] })],
+        [5, state()],
+      ]);
+      const current = new Map([
+        [1, state({ rating: 5, flag: 'pick' })],
+        [2, state()],
+        [3, state({ flag: 'pick' })],
+        [4, state({ tagIds: [9, 10] })],
+        [5, state({ flag: 'reject' })],
+      ]);
+
+      expect(summarizeCull(originals, current)).toEqual({
+        rated: 1,
+        unrated: 1,
+        picked: [1, 3],
+        rejected: 1,
+        restored: 1,
+        retagged: 1,
+      });
+    });
+
+    it('reports a session whose changes were all undone as empty', () => {
+      const originals = new Map([[1, state({ rating: 3 })]]);
+      const summary = summarizeCull(originals, new Map([[1, state({ rating: 3 })]]));
+      expect(isEmptyCullSummary(summary)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import {
+  buildCoverCommand,
+  buildGifEditCommand,
+  buildImageEditCommand,
+  buildInheritedLocationsCommand,
+  buildRatingCommand,
+  buildReorderCommand,
+  buildRestoreRequest,
+  buildUpdateCommand,
+  combineCommands,
+  describeUpdate,
+  EDIT_HISTORY_LIMIT,
+  type EditCommand,
+  EMPTY_HISTORY,
+  historyShortcut,
+  recordCommand,
+  stepHistory,
+} from '@/app/components/ContentCollection/edit/editHistory';
+import { type CollectionUpdateResponseDTO } from '@/app/types/Collection';
+import { makeState } from '@/tests/fixtures/collectionEditFixtures';
+import { createGifContent, createImageContent } from '@/tests/fixtures/contentFixtures';
+
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
+const rating = (value: number): EditCommand => ({
+  kind: 'rating',
+  label: `Rating ${value}`,
+  collectionId: 1,
+  undo: value - 1,
+  redo: value,
+});
+
+function withTags(names: string[]): CollectionUpdateResponseDTO {
+  return {
+    ...makeState({ tags: names }),
+    tags: [
+      { id: 10, name: 'street', slug: 'street' },
+      { id: 11, name: 'night', slug: 'night' },
+      { id: 12, name: 'rain', slug: 'rain' },
+    ],
+  };
+}
+
+describe('history stack', () => {
+  it('undoes the newest command and makes it the next redo', () => {
+    const history = recordCommand(recordCommand(EMPTY_HISTORY, rating(1)), rating(2));
+    const undone = stepHistory(history, 'undo')!;
+    expect(undone.command.label).toBe('Rating 2');
+    expect(undone.history.past.map(c => c.label)).toEqual(['Rating 1']);
+
+    const redone = stepHistory(undone.history, 'redo')!;
+    expect(redone.command.label).toBe('Rating 2');
+    expect(redone.history).toEqual(history);
+  });
+
+  it('returns null with nothing to step', () => {
+    expect(stepHistory(EMPTY_HISTORY, 'undo')).toBeNull();
+    expect(stepHistory(EMPTY_HISTORY, 'redo')).toBeNull();
+  });
+
+  it('drops the redo stack when a new edit is recorded', () => {
+    const undone = stepHistory(recordCommand(EMPTY_HISTORY, rating(1)), 'undo')!.history;
+    expect(recordCommand(undone, rating(3)).future).toEqual([]);
+  });
+
+  it('keeps only the newest entries past the limit', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 1; i <= EDIT_HISTORY_LIMIT + 5; i++) history = recordCommand(history, rating(i));
+    expect(history.past).toHaveLength(EDIT_HISTORY_LIMIT);
+    expect(history.past[0]!.label).toBe('Rating 6');
+  });
+});
+
+describe('buildRestoreRequest', () => {
+  it('restores only the scalar fields that were sent', () => {
+    const before = makeState({ title: 'Old', description: 'Kept' });
+    const after = makeState({ title: 'New', description: 'Changed elsewhere' });
+    expect(buildRestoreRequest({ id: 1, title: 'New' }, before, after)).toEqual({
+      id: 1,
+      title: 'Old',
+    });
+  });
+
+  it('clears a date the target did not have', () => {
+    const before = makeState({ collectionDate: undefined });
+    const after = makeState({ collectionDate: '2026-03-01' });
+    expect(buildRestoreRequest({ id: 1, collectionDate: '2026-03-01' }, before, after)).toEqual({
+      id: 1,
+      clearCollectionDate: true,
+    });
+  });
+
+  it('turns proofing back off when undoing the first target ever set', () => {
+    const before = makeState({ proofingTarget: null });
+    const after = makeState({ proofingTarget: 25 });
+    expect(buildRestoreRequest({ id: 1, proofingTarget: 25 }, before, after)).toEqual({
+      id: 1,
+      proofingTarget: null,
+    });
+  });
+
+  it('diffs tags by id, so a tag the save created is removed rather than re-created', () => {
+    const before = withTags(['street']);
+    const after = withTags(['street', 'rain']);
+    const sent = { id: 1, tags: { prev: [10], newValue: ['rain'] } };
+    expect(buildRestoreRequest(sent, before, after).tags).toEqual({ prev: [10], remove: [12] });
+    expect(buildRestoreRequest(sent, after, before).tags).toEqual({ prev: [10, 12] });
+  });
+
+  it('reverses sibling links with newValue/remove', () => {
+    const before = makeState({ siblings: [{ id: 5, name: 'Five' }] });
+    const after = makeState({ siblings: [{ id: 6, name: 'Six' }] });
+    const sent = { id: 1, siblings: { newValue: [{ collectionId: 6 }], remove: [5] } };
+    expect(buildRestoreRequest(sent, before, after).siblings).toEqual({
+      newValue: [{ collectionId: 5, name: 'Five' }],
+      remove: [6],
+    });
+  });
+
+  it('re-links an unlinked child at its old position', () => {
+    const child = {
+      id: 300,
+      contentType: 'COLLECTION',
+      orderIndex: 2,
+      visible: false,
+      title: 'Child',
+      slug: 'child',
+      referencedCollectionId: 30,
+    } as const;
+    const before = { ...makeState({ content: [child] }), childCollectionIds: [30] };
+    const after = { ...makeState(), childCollectionIds: [] };
+    const sent = { id: 1, collections: { remove: [30] } };
+    expect(buildRestoreRequest(sent, before, after).collections).toEqual({
+      newValue: [{ collectionId: 30, name: 'Child', visible: false, orderIndex: 2 }],
+    });
+  });
+});
+
+describe('command builders', () => {
+  it('builds an update command in both directions', () => {
+    const before = makeState({ title: 'Old' });
+    const after = makeState({ title: 'New' });
+    expect(buildUpdateCommand('Title', { id: 1, title: 'New' }, before, after)).toEqual({
+      kind: 'update',
+      label: 'Title',
+      collectionId: 1,
+      undo: { id: 1, title: 'Old' },
+      redo: { id: 1, title: 'New' },
+    });
+  });
+
+  it('records nothing for a save it cannot reverse', () => {
+    expect(
+      buildUpdateCommand('Password', { id: 1, password: 'hunter2' }, makeState(), makeState())
+    ).toBeNull();
+  });
+
+  it('records nothing for a first cover or an unchanged rating', () => {
+    expect(buildCoverCommand(1, undefined, 7)).toBeNull();
+    expect(buildCoverCommand(1, 7, 7)).toBeNull();
+    expect(buildCoverCommand(1, 3, 7)?.undo).toEqual({ id: 1, coverImageId: 3 });
+    expect(buildRatingCommand(1, 4, 4)).toBeNull();
+  });
+
+  it('inverts a reorder to absolute positions in the original order', () => {
+    const command = buildReorderCommand(1, 'c', [1, 2, 3], [3, 1, 2]);
+    expect(command.redo).toEqual([
+      { contentId: 3, newOrderIndex: 0 },
+      { contentId: 1, newOrderIndex: 1 },
+      { contentId: 2, newOrderIndex: 2 },
+    ]);
+    expect(command.undo).toEqual([
+      { contentId: 1, newOrderIndex: 0 },
+      { contentId: 2, newOrderIndex: 1 },
+      { contentId: 3, newOrderIndex: 2 },
+    ]);
+  });
+
+  it('unlinks inherited locations on undo and re-links them on redo', () => {
+    const command = buildInheritedLocationsCommand([1, 2], [3], [20]);
+    expect(command?.undo).toEqual({
+      images: [
+        { id: 1, locations: { remove: [20] } },
+        { id: 2, locations: { remove: [20] } },
+      ],
+      gifs: [{ id: 3, request: { locations: { remove: [20] } } }],
+    });
+    expect(command?.redo.images[0]).toEqual({ id: 1, locations: { prev: [20] } });
+    expect(buildInheritedLocationsCommand([], [], [20])).toBeNull();
+  });
+
+  it('reverses only the image fields a metadata save changed', () => {
+    const before = [createImageContent(1, { title: 'Old', rating: 2 }), createImageContent(2)];
+    // The grid loads images without their memberships; the save answers with them.
+    const after = [
+      createImageContent(1, {
+        title: 'New',
+        rating: 2,
+        collections: [{ collectionId: 1, name: 'Test', visible: true }],
+      }),
+      createImageContent(2),
+    ];
+
+    const command = buildImageEditCommand('Image details', before, after);
+
+    expect(command?.undo).toEqual({ images: [{ id: 1, title: 'Old' }], gifs: [] });
+    expect(command?.redo).toEqual({ images: [{ id: 1, title: 'New' }], gifs: [] });
+    expect(buildImageEditCommand('Image details', before, before)).toBeNull();
+  });
+
+  it('reverses a GIF write without touching memberships it never saw', () => {
+    const before = createGifContent(5, { captureDate: null, collections: undefined });
+    const after = {
+      ...before,
+      captureDate: '2026-03-01',
+      collections: [{ collectionId: 1, name: 'Test', visible: true }],
+    };
+
+    const command = buildGifEditCommand('Capture date', before, after);
+
+    expect(command?.undo.gifs).toEqual([{ id: 5, request: { captureDate: null } }]);
+    expect(command?.redo.gifs).toEqual([{ id: 5, request: { captureDate: '2026-03-01' } }]);
+  });
+
+  it('folds the writes of one edit into a batch, and keeps a lone command as it is', () => {
+    expect(combineCommands('Edit', null, rating(3))).toEqual(rating(3));
+    expect(combineCommands('Edit', null, null)).toBeNull();
+    expect(combineCommands('Edit', rating(2), rating(3))).toEqual({
+      kind: 'batch',
+      label: 'Edit',
+      steps: [rating(2), rating(3)],
+    });
+  });
+
+  it('names a save after the one field it changed', () => {
+    expect(describeUpdate({ id: 1, title: 'x' })).toBe('Title');
+    expect(describeUpdate({ id: 1, clearCollectionDate: true })).toBe('Date');
+    expect(describeUpdate({ id: 1, title: 'x', tags: {} })).toBe('Collection details');
+  });
+});
+
+describe('historyShortcut', () => {
+  const press = (init: KeyboardEventInit, target: EventTarget = document.body) => {
+    const event = new KeyboardEvent('keydown', init);
+    Object.defineProperty(event, 'target', { value: target });
+    return historyShortcut(event);
+  };
+
+  it('maps Cmd/Ctrl+Z to undo and the shifted chord or Ctrl+Y to redo', () => {
+    expect(press({ key: 'z', metaKey: true })).toBe('undo');
+    expect(press({ key: 'z', ctrlKey: true })).toBe('undo');
+    expect(press({ key: 'Z', metaKey: true, shiftKey: true })).toBe('redo');
+    expect(press({ key: 'y', ctrlKey: true })).toBe('redo');
+    expect(press({ key: 'z' })).toBeNull();
+  });
+
+  it('leaves text fields their own undo', () => {
+    const input = document.createElement('input');
+    expect(press({ key: 'z', metaKey: true }, input)).toBeNull();
+  });
+});
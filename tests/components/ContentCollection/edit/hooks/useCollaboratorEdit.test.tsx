@@ -0,0 +1,153 @@
+/**
+ * useCollaboratorEdit is the collaborator layer's only write path, so these pin that every save
+ * goes through the `edit` channel (never an admin write), lands in the live collection, and
+ * invalidates the public cache through the collaborator-authorized action.
+ */
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+import { useCollaboratorEdit } from '@/app/components/ContentCollection/edit/hooks/useCollaboratorEdit';
+import { revalidateCollaboratorCacheAction } from '@/app/lib/actions/revalidateCache';
+import {
+  reorderCollectionContent,
+  setCollectionCover,
+  updateCollaboratorImages,
+} from '@/app/lib/api/collections';
+import { ApiError } from '@/app/lib/api/core';
+import type { CollectionModel } from '@/app/types/Collection';
+import type { ContentImageModel } from '@/app/types/Content';
+
+jest.mock('@/app/lib/api/collections', () => ({
+  reorderCollectionContent: jest.fn(),
+  setCollectionCover: jest.fn(),
+  updateCollaboratorImages: jest.fn(),
+}));
+
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
+const mockReorder = reorderCollectionContent as jest.MockedFunction<
+  typeof reorderCollectionContent
+>;
+const mockSetCover = setCollectionCover as jest.MockedFunction<typeof setCollectionCover>;
+const mockUpdateImages = updateCollaboratorImages as jest.MockedFunction<
+  typeof updateCollaboratorImages
+>;
+const mockRevalidate = revalidateCollaboratorCacheAction as jest.MockedFunction<
+  typeof revalidateCollaboratorCacheAction
+>;
+
+function image(id: number, overrides: Partial<ContentImageModel> = {}): ContentImageModel {
+  return {
+    id,
+    contentType: 'IMAGE',
+    orderIndex: id,
+    imageUrl: `https://cdn.example/${id}.jpg`,
+    locations: [],
+    ...overrides,
+  };
+}
+
+const collection = {
+  id: 42,
+  slug: 'wedding',
+  title: 'Wedding',
+  content: [image(1), image(2), image(3)],
+  locations: [],
+} as unknown as CollectionModel;
+
+function renderEdit() {
+  return renderHook(() => useCollaboratorEdit({ collection }));
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('useCollaboratorEdit', () => {
+  it('opens the image editor on a browse click and saves through the edit channel', async () => {
+    mockUpdateImages.mockResolvedValue([image(2, { caption: 'First dance' })]);
+    const { result } = renderEdit();
+
+    act(() => result.current.handleImageClick(2));
+    expect(result.current.editingImage?.id).toBe(2);
+
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.saveImage({ id: 2, caption: 'First dance' });
+    });
+
+    expect(saved).toBe(true);
+    expect(mockUpdateImages).toHaveBeenCalledWith(42, [{ id: 2, caption: 'First dance' }]);
+    expect(result.current.editingImage?.caption).toBe('First dance');
+    expect(mockRevalidate).toHaveBeenCalledWith(42, 'wedding');
+  });
+
+  it('keeps the editor open with the error when a save is refused', async () => {
+    mockUpdateImages.mockRejectedValue(new ApiError('Not a collaborator', 403));
+    const { result } = renderEdit();
+    act(() => result.current.handleImageClick(1));
+
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.saveImage({ id: 1, rating: 5 });
+    });
+
+    expect(saved).toBe(false);
+    expect(result.current.error).toBe('Not a collaborator');
+    expect(result.current.editingImage?.id).toBe(1);
+  });
+
+  it('makes the clicked image the cover in pick mode instead of opening the editor', async () => {
+    mockSetCover.mockResolvedValue();
+    const { result } = renderEdit();
+
+    act(() => result.current.startPickCover());
+    expect(result.current.mode).toBe('pick-cover');
+    act(() => result.current.handleImageClick(3));
+
+    await waitFor(() => expect(result.current.liveCollection.coverImage?.id).toBe(3));
+    expect(mockSetCover).toHaveBeenCalledWith(42, 3);
+    expect(result.current.editingImage).toBeNull();
+    expect(result.current.mode).toBe('browse');
+  });
+
+  it('saves only the moved content when a reorder is saved', async () => {
+    mockReorder.mockResolvedValue({
+      ...collection,
+      content: [image(2, { orderIndex: 0 }), image(1, { orderIndex: 1 }), image(3)],
+    });
+    const { result } = renderEdit();
+
+    act(() => result.current.reorder.enter([1, 2, 3]));
+    act(() => result.current.reorder.onArrowMove(2, -1));
+    expect(result.current.reorder.displayOrder).toEqual([2, 1, 3]);
+
+    await act(async () => {
+      await result.current.reorder.save();
+    });
+
+    expect(mockReorder).toHaveBeenCalledWith(42, [
+      { contentId: 2, newOrderIndex: 0 },
+      { contentId: 1, newOrderIndex: 1 },
+    ]);
+    expect(result.current.mode).toBe('browse');
+    expect(result.current.liveCollection.content?.map(block => block.id)).toEqual([2, 1, 3]);
+  });
+
+  it('stays in reorder mode with the arrangement intact when saving fails', async () => {
+    mockReorder.mockRejectedValue(new Error('Network down'));
+    const { result } = renderEdit();
+
+    act(() => result.current.reorder.enter([1, 2, 3]));
+    act(() => result.current.reorder.onArrowMove(1, 1));
+    await act(async () => {
+      await result.current.reorder.save();
+    });
+
+    expect(result.current.mode).toBe('reorder');
+    expect(result.current.reorder.displayOrder).toEqual([2, 1, 3]);
+    expect(result.current.error).toBe('Network down');
+    expect(mockRevalidate).not.toHaveBeenCalled();
+  });
+});
@@ -10,6 +10,11 @@ import { updateCollection } from '@/app/lib/api/collections';
 import type { CollectionModel } from '@/app/types/Collection';
 import type { AnyContentModel, ContentImageModel } from '@/app/types/Content';
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('@/app/lib/api/collections');
 jest.mock('@/app/lib/storage/collectionStorage');
 
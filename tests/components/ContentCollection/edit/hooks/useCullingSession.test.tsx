@@ -0,0 +1,138 @@
+/**
+ * Batched persistence for keyboard culling. Changes apply locally at once and go out together
+ * through `updateImages` after the idle delay or once a full batch is waiting; each image is diffed
+ * against what the server last acknowledged, and a failed save keeps its changes pending.
+ */
+import { act, renderHook } from '@testing-library/react';
+
+import {
+  CULL_BATCH_SIZE,
+  CULL_FLUSH_DELAY_MS,
+} from '@/app/components/ContentCollection/edit/cullingUtils';
+import { useCullingSession } from '@/app/components/ContentCollection/edit/hooks/useCullingSession';
+import { updateImages } from '@/app/lib/api/content';
+import { type ContentImageModel } from '@/app/types/Content';
+
+jest.mock('@/app/lib/api/content');
+
+const mockUpdateImages = updateImages as jest.MockedFunction<typeof updateImages>;
+
+const COLLECTION = { id: 7, name: 'Coast' };
+
+const image = (id: number, rating?: number): ContentImageModel => ({
+  id,
+  contentType: 'IMAGE',
+  orderIndex: id,
+  imageUrl: `https://cdn.example/${id}.jpg`,
+  locations: [],
+  rating,
+});
+
+function renderSession() {
+  return renderHook(() => useCullingSession({ collection: COLLECTION }));
+}
+
+async function idle() {
+  await act(async () => {
+    jest.advanceTimersByTime(CULL_FLUSH_DELAY_MS);
+  });
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.clearAllMocks();
+  mockUpdateImages.mockImplementation(async updates => ({
+    updatedImages: updates.map(update => ({ ...image(update.id), rating: update.rating ?? 0 })),
+  }));
+});
+
+afterEach(() => jest.useRealTimers());
+
+describe('useCullingSession', () => {
+  it('applies changes at once and sends them together after the idle delay', async () => {
+    const { result } = renderSession();
+
+    act(() => {
+      result.current.change(image(1), { rating: 4 });
+      result.current.change(image(2), { flag: 'reject' });
+    });
+    expect(result.current.stateOf(image(1)).rating).toBe(4);
+    expect(result.current.pendingCount).toBe(2);
+    expect(mockUpdateImages).not.toHaveBeenCalled();
+
+    await idle();
+
+    expect(mockUpdateImages).toHaveBeenCalledTimes(1);
+    expect(mockUpdateImages).toHaveBeenCalledWith([
+      { id: 1, rating: 4 },
+      { id: 2, collections: { prev: [{ collectionId: 7, name: 'Coast', visible: false }] } },
+    ]);
+    expect(result.current.pendingCount).toBe(0);
+    expect(result.current.savedImages.map(saved => saved.id)).toEqual([1, 2]);
+  });
+
+  it('sends a full batch without waiting', async () => {
+    const { result } = renderSession();
+
+    await act(async () => {
+      for (let id = 1; id <= CULL_BATCH_SIZE; id++) result.current.change(image(id), { rating: 1 });
+    });
+
+    expect(mockUpdateImages).toHaveBeenCalledTimes(1);
+    expect(mockUpdateImages.mock.calls[0]?.[0]).toHaveLength(CULL_BATCH_SIZE);
+  });
+
+  it('sends only the last of several changes to one image', async () => {
+    const { result } = renderSession();
+
+    act(() => {
+      result.current.change(image(1), { rating: 2 });
+      result.current.change(image(1), { rating: 5 });
+    });
+    await idle();
+
+    expect(mockUpdateImages).toHaveBeenCalledWith([{ id: 1, rating: 5 }]);
+  });
+
+  it('writes back a change reverted after it was saved', async () => {
+    const { result } = renderSession();
+
+    act(() => result.current.change(image(1, 3), { rating: 5 }));
+    await idle();
+    act(() => result.current.change(image(1, 3), { rating: 3 }));
+    await idle();
+
+    expect(mockUpdateImages).toHaveBeenLastCalledWith([{ id: 1, rating: 3 }]);
+  });
+
+  it('sends nothing for a change that never left the server state', async () => {
+    const { result } = renderSession();
+
+    act(() => result.current.change(image(1), { flag: 'pick' }));
+    await idle();
+
+    expect(mockUpdateImages).not.toHaveBeenCalled();
+    expect(result.current.pendingCount).toBe(0);
+  });
+
+  it('keeps a failed batch pending and sends it on the next flush', async () => {
+    mockUpdateImages.mockRejectedValueOnce(new Error('offline'));
+    const { result } = renderSession();
+
+    act(() => result.current.change(image(1), { rating: 4 }));
+    await idle();
+
+    expect(result.current.error).not.toBeNull();
+    expect(result.current.pendingCount).toBe(1);
+
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.flush();
+    });
+
+    expect(saved).toBe(true);
+    expect(mockUpdateImages).toHaveBeenCalledTimes(2);
+    expect(result.current.error).toBeNull();
+    expect(result.current.pendingCount).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { act, renderHook } from '@testing-library/react';
+
+import {
+  buildRemoveCommand,
+  type EditCommand,
+} from '@/app/components/ContentCollection/edit/editHistory';
+import { useEditHistory } from '@/app/components/ContentCollection/edit/hooks/useEditHistory';
+
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
+const remove: EditCommand = buildRemoveCommand('Remove 2 images', [], []);
+const rating: EditCommand = { kind: 'rating', label: 'Rating', collectionId: 1, undo: 2, redo: 4 };
+
+function renderHistory(applyCommand = jest.fn(async () => {})) {
+  const setError = jest.fn();
+  const hook = renderHook(
+    ({ collectionId }) => useEditHistory({ collectionId, applyCommand, setError }),
+    { initialProps: { collectionId: 1 } }
+  );
+  return { hook, applyCommand, setError };
+}
+
+afterEach(() => jest.useRealTimers());
+
+it('runs the inverse of the newest command, then re-applies it on redo', async () => {
+  const { hook, applyCommand } = renderHistory();
+  act(() => hook.result.current.record(rating));
+  expect(hook.result.current.undoLabel).toBe('Rating');
+
+  await act(() => hook.result.current.undo());
+  expect(applyCommand).toHaveBeenLastCalledWith(rating, 'undo');
+  expect(hook.result.current.canUndo).toBe(false);
+  expect(hook.result.current.redoLabel).toBe('Rating');
+
+  await act(() => hook.result.current.redo());
+  expect(applyCommand).toHaveBeenLastCalledWith(rating, 'redo');
+  expect(hook.result.current.canUndo).toBe(true);
+});
+
+it('keeps a command whose request failed, and surfaces the error', async () => {
+  const { hook, setError } = renderHistory(jest.fn().mockRejectedValue(new Error('offline')));
+  act(() => hook.result.current.record(remove));
+
+  await act(() => hook.result.current.undo());
+  expect(setError).toHaveBeenLastCalledWith(expect.stringContaining('offline'));
+  expect(hook.result.current.canUndo).toBe(true);
+});
+
+it('ignores a second step while one is in flight', async () => {
+  let finish!: () => void;
+  const applyCommand = jest.fn(() => new Promise<void>(resolve => (finish = resolve)));
+  const { hook } = renderHistory(applyCommand);
+  act(() => {
+    hook.result.current.record(rating);
+    hook.result.current.record(remove);
+  });
+
+  let first!: Promise<void>;
+  act(() => {
+    first = hook.result.current.undo();
+  });
+  await act(() => hook.result.current.undo());
+  expect(applyCommand).toHaveBeenCalledTimes(1);
+
+  await act(async () => {
+    finish();
+    await first;
+  });
+  expect(hook.result.current.undoLabel).toBe('Rating');
+});
+
+it('offers a toast for a destructive action that clears itself', () => {
+  jest.useFakeTimers();
+  const { hook } = renderHistory();
+  act(() => hook.result.current.record(remove, { toast: 'Removed 2 images.' }));
+  expect(hook.result.current.toast).toEqual({ message: 'Removed 2 images.' });
+
+  act(() => {
+    jest.runAllTimers();
+  });
+  expect(hook.result.current.toast).toBeNull();
+});
+
+it('survives re-renders but starts over for another collection', () => {
+  const { hook } = renderHistory();
+  act(() => hook.result.current.record(rating));
+  hook.rerender({ collectionId: 1 });
+  expect(hook.result.current.canUndo).toBe(true);
+
+  hook.rerender({ collectionId: 2 });
+  expect(hook.result.current.canUndo).toBe(false);
+});
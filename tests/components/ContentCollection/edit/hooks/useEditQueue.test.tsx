@@ -0,0 +1,132 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+import { useEditQueue } from '@/app/components/ContentCollection/edit/hooks/useEditQueue';
+import { buildImageEditEntry } from '@/app/components/ContentCollection/edit/offlineEdits';
+import { getCollectionUpdateMetadata } from '@/app/lib/api/collections';
+import { updateImages } from '@/app/lib/api/content';
+import { editQueue, resetEditQueue } from '@/app/lib/storage/editQueue';
+import { type ContentImageModel } from '@/app/types/Content';
+import { makeState } from '@/tests/fixtures/collectionEditFixtures';
+
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
+jest.mock('@/app/lib/api/collections');
+jest.mock('@/app/lib/api/content');
+
+const mockGetMetadata = getCollectionUpdateMetadata as jest.MockedFunction<
+  typeof getCollectionUpdateMetadata
+>;
+const mockUpdateImages = updateImages as jest.MockedFunction<typeof updateImages>;
+
+const SEEN = '2026-01-01T00:00:00Z';
+
+const image = (id: number, updatedAt = SEEN): ContentImageModel => ({
+  id,
+  contentType: 'IMAGE',
+  orderIndex: id,
+  imageUrl: `https://cdn.example/${id}.jpg`,
+  locations: [],
+  updatedAt,
+});
+
+let online = true;
+
+function renderQueue() {
+  const onReplayed = jest.fn(async () => {});
+  const setError = jest.fn();
+  const hook = renderHook(() =>
+    useEditQueue({ slug: 'test-collection', enabled: true, onReplayed, setError })
+  );
+  return { hook, onReplayed, setError };
+}
+
+async function goOnline() {
+  online = true;
+  await act(async () => {
+    window.dispatchEvent(new Event('online'));
+  });
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetEditQueue();
+  online = false;
+  jest.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+  mockGetMetadata.mockResolvedValue(makeState({ content: [image(1), image(2)] }));
+  mockUpdateImages.mockImplementation(async updates => ({
+    updatedImages: updates.map(update => image(update.id, `stamp-after-${update.id}`)),
+  }));
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+it('queues only failures caused by being offline', async () => {
+  const { hook } = renderQueue();
+  const entry = buildImageEditEntry('test-collection', [{ id: 1, title: 'a' }], [image(1)]);
+
+  await act(async () => {
+    expect(await hook.result.current.queue(entry)).toBe(true);
+  });
+  await waitFor(() => expect(hook.result.current.pending).toHaveLength(1));
+
+  online = true;
+  await act(async () => {
+    expect(await hook.result.current.queue(entry)).toBe(false);
+  });
+});
+
+it('replays queued edits in order on reconnect, then refreshes the page', async () => {
+  await editQueue.enqueue(
+    buildImageEditEntry('test-collection', [{ id: 1, title: 'a' }], [image(1)])
+  );
+  await editQueue.enqueue(
+    buildImageEditEntry('test-collection', [{ id: 1, rating: 5 }], [image(1)])
+  );
+  const { hook, onReplayed } = renderQueue();
+  await waitFor(() => expect(hook.result.current.pending).toHaveLength(2));
+
+  await goOnline();
+
+  await waitFor(() => expect(hook.result.current.pending).toHaveLength(0));
+  // The second edit saw image 1 before the first replay bumped it; that is not a conflict.
+  expect(mockUpdateImages.mock.calls.map(([updates]) => updates)).toEqual([
+    [{ id: 1, title: 'a' }],
+    [{ id: 1, rating: 5 }],
+  ]);
+  expect(onReplayed).toHaveBeenCalledTimes(1);
+  expect(hook.result.current.conflict).toBeNull();
+});
+
+it('stops at a conflicting edit until the admin resolves it', async () => {
+  await editQueue.enqueue(
+    buildImageEditEntry('test-collection', [{ id: 2, title: 'x' }], [image(2)])
+  );
+  mockGetMetadata.mockResolvedValue(makeState({ content: [image(1), image(2, 'someone-else')] }));
+  const { hook } = renderQueue();
+
+  await goOnline();
+  await waitFor(() => expect(hook.result.current.conflict?.reason).toBe('changed'));
+  expect(mockUpdateImages).not.toHaveBeenCalled();
+
+  await act(() => hook.result.current.resolveConflict({ kind: 'apply' }));
+  expect(mockUpdateImages).toHaveBeenCalledWith([{ id: 2, title: 'x' }]);
+  await waitFor(() => expect(hook.result.current.pending).toHaveLength(0));
+});
+
+it('surfaces a refused replay as a conflict the admin can discard', async () => {
+  await editQueue.enqueue(
+    buildImageEditEntry('test-collection', [{ id: 1, title: 'x' }], [image(1)])
+  );
+  mockUpdateImages.mockRejectedValue(new Error('Validation failed'));
+  const { hook } = renderQueue();
+
+  await goOnline();
+  await waitFor(() => expect(hook.result.current.conflict?.reason).toBe('rejected'));
+  expect(hook.result.current.conflict?.message).toContain('Validation failed');
+
+  await act(() => hook.result.current.resolveConflict({ kind: 'discard' }));
+  await waitFor(() => expect(hook.result.current.pending).toHaveLength(0));
+});
@@ -0,0 +1,287 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+import { useUploadQueue } from '@/app/components/ContentCollection/edit/hooks/useUploadQueue';
+import { hashFile, UPLOAD_CHUNK_BYTES } from '@/app/components/ContentCollection/edit/uploadQueue';
+import { ApiError } from '@/app/lib/api/core';
+import { abortUpload, completeUpload, startUpload, uploadChunk } from '@/app/lib/api/uploads';
+import { logger } from '@/app/utils/logger';
+
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
+jest.mock('@/app/lib/api/uploads');
+jest.mock('@/app/utils/logger', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+// jsdom has no Web Crypto digest or image decoder; the real ones are covered in uploadQueue.test.
+jest.mock('@/app/components/ContentCollection/edit/uploadQueue', () => ({
+  ...jest.requireActual('@/app/components/ContentCollection/edit/uploadQueue'),
+  hashFile: jest.fn(),
+  readImageDimensions: jest.fn(async () => null),
+}));
+
+const mockHashFile = hashFile as jest.MockedFunction<typeof hashFile>;
+const mockStartUpload = startUpload as jest.MockedFunction<typeof startUpload>;
+const mockUploadChunk = uploadChunk as jest.MockedFunction<typeof uploadChunk>;
+const mockCompleteUpload = completeUpload as jest.MockedFunction<typeof completeUpload>;
+const mockAbortUpload = abortUpload as jest.MockedFunction<typeof abortUpload>;
+
+/** A file of `chunks` chunks whose content hash is its name. */
+function makeFile(name: string, chunks = 1): File {
+  const file = new File(['x'], name, { type: 'image/jpeg' });
+  Object.defineProperty(file, 'size', { value: chunks * UPLOAD_CHUNK_BYTES });
+  return file;
+}
+
+let online = true;
+
+function renderQueue() {
+  const onUploaded = jest.fn(async () => {});
+  const hook = renderHook(() => useUploadQueue({ collectionId: 42, onUploaded }));
+  return { hook, onUploaded };
+}
+
+const statusOf = (hook: ReturnType<typeof renderQueue>['hook'], name: string) =>
+  hook.result.current.items.find(item => item.name === name)?.status;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  online = true;
+  jest.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+  mockHashFile.mockImplementation(async file => ({
+    hash: (file as File).name,
+    chunkHashes: Array.from(
+      { length: Math.ceil(file.size / UPLOAD_CHUNK_BYTES) },
+      (_, i) => `c${i}`
+    ),
+  }));
+  mockStartUpload.mockImplementation(async (_id, request) => ({
+    uploadId: `session-${request.filename}`,
+    receivedChunks: [],
+  }));
+  mockUploadChunk.mockImplementation(async () => {});
+  mockCompleteUpload.mockResolvedValue(null);
+  mockAbortUpload.mockImplementation(async () => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('useUploadQueue', () => {
+  it('sends every chunk of each file in turn, then refreshes once', async () => {
+    const { hook, onUploaded } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('a.jpg', 2), makeFile('b.jpg')]);
+    });
+
+    expect(
+      mockUploadChunk.mock.calls.map(([uploadId, index, , hash]) => [uploadId, index, hash])
+    ).toEqual([
+      ['session-a.jpg', 0, 'c0'],
+      ['session-a.jpg', 1, 'c1'],
+      ['session-b.jpg', 0, 'c0'],
+    ]);
+    expect(mockCompleteUpload).toHaveBeenCalledTimes(2);
+    expect(hook.result.current.items.map(item => [item.status, item.uploadedBytes])).toEqual([
+      ['done', 2 * UPLOAD_CHUNK_BYTES],
+      ['done', UPLOAD_CHUNK_BYTES],
+    ]);
+    expect(onUploaded).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends only the chunks a reopened session is missing', async () => {
+    mockStartUpload.mockResolvedValue({ uploadId: 'resumed', receivedChunks: [0, 1] });
+    const { hook } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('a.jpg', 3)]);
+    });
+
+    expect(mockUploadChunk.mock.calls.map(([, index]) => index)).toEqual([2]);
+  });
+
+  it('rejects unsupported files up front and never sends them', async () => {
+    const { hook, onUploaded } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([
+        new File(['x'], 'notes.pdf', { type: 'application/pdf' }),
+      ]);
+    });
+
+    expect(hook.result.current.items[0]).toMatchObject({ status: 'rejected' });
+    expect(mockStartUpload).not.toHaveBeenCalled();
+    expect(onUploaded).not.toHaveBeenCalled();
+  });
+
+  it('skips a file whose content matches one already in the queue or the collection', async () => {
+    mockHashFile.mockResolvedValue({ hash: 'same', chunkHashes: ['c0'] });
+    mockStartUpload.mockImplementation(async (_id, { filename }) =>
+      filename === 'c.jpg'
+        ? { uploadId: 'x', receivedChunks: [], duplicateOfContentId: 7 }
+        : { uploadId: 'a', receivedChunks: [] }
+    );
+    const { hook } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('a.jpg'), makeFile('b.jpg')]);
+    });
+    mockHashFile.mockResolvedValue({ hash: 'other', chunkHashes: ['c0'] });
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('c.jpg')]);
+    });
+
+    expect(hook.result.current.items.map(item => [item.name, item.status, item.message])).toEqual([
+      ['a.jpg', 'done', undefined],
+      ['b.jpg', 'duplicate', 'Same file as a.jpg'],
+      ['c.jpg', 'duplicate', 'Already in this collection'],
+    ]);
+  });
+
+  it('fails a file the backend refuses, and retries it from its missing chunks', async () => {
+    mockUploadChunk.mockRejectedValueOnce(new ApiError('Checksum mismatch', 422));
+    const { hook } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('a.jpg')]);
+    });
+    expect(hook.result.current.items[0]).toMatchObject({
+      status: 'failed',
+      message: 'Checksum mismatch',
+    });
+
+    act(() => hook.result.current.resume(hook.result.current.items[0]!.id));
+
+    await waitFor(() => expect(statusOf(hook, 'a.jpg')).toBe('done'));
+    // The retry reused the hash instead of reading the file again.
+    expect(mockHashFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses a file mid-upload and resumes it later', async () => {
+    let release!: () => void;
+    mockUploadChunk.mockImplementationOnce(
+      (_uploadId, _index, _chunk, _hash, signal) =>
+        new Promise((resolve, reject) => {
+          release = () => resolve();
+          signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    const { hook } = renderQueue();
+
+    act(() => {
+      void hook.result.current.addFiles([makeFile('a.jpg', 2)]);
+    });
+    await waitFor(() => expect(mockUploadChunk).toHaveBeenCalledTimes(1));
+
+    act(() => hook.result.current.pause(hook.result.current.items[0]!.id));
+    await waitFor(() => expect(statusOf(hook, 'a.jpg')).toBe('paused'));
+    expect(release).toBeDefined();
+
+    mockStartUpload.mockResolvedValue({ uploadId: 'session-a.jpg', receivedChunks: [] });
+    act(() => hook.result.current.resume(hook.result.current.items[0]!.id));
+
+    await waitFor(() => expect(statusOf(hook, 'a.jpg')).toBe('done'));
+    expect(mockUploadChunk).toHaveBeenCalledTimes(3);
+  });
+
+  it('parks a file when the connection drops and picks it up when it returns', async () => {
+    mockUploadChunk.mockImplementationOnce(async () => {
+      online = false;
+      throw new ApiError('Failed to fetch', 500);
+    });
+    const { hook } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('a.jpg')]);
+    });
+    expect(hook.result.current.items[0]).toMatchObject({ status: 'paused', offline: true });
+
+    online = true;
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(statusOf(hook, 'a.jpg')).toBe('done'));
+  });
+
+  it('abandons the backend session of a removed file', async () => {
+    mockUploadChunk.mockRejectedValueOnce(new ApiError('Bad chunk', 400));
+    const { hook } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('a.jpg')]);
+    });
+    act(() => hook.result.current.remove(hook.result.current.items[0]!.id));
+
+    expect(hook.result.current.items).toEqual([]);
+    expect(mockAbortUpload).toHaveBeenCalledWith('session-a.jpg');
+  });
+
+  it('abandons a session that opens after its file was removed', async () => {
+    let open!: () => void;
+    mockStartUpload.mockImplementationOnce(
+      () =>
+        new Promise(resolve => {
+          open = () => resolve({ uploadId: 'late', receivedChunks: [] });
+        })
+    );
+    const { hook } = renderQueue();
+
+    act(() => {
+      void hook.result.current.addFiles([makeFile('a.jpg')]);
+    });
+    await waitFor(() => expect(mockStartUpload).toHaveBeenCalledTimes(1));
+    act(() => hook.result.current.remove(hook.result.current.items[0]!.id));
+    expect(mockAbortUpload).not.toHaveBeenCalled();
+
+    await act(async () => open());
+
+    expect(mockAbortUpload).toHaveBeenCalledWith('late');
+    expect(mockUploadChunk).not.toHaveBeenCalled();
+  });
+
+  it('stops the queue when the page goes away, without refreshing', async () => {
+    mockUploadChunk.mockImplementationOnce(
+      (_uploadId, _index, _chunk, _hash, signal) =>
+        new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    const { hook, onUploaded } = renderQueue();
+
+    act(() => {
+      void hook.result.current.addFiles([makeFile('a.jpg'), makeFile('b.jpg')]);
+    });
+    await waitFor(() => expect(mockUploadChunk).toHaveBeenCalledTimes(1));
+
+    await act(async () => hook.unmount());
+
+    expect(mockStartUpload).toHaveBeenCalledTimes(1);
+    expect(mockUploadChunk).toHaveBeenCalledTimes(1);
+    expect(onUploaded).not.toHaveBeenCalled();
+    // Leaving is a pause, not a removal: the session stays open to resume.
+    expect(mockAbortUpload).not.toHaveBeenCalled();
+  });
+
+  it('logs, rather than surfaces, an abort the backend refuses', async () => {
+    mockUploadChunk.mockRejectedValueOnce(new ApiError('Bad chunk', 400));
+    const failure = new ApiError('Gone', 404);
+    mockAbortUpload.mockRejectedValueOnce(failure);
+    const { hook } = renderQueue();
+
+    await act(async () => {
+      await hook.result.current.addFiles([makeFile('a.jpg')]);
+    });
+    act(() => hook.result.current.remove(hook.result.current.items[0]!.id));
+
+    await waitFor(() =>
+      expect(logger.warn).toHaveBeenCalledWith('useUploadQueue', 'Failed to abort upload session', {
+        uploadId: 'session-a.jpg',
+        error: failure,
+      })
+    );
+    expect(hook.result.current.items).toEqual([]);
+  });
+});
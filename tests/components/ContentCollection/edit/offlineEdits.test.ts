@@ -0,0 +1,154 @@
+import {
+  adoptServerStamps,
+  applyQueuedImageUpdates,
+  buildImageEditEntry,
+  buildReorderEntry,
+  collectStamps,
+  detectConflict,
+  formatFieldValue,
+  mergeImageUpdates,
+  rebaseQueuedEdits,
+} from '@/app/components/ContentCollection/edit/offlineEdits';
+import { type QueuedEdit } from '@/app/lib/storage/editQueue';
+import { type ContentImageModel } from '@/app/types/Content';
+import { makeState } from '@/tests/fixtures/collectionEditFixtures';
+
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
+const SEEN = '2026-01-01T00:00:00Z';
+const LATER = '2026-02-01T00:00:00Z';
+
+function image(id: number, overrides: Partial<ContentImageModel> = {}): ContentImageModel {
+  return {
+    id,
+    contentType: 'IMAGE',
+    orderIndex: id,
+    imageUrl: `https://cdn.example/${id}.jpg`,
+    locations: [],
+    updatedAt: SEEN,
+    ...overrides,
+  };
+}
+
+const queued = (entry: Omit<QueuedEdit, 'id' | 'queuedAt'>, id = 1): QueuedEdit => ({
+  ...entry,
+  id,
+  queuedAt: 0,
+});
+
+describe('queue entries', () => {
+  it('stamps an image edit with each image’s updatedAt as the admin saw it', () => {
+    const entry = buildImageEditEntry(
+      'c',
+      [{ id: 1, title: 'New' }],
+      [image(1), image(2, { updatedAt: LATER })]
+    );
+    expect(entry.baseline).toEqual({ 'image:1': SEEN });
+    expect(entry.label).toBe('Image details');
+  });
+
+  it('stamps a reorder with the collection’s updatedAt', () => {
+    const entry = buildReorderEntry({ id: 1, slug: 'c', updatedAt: SEEN }, [
+      { contentId: 5, newOrderIndex: 0 },
+    ]);
+    expect(entry.baseline).toEqual({ 'collection:1': SEEN });
+    expect(entry.mutation).toEqual({
+      kind: 'reorder',
+      collectionId: 1,
+      reorders: [{ contentId: 5, newOrderIndex: 0 }],
+    });
+  });
+});
+
+describe('detectConflict', () => {
+  const edit = queued(buildImageEditEntry('c', [{ id: 1, title: 'Mine', rating: 4 }], [image(1)]));
+
+  it('lets an edit through when nothing changed since the admin saw it', () => {
+    const state = makeState({ content: [image(1)] });
+    expect(detectConflict(edit, state, collectStamps(state))).toBeNull();
+  });
+
+  it('lists every field the edit sets against the server’s current value', () => {
+    const state = makeState({
+      content: [image(1, { title: 'Theirs', rating: 4, updatedAt: LATER })],
+    });
+    expect(detectConflict(edit, state, collectStamps(state))).toEqual({
+      edit,
+      reason: 'changed',
+      fields: [
+        { imageId: 1, field: 'title', mine: 'Mine', server: 'Theirs' },
+        { imageId: 1, field: 'rating', mine: '4', server: '4' },
+      ],
+    });
+  });
+
+  it('trusts the stamps a replay just wrote over the fetched copy', () => {
+    const state = makeState({ content: [image(1)] });
+    const stamps = { ...collectStamps(state), 'image:1': LATER };
+    expect(detectConflict(edit, state, stamps)?.reason).toBe('changed');
+  });
+
+  it('flags an image that left the collection', () => {
+    const state = makeState({ content: [] });
+    expect(detectConflict(edit, state, collectStamps(state))?.reason).toBe('missing');
+  });
+
+  it('flags a reorder once the collection has moved on', () => {
+    const reorder = queued(buildReorderEntry({ id: 1, slug: 'c', updatedAt: SEEN }, []));
+    const state = makeState({ updatedAt: LATER });
+    expect(detectConflict(reorder, state, collectStamps(state))).toEqual({
+      edit: reorder,
+      reason: 'changed',
+      fields: [],
+    });
+  });
+});
+
+describe('resolution helpers', () => {
+  it('keeps only the chosen fields and drops images left empty', () => {
+    const updates = [
+      { id: 1, title: 'a', rating: 3 },
+      { id: 2, title: 'b' },
+    ];
+    expect(mergeImageUpdates(updates, new Set(['1:rating']))).toEqual([{ id: 1, rating: 3 }]);
+  });
+
+  it('moves later baselines onto stamps the replay produced, and only those', () => {
+    const later = queued(
+      { ...buildImageEditEntry('c', [{ id: 1 }, { id: 2 }], [image(1), image(2)]) },
+      2
+    );
+    const [rebased] = rebaseQueuedEdits([later], { 'image:1': SEEN }, { 'image:1': LATER });
+    expect(rebased?.baseline).toEqual({ 'image:1': LATER, 'image:2': SEEN });
+    expect(rebaseQueuedEdits([later], { 'image:3': SEEN }, { 'image:3': LATER })).toEqual([]);
+  });
+
+  it('accepts the server stamps when the admin applies their version anyway', () => {
+    const edit = queued(buildImageEditEntry('c', [{ id: 1 }], [image(1)]));
+    expect(adoptServerStamps(edit, { 'image:1': LATER }).baseline).toEqual({ 'image:1': LATER });
+  });
+});
+
+describe('applyQueuedImageUpdates', () => {
+  it('shows plain values at once and leaves relationship changes for the replay', () => {
+    const collection = makeState({ content: [image(1, { title: 'Old' })] }).collection;
+    const patched = applyQueuedImageUpdates(collection, [
+      { id: 1, title: 'New', tags: { newValue: ['rain'] } },
+    ]);
+    expect(patched.content?.[0]).toEqual(image(1, { title: 'New' }));
+  });
+});
+
+describe('formatFieldValue', () => {
+  it('renders scalars, models and update requests', () => {
+    expect(formatFieldValue(null)).toBe('—');
+    expect(formatFieldValue(true)).toBe('Yes');
+    expect(formatFieldValue([{ id: 1, name: 'street' }])).toBe('street');
+    expect(formatFieldValue({ prev: [1, 2], newValue: ['rain'], remove: [3] })).toBe(
+      'add rain; remove 1; keep 2'
+    );
+  });
+});
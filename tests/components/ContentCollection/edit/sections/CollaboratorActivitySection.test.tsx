@@ -0,0 +1,70 @@
+/**
+ * Tests for the Collaborator Activity section on the collection edit Info tab: the attributed
+ * log of collaborator edits, its empty state, and a failed read that says so.
+ */
+
+import '@testing-library/jest-dom';
+
+import { render, screen, within } from '@testing-library/react';
+
+import { CollaboratorActivitySection } from '@/app/components/ContentCollection/edit/sections/CollaboratorActivitySection';
+import { getCollectionActivity } from '@/app/lib/api/collections';
+
+jest.mock('@/app/lib/api/collections', () => ({
+  getCollectionActivity: jest.fn(),
+}));
+
+const mockGetActivity = getCollectionActivity as jest.MockedFunction<typeof getCollectionActivity>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('CollaboratorActivitySection', () => {
+  it('lists each edit with what changed, who made it and when', async () => {
+    mockGetActivity.mockResolvedValue([
+      {
+        id: 2,
+        actorEmail: 'second@example.com',
+        kind: 'COVER',
+        summary: 'Set the cover',
+        contentId: 31,
+        createdAt: '2026-03-02',
+      },
+      {
+        id: 1,
+        actorEmail: 'second@example.com',
+        kind: 'REORDER',
+        summary: 'Moved 4 images',
+        contentId: null,
+        createdAt: '2026-03-01',
+      },
+    ]);
+    render(<CollaboratorActivitySection collectionId={7} />);
+
+    const rows = within(
+      await screen.findByRole('list', { name: 'Collaborator edits' })
+    ).getAllByRole('listitem');
+    expect(rows[0]).toHaveTextContent('CoverSet the cover');
+    expect(rows[0]).toHaveTextContent('second@example.com · March 2nd, 2026');
+    expect(rows[1]).toHaveTextContent('OrderMoved 4 images');
+    expect(mockGetActivity).toHaveBeenCalledWith(7);
+  });
+
+  it('says when no collaborator has edited yet', async () => {
+    mockGetActivity.mockResolvedValue([]);
+    render(<CollaboratorActivitySection collectionId={7} />);
+
+    expect(await screen.findByText('No collaborator edits yet.')).toBeInTheDocument();
+  });
+
+  it('reports a failed read instead of an empty log', async () => {
+    mockGetActivity.mockRejectedValue(new Error('boom'));
+    render(<CollaboratorActivitySection collectionId={7} />);
+
+    expect(
+      await screen.findByText('Collaborator activity could not be loaded.')
+    ).toBeInTheDocument();
+    expect(screen.queryByText('No collaborator edits yet.')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for GalleryAccessCodesSection — per-recipient access codes and the access log on the
+ * collection edit Info tab. The collections API is mocked; the section re-reads the code list after
+ * every change, so the mocks return the post-change list on the second read.
+ */
+
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+
+import { GalleryAccessCodesSection } from '@/app/components/ContentCollection/edit/sections/GalleryAccessCodesSection';
+import {
+  createGalleryAccessCode,
+  getGalleryAccessLog,
+  listGalleryAccessCodes,
+  revokeGalleryAccessCode,
+} from '@/app/lib/api/collections';
+import { type GalleryAccessCode } from '@/app/types/GalleryAccess';
+
+jest.mock('@/app/lib/api/collections', () => ({
+  createGalleryAccessCode: jest.fn(),
+  getGalleryAccessLog: jest.fn(),
+  listGalleryAccessCodes: jest.fn(),
+  revokeGalleryAccessCode: jest.fn(),
+}));
+
+const listMock = listGalleryAccessCodes as jest.Mock;
+const logMock = getGalleryAccessLog as jest.Mock;
+const createMock = createGalleryAccessCode as jest.Mock;
+const revokeMock = revokeGalleryAccessCode as jest.MockedFunction<typeof revokeGalleryAccessCode>;
+
+const code = (overrides: Partial<GalleryAccessCode> = {}): GalleryAccessCode => ({
+  id: 1,
+  code: 'K7QX-2M9P',
+  recipientEmail: 'mum@example.com',
+  label: null,
+  expiresAt: '2026-11-30T23:59:59Z',
+  downloadLimit: 20,
+  downloadCount: 3,
+  status: 'active',
+  createdAt: '2026-10-01T00:00:00Z',
+  ...overrides,
+});
+
+beforeEach(() => {
+  listMock.mockResolvedValue([]);
+  logMock.mockResolvedValue([]);
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('GalleryAccessCodesSection', () => {
+  it('lists codes with their status, expiry and download quota', async () => {
+    listMock.mockResolvedValue([
+      code(),
+      code({ id: 2, label: 'Parents', status: 'exhausted', downloadCount: 20, expiresAt: null }),
+    ]);
+    render(<GalleryAccessCodesSection collectionId={103} />);
+
+    const rows = await screen.findAllByRole('listitem');
+    expect(rows[0]).toHaveTextContent('mum@example.com');
+    expect(rows[0]).toHaveTextContent('K7QX-2M9P');
+    expect(rows[0]).toHaveTextContent('Active');
+    expect(rows[0]).toHaveTextContent('Expires November 30th, 2026 · 3 of 20 downloads');
+    expect(rows[1]).toHaveTextContent('Parents');
+    expect(rows[1]).toHaveTextContent('Limit reached');
+    expect(rows[1]).toHaveTextContent('No expiry');
+    expect(listMock).toHaveBeenCalledWith(103);
+  });
+
+  it('creates a code and reports whether it was emailed', async () => {
+    createMock.mockResolvedValue({ accessCode: code(), emailSent: true, reason: null });
+    render(<GalleryAccessCodesSection collectionId={103} />);
+    await screen.findByText('No access codes yet.');
+    listMock.mockResolvedValue([code()]);
+
+    fireEvent.change(screen.getByLabelText('Recipient'), {
+      target: { value: ' mum@example.com ' },
+    });
+    fireEvent.change(screen.getByLabelText('Download limit'), { target: { value: '20' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create code' }));
+
+    expect(
+      await screen.findByText('Code K7QX-2M9P created and emailed to mum@example.com.')
+    ).toHaveAttribute('role', 'status');
+    expect(createMock).toHaveBeenCalledWith(103, {
+      recipientEmail: 'mum@example.com',
+      label: null,
+      expiresAt: null,
+      downloadLimit: 20,
+      sendEmail: true,
+    });
+    expect(await screen.findByText('K7QX-2M9P')).toBeInTheDocument();
+  });
+
+  it('sends the expiry date as the end of that day', async () => {
+    createMock.mockResolvedValue({ accessCode: code(), emailSent: false, reason: null });
+    render(<GalleryAccessCodesSection collectionId={103} />);
+
+    fireEvent.change(screen.getByLabelText('Expires on'), { target: { value: '2026-11-30' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create code' }));
+
+    await waitFor(() => expect(createMock).toHaveBeenCalled());
+    const [, body] = createMock.mock.calls[0] as [
+      number,
+      { expiresAt: string; sendEmail: boolean },
+    ];
+    expect(body.expiresAt).toBe(new Date('2026-11-30T23:59:59').toISOString());
+    // No address, so nothing to email regardless of the checkbox.
+    expect(body.sendEmail).toBe(false);
+  });
+
+  it('refuses a download limit below one', async () => {
+    render(<GalleryAccessCodesSection collectionId={103} />);
+
+    fireEvent.change(screen.getByLabelText('Download limit'), { target: { value: '0' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create code' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/at least 1/);
+    expect(createMock).not.toHaveBeenCalled();
+  });
+
+  it('revokes a code and re-reads the list', async () => {
+    listMock.mockResolvedValueOnce([code()]).mockResolvedValue([]);
+    revokeMock.mockResolvedValue();
+    render(<GalleryAccessCodesSection collectionId={103} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Revoke code for mum@example.com' }));
+
+    expect(await screen.findByText('No access codes yet.')).toBeInTheDocument();
+    expect(revokeMock).toHaveBeenCalledWith(103, 1);
+  });
+
+  it('shows the access log, naming the shared password and the country', async () => {
+    logMock.mockResolvedValue([
+      {
+        codeId: 1,
+        recipientEmail: 'mum@example.com',
+        label: null,
+        firstViewedAt: '2026-10-02T09:00:00Z',
+        lastViewedAt: '2026-10-05T09:00:00Z',
+        viewCount: 4,
+        downloadCount: 3,
+        country: 'NZ',
+      },
+      {
+        codeId: null,
+        recipientEmail: null,
+        label: null,
+        firstViewedAt: '2026-10-01T09:00:00Z',
+        lastViewedAt: '2026-10-01T09:00:00Z',
+        viewCount: 1,
+        downloadCount: 0,
+        country: null,
+      },
+    ]);
+    render(<GalleryAccessCodesSection collectionId={103} />);
+
+    const table = await screen.findByRole('table');
+    const [, first, second] = within(table).getAllByRole('row');
+    expect(first).toHaveTextContent('mum@example.com');
+    expect(first).toHaveTextContent('New Zealand');
+    expect(first).toHaveTextContent('October 5th, 2026');
+    expect(second).toHaveTextContent('Shared password');
+    expect(second).toHaveTextContent('—');
+  });
+
+  it('says so when the access log cannot be read', async () => {
+    logMock.mockRejectedValue(new Error('down'));
+    render(<GalleryAccessCodesSection collectionId={103} />);
+
+    expect(await screen.findByText('The access log could not be loaded.')).toBeInTheDocument();
+  });
+});
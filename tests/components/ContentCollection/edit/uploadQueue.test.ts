@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ *
+ * Node's Blob and Web Crypto stand in for the browser's; jsdom has neither `arrayBuffer` on Blob
+ * nor `crypto.subtle`.
+ */
+
+import { createHash } from 'node:crypto';
+
+import {
+  chunkRanges,
+  confirmedBytes,
+  hashFile,
+  MIN_IMAGE_EDGE,
+  summarizeUploads,
+  type UploadItem,
+  uploadKind,
+  validateImageDimensions,
+  validateUploadFile,
+} from '@/app/components/ContentCollection/edit/uploadQueue';
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('validation', () => {
+  it('routes stills and animated media to their pipelines and refuses anything else', () => {
+    expect(uploadKind({ name: 'scan.TIF', type: '' })).toBe('image');
+    expect(uploadKind({ name: 'clip.mov', type: 'video/quicktime' })).toBe('gif');
+    expect(uploadKind({ name: 'notes.pdf', type: 'application/pdf' })).toBeNull();
+  });
+
+  it('refuses empty, oversized and unsupported files', () => {
+    expect(validateUploadFile({ name: 'a.jpg', type: 'image/jpeg', size: 10 })).toBeNull();
+    expect(validateUploadFile({ name: 'a.jpg', type: 'image/jpeg', size: 0 })).toBe(
+      'File is empty'
+    );
+    expect(validateUploadFile({ name: 'a.jpg', type: 'image/jpeg', size: 600 * 1024 ** 2 })).toBe(
+      'Larger than 500.0 MB'
+    );
+    expect(validateUploadFile({ name: 'a.zip', type: 'application/zip', size: 10 })).toMatch(
+      /Not a supported/
+    );
+  });
+
+  it('refuses thumbnails but lets undecodable formats through to the backend', () => {
+    expect(validateImageDimensions({ width: 4000, height: MIN_IMAGE_EDGE - 1 })).toMatch(
+      /Too small/
+    );
+    expect(validateImageDimensions({ width: 4000, height: 3000 })).toBeNull();
+    expect(validateImageDimensions(null)).toBeNull();
+  });
+});
+
+describe('chunking', () => {
+  it('cuts a file into fixed chunks with a short last one', () => {
+    expect(chunkRanges(12, 5)).toEqual([
+      { index: 0, start: 0, end: 5 },
+      { index: 1, start: 5, end: 10 },
+      { index: 2, start: 10, end: 12 },
+    ]);
+    expect(chunkRanges(0, 5)).toEqual([]);
+  });
+
+  it('counts the bytes of the chunks the backend holds', () => {
+    expect(confirmedBytes(12, [0, 2], 5)).toBe(7);
+    expect(confirmedBytes(12, [7], 5)).toBe(0);
+  });
+
+  it('hashes the chunk hashes, so the backend can reproduce it chunk by chunk', async () => {
+    const { hash, chunkHashes } = await hashFile(new Blob(['hello world!']), undefined, 5);
+
+    expect(chunkHashes).toEqual([sha256('hello'), sha256(' worl'), sha256('d!')]);
+    expect(hash).toBe(sha256(chunkHashes.join('')));
+  });
+
+  it('stops hashing once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(hashFile(new Blob(['data']), controller.signal, 2)).rejects.toBeDefined();
+  });
+});
+
+describe('summarizeUploads', () => {
+  const item = (status: UploadItem['status'], uploadedBytes: number): UploadItem => ({
+    id: status,
+    name: `${status}.jpg`,
+    size: 100,
+    kind: 'image',
+    status,
+    uploadedBytes,
+  });
+
+  it('reports progress over the files still meant to go up', () => {
+    expect(
+      summarizeUploads([item('done', 100), item('uploading', 50), item('rejected', 0)])
+    ).toEqual({ active: 1, done: 1, failed: 0, total: 2, percent: 75 });
+  });
+});
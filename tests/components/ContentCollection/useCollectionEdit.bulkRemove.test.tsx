@@ -30,6 +30,11 @@ import {
 import { CollectionVisibility } from '@/app/types/CollectionVisibility';
 import { type ContentImageModel } from '@/app/types/Content';
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('next/navigation', () => ({
   useRouter: () => ({ push: jest.fn(), replace: mockRouterReplace }),
 }));
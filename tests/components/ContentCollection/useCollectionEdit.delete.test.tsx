@@ -24,6 +24,11 @@ import {
 } from '@/app/types/Collection';
 import { CollectionVisibility } from '@/app/types/CollectionVisibility';
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('next/navigation', () => ({
   useRouter: () => ({ push: mockRouterPush, replace: jest.fn(), refresh: jest.fn() }),
 }));
@@ -9,7 +9,9 @@ import {
   updateCollection,
   updateCollectionRating,
 } from '@/app/lib/api/collections';
-import { createGif, createImages, updateGif, updateImages } from '@/app/lib/api/content';
+import { updateGif, updateImages } from '@/app/lib/api/content';
+import { ApiError } from '@/app/lib/api/core';
+import { completeUpload, startUpload, uploadChunk } from '@/app/lib/api/uploads';
 import { collectionStorage } from '@/app/lib/storage/collectionStorage';
 import {
   type CollectionListModel,
@@ -25,6 +27,11 @@ import {
 } from '@/app/types/Content';
 import { createCollectionContent } from '@/tests/fixtures/contentFixtures';
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('next/navigation', () => ({
   useRouter: () => ({ push: jest.fn(), replace: mockRouterReplace }),
 }));
@@ -33,7 +40,14 @@ const mockRouterReplace = jest.fn();
 
 jest.mock('@/app/lib/api/collections');
 jest.mock('@/app/lib/api/content');
+jest.mock('@/app/lib/api/uploads');
 jest.mock('@/app/lib/storage/collectionStorage');
+// jsdom has no Web Crypto digest; the hash itself is covered in uploadQueue.test.
+jest.mock('@/app/components/ContentCollection/edit/uploadQueue', () => ({
+  ...jest.requireActual('@/app/components/ContentCollection/edit/uploadQueue'),
+  hashFile: jest.fn(async (file: File) => ({ hash: file.name, chunkHashes: ['c0'] })),
+  readImageDimensions: jest.fn(async () => null),
+}));
 
 jest.mock('@/app/utils/contentLayout', () => ({
   processContentBlocks: (content: unknown[]) => content,
@@ -50,8 +64,9 @@ const mockSetCollectionPeople = setCollectionPeople as jest.MockedFunction<
 >;
 const mockUpdateImages = updateImages as jest.MockedFunction<typeof updateImages>;
 const mockUpdateGif = updateGif as jest.MockedFunction<typeof updateGif>;
-const mockCreateImages = createImages as jest.MockedFunction<typeof createImages>;
-const mockCreateGif = createGif as jest.MockedFunction<typeof createGif>;
+const mockStartUpload = startUpload as jest.MockedFunction<typeof startUpload>;
+const mockUploadChunk = uploadChunk as jest.MockedFunction<typeof uploadChunk>;
+const mockCompleteUpload = completeUpload as jest.MockedFunction<typeof completeUpload>;
 const mockStorageGetFull = collectionStorage.getFull as jest.MockedFunction<
   typeof collectionStorage.getFull
 >;
@@ -677,9 +692,14 @@ describe('useCollectionEdit — handler tests', () => {
     });
   });
 
-  describe('handleMediaUpload — per-file image uploads', () => {
-    function makeImageFiles(names: string[]): FileList {
-      return makeFileList(names.map(name => new File(['data'], name, { type: 'image/jpeg' })));
+  describe('handleMediaUpload — chunked uploads', () => {
+    function makeMediaFiles(names: string[]): FileList {
+      return makeFileList(
+        names.map(
+          name =>
+            new File(['data'], name, { type: name.endsWith('.mp4') ? 'video/mp4' : 'image/jpeg' })
+        )
+      );
     }
 
     /** Drive an upload through the add-mode Upload cell, the hook's public surface. */
@@ -695,51 +715,65 @@ describe('useCollectionEdit — handler tests', () => {
       });
     }
 
-    it('uploads each still image in its own POST and refreshes exactly once', async () => {
-      mockCreateImages.mockResolvedValue({ successful: [], failed: [], skipped: [] });
+    beforeEach(() => {
+      mockStartUpload.mockImplementation(async (_collectionId, { filename }) => ({
+        uploadId: `session-${filename}`,
+        receivedChunks: [],
+      }));
+      mockUploadChunk.mockImplementation(async () => {});
+      mockCompleteUpload.mockResolvedValue(null);
+    });
 
+    it('opens a session per file, stills and video alike, and refreshes exactly once', async () => {
       const { result } = renderEdit({ enabled: true });
       await waitFor(() => expect(result.current.currentState).not.toBeNull());
       mockGetCollectionUpdateMetadata.mockClear();
 
-      await uploadViaAddCell(result, makeImageFiles(['one.jpg', 'two.jpg', 'three.jpg']));
+      await uploadViaAddCell(result, makeMediaFiles(['one.jpg', 'two.jpg', 'clip.mp4']));
 
-      // One createImages POST per file, each carrying exactly that single file.
-      await waitFor(() => expect(mockCreateImages).toHaveBeenCalledTimes(3));
-      const uploadedNames = mockCreateImages.mock.calls.map(call => {
-        const formData = call[1];
-        expect(formData.getAll('files')).toHaveLength(1);
-        return (formData.get('files') as File).name;
-      });
-      expect(uploadedNames).toEqual(['one.jpg', 'two.jpg', 'three.jpg']);
-      expect(mockCreateGif).not.toHaveBeenCalled();
+      await waitFor(() => expect(mockCompleteUpload).toHaveBeenCalledTimes(3));
+      expect(
+        mockStartUpload.mock.calls.map(([id, request]) => [id, request.filename, request.kind])
+      ).toEqual([
+        [42, 'one.jpg', 'image'],
+        [42, 'two.jpg', 'image'],
+        [42, 'clip.mp4', 'gif'],
+      ]);
 
-      // Exactly ONE refresh fetch after the whole loop, not one per file.
+      // Exactly ONE refresh fetch after the whole queue, not one per file.
       await waitFor(() => expect(mockGetCollectionUpdateMetadata).toHaveBeenCalledTimes(1));
+      expect(result.current.uploads.items.map(item => item.status)).toEqual([
+        'done',
+        'done',
+        'done',
+      ]);
       expect(result.current.error).toBeNull();
     });
 
-    it('reports a failing file by name while the rest upload and the refresh still runs', async () => {
-      mockCreateImages.mockImplementation(async (_collectionId, formData) => {
-        const file = formData.get('files') as File;
-        if (file.name === 'two.jpg') throw new Error('boom');
-        return { successful: [], failed: [], skipped: [] };
+    it('marks a failing file in the queue while the rest upload and the refresh still runs', async () => {
+      mockUploadChunk.mockImplementation(async uploadId => {
+        if (uploadId === 'session-two.jpg') throw new ApiError('Checksum mismatch', 422);
       });
 
       const { result } = renderEdit({ enabled: true });
       await waitFor(() => expect(result.current.currentState).not.toBeNull());
       mockGetCollectionUpdateMetadata.mockClear();
 
-      await uploadViaAddCell(result, makeImageFiles(['one.jpg', 'two.jpg', 'three.jpg']));
+      await uploadViaAddCell(result, makeMediaFiles(['one.jpg', 'two.jpg', 'three.jpg']));
 
       // All three files were attempted despite the middle one failing.
-      await waitFor(() => expect(mockCreateImages).toHaveBeenCalledTimes(3));
+      await waitFor(() => expect(mockStartUpload).toHaveBeenCalledTimes(3));
       // The single refresh still happened, so succeeded files land in state.
       await waitFor(() => expect(mockGetCollectionUpdateMetadata).toHaveBeenCalledTimes(1));
-      // The error names the failed file — and only that file.
-      await waitFor(() => expect(result.current.error).toContain('two.jpg'));
-      expect(result.current.error).not.toContain('one.jpg');
-      expect(result.current.error).not.toContain('three.jpg');
+      // The failure sits on the file's own row, not in the page-level error.
+      expect(
+        result.current.uploads.items.map(item => [item.name, item.status, item.message])
+      ).toEqual([
+        ['one.jpg', 'done', undefined],
+        ['two.jpg', 'failed', 'Checksum mismatch'],
+        ['three.jpg', 'done', undefined],
+      ]);
+      expect(result.current.error).toBeNull();
     });
   });
 
@@ -0,0 +1,178 @@
+/**
+ * Undo coverage for the writes useCollectionEdit makes on the side of another edit: locations a
+ * collection save pushes down onto its content, metadata-sheet saves, and the reindex that comes
+ * with switching a CHRONOLOGICAL collection to ORDERED. Each must come back with one undo.
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+import { useCollectionEdit } from '@/app/components/ContentCollection/edit/useCollectionEdit';
+import {
+  getCollectionUpdateMetadata,
+  getMetadata,
+  reorderCollectionContent,
+  updateCollection,
+} from '@/app/lib/api/collections';
+import { updateGif, updateImages } from '@/app/lib/api/content';
+import { collectionStorage } from '@/app/lib/storage/collectionStorage';
+import {
+  type CollectionModel,
+  type CollectionUpdateResponseDTO,
+  type GeneralMetadataDTO,
+} from '@/app/types/Collection';
+import { type AnyContentModel } from '@/app/types/Content';
+import { makeCollection, makeState } from '@/tests/fixtures/collectionEditFixtures';
+import { createGifContent, createImageContent } from '@/tests/fixtures/contentFixtures';
+
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: jest.fn(), replace: jest.fn() }),
+}));
+
+jest.mock('@/app/lib/api/collections');
+jest.mock('@/app/lib/api/content');
+jest.mock('@/app/lib/storage/collectionStorage');
+
+jest.mock('@/app/utils/contentLayout', () => ({
+  processContentBlocks: (content: unknown[]) => content,
+}));
+
+jest.mock('@/app/components/ContentCollection/edit/collectionEditUtils', () => ({
+  ...jest.requireActual('@/app/components/ContentCollection/edit/collectionEditUtils'),
+  revalidateCollectionCache: jest.fn(async () => {}),
+  revalidateMetadataCache: jest.fn(async () => {}),
+}));
+
+const mockGetCollectionUpdateMetadata = getCollectionUpdateMetadata as jest.MockedFunction<
+  typeof getCollectionUpdateMetadata
+>;
+const mockUpdateCollection = updateCollection as jest.MockedFunction<typeof updateCollection>;
+const mockReorderCollectionContent = reorderCollectionContent as jest.MockedFunction<
+  typeof reorderCollectionContent
+>;
+const mockUpdateImages = updateImages as jest.MockedFunction<typeof updateImages>;
+const mockUpdateGif = updateGif as jest.MockedFunction<typeof updateGif>;
+
+const PARIS = { id: 5, name: 'Paris', slug: 'paris' };
+
+const EMPTY_METADATA: GeneralMetadataDTO = {
+  tags: [],
+  people: [],
+  locations: [],
+  cameras: [],
+  lenses: [],
+  filmTypes: [],
+  filmFormats: [],
+  collections: [],
+};
+
+/** Render the hook against `collection`, with the server holding the same state. */
+async function renderLoaded(collection: CollectionModel, state?: CollectionUpdateResponseDTO) {
+  mockGetCollectionUpdateMetadata.mockResolvedValue(state ?? { ...makeState(), collection });
+  const hook = renderHook(() =>
+    useCollectionEdit({ collection, slug: collection.slug, enabled: true })
+  );
+  await waitFor(() => expect(hook.result.current.currentState).not.toBeNull());
+  return hook;
+}
+
+describe('useCollectionEdit — undo', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (collectionStorage.getFull as jest.Mock).mockReturnValue(null);
+    (getMetadata as jest.Mock).mockResolvedValue(EMPTY_METADATA);
+    mockUpdateImages.mockResolvedValue({ updatedImages: [], newMetadata: {} });
+    mockReorderCollectionContent.mockResolvedValue(makeCollection());
+  });
+
+  it('takes back the locations a save inherited onto content, along with the save', async () => {
+    const unplaced = createImageContent(11, { locations: [] });
+    const unplacedGif = createGifContent(21, { locations: [] });
+    const collection = makeCollection({ content: [unplaced, unplacedGif] });
+    const { result } = await renderLoaded(collection);
+    mockUpdateCollection.mockResolvedValue({
+      ...makeState({ locations: [PARIS], content: [unplaced, unplacedGif] }),
+    });
+
+    act(() => result.current.setUpdateField('locations', { prev: [PARIS.id] }));
+    await act(async () => {
+      await result.current.handleUpdate();
+    });
+    expect(mockUpdateImages).toHaveBeenCalledWith([{ id: 11, locations: { prev: [5] } }]);
+    expect(result.current.history.undoLabel).toBe('Locations');
+
+    await act(async () => {
+      await result.current.history.undo();
+    });
+
+    expect(mockUpdateImages).toHaveBeenLastCalledWith([{ id: 11, locations: { remove: [5] } }]);
+    expect(mockUpdateGif).toHaveBeenLastCalledWith(21, { locations: { remove: [5] } });
+    expect(mockUpdateCollection).toHaveBeenLastCalledWith(1, { id: 1, locations: { remove: [5] } });
+  });
+
+  it('reverses an image metadata save', async () => {
+    const image = createImageContent(11, { title: 'Old', rating: 3 });
+    const { result } = await renderLoaded(makeCollection({ content: [image] }));
+
+    await act(async () => {
+      await result.current.handleMetadataSaveSuccess({
+        updatedImages: [{ ...image, title: 'New', rating: 5 }],
+        newMetadata: {},
+      });
+    });
+    expect(result.current.history.undoLabel).toBe('Image details');
+
+    await act(async () => {
+      await result.current.history.undo();
+    });
+
+    expect(mockUpdateImages).toHaveBeenLastCalledWith([{ id: 11, title: 'Old', rating: 3 }]);
+  });
+
+  it('reverses a GIF metadata save', async () => {
+    const gif = createGifContent(21, { title: 'Loop', rating: 2 });
+    const { result } = await renderLoaded(makeCollection({ content: [gif] }));
+
+    await act(async () => {
+      await result.current.handleGifSaveSuccess({ ...gif, title: 'Renamed' });
+    });
+    await act(async () => {
+      await result.current.history.undo();
+    });
+
+    expect(mockUpdateGif).toHaveBeenLastCalledWith(21, { title: 'Loop' });
+  });
+
+  it('undoes the switch to ORDERED back to CHRONOLOGICAL and the order it replaced', async () => {
+    // Saved order 1, 2; capture-date order 2, 1 — the switch reindexes to the latter.
+    const content: AnyContentModel[] = [
+      createImageContent(1, { orderIndex: 0, captureDate: '2024-01-05' }),
+      createImageContent(2, { orderIndex: 1, captureDate: '2024-01-01' }),
+    ];
+    const collection = makeCollection({ displayMode: 'CHRONOLOGICAL', content });
+    const { result } = await renderLoaded(collection);
+    mockUpdateCollection.mockResolvedValue(makeState({ displayMode: 'ORDERED', content }));
+
+    await act(async () => {
+      result.current.enterReorder();
+    });
+    await waitFor(() => expect(result.current.history.undoLabel).toBe('Custom order'));
+
+    await act(async () => {
+      await result.current.history.undo();
+    });
+
+    expect(mockUpdateCollection).toHaveBeenLastCalledWith(
+      1,
+      expect.objectContaining({ displayMode: 'CHRONOLOGICAL' })
+    );
+    expect(mockReorderCollectionContent).toHaveBeenLastCalledWith(1, [
+      { contentId: 1, newOrderIndex: 0 },
+      { contentId: 2, newOrderIndex: 1 },
+    ]);
+  });
+});
@@ -8,7 +8,8 @@ import {
   updateCollection,
   updateCollectionRating,
 } from '@/app/lib/api/collections';
-import { createImages, updateGif } from '@/app/lib/api/content';
+import { updateGif } from '@/app/lib/api/content';
+import { completeUpload, startUpload } from '@/app/lib/api/uploads';
 import { collectionStorage } from '@/app/lib/storage/collectionStorage';
 import {
   type CollectionListModel,
@@ -23,12 +24,23 @@ import {
   type ContentImageModel,
 } from '@/app/types/Content';
 
+jest.mock('@/app/lib/actions/revalidateCache', () => ({
+  revalidateCacheAction: jest.fn(async () => ({ ok: true })),
+  revalidateCollaboratorCacheAction: jest.fn(async () => ({ ok: true })),
+}));
+
 jest.mock('next/navigation', () => ({
   useRouter: () => ({ push: jest.fn(), replace: jest.fn(), refresh: jest.fn() }),
 }));
 
 jest.mock('@/app/lib/api/collections');
 jest.mock('@/app/lib/api/content');
+jest.mock('@/app/lib/api/uploads');
+jest.mock('@/app/components/ContentCollection/edit/uploadQueue', () => ({
+  ...jest.requireActual('@/app/components/ContentCollection/edit/uploadQueue'),
+  hashFile: jest.fn(async () => ({ hash: 'h', chunkHashes: ['c0'] })),
+  readImageDimensions: jest.fn(async () => null),
+}));
 jest.mock('@/app/lib/storage/collectionStorage');
 
 jest.mock('@/app/utils/contentLayout', () => ({
@@ -49,7 +61,8 @@ const mockUpdateCollectionRating = updateCollectionRating as jest.MockedFunction
 const mockStorageGetFull = collectionStorage.getFull as jest.MockedFunction<
   typeof collectionStorage.getFull
 >;
-const mockCreateImages = createImages as jest.MockedFunction<typeof createImages>;
+const mockStartUpload = startUpload as jest.MockedFunction<typeof startUpload>;
+const mockCompleteUpload = completeUpload as jest.MockedFunction<typeof completeUpload>;
 const mockUpdateGif = updateGif as jest.MockedFunction<typeof updateGif>;
 
 function makeMetadata(overrides: Partial<GeneralMetadataDTO> = {}): GeneralMetadataDTO {
@@ -574,14 +587,17 @@ describe('useCollectionEdit', () => {
       expect(save?.disabled).toBe(false);
     });
 
-    it('browse Add cell shows "Uploading…" and is disabled while operationLoading is true', async () => {
-      // Arrange: hold createImages open so operationLoading stays true
+    it('browse Add cell shows "Uploading…" but stays enabled while the upload queue runs', async () => {
+      // Arrange: hold the session open so the file stays in flight
       let resolveUpload!: () => void;
       const uploadPromise = new Promise<void>(resolve => {
         resolveUpload = resolve;
       });
-      mockCreateImages.mockReturnValue(uploadPromise as unknown as ReturnType<typeof createImages>);
-      // refreshCollectionAfterOperation calls getCollectionUpdateMetadata after the inner fn
+      mockStartUpload.mockImplementation(async () => {
+        await uploadPromise;
+        return { uploadId: 'u1', receivedChunks: [0] };
+      });
+      mockCompleteUpload.mockResolvedValue(null);
       mockGetCollectionUpdateMetadata.mockResolvedValue(makeResponse());
 
       const { result } = renderEdit({ enabled: false });
@@ -600,15 +616,16 @@ describe('useCollectionEdit', () => {
         item: (i: number) => (i === 0 ? file : null),
       } as unknown as FileList;
 
-      // Fire the upload — operationLoading goes true; add mode exits and we land in browse
-      act(() => {
+      // Fire the upload — add mode exits and we land in browse
+      await act(async () => {
         uploadCell!.fileInput!.onFiles(files);
       });
 
-      // While in flight the browse Add cell should be labelled 'Uploading…' and disabled
+      // While in flight the browse Add cell is labelled 'Uploading…' and still opens add mode,
+      // so the next batch can join the queue
       const addCell = result.current.bottomBarCells.find(c => c.key === 'add');
       expect(addCell?.label).toBe('Uploading…');
-      expect(addCell?.disabled).toBe(true);
+      expect(addCell?.disabled).toBe(false);
 
       // Resolve upload and verify label returns to 'Add'
       await act(async () => {
@@ -617,8 +634,9 @@ describe('useCollectionEdit', () => {
         await new Promise(resolve => setTimeout(resolve, 0));
       });
 
-      const addCellAfter = result.current.bottomBarCells.find(c => c.key === 'add');
-      expect(addCellAfter?.label).toBe('Add');
+      await waitFor(() =>
+        expect(result.current.bottomBarCells.find(c => c.key === 'add')?.label).toBe('Add')
+      );
     });
   });
 
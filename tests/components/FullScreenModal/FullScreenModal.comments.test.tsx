@@ -0,0 +1,232 @@
+/**
+ * Per-image comments in the FullScreenModal: the "Comments" section of the metadata panel, the
+ * pins over the photo, and the pin-placing click.
+ *
+ * Comments exist only on client galleries, for the collection's clients and the admin — everyone
+ * else gets the panel without the section and no request at all. An armed pin takes over the next
+ * click on the photo (which otherwise toggles immersive mode) and rides along on the next thread.
+ */
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+
+import { useMe } from '@/app/components/auth/MeProvider';
+import { FullScreenModal } from '@/app/components/FullScreenModal/FullScreenModal';
+import { ApiError } from '@/app/lib/api/core';
+import {
+  listImageComments,
+  postImageComment,
+  resolveImageCommentThread,
+} from '@/app/lib/api/imageComments';
+import { type MeResponse } from '@/app/types/Auth';
+import type { CollectionModel } from '@/app/types/Collection';
+import type { ContentImageModel } from '@/app/types/Content';
+import { type ImageCommentThread } from '@/app/types/ImageComments';
+
+// The Modal primitive locks body scroll via useBodyScrollLock, whose cleanup calls window.scrollTo —
+// not implemented in jsdom. These tests only assert on markup and handlers, so stub the lock.
+jest.mock('@/app/hooks/useBodyScrollLock', () => ({ useBodyScrollLock: jest.fn() }));
+jest.mock('@/app/components/auth/MeProvider', () => ({ useMe: jest.fn(() => null) }));
+jest.mock('@/app/lib/api/imageComments', () => ({
+  listImageComments: jest.fn(),
+  postImageComment: jest.fn(),
+  resolveImageCommentThread: jest.fn(),
+  reopenImageCommentThread: jest.fn(),
+}));
+
+const useMeMock = useMe as jest.Mock;
+const listMock = listImageComments as jest.Mock;
+const postMock = postImageComment as jest.Mock;
+const resolveMock = resolveImageCommentThread as jest.Mock;
+
+const img = (id: number): ContentImageModel =>
+  ({
+    id,
+    contentType: 'IMAGE',
+    imageUrl: `https://cdn.example/${id}.jpg`,
+    imageWidth: 1000,
+    imageHeight: 800,
+    orderIndex: id,
+    visible: true,
+    title: `Image ${id}`,
+    locations: [],
+  }) as ContentImageModel;
+
+const clientGallery = { id: 7, isClient: true } as CollectionModel;
+
+const me = (overrides: Partial<MeResponse> = {}): MeResponse => ({
+  email: 'sam@example.com',
+  isAdmin: false,
+  mfaSatisfied: true,
+  galleries: [{ collectionId: 7, role: 'CLIENT' }],
+  ...overrides,
+});
+
+const thread = (overrides: Partial<ImageCommentThread> = {}): ImageCommentThread => ({
+  id: 50,
+  collectionId: 7,
+  contentId: 2,
+  pin: { x: 0.4, y: 0.3 },
+  resolvedAt: null,
+  comments: [
+    {
+      id: 51,
+      authorName: 'Sam Smith',
+      authorIsAdmin: false,
+      body: 'Soften the shadow?',
+      createdAt: '2026-10-19T10:00:00Z',
+    },
+  ],
+  ...overrides,
+});
+
+const noop = () => {};
+
+function renderModal({
+  collectionData = clientGallery as CollectionModel | undefined,
+  toggleImmersive = jest.fn(),
+} = {}) {
+  const zoomTargetRef = { current: null as HTMLDivElement | null };
+  render(
+    <FullScreenModal
+      fullScreenState={{ images: [img(1), img(2)], currentIndex: 1 }}
+      loadedImageIds={new Set<number>([1, 2])}
+      setLoadedImageIds={noop}
+      modalRef={{ current: null }}
+      zoomTargetRef={zoomTargetRef}
+      isZoomed={false}
+      toggleImmersive={toggleImmersive}
+      hideImage={jest.fn()}
+      isSwiping={{ current: false }}
+      showMetadata
+      toggleMetadata={noop}
+      router={{ push: jest.fn(), replace: jest.fn(), prefetch: jest.fn() } as never}
+      collectionData={collectionData}
+      navigateToNext={noop}
+      navigateToPrevious={noop}
+    />
+  );
+  return { zoomTargetRef, toggleImmersive };
+}
+
+beforeEach(() => {
+  useMeMock.mockReturnValue(me());
+  listMock.mockResolvedValue([thread()]);
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('FullScreenModal — image comments', () => {
+  it('lists the image’s threads for a client of the gallery, numbered like their pins', async () => {
+    renderModal();
+
+    const section = await screen.findByRole('region', { name: 'Comments' });
+    expect(await within(section).findByText('Soften the shadow?')).toBeInTheDocument();
+    expect(within(section).getByLabelText('Pin 1')).toBeInTheDocument();
+    expect(listMock).toHaveBeenCalledWith(7, 2, expect.any(AbortSignal));
+
+    const pin = document.querySelector('.pinLayer .pin');
+    expect(pin).toHaveTextContent('1');
+    expect(pin).toHaveStyle({ left: '40%', top: '30%' });
+  });
+
+  it('offers nothing to a viewer without a client grant', () => {
+    useMeMock.mockReturnValue(me({ galleries: [{ collectionId: 7, role: 'GENERAL' }] }));
+    renderModal();
+
+    expect(screen.queryByRole('region', { name: 'Comments' })).not.toBeInTheDocument();
+    expect(listMock).not.toHaveBeenCalled();
+  });
+
+  it('offers nothing outside a client gallery, even to the admin', () => {
+    useMeMock.mockReturnValue(me({ isAdmin: true }));
+    renderModal({ collectionData: { id: 7, isClient: false } as CollectionModel });
+
+    expect(screen.queryByRole('region', { name: 'Comments' })).not.toBeInTheDocument();
+    expect(listMock).not.toHaveBeenCalled();
+  });
+
+  it('replies within a thread', async () => {
+    const reply = {
+      id: 52,
+      authorName: 'Sam Smith',
+      authorIsAdmin: false,
+      body: 'Thanks!',
+      createdAt: '2026-10-19T11:00:00Z',
+    };
+    postMock.mockResolvedValue(thread({ comments: [...thread().comments, reply] }));
+    renderModal();
+
+    fireEvent.change(await screen.findByRole('textbox', { name: 'Reply' }), {
+      target: { value: ' Thanks! ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Reply' }));
+
+    expect(await screen.findByText('Thanks!')).toBeInTheDocument();
+    expect(postMock).toHaveBeenCalledWith(7, 2, { body: 'Thanks!', pin: null, threadId: 50 });
+  });
+
+  it('places a pin with the next click on the photo instead of toggling immersive', async () => {
+    listMock.mockResolvedValue([]);
+    postMock.mockResolvedValue(thread({ id: 60, pin: { x: 0.5, y: 0.25 } }));
+    const { zoomTargetRef, toggleImmersive } = renderModal();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Pin a point' }));
+    zoomTargetRef.current!.getBoundingClientRect = () =>
+      ({ left: 100, top: 50, width: 200, height: 100 }) as DOMRect;
+    fireEvent.click(screen.getByAltText('Image 2'), { clientX: 200, clientY: 75 });
+
+    expect(toggleImmersive).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Remove pin' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Comment on this image' }), {
+      target: { value: 'Retouch here' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Post' }));
+
+    await waitFor(() =>
+      expect(postMock).toHaveBeenCalledWith(7, 2, {
+        body: 'Retouch here',
+        pin: { x: 0.5, y: 0.25 },
+        threadId: null,
+      })
+    );
+    expect(await screen.findByRole('button', { name: 'Pin a point' })).toBeInTheDocument();
+
+    // Disarmed once posted: the photo toggles immersive again.
+    fireEvent.click(screen.getByAltText('Image 2'));
+    expect(toggleImmersive).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives the admin a Resolve control, and stops replies on a resolved thread', async () => {
+    useMeMock.mockReturnValue(me({ isAdmin: true, galleries: [] }));
+    resolveMock.mockResolvedValue(thread({ resolvedAt: '2026-10-19T12:00:00Z' }));
+    renderModal();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Resolve' }));
+
+    expect(await screen.findByText('Resolved')).toBeInTheDocument();
+    expect(resolveMock).toHaveBeenCalledWith(50);
+    expect(screen.getByRole('button', { name: 'Reopen' })).toBeInTheDocument();
+    expect(screen.queryByRole('textbox', { name: 'Reply' })).not.toBeInTheDocument();
+  });
+
+  it('hides Resolve from clients', async () => {
+    renderModal();
+
+    await screen.findByText('Soften the shadow?');
+    expect(screen.queryByRole('button', { name: 'Resolve' })).not.toBeInTheDocument();
+  });
+
+  it('says why a post failed and keeps the draft', async () => {
+    postMock.mockRejectedValue(new ApiError('expired', 401));
+    renderModal();
+
+    const box = await screen.findByRole('textbox', { name: 'Comment on this image' });
+    fireEvent.change(box, { target: { value: 'Lovely' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Post' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/session has expired/i);
+    expect(box).toHaveValue('Lovely');
+  });
+});
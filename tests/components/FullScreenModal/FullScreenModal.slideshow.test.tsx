@@ -0,0 +1,164 @@
+/**
+ * Slideshow controls and transitions in FullScreenModal.
+ *
+ * The viewer offers "Start slideshow" only when there is more than one image and a `slideshow` is
+ * wired; a running show expands into a toolbar whose controls call straight through to the hook,
+ * keeps the prev/next rails up at the ends of a looping show, and tags the loaded photo with the
+ * chosen transition. Immersive mode hides the toolbar with the rest of the chrome.
+ */
+import { fireEvent, render, screen } from '@testing-library/react';
+
+import { FullScreenModal } from '@/app/components/FullScreenModal/FullScreenModal';
+import { type Slideshow } from '@/app/hooks/useSlideshow';
+import type { ContentImageModel } from '@/app/types/Content';
+import { DEFAULT_SLIDESHOW_SETTINGS, kenBurnsMotion } from '@/app/utils/slideshow';
+
+// The Modal primitive locks body scroll via useBodyScrollLock, whose cleanup calls window.scrollTo —
+// not implemented in jsdom. We only assert on markup and handlers, so stub the lock.
+jest.mock('@/app/hooks/useBodyScrollLock', () => ({ useBodyScrollLock: jest.fn() }));
+
+const img = (id: number): ContentImageModel =>
+  ({
+    id,
+    contentType: 'IMAGE',
+    imageUrl: `https://cdn.example/${id}.jpg`,
+    imageWidth: 1000,
+    imageHeight: 800,
+    orderIndex: id,
+    visible: true,
+    title: `Image ${id}`,
+    locations: [],
+  }) as ContentImageModel;
+
+const noop = () => {};
+
+const slideshowStub = (overrides: Partial<Slideshow> = {}): Slideshow => ({
+  active: false,
+  playing: false,
+  settings: DEFAULT_SLIDESHOW_SETTINGS,
+  hasNext: true,
+  hasPrevious: true,
+  start: jest.fn(),
+  stop: jest.fn(),
+  togglePlaying: jest.fn(),
+  updateSettings: jest.fn(),
+  next: jest.fn(),
+  previous: jest.fn(),
+  ...overrides,
+});
+
+function renderModal({
+  slideshow,
+  images = [img(1), img(2), img(3)],
+  currentIndex = 2,
+  immersive = false,
+}: {
+  slideshow?: Slideshow;
+  images?: ContentImageModel[];
+  currentIndex?: number;
+  immersive?: boolean;
+}) {
+  return render(
+    <FullScreenModal
+      fullScreenState={{ images, currentIndex }}
+      loadedImageIds={new Set<number>(images.map(i => i.id))}
+      setLoadedImageIds={noop}
+      modalRef={{ current: null }}
+      zoomTargetRef={{ current: null }}
+      isZoomed={false}
+      immersive={immersive}
+      hideImage={noop}
+      isSwiping={{ current: false }}
+      showMetadata={false}
+      toggleMetadata={noop}
+      router={{ push: jest.fn(), replace: jest.fn(), prefetch: jest.fn() } as never}
+      navigateToNext={noop}
+      navigateToPrevious={noop}
+      slideshow={slideshow}
+    />
+  );
+}
+
+describe('FullScreenModal — slideshow', () => {
+  it('offers "Start slideshow" for a multi-image viewer and starts on click', () => {
+    const slideshow = slideshowStub();
+    renderModal({ slideshow });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start slideshow' }));
+
+    expect(slideshow.start).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('toolbar', { name: 'Slideshow' })).not.toBeInTheDocument();
+  });
+
+  it('has no slideshow for a single image, or without a slideshow prop', () => {
+    const { unmount } = renderModal({
+      slideshow: slideshowStub(),
+      images: [img(1)],
+      currentIndex: 0,
+    });
+    expect(screen.queryByRole('button', { name: 'Start slideshow' })).not.toBeInTheDocument();
+    unmount();
+
+    renderModal({});
+    expect(screen.queryByRole('button', { name: 'Start slideshow' })).not.toBeInTheDocument();
+  });
+
+  it('wires the running toolbar to the hook', () => {
+    const slideshow = slideshowStub({ active: true, playing: true });
+    renderModal({ slideshow });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pause slideshow' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next slide' }));
+    fireEvent.change(screen.getByLabelText('Slide interval'), { target: { value: '12' } });
+    fireEvent.change(screen.getByLabelText('Transition'), { target: { value: 'kenburns' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Shuffle' }));
+    fireEvent.click(screen.getByRole('button', { name: 'End slideshow' }));
+
+    expect(slideshow.togglePlaying).toHaveBeenCalled();
+    expect(slideshow.next).toHaveBeenCalled();
+    expect(slideshow.updateSettings).toHaveBeenCalledWith({ intervalMs: 12_000 });
+    expect(slideshow.updateSettings).toHaveBeenCalledWith({ transition: 'kenburns' });
+    expect(slideshow.updateSettings).toHaveBeenCalledWith({ shuffle: true });
+    expect(slideshow.stop).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Loop' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('lists a deep-linked interval the picker does not offer', () => {
+    renderModal({
+      slideshow: slideshowStub({
+        active: true,
+        settings: { ...DEFAULT_SLIDESHOW_SETTINGS, intervalMs: 45_000 },
+      }),
+    });
+
+    expect(screen.getByLabelText('Slide interval')).toHaveValue('45');
+  });
+
+  it('keeps the next rail on the last image of a looping show', () => {
+    renderModal({ slideshow: slideshowStub({ active: true, playing: true }) });
+
+    expect(screen.getByRole('button', { name: 'Next image' })).toBeInTheDocument();
+  });
+
+  it('drifts the loaded photo with the Ken Burns transforms, frozen while paused', () => {
+    renderModal({
+      slideshow: slideshowStub({
+        active: true,
+        playing: false,
+        settings: { ...DEFAULT_SLIDESHOW_SETTINGS, transition: 'kenburns', intervalMs: 8000 },
+      }),
+    });
+
+    const photo = screen.getByRole('img');
+    expect(photo.className).toMatch(/slideKenBurns/);
+    expect(photo.className).toMatch(/slidePaused/);
+    expect(photo.style.getPropertyValue('--kb-to')).toBe(kenBurnsMotion(2).to);
+    expect(photo.style.getPropertyValue('--slide-duration')).toBe('8000ms');
+  });
+
+  it('hides the toolbar in immersive mode', () => {
+    renderModal({ slideshow: slideshowStub({ active: true }), immersive: true });
+
+    expect(screen.queryByRole('toolbar', { name: 'Slideshow' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,86 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+
+import { ImageCommentInbox } from '@/app/(admin)/comments/ImageCommentInbox';
+import { resolveImageCommentThread } from '@/app/lib/api/imageComments';
+import { type ImageCommentInboxGroup, type ImageCommentThread } from '@/app/types/ImageComments';
+
+jest.mock('@/app/lib/api/imageComments', () => ({
+  resolveImageCommentThread: jest.fn(),
+}));
+
+const resolveMock = resolveImageCommentThread as jest.Mock;
+
+const thread = (id: number, body: string): ImageCommentThread => ({
+  id,
+  collectionId: 103,
+  contentId: 3003,
+  pin: null,
+  resolvedAt: null,
+  comments: [
+    { id: id + 1, authorName: 'Sam Smith', authorIsAdmin: false, body, createdAt: '2026-10-19' },
+  ],
+});
+
+const groups: ImageCommentInboxGroup[] = [
+  {
+    collectionId: 103,
+    title: 'Smith Wedding',
+    slug: 'smith-wedding',
+    images: [
+      {
+        contentId: 3003,
+        title: 'First dance',
+        imageUrl: 'https://cdn.example/3003.jpg',
+        threads: [thread(801, 'Soften the shadow?'), thread(810, 'Crop tighter?')],
+      },
+    ],
+  },
+];
+
+describe('ImageCommentInbox', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders an empty state when nothing is open', () => {
+    render(<ImageCommentInbox initialGroups={[]} />);
+    expect(screen.getByText(/no open image comments/i)).toBeInTheDocument();
+  });
+
+  it('groups threads under their collection and links each image into the viewer', () => {
+    render(<ImageCommentInbox initialGroups={groups} />);
+
+    expect(screen.getByRole('link', { name: 'Smith Wedding' })).toHaveAttribute(
+      'href',
+      '/smith-wedding'
+    );
+    expect(
+      screen.getByRole('link', { name: /open first dance in smith wedding/i })
+    ).toHaveAttribute('href', '/smith-wedding?image=3003');
+    expect(screen.getByText('Soften the shadow?')).toBeInTheDocument();
+    expect(screen.getByText('Crop tighter?')).toBeInTheDocument();
+  });
+
+  it('drops a thread once resolved, and the collection with its last one', async () => {
+    resolveMock.mockResolvedValue({});
+    render(<ImageCommentInbox initialGroups={groups} />);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Resolve' })[0]!);
+    await screen.findByText('Crop tighter?');
+    expect(await screen.findAllByRole('button', { name: 'Resolve' })).toHaveLength(1);
+    expect(resolveMock).toHaveBeenCalledWith(801);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Resolve' }));
+    expect(await screen.findByText(/no open image comments/i)).toBeInTheDocument();
+  });
+
+  it('keeps the thread and says so when resolving fails', async () => {
+    resolveMock.mockRejectedValue(new Error('down'));
+    render(<ImageCommentInbox initialGroups={groups} />);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Resolve' })[0]!);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/could not resolve/i);
+    expect(screen.getByText('Soften the shadow?')).toBeInTheDocument();
+  });
+});
@@ -13,9 +13,11 @@ jest.mock('next/navigation', () => ({
 jest.mock('@/app/lib/api/auth', () => ({
   login: jest.fn(),
   loginWithPasskey: jest.fn(),
+  me: jest.fn(),
 }));
 
 const mockLogin = authApi.login as jest.MockedFunction<typeof authApi.login>;
+const mockMe = authApi.me as jest.MockedFunction<typeof authApi.me>;
 const mockLoginWithPasskey = authApi.loginWithPasskey as jest.MockedFunction<
   typeof authApi.loginWithPasskey
 >;
@@ -26,6 +28,12 @@ const PASSWORD_PLACEHOLDER = 'Your password';
 describe('LoginForm', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockMe.mockResolvedValue({
+      email: 'a@b.com',
+      isAdmin: false,
+      mfaSatisfied: true,
+      galleries: [],
+    });
   });
 
   it('requires email and password before calling login', async () => {
@@ -51,6 +59,76 @@ describe('LoginForm', () => {
     await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/user'));
   });
 
+  describe('second factor', () => {
+    const originalEnv = process.env.NEXT_PUBLIC_ENV;
+
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_ENV = 'production';
+      mockLogin.mockResolvedValue();
+    });
+
+    afterEach(() => {
+      process.env.NEXT_PUBLIC_ENV = originalEnv;
+    });
+
+    function submitPassword(): void {
+      render(<LoginForm />);
+      fireEvent.change(screen.getByPlaceholderText(EMAIL_PLACEHOLDER), {
+        target: { value: 'a@b.com' },
+      });
+      fireEvent.change(screen.getByPlaceholderText(PASSWORD_PLACEHOLDER), {
+        target: { value: 'pw123456' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: /^sign in$/i }));
+    }
+
+    it('sends a production admin who still owes its second factor to the challenge', async () => {
+      mockMe.mockResolvedValue({
+        email: 'a@b.com',
+        isAdmin: true,
+        mfaSatisfied: false,
+        galleries: [],
+      });
+      submitPassword();
+
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/login/mfa'));
+    });
+
+    it('never challenges a non-admin, whatever its session says', async () => {
+      mockMe.mockResolvedValue({
+        email: 'a@b.com',
+        isAdmin: false,
+        mfaSatisfied: false,
+        galleries: [],
+      });
+      submitPassword();
+
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/user'));
+      expect(mockPush).not.toHaveBeenCalledWith('/login/mfa');
+    });
+
+    it('does not challenge an admin outside production', async () => {
+      process.env.NEXT_PUBLIC_ENV = 'staging';
+      mockMe.mockResolvedValue({
+        email: 'a@b.com',
+        isAdmin: true,
+        mfaSatisfied: false,
+        galleries: [],
+      });
+      submitPassword();
+
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/user'));
+    });
+
+    it('lands a signed-in session on /user, not a login error, when me() fails', async () => {
+      mockMe.mockRejectedValueOnce(new Error('Network down'));
+      submitPassword();
+
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/user'));
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+  });
+
   it('maps a 401 to an "Incorrect email or password" message', async () => {
     mockLogin.mockRejectedValue(new ApiError('Unauthorized', 401));
     render(<LoginForm />);
@@ -510,6 +510,14 @@ describe('MenuDropdown — admin item gating (isAdmin, not isLocalEnvironment)',
     expect(onClose).toHaveBeenCalled();
   });
 
+  it('shows Search for an anonymous viewer as a link to /search', async () => {
+    mockMe.mockResolvedValue(null);
+
+    render(<MenuDropdown isOpen onClose={jest.fn()} />);
+
+    expect(await screen.findByRole('link', { name: 'Search' })).toHaveAttribute('href', '/search');
+  });
+
   it('shows Collections for an anonymous viewer as a link to /collections (public showcase)', async () => {
     mockMe.mockResolvedValue(null);
     const onClose = jest.fn();
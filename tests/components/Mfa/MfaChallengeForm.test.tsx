@@ -0,0 +1,83 @@
+/**
+ * Tests for MfaChallengeForm — the code-or-passkey check shared by /login/mfa and the
+ * step-up dialog.
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+
+import { MfaChallengeForm } from '@/app/components/Mfa/MfaChallengeForm';
+import * as authApi from '@/app/lib/api/auth';
+import { ApiError } from '@/app/lib/api/core';
+
+jest.mock('@/app/lib/api/auth', () => ({
+  verifyMfa: jest.fn(),
+  verifyMfaWithPasskey: jest.fn(),
+}));
+
+const mockVerifyMfa = authApi.verifyMfa as jest.MockedFunction<typeof authApi.verifyMfa>;
+const mockVerifyPasskey = authApi.verifyMfaWithPasskey as jest.MockedFunction<
+  typeof authApi.verifyMfaWithPasskey
+>;
+
+function enterCode(value: string) {
+  fireEvent.change(screen.getByLabelText('Authentication code'), { target: { value } });
+  fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+}
+
+describe('MfaChallengeForm', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('verifies a code and reports success', async () => {
+    mockVerifyMfa.mockResolvedValue();
+    const onVerified = jest.fn();
+    render(<MfaChallengeForm onVerified={onVerified} />);
+
+    enterCode('123 456');
+
+    await waitFor(() => expect(onVerified).toHaveBeenCalledTimes(1));
+    expect(mockVerifyMfa).toHaveBeenCalledWith('123 456');
+  });
+
+  it('asks for a code before calling the backend', async () => {
+    render(<MfaChallengeForm onVerified={jest.fn()} />);
+
+    enterCode('  ');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/enter the code/i);
+    expect(mockVerifyMfa).not.toHaveBeenCalled();
+  });
+
+  it('explains a rejected code and stays on the form', async () => {
+    mockVerifyMfa.mockRejectedValue(new ApiError('Unauthorized', 401));
+    const onVerified = jest.fn();
+    render(<MfaChallengeForm onVerified={onVerified} />);
+
+    enterCode('000000');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/that code didn't work/i);
+    expect(onVerified).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Verify' })).toBeEnabled();
+  });
+
+  it('verifies with a passkey instead', async () => {
+    mockVerifyPasskey.mockResolvedValue();
+    const onVerified = jest.fn();
+    render(<MfaChallengeForm onVerified={onVerified} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /use face \/ touch id instead/i }));
+
+    await waitFor(() => expect(onVerified).toHaveBeenCalledTimes(1));
+    expect(mockVerifyMfa).not.toHaveBeenCalled();
+  });
+
+  it('names the wait when rate-limited', async () => {
+    mockVerifyPasskey.mockRejectedValue(new ApiError('Too Many Requests', 429));
+    render(<MfaChallengeForm onVerified={jest.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /use face \/ touch id instead/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/about 15 minutes/i);
+  });
+});
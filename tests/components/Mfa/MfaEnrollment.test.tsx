@@ -0,0 +1,88 @@
+/**
+ * Tests for MfaEnrollment — authenticator-app enrollment (scan, confirm, recovery codes) and
+ * the passkey alternative.
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+
+import { MfaEnrollment } from '@/app/components/Mfa/MfaEnrollment';
+import * as authApi from '@/app/lib/api/auth';
+import { ApiError } from '@/app/lib/api/core';
+
+jest.mock('@/app/lib/api/auth', () => ({
+  startTotpEnrollment: jest.fn(),
+  confirmTotpEnrollment: jest.fn(),
+  registerPasskey: jest.fn(),
+}));
+
+const mockStart = authApi.startTotpEnrollment as jest.MockedFunction<
+  typeof authApi.startTotpEnrollment
+>;
+const mockConfirm = authApi.confirmTotpEnrollment as jest.MockedFunction<
+  typeof authApi.confirmTotpEnrollment
+>;
+const mockRegisterPasskey = authApi.registerPasskey as jest.MockedFunction<
+  typeof authApi.registerPasskey
+>;
+
+const ENROLLMENT = {
+  secret: 'JBSWY3DPEHPK3PXP',
+  otpauthUrl: 'otpauth://totp/edens.zac:admin@example.com?secret=JBSWY3DPEHPK3PXP',
+  qrCodeDataUri: 'data:image/png;base64,AAAA',
+};
+
+async function openScanStep() {
+  fireEvent.click(screen.getByRole('button', { name: 'Set up an authenticator app' }));
+  await screen.findByRole('img', { name: 'QR code for your authenticator app' });
+}
+
+describe('MfaEnrollment', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStart.mockResolvedValue(ENROLLMENT);
+  });
+
+  it('shows the QR and the key, then the recovery codes once confirmed', async () => {
+    mockConfirm.mockResolvedValue({ recoveryCodes: ['aaaa-bbbb', 'cccc-dddd'] });
+    const onEnrolled = jest.fn();
+    render(<MfaEnrollment onEnrolled={onEnrolled} />);
+
+    await openScanStep();
+    expect(screen.getByText(ENROLLMENT.secret)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Code from the app'), { target: { value: '123456' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Turn on' }));
+
+    const codes = await screen.findByRole('list', { name: 'Recovery codes' });
+    expect(codes).toHaveTextContent('aaaa-bbbb');
+    expect(mockConfirm).toHaveBeenCalledWith('123456');
+    // Not done until the codes are acknowledged — they are never shown again.
+    expect(onEnrolled).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: /i’ve saved these codes/i }));
+    expect(onEnrolled).toHaveBeenCalledWith(true);
+  });
+
+  it('keeps the scan step open when the confirmation code is wrong', async () => {
+    mockConfirm.mockRejectedValue(new ApiError('Invalid code', 400));
+    render(<MfaEnrollment onEnrolled={jest.fn()} />);
+
+    await openScanStep();
+    fireEvent.change(screen.getByLabelText('Code from the app'), { target: { value: '000000' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Turn on' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/didn't match/i);
+    expect(screen.getByRole('img', { name: 'QR code for your authenticator app' })).toBeVisible();
+  });
+
+  it('enrolls a passkey as the second factor, still to be verified', async () => {
+    mockRegisterPasskey.mockResolvedValue();
+    const onEnrolled = jest.fn();
+    render(<MfaEnrollment onEnrolled={onEnrolled} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Use Face / Touch ID' }));
+
+    await waitFor(() => expect(onEnrolled).toHaveBeenCalledWith(false));
+    expect(mockStart).not.toHaveBeenCalled();
+  });
+});
@@ -3,7 +3,9 @@
  * enrollment affordance.
  *
  * Mirrors the LoginForm test style: mock `registerPasskey` from the auth API and
- * drive the button through the pending, success, and per-cause failure states.
+ * drive the button through the pending, success, and per-cause failure states. The
+ * security lists are covered by AccountSecurity.test; here they load empty, and the
+ * list's refetch after an enrollment is the only part of them pinned.
  */
 
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
@@ -14,27 +16,35 @@ import { ApiError } from '@/app/lib/api/core';
 
 jest.mock('@/app/lib/api/auth', () => ({
   registerPasskey: jest.fn(),
+  listPasskeys: jest.fn(),
+  listSessions: jest.fn(),
 }));
 
 const mockRegisterPasskey = authApi.registerPasskey as jest.MockedFunction<
   typeof authApi.registerPasskey
 >;
+const mockListPasskeys = authApi.listPasskeys as jest.MockedFunction<typeof authApi.listPasskeys>;
+const mockListSessions = authApi.listSessions as jest.MockedFunction<typeof authApi.listSessions>;
 
 const EMAIL = 'client@example.com';
 const ADD_BUTTON = /add face \/ touch id/i;
+const ADDED = /face \/ touch id added/i;
 
 describe('AccountCard', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockListPasskeys.mockResolvedValue([]);
+    mockListSessions.mockResolvedValue([]);
   });
 
-  it('renders the signed-in email and the enrollment button', () => {
+  it('renders the signed-in email and the enrollment button', async () => {
     render(<AccountCard email={EMAIL} />);
 
     expect(screen.getByText(EMAIL)).toBeInTheDocument();
     expect(screen.getByRole('button', { name: ADD_BUTTON })).toBeEnabled();
+    expect(await screen.findByText('No passkeys yet.')).toBeInTheDocument();
     expect(screen.queryByRole('alert')).not.toBeInTheDocument();
-    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    expect(screen.queryByText(ADDED)).not.toBeInTheDocument();
   });
 
   it('disables the button while the ceremony is pending, then shows success', async () => {
@@ -53,11 +63,11 @@ describe('AccountCard', () => {
     await waitFor(() => expect(button).toBeDisabled());
 
     resolveCeremony();
-    await waitFor(() =>
-      expect(screen.getByRole('status')).toHaveTextContent(/face \/ touch id added/i)
-    );
+    await waitFor(() => expect(screen.getByText(ADDED)).toHaveAttribute('role', 'status'));
     expect(button).toBeEnabled();
     expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    // The new passkey is fetched into the list.
+    expect(mockListPasskeys).toHaveBeenCalledTimes(2);
   });
 
   it('shows dismissal guidance when the browser ceremony throws NotAllowedError', async () => {
@@ -102,9 +112,7 @@ describe('AccountCard', () => {
     await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent(/couldn't be saved/i));
 
     fireEvent.click(screen.getByRole('button', { name: ADD_BUTTON }));
-    await waitFor(() =>
-      expect(screen.getByRole('status')).toHaveTextContent(/face \/ touch id added/i)
-    );
+    await waitFor(() => expect(screen.getByText(ADDED)).toHaveAttribute('role', 'status'));
     expect(screen.queryByRole('alert')).not.toBeInTheDocument();
   });
 });
@@ -0,0 +1,177 @@
+/**
+ * Tests for the account card's security lists: passkeys (rename, confirmed remove) and
+ * sessions ("sign out everywhere else"), each loading itself from the auth API and
+ * sharing the card's expired-session wording.
+ */
+
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+
+import { PasskeyList, SessionList } from '@/app/components/Personal/AccountSecurity';
+import * as authApi from '@/app/lib/api/auth';
+import { ApiError } from '@/app/lib/api/core';
+import { type AuthSession, type PasskeyCredential } from '@/app/types/Auth';
+
+jest.mock('@/app/lib/api/auth', () => ({
+  listPasskeys: jest.fn(),
+  renamePasskey: jest.fn(),
+  removePasskey: jest.fn(),
+  listSessions: jest.fn(),
+  signOutOtherSessions: jest.fn(),
+}));
+
+const mockListPasskeys = authApi.listPasskeys as jest.MockedFunction<typeof authApi.listPasskeys>;
+const mockRenamePasskey = authApi.renamePasskey as jest.MockedFunction<
+  typeof authApi.renamePasskey
+>;
+const mockRemovePasskey = authApi.removePasskey as jest.MockedFunction<
+  typeof authApi.removePasskey
+>;
+const mockListSessions = authApi.listSessions as jest.MockedFunction<typeof authApi.listSessions>;
+const mockSignOutOthers = authApi.signOutOtherSessions as jest.MockedFunction<
+  typeof authApi.signOutOtherSessions
+>;
+
+const PHONE: PasskeyCredential = {
+  id: 'cred-1',
+  nickname: 'Old phone',
+  createdAt: '2026-01-05',
+  lastUsedAt: '2026-03-02',
+};
+const LAPTOP: PasskeyCredential = {
+  id: 'cred-2',
+  nickname: null,
+  createdAt: '2026-02-10',
+  lastUsedAt: null,
+};
+
+const session = (overrides: Partial<AuthSession>): AuthSession => ({
+  id: 'sess-1',
+  device: 'Safari on iPhone',
+  createdAt: '2026-03-01',
+  lastSeenAt: '2026-03-02',
+  current: false,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('PasskeyList', () => {
+  beforeEach(() => {
+    mockListPasskeys.mockResolvedValue([PHONE, LAPTOP]);
+  });
+
+  it('lists each passkey with when it was added and last used', async () => {
+    render(<PasskeyList refreshKey={0} />);
+
+    const rows = within(await screen.findByRole('list', { name: 'Passkeys' })).getAllByRole(
+      'listitem'
+    );
+    expect(rows[0]).toHaveTextContent('Old phone');
+    expect(rows[0]).toHaveTextContent('Added January 5th, 2026 · Last used March 2nd, 2026');
+    expect(rows[1]).toHaveTextContent('Unnamed passkey');
+    expect(rows[1]).toHaveTextContent('Never used');
+  });
+
+  it('renames a passkey inline', async () => {
+    mockRenamePasskey.mockResolvedValue({ ...PHONE, nickname: 'Lost phone' });
+    render(<PasskeyList refreshKey={0} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Rename Old phone' }));
+    fireEvent.change(screen.getByLabelText('Passkey name'), { target: { value: 'Lost phone' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByText('Lost phone')).toBeInTheDocument();
+    expect(mockRenamePasskey).toHaveBeenCalledWith('cred-1', 'Lost phone');
+    expect(screen.queryByLabelText('Passkey name')).not.toBeInTheDocument();
+  });
+
+  it('removes a passkey only once confirmed', async () => {
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValueOnce(false);
+    mockRemovePasskey.mockResolvedValue();
+    render(<PasskeyList refreshKey={0} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Remove Old phone' }));
+    expect(mockRemovePasskey).not.toHaveBeenCalled();
+
+    confirm.mockReturnValueOnce(true);
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Old phone' }));
+
+    await waitFor(() => expect(screen.queryByText('Old phone')).not.toBeInTheDocument());
+    expect(mockRemovePasskey).toHaveBeenCalledWith('cred-1');
+    confirm.mockRestore();
+  });
+
+  it('keeps the passkey and says why when the session has expired', async () => {
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValue(true);
+    mockRemovePasskey.mockRejectedValue(new ApiError('Unauthorized', 401));
+    render(<PasskeyList refreshKey={0} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Remove Old phone' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Your session has expired. Sign in again to remove a passkey.'
+    );
+    expect(screen.getByText('Old phone')).toBeInTheDocument();
+    confirm.mockRestore();
+  });
+
+  it('refetches when the card reports an enrollment', async () => {
+    const { rerender } = render(<PasskeyList refreshKey={0} />);
+    await screen.findByText('Old phone');
+
+    rerender(<PasskeyList refreshKey={1} />);
+
+    await waitFor(() => expect(mockListPasskeys).toHaveBeenCalledTimes(2));
+  });
+});
+
+describe('SessionList', () => {
+  it('marks this device and signs out the others', async () => {
+    mockListSessions.mockResolvedValue([
+      session({ id: 'here', device: 'Firefox on macOS', current: true }),
+      session({ id: 'lost' }),
+    ]);
+    mockSignOutOthers.mockResolvedValue();
+    render(<SessionList />);
+
+    const rows = within(await screen.findByRole('list', { name: 'Sessions' })).getAllByRole(
+      'listitem'
+    );
+    expect(rows[0]).toHaveTextContent('Firefox on macOSThis device');
+    expect(rows[1]).toHaveTextContent('Last seen March 2nd, 2026');
+    expect(screen.getByText('Signed in on 1 other device.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign out everywhere else' }));
+
+    expect(await screen.findByText('Every other device has been signed out.')).toBeInTheDocument();
+    expect(screen.queryByText('Safari on iPhone')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Sign out everywhere else' })).toBeDisabled();
+  });
+
+  it('shows the failure and keeps the list when signing out fails', async () => {
+    mockListSessions.mockResolvedValue([session({ id: 'here', current: true }), session({})]);
+    mockSignOutOthers.mockRejectedValue(new Error('boom'));
+    render(<SessionList />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Sign out everywhere else' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      "Your other devices couldn't be signed out. Please try again."
+    );
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+  });
+
+  it('reports a failed load instead of an empty list', async () => {
+    mockListSessions.mockRejectedValue(new ApiError('Unauthorized', 401));
+    render(<SessionList />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Your session has expired. Sign in again to see your sessions.'
+    );
+    expect(
+      screen.queryByRole('button', { name: 'Sign out everywhere else' })
+    ).not.toBeInTheDocument();
+  });
+});
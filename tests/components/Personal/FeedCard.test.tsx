@@ -0,0 +1,55 @@
+/**
+ * Tests for FeedCard — the /user block holding the private following-feed URL. Same two claims
+ * as ShareCard: a failed read is not "no feed yet", and the live URL is shown on every visit.
+ */
+
+import { fireEvent, render, screen } from '@testing-library/react';
+
+import { FeedCard } from '@/app/components/Personal/FeedCard';
+import * as feedsApi from '@/app/lib/api/feeds';
+
+jest.mock('@/app/lib/api/feeds', () => ({
+  ...jest.requireActual('@/app/lib/api/feeds'),
+  rotateFeedToken: jest.fn(),
+}));
+
+const mockRotate = feedsApi.rotateFeedToken as jest.MockedFunction<typeof feedsApi.rotateFeedToken>;
+
+describe('FeedCard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the live RSS link with Atom and JSON Feed alternates', () => {
+    render(<FeedCard read={{ ok: true, settings: { token: 'tok-1', createdAt: null } }} />);
+
+    const origin = window.location.origin;
+    expect(screen.getByText(`${origin}/feeds/following/tok-1.rss`)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Atom' })).toHaveAttribute(
+      'href',
+      `${origin}/feeds/following/tok-1.atom`
+    );
+    expect(screen.getByRole('link', { name: 'JSON Feed' })).toHaveAttribute(
+      'href',
+      `${origin}/feeds/following/tok-1.json`
+    );
+  });
+
+  it('does not offer to create a feed when the read failed', () => {
+    render(<FeedCard read={{ ok: false }} />);
+
+    expect(screen.queryByRole('button', { name: /create/i })).not.toBeInTheDocument();
+    expect(screen.getByText(/unavailable right now/i)).toBeInTheDocument();
+  });
+
+  it('creates a feed link on request', async () => {
+    mockRotate.mockResolvedValue({ token: 'tok-new', createdAt: '2026-05-01T00:00:00Z' });
+    render(<FeedCard read={{ ok: true, settings: { token: null, createdAt: null } }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /create a feed link/i }));
+
+    expect(
+      await screen.findByText(`${window.location.origin}/feeds/following/tok-new.rss`)
+    ).toBeInTheDocument();
+  });
+});
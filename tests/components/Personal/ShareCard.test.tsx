@@ -1,14 +1,13 @@
 /**
- * Tests for ShareCard — the /user block that shows the owner's share link and the controls for
- * sending and revoking it.
+ * Tests for ShareCard — the /user block that lists the owner's share links and the controls for
+ * creating, sending and revoking them.
  *
  * Mirrors the AccountCard test style: mock the share API and drive each control. The assertions
- * concentrate on the two claims the card must never get wrong — that a failed read is not
- * presented as "you have no link", and that sending to someone does not quietly reset the link
- * out from under whoever already has it.
+ * concentrate on the claims the card must never get wrong — that a failed read is not presented
+ * as "you have no link", and that sending or revoking one link never touches another.
  */
 
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 
 import { ShareCard } from '@/app/components/Personal/ShareCard';
 import { ApiError } from '@/app/lib/api/core';
@@ -17,13 +16,15 @@ import { type CollectionModel } from '@/app/types/Collection';
 
 jest.mock('@/app/lib/api/share', () => ({
   ...jest.requireActual('@/app/lib/api/share'),
-  rotateShareLink: jest.fn(),
+  createShareLink: jest.fn(),
+  revokeShareLink: jest.fn(),
   emailShareLink: jest.fn(),
   addShareCollection: jest.fn(),
   removeShareCollection: jest.fn(),
 }));
 
-const mockRotate = shareApi.rotateShareLink as jest.MockedFunction<typeof shareApi.rotateShareLink>;
+const mockCreate = shareApi.createShareLink as jest.MockedFunction<typeof shareApi.createShareLink>;
+const mockRevoke = shareApi.revokeShareLink as jest.MockedFunction<typeof shareApi.revokeShareLink>;
 const mockEmail = shareApi.emailShareLink as jest.MockedFunction<typeof shareApi.emailShareLink>;
 const mockAdd = shareApi.addShareCollection as jest.MockedFunction<
   typeof shareApi.addShareCollection
@@ -32,15 +33,28 @@ const mockAdd = shareApi.addShareCollection as jest.MockedFunction<
 const collection = (id: number, title: string) =>
   ({ id, title, slug: `c-${id}` }) as unknown as CollectionModel;
 
-function settings(overrides: Partial<shareApi.ShareSettings> = {}): shareApi.ShareSettings {
+function link(overrides: Partial<shareApi.ShareLink> = {}): shareApi.ShareLink {
   return {
-    exists: true,
+    id: 1,
+    name: 'Mum',
     token: 'tok-123',
-    createdAt: null,
-    rotatedAt: null,
+    createdAt: '2026-10-01T00:00:00Z',
+    expiresAt: null,
+    maxViews: null,
+    viewCount: 0,
     lastUsedAt: null,
+    collectionIds: null,
+    status: 'active',
+    ...overrides,
+  };
+}
+
+function settings(overrides: Partial<shareApi.ShareSettings> = {}): shareApi.ShareSettings {
+  return {
+    links: [link()],
     optedInCollectionIds: [],
     candidateCollections: [],
+    sharedCollections: [],
     ...overrides,
   };
 }
@@ -50,7 +64,7 @@ describe('ShareCard', () => {
     jest.clearAllMocks();
   });
 
-  it('shows the live link so it can be sent again without a reset', () => {
+  it('shows each live link so it can be sent again without a new one', () => {
     render(<ShareCard read={{ ok: true, settings: settings() }} />);
 
     // The whole point: the link is readable on every visit, not only the one that made it.
@@ -67,24 +81,148 @@ describe('ShareCard', () => {
     expect(screen.getByText(/unavailable right now/i)).toBeInTheDocument();
   });
 
-  it('offers to create one only when the read genuinely says there is none', () => {
+  it('offers to create one when the read genuinely says there is none', () => {
     render(<ShareCard read={{ ok: true, settings: null }} />);
 
     expect(screen.getByRole('button', { name: /create a link/i })).toBeInTheDocument();
   });
 
-  it('emails the existing link without minting a new one', async () => {
+  it('reports views, the view limit, last access and expiry per link', () => {
+    render(
+      <ShareCard
+        read={{
+          ok: true,
+          settings: settings({
+            links: [
+              link({
+                viewCount: 3,
+                maxViews: 10,
+                lastUsedAt: '2026-10-12T09:00:00Z',
+                expiresAt: '2026-10-15T00:00:00Z',
+              }),
+            ],
+          }),
+        }}
+      />
+    );
+
+    expect(screen.getByText('3 of 10 views · last opened October 12th, 2026')).toBeInTheDocument();
+    expect(screen.getByText(/expires october 15th, 2026/i)).toBeInTheDocument();
+  });
+
+  it('marks a closed link and stops offering to send it', () => {
+    render(
+      <ShareCard
+        read={{
+          ok: true,
+          settings: settings({ links: [link({ maxViews: 2, viewCount: 2, status: 'exhausted' })] }),
+        }}
+      />
+    );
+
+    expect(screen.getByText('View limit reached')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /copy link/i })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /revoke mum/i })).toBeInTheDocument();
+  });
+
+  it('names the galleries a narrowed link shows', () => {
+    render(
+      <ShareCard
+        read={{
+          ok: true,
+          settings: settings({
+            links: [link({ collectionIds: [9] })],
+            sharedCollections: [collection(9, 'Wedding'), collection(10, 'Portraits')],
+          }),
+        }}
+      />
+    );
+
+    expect(screen.getByText(/shows only wedding$/i)).toBeInTheDocument();
+  });
+
+  it('creates a link with an expiry, a view limit and a gallery subset', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T00:00:00Z'), doNotFake: ['setTimeout'] });
+    mockCreate.mockResolvedValue(link({ id: 2, name: 'Grandparents', token: 'tok-new' }));
+    render(
+      <ShareCard
+        read={{
+          ok: true,
+          settings: settings({
+            sharedCollections: [collection(9, 'Wedding'), collection(10, 'Portraits')],
+          }),
+        }}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText(/link name/i), { target: { value: 'Grandparents' } });
+    fireEvent.change(screen.getByLabelText(/expires/i), { target: { value: '14' } });
+    fireEvent.change(screen.getByLabelText(/view limit/i), { target: { value: '5' } });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Wedding' }));
+    fireEvent.click(screen.getByRole('button', { name: /create a link/i }));
+
+    await waitFor(() =>
+      expect(mockCreate).toHaveBeenCalledWith({
+        name: 'Grandparents',
+        expiresAt: '2026-11-02T00:00:00.000Z',
+        maxViews: 5,
+        collectionIds: [9],
+      })
+    );
+    expect(await screen.findByText(`${window.location.origin}/s/tok-new`)).toBeInTheDocument();
+    // The existing link is still listed alongside the new one.
+    expect(screen.getByText(`${window.location.origin}/s/tok-123`)).toBeInTheDocument();
+    jest.useRealTimers();
+  });
+
+  it('shares everything when no gallery is ticked', async () => {
+    mockCreate.mockResolvedValue(link({ id: 2 }));
+    render(<ShareCard read={{ ok: true, settings: settings() }} />);
+
+    fireEvent.change(screen.getByLabelText(/link name/i), { target: { value: 'Friends' } });
+    fireEvent.click(screen.getByRole('button', { name: /create a link/i }));
+
+    await waitFor(() =>
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ expiresAt: null, maxViews: null, collectionIds: null })
+      )
+    );
+  });
+
+  it('revokes one link and leaves the others', async () => {
+    mockRevoke.mockResolvedValue();
+    render(
+      <ShareCard
+        read={{
+          ok: true,
+          settings: settings({
+            links: [link(), link({ id: 2, name: 'Client', token: 'tok-456' })],
+          }),
+        }}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /revoke mum/i }));
+
+    await waitFor(() => expect(mockRevoke).toHaveBeenCalledWith(1));
+    await waitFor(() =>
+      expect(screen.queryByText(`${window.location.origin}/s/tok-123`)).not.toBeInTheDocument()
+    );
+    expect(screen.getByText(`${window.location.origin}/s/tok-456`)).toBeInTheDocument();
+  });
+
+  it('emails the chosen link without minting a new one', async () => {
     mockEmail.mockResolvedValue({ sent: true, reason: null });
     render(<ShareCard read={{ ok: true, settings: settings() }} />);
 
-    fireEvent.change(screen.getByLabelText(/send the link to this email/i), {
+    fireEvent.change(screen.getByLabelText(/send mum to this email/i), {
       target: { value: 'mum@example.com' },
     });
     fireEvent.click(screen.getByRole('button', { name: /^send$/i }));
 
-    await waitFor(() => expect(mockEmail).toHaveBeenCalledWith('mum@example.com'));
+    await waitFor(() => expect(mockEmail).toHaveBeenCalledWith(1, 'mum@example.com'));
     // Sending to a second person must never cut off the first.
-    expect(mockRotate).not.toHaveBeenCalled();
+    expect(mockCreate).not.toHaveBeenCalled();
     expect(await screen.findByText(/sent to mum@example.com/i)).toBeInTheDocument();
   });
 
@@ -92,7 +230,7 @@ describe('ShareCard', () => {
     mockEmail.mockResolvedValue({ sent: false, reason: 'email-disabled' });
     render(<ShareCard read={{ ok: true, settings: settings() }} />);
 
-    fireEvent.change(screen.getByLabelText(/send the link to this email/i), {
+    fireEvent.change(screen.getByLabelText(/send mum to this email/i), {
       target: { value: 'mum@example.com' },
     });
     fireEvent.click(screen.getByRole('button', { name: /^send$/i }));
@@ -100,17 +238,6 @@ describe('ShareCard', () => {
     expect(await screen.findByText(/email is not switched on/i)).toBeInTheDocument();
   });
 
-  it('replaces the displayed link after a reset', async () => {
-    mockRotate.mockResolvedValue(settings({ token: 'tok-new' }));
-    render(<ShareCard read={{ ok: true, settings: settings() }} />);
-
-    fireEvent.click(screen.getByRole('button', { name: /reset link/i }));
-
-    expect(
-      await screen.findByText(`${window.location.origin}/s/tok-new`)
-    ).toBeInTheDocument();
-  });
-
   it('offers granted galleries as opt-ins, unchecked by default', async () => {
     mockAdd.mockResolvedValue();
     render(
@@ -130,18 +257,21 @@ describe('ShareCard', () => {
     await waitFor(() => expect(mockAdd).toHaveBeenCalledWith(9));
   });
 
-  it('surfaces a link that cannot be shown as a reset prompt, not an error', () => {
-    render(<ShareCard read={{ ok: true, settings: settings({ token: null }) }} />);
+  it('surfaces a link that cannot be shown as a revoke prompt, not an error', () => {
+    render(
+      <ShareCard read={{ ok: true, settings: settings({ links: [link({ token: null })] }) }} />
+    );
 
-    expect(screen.getByText(/reset it to get one you can copy/i)).toBeInTheDocument();
-    expect(screen.getByRole('button', { name: /reset link/i })).toBeInTheDocument();
+    const item = screen.getByRole('listitem');
+    expect(within(item).getByText(/revoke it and create a new one/i)).toBeInTheDocument();
+    expect(within(item).getByRole('button', { name: /revoke mum/i })).toBeInTheDocument();
   });
 
   it('explains an expired session rather than a generic failure', async () => {
-    mockRotate.mockRejectedValue(new ApiError('nope', 401));
+    mockRevoke.mockRejectedValue(new ApiError('nope', 401));
     render(<ShareCard read={{ ok: true, settings: settings() }} />);
 
-    fireEvent.click(screen.getByRole('button', { name: /reset link/i }));
+    fireEvent.click(screen.getByRole('button', { name: /revoke mum/i }));
 
     expect(await screen.findByText(/session has expired/i)).toBeInTheDocument();
   });
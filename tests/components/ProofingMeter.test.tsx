@@ -0,0 +1,99 @@
+/**
+ * Tests for ProofingMeter — the header-rail progress and submit control for a client gallery under
+ * proofing. Mounted inside a real SelectsProvider with the selects API mocked, so the count and the
+ * lock come from the same state the stars read.
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+
+import { SelectsProvider } from '@/app/components/ContentCollection/SelectsContext';
+import ProofingMeter from '@/app/components/ProofingMeter/ProofingMeter';
+import { ApiError } from '@/app/lib/api/core';
+import { submitSelects } from '@/app/lib/api/selects';
+
+jest.mock('@/app/lib/api/selects', () => ({
+  addSelect: jest.fn(),
+  removeSelect: jest.fn(),
+  submitSelects: jest.fn(),
+}));
+
+const submitMock = submitSelects as jest.Mock;
+
+function renderMeter({
+  picked = [1, 2],
+  target = 3 as number | null,
+  submittedAt = null as string | null,
+} = {}) {
+  return render(
+    <SelectsProvider
+      collectionId={7}
+      initialSelectedIds={picked}
+      proofingTarget={target}
+      initialSubmittedAt={submittedAt}
+    >
+      <ProofingMeter />
+    </SelectsProvider>
+  );
+}
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('ProofingMeter', () => {
+  it('renders nothing outside a SelectsProvider', () => {
+    const { container } = render(<ProofingMeter />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('renders nothing when the collection has no proofing target', () => {
+    const { container } = renderMeter({ target: null });
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows progress towards the target', () => {
+    renderMeter();
+
+    expect(screen.getByText('2 of 3 picked')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: /picks chosen/i })).toHaveAttribute(
+      'value',
+      '2'
+    );
+    expect(screen.getByText('1 more to go.')).toBeInTheDocument();
+  });
+
+  it('still lets a client who picked more than the target submit', () => {
+    renderMeter({ picked: [1, 2, 3, 4], target: 3 });
+
+    expect(screen.getByText(/1 over/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /submit final picks/i })).toBeEnabled();
+  });
+
+  it('does not offer to submit an empty list', () => {
+    renderMeter({ picked: [] });
+    expect(screen.getByRole('button', { name: /submit final picks/i })).toBeDisabled();
+  });
+
+  it('submits and then reads as a receipt', async () => {
+    submitMock.mockResolvedValue({ collectionId: 7, submittedAt: '2026-10-19T10:00:00Z' });
+    renderMeter();
+
+    fireEvent.click(screen.getByRole('button', { name: /submit final picks/i }));
+
+    expect(await screen.findByText(/picks submitted on october 19th, 2026/i)).toBeInTheDocument();
+    expect(submitMock).toHaveBeenCalledWith(7);
+    expect(screen.queryByRole('button', { name: /submit final picks/i })).not.toBeInTheDocument();
+  });
+
+  it('says why a submit failed and stays open', async () => {
+    submitMock.mockRejectedValue(new ApiError('expired', 401));
+    renderMeter();
+
+    fireEvent.click(screen.getByRole('button', { name: /submit final picks/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/session has expired/i);
+    await waitFor(() =>
+      expect(screen.getByRole('button', { name: /submit final picks/i })).toBeEnabled()
+    );
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for SearchPageClient.
+ *
+ * Verifies:
+ * - Results render through CollectionPage, with the search controls in its header rail
+ * - Facet chips refine the loaded results and write scope + facets back to the URL
+ * - A new search navigates with the scope only (facets reset)
+ * - Paging continues the SAME scoped search via searchImagesPage
+ * - Typed empty / invalid / unavailable states
+ *
+ * CollectionPage is stubbed (its layout pipeline is covered elsewhere) to a list of rendered ids
+ * plus the rail it was handed.
+ */
+import '@testing-library/jest-dom';
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { type ReactNode } from 'react';
+
+import SearchPageClient, { type SearchOutcome } from '@/app/components/SearchPage/SearchPageClient';
+import { useInViewport } from '@/app/hooks/inViewport';
+import { type PagedImages, searchImagesPage } from '@/app/lib/api/content';
+import { type CollectionModel } from '@/app/types/Collection';
+import { type ContentImageModel } from '@/app/types/Content';
+
+const pushMock = jest.fn();
+const replaceMock = jest.fn();
+const refreshMock = jest.fn();
+let searchParams = new URLSearchParams();
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: pushMock, replace: replaceMock, refresh: refreshMock }),
+  usePathname: () => '/search',
+  useSearchParams: () => searchParams,
+}));
+
+jest.mock('@/app/components/ContentCollection/CollectionPage', () => ({
+  __esModule: true,
+  default: ({ collection, railExtras }: { collection: CollectionModel; railExtras: ReactNode }) => (
+    <div>
+      {railExtras}
+      <ul data-testid="results">
+        {collection.content?.map(item => (
+          <li key={item.id}>{item.id}</li>
+        ))}
+      </ul>
+    </div>
+  ),
+}));
+
+jest.mock('@/app/hooks/inViewport', () => ({
+  __esModule: true,
+  useInViewport: jest.fn(),
+}));
+
+jest.mock('@/app/lib/api/content', () => ({
+  ...jest.requireActual('@/app/lib/api/content'),
+  searchImagesPage: jest.fn(),
+}));
+
+const mockUseInViewport = useInViewport as jest.MockedFunction<typeof useInViewport>;
+const mockSearchImagesPage = searchImagesPage as jest.MockedFunction<typeof searchImagesPage>;
+
+function image(id: number, overrides: Partial<ContentImageModel> = {}): ContentImageModel {
+  return {
+    id,
+    contentType: 'IMAGE',
+    imageUrl: `https://cdn.example.com/${id}.jpg`,
+    orderIndex: 0,
+    visible: true,
+    locations: [],
+    ...overrides,
+  };
+}
+
+const night = { id: 1, name: 'night', slug: 'night' };
+const film = { id: 2, name: 'film', slug: 'film' };
+
+function page(items: ContentImageModel[], isLast = true, pageNumber = 0): PagedImages {
+  return { items, page: pageNumber, totalPages: isLast ? 1 : 2, totalElements: 99, isLast };
+}
+
+const ok = (items: ContentImageModel[], isLast = true): SearchOutcome => ({
+  status: 'ok',
+  page: page(items, isLast),
+});
+
+const renderedIds = () =>
+  Array.from(screen.getByTestId('results').querySelectorAll('li'), li => Number(li.textContent));
+
+describe('SearchPageClient', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    searchParams = new URLSearchParams('q=neon');
+    window.history.replaceState({}, '', '/search?q=neon');
+    mockUseInViewport.mockReturnValue({ isVisible: false, intersectionRatio: 0 });
+  });
+
+  it('renders results through CollectionPage with the search form in the rail', () => {
+    render(<SearchPageClient outcome={ok([image(1), image(2)])} scope={{ query: 'neon' }} />);
+
+    expect(renderedIds()).toEqual([1, 2]);
+    expect(screen.getByRole('search')).toBeInTheDocument();
+    expect(screen.getByLabelText('Search')).toHaveValue('neon');
+  });
+
+  it('refines loaded results by facet and keeps the scope in the URL', () => {
+    const items = [
+      image(1, { tags: [night] }),
+      image(2, { tags: [film] }),
+      image(3, { tags: [night, film] }),
+    ];
+    render(<SearchPageClient outcome={ok(items)} scope={{ query: 'neon' }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /tags/i }));
+    fireEvent.click(screen.getByRole('button', { name: /film/i }));
+
+    expect(renderedIds()).toEqual([2, 3]);
+    expect(replaceMock).toHaveBeenCalledWith('/search?tag=film&q=neon', { scroll: false });
+  });
+
+  it('starts a new search with the scope only', () => {
+    searchParams = new URLSearchParams('q=neon&tag=film');
+    render(<SearchPageClient outcome={ok([image(1)])} scope={{ query: 'neon' }} />);
+
+    fireEvent.change(screen.getByLabelText('Search'), { target: { value: 'fog' } });
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2024-01-01' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+    expect(pushMock).toHaveBeenCalledWith('/search?q=fog&from=2024-01-01');
+  });
+
+  it('pages the same scoped search as the sentinel comes into view', async () => {
+    mockSearchImagesPage.mockResolvedValue(page([image(3)], true, 1));
+    mockUseInViewport.mockReturnValue({ isVisible: true, intersectionRatio: 1 });
+
+    render(
+      <SearchPageClient
+        outcome={ok([image(1), image(2)], false)}
+        scope={{ query: 'neon', collectionIds: [4] }}
+      />
+    );
+
+    await waitFor(() => expect(renderedIds()).toEqual([1, 2, 3]));
+    expect(mockSearchImagesPage).toHaveBeenCalledWith({
+      query: 'neon',
+      collectionIds: [4],
+      page: 1,
+      size: 2,
+    });
+  });
+
+  it('shows an empty state when the search matched nothing', () => {
+    render(<SearchPageClient outcome={ok([])} scope={{ query: 'neon' }} />);
+
+    expect(screen.getByText('No images match this search.')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('shows a rejected query inline beside the form, not as an empty result', () => {
+    render(
+      <SearchPageClient
+        outcome={{ status: 'invalid', message: 'The start date is after the end date.' }}
+        scope={{}}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The start date is after the end date.');
+    expect(screen.queryByText(/no images match/i)).not.toBeInTheDocument();
+  });
+
+  it('offers a retry when search is unavailable', () => {
+    render(<SearchPageClient outcome={{ status: 'unavailable' }} scope={{ query: 'neon' }} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Search is unavailable right now.');
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(refreshMock).toHaveBeenCalled();
+    expect(mockSearchImagesPage).not.toHaveBeenCalled();
+  });
+});
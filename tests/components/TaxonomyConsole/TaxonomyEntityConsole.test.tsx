@@ -0,0 +1,190 @@
+/**
+ * TaxonomyEntityConsole: the per-entity page behind `/metadata/[kind]/[id]`. Pins rename (and the
+ * 409 a taken name gets), the alias list, delete-when-unused, and the merge flow through
+ * {@link TaxonomyMergeModal} — preview, `(targetId, sourceId)` order, then on to the survivor.
+ *
+ * Auto-mocks the taxonomy API and stubs `revalidateMetadataCache` (every mutation calls it).
+ */
+
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { revalidateMetadataCache } from '@/app/components/ContentCollection/edit/collectionEditUtils';
+import { TaxonomyEntityConsole } from '@/app/components/TaxonomyConsole/TaxonomyEntityConsole';
+import { ApiError } from '@/app/lib/api/core';
+import {
+  addTaxonomyAlias,
+  deleteTaxonomyEntity,
+  getTaxonomyMergePreview,
+  mergeTaxonomyEntity,
+  removeTaxonomyAlias,
+  renameTaxonomyEntity,
+} from '@/app/lib/api/taxonomy';
+import { type TaxonomyEntityDetail } from '@/app/types/Taxonomy';
+
+const mockPush = jest.fn();
+jest.mock('next/navigation', () => ({ useRouter: () => ({ push: mockPush }) }));
+// See FullScreenModal.slideshow.test: the merge modal's scroll lock calls window.scrollTo.
+jest.mock('@/app/hooks/useBodyScrollLock', () => ({ useBodyScrollLock: jest.fn() }));
+jest.mock('@/app/lib/api/taxonomy');
+jest.mock('@/app/components/ContentCollection/edit/collectionEditUtils', () => ({
+  revalidateMetadataCache: jest.fn(async () => {}),
+}));
+
+const portra: TaxonomyEntityDetail = {
+  id: 2,
+  name: 'Portra400',
+  slug: 'portra400',
+  imageCount: 3,
+  collectionCount: 1,
+  aliases: [{ id: 90, name: 'Portra 400', slug: 'portra-400' }],
+  previousSlugs: [],
+  sampleImages: [],
+};
+
+const candidates = [
+  { id: 1, name: 'Kodak Portra 400' },
+  { id: 3, name: 'Ektar 100' },
+];
+
+const renderConsole = (entity: TaxonomyEntityDetail = portra) =>
+  render(<TaxonomyEntityConsole kind="tags" entity={entity} candidates={candidates} />);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+it('shows usage and the public URL the tag answers to', () => {
+  renderConsole();
+
+  expect(screen.getByRole('heading', { level: 1, name: 'Portra400' })).toBeInTheDocument();
+  expect(screen.getByText(/3 images · 1 collection/)).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: '/tag/portra400' })).toHaveAttribute(
+    'href',
+    '/tag/portra400'
+  );
+  expect(screen.getByText('No images carry this tag.')).toBeInTheDocument();
+});
+
+it('renames, then lists the old slug as a redirect', async () => {
+  (renameTaxonomyEntity as jest.Mock).mockResolvedValue({
+    ...portra,
+    name: 'Kodak Portra 400 (35mm)',
+    slug: 'kodak-portra-400-35mm',
+    previousSlugs: ['portra400'],
+  });
+  const user = userEvent.setup();
+  renderConsole();
+
+  const input = screen.getByRole('textbox', { name: 'Name' });
+  await user.clear(input);
+  await user.type(input, 'Kodak Portra 400 (35mm)');
+  await user.click(screen.getByRole('button', { name: 'Rename' }));
+
+  expect(renameTaxonomyEntity).toHaveBeenCalledWith('tags', 2, 'Kodak Portra 400 (35mm)');
+  expect(
+    await screen.findByRole('heading', { level: 1, name: 'Kodak Portra 400 (35mm)' })
+  ).toBeInTheDocument();
+  expect(screen.getByText(/Also redirects here: \/tag\/portra400/)).toBeInTheDocument();
+  expect(revalidateMetadataCache).toHaveBeenCalled();
+});
+
+it('points a taken name at merge instead', async () => {
+  (renameTaxonomyEntity as jest.Mock).mockRejectedValue(new ApiError('Conflict', 409));
+  const user = userEvent.setup();
+  renderConsole();
+
+  const input = screen.getByRole('textbox', { name: 'Name' });
+  await user.clear(input);
+  await user.type(input, 'Kodak Portra 400');
+  await user.click(screen.getByRole('button', { name: 'Rename' }));
+
+  expect(await screen.findByRole('alert')).toHaveTextContent(
+    'Another tag is already called “Kodak Portra 400” — merge into it instead.'
+  );
+  expect(screen.getByRole('heading', { level: 1, name: 'Portra400' })).toBeInTheDocument();
+});
+
+it('adds and removes aliases', async () => {
+  (addTaxonomyAlias as jest.Mock).mockResolvedValue({ id: 91, name: 'KP400', slug: 'kp400' });
+  (removeTaxonomyAlias as jest.Mock).mockImplementation(() => Promise.resolve());
+  const user = userEvent.setup();
+  renderConsole();
+
+  await user.type(screen.getByRole('textbox', { name: 'New alias' }), 'KP400');
+  await user.click(screen.getByRole('button', { name: 'Add' }));
+  expect(addTaxonomyAlias).toHaveBeenCalledWith('tags', 2, 'KP400');
+  expect(await screen.findByRole('button', { name: 'Remove alias KP400' })).toBeInTheDocument();
+  expect(screen.getByRole('textbox', { name: 'New alias' })).toHaveValue('');
+
+  await user.click(screen.getByRole('button', { name: 'Remove alias Portra 400' }));
+  expect(removeTaxonomyAlias).toHaveBeenCalledWith('tags', 2, 90);
+  await waitFor(() =>
+    expect(
+      screen.queryByRole('button', { name: 'Remove alias Portra 400' })
+    ).not.toBeInTheDocument()
+  );
+});
+
+it('only deletes an unused entry, then returns to the index', async () => {
+  jest.spyOn(window, 'confirm').mockReturnValue(true);
+  (deleteTaxonomyEntity as jest.Mock).mockImplementation(() => Promise.resolve());
+  const user = userEvent.setup();
+  const { unmount } = renderConsole();
+
+  expect(screen.getByRole('button', { name: 'Delete' })).toBeDisabled();
+  expect(screen.getByText(/Only an unused tag can be deleted/)).toBeInTheDocument();
+  unmount();
+
+  renderConsole({ ...portra, imageCount: 0, collectionCount: 0 });
+  await user.click(screen.getByRole('button', { name: 'Delete' }));
+
+  expect(deleteTaxonomyEntity).toHaveBeenCalledWith('tags', 2);
+  await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/metadata'));
+});
+
+it('says so when the backend still finds the entry in use', async () => {
+  jest.spyOn(window, 'confirm').mockReturnValue(true);
+  (deleteTaxonomyEntity as jest.Mock).mockRejectedValue(new ApiError('Conflict', 409));
+  const user = userEvent.setup();
+  renderConsole({ ...portra, imageCount: 0, collectionCount: 0 });
+
+  await user.click(screen.getByRole('button', { name: 'Delete' }));
+
+  expect(await screen.findByRole('alert')).toHaveTextContent(/still in use/);
+  expect(mockPush).not.toHaveBeenCalled();
+});
+
+it('merges into a survivor after a preview, then follows it', async () => {
+  (getTaxonomyMergePreview as jest.Mock).mockResolvedValue({
+    sourceId: 2,
+    sourceName: 'Portra400',
+    targetId: 1,
+    targetName: 'Kodak Portra 400',
+    imageCount: 3,
+    collectionCount: 1,
+    duplicatesCollapsed: 0,
+  });
+  (mergeTaxonomyEntity as jest.Mock).mockResolvedValue({
+    movedImages: 3,
+    movedCollections: 1,
+    duplicatesCollapsed: 0,
+    target: { ...portra, id: 1, name: 'Kodak Portra 400' },
+  });
+  const user = userEvent.setup();
+  renderConsole();
+
+  await user.click(screen.getByRole('button', { name: 'Merge into…' }));
+  const dialog = await screen.findByRole('dialog');
+  const confirm = within(dialog).getByRole('button', { name: /^merge$/i });
+  expect(confirm).toBeDisabled();
+
+  await user.selectOptions(within(dialog).getByRole('combobox'), '1');
+  expect(getTaxonomyMergePreview).toHaveBeenCalledWith('tags', 2, 1);
+  expect(await within(dialog).findByText(/keeps its name as an alias/)).toBeInTheDocument();
+  await user.click(confirm);
+
+  expect(mergeTaxonomyEntity).toHaveBeenCalledWith('tags', 1, 2);
+  await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/metadata/tags/1'));
+  expect(revalidateMetadataCache).toHaveBeenCalled();
+});
@@ -0,0 +1,36 @@
+import { resolveTaxonomyBySlug } from '@/app/components/TaxonomyPage/resolveTaxonomy';
+
+const tags = [
+  { id: 1, name: 'Kodak Portra 400', slug: 'kodak-portra-400', aliases: ['portra400', 'portra'] },
+  { id: 2, name: 'night', slug: 'night' },
+];
+
+describe('resolveTaxonomyBySlug', () => {
+  it('matches the canonical slug', () => {
+    expect(resolveTaxonomyBySlug(tags, 'night')?.id).toBe(2);
+  });
+
+  it('matches an alias or pre-rename slug', () => {
+    expect(resolveTaxonomyBySlug(tags, 'portra400')?.id).toBe(1);
+  });
+
+  it('prefers a canonical slug over another entity’s alias', () => {
+    const shadowed = [...tags, { id: 3, name: 'Portra', slug: 'portra' }];
+    expect(resolveTaxonomyBySlug(shadowed, 'portra')?.id).toBe(3);
+  });
+
+  it('falls back to a case-insensitive name match with hyphens as spaces', () => {
+    expect(resolveTaxonomyBySlug(tags, 'Kodak-Portra-400')?.id).toBe(1);
+  });
+
+  it('reads a stray percent sign as a literal rather than throwing', () => {
+    const percent = [...tags, { id: 4, name: '100%', slug: '100-percent' }];
+    expect(resolveTaxonomyBySlug(percent, '100%')?.id).toBe(4);
+    expect(resolveTaxonomyBySlug(tags, '100%')).toBeUndefined();
+  });
+
+  it('returns undefined for an unknown slug or an empty list', () => {
+    expect(resolveTaxonomyBySlug(tags, 'ektar')).toBeUndefined();
+    expect(resolveTaxonomyBySlug(null, 'night')).toBeUndefined();
+  });
+});
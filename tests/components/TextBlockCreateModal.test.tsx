@@ -0,0 +1,63 @@
+import '@testing-library/jest-dom';
+
+import { fireEvent, render, screen, within } from '@testing-library/react';
+
+import TextBlockCreateModal from '@/app/components/TextBlockCreateModal/TextBlockCreateModal';
+import { createImageContent } from '@/tests/fixtures/contentFixtures';
+
+function renderModal() {
+  const images = [
+    createImageContent(7, {
+      imageUrl: 'https://cdn.test/7.webp',
+      imageWidth: 1200,
+      imageHeight: 800,
+    }),
+  ];
+  render(<TextBlockCreateModal onClose={jest.fn()} onSubmit={jest.fn()} images={images} />);
+  return within(screen.getByRole('region', { name: 'Preview' }));
+}
+
+describe('TextBlockCreateModal preview', () => {
+  it('shows an empty state until there is text', () => {
+    const preview = renderModal();
+    expect(preview.getByText('Nothing to preview yet.')).toBeInTheDocument();
+  });
+
+  it('renders Markdown as it will appear on the page, with collection images', () => {
+    const preview = renderModal();
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'markdown' } });
+    fireEvent.change(screen.getByLabelText('Text Content *'), {
+      target: { value: '## Day one\n\n- [Map](https://maps.test)\n\n![Dunes](image:7)' },
+    });
+
+    expect(preview.getByRole('heading', { level: 2, name: 'Day one' })).toBeInTheDocument();
+    expect(preview.getByRole('link', { name: 'Map' })).toHaveAttribute(
+      'rel',
+      'noopener noreferrer'
+    );
+    expect(preview.getByRole('img', { name: 'Dunes' })).toBeInTheDocument();
+    expect(screen.getByText(/!\[caption]\(image:ID\)/)).toBeInTheDocument();
+  });
+
+  it('renders sanitized HTML without the markup it removes', () => {
+    const preview = renderModal();
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'html' } });
+    fireEvent.change(screen.getByLabelText('Text Content *'), {
+      target: {
+        value: '<p onclick="x()">Safe <strong>bold</strong></p><script>document.title="x"</script>',
+      },
+    });
+
+    expect(preview.getByText('bold').tagName).toBe('STRONG');
+    expect(preview.getByText(/Safe/).closest('p')).not.toHaveAttribute('onclick');
+    expect(preview.queryByText(/document\.title/)).not.toBeInTheDocument();
+  });
+
+  it('shows plain text literally', () => {
+    const preview = renderModal();
+    fireEvent.change(screen.getByLabelText('Text Content *'), {
+      target: { value: '**not bold**' },
+    });
+    expect(preview.getByText('**not bold**')).toBeInTheDocument();
+  });
+});
@@ -18,7 +18,6 @@ jest.mock('@/app/lib/api/user');
 jest.mock('@/app/lib/api/users');
 jest.mock('@/app/lib/api/collections');
 
-const mockGetShareView = shareApi.getShareView as jest.MockedFunction<typeof shareApi.getShareView>;
 const mockGetCurrentShareView = shareApi.getCurrentShareView as jest.MockedFunction<
   typeof shareApi.getCurrentShareView
 >;
@@ -41,12 +40,9 @@ describe('loadUserSpace — share mode', () => {
     mockGetAllCollections.mockResolvedValue([]);
   });
 
-  it('resolves the view from the token on first landing', async () => {
-    mockGetShareView.mockResolvedValue({ ownerName: 'Ada', page });
+  it('uses the view the page resolved on first landing', async () => {
+    const data = await loadUserSpace({ mode: 'share', view: { ownerName: 'Ada', page } });
 
-    const data = await loadUserSpace({ mode: 'share', token: 'tok-123' });
-
-    expect(mockGetShareView).toHaveBeenCalledWith('tok-123');
     expect(mockGetCurrentShareView).not.toHaveBeenCalled();
     expect(data?.ownerName).toBe('Ada');
     expect(data?.collection.slug).toBe('user');
@@ -58,13 +54,10 @@ describe('loadUserSpace — share mode', () => {
     await loadUserSpace({ mode: 'share' });
 
     expect(mockGetCurrentShareView).toHaveBeenCalled();
-    expect(mockGetShareView).not.toHaveBeenCalled();
   });
 
   it('offers only Collections and Images', async () => {
-    mockGetShareView.mockResolvedValue({ ownerName: 'Ada', page });
-
-    const data = await loadUserSpace({ mode: 'share', token: 'tok-123' });
+    const data = await loadUserSpace({ mode: 'share', view: { ownerName: 'Ada', page } });
 
     // Saved and Following are the owner's private bookmarks. Rendering them empty would assert
     // the owner has none, which is not what the recipient view tells us.
@@ -74,9 +67,7 @@ describe('loadUserSpace — share mode', () => {
   });
 
   it('issues none of the owner-scoped bookmark reads', async () => {
-    mockGetShareView.mockResolvedValue({ ownerName: 'Ada', page });
-
-    const data = await loadUserSpace({ mode: 'share', token: 'tok-123' });
+    const data = await loadUserSpace({ mode: 'share', view: { ownerName: 'Ada', page } });
 
     expect(personalApi.listSavedImagesServer).not.toHaveBeenCalled();
     expect(personalApi.listFollowedCollectionIdsServer).not.toHaveBeenCalled();
@@ -86,17 +77,15 @@ describe('loadUserSpace — share mode', () => {
   });
 
   it('skips the collection catalog even on the following tab', async () => {
-    mockGetShareView.mockResolvedValue({ ownerName: 'Ada', page });
-
-    await loadUserSpace({ mode: 'share', token: 'tok-123' }, 'following');
+    await loadUserSpace({ mode: 'share', view: { ownerName: 'Ada', page } }, 'following');
 
     // A ~0.5s read serving a tab the recipient cannot reach.
     expect(mockGetAllCollections).not.toHaveBeenCalled();
   });
 
-  it('returns null for a dead link so the page can 404', async () => {
-    mockGetShareView.mockResolvedValue(null);
+  it('returns null when the cookie no longer opens a link, so the page can 404', async () => {
+    mockGetCurrentShareView.mockResolvedValue(null);
 
-    expect(await loadUserSpace({ mode: 'share', token: 'gone' })).toBeNull();
+    expect(await loadUserSpace({ mode: 'share' })).toBeNull();
   });
 });
@@ -134,4 +134,16 @@ describe('EditBar', () => {
     expect(container.firstElementChild?.className).toMatch(/static/);
     expect(container.firstElementChild?.className).not.toMatch(/fixed/);
   });
+
+  it('renders a badge as a status, or as a button when it is clickable', () => {
+    const onSync = jest.fn();
+    const { rerender } = render(<EditBar badge={{ label: 'Offline' }} cells={[]} />);
+    expect(screen.getByRole('status')).toHaveTextContent('Offline');
+
+    rerender(
+      <EditBar badge={{ label: '2 pending', ariaLabel: 'Send now', onClick: onSync }} cells={[]} />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Send now' }));
+    expect(onSync).toHaveBeenCalledTimes(1);
+  });
 });
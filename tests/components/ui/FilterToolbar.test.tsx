@@ -626,4 +626,60 @@ describe('FilterToolbar', () => {
       expect(current[0]).toHaveTextContent('Saved');
     });
   });
+
+  describe('advanced expression', () => {
+    const openAdvanced = () => fireEvent.click(screen.getByRole('button', { name: /advanced/i }));
+
+    it('renders only when opted in', () => {
+      renderToolbar();
+      expect(screen.queryByRole('button', { name: /advanced/i })).not.toBeInTheDocument();
+    });
+
+    it('commits a valid expression and closes the panel', () => {
+      const { onFilterChange } = renderToolbar({ showExpression: true });
+      openAdvanced();
+      fireEvent.change(screen.getByLabelText('Filter expression'), {
+        target: { value: '  film AND portra NOT people:Zac ' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+      expect(onFilterChange).toHaveBeenCalledWith({ expression: 'film AND portra NOT people:Zac' });
+      expect(screen.queryByLabelText('Filter expression')).not.toBeInTheDocument();
+    });
+
+    it('shows a syntax error inline and commits nothing', () => {
+      const { onFilterChange } = renderToolbar({ showExpression: true });
+      openAdvanced();
+      const input = screen.getByLabelText('Filter expression');
+      fireEvent.change(input, { target: { value: ' tag:a AND (tag:b' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+      expect(screen.getByRole('alert')).toHaveTextContent('Missing ")" (at column 18)');
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+      expect(onFilterChange).not.toHaveBeenCalled();
+
+      fireEvent.change(input, { target: { value: 'tag:a AND (tag:b)' } });
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('seeds the field from the committed expression and clears it when emptied', () => {
+      const { onFilterChange } = renderToolbar({
+        showExpression: true,
+        filterState: { ...INITIAL_FILTER_STATE, expression: 'tag:a' },
+      });
+      openAdvanced();
+      const input = screen.getByLabelText('Filter expression');
+      expect(input).toHaveValue('tag:a');
+      fireEvent.change(input, { target: { value: '' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+      expect(onFilterChange).toHaveBeenCalledWith({ expression: '' });
+    });
+
+    it('makes a committed expression resettable', () => {
+      const { onFilterChange } = renderToolbar({
+        showExpression: true,
+        filterState: { ...INITIAL_FILTER_STATE, expression: 'tag:a' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: /reset all filters/i }));
+      expect(onFilterChange).toHaveBeenCalledWith(expect.objectContaining({ expression: '' }));
+    });
+  });
 });
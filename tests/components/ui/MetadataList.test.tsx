@@ -3,7 +3,11 @@ import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { MetadataList } from '@/app/components/ui/MetadataList/MetadataList';
 import * as core from '@/app/lib/api/core';
 
-jest.mock('@/app/lib/api/core');
+jest.mock('@/app/lib/api/core', () => ({
+  ...jest.requireActual('@/app/lib/api/core'),
+  fetchAdminPutJsonApi: jest.fn(),
+  fetchAdminDeleteApi: jest.fn(),
+}));
 
 const mockPut = core.fetchAdminPutJsonApi as jest.MockedFunction<typeof core.fetchAdminPutJsonApi>;
 const mockDelete = core.fetchAdminDeleteApi as jest.MockedFunction<typeof core.fetchAdminDeleteApi>;
@@ -64,6 +68,18 @@ describe('MetadataList', () => {
     await waitFor(() => expect(mockDelete).toHaveBeenCalledWith('/metadata/tags/1'));
   });
 
+  it('says an entry is still in use when the backend refuses the delete', async () => {
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+    mockDelete.mockRejectedValue(new core.ApiError('Conflict', 409));
+    render(
+      <MetadataList title="Tags" emptyLabel="No tags" items={items} basePath="/metadata/tags" />
+    );
+
+    fireEvent.click(screen.getAllByRole('button', { name: /delete/i })[0]!);
+    expect(await screen.findByText(/'forest' is still in use/)).toBeInTheDocument();
+    expect(screen.getAllByRole('textbox')).toHaveLength(2);
+  });
+
   it('renders a go-to link when getHref is provided', () => {
     render(
       <MetadataList
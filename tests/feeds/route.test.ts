@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ *
+ * The feed routes: format negotiation by extension, the caching contract (shared for public
+ * feeds, private and unindexed for the token feed) and conditional GETs for polling readers.
+ */
+
+import { NextRequest } from 'next/server';
+
+import { GET as getSiteFeed } from '@/app/feeds/[file]/route';
+import { GET as getFollowingFeedRoute } from '@/app/feeds/following/[file]/route';
+import { GET as getTagFeed } from '@/app/feeds/tag/[file]/route';
+import { getAllCollections } from '@/app/lib/api/collections';
+import { getAllTags, searchImages } from '@/app/lib/api/content';
+import { getFollowingFeed } from '@/app/lib/api/feeds';
+import { type CollectionModel } from '@/app/types/Collection';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import { createImageContent } from '@/tests/fixtures/contentFixtures';
+
+jest.mock('@/app/lib/api/collections', () => ({ getAllCollections: jest.fn() }));
+jest.mock('@/app/lib/api/content', () => ({ getAllTags: jest.fn(), searchImages: jest.fn() }));
+jest.mock('@/app/lib/api/feeds', () => ({ getFollowingFeed: jest.fn() }));
+
+const mockGetAllCollections = getAllCollections as jest.MockedFunction<typeof getAllCollections>;
+const mockGetAllTags = getAllTags as jest.MockedFunction<typeof getAllTags>;
+const mockSearchImages = searchImages as jest.MockedFunction<typeof searchImages>;
+const mockGetFollowingFeed = getFollowingFeed as jest.MockedFunction<typeof getFollowingFeed>;
+
+const collection: CollectionModel = {
+  id: 1,
+  slug: 'dunes',
+  title: 'Dunes',
+  isClient: false,
+  isBlog: false,
+  locations: [],
+  visibility: CollectionVisibility.LISTED,
+  createdAt: '2026-03-01T00:00:00Z',
+  updatedAt: '2026-03-02T00:00:00Z',
+};
+
+function request(path: string, headers: Record<string, string> = {}) {
+  return new NextRequest(`http://localhost:3000${path}`, { headers });
+}
+
+const params = (file: string) => ({ params: Promise.resolve({ file }) });
+
+describe('feed routes', () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...ORIGINAL_ENV, NEXT_PUBLIC_APP_URL: 'https://photos.test' };
+    mockGetAllCollections.mockResolvedValue([collection]);
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it.each([
+    ['collections.rss', 'application/rss+xml; charset=utf-8'],
+    ['collections.atom', 'application/atom+xml; charset=utf-8'],
+    ['collections.json', 'application/feed+json; charset=utf-8'],
+  ])('serves %s as %s with shared caching', async (file, contentType) => {
+    const response = await getSiteFeed(request(`/feeds/${file}`), params(file));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe(contentType);
+    expect(response.headers.get('cache-control')).toMatch(/^public, max-age=900/);
+    expect(response.headers.get('last-modified')).toBe('Mon, 02 Mar 2026 00:00:00 GMT');
+    expect(await response.text()).toContain('https://photos.test/dunes');
+  });
+
+  it('answers a matching If-None-Match with an empty 304', async () => {
+    const first = await getSiteFeed(request('/feeds/collections.rss'), params('collections.rss'));
+    const etag = first.headers.get('etag') ?? '';
+
+    const second = await getSiteFeed(
+      request('/feeds/collections.rss', { 'if-none-match': `W/${etag}` }),
+      params('collections.rss')
+    );
+
+    expect(second.status).toBe(304);
+    expect(await second.text()).toBe('');
+  });
+
+  it('404s an unknown stream or extension', async () => {
+    expect((await getSiteFeed(request('/feeds/x.rss'), params('secret.rss'))).status).toBe(404);
+    expect((await getSiteFeed(request('/feeds/x'), params('collections.xml'))).status).toBe(404);
+    expect((await getSiteFeed(request('/feeds/x'), params('constructor.rss'))).status).toBe(404);
+  });
+
+  it('serves a tag feed from the tag page images, and 404s an unknown tag', async () => {
+    mockGetAllTags.mockResolvedValue([{ id: 3, name: 'Desert', slug: 'desert' }]);
+    mockSearchImages.mockResolvedValue([
+      createImageContent(8, { createdAt: '2026-03-01T00:00:00Z' }),
+    ]);
+
+    const response = await getTagFeed(request('/feeds/tag/desert.json'), params('desert.json'));
+    const json = await response.json();
+
+    expect(mockSearchImages).toHaveBeenCalledWith({ tagIds: [3] });
+    expect(json.items[0].url).toBe('https://photos.test/tag/desert?image=8');
+    expect(json.description).toBe('Photos tagged "Desert" from Zac Edens Photography');
+    expect((await getTagFeed(request('/'), params('nope.rss'))).status).toBe(404);
+  });
+
+  it('404s a tag feed whose name carries a stray percent sign, rather than failing', async () => {
+    mockGetAllTags.mockResolvedValue([{ id: 3, name: 'Desert', slug: 'desert' }]);
+
+    const response = await getTagFeed(request('/'), params('100%.rss'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('keeps the token feed out of shared caches and search', async () => {
+    mockGetFollowingFeed.mockResolvedValue({ ownerName: 'Alex', entries: [] });
+
+    const response = await getFollowingFeedRoute(
+      request('/feeds/following/tok.atom'),
+      params('tok.atom')
+    );
+
+    expect(mockGetFollowingFeed).toHaveBeenCalledWith('tok');
+    expect(response.headers.get('cache-control')).toBe('private, max-age=300');
+    expect(response.headers.get('x-robots-tag')).toBe('noindex');
+  });
+
+  it('404s a token the backend does not know', async () => {
+    mockGetFollowingFeed.mockResolvedValue(null);
+
+    const response = await getFollowingFeedRoute(
+      request('/feeds/following/gone.rss'),
+      params('gone.rss')
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -82,6 +82,7 @@ export function makeEdit(
     handleUpdate: jest.fn(),
     deleting: false,
     handleDeleteCollection: jest.fn(),
+    stepUpDialog: null,
 
     isParent: false,
 
@@ -156,6 +157,26 @@ export function makeEdit(
     enterAdd: jest.fn(),
     enterEdit: jest.fn(),
     exitToBrowse: jest.fn(),
+    history: {
+      canUndo: false,
+      canRedo: false,
+      undoLabel: null,
+      redoLabel: null,
+      replaying: false,
+      undo: jest.fn(),
+      redo: jest.fn(),
+      toast: null,
+      dismissToast: jest.fn(),
+    },
+    offlineQueue: {
+      pending: [],
+      online: true,
+      syncing: false,
+      conflict: null,
+      queueImageUpdates: jest.fn(),
+      resolveConflict: jest.fn(),
+      syncNow: jest.fn(),
+    },
     bottomBarTabs: undefined,
     bottomBarCells: [],
     error: null,
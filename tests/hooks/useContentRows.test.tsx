@@ -0,0 +1,171 @@
+/**
+ * Tests for useContentRows — synchronous where it must be, off-thread where it can be.
+ *
+ * jsdom has no `Worker`, which is the Jest fallback under test in the first block. The second
+ * installs a fake one that runs the real worker message loop over a structured clone, so the
+ * protocol, cancellation and rehydration are exercised end to end without a bundler.
+ */
+import { deserialize, serialize } from 'node:v8';
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+import { useContentRows } from '@/app/hooks/useContentRows';
+import {
+  clearLayoutCache,
+  createLayoutWorkerHandler,
+  type LayoutJob,
+  type LayoutWorkerRequest,
+  type LayoutWorkerResponse,
+  runLayoutJob,
+} from '@/app/utils/layoutJob';
+import { resetLayoutWorker, WORKER_MIN_CONTENT } from '@/app/utils/layoutWorkerClient';
+import { createHorizontalImage, createVerticalImage } from '@/tests/fixtures/contentFixtures';
+
+jest.mock('@/app/utils/logger', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+const clone = <T,>(value: T): T => deserialize(serialize(value)) as T;
+
+function job(count: number, chunkSize = 4): LayoutJob {
+  return {
+    content: Array.from({ length: count }, (_, i) =>
+      i % 3 === 0 ? createVerticalImage(i + 1, 3) : createHorizontalImage(i + 1, 3)
+    ),
+    viewport: { contentWidth: 1200, viewportHeight: 800, isMobile: false },
+    chunkSize,
+  };
+}
+
+/** Request ids every fake worker has been asked to lay out, in order. */
+let laidOut: number[] = [];
+/** Worker tasks waiting to run; tests drain them with {@link runWorker}. */
+let tasks: Array<() => void> = [];
+
+class FakeWorker {
+  private listener: ((event: { data: LayoutWorkerResponse }) => void) | null = null;
+  private handle = createLayoutWorkerHandler(
+    response => {
+      laidOut.push(response.requestId);
+      const data = clone(response);
+      queueMicrotask(() => this.listener?.({ data }));
+    },
+    run => tasks.push(run)
+  );
+
+  addEventListener(type: string, listener: (event: { data: LayoutWorkerResponse }) => void) {
+    if (type === 'message') this.listener = listener;
+  }
+
+  postMessage(message: LayoutWorkerRequest) {
+    this.handle(clone(message));
+  }
+
+  terminate() {
+    this.listener = null;
+  }
+}
+
+async function runWorker() {
+  await act(async () => {
+    while (tasks.length > 0) tasks.shift()!();
+    await Promise.resolve();
+  });
+}
+
+beforeEach(() => {
+  clearLayoutCache();
+  resetLayoutWorker();
+  laidOut = [];
+  tasks = [];
+});
+
+describe('useContentRows without a worker', () => {
+  it('lays out synchronously on every render', () => {
+    const { result, rerender } = renderHook(({ j }) => useContentRows(j), {
+      initialProps: { j: job(WORKER_MIN_CONTENT) },
+    });
+    expect(result.current.rows.length).toBeGreaterThan(0);
+    expect(result.current.isPending).toBe(false);
+
+    const denser = job(WORKER_MIN_CONTENT, 6);
+    rerender({ j: denser });
+    expect(result.current.rows).toEqual(runLayoutJob(denser).rows);
+    expect(result.current.isPending).toBe(false);
+  });
+});
+
+describe('useContentRows with a worker', () => {
+  beforeEach(() => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+  });
+
+  afterEach(() => {
+    resetLayoutWorker();
+    delete (globalThis as { Worker?: unknown }).Worker;
+  });
+
+  it('lays out the first pass inline, so hydration matches the server', () => {
+    const { result } = renderHook(() => useContentRows(job(WORKER_MIN_CONTENT)));
+    expect(result.current.rows.length).toBeGreaterThan(0);
+    expect(laidOut).toEqual([]);
+  });
+
+  it('keeps the previous rows up until the worker answers', async () => {
+    const first = job(WORKER_MIN_CONTENT);
+    const next = job(WORKER_MIN_CONTENT, 6);
+    const { result, rerender } = renderHook(({ j }) => useContentRows(j), {
+      initialProps: { j: first },
+    });
+    const before = result.current.rows;
+
+    rerender({ j: next });
+    expect(result.current.isPending).toBe(true);
+    expect(result.current.rows).toBe(before);
+
+    await runWorker();
+    await waitFor(() => expect(result.current.isPending).toBe(false));
+    expect(result.current.rows).toEqual(runLayoutJob(next).rows);
+    // Rehydrated: the rows hold the caller's objects, not the worker's copies.
+    const firstItem = result.current.rows[0]!.items[0]!.content;
+    expect(next.content).toContain(firstItem);
+  });
+
+  it('cancels a superseded request before the worker runs it', async () => {
+    const { result, rerender } = renderHook(({ j }) => useContentRows(j), {
+      initialProps: { j: job(WORKER_MIN_CONTENT) },
+    });
+    rerender({ j: job(WORKER_MIN_CONTENT, 5) });
+    const last = job(WORKER_MIN_CONTENT, 6);
+    rerender({ j: last });
+
+    await runWorker();
+    await waitFor(() => expect(result.current.isPending).toBe(false));
+    expect(laidOut).toHaveLength(1);
+    expect(result.current.rows).toEqual(runLayoutJob(last).rows);
+  });
+
+  it('serves a layout it has seen from the cache, without the worker', async () => {
+    const first = job(WORKER_MIN_CONTENT);
+    const { result, rerender } = renderHook(({ j }) => useContentRows(j), {
+      initialProps: { j: first },
+    });
+    rerender({ j: job(WORKER_MIN_CONTENT, 6) });
+    await runWorker();
+    await waitFor(() => expect(result.current.isPending).toBe(false));
+
+    // Toggle back: same inputs in a fresh object and array.
+    rerender({ j: { ...first, content: [...first.content] } });
+    expect(result.current.isPending).toBe(false);
+    expect(laidOut).toHaveLength(1);
+  });
+
+  it('stays inline for small collections', () => {
+    const { result, rerender } = renderHook(({ j }) => useContentRows(j), {
+      initialProps: { j: job(12) },
+    });
+    rerender({ j: job(12, 6) });
+    expect(result.current.isPending).toBe(false);
+    expect(tasks).toHaveLength(0);
+  });
+});
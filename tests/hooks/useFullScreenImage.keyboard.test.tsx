@@ -103,6 +103,18 @@ describe('useFullScreenImage — keyboard handling', () => {
     expect(result.current.fullScreenState?.currentIndex).toBe(1);
   });
 
+  it('leaves the arrows to the caret while typing in a text field', () => {
+    const { result } = openViewer();
+    const field = document.createElement('textarea');
+    document.body.append(field);
+
+    const event = pressKey(field, 'ArrowRight');
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(result.current.fullScreenState?.currentIndex).toBe(1);
+    field.remove();
+  });
+
   it('ignores keys entirely while the viewer is closed', () => {
     renderHook(() => useFullScreenImage());
 
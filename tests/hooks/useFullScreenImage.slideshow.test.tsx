@@ -0,0 +1,214 @@
+/**
+ * Slideshow mode for useFullScreenImage (see useSlideshow).
+ *
+ * Pins the playback contract: the interval advances the viewer, a looping show wraps while a
+ * one-off pauses on its last slide, prev/next follow the show's order while it runs, the
+ * presentation keys (Space / K / Media*) drive it, and the running settings are mirrored onto
+ * ?slideshow= — and dropped again when the show ends or the viewer closes.
+ */
+import { act, renderHook } from '@testing-library/react';
+
+import { useFullScreenImage } from '@/app/hooks/useFullScreenImage';
+import type { ContentImageModel } from '@/app/types/Content';
+import { DEFAULT_SLIDESHOW_SETTINGS } from '@/app/utils/slideshow';
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: jest.fn(), replace: jest.fn(), prefetch: jest.fn() }),
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+const img = (id: number): ContentImageModel =>
+  ({
+    id,
+    contentType: 'IMAGE',
+    imageUrl: `https://cdn.example/${id}.jpg`,
+    imageWidth: 1000,
+    imageHeight: 800,
+    orderIndex: id,
+    visible: true,
+  }) as ContentImageModel;
+
+const IMAGES = [img(1), img(2), img(3)];
+
+function openViewer(startId = 1) {
+  const hook = renderHook(() => useFullScreenImage());
+  act(() => {
+    hook.result.current.showImage(img(startId), IMAGES);
+  });
+  return hook;
+}
+
+function pressKey(key: string): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+  act(() => {
+    document.dispatchEvent(event);
+  });
+  return event;
+}
+
+const tick = (ms: number) =>
+  act(() => {
+    jest.advanceTimersByTime(ms);
+  });
+
+describe('useFullScreenImage — slideshow', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    window.history.replaceState({}, '', '/collection-x');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('advances one slide per interval', () => {
+    const { result } = openViewer();
+
+    act(() => {
+      result.current.slideshow.start({ ...DEFAULT_SLIDESHOW_SETTINGS, intervalMs: 3000 });
+    });
+    expect(result.current.slideshow.playing).toBe(true);
+
+    tick(2999);
+    expect(result.current.fullScreenState?.currentIndex).toBe(0);
+    tick(1);
+    expect(result.current.fullScreenState?.currentIndex).toBe(1);
+    expect(window.location.search).toContain('image=2');
+  });
+
+  it('wraps a looping show back to the first slide', () => {
+    const { result } = openViewer(3);
+
+    act(() => {
+      result.current.slideshow.start();
+    });
+    tick(DEFAULT_SLIDESHOW_SETTINGS.intervalMs);
+
+    expect(result.current.fullScreenState?.currentIndex).toBe(0);
+  });
+
+  it('pauses on the last slide of a one-off show, and replays from the top on play', () => {
+    const { result } = openViewer(2);
+
+    act(() => {
+      result.current.slideshow.start({ ...DEFAULT_SLIDESHOW_SETTINGS, loop: false });
+    });
+    tick(DEFAULT_SLIDESHOW_SETTINGS.intervalMs);
+    expect(result.current.fullScreenState?.currentIndex).toBe(2);
+    tick(DEFAULT_SLIDESHOW_SETTINGS.intervalMs);
+
+    expect(result.current.fullScreenState?.currentIndex).toBe(2);
+    expect(result.current.slideshow.playing).toBe(false);
+    expect(result.current.slideshow.hasNext).toBe(false);
+
+    act(() => {
+      result.current.slideshow.togglePlaying();
+    });
+    expect(result.current.fullScreenState?.currentIndex).toBe(0);
+    expect(result.current.slideshow.playing).toBe(true);
+  });
+
+  it('lets ArrowRight wrap while a looping show runs, and restarts the interval', () => {
+    const { result } = openViewer(3);
+    act(() => {
+      result.current.slideshow.start();
+    });
+
+    tick(4000);
+    pressKey('ArrowRight');
+    expect(result.current.fullScreenState?.currentIndex).toBe(0);
+
+    tick(4000);
+    expect(result.current.fullScreenState?.currentIndex).toBe(0);
+    tick(1000);
+    expect(result.current.fullScreenState?.currentIndex).toBe(1);
+  });
+
+  it('still stops at the ends outside a slideshow', () => {
+    const { result } = openViewer(3);
+
+    pressKey('ArrowRight');
+
+    expect(result.current.fullScreenState?.currentIndex).toBe(2);
+  });
+
+  it('starts with K or the media key, and Space pauses and resumes', () => {
+    const { result } = openViewer();
+
+    pressKey('MediaPlayPause');
+    expect(result.current.slideshow.active).toBe(true);
+    expect(result.current.slideshow.playing).toBe(true);
+
+    const space = pressKey(' ');
+    expect(space.defaultPrevented).toBe(true);
+    expect(result.current.slideshow.playing).toBe(false);
+
+    tick(DEFAULT_SLIDESHOW_SETTINGS.intervalMs * 2);
+    expect(result.current.fullScreenState?.currentIndex).toBe(0);
+
+    pressKey('k');
+    expect(result.current.slideshow.playing).toBe(true);
+  });
+
+  it("steps with a remote's next-track key", () => {
+    const { result } = openViewer();
+    act(() => {
+      result.current.slideshow.start();
+    });
+
+    pressKey('MediaTrackNext');
+
+    expect(result.current.fullScreenState?.currentIndex).toBe(1);
+  });
+
+  it('mirrors the running settings onto ?slideshow= and drops them when it ends', () => {
+    const { result } = openViewer();
+
+    act(() => {
+      result.current.slideshow.start();
+    });
+    expect(new URLSearchParams(window.location.search).get('slideshow')).toBe('5,crossfade');
+
+    act(() => {
+      result.current.slideshow.updateSettings({ transition: 'kenburns', shuffle: true });
+    });
+    expect(new URLSearchParams(window.location.search).get('slideshow')).toBe('5,kenburns,shuffle');
+
+    act(() => {
+      result.current.slideshow.stop();
+    });
+    expect(window.location.search).not.toContain('slideshow');
+    expect(window.location.search).toContain('image=1');
+  });
+
+  it('ends the show when the viewer closes', () => {
+    window.history.replaceState({}, '', '/collection-x?image=1&slideshow=8');
+    const { result } = openViewer();
+    act(() => {
+      result.current.slideshow.start();
+    });
+
+    act(() => {
+      result.current.hideImage();
+    });
+
+    expect(result.current.slideshow.active).toBe(false);
+    expect(window.location.search).toBe('');
+  });
+
+  it('plays a shuffled show through every slide exactly once per lap', () => {
+    const { result } = openViewer(2);
+    act(() => {
+      result.current.slideshow.start({ ...DEFAULT_SLIDESHOW_SETTINGS, shuffle: true });
+    });
+
+    const seen = [result.current.fullScreenState?.currentIndex];
+    for (let i = 0; i < 2; i++) {
+      tick(DEFAULT_SLIDESHOW_SETTINGS.intervalMs);
+      seen.push(result.current.fullScreenState?.currentIndex);
+    }
+
+    expect(seen[0]).toBe(1);
+    expect([...seen].sort()).toEqual([0, 1, 2]);
+  });
+});
@@ -7,6 +7,7 @@
  * - Auto-prefetch is skipped when initial.isLast === true
  * - loadNext appends pages and respects isDone
  * - fetchingRef lock prevents duplicate concurrent fetches
+ * - A custom fetchPage replaces the admin list as the page source
  */
 import { act, renderHook, waitFor } from '@testing-library/react';
 
@@ -94,4 +95,15 @@ describe('useImageBrowser', () => {
     act(() => result.current.loadNext());
     expect(mockedGetAllImages).toHaveBeenCalledTimes(2);
   });
+
+  it('pages through a custom fetchPage instead of the admin list', async () => {
+    const initial = makePage(0, 20, false, 40);
+    const fetchPage = jest.fn().mockResolvedValue(makePage(1, 20, true, 40));
+
+    const { result } = renderHook(() => useImageBrowser(initial, fetchPage));
+
+    await waitFor(() => expect(result.current.items).toHaveLength(40));
+    expect(fetchPage).toHaveBeenCalledWith(1, 20);
+    expect(mockedGetAllImages).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,140 @@
+/**
+ * Tests for useRowWindow against real packed rows.
+ *
+ * jsdom does no layout: every rect is zero, so mounted rows keep their estimated pitch and the
+ * grid sits at the top of the page unless a test moves it by stubbing the container's rect.
+ */
+import { act, render } from '@testing-library/react';
+
+import { useRowWindow } from '@/app/hooks/useRowWindow';
+import { processContentForDisplay, type RowWithPatternAndSizes } from '@/app/utils/contentLayout';
+import { estimateRowPitch, rowOffsets } from '@/app/utils/rowWindow';
+import { createHorizontalImage } from '@/tests/fixtures/contentFixtures';
+
+const VIEWPORT_HEIGHT = 800;
+
+function packRows(ids: number[]): RowWithPatternAndSizes[] {
+  return processContentForDisplay(
+    ids.map(id => createHorizontalImage(id, 3)),
+    1200,
+    4
+  );
+}
+
+const keysOf = (rows: RowWithPatternAndSizes[]) =>
+  rows.map(row => row.items.map(item => item.content.id).join('-'));
+
+function Grid({
+  rows,
+  enabled = true,
+  pinned = [],
+}: {
+  rows: RowWithPatternAndSizes[];
+  enabled?: boolean;
+  pinned?: number[];
+}) {
+  const { containerRef, rowRef, segments } = useRowWindow({
+    rows,
+    rowKeys: keysOf(rows),
+    enabled,
+    pinned,
+    initialViewportHeight: VIEWPORT_HEIGHT,
+  });
+  return (
+    <div ref={containerRef} data-testid="grid">
+      {segments.map(segment =>
+        segment.kind === 'spacer' ? (
+          <div key={segment.key} data-spacer={segment.height} />
+        ) : (
+          <div key={segment.index} ref={rowRef(segment.index)} data-row={segment.index} />
+        )
+      )}
+    </div>
+  );
+}
+
+const mountedRows = (container: HTMLElement) =>
+  [...container.querySelectorAll('[data-row]')].map(el => Number(el.getAttribute('data-row')));
+
+/** Pretend the page is scrolled so the grid's top sits `scrolled` px above the viewport. */
+function scrollGridTo(grid: HTMLElement, scrolled: number) {
+  grid.getBoundingClientRect = () => ({ top: -scrolled }) as DOMRect;
+}
+
+const ids = Array.from({ length: 400 }, (_, i) => i + 1);
+const rows = packRows(ids);
+
+beforeAll(() => {
+  window.innerHeight = VIEWPORT_HEIGHT;
+});
+
+beforeEach(() => {
+  jest.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+    callback(0);
+    return 1;
+  });
+  window.scrollBy = jest.fn() as typeof window.scrollBy;
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+it('has enough rows to window', () => {
+  expect(rows.length).toBeGreaterThan(40);
+});
+
+it('mounts every row when disabled', () => {
+  const { container } = render(<Grid rows={rows} enabled={false} />);
+  expect(mountedRows(container)).toHaveLength(rows.length);
+});
+
+it('mounts the first screen plus overscan, and one spacer for the rest', () => {
+  const { container } = render(<Grid rows={rows} />);
+  const mounted = mountedRows(container);
+  expect(mounted[0]).toBe(0);
+  expect(mounted.length).toBeLessThan(20);
+
+  const offsets = rowOffsets(rows.map(row => estimateRowPitch(row)));
+  const spacers = [...container.querySelectorAll('[data-spacer]')];
+  expect(spacers).toHaveLength(1);
+  expect(Number(spacers[0]!.getAttribute('data-spacer'))).toBeCloseTo(
+    offsets.at(-1)! - offsets[mounted.length]!
+  );
+});
+
+it('follows the scroll position', () => {
+  const { container, getByTestId } = render(<Grid rows={rows} />);
+  const offsets = rowOffsets(rows.map(row => estimateRowPitch(row)));
+
+  scrollGridTo(getByTestId('grid'), offsets[30]!);
+  act(() => {
+    window.dispatchEvent(new Event('scroll'));
+  });
+
+  const mounted = mountedRows(container);
+  expect(mounted).toContain(30);
+  expect(mounted).not.toContain(0);
+});
+
+it('keeps pinned rows mounted off-screen', () => {
+  const { container } = render(<Grid rows={rows} pinned={[rows.length - 1]} />);
+  expect(mountedRows(container)).toContain(rows.length - 1);
+});
+
+it('keeps the item at the top of the viewport in place when the layout changes', () => {
+  const { getByTestId, rerender } = render(<Grid rows={rows} />);
+  const grid = getByTestId('grid');
+  const offsets = rowOffsets(rows.map(row => estimateRowPitch(row)));
+  scrollGridTo(grid, offsets[30]!);
+  act(() => {
+    window.dispatchEvent(new Event('scroll'));
+  });
+  const anchorId = rows[30]!.items[0]!.content.id;
+
+  // A filter drops the first twenty images: the anchor moves up the grid.
+  const filtered = packRows(ids.slice(20));
+  const newIndex = filtered.findIndex(row => row.items.some(item => item.content.id === anchorId));
+  const newOffsets = rowOffsets(filtered.map(row => estimateRowPitch(row)));
+  rerender(<Grid rows={filtered} />);
+
+  expect(window.scrollBy).toHaveBeenCalledWith(0, newOffsets[newIndex]! - offsets[30]!);
+});
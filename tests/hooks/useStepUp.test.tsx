@@ -0,0 +1,124 @@
+/**
+ * useStepUp: a destructive action the backend refuses with 403 STEP_UP_REQUIRED opens the
+ * second-factor dialog and runs again once verified; anything else passes straight through.
+ */
+
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useState } from 'react';
+
+import { useStepUp } from '@/app/hooks/useStepUp';
+import * as authApi from '@/app/lib/api/auth';
+import { ApiError, STEP_UP_REQUIRED } from '@/app/lib/api/core';
+
+jest.mock('@/app/hooks/useBodyScrollLock', () => ({ useBodyScrollLock: jest.fn() }));
+jest.mock('@/app/lib/api/auth', () => ({
+  verifyMfa: jest.fn(),
+  verifyMfaWithPasskey: jest.fn(),
+}));
+
+const mockVerifyMfa = authApi.verifyMfa as jest.MockedFunction<typeof authApi.verifyMfa>;
+
+const stepUpError = () => new ApiError('Confirm it’s you', 403, STEP_UP_REQUIRED);
+
+function Harness({
+  action,
+  showDialog = true,
+}: {
+  action: () => Promise<string>;
+  showDialog?: boolean;
+}) {
+  const { withStepUp, stepUpDialog } = useStepUp();
+  const [result, setResult] = useState('');
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() =>
+          withStepUp(action).then(setResult, (error: Error) =>
+            setResult(`failed: ${error.message}`)
+          )
+        }
+      >
+        Delete
+      </button>
+      <output>{result}</output>
+      {showDialog && stepUpDialog}
+    </>
+  );
+}
+
+describe('useStepUp', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('runs the action without a dialog when no step-up is due', async () => {
+    const action = jest.fn().mockResolvedValue('deleted');
+    render(<Harness action={action} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    expect(await screen.findByText('deleted')).toBeInTheDocument();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('asks for the second factor, then retries the action once', async () => {
+    mockVerifyMfa.mockResolvedValue();
+    const action = jest.fn().mockRejectedValueOnce(stepUpError()).mockResolvedValueOnce('deleted');
+    render(<Harness action={action} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(await screen.findByRole('dialog', { name: 'Confirm it’s you' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Authentication code'), {
+      target: { value: '123456' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+
+    expect(await screen.findByText('deleted')).toBeInTheDocument();
+    expect(action).toHaveBeenCalledTimes(2);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('rejects with the original error when the dialog is dismissed', async () => {
+    const action = jest.fn().mockRejectedValue(stepUpError());
+    render(<Harness action={action} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    await screen.findByRole('dialog');
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    });
+
+    expect(await screen.findByText('failed: Confirm it’s you')).toBeInTheDocument();
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * The dialog can live in a narrower tree than the hook — the collection edit layer keeps its
+   * hook, but renders the dialog inside one tab. Leaving that tab must not strand the action.
+   */
+  it('rejects with the original error when the dialog host unmounts mid-check', async () => {
+    const action = jest.fn().mockRejectedValue(stepUpError());
+    const { rerender } = render(<Harness action={action} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    await screen.findByRole('dialog');
+    await act(async () => {
+      rerender(<Harness action={action} showDialog={false} />);
+    });
+
+    expect(await screen.findByText('failed: Confirm it’s you')).toBeInTheDocument();
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes other failures straight through', async () => {
+    const action = jest.fn().mockRejectedValue(new ApiError('Access denied', 403));
+    render(<Harness action={action} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(screen.getByText('failed: Access denied')).toBeInTheDocument());
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for revalidateCacheAction's authorization: the admin session gate it shares with
+ * requireAdmin, second factor included.
+ */
+
+import { revalidateTag } from 'next/cache';
+
+import { revalidateCacheAction } from '@/app/lib/actions/revalidateCache';
+import { meServer } from '@/app/lib/api/auth';
+import { type MeResponse } from '@/app/types/Auth';
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+  revalidateTag: jest.fn(),
+}));
+jest.mock('@/app/lib/api/auth', () => ({ meServer: jest.fn() }));
+
+const mockMeServer = meServer as jest.MockedFunction<typeof meServer>;
+
+const admin = (mfaSatisfied: boolean): MeResponse => ({
+  email: 'admin@example.com',
+  isAdmin: true,
+  mfaSatisfied,
+  galleries: [],
+});
+
+describe('revalidateCacheAction', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, NODE_ENV: 'production', NEXT_PUBLIC_ENV: 'production' };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('revalidates for an admin who passed their second factor', async () => {
+    mockMeServer.mockResolvedValue(admin(true));
+
+    await expect(revalidateCacheAction({ tags: ['collection-film'] })).resolves.toEqual({
+      ok: true,
+    });
+    expect(revalidateTag).toHaveBeenCalledWith('collection-film', 'max');
+  });
+
+  it('refuses an admin who still owes their second factor', async () => {
+    mockMeServer.mockResolvedValue(admin(false));
+
+    await expect(revalidateCacheAction({ tags: ['collection-film'] })).resolves.toEqual({
+      ok: false,
+      error: 'Unauthorized',
+    });
+    expect(revalidateTag).not.toHaveBeenCalled();
+  });
+});
@@ -5,15 +5,30 @@
 
 import {
   AUTH_CHANGED_EVENT,
+  confirmTotpEnrollment,
+  getMfaStatus,
+  listPasskeys,
+  listSessions,
   login,
   loginWithPasskey,
   logout,
   me,
   meServer,
   registerPasskey,
+  removePasskey,
+  renamePasskey,
+  signOutOtherSessions,
+  startTotpEnrollment,
+  verifyMfa,
+  verifyMfaWithPasskey,
 } from '@/app/lib/api/auth';
-import { ApiError, getApiBaseUrl, getServerCookieHeader } from '@/app/lib/api/core';
-import { type MeResponse } from '@/app/types/Auth';
+import {
+  ApiError,
+  getApiBaseUrl,
+  getServerCookieHeader,
+  STEP_UP_REQUIRED,
+} from '@/app/lib/api/core';
+import { type AuthSession, type MeResponse, type PasskeyCredential } from '@/app/types/Auth';
 
 jest.mock('next/headers', () => ({ cookies: jest.fn() }));
 jest.mock('@/app/utils/environment', () => ({ isLocalEnvironment: jest.fn() }));
@@ -498,3 +513,258 @@ describe('meServer', () => {
     expect(await meServer()).toBeNull();
   });
 });
+
+describe('passkey management', () => {
+  const passkey: PasskeyCredential = {
+    id: 'cred-1',
+    nickname: 'Work laptop',
+    createdAt: '2026-03-01T10:00:00Z',
+    lastUsedAt: null,
+  };
+
+  it('lists the passkeys through the BFF proxy', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue([passkey]),
+    });
+
+    await expect(listPasskeys()).resolves.toEqual([passkey]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/auth/webauthn/credentials',
+      expect.objectContaining({ method: 'GET', credentials: 'same-origin', cache: 'no-store' })
+    );
+  });
+
+  it('PATCHes a trimmed nickname, sending null for a blank one', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue(passkey),
+    });
+
+    await expect(renamePasskey('cred/1', '  Work laptop ')).resolves.toEqual(passkey);
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/auth/webauthn/credentials/cred%2F1',
+      expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ nickname: 'Work laptop' }),
+      })
+    );
+
+    await renamePasskey('cred-1', '   ');
+    expect((global.fetch as jest.Mock).mock.calls[1][1].body).toBe(
+      JSON.stringify({ nickname: null })
+    );
+  });
+
+  it('DELETEs a passkey and resolves on 204', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 204,
+      headers: new Headers(),
+    });
+
+    await expect(removePasskey('cred-1')).resolves.toBeUndefined();
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/auth/webauthn/credentials/cred-1',
+      expect.objectContaining({ method: 'DELETE', credentials: 'same-origin' })
+    );
+  });
+
+  it('throws when the id is missing', async () => {
+    await expect(renamePasskey('', 'x')).rejects.toThrow('id is required');
+    await expect(removePasskey('')).rejects.toThrow('id is required');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('throws ApiError with the status on a non-OK response', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 401,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue({ message: 'Unauthorized' }),
+    });
+
+    await expect(listPasskeys()).rejects.toMatchObject({ name: 'ApiError', status: 401 });
+  });
+});
+
+describe('session management', () => {
+  const session: AuthSession = {
+    id: 'sess-1',
+    device: 'Safari on iPhone',
+    createdAt: '2026-03-01T10:00:00Z',
+    lastSeenAt: '2026-03-02T10:00:00Z',
+    current: true,
+  };
+
+  it('lists the sessions through the BFF proxy', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue([session]),
+    });
+
+    await expect(listSessions()).resolves.toEqual([session]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/auth/sessions',
+      expect.objectContaining({ method: 'GET', credentials: 'same-origin', cache: 'no-store' })
+    );
+  });
+
+  it('revokes the other sessions without dispatching auth-changed', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 204,
+      headers: new Headers(),
+    });
+
+    await expect(signOutOtherSessions()).resolves.toBeUndefined();
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/auth/sessions/revoke-others',
+      expect.objectContaining({ method: 'POST', credentials: 'same-origin' })
+    );
+    expect(authChangedListener).not.toHaveBeenCalled();
+  });
+
+  it('throws ApiError on a non-OK status', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 500,
+      headers: new Headers(),
+      text: jest.fn().mockResolvedValue('Server error'),
+    });
+
+    await expect(signOutOtherSessions()).rejects.toMatchObject({
+      name: 'ApiError',
+      status: 500,
+      message: 'Server error',
+    });
+  });
+});
+
+describe('second factor', () => {
+  const jsonResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: jest.fn().mockResolvedValue(body),
+  });
+
+  it('reads the MFA status through the BFF proxy', async () => {
+    const status = { totpEnabled: false, passkeyCount: 1, recoveryCodesRemaining: 0 };
+    (global.fetch as jest.Mock).mockResolvedValue(jsonResponse(status));
+
+    await expect(getMfaStatus()).resolves.toEqual(status);
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/auth/mfa',
+      expect.objectContaining({ method: 'GET', credentials: 'same-origin', cache: 'no-store' })
+    );
+  });
+
+  it('starts and confirms an authenticator-app enrollment', async () => {
+    const enrollment = { secret: 'ABC', otpauthUrl: 'otpauth://totp/x', qrCodeDataUri: 'data:,' };
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(enrollment))
+      .mockResolvedValueOnce(jsonResponse({ recoveryCodes: ['a-b'] }));
+
+    await expect(startTotpEnrollment()).resolves.toEqual(enrollment);
+    await expect(confirmTotpEnrollment(' 123 456 ')).resolves.toEqual({ recoveryCodes: ['a-b'] });
+
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      1,
+      '/api/proxy/api/auth/mfa/totp/start',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      2,
+      '/api/proxy/api/auth/mfa/totp/confirm',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ code: '123456' }) })
+    );
+    // The confirming session counts as verified.
+    expect(authChangedListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('verifies a code and dispatches auth-changed', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 204,
+      headers: new Headers(),
+    });
+
+    await expect(verifyMfa('123 456')).resolves.toBeUndefined();
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/auth/mfa/verify',
+      expect.objectContaining({
+        method: 'POST',
+        credentials: 'same-origin',
+        body: JSON.stringify({ code: '123456' }),
+      })
+    );
+    expect(authChangedListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws without calling the backend when the code is blank', async () => {
+    await expect(verifyMfa('  ')).rejects.toThrow('code is required');
+    await expect(confirmTotpEnrollment('')).rejects.toThrow('code is required');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('throws ApiError 401 on a wrong code without dispatching', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 401,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue({ message: 'Invalid code' }),
+    });
+
+    await expect(verifyMfa('000000')).rejects.toMatchObject({ name: 'ApiError', status: 401 });
+    expect(authChangedListener).not.toHaveBeenCalled();
+  });
+
+  it('runs the passkey assertion against the MFA endpoints', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({ challenge: 'Aa-_', allowCredentials: [] }))
+      .mockResolvedValueOnce({ ok: true, status: 204, headers: new Headers() });
+    mockCredentialsGet.mockResolvedValue({
+      id: 'cred-id',
+      rawId: new Uint8Array([0x01]).buffer,
+      type: 'public-key',
+      response: {
+        clientDataJSON: new Uint8Array([0x01]).buffer,
+        authenticatorData: new Uint8Array([0xaf]).buffer,
+        signature: new Uint8Array([0xbf]).buffer,
+        userHandle: null,
+      },
+    });
+
+    await expect(verifyMfaWithPasskey()).resolves.toBeUndefined();
+
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+      '/api/proxy/api/auth/mfa/webauthn/start'
+    );
+    expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe(
+      '/api/proxy/api/auth/mfa/webauthn/finish'
+    );
+    expect(authChangedListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('carries the backend error code on the ApiError', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 403,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue({ message: 'Confirm it’s you', code: STEP_UP_REQUIRED }),
+    });
+
+    await expect(removePasskey('cred-1')).rejects.toMatchObject({
+      status: 403,
+      code: STEP_UP_REQUIRED,
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/** @jest-environment node */
+/**
+ * Unit tests for changeLog.ts — verifies the filter and paging query the activity panel sends,
+ * and the empty-body fallback. Core fetch helpers are mocked.
+ */
+
+import { CHANGE_LOG_PAGE_SIZE, getChangeLog } from '@/app/lib/api/changeLog';
+
+jest.mock('@/app/lib/api/core', () => ({
+  ...jest.requireActual('@/app/lib/api/core'),
+  fetchAdminGetApi: jest.fn(),
+  fetchAdminPostJsonApi: jest.fn(),
+}));
+
+import * as core from '@/app/lib/api/core';
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('getChangeLog', () => {
+  it('GETs the newest page uncached', async () => {
+    (core.fetchAdminGetApi as jest.Mock).mockResolvedValue(null);
+    await getChangeLog();
+    expect(core.fetchAdminGetApi).toHaveBeenCalledWith(
+      `/change-log?limit=${CHANGE_LOG_PAGE_SIZE}`,
+      { cache: 'no-store' }
+    );
+  });
+
+  it('sends every set filter and the offset as query params, and skips unset ones', async () => {
+    (core.fetchAdminGetApi as jest.Mock).mockResolvedValue(null);
+    await getChangeLog({
+      collectionId: 10,
+      actor: 'ana+test@example.com',
+      changeType: null,
+      offset: 50,
+    });
+    expect(core.fetchAdminGetApi).toHaveBeenCalledWith(
+      '/change-log?limit=50&offset=50&collectionId=10&actor=ana%2Btest%40example.com',
+      { cache: 'no-store' }
+    );
+  });
+
+  it('reads an empty body as an empty log', async () => {
+    (core.fetchAdminGetApi as jest.Mock).mockResolvedValue(null);
+    expect(await getChangeLog()).toEqual({
+      entries: [],
+      total: 0,
+      unseen: 0,
+      collections: [],
+      actors: [],
+    });
+  });
+});
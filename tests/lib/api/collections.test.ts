@@ -6,16 +6,25 @@
 import {
   createChildCollection as createChildCollectionApi,
   createCollection as createCollectionApi,
+  createGalleryAccessCode,
+  getAllCollections,
+  getCollectionActivity,
   getCollectionsByLocation,
+  getCollectionsPage,
+  getGalleryAccessLog,
+  listGalleryAccessCodes,
   parseCollectionArrayResponse,
   reorderCollectionContent as reorderCollectionContentApi,
+  revokeGalleryAccessCode,
   saveCollectionFromTag,
   saveGalleryAccess,
+  setCollectionCover,
+  updateCollaboratorImages,
   updateCollection as updateCollectionApi,
   updateCollectionRating as updateCollectionRatingApi,
   validateClientGalleryAccess,
 } from '@/app/lib/api/collections';
-import { ApiError } from '@/app/lib/api/core';
+import { ACCESS_CODE_EXHAUSTED, ApiError } from '@/app/lib/api/core';
 import * as core from '@/app/lib/api/core';
 import { type CollectionModel } from '@/app/types/Collection';
 import { CollectionVisibility } from '@/app/types/CollectionVisibility';
@@ -198,6 +207,42 @@ describe('parseCollectionArrayResponse', () => {
   });
 });
 
+describe('getCollectionsPage / getAllCollections', () => {
+  const serverError = () => ({
+    ok: false,
+    status: 500,
+    statusText: 'Internal Server Error',
+    json: jest.fn().mockResolvedValue({ message: 'Boom' }),
+    headers: new Headers({ 'content-type': 'application/json' }),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('throws a failed page read, so a caller can tell it from an empty one', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(serverError());
+
+    await expect(getCollectionsPage(2, 100)).rejects.toBeInstanceOf(ApiError);
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/collections?page=2&size=100'),
+      expect.any(Object)
+    );
+  });
+
+  it('reads a 404 as no collections', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ...serverError(), status: 404 });
+
+    await expect(getCollectionsPage()).resolves.toEqual([]);
+  });
+
+  it('still falls back to an empty list in getAllCollections', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(serverError());
+
+    await expect(getAllCollections()).resolves.toEqual([]);
+  });
+});
+
 describe('getCollectionsByLocation', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -315,6 +360,24 @@ describe('validateClientGalleryAccess', () => {
     });
   });
 
+  it('carries the error code of a 410 for a code past its download limit', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 410,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue({
+        message: 'This access code has reached its download limit',
+        code: ACCESS_CODE_EXHAUSTED,
+      }),
+    });
+
+    await expect(validateClientGalleryAccess('smith-wedding', 'K7QX-2M9P')).rejects.toMatchObject({
+      name: 'ApiError',
+      status: 410,
+      code: ACCESS_CODE_EXHAUSTED,
+    });
+  });
+
   it('throws ApiError with status 404 when gallery not found', async () => {
     (global.fetch as jest.Mock).mockResolvedValue({
       ok: false,
@@ -529,6 +592,81 @@ describe('saveGalleryAccess', () => {
   });
 });
 
+describe('gallery access codes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const request = {
+    recipientEmail: 'mum@example.com',
+    label: null,
+    expiresAt: '2026-11-30T23:59:59Z',
+    downloadLimit: 20,
+    sendEmail: true,
+  };
+
+  it('POSTs a new code to the collection and returns the created code', async () => {
+    const created = {
+      accessCode: { id: 5, code: 'K7QX-2M9P', status: 'active' },
+      emailSent: true,
+      reason: null,
+    };
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ...mockSuccessResponse(created),
+      status: 201,
+    });
+
+    await expect(createGalleryAccessCode(103, request)).resolves.toEqual(created);
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/collections/103/access-codes'),
+      expect.objectContaining({ method: 'POST', body: JSON.stringify(request) })
+    );
+  });
+
+  it('throws ApiError when the create response is not ok', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: jest.fn().mockResolvedValue({ message: 'downloadLimit must be a positive integer' }),
+      headers: new Headers({ 'content-type': 'application/json' }),
+    });
+
+    await expect(createGalleryAccessCode(103, request)).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('reads codes and the access log, treating an empty body as none', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 204,
+      json: jest.fn(),
+      headers: new Headers(),
+    });
+
+    await expect(listGalleryAccessCodes(103)).resolves.toEqual([]);
+    await expect(getGalleryAccessLog(103)).resolves.toEqual([]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/collections/103/access-log'),
+      expect.objectContaining({ cache: 'no-store' })
+    );
+  });
+
+  it('DELETEs a single code', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 204,
+      json: jest.fn(),
+      headers: new Headers(),
+    });
+
+    await revokeGalleryAccessCode(103, 5);
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/collections/103/access-codes/5'),
+      expect.objectContaining({ method: 'DELETE' })
+    );
+  });
+});
+
 describe('saveCollectionFromTag', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -728,3 +866,50 @@ describe('reorderCollectionContent / updateCollectionRating — edit tier contra
     });
   });
 });
+
+describe('collaborator writes — edit tier contract', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('updateCollaboratorImages PATCHes the edit channel and returns the updated images', async () => {
+    const updated = [{ id: 9, contentType: 'IMAGE', caption: 'First dance' }];
+    (core.fetchEditPatchJsonApi as jest.Mock).mockResolvedValue(updated);
+
+    await expect(updateCollaboratorImages(5, [{ id: 9, caption: 'First dance' }])).resolves.toBe(
+      updated
+    );
+    expect(core.fetchEditPatchJsonApi).toHaveBeenCalledWith('/collections/5/images', {
+      updates: [{ id: 9, caption: 'First dance' }],
+    });
+  });
+
+  it('updateCollaboratorImages treats an empty body as no images', async () => {
+    (core.fetchEditPatchJsonApi as jest.Mock).mockResolvedValue(null);
+
+    await expect(updateCollaboratorImages(5, [{ id: 9, rating: 4 }])).resolves.toEqual([]);
+  });
+
+  it('setCollectionCover PATCHes the edit channel with the image id', async () => {
+    await setCollectionCover(5, 9);
+
+    expect(core.fetchEditPatchJsonApi).toHaveBeenCalledWith('/collections/5/cover', {
+      coverImageId: 9,
+    });
+  });
+
+  it('getCollectionActivity reads the admin log uncached, treating an empty body as none', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 204,
+      json: jest.fn(),
+      headers: new Headers(),
+    });
+
+    await expect(getCollectionActivity(5)).resolves.toEqual([]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/collections/5/activity'),
+      expect.objectContaining({ cache: 'no-store' })
+    );
+  });
+});
@@ -3,13 +3,14 @@
  * Tests read and admin content API endpoints
  */
 import {
-  createImages,
   createTextContent,
   deleteImages,
   getAllImages,
   getAllLocations,
   getAllTags,
   searchImages,
+  searchImagesPage,
+  searchScopeFromCriteria,
   updateImages,
 } from '@/app/lib/api/content';
 import { logger } from '@/app/utils/logger';
@@ -52,6 +53,18 @@ describe('Read Endpoints', () => {
         expect.any(Object)
       );
     });
+
+    it('carries alias slugs through when the backend sends them', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        mockSuccessResponse([
+          { id: 1, tagName: 'Kodak Portra 400', slug: 'kodak-portra-400', aliases: ['portra400'] },
+        ])
+      );
+
+      expect(await getAllTags()).toEqual([
+        { id: 1, name: 'Kodak Portra 400', slug: 'kodak-portra-400', aliases: ['portra400'] },
+      ]);
+    });
   });
 
   describe('getAllLocations', () => {
@@ -124,6 +137,89 @@ describe('Read Endpoints', () => {
       expect(calledUrl).toContain('/content/images/search');
       expect(calledUrl).not.toContain('?');
     });
+
+    it('should send the free text, capture-date range and collections', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(mockSuccessResponse([]));
+
+      await searchImages({
+        query: '  neon  ',
+        captureStartDate: '2024-01-01',
+        captureEndDate: '2024-06-30',
+        collectionIds: [3, 7],
+      });
+      const calledUrl = new URL(
+        (global.fetch as jest.Mock).mock.calls[0][0] as string,
+        'http://localhost'
+      );
+      expect(calledUrl.searchParams.get('q')).toBe('neon');
+      expect(calledUrl.searchParams.get('captureStartDate')).toBe('2024-01-01');
+      expect(calledUrl.searchParams.get('captureEndDate')).toBe('2024-06-30');
+      expect(calledUrl.searchParams.get('collectionIds')).toBe('3,7');
+    });
+  });
+
+  describe('searchImagesPage', () => {
+    it('should unwrap the Spring page envelope', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        mockSuccessResponse({
+          content: [{ id: 1, contentType: 'IMAGE' }],
+          totalElements: 61,
+          totalPages: 2,
+          number: 0,
+          last: false,
+        })
+      );
+
+      const result = await searchImagesPage({ query: 'neon' });
+
+      expect(result).toEqual({
+        items: [{ id: 1, contentType: 'IMAGE' }],
+        page: 0,
+        totalPages: 2,
+        totalElements: 61,
+        isLast: false,
+      });
+      const calledUrl = new URL(
+        (global.fetch as jest.Mock).mock.calls[0][0] as string,
+        'http://localhost'
+      );
+      expect(calledUrl.searchParams.get('page')).toBe('0');
+      expect(calledUrl.searchParams.get('size')).toBe('60');
+    });
+
+    it('should treat a bare array as a single, last page', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(mockSuccessResponse([{ id: 2 }]));
+
+      await expect(searchImagesPage({ page: 0, size: 10 })).resolves.toMatchObject({
+        items: [{ id: 2 }],
+        isLast: true,
+      });
+    });
+  });
+
+  describe('searchScopeFromCriteria', () => {
+    it('should keep only the scope and leave facets to the client', () => {
+      expect(
+        searchScopeFromCriteria({
+          query: ' fog ',
+          dateFrom: '2024-01-01T00:00:00Z',
+          dateTo: '2024-02-01',
+          collectionIds: [4],
+          tags: ['film'],
+          minRating: 4,
+          isFilm: true,
+        })
+      ).toEqual({
+        query: 'fog',
+        captureStartDate: '2024-01-01',
+        captureEndDate: '2024-02-01',
+        collectionIds: [4],
+      });
+    });
+
+    it('should return an empty scope for empty criteria', () => {
+      expect(searchScopeFromCriteria({ query: '   ' })).toEqual({});
+    });
   });
 });
 
@@ -186,22 +282,6 @@ describe('Admin Endpoints', () => {
     });
   });
 
-  describe('createImages', () => {
-    it('should post FormData to collection endpoint', async () => {
-      const response = [{ id: 1, contentType: 'IMAGE', imageUrl: 'https://example.com/new.jpg' }];
-      (global.fetch as jest.Mock).mockResolvedValue(mockSuccessResponse(response));
-
-      const formData = new FormData();
-      const result = await createImages(42, formData);
-
-      expect(result).toEqual(response);
-      expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('/content/images/42'),
-        expect.objectContaining({ method: 'POST' })
-      );
-    });
-  });
-
   describe('createTextContent', () => {
     it('should post text content creation request', async () => {
       const response = { id: 10, contentType: 'TEXT' };
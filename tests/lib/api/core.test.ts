@@ -13,6 +13,10 @@ import {
   fetchEditPatchJsonApi,
   fetchEditPostJsonApi,
   getServerCookieHeader,
+  isExhausted,
+  isStepUpRequired,
+  SHARE_EXHAUSTED,
+  STEP_UP_REQUIRED,
 } from '@/app/lib/api/core';
 import { logger } from '@/app/utils/logger';
 
@@ -89,6 +93,31 @@ describe('handleApiError (tested via public API functions)', () => {
       await expect(fetchAdminPostJsonApi('/test', {})).rejects.toBeInstanceOf(ApiError);
       await expect(fetchAdminPostJsonApi('/test', {})).rejects.toHaveProperty('status', 403);
     });
+
+    it('should carry the backend error code, which marks a step-up request', async () => {
+      const mockResponse = {
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+        json: jest
+          .fn()
+          .mockResolvedValue({ message: 'Confirm it’s you to continue', code: STEP_UP_REQUIRED }),
+      };
+      (global.fetch as jest.Mock).mockResolvedValue(mockResponse);
+
+      const error = await fetchAdminDeleteApi('/roles/1').catch((error_: unknown) => error_);
+
+      expect(error).toMatchObject({ status: 403, code: STEP_UP_REQUIRED });
+      expect(isStepUpRequired(error)).toBe(true);
+      expect(isStepUpRequired(new ApiError('Access denied', 403))).toBe(false);
+      expect(isStepUpRequired(new ApiError('Nope', 401, STEP_UP_REQUIRED))).toBe(false);
+    });
+
+    it('tells a 410 for a spent limit from one for an expiry by its code, not its message', () => {
+      expect(isExhausted(new ApiError('View limit reached', 410, SHARE_EXHAUSTED))).toBe(true);
+      expect(isExhausted(new ApiError('exhausted', 410))).toBe(false);
+      expect(isExhausted(new ApiError('Gone', 404, SHARE_EXHAUSTED))).toBe(false);
+    });
   });
 
   describe('Catch block error handling', () => {
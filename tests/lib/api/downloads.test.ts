@@ -1,16 +1,46 @@
 /**
- * Unit tests for downloads.ts URL builders.
+ * Unit tests for downloads.ts.
  *
- * These are pure functions — no fetch, no DOM. They produce BFF-routed URLs
- * that the browser navigates to via `window.location.href`. Tests focus on
- * shape, defaults, format selection, and slug encoding.
+ * The URL builders are pure — they produce BFF-routed URLs the browser navigates to or links. The
+ * export job calls run against a mocked `fetch`; tests focus on paths, bodies, encoding and how a
+ * non-OK response surfaces.
  */
 
+import { ApiError } from '@/app/lib/api/core';
 import {
-  downloadCollectionSelectionUrl,
-  downloadCollectionUrl,
   downloadImageUrl,
+  emailExportJob,
+  exportArchiveUrl,
+  getExportJob,
+  startCollectionExport,
 } from '@/app/lib/api/downloads';
+import { type ExportJob } from '@/app/types/ExportJob';
+
+const job: ExportJob = {
+  id: 'exp-1',
+  collectionSlug: 'smith-wedding',
+  format: 'web',
+  imageCount: 12,
+  processedCount: 0,
+  status: 'queued',
+  error: null,
+  expiresAt: null,
+  emailTo: null,
+};
+
+global.fetch = jest.fn();
+const fetchMock = global.fetch as jest.Mock;
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers({ 'content-type': 'application/json' }),
+  json: async () => body,
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+});
 
 describe('downloadImageUrl', () => {
   it('defaults to format=web', () => {
@@ -39,54 +69,80 @@ describe('downloadImageUrl', () => {
   });
 });
 
-describe('downloadCollectionUrl', () => {
-  it('defaults to format=web for a simple slug', () => {
-    expect(downloadCollectionUrl('hello-world')).toBe(
-      '/api/proxy/api/read/collections/hello-world/download?format=web'
-    );
+describe('exportArchiveUrl', () => {
+  it('points at the job archive and encodes the id', () => {
+    expect(exportArchiveUrl('exp-1')).toBe('/api/proxy/api/read/exports/exp-1/archive');
+    expect(exportArchiveUrl('a/b')).toBe('/api/proxy/api/read/exports/a%2Fb/archive');
   });
+});
 
-  it('produces a web-format URL when format=web is passed explicitly', () => {
-    expect(downloadCollectionUrl('smith-wedding', 'web')).toBe(
-      '/api/proxy/api/read/collections/smith-wedding/download?format=web'
-    );
-  });
+describe('startCollectionExport', () => {
+  it('POSTs the whole gallery when no selection is given', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(202, job));
 
-  it('URL-encodes slugs with spaces and reserved characters', () => {
-    expect(downloadCollectionUrl('hello world & more')).toBe(
-      '/api/proxy/api/read/collections/hello%20world%20%26%20more/download?format=web'
+    await expect(startCollectionExport('smith-wedding', 'original')).resolves.toEqual(job);
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/proxy/api/read/collections/smith-wedding/exports',
+      expect.objectContaining({
+        method: 'POST',
+        credentials: 'same-origin',
+        body: JSON.stringify({ format: 'original', imageIds: null }),
+      })
     );
   });
 
-  it('URL-encodes slashes inside the slug so they cannot escape the path segment', () => {
-    expect(downloadCollectionUrl('foo/bar')).toBe(
-      '/api/proxy/api/read/collections/foo%2Fbar/download?format=web'
+  it('sends a selection as imageIds and URL-encodes the slug', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(202, job));
+
+    await startCollectionExport('hello world & more', 'web', [10, 20]);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/proxy/api/read/collections/hello%20world%20%26%20more/exports',
+      expect.objectContaining({ body: JSON.stringify({ format: 'web', imageIds: [10, 20] }) })
     );
   });
-});
 
-describe('downloadCollectionSelectionUrl', () => {
-  it('appends a comma-separated imageIds filter and defaults to format=web', () => {
-    expect(downloadCollectionSelectionUrl('smith-wedding', [3, 1, 2])).toBe(
-      '/api/proxy/api/read/collections/smith-wedding/download?format=web&imageIds=3,1,2'
+  it('throws on an empty selection rather than sending an ambiguous empty filter', async () => {
+    await expect(startCollectionExport('smith-wedding', 'web', [])).rejects.toThrow(
+      /at least one imageid/i
     );
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 
-  it('preserves the chosen format', () => {
-    expect(downloadCollectionSelectionUrl('smith-wedding', [7], 'original')).toBe(
-      '/api/proxy/api/read/collections/smith-wedding/download?format=original&imageIds=7'
+  it('throws an ApiError carrying the backend message', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(403, { message: 'Gallery access required' }));
+
+    const error = await startCollectionExport('smith-wedding', 'web').catch(
+      (error_: unknown) => error_
     );
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 403, message: 'Gallery access required' });
   });
+});
+
+describe('getExportJob / emailExportJob', () => {
+  it('reads the job uncached', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { ...job, status: 'running' }));
 
-  it('URL-encodes the slug but leaves the imageIds list as bare numbers', () => {
-    expect(downloadCollectionSelectionUrl('hello world & more', [10, 20])).toBe(
-      '/api/proxy/api/read/collections/hello%20world%20%26%20more/download?format=web&imageIds=10,20'
+    await expect(getExportJob('exp-1')).resolves.toMatchObject({ status: 'running' });
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/proxy/api/read/exports/exp-1',
+      expect.objectContaining({ cache: 'no-store' })
     );
   });
 
-  it('throws on an empty selection rather than emitting an ambiguous bare imageIds=', () => {
-    expect(() => downloadCollectionSelectionUrl('smith-wedding', [])).toThrow(
-      /at least one imageid/i
+  it('POSTs the address to email the link to', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { ...job, emailTo: 'sam@example.com' }));
+
+    await expect(emailExportJob('exp-1', 'sam@example.com')).resolves.toMatchObject({
+      emailTo: 'sam@example.com',
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/proxy/api/read/exports/exp-1/email',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ email: 'sam@example.com' }),
+      })
     );
   });
 });
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the per-image comments API module. The viewer's calls follow the Selects idiom (a
+ * global fetch mock, asserting the proxy URL + RequestInit and ApiError on non-OK responses); the
+ * admin calls are checked against mocked admin fetchers.
+ */
+
+import {
+  ApiError,
+  fetchAdminDeleteApi,
+  fetchAdminGetApi,
+  fetchAdminPutJsonApi,
+} from '@/app/lib/api/core';
+import {
+  getImageCommentInbox,
+  listImageComments,
+  postImageComment,
+  reopenImageCommentThread,
+  resolveImageCommentThread,
+} from '@/app/lib/api/imageComments';
+import { type ImageCommentThread } from '@/app/types/ImageComments';
+
+jest.mock('@/app/lib/api/core', () => ({
+  ...jest.requireActual('@/app/lib/api/core'),
+  fetchAdminGetApi: jest.fn(),
+  fetchAdminPutJsonApi: jest.fn(),
+  fetchAdminDeleteApi: jest.fn(),
+}));
+
+const thread: ImageCommentThread = {
+  id: 9,
+  collectionId: 3,
+  contentId: 42,
+  pin: { x: 0.5, y: 0.25 },
+  resolvedAt: null,
+  comments: [
+    {
+      id: 10,
+      authorName: 'Sam',
+      authorIsAdmin: false,
+      body: 'Brighten this?',
+      createdAt: '2026-10-19T10:00:00Z',
+    },
+  ],
+};
+
+global.fetch = jest.fn();
+const fetchMock = global.fetch as jest.Mock;
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers({ 'content-type': 'application/json' }),
+  json: async () => body,
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+  fetchMock.mockReset();
+});
+
+describe('listImageComments', () => {
+  it('GETs the image’s threads through the read proxy', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, [thread]));
+    const controller = new AbortController();
+
+    await expect(listImageComments(3, 42, controller.signal)).resolves.toEqual([thread]);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/proxy/api/read/collections/3/images/42/comments',
+      expect.objectContaining({
+        credentials: 'same-origin',
+        cache: 'no-store',
+        signal: controller.signal,
+      })
+    );
+  });
+
+  it('throws ApiError carrying the backend message', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(403, { message: 'Clients only' }));
+
+    await expect(listImageComments(3, 42)).rejects.toEqual(new ApiError('Clients only', 403));
+  });
+});
+
+describe('postImageComment', () => {
+  it('POSTs the comment and resolves to the whole thread', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, thread));
+    const request = { body: 'Brighten this?', pin: { x: 0.5, y: 0.25 }, threadId: null };
+
+    await expect(postImageComment(3, 42, request)).resolves.toEqual(thread);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/proxy/api/read/collections/3/images/42/comments',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      })
+    );
+  });
+
+  it('throws ApiError with a status fallback on an empty error body', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 500,
+      headers: new Headers(),
+      text: async () => '',
+    });
+
+    await expect(
+      postImageComment(3, 42, { body: 'x', pin: null, threadId: null })
+    ).rejects.toMatchObject({ status: 500, message: 'API error: 500' });
+  });
+});
+
+describe('admin calls', () => {
+  it('resolves a thread with a PUT and reopens it with a DELETE', async () => {
+    (fetchAdminPutJsonApi as jest.Mock).mockResolvedValue({ ...thread, resolvedAt: 'now' });
+    (fetchAdminDeleteApi as jest.Mock).mockResolvedValue(thread);
+
+    await expect(resolveImageCommentThread(9)).resolves.toMatchObject({ resolvedAt: 'now' });
+    await expect(reopenImageCommentThread(9)).resolves.toEqual(thread);
+
+    expect(fetchAdminPutJsonApi).toHaveBeenCalledWith('/image-comments/9/resolve', {});
+    expect(fetchAdminDeleteApi).toHaveBeenCalledWith('/image-comments/9/resolve');
+  });
+
+  it('treats an empty resolve response as a failure', async () => {
+    (fetchAdminPutJsonApi as jest.Mock).mockResolvedValue(null);
+
+    await expect(resolveImageCommentThread(9)).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('reads the inbox uncached', async () => {
+    (fetchAdminGetApi as jest.Mock).mockResolvedValue([]);
+
+    await expect(getImageCommentInbox()).resolves.toEqual([]);
+
+    expect(fetchAdminGetApi).toHaveBeenCalledWith('/image-comments?status=unresolved', {
+      cache: 'no-store',
+    });
+  });
+});
@@ -7,9 +7,11 @@
 import { ApiError, fetchReadApi } from '@/app/lib/api/core';
 import {
   addSelect,
+  getProofingStatusServer,
   listAllSelectsServer,
   listSelectIdsServer,
   removeSelect,
+  submitSelects,
 } from '@/app/lib/api/selects';
 import { type SelectGroup } from '@/app/types/Selects';
 import { logger } from '@/app/utils/logger';
@@ -150,3 +152,63 @@ describe('listAllSelectsServer', () => {
     expect(loggerErrorMock).not.toHaveBeenCalled();
   });
 });
+
+describe('getProofingStatusServer', () => {
+  it('returns the status from fetchReadApi', async () => {
+    fetchReadApiMock.mockResolvedValueOnce({
+      collectionId: 3,
+      submittedAt: '2026-10-12T09:00:00Z',
+    });
+    await expect(getProofingStatusServer(3)).resolves.toEqual({
+      collectionId: 3,
+      submittedAt: '2026-10-12T09:00:00Z',
+    });
+    expect(fetchReadApiMock).toHaveBeenCalledWith('/user/selects/proofing?collectionId=3');
+  });
+
+  it('degrades to unsubmitted, and says so, when the read fails', async () => {
+    const boom = new ApiError('backend down', 503);
+    fetchReadApiMock.mockRejectedValueOnce(boom);
+
+    await expect(getProofingStatusServer(3)).resolves.toEqual({
+      collectionId: 3,
+      submittedAt: null,
+    });
+    expect(loggerErrorMock).toHaveBeenCalledWith(
+      'selects',
+      expect.stringContaining('proofing status'),
+      boom
+    );
+  });
+});
+
+describe('submitSelects', () => {
+  it('POSTs to the collection submit path and returns the status', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => ({ collectionId: 3, submittedAt: '2026-10-19T10:00:00Z' }),
+    });
+
+    await expect(submitSelects(3)).resolves.toEqual({
+      collectionId: 3,
+      submittedAt: '2026-10-19T10:00:00Z',
+    });
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/proxy/api/read/user/selects/proofing/3/submit',
+      expect.objectContaining({ method: 'POST', credentials: 'same-origin', cache: 'no-store' })
+    );
+  });
+
+  it('throws ApiError when the picks were already submitted', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 409,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => ({ message: 'already submitted' }),
+    });
+
+    await expect(submitSelects(3)).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,100 @@
+/** @jest-environment node */
+/**
+ * Unit tests for taxonomy.ts — verifies URL construction and request shape for the per-entity
+ * metadata console calls, and the empty-body guards. Core fetch helpers are mocked.
+ */
+
+import { ApiError } from '@/app/lib/api/core';
+import {
+  addTaxonomyAlias,
+  deleteTaxonomyEntity,
+  getTaxonomyEntity,
+  getTaxonomyMergePreview,
+  mergeTaxonomyEntity,
+  removeTaxonomyAlias,
+  renameTaxonomyEntity,
+} from '@/app/lib/api/taxonomy';
+
+jest.mock('@/app/lib/api/core', () => ({
+  ...jest.requireActual('@/app/lib/api/core'),
+  fetchAdminGetApi: jest.fn(),
+  fetchAdminPostJsonApi: jest.fn(),
+  fetchAdminPutJsonApi: jest.fn(),
+  fetchAdminDeleteApi: jest.fn(),
+}));
+
+import * as core from '@/app/lib/api/core';
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('getTaxonomyEntity', () => {
+  it('GETs the entity uncached under its kind', async () => {
+    const detail = { id: 51, name: 'Kodak Portra 400' };
+    (core.fetchAdminGetApi as jest.Mock).mockResolvedValue(detail);
+    expect(await getTaxonomyEntity('film-types', 51)).toEqual(detail);
+    expect(core.fetchAdminGetApi).toHaveBeenCalledWith('/metadata/film-types/51', {
+      cache: 'no-store',
+    });
+  });
+});
+
+describe('renameTaxonomyEntity', () => {
+  it('PUTs the new name', async () => {
+    (core.fetchAdminPutJsonApi as jest.Mock).mockResolvedValue({ id: 2, name: 'woods' });
+    await renameTaxonomyEntity('tags', 2, 'woods');
+    expect(core.fetchAdminPutJsonApi).toHaveBeenCalledWith('/metadata/tags/2', { name: 'woods' });
+  });
+
+  it('throws on an empty response', async () => {
+    (core.fetchAdminPutJsonApi as jest.Mock).mockResolvedValue(null);
+    await expect(renameTaxonomyEntity('tags', 2, 'woods')).rejects.toBeInstanceOf(ApiError);
+  });
+});
+
+describe('getTaxonomyMergePreview', () => {
+  it('GETs the source preview with the target as a query param', async () => {
+    (core.fetchAdminGetApi as jest.Mock).mockResolvedValue(null);
+    expect(await getTaxonomyMergePreview('lenses', 42, 41)).toBeNull();
+    expect(core.fetchAdminGetApi).toHaveBeenCalledWith(
+      '/metadata/lenses/42/merge-preview?targetId=41'
+    );
+  });
+});
+
+describe('mergeTaxonomyEntity', () => {
+  it('POSTs sourceId to the target merge endpoint', async () => {
+    const result = { movedImages: 3, movedCollections: 0, duplicatesCollapsed: 1 };
+    (core.fetchAdminPostJsonApi as jest.Mock).mockResolvedValue(result);
+    expect(await mergeTaxonomyEntity('cameras', 31, 32)).toEqual(result);
+    expect(core.fetchAdminPostJsonApi).toHaveBeenCalledWith('/metadata/cameras/31/merge', {
+      sourceId: 32,
+    });
+  });
+
+  it('throws on an empty response', async () => {
+    (core.fetchAdminPostJsonApi as jest.Mock).mockResolvedValue(null);
+    await expect(mergeTaxonomyEntity('cameras', 31, 32)).rejects.toMatchObject({ status: 500 });
+  });
+});
+
+describe('deleteTaxonomyEntity', () => {
+  it('DELETEs the entity and propagates the in-use 409', async () => {
+    (core.fetchAdminDeleteApi as jest.Mock).mockRejectedValueOnce(new ApiError('Conflict', 409));
+    await expect(deleteTaxonomyEntity('people', 12)).rejects.toMatchObject({ status: 409 });
+    expect(core.fetchAdminDeleteApi).toHaveBeenCalledWith('/metadata/people/12');
+  });
+});
+
+describe('aliases', () => {
+  it('POSTs a new alias and DELETEs one by id', async () => {
+    const alias = { id: 90, name: 'Portra400', slug: 'portra400' };
+    (core.fetchAdminPostJsonApi as jest.Mock).mockResolvedValue(alias);
+    expect(await addTaxonomyAlias('tags', 2, 'Portra400')).toEqual(alias);
+    expect(core.fetchAdminPostJsonApi).toHaveBeenCalledWith('/metadata/tags/2/aliases', {
+      name: 'Portra400',
+    });
+
+    await removeTaxonomyAlias('tags', 2, 90);
+    expect(core.fetchAdminDeleteApi).toHaveBeenCalledWith('/metadata/tags/2/aliases/90');
+  });
+});
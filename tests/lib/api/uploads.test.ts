@@ -0,0 +1,79 @@
+/**
+ * Tests for uploads.ts API functions
+ * Chunked upload sessions against the admin content endpoints
+ */
+import { completeUpload, startUpload, uploadChunk } from '@/app/lib/api/uploads';
+
+global.fetch = jest.fn();
+
+jest.mock('@/app/utils/environment', () => ({
+  isLocalEnvironment: jest.fn(() => false),
+}));
+
+const mockResponse = (data: unknown, status = 200) => ({
+  ok: status < 400,
+  status,
+  statusText: '',
+  json: jest.fn().mockResolvedValue(data),
+  headers: new Headers({ 'content-type': 'application/json' }),
+});
+
+describe('chunked upload endpoints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('opens a session keyed by the content hash', async () => {
+    const session = { uploadId: 'u1', receivedChunks: [0] };
+    (global.fetch as jest.Mock).mockResolvedValue(mockResponse(session));
+
+    const result = await startUpload(42, {
+      filename: 'scan.tif',
+      mimeType: 'image/tiff',
+      size: 10,
+      kind: 'image',
+      sha256: 'abc',
+      chunkSize: 5,
+    });
+
+    expect(result).toEqual(session);
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/content/uploads/42');
+    expect(JSON.parse(init.body)).toMatchObject({ sha256: 'abc', kind: 'image' });
+  });
+
+  it('sends a chunk as raw bytes with its checksum', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(mockResponse(null, 204));
+    const chunk = new Blob(['bytes']);
+
+    await uploadChunk('u 1', 3, chunk, 'def');
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain('/content/uploads/u%201/chunks/3');
+    expect(init.method).toBe('PUT');
+    expect(init.body).toBe(chunk);
+    expect(init.headers).toEqual({
+      'Content-Type': 'application/octet-stream',
+      'X-Chunk-Sha256': 'def',
+    });
+  });
+
+  it('surfaces a refused chunk as an ApiError with its status', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      mockResponse({ message: 'Checksum mismatch' }, 422)
+    );
+
+    await expect(uploadChunk('u1', 0, new Blob(['x']), 'bad')).rejects.toMatchObject({
+      status: 422,
+      message: 'Checksum mismatch',
+    });
+  });
+
+  it('completes a session', async () => {
+    const content = { id: 9, contentType: 'IMAGE', imageUrl: 'https://cdn.example/9.jpg' };
+    (global.fetch as jest.Mock).mockResolvedValue(mockResponse({ content }));
+
+    await expect(completeUpload('u1')).resolves.toEqual({ content });
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('/content/uploads/u1/complete');
+  });
+});
@@ -33,6 +33,10 @@ jest.mock('@/app/lib/api/auth', () => ({
 }));
 jest.mock('@/app/lib/api/selects', () => ({
   listSelectIdsServer: jest.fn(async () => []),
+  getProofingStatusServer: jest.fn(async (collectionId: number) => ({
+    collectionId,
+    submittedAt: null,
+  })),
 }));
 jest.mock('@/app/lib/api/personal', () => ({
   listSavedImageIdsServer: jest.fn(async () => []),
@@ -195,6 +199,34 @@ describe('CollectionPageWrapper — password-protection routing', () => {
     expect(element.props.editMode).toBe(true);
   });
 
+  it('hands structured data to public, indexable collection pages only', async () => {
+    const content = [
+      { id: 5, contentType: 'IMAGE', orderIndex: 0, imageUrl: 'https://cdn.test/5.webp' },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ] as any;
+    mockGetCollectionBySlug.mockResolvedValue(
+      makeCollection({ isPasswordProtected: false, content })
+    );
+
+    const listed = await CollectionPageWrapper({ slug: 'smith-wedding', imageId: 5 });
+    expect(listed.props.structuredData.map((entry: { '@type': string }) => entry['@type'])).toEqual(
+      ['ImageGallery', 'BreadcrumbList', 'Photograph']
+    );
+
+    const editing = await CollectionPageWrapper({ slug: 'smith-wedding', editMode: true });
+    expect(editing.props.structuredData).toBeUndefined();
+
+    mockGetCollectionBySlug.mockResolvedValue(
+      makeCollection({
+        isPasswordProtected: false,
+        visibility: CollectionVisibility.UNLISTED,
+        content,
+      })
+    );
+    const unlisted = await CollectionPageWrapper({ slug: 'smith-wedding' });
+    expect(unlisted.props.structuredData).toBeUndefined();
+  });
+
   it('seeds Selects only for client galleries (isClient drives listSelectIdsServer)', async () => {
     const { listSelectIdsServer } = jest.requireMock('@/app/lib/api/selects') as {
       listSelectIdsServer: jest.Mock;
@@ -246,6 +278,41 @@ describe('CollectionPageWrapper — password-protection routing', () => {
     warn.mockRestore();
   });
 
+  it('seeds the proofing submission only for a signed-in viewer of a gallery under proofing', async () => {
+    const { getProofingStatusServer } = jest.requireMock('@/app/lib/api/selects') as {
+      getProofingStatusServer: jest.Mock;
+    };
+    const { meServer } = jest.requireMock('@/app/lib/api/auth') as { meServer: jest.Mock };
+    const client = {
+      email: 'client@example.com',
+      isAdmin: false,
+      mfaSatisfied: true,
+      galleries: [{ collectionId: 1, role: 'CLIENT' }],
+    };
+
+    meServer.mockResolvedValueOnce(client);
+    getProofingStatusServer.mockResolvedValueOnce({
+      collectionId: 1,
+      submittedAt: '2026-10-12T09:00:00Z',
+    });
+    mockGetCollectionBySlug.mockResolvedValue(
+      makeCollection({ proofingTarget: 25, isPasswordProtected: false, content: [] })
+    );
+    const element = await CollectionPageWrapper({ slug: 'smith-wedding' });
+    expect(getProofingStatusServer).toHaveBeenCalledWith(1);
+    expect(element.props.initialProofingSubmittedAt).toBe('2026-10-12T09:00:00Z');
+
+    // No target: Selects are plain favorites, so there is nothing to read.
+    getProofingStatusServer.mockClear();
+    meServer.mockResolvedValueOnce(client);
+    mockGetCollectionBySlug.mockResolvedValue(
+      makeCollection({ proofingTarget: null, isPasswordProtected: false, content: [] })
+    );
+    const plain = await CollectionPageWrapper({ slug: 'smith-wedding' });
+    expect(getProofingStatusServer).not.toHaveBeenCalled();
+    expect(plain.props.initialProofingSubmittedAt).toBeNull();
+  });
+
   it('seeds saved image ids for ANY collection when a principal is present (unified render path)', async () => {
     const { meServer } = jest.requireMock('@/app/lib/api/auth') as { meServer: jest.Mock };
     const { listSavedImageIdsServer } = jest.requireMock('@/app/lib/api/personal') as {
@@ -0,0 +1,104 @@
+import { escapeXml, feedUpdated, toAtom, toJsonFeed, toRss } from '@/app/lib/feeds/formats';
+import { type Feed } from '@/app/types/Feed';
+
+const feed: Feed = {
+  title: 'Zac Edens Photography',
+  description: 'New collections',
+  homePageUrl: 'https://photos.test/collections',
+  feedUrl: 'https://photos.test/feeds/collections.rss',
+  items: [
+    {
+      id: 'https://photos.test/dunes',
+      url: 'https://photos.test/dunes',
+      title: 'Dunes & <Dawn>',
+      summary: 'First light',
+      published: '2026-03-02T10:00:00Z',
+      updated: '2026-03-05T08:00:00Z',
+      image: { url: 'https://cdn.test/dunes.webp', type: 'image/webp' },
+      tags: ['desert'],
+    },
+    {
+      id: 'https://photos.test/roll-12',
+      url: 'https://photos.test/roll-12',
+      title: 'Roll 12',
+      published: '2026-01-10T10:00:00Z',
+    },
+  ],
+};
+
+describe('escapeXml', () => {
+  it('escapes markup and drops control characters XML cannot carry', () => {
+    expect(escapeXml(`a & b < c > "d" 'e'\u0007\n`)).toBe(
+      'a &amp; b &lt; c &gt; &quot;d&quot; &apos;e&apos;\n'
+    );
+  });
+});
+
+describe('feedUpdated', () => {
+  it('is the newest change across items', () => {
+    expect(feedUpdated(feed)).toBe('2026-03-05T08:00:00.000Z');
+  });
+
+  it('falls back to the epoch for an empty feed', () => {
+    expect(feedUpdated({ ...feed, items: [] })).toBe('1970-01-01T00:00:00.000Z');
+  });
+});
+
+describe('toRss', () => {
+  const rss = toRss(feed);
+
+  it('describes the channel with a self link and build date', () => {
+    expect(rss).toContain('<title>Zac Edens Photography</title>');
+    expect(rss).toContain(
+      '<atom:link href="https://photos.test/feeds/collections.rss" rel="self" type="application/rss+xml"/>'
+    );
+    expect(rss).toContain('<lastBuildDate>Thu, 05 Mar 2026 08:00:00 GMT</lastBuildDate>');
+  });
+
+  it('escapes item text and encloses the cover image', () => {
+    expect(rss).toContain('<title>Dunes &amp; &lt;Dawn&gt;</title>');
+    expect(rss).toContain('<pubDate>Mon, 02 Mar 2026 10:00:00 GMT</pubDate>');
+    expect(rss).toContain(
+      '<enclosure url="https://cdn.test/dunes.webp" length="0" type="image/webp"/>'
+    );
+    expect(rss).toContain('<category>desert</category>');
+  });
+
+  it('is deterministic, so the ETag holds between requests', () => {
+    expect(toRss(feed)).toBe(rss);
+  });
+});
+
+describe('toAtom', () => {
+  it('emits entries with published and updated dates and an enclosure link', () => {
+    const atom = toAtom(feed);
+
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain('<updated>2026-03-05T08:00:00.000Z</updated>');
+    expect(atom).toContain('<published>2026-01-10T10:00:00.000Z</published>');
+    expect(atom).toContain(
+      '<link rel="enclosure" href="https://cdn.test/dunes.webp" type="image/webp"/>'
+    );
+  });
+});
+
+describe('toJsonFeed', () => {
+  it('emits a JSON Feed 1.1 document with an attachment per image', () => {
+    const json = JSON.parse(toJsonFeed(feed));
+
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      feed_url: 'https://photos.test/feeds/collections.rss',
+    });
+    expect(json.items[0]).toMatchObject({
+      id: 'https://photos.test/dunes',
+      content_text: 'First light',
+      image: 'https://cdn.test/dunes.webp',
+      date_modified: '2026-03-05T08:00:00.000Z',
+      attachments: [{ url: 'https://cdn.test/dunes.webp', mime_type: 'image/webp' }],
+    });
+    // Every item needs content; a bare title stands in for a missing summary.
+    expect(json.items[1]).toMatchObject({ content_text: 'Roll 12' });
+    expect(json.items[1]).not.toHaveProperty('attachments');
+  });
+});
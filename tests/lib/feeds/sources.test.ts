@@ -0,0 +1,160 @@
+import {
+  blogFeed,
+  collectionsFeed,
+  FEED_ITEM_LIMIT,
+  followingFeed,
+  imageEnclosure,
+  imagesFeed,
+} from '@/app/lib/feeds/sources';
+import { type CollectionModel } from '@/app/types/Collection';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import { createImageContent } from '@/tests/fixtures/contentFixtures';
+
+const ORIGINAL_APP_URL = process.env.NEXT_PUBLIC_APP_URL;
+
+beforeEach(() => {
+  process.env.NEXT_PUBLIC_APP_URL = 'https://photos.test';
+});
+
+afterAll(() => {
+  process.env.NEXT_PUBLIC_APP_URL = ORIGINAL_APP_URL;
+});
+
+function makeCollection(slug: string, overrides: Partial<CollectionModel> = {}): CollectionModel {
+  return {
+    id: slug.length,
+    slug,
+    title: slug,
+    isClient: false,
+    isBlog: false,
+    locations: [],
+    visibility: CollectionVisibility.LISTED,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-02T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const FEED_URL = 'https://photos.test/feeds/x.rss';
+
+describe('imageEnclosure', () => {
+  it.each([
+    ['https://cdn.test/a.webp', 'image/webp'],
+    ['https://cdn.test/a.JPG?v=2', 'image/jpeg'],
+    ['https://cdn.test/a.png', 'image/png'],
+    ['https://cdn.test/a', 'image/jpeg'],
+  ])('types %s as %s', (url, type) => {
+    expect(imageEnclosure(url)).toEqual({ url, type });
+  });
+
+  it('has nothing to enclose without a URL', () => {
+    expect(imageEnclosure('')).toBeUndefined();
+  });
+});
+
+describe('collectionsFeed', () => {
+  it('lists LISTED, unprotected collections newest first with their cover', () => {
+    const feed = collectionsFeed(
+      [
+        makeCollection('older', { createdAt: '2026-01-01T00:00:00Z' }),
+        makeCollection('newer', {
+          createdAt: '2026-02-01T00:00:00Z',
+          description: 'Fresh',
+          coverImage: createImageContent(1, { imageUrl: 'https://cdn.test/cover.webp' }),
+        }),
+        makeCollection('drafts', { visibility: CollectionVisibility.UNLISTED }),
+        makeCollection('smith-wedding', { isPasswordProtected: true }),
+      ],
+      FEED_URL
+    );
+
+    expect(feed.items.map(item => item.url)).toEqual([
+      'https://photos.test/newer',
+      'https://photos.test/older',
+    ]);
+    expect(feed.items[0]).toMatchObject({
+      summary: 'Fresh',
+      published: '2026-02-01T00:00:00Z',
+      image: { url: 'https://cdn.test/cover.webp', type: 'image/webp' },
+    });
+  });
+
+  it('keeps only the newest items', () => {
+    const many = Array.from({ length: FEED_ITEM_LIMIT + 10 }, (_, index) =>
+      makeCollection(`c-${index}`)
+    );
+    expect(collectionsFeed(many, FEED_URL).items).toHaveLength(FEED_ITEM_LIMIT);
+  });
+});
+
+describe('blogFeed', () => {
+  it('carries blog collections only, dated by their story date', () => {
+    const feed = blogFeed(
+      [
+        makeCollection('portfolio'),
+        makeCollection('iceland-trip', { isBlog: true, collectionDate: '2025-07-01' }),
+        makeCollection('roadtrip', { isBlog: true, collectionDate: '2025-09-01' }),
+      ],
+      FEED_URL
+    );
+
+    expect(feed.items.map(item => [item.title, item.published])).toEqual([
+      ['roadtrip', '2025-09-01'],
+      ['iceland-trip', '2025-07-01'],
+    ]);
+  });
+});
+
+describe('imagesFeed', () => {
+  it('links each photograph to its deep link on the page and skips undated ones', () => {
+    const feed = imagesFeed({
+      title: 'Desert',
+      description: 'Photos tagged "Desert"',
+      path: '/tag/desert',
+      feedUrl: FEED_URL,
+      images: [
+        createImageContent(1, { title: 'Dunes', createdAt: '2026-03-01T00:00:00Z' }),
+        createImageContent(2, {
+          captureDate: '2026-04-01',
+          tags: [{ id: 9, name: 'sand', slug: 'sand' }],
+        }),
+        createImageContent(3),
+      ],
+    });
+
+    expect(feed.title).toBe('Desert — Zac Edens Photography');
+    expect(feed.items.map(item => item.url)).toEqual([
+      'https://photos.test/tag/desert?image=2',
+      'https://photos.test/tag/desert?image=1',
+    ]);
+    expect(feed.items[0]?.tags).toEqual(['sand']);
+    expect(feed.items[1]?.title).toBe('Dunes');
+  });
+});
+
+describe('followingFeed', () => {
+  it('names the collection each new photograph landed in', () => {
+    const feed = followingFeed(
+      {
+        ownerName: 'Alex',
+        entries: [
+          {
+            collection: { id: 4, title: 'Seattle Nights', slug: 'seattle-nights' },
+            image: createImageContent(7, { title: 'Ferry' }),
+            addedAt: '2026-05-01T00:00:00Z',
+          },
+        ],
+      },
+      FEED_URL
+    );
+
+    expect(feed.description).toContain('Alex');
+    expect(feed.items).toEqual([
+      expect.objectContaining({
+        url: 'https://photos.test/seattle-nights?image=7',
+        title: 'Ferry — Seattle Nights',
+        published: '2026-05-01T00:00:00Z',
+      }),
+    ]);
+  });
+});
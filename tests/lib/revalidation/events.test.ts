@@ -0,0 +1,80 @@
+import { parseRevalidationEvent, targetsForEvent } from '@/app/lib/revalidation/events';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+
+describe('targetsForEvent', () => {
+  it('invalidates both slugs when a collection was renamed', () => {
+    expect(
+      targetsForEvent({
+        id: '1',
+        type: 'collection.updated',
+        data: { slug: 'new', previousSlug: 'old' },
+      })
+    ).toEqual({
+      tags: ['collection-new', 'collections-index', 'collection-home', 'collection-old'],
+      paths: ['/new', '/old'],
+    });
+  });
+
+  it('pulls a hidden collection from the directory and image search', () => {
+    const { tags, paths } = targetsForEvent({
+      id: '1',
+      type: 'collection.visibility_changed',
+      data: { slug: 'c', visibility: Object.values(CollectionVisibility)[0]! },
+    });
+    expect(tags).toContain('search-images');
+    expect(paths).toEqual(['/c', '/collections']);
+  });
+
+  it('invalidates every collection an image appears in, once', () => {
+    expect(
+      targetsForEvent({
+        id: '1',
+        type: 'image.updated',
+        data: { imageId: 7, collectionSlugs: ['a', 'b'] },
+      })
+    ).toEqual({
+      tags: [
+        'collection-a',
+        'collections-index',
+        'collection-home',
+        'collection-b',
+        'search-images',
+      ],
+      paths: ['/a', '/b'],
+    });
+  });
+
+  it('invalidates the old and new tag pages on a rename', () => {
+    expect(
+      targetsForEvent({ id: '1', type: 'tag.renamed', data: { slug: 'rain', previousSlug: 'wet' } })
+    ).toEqual({ tags: ['content-tags', 'search-images'], paths: ['/tag/rain', '/tag/wet'] });
+  });
+});
+
+describe('parseRevalidationEvent', () => {
+  it('accepts a well-formed event', () => {
+    expect(
+      parseRevalidationEvent({
+        id: 'e',
+        type: 'image.updated',
+        data: { imageId: 3, collectionSlugs: [] },
+      })
+    ).toEqual({ id: 'e', type: 'image.updated', data: { imageId: 3, collectionSlugs: [] } });
+  });
+
+  it.each([
+    ['an unknown type', { id: 'e', type: 'collection.deleted', data: { slug: 'c' } }],
+    ['a missing id', { type: 'collection.updated', data: { slug: 'c' } }],
+    ['a slug that is a path', { id: 'e', type: 'collection.updated', data: { slug: '../admin' } }],
+    [
+      'an unknown visibility',
+      { id: 'e', type: 'collection.visibility_changed', data: { slug: 'c', visibility: 'SECRET' } },
+    ],
+    [
+      'a non-integer image id',
+      { id: 'e', type: 'image.updated', data: { imageId: '3', collectionSlugs: [] } },
+    ],
+  ])('refuses %s', (_label, body) => {
+    expect(parseRevalidationEvent(body)).toBeNull();
+  });
+});
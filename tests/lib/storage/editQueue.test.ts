@@ -0,0 +1,44 @@
+/**
+ * jsdom has no IndexedDB, so these run the in-memory fallback — the same surface the manage page
+ * sees in a private window. Ordering and the slug filter are what replay depends on.
+ */
+import { editQueue, type NewQueuedEdit, resetEditQueue } from '@/app/lib/storage/editQueue';
+
+const entry = (slug: string, label: string): NewQueuedEdit => ({
+  slug,
+  label,
+  mutation: { kind: 'images', updates: [{ id: 1, title: label }] },
+  baseline: { 'image:1': '2026-01-01T00:00:00Z' },
+});
+
+beforeEach(() => resetEditQueue());
+
+it('lists a collection’s edits oldest first, leaving other collections out', async () => {
+  await editQueue.enqueue(entry('a', 'first'));
+  await editQueue.enqueue(entry('b', 'other'));
+  await editQueue.enqueue(entry('a', 'second'));
+
+  expect((await editQueue.list('a')).map(edit => edit.label)).toEqual(['first', 'second']);
+});
+
+it('rewrites an edit in place and removes one by id', async () => {
+  const first = await editQueue.enqueue(entry('a', 'first'));
+  const second = await editQueue.enqueue(entry('a', 'second'));
+
+  await editQueue.put({ ...first, baseline: { 'image:1': 'rebased' } });
+  await editQueue.remove(second.id);
+
+  expect(await editQueue.list('a')).toEqual([{ ...first, baseline: { 'image:1': 'rebased' } }]);
+});
+
+it('tells subscribers about every change until they unsubscribe', async () => {
+  const listener = jest.fn();
+  const unsubscribe = editQueue.subscribe(listener);
+  const stored = await editQueue.enqueue(entry('a', 'first'));
+  await editQueue.remove(stored.id);
+  expect(listener).toHaveBeenCalledTimes(2);
+
+  unsubscribe();
+  await editQueue.enqueue(entry('a', 'again'));
+  expect(listener).toHaveBeenCalledTimes(2);
+});
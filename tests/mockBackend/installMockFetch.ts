@@ -0,0 +1,77 @@
+/**
+ * Route Jest's global `fetch` into a {@link MockBackend}, emulating the two hops a real request
+ * makes:
+ *
+ * - Browser-style calls to `/api/proxy/api/...` (relative, as `auth.ts`, `personal.ts` etc. issue
+ *   them) have the proxy prefix stripped, the way `app/api/proxy/[...path]/route.ts` forwards them.
+ * - Server-style calls to an absolute `.../api/<channel>/...` URL go straight through.
+ *
+ * A cookie jar stands in for the browser: `Set-Cookie` from a response is replayed as `Cookie` on
+ * later calls that do not set one themselves, so login → `me()` and password gate → gallery read
+ * flow across calls the way they do in the app. Requires the `node` Jest environment (real
+ * `Request`/`Response`).
+ *
+ * @example
+ * const backend = createMockBackend();
+ * const mock = installMockFetch(backend);
+ * afterEach(() => mock.restore());
+ */
+
+import { type MockBackend } from './mockBackend';
+
+export interface InstalledMockFetch {
+  /** Every request the backend saw, in order. */
+  readonly requests: Request[];
+  /** The browser-side cookie jar, by name. */
+  readonly cookies: Map<string, string>;
+  restore(): void;
+}
+
+const ORIGIN = 'http://localhost:3000';
+const PROXY_PREFIX = '/api/proxy';
+
+export function installMockFetch(backend: MockBackend): InstalledMockFetch {
+  const originalFetch = globalThis.fetch;
+  const cookies = new Map<string, string>();
+  const requests: Request[] = [];
+
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const source = new Request(
+      input instanceof Request ? input : new URL(String(input), ORIGIN),
+      init
+    );
+    const url = new URL(source.url);
+    if (url.pathname.startsWith(`${PROXY_PREFIX}/`)) {
+      url.pathname = url.pathname.slice(PROXY_PREFIX.length);
+    }
+
+    const headers = new Headers(source.headers);
+    if (!headers.has('cookie') && cookies.size > 0) {
+      headers.set('cookie', [...cookies].map(([name, value]) => `${name}=${value}`).join('; '));
+    }
+    const body = source.body ? await source.arrayBuffer() : undefined;
+    const request = new Request(url, { method: source.method, headers, body });
+    requests.push(request.clone());
+
+    const response = await backend.handle(request);
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair = '', ...attributes] = cookie.split(';');
+      const eq = pair.indexOf('=');
+      const name = pair.slice(0, eq).trim();
+      const expired = attributes.some(a => a.trim().toLowerCase() === 'max-age=0');
+      if (expired) cookies.delete(name);
+      else cookies.set(name, pair.slice(eq + 1).trim());
+    }
+    return response;
+  };
+
+  globalThis.fetch = mockFetch as typeof fetch;
+
+  return {
+    requests,
+    cookies,
+    restore() {
+      globalThis.fetch = originalFetch;
+    },
+  };
+}
@@ -0,0 +1,814 @@
+/**
+ * @jest-environment node
+ *
+ * Integration tests: the real `app/lib/api/*` functions against the mock backend, through
+ * `installMockFetch`. These pin the mock to the contract the API layer actually parses — if a
+ * function here starts failing, either the mock drifted or the client did, and both are worth
+ * knowing before `next dev` shows a blank page.
+ */
+
+import { chunkRanges, hashFile } from '@/app/components/ContentCollection/edit/uploadQueue';
+import { resolveTaxonomyBySlug } from '@/app/components/TaxonomyPage/resolveTaxonomy';
+import {
+  confirmTotpEnrollment,
+  getMfaStatus,
+  listPasskeys,
+  listSessions,
+  login,
+  loginWithPasskey,
+  logout,
+  me,
+  registerPasskey,
+  removePasskey,
+  renamePasskey,
+  signOutOtherSessions,
+  startTotpEnrollment,
+  verifyMfa,
+  verifyMfaWithPasskey,
+} from '@/app/lib/api/auth';
+import { getChangeLog, markChangeLogSeen, revertChange } from '@/app/lib/api/changeLog';
+import {
+  createGalleryAccessCode,
+  getAllCollections,
+  getCollectionBySlug,
+  getGalleryAccessLog,
+  getScopedAllCollections,
+  listGalleryAccessCodes,
+  reorderCollectionContent,
+  revokeGalleryAccessCode,
+  saveGalleryAccess,
+  updateCollection,
+  validateClientGalleryAccess,
+} from '@/app/lib/api/collections';
+import {
+  getAllImages,
+  getAllTags,
+  searchImages,
+  searchImagesPage,
+  updateImages,
+} from '@/app/lib/api/content';
+import { ACCESS_CODE_EXHAUSTED, ApiError } from '@/app/lib/api/core';
+import {
+  emailExportJob,
+  exportArchiveUrl,
+  getExportJob,
+  startCollectionExport,
+} from '@/app/lib/api/downloads';
+import { getFollowingFeed, readFeedSettings, rotateFeedToken } from '@/app/lib/api/feeds';
+import {
+  getImageCommentInbox,
+  listImageComments,
+  postImageComment,
+  resolveImageCommentThread,
+} from '@/app/lib/api/imageComments';
+import { getAdminMessages } from '@/app/lib/api/messages';
+import { addSave, listSavedImageIdsServer } from '@/app/lib/api/personal';
+import {
+  addSelect,
+  getProofingReview,
+  getProofingStatusServer,
+  reopenProofing,
+  submitSelects,
+} from '@/app/lib/api/selects';
+import {
+  createShareLink,
+  getShareView,
+  plantShareCookie,
+  readShareSettings,
+  revokeShareLink,
+} from '@/app/lib/api/share';
+import {
+  deleteTaxonomyEntity,
+  getTaxonomyEntity,
+  getTaxonomyMergePreview,
+  mergeTaxonomyEntity,
+  renameTaxonomyEntity,
+} from '@/app/lib/api/taxonomy';
+import { abortUpload, completeUpload, startUpload, uploadChunk } from '@/app/lib/api/uploads';
+import { getInvitePreview, listUsers } from '@/app/lib/api/users';
+import { type CollectionModel, type CollectionPageDTO } from '@/app/types/Collection';
+import { submitContactMessage } from '@/app/utils/contactApi';
+import { type InstalledMockFetch, installMockFetch } from '@/tests/mockBackend/installMockFetch';
+import {
+  createMockBackend,
+  type MockBackend,
+  SESSION_COOKIE,
+  SHARE_COOKIE,
+} from '@/tests/mockBackend/mockBackend';
+import {
+  SEED_ACCESS_CODES,
+  SEED_ACCOUNTS,
+  SEED_FEED_TOKEN,
+  SEED_GALLERY_PASSWORD,
+  SEED_INVITES,
+  SEED_MFA,
+  SEED_SHARE_TOKEN,
+} from '@/tests/mockBackend/seed';
+
+jest.mock('next/headers', () => ({
+  cookies: () => Promise.reject(new Error('cookies was called outside a request scope')),
+}));
+
+/** The fake authenticator's one credential id, base64url as WebAuthn carries it. */
+const PASSKEY_ID = Buffer.from('passkey-1').toString('base64url');
+
+/**
+ * A stand-in for `navigator.credentials` holding one passkey. It answers every ceremony by echoing
+ * the challenge in its client data, which is all the mock checks — no keys, no signatures.
+ */
+function fakeAuthenticator() {
+  const bytes = (text: string) => new TextEncoder().encode(text).buffer;
+  const clientData = (challenge: BufferSource) =>
+    bytes(
+      JSON.stringify({ challenge: Buffer.from(challenge as ArrayBuffer).toString('base64url') })
+    );
+  const credential = (response: Record<string, unknown>) => ({
+    id: PASSKEY_ID,
+    rawId: bytes('passkey-1'),
+    type: 'public-key',
+    response,
+  });
+  return {
+    create: ({ publicKey }: CredentialCreationOptions) =>
+      Promise.resolve(
+        credential({
+          clientDataJSON: clientData(publicKey!.challenge),
+          attestationObject: bytes('attestation'),
+        })
+      ),
+    get: ({ publicKey }: CredentialRequestOptions) =>
+      Promise.resolve(
+        credential({
+          clientDataJSON: clientData(publicKey!.challenge),
+          authenticatorData: bytes('authenticator-data'),
+          signature: bytes('signature'),
+          userHandle: null,
+        })
+      ),
+  };
+}
+
+describe('mock backend', () => {
+  const ORIGINAL_ENV = process.env;
+  let backend: MockBackend;
+  let mock: InstalledMockFetch;
+
+  const install = (options?: Parameters<typeof createMockBackend>[0]) => {
+    mock?.restore();
+    backend = createMockBackend(options);
+    mock = installMockFetch(backend);
+  };
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV, NEXT_PUBLIC_APP_URL: 'http://localhost:3000' };
+    install();
+  });
+
+  afterEach(() => {
+    mock.restore();
+    process.env = ORIGINAL_ENV;
+  });
+
+  describe('read channel', () => {
+    it('lists only LISTED collections, newest first', async () => {
+      const collections = await getAllCollections();
+
+      expect(collections.map(c => c.slug)).toEqual([
+        'travel',
+        'portra-portraits',
+        'seattle-nights',
+      ]);
+    });
+
+    it('pages collection content with CollectionPageDTO fields', async () => {
+      const first = (await getCollectionBySlug('seattle-nights', 0, 12)) as CollectionPageDTO;
+      const second = (await getCollectionBySlug('seattle-nights', 1, 12)) as CollectionPageDTO;
+
+      expect(first.content).toHaveLength(12);
+      expect(first).toMatchObject({
+        currentPage: 0,
+        totalElements: 20,
+        totalPages: 2,
+        isFirst: true,
+        hasNext: true,
+        nextPage: 1,
+      });
+      expect(second.content).toHaveLength(8);
+      expect(second).toMatchObject({ isLast: true, hasNext: false, gifBlockCount: 1 });
+    });
+
+    it('hydrates images with the collections that hold them', async () => {
+      const collection = await getCollectionBySlug('seattle-nights', 0, 5);
+      const image = collection.content?.find(item => item.contentType === 'IMAGE');
+
+      expect(image).toMatchObject({
+        collections: [expect.objectContaining({ slug: 'seattle-nights' })],
+      });
+    });
+
+    it('404s a HIDDEN collection for anonymous viewers', async () => {
+      await expect(getCollectionBySlug('drafts')).rejects.toThrow();
+      await expect(getCollectionBySlug('no-such-slug')).rejects.toThrow();
+    });
+
+    it('scopes all-collections to the viewer', async () => {
+      const anonymous = await getScopedAllCollections();
+      await login(SEED_ACCOUNTS.admin.email, SEED_ACCOUNTS.admin.password);
+      const admin = await getScopedAllCollections();
+      const slugsOf = (page: CollectionModel) =>
+        page.content?.map(block => (block.contentType === 'COLLECTION' ? block.slug : null));
+
+      expect(slugsOf(anonymous)).not.toContain('drafts');
+      expect(slugsOf(admin)).toEqual(expect.arrayContaining(['drafts', 'smith-wedding']));
+    });
+
+    it('filters image search across LISTED collections', async () => {
+      const results = await searchImages({ tagIds: [2], isFilm: true });
+
+      expect(results).toHaveLength(10);
+      expect(results.every(image => image.isFilm)).toBe(true);
+    });
+
+    it('pages a free-text search scoped to collections', async () => {
+      const first = await searchImagesPage({ query: 'portra', collectionIds: [102], size: 4 });
+
+      expect(first).toMatchObject({ page: 0, totalElements: 10, totalPages: 3, isLast: false });
+      expect(first.items).toHaveLength(4);
+      await expect(
+        searchImagesPage({ query: 'portra', collectionIds: [101] })
+      ).resolves.toMatchObject({ totalElements: 0, isLast: true });
+    });
+  });
+
+  describe('client gallery gate', () => {
+    it('withholds content until the password is accepted, then sets the access cookie', async () => {
+      const locked = await getCollectionBySlug('smith-wedding');
+      expect(locked.isPasswordProtected).toBe(true);
+      expect(locked.content).toBeNull();
+
+      await expect(validateClientGalleryAccess('smith-wedding', 'nope')).resolves.toEqual({
+        hasAccess: false,
+      });
+      await expect(
+        validateClientGalleryAccess('smith-wedding', SEED_GALLERY_PASSWORD)
+      ).resolves.toEqual({ hasAccess: true });
+      expect(mock.cookies.has('gallery_access_smith-wedding')).toBe(true);
+
+      const unlocked = await getCollectionBySlug('smith-wedding');
+      expect(unlocked.content?.length).toBeGreaterThan(0);
+    });
+
+    it('rate-limits repeated wrong passwords with 429', async () => {
+      install({ rateLimit: 2 });
+      await validateClientGalleryAccess('smith-wedding', 'wrong');
+      await validateClientGalleryAccess('smith-wedding', 'wrong');
+
+      await expect(validateClientGalleryAccess('smith-wedding', 'wrong')).rejects.toMatchObject({
+        status: 429,
+      });
+    });
+
+    it('opens with a recipient access code and logs the visit by country', async () => {
+      await expect(
+        validateClientGalleryAccess('smith-wedding', SEED_ACCESS_CODES.active)
+      ).resolves.toEqual({ hasAccess: true });
+      const gallery = await fetch('/api/proxy/api/read/collections/smith-wedding', {
+        headers: {
+          cookie: `gallery_access_smith-wedding=${mock.cookies.get('gallery_access_smith-wedding')}`,
+          'x-real-ip': '203.0.113.7',
+        },
+      });
+      expect(((await gallery.json()) as CollectionPageDTO).content?.length).toBeGreaterThan(0);
+
+      expect(await getGalleryAccessLog(103)).toEqual([
+        expect.objectContaining({ codeId: 811, label: 'Parents', viewCount: 1, country: 'NZ' }),
+      ]);
+    });
+
+    it('answers 410 for an expired code', async () => {
+      await expect(
+        validateClientGalleryAccess('smith-wedding', SEED_ACCESS_CODES.expired)
+      ).rejects.toMatchObject({ status: 410, code: undefined });
+    });
+
+    it('closes a code once its download quota is spent, and tells the gate why', async () => {
+      const { accessCode } = await createGalleryAccessCode(103, {
+        recipientEmail: 'aunt@example.com',
+        label: null,
+        expiresAt: null,
+        downloadLimit: 1,
+        sendEmail: true,
+      });
+      await validateClientGalleryAccess('smith-wedding', accessCode.code);
+      const { id } = await startCollectionExport('smith-wedding', 'web');
+      await getExportJob(id);
+      await getExportJob(id);
+
+      expect((await fetch(exportArchiveUrl(id))).status).toBe(200);
+      // A resumed download re-fetches the archive without spending the quota again.
+      expect((await fetch(exportArchiveUrl(id))).status).toBe(200);
+      await expect(startCollectionExport('smith-wedding', 'web')).rejects.toMatchObject({
+        status: 403,
+      });
+      const locked = await getCollectionBySlug('smith-wedding');
+      expect(locked.content).toBeNull();
+      expect(locked.accessCodeStatus).toBe('exhausted');
+      await expect(
+        validateClientGalleryAccess('smith-wedding', accessCode.code)
+      ).rejects.toMatchObject({ status: 410, code: ACCESS_CODE_EXHAUSTED });
+      expect(await listGalleryAccessCodes(103)).toContainEqual(
+        expect.objectContaining({ id: accessCode.id, downloadCount: 1, status: 'exhausted' })
+      );
+    });
+
+    it('shuts out a revoked code’s cookie but not the shared password’s', async () => {
+      await validateClientGalleryAccess('smith-wedding', SEED_ACCESS_CODES.active);
+      await revokeGalleryAccessCode(103, 811);
+      expect((await getCollectionBySlug('smith-wedding')).content).toBeNull();
+
+      await validateClientGalleryAccess('smith-wedding', SEED_GALLERY_PASSWORD);
+      expect((await getCollectionBySlug('smith-wedding')).content).not.toBeNull();
+      expect(await getGalleryAccessLog(103)).toEqual([
+        expect.objectContaining({ codeId: null, viewCount: 1 }),
+      ]);
+    });
+
+    it('404s an unknown gallery', async () => {
+      await expect(validateClientGalleryAccess('missing', 'x')).rejects.toMatchObject({
+        status: 404,
+      });
+    });
+  });
+
+  describe('client gallery exports', () => {
+    it('builds an export through queued and running to a ready archive', async () => {
+      await validateClientGalleryAccess('smith-wedding', SEED_GALLERY_PASSWORD);
+      const queued = await startCollectionExport('smith-wedding', 'original', [3001, 3002, 3003]);
+      expect(queued).toMatchObject({ status: 'queued', imageCount: 3, processedCount: 0 });
+
+      await expect(getExportJob(queued.id)).resolves.toMatchObject({
+        status: 'running',
+        processedCount: 2,
+      });
+      await expect(emailExportJob(queued.id, 'sam@example.com')).resolves.toMatchObject({
+        emailTo: 'sam@example.com',
+      });
+      const ready = await getExportJob(queued.id);
+      expect(ready).toMatchObject({ status: 'ready', processedCount: 3 });
+      expect(ready.expiresAt).not.toBeNull();
+
+      const archive = await fetch(exportArchiveUrl(queued.id));
+      expect(archive.headers.get('content-type')).toBe('application/zip');
+    });
+
+    it('refuses an export without gallery access, with a readable message', async () => {
+      await expect(startCollectionExport('smith-wedding', 'web')).rejects.toMatchObject({
+        status: 403,
+        message: 'Gallery access required',
+      });
+    });
+  });
+
+  describe('auth channel', () => {
+    it('round-trips login → me → logout through the session cookie', async () => {
+      await expect(me()).resolves.toBeNull();
+
+      await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+      await expect(me()).resolves.toEqual({
+        email: SEED_ACCOUNTS.client.email,
+        isAdmin: false,
+        mfaSatisfied: true,
+        galleries: [{ collectionId: 103, role: 'CLIENT' }],
+      });
+
+      await logout();
+      await expect(me()).resolves.toBeNull();
+    });
+
+    it('leaves an admin password session owing its second factor until a code clears it', async () => {
+      await login(SEED_ACCOUNTS.admin.email, SEED_ACCOUNTS.admin.password);
+      await expect(me()).resolves.toMatchObject({ isAdmin: true, mfaSatisfied: false });
+      await expect(getMfaStatus()).resolves.toEqual({
+        totpEnabled: true,
+        passkeyCount: 0,
+        recoveryCodesRemaining: SEED_MFA.recovery.length,
+      });
+
+      await expect(verifyMfa('000000')).rejects.toMatchObject({ status: 401 });
+      await verifyMfa(SEED_MFA.recovery[0]);
+      await expect(me()).resolves.toMatchObject({ mfaSatisfied: true });
+      // A recovery code is spent by its first use.
+      await expect(verifyMfa(SEED_MFA.recovery[0])).rejects.toMatchObject({ status: 401 });
+      await expect(getMfaStatus()).resolves.toMatchObject({ recoveryCodesRemaining: 1 });
+    });
+
+    it('enrolls an authenticator app, verifying the session that confirms it', async () => {
+      await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+      await expect(getMfaStatus()).resolves.toMatchObject({ totpEnabled: false });
+
+      const enrollment = await startTotpEnrollment();
+      expect(enrollment.otpauthUrl).toContain(`secret=${enrollment.secret}`);
+      await expect(confirmTotpEnrollment('000000')).rejects.toMatchObject({ status: 400 });
+      const { recoveryCodes } = await confirmTotpEnrollment(SEED_MFA.totp);
+
+      expect(recoveryCodes).toHaveLength(8);
+      await expect(getMfaStatus()).resolves.toEqual({
+        totpEnabled: true,
+        passkeyCount: 0,
+        recoveryCodesRemaining: 8,
+      });
+    });
+
+    describe('passkeys and sessions', () => {
+      beforeEach(() => {
+        Object.defineProperty(globalThis, 'navigator', {
+          value: { credentials: fakeAuthenticator() },
+          configurable: true,
+        });
+      });
+
+      afterEach(() => {
+        Reflect.deleteProperty(globalThis, 'navigator');
+      });
+
+      it('registers, renames and signs in with a passkey, then removes it', async () => {
+        await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+        await registerPasskey();
+        await expect(registerPasskey()).rejects.toMatchObject({ status: 409 });
+        await expect(renamePasskey(PASSKEY_ID, ' Laptop ')).resolves.toMatchObject({
+          id: PASSKEY_ID,
+          nickname: 'Laptop',
+        });
+        await expect(getMfaStatus()).resolves.toMatchObject({ passkeyCount: 1 });
+
+        await logout();
+        await loginWithPasskey(SEED_ACCOUNTS.client.email);
+        await expect(me()).resolves.toMatchObject({ email: SEED_ACCOUNTS.client.email });
+        const [passkey] = await listPasskeys();
+        expect(passkey?.lastUsedAt).not.toBeNull();
+
+        await removePasskey(PASSKEY_ID);
+        await expect(listPasskeys()).resolves.toEqual([]);
+        await logout();
+        await expect(loginWithPasskey(SEED_ACCOUNTS.client.email)).rejects.toMatchObject({
+          status: 401,
+        });
+      });
+
+      it('counts a passkey as the second factor, at sign-in and as a challenge', async () => {
+        await login(SEED_ACCOUNTS.admin.email, SEED_ACCOUNTS.admin.password);
+        await registerPasskey();
+        await expect(me()).resolves.toMatchObject({ mfaSatisfied: false });
+        await verifyMfaWithPasskey();
+        await expect(me()).resolves.toMatchObject({ mfaSatisfied: true });
+
+        await logout();
+        await loginWithPasskey(SEED_ACCOUNTS.admin.email);
+        await expect(me()).resolves.toMatchObject({ isAdmin: true, mfaSatisfied: true });
+      });
+
+      it('lists this account’s sessions and signs out all but the current one', async () => {
+        await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+        const otherBrowser = mock.cookies.get(SESSION_COOKIE) ?? '';
+        await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+        const thisBrowser = mock.cookies.get(SESSION_COOKIE) ?? '';
+
+        const sessions = await listSessions();
+        expect(sessions).toHaveLength(2);
+        expect(sessions.filter(session => session.current)).toHaveLength(1);
+
+        await signOutOtherSessions();
+        await expect(listSessions()).resolves.toEqual([expect.objectContaining({ current: true })]);
+        mock.cookies.set(SESSION_COOKIE, otherBrowser);
+        await expect(me()).resolves.toBeNull();
+        mock.cookies.set(SESSION_COOKIE, thisBrowser);
+        await expect(me()).resolves.toMatchObject({ email: SEED_ACCOUNTS.client.email });
+      });
+    });
+
+    it('rejects bad credentials with 401, then 429 once the limit is spent', async () => {
+      install({ rateLimit: 1 });
+      const attempt = () => login(SEED_ACCOUNTS.admin.email, 'wrong');
+
+      await expect(attempt()).rejects.toMatchObject({ status: 401 });
+      await expect(attempt()).rejects.toMatchObject({ status: 429 });
+    });
+
+    it('lets a member through the gate without the gallery password', async () => {
+      await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+
+      const gallery = await getCollectionBySlug('smith-wedding');
+
+      expect(gallery.content?.length).toBeGreaterThan(0);
+    });
+
+    it('distinguishes valid, redeemed and unknown invites', async () => {
+      await expect(getInvitePreview(SEED_INVITES.valid)).resolves.toEqual({
+        status: 'ok',
+        preview: { email: 'invitee@example.com', displayName: 'Invitee' },
+      });
+      await expect(getInvitePreview(SEED_INVITES.used)).resolves.toEqual({ status: 'used' });
+      await expect(getInvitePreview(SEED_INVITES.expired)).resolves.toEqual({ status: 'invalid' });
+      await expect(getInvitePreview('nope')).resolves.toEqual({ status: 'invalid' });
+    });
+  });
+
+  describe('session-scoped reads', () => {
+    it('answers 401 for anonymous viewers, which fail-soft reads absorb', async () => {
+      await expect(listSavedImageIdsServer()).resolves.toEqual([]);
+    });
+
+    it('persists saves for the signed-in viewer', async () => {
+      await login(SEED_ACCOUNTS.viewer.email, SEED_ACCOUNTS.viewer.password);
+      await addSave(1010);
+
+      await expect(listSavedImageIdsServer()).resolves.toEqual([1010, 1003, 2002]);
+    });
+
+    it('serves the following feed by token until the owner resets it', async () => {
+      const feed = await getFollowingFeed(SEED_FEED_TOKEN);
+      expect(feed?.entries.length).toBeGreaterThan(0);
+      expect(new Set(feed?.entries.map(entry => entry.collection.slug))).toEqual(
+        new Set(['seattle-nights'])
+      );
+
+      await login(SEED_ACCOUNTS.viewer.email, SEED_ACCOUNTS.viewer.password);
+      await expect(readFeedSettings()).resolves.toMatchObject({
+        ok: true,
+        settings: { token: SEED_FEED_TOKEN },
+      });
+      const { token } = await rotateFeedToken();
+
+      await expect(getFollowingFeed(SEED_FEED_TOKEN)).resolves.toBeNull();
+      await expect(getFollowingFeed(token ?? '')).resolves.not.toBeNull();
+    });
+
+    it('counts one view per browser and closes a link at its limit', async () => {
+      await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+      const link = await createShareLink({
+        name: 'Mum',
+        expiresAt: null,
+        maxViews: 1,
+        collectionIds: null,
+      });
+      const token = link.token ?? '';
+
+      await expect(getShareView(token)).resolves.toMatchObject({ status: 'ok' });
+      await plantShareCookie(token);
+      // A refresh re-plants the cookie; the same browser is not counted twice, nor locked out.
+      await plantShareCookie(token);
+      await expect(getShareView(token)).resolves.toMatchObject({ status: 'ok' });
+
+      const settings = await readShareSettings();
+      const listed = settings.ok ? settings.settings?.links.find(l => l.id === link.id) : undefined;
+      expect(listed).toMatchObject({ viewCount: 1, status: 'exhausted' });
+
+      mock.cookies.delete(SHARE_COOKIE);
+      await expect(getShareView(token)).resolves.toEqual({ status: 'exhausted' });
+      // The owner's other link is untouched.
+      await expect(getShareView(SEED_SHARE_TOKEN)).resolves.toMatchObject({ status: 'ok' });
+    });
+
+    it('distinguishes an expired link from a revoked one', async () => {
+      await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+      const expired = await createShareLink({
+        name: 'Last year',
+        expiresAt: '2000-01-01T00:00:00.000Z',
+        maxViews: null,
+        collectionIds: null,
+      });
+      await expect(getShareView(expired.token ?? '')).resolves.toEqual({ status: 'expired' });
+
+      await revokeShareLink(701);
+      await expect(getShareView(SEED_SHARE_TOKEN)).resolves.toEqual({ status: 'invalid' });
+    });
+
+    it('locks submitted proofing picks until the admin reopens them', async () => {
+      await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+      await addSelect(103, 3003);
+      await submitSelects(103);
+
+      await expect(addSelect(103, 3004)).rejects.toMatchObject({ status: 409 });
+      const status = await getProofingStatusServer(103);
+      expect(status.submittedAt).not.toBeNull();
+
+      const review = await getProofingReview(103);
+      expect(review?.clients).toEqual([
+        expect.objectContaining({
+          userId: 202,
+          submittedAt: status.submittedAt,
+          images: [expect.objectContaining({ id: 3002 }), expect.objectContaining({ id: 3003 })],
+        }),
+      ]);
+      const inbox = await getAdminMessages(50, 0);
+      expect(inbox?.messages.some(m => m.message.includes('/admin/proofing/103'))).toBe(true);
+
+      await reopenProofing(103, 202);
+      await expect(addSelect(103, 3004)).resolves.toBeUndefined();
+    });
+
+    it('threads image comments for the gallery’s clients and lists open ones for the admin', async () => {
+      await login(SEED_ACCOUNTS.viewer.email, SEED_ACCOUNTS.viewer.password);
+      await expect(listImageComments(103, 3003)).rejects.toMatchObject({ status: 403 });
+      await logout();
+
+      await login(SEED_ACCOUNTS.client.email, SEED_ACCOUNTS.client.password);
+      const [seeded] = await listImageComments(103, 3003);
+      expect(seeded).toMatchObject({ id: 801, pin: { x: 0.4, y: 0.3 } });
+      const replied = await postImageComment(103, 3003, {
+        body: 'Also the horizon',
+        pin: null,
+        threadId: 801,
+      });
+      expect(replied.comments.map(c => c.authorName)).toEqual(['Sam Smith', 'Sam Smith']);
+      await expect(
+        postImageComment(103, 3004, { body: ' ', pin: null, threadId: null })
+      ).rejects.toMatchObject({ status: 400 });
+
+      const [group] = (await getImageCommentInbox()) ?? [];
+      expect(group).toMatchObject({ slug: 'smith-wedding', images: [{ contentId: 3003 }] });
+
+      await resolveImageCommentThread(801);
+      await expect(getImageCommentInbox()).resolves.toEqual([]);
+      await expect(
+        postImageComment(103, 3003, { body: 'One more', pin: null, threadId: 801 })
+      ).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('admin and edit channels', () => {
+    it('updates image metadata and reports newly created tags', async () => {
+      const result = await updateImages([
+        { id: 1001, rating: 2, tags: { newValue: ['neon'] }, title: 'Renamed' },
+      ]);
+
+      expect(result?.updatedImages[0]).toMatchObject({ id: 1001, rating: 2, title: 'Renamed' });
+      expect(result?.newMetadata?.tags).toEqual([
+        expect.objectContaining({ tagName: 'neon', slug: 'neon' }),
+      ]);
+    });
+
+    it('pages the admin image list in a Spring envelope', async () => {
+      const page = await getAllImages({ size: 10, locationId: 21 });
+
+      expect(page).toMatchObject({ page: 0, totalElements: 30, totalPages: 3, isLast: false });
+      expect(page.items).toHaveLength(10);
+    });
+
+    it('reorders collection content', async () => {
+      const result = await reorderCollectionContent(102, [{ contentId: 2010, newOrderIndex: -1 }]);
+
+      expect(result?.content?.[0]?.id).toBe(2010);
+    });
+
+    it('revokes gallery cookies when the password changes', async () => {
+      await validateClientGalleryAccess('smith-wedding', SEED_GALLERY_PASSWORD);
+      await updateCollection(103, { id: 103, title: 'Smith Wedding 2024' });
+      const stillOpen = await getCollectionBySlug('smith-wedding');
+      expect(stillOpen.title).toBe('Smith Wedding 2024');
+      expect(stillOpen.content).not.toBeNull();
+
+      await saveGalleryAccess(103, { password: 'new-password' });
+      const relocked = await getCollectionBySlug('smith-wedding');
+      expect(relocked.content).toBeNull();
+    });
+
+    it('renames and merges tags, keeping the old slugs resolving', async () => {
+      const renamed = await renameTaxonomyEntity('tags', 2, 'Kodak Portra 400');
+      expect(renamed).toMatchObject({ slug: 'kodak-portra-400', previousSlugs: ['portra'] });
+
+      const preview = await getTaxonomyMergePreview('tags', 1, 2);
+      const merged = await mergeTaxonomyEntity('tags', 2, 1);
+      expect(merged.movedImages).toBe(preview?.imageCount);
+      expect(merged.target.imageCount).toBe(renamed.imageCount + merged.movedImages);
+      expect(merged.target.aliases).toEqual([expect.objectContaining({ name: 'film' })]);
+      await expect(getTaxonomyEntity('tags', 1)).rejects.toMatchObject({ status: 404 });
+
+      const tags = await getAllTags();
+      expect(resolveTaxonomyBySlug(tags, 'portra')?.slug).toBe('kodak-portra-400');
+      expect(resolveTaxonomyBySlug(tags, 'film')?.slug).toBe('kodak-portra-400');
+      await expect(deleteTaxonomyEntity('tags', 2)).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('filters and pages the change log, and logs a revert as a change of its own', async () => {
+      const first = await getChangeLog({ limit: 1 });
+      expect(first).toMatchObject({ total: 2, unseen: 2, actors: [SEED_ACCOUNTS.viewer.email] });
+      expect(first.collections).toEqual([{ id: 101, title: 'Seattle Nights' }]);
+
+      const older = await getChangeLog({ limit: 1, offset: 1 });
+      expect(older.entries.map(entry => entry.id)).toEqual([621]);
+      expect((await getChangeLog({ changeType: 'UPDATE' })).entries).toHaveLength(1);
+      expect((await getChangeLog({ actor: SEED_ACCOUNTS.admin.email })).total).toBe(0);
+
+      await markChangeLogSeen(622);
+      expect((await getChangeLog()).unseen).toBe(0);
+
+      expect(await revertChange(621)).toMatchObject({ revertible: false, seen: true });
+      await expect(revertChange(621)).rejects.toMatchObject({ status: 409 });
+      const after = await getChangeLog();
+      expect(after.entries[0]).toMatchObject({ before: 'Pier 57 at dusk', after: 'Seattle 1' });
+      expect(after.unseen).toBe(1);
+    });
+
+    it('resumes a chunked upload, refuses bad chunks, and dedupes the finished file', async () => {
+      const file = new Blob(['ten bytes!'], { type: 'image/jpeg' });
+      const { hash, chunkHashes } = await hashFile(file, undefined, 4);
+      const [first, second, third] = chunkRanges(file.size, 4);
+      const request = {
+        filename: 'scan.jpg',
+        mimeType: 'image/jpeg',
+        size: file.size,
+        kind: 'image' as const,
+        sha256: hash,
+        chunkSize: 4,
+      };
+      const send = (range: typeof first) =>
+        uploadChunk(
+          session!.uploadId,
+          range!.index,
+          file.slice(range!.start, range!.end),
+          chunkHashes[range!.index]!
+        );
+
+      const session = await startUpload(102, request);
+      await send(first);
+      await send(third);
+      await expect(
+        uploadChunk(session!.uploadId, 1, file.slice(0, 4), chunkHashes[1]!)
+      ).rejects.toMatchObject({ status: 400 });
+      expect(await startUpload(102, request)).toEqual({
+        uploadId: session!.uploadId,
+        receivedChunks: [0, 2],
+      });
+      await expect(completeUpload(session!.uploadId)).rejects.toMatchObject({ status: 409 });
+
+      await send(second);
+      const done = await completeUpload(session!.uploadId);
+      expect(done?.content).toMatchObject({ contentType: 'IMAGE', title: 'scan' });
+      expect(await startUpload(102, request)).toMatchObject({
+        duplicateOfContentId: done?.content.id,
+      });
+    });
+
+    it('drops an aborted upload session', async () => {
+      const session = await startUpload(102, {
+        filename: 'loop.mp4',
+        mimeType: 'video/mp4',
+        size: 4,
+        kind: 'gif',
+        sha256: 'unfinished',
+        chunkSize: 4,
+      });
+
+      await abortUpload(session!.uploadId);
+      await expect(completeUpload(session!.uploadId)).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('enforces the perimeter in session mode', async () => {
+      install({ adminAccess: 'session' });
+
+      await expect(listUsers()).rejects.toMatchObject({ status: 401 });
+
+      await login(SEED_ACCOUNTS.viewer.email, SEED_ACCOUNTS.viewer.password);
+      await expect(listUsers()).rejects.toMatchObject({ status: 403 });
+      // COLLABORATOR on seattle-nights may use the edit channel there, and only there.
+      await expect(
+        reorderCollectionContent(101, [{ contentId: 1001, newOrderIndex: 5 }])
+      ).resolves.not.toBeNull();
+      await expect(
+        reorderCollectionContent(102, [{ contentId: 2001, newOrderIndex: 5 }])
+      ).rejects.toBeInstanceOf(ApiError);
+
+      await logout();
+      await login(SEED_ACCOUNTS.admin.email, SEED_ACCOUNTS.admin.password);
+      await expect(listUsers()).resolves.toEqual(
+        expect.arrayContaining([expect.objectContaining({ email: SEED_ACCOUNTS.admin.email })])
+      );
+    });
+  });
+
+  describe('public channel', () => {
+    it('accepts contact messages until the limiter trips', async () => {
+      install({ messageRateLimit: 1 });
+      const payload = { email: 'a@example.com', message: 'Hello' };
+
+      await expect(submitContactMessage(payload)).resolves.toMatchObject({ ok: true });
+      await expect(submitContactMessage(payload)).resolves.toMatchObject({
+        ok: false,
+        code: 'rate-limit',
+      });
+      await expect(submitContactMessage({ email: 'bad', message: 'x' })).resolves.toMatchObject({
+        ok: false,
+        code: 'validation',
+      });
+    });
+  });
+
+  it('reset() restores the seed', async () => {
+    await updateImages([{ id: 1001, title: 'Changed' }]);
+    backend.reset();
+
+    const page = await getAllImages({ size: 200 });
+    expect(page.items.find(image => image.id === 1001)?.title).toBe('Image 1001');
+  });
+});
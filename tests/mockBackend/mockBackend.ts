@@ -0,0 +1,3274 @@
+/**
+ * In-process mock of the Spring backend, speaking the same contract the BFF proxy forwards to.
+ *
+ * One handler — `(Request) => Promise<Response>` — serves both consumers:
+ *
+ * - `server.ts` wraps it in a Node HTTP server on :8080, so a plain `npm run dev` works with no
+ *   backend checkout (server components hit `localhost:8080` directly, the browser goes through
+ *   `/api/proxy`, which forwards to `API_URL` — also :8080 by default).
+ * - `installMockFetch.ts` routes Jest's global `fetch` into it, so integration tests exercise the
+ *   real `app/lib/api/*` functions end-to-end instead of hand-rolled `jest.fn()` responses.
+ *
+ * ## Fidelity
+ *
+ * The shapes are the frontend's own types (`CollectionModel`, `CollectionPageDTO`, Spring `Page`
+ * envelopes, `MeResponse`, ...), and the status codes are the ones the API layer branches on: 401
+ * for anonymous session reads, 404 for unknown slugs and HIDDEN collections, 410 for a redeemed
+ * invite, 429 from the login / gallery-password / contact-form limiters. Behaviour the frontend
+ * never observes (real hashing, S3, email delivery, EXIF extraction, TOTP maths, WebAuthn
+ * signatures) is faked at the smallest plausible size and says so where it does.
+ *
+ * ## Admin perimeter
+ *
+ * `adminAccess: 'open'` (the default) serves `/api/admin` and `/api/edit` anonymously, matching a
+ * local backend reached through the proxy in development. `'session'` enforces what production
+ * enforces — 401 without a session, 403 for a non-admin (or, on the edit channel, a non-admin
+ * without COLLABORATOR on the collection) — for tests of the signed-out and wrong-role paths.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+
+import { ACCESS_CODE_EXHAUSTED, SHARE_EXHAUSTED } from '@/app/lib/api/core';
+import { type AdminMessageList } from '@/app/lib/api/messages';
+import {
+  type ShareLink,
+  type ShareLinkRequest,
+  type ShareLinkStatus,
+  type ShareSettings,
+  type ShareView,
+} from '@/app/lib/api/share';
+import {
+  type StartUploadRequest,
+  type UploadCompleteResponse,
+  type UploadSession,
+} from '@/app/lib/api/uploads';
+import {
+  type AuthSession,
+  type GalleryMembership,
+  type MeResponse,
+  type MfaStatus,
+  type PasskeyCredential,
+  type TotpConfirmation,
+  type TotpEnrollment,
+} from '@/app/types/Auth';
+import { type ChangeLogEntry, type ChangeLogPage, type ChangeType } from '@/app/types/ChangeLog';
+import {
+  type ChildCollection,
+  type CollectionListModel,
+  type CollectionModel,
+  type CollectionPageDTO,
+  type CollectionUpdateRequest,
+  type CollectionUpdateResponseDTO,
+  type GeneralMetadataDTO,
+  type LocationModel,
+  type LocationUpdate,
+} from '@/app/types/Collection';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import {
+  type AnyContentModel,
+  type ContentCollectionModel,
+  type ContentGifModel,
+  type ContentImageModel,
+  type ContentImageUpdateRequest,
+  type ContentTextModel,
+} from '@/app/types/Content';
+import { type ExportJob, type ExportJobRequest } from '@/app/types/ExportJob';
+import { type FeedTokenSettings, type FollowingFeed } from '@/app/types/Feed';
+import {
+  type GalleryAccessCode,
+  type GalleryAccessCodeRequest,
+  type GalleryAccessCodeResponse,
+  type GalleryAccessCodeStatus,
+  type GalleryAccessLogEntry,
+} from '@/app/types/GalleryAccess';
+import {
+  type ImageCommentInboxGroup,
+  type ImageCommentRequest,
+  type ImageCommentThread,
+} from '@/app/types/ImageComments';
+import { type ContentTagModel, type IdNameModel } from '@/app/types/Metadata';
+import {
+  type AccessLevel,
+  type CollectionRoleRow,
+  type RoleDetail,
+  type RoleSummary,
+  type UserRoleRow,
+} from '@/app/types/Role';
+import {
+  type ProofingClientPicks,
+  type ProofingReview,
+  type ProofingStatus,
+  type SelectGroup,
+} from '@/app/types/Selects';
+import {
+  type TaxonomyEntityDetail,
+  type TaxonomyKind,
+  type TaxonomyMergePreview,
+  type TaxonomyMergeResult,
+} from '@/app/types/Taxonomy';
+import {
+  type AdminUserSummary,
+  type CreateUserResponse,
+  type InvitePreview,
+  type MergePreview,
+  type MergeResult,
+  type UserStatus,
+} from '@/app/types/User';
+
+import {
+  createSeedDb,
+  type MockCollection,
+  type MockDb,
+  type MockGalleryAccessCode,
+  type MockGalleryAccessVisit,
+  type MockPasskey,
+  type MockShareLink,
+  type MockUser,
+  SEED_ACCOUNTS,
+  SEED_MFA,
+} from './seed';
+
+export type MockChannel = 'read' | 'admin' | 'edit' | 'auth' | 'public';
+
+export interface MockBackendOptions {
+  /** See the module doc. Defaults to `'open'`. */
+  adminAccess?: 'open' | 'session';
+  /** Origin the seeded image URLs point at (the mock serves them under `/media`). */
+  mediaBaseUrl?: string;
+  /** Origin used to build invite URLs, i.e. where the Next app runs. */
+  appUrl?: string;
+  /** Failed attempts allowed per login email / gallery slug before 429. Defaults to 5. */
+  rateLimit?: number;
+  /** Contact-form submissions accepted before 429. Defaults to 3. */
+  messageRateLimit?: number;
+}
+
+export interface MockBackend {
+  /** The live store. Tests may read or poke it directly; `reset()` swaps in a fresh seed. */
+  readonly db: MockDb;
+  handle(request: Request): Promise<Response>;
+  reset(): void;
+}
+
+export const SESSION_COOKIE = 'ezac_session';
+export const SHARE_COOKIE = 'ezac_share';
+export const galleryAccessCookie = (slug: string) => `gallery_access_${slug}`;
+
+/** Thrown by handlers to short-circuit with an error status; `handle()` turns it into JSON. */
+class MockHttpError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * A signed-in session. A password sign-in leaves an admin's owing its second factor; a passkey
+ * sign-in is a second factor in itself. `id` is what `/auth/sessions` shows — never the token.
+ */
+interface MockSession {
+  id: string;
+  userId: number;
+  mfaSatisfied: boolean;
+  device: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+/** An outstanding WebAuthn challenge: who it was issued to, and for which ceremony. */
+interface MockChallenge {
+  userId: number | null;
+  ceremony: 'register' | 'login' | 'mfa';
+}
+
+/** An open chunked upload: the file it was opened for, and the chunks received so far. */
+interface MockUpload {
+  collectionId: number;
+  file: StartUploadRequest;
+  /** chunk index → SHA-256 of the bytes received for it */
+  chunks: Map<number, string>;
+}
+
+interface RouteContext {
+  request: Request;
+  url: URL;
+  params: Record<string, string>;
+  cookies: Map<string, string>;
+  viewer: MockUser | null;
+  session: MockSession | null;
+}
+
+type RouteHandler = (ctx: RouteContext) => Response | Promise<Response>;
+
+interface Route {
+  channel: MockChannel;
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+const ROLE_RANK: Record<AccessLevel, number> = { GENERAL: 0, CLIENT: 1, COLLABORATOR: 2 };
+
+/** A 1×1 grey PNG. Every `/media/*` path serves it; `next/image` scales it to the DTO's size. */
+const PLACEHOLDER_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNk+A8AAQUBAScY42YAAAAASUVORK5CYII=',
+  'base64'
+);
+
+/** The smallest valid ZIP: an end-of-central-directory record and nothing else. */
+const EMPTY_ZIP = Buffer.from([0x50, 0x4b, 0x05, 0x06, ...Array.from({ length: 18 }, () => 0)]);
+
+// ============================================================================
+// HTTP helpers
+// ============================================================================
+
+function respond(status: number, body?: unknown, setCookies: readonly string[] = []): Response {
+  const headers = new Headers();
+  for (const cookie of setCookies) headers.append('Set-Cookie', cookie);
+  if (body === undefined) return new Response(null, { status, headers });
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/** An error body; `code` is the machine-readable reason the API layer branches on, when there is one. */
+const fail = (status: number, message: string, code?: string) =>
+  respond(status, code ? { status, message, code } : { status, message });
+
+function binary(body: Buffer, contentType: string, filename?: string): Response {
+  const headers = new Headers({ 'Content-Type': contentType });
+  if (filename) headers.set('Content-Disposition', `attachment; filename="${filename}"`);
+  return new Response(new Uint8Array(body), { status: 200, headers });
+}
+
+function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>();
+  if (!header) return cookies;
+  for (const part of header.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    cookies.set(part.slice(0, eq).trim(), decodeURIComponent(part.slice(eq + 1).trim()));
+  }
+  return cookies;
+}
+
+const setCookie = (name: string, value: string, maxAge?: number) =>
+  `${name}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax` +
+  (maxAge === undefined ? '' : `; Max-Age=${maxAge}`);
+
+const clearCookie = (name: string) => `${name}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+
+/** "Safari on iPhone"-style label for a user agent, or null when it names neither part. */
+function deviceOf(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  const browser = ['Edg', 'Firefox', 'Chrome', 'Safari'].find(name => userAgent.includes(name));
+  const os = ['iPhone', 'iPad', 'Android', 'Mac', 'Windows', 'Linux'].find(name =>
+    userAgent.includes(name)
+  );
+  if (!browser || !os) return null;
+  return `${browser === 'Edg' ? 'Edge' : browser} on ${os}`;
+}
+
+/** The challenge a WebAuthn response signed, read from its base64url `clientDataJSON`. */
+function challengeOf(body: { response?: { clientDataJSON?: string } }): string {
+  try {
+    const clientData = Buffer.from(body.response?.clientDataJSON ?? '', 'base64url').toString();
+    return (JSON.parse(clientData) as { challenge?: string }).challenge ?? '';
+  } catch {
+    return '';
+  }
+}
+
+async function readJson<T>(request: Request): Promise<T> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    throw new MockHttpError(400, 'Malformed JSON body');
+  }
+}
+
+function intParam(url: URL, key: string, fallback: number): number {
+  const raw = url.searchParams.get(key);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function boolParam(url: URL, key: string): boolean | undefined {
+  const raw = url.searchParams.get(key);
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  return undefined;
+}
+
+/** Accept both `tagIds=1,2` (search) and `tagIds=1&tagIds=2` (admin list), as Spring does. */
+function idsParam(url: URL, key: string): number[] {
+  return url.searchParams
+    .getAll(key)
+    .flatMap(value => value.split(','))
+    .filter(value => value !== '')
+    .map(Number)
+    .filter(Number.isFinite);
+}
+
+/** Spring `Page<T>` envelope — the shape `getAllImages` and `parseCollectionArrayResponse` read. */
+function springPage<T>(items: readonly T[], page: number, size: number) {
+  const totalElements = items.length;
+  const totalPages = size > 0 ? Math.ceil(totalElements / size) : 1;
+  const content = items.slice(page * size, page * size + size);
+  return {
+    content,
+    totalElements,
+    totalPages,
+    number: page,
+    size,
+    numberOfElements: content.length,
+    first: page === 0,
+    last: page >= totalPages - 1,
+    empty: content.length === 0,
+  };
+}
+
+function route(method: string, channel: MockChannel, path: string, handler: RouteHandler): Route {
+  const keys: string[] = [];
+  const source = path.replace(/:([A-Za-z]+)/g, (_match, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { channel, method, pattern: new RegExp(`^${source}/?$`), keys, handler };
+}
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/[^\da-z]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const nowIso = () => new Date().toISOString();
+
+/** The `MockDb` table behind each `/metadata/{kind}` vocabulary. */
+const TAXONOMY_TABLES = {
+  tags: 'tags',
+  people: 'people',
+  locations: 'locations',
+  cameras: 'cameras',
+  lenses: 'lenses',
+  'film-types': 'filmTypes',
+} as const satisfies Record<TaxonomyKind, keyof MockDb>;
+
+/** The kinds with a public `/tag/[slug]` or `/location/[slug]` page, and so a slug to keep. */
+const SLUGGED_KINDS: ReadonlySet<TaxonomyKind> = new Set(['tags', 'locations']);
+
+/** Swap `source` for `target` in a reference list, collapsing it if the list already has both. */
+const repoint = <T extends IdNameModel>(refs: T[], source: IdNameModel, target: T): T[] =>
+  refs.some(ref => ref.id === target.id)
+    ? refs.filter(ref => ref.id !== source.id)
+    : refs.map(ref => (ref.id === source.id ? target : ref));
+
+/**
+ * Stand-in for the backend's GeoIP lookup, keyed by the documentation ranges (RFC 5737) so tests
+ * can pick a country through the `X-Real-IP` header the proxy forwards. Anything else is unknown.
+ */
+const MOCK_IP_COUNTRIES: Record<string, string> = {
+  '192.0.2.': 'GB',
+  '198.51.100.': 'US',
+  '203.0.113.': 'NZ',
+};
+
+const countryOfIp = (ip: string | null): string | null => {
+  if (!ip) return null;
+  const prefix = Object.keys(MOCK_IP_COUNTRIES).find(p => ip.startsWith(p));
+  return prefix ? (MOCK_IP_COUNTRIES[prefix] ?? null) : null;
+};
+
+const accessCodeStatusOf = (
+  code: Pick<MockGalleryAccessCode, 'expiresAt' | 'downloadLimit' | 'downloadCount'>
+): GalleryAccessCodeStatus => {
+  if (code.expiresAt && Date.parse(code.expiresAt) <= Date.now()) return 'expired';
+  if (code.downloadLimit !== null && code.downloadCount >= code.downloadLimit) return 'exhausted';
+  return 'active';
+};
+
+const accessCodeOf = ({
+  collectionId: _collectionId,
+  ...code
+}: MockGalleryAccessCode): GalleryAccessCode => ({
+  ...code,
+  status: accessCodeStatusOf(code),
+});
+
+/** `K7QX-2M9P`-shaped: short enough to read out, long enough not to guess. */
+const newAccessCode = () => {
+  const raw = randomUUID().replaceAll('-', '').slice(0, 8).toUpperCase();
+  return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+};
+
+// ============================================================================
+// Backend
+// ============================================================================
+
+export function createMockBackend(options: MockBackendOptions = {}): MockBackend {
+  const adminAccess = options.adminAccess ?? 'open';
+  const mediaBaseUrl = options.mediaBaseUrl ?? 'http://localhost:8080';
+  const appUrl = options.appUrl ?? 'http://localhost:3000';
+  const rateLimit = options.rateLimit ?? 5;
+  const messageRateLimit = options.messageRateLimit ?? 3;
+
+  let db = createSeedDb(mediaBaseUrl);
+  /** session token → session */
+  const sessions = new Map<string, MockSession>();
+  /** base64url challenge → the ceremony it was issued for; spent by its finish step */
+  const challenges = new Map<string, MockChallenge>();
+  /** gallery-access cookie token → collection id */
+  const galleryTokens = new Map<string, number>();
+  /** gallery-access cookie token → access-code id, for tokens opened with a code */
+  const galleryTokenCodes = new Map<string, number>();
+  /**
+   * export job id → job. Each read advances a building job by half its images, so a client sees
+   * `queued`, then `running`, then `ready`. `downloaded` makes the archive count once against a
+   * code's quota however many times a resumed download re-fetches it.
+   */
+  const exportJobs = new Map<
+    string,
+    { job: ExportJob; collectionId: number; downloaded: boolean }
+  >();
+  /** limiter key (`login:<email>`, `access:<slug>`, `messages`) → count */
+  const attempts = new Map<string, number>();
+  /** upload id → open chunked upload; completing or aborting it drops the entry */
+  const uploads = new Map<string, MockUpload>();
+  /** `<collectionId>:<content hash>` → the content block a completed upload created */
+  const uploadedHashes = new Map<string, number>();
+
+  const nextId = () => {
+    db.nextId += 1;
+    return db.nextId;
+  };
+
+  // --------------------------------------------------------------------------
+  // Lookups
+  // --------------------------------------------------------------------------
+
+  const findCollectionBySlug = (slug: string) => db.collections.find(c => c.slug === slug);
+  const findCollectionById = (id: number) => db.collections.find(c => c.id === id);
+
+  const requireCollectionById = (raw: string | undefined): MockCollection => {
+    const collection = findCollectionById(Number(raw));
+    if (!collection) throw new MockHttpError(404, `Collection not found: ${raw}`);
+    return collection;
+  };
+
+  const requireUser = (raw: string | undefined): MockUser => {
+    const user = db.users.find(u => u.id === Number(raw));
+    if (!user) throw new MockHttpError(404, `User not found: ${raw}`);
+    return user;
+  };
+
+  const requireRole = (raw: string | undefined) => {
+    const role = db.roles.find(r => r.id === Number(raw));
+    if (!role) throw new MockHttpError(404, `Role not found: ${raw}`);
+    return role;
+  };
+
+  const requireViewer = (ctx: RouteContext): MockUser => {
+    if (!ctx.viewer) throw new MockHttpError(401, 'Not signed in');
+    return ctx.viewer;
+  };
+
+  /** Highest role the user holds on a collection, via any of their roles. */
+  const roleOn = (user: MockUser | null, collectionId: number): AccessLevel | null => {
+    if (!user) return null;
+    let best: AccessLevel | null = null;
+    for (const role of db.roles) {
+      if (!role.memberIds.includes(user.id)) continue;
+      for (const grant of role.grants) {
+        if (grant.collectionId !== collectionId) continue;
+        if (best === null || ROLE_RANK[grant.level] > ROLE_RANK[best]) best = grant.level;
+      }
+    }
+    return best;
+  };
+
+  const membershipsOf = (user: MockUser): GalleryMembership[] => {
+    const ids = new Set(db.roles.flatMap(r => (r.memberIds.includes(user.id) ? r.grants : [])));
+    const byCollection = new Map<number, AccessLevel>();
+    for (const { collectionId } of ids) {
+      const role = roleOn(user, collectionId);
+      if (role) byCollection.set(collectionId, role);
+    }
+    return [...byCollection].map(([collectionId, role]) => ({ collectionId, role }));
+  };
+
+  const isAdmin = (user: MockUser | null) => user?.isAdmin === true;
+
+  /**
+   * The gallery cookie's grant on a collection: `code` is the access code it was opened with, null
+   * for the shared password. No grant without a live token, or once its code has been revoked.
+   */
+  const galleryGrantOf = (ctx: RouteContext, collection: MockCollection) => {
+    const token = ctx.cookies.get(galleryAccessCookie(collection.slug));
+    if (token === undefined || galleryTokens.get(token) !== collection.id) return null;
+    const codeId = galleryTokenCodes.get(token);
+    if (codeId === undefined) return { code: null };
+    const code = db.galleryAccessCodes.find(c => c.id === codeId);
+    return code ? { code } : null;
+  };
+
+  /** Whether the viewer may see a password-protected collection's content. */
+  const hasGalleryAccess = (ctx: RouteContext, collection: MockCollection) => {
+    if (!collection.isPasswordProtected) return true;
+    if (isAdmin(ctx.viewer) || roleOn(ctx.viewer, collection.id) !== null) return true;
+    const grant = galleryGrantOf(ctx, collection);
+    return grant !== null && (grant.code === null || accessCodeStatusOf(grant.code) === 'active');
+  };
+
+  /**
+   * Log a gate-opened view or download against the code (or shared password) behind it; a download
+   * also spends the code's quota. Admins and members pass the gate without a cookie and go unlogged.
+   */
+  const recordGalleryVisit = (
+    ctx: RouteContext,
+    collection: MockCollection,
+    kind: 'view' | 'download'
+  ) => {
+    if (isAdmin(ctx.viewer) || roleOn(ctx.viewer, collection.id) !== null) return;
+    const grant = galleryGrantOf(ctx, collection);
+    if (!grant) return;
+    const codeId = grant.code?.id ?? null;
+    let visit = db.galleryAccessLog.find(
+      v => v.collectionId === collection.id && v.codeId === codeId
+    );
+    if (!visit) {
+      visit = {
+        collectionId: collection.id,
+        codeId,
+        recipientEmail: grant.code?.recipientEmail ?? null,
+        label: grant.code?.label ?? null,
+        firstViewedAt: nowIso(),
+        lastViewedAt: nowIso(),
+        viewCount: 0,
+        downloadCount: 0,
+        country: null,
+      };
+      db.galleryAccessLog.push(visit);
+    }
+    visit.country = countryOfIp(ctx.request.headers.get('x-real-ip')) ?? visit.country;
+    if (kind === 'view') {
+      visit.viewCount += 1;
+      visit.lastViewedAt = nowIso();
+    } else {
+      visit.downloadCount += 1;
+      if (grant.code) grant.code.downloadCount += 1;
+    }
+  };
+
+  /** LISTED for everyone, plus granted galleries for members, plus everything for admins. */
+  const visibleCollections = (viewer: MockUser | null) =>
+    db.collections.filter(
+      c =>
+        isAdmin(viewer) ||
+        c.visibility === CollectionVisibility.LISTED ||
+        roleOn(viewer, c.id) !== null
+    );
+
+  // --------------------------------------------------------------------------
+  // DTO assembly
+  // --------------------------------------------------------------------------
+
+  const resolveById = <T extends { id: number }>(rows: readonly T[], refs?: T[] | null) =>
+    (refs ?? []).flatMap(ref => rows.filter(row => row.id === ref.id));
+
+  const listItem = (c: MockCollection): CollectionListModel => ({
+    id: c.id,
+    name: c.title,
+    slug: c.slug,
+    isClient: c.isClient,
+    isBlog: c.isBlog,
+    collectionDate: c.collectionDate ?? null,
+    coverImageUrl: c.coverImage?.imageUrl,
+  });
+
+  const membershipOf = (contentId: number): ChildCollection[] =>
+    db.collections.flatMap(c =>
+      c.entries
+        .filter(e => e.contentId === contentId)
+        .map(e => ({
+          collectionId: c.id,
+          name: c.title,
+          slug: c.slug,
+          coverImageUrl: c.coverImage?.imageUrl,
+          visible: e.visible,
+          orderIndex: e.orderIndex,
+        }))
+    );
+
+  /**
+   * Re-resolve an image's metadata against the live tables, so a rename, merge or delete of a tag,
+   * person, location, camera or lens reaches every image without touching the image rows.
+   */
+  const hydrateImage = (image: ContentImageModel): ContentImageModel => ({
+    ...image,
+    tags: resolveById(db.tags, image.tags),
+    people: resolveById(db.people, image.people),
+    locations: resolveById(db.locations, image.locations),
+    camera: image.camera ? (db.cameras.find(c => c.id === image.camera?.id) ?? null) : null,
+    lens: image.lens ? (db.lenses.find(l => l.id === image.lens?.id) ?? null) : null,
+    collections: membershipOf(image.id),
+  });
+
+  /** The stored image rows, un-hydrated — what a merge rewrites. */
+  const imageRows = () =>
+    [...db.content.values()].filter(
+      (item): item is ContentImageModel => item.contentType === 'IMAGE'
+    );
+
+  const allImages = () => imageRows().map(hydrateImage);
+
+  // --------------------------------------------------------------------------
+  // Taxonomy (`/metadata/{kind}`)
+  // --------------------------------------------------------------------------
+
+  const taxonomyRows = (kind: TaxonomyKind): Array<IdNameModel & { slug?: string }> =>
+    db[TAXONOMY_TABLES[kind]];
+
+  const requireTaxonomy = (kind: TaxonomyKind, raw: string | undefined) => {
+    const row = taxonomyRows(kind).find(r => r.id === Number(raw));
+    if (!row) throw new MockHttpError(404, `Not found: ${raw}`);
+    return row;
+  };
+
+  /** Film stocks are joined by display name, the way image rows store them; the rest by id. */
+  const imageCarries = (kind: TaxonomyKind, row: IdNameModel, image: ContentImageModel) => {
+    switch (kind) {
+      case 'tags': {
+        return (image.tags ?? []).some(t => t.id === row.id);
+      }
+      case 'people': {
+        return (image.people ?? []).some(p => p.id === row.id);
+      }
+      case 'locations': {
+        return image.locations.some(l => l.id === row.id);
+      }
+      case 'cameras': {
+        return image.camera?.id === row.id;
+      }
+      case 'lenses': {
+        return image.lens?.id === row.id;
+      }
+      case 'film-types': {
+        return image.filmType === row.name;
+      }
+    }
+  };
+
+  /** The stored image rows carrying the entity. */
+  const imageCarriesRows = (kind: TaxonomyKind, row: IdNameModel) =>
+    imageRows().filter(image => imageCarries(kind, row, image));
+
+  /** Collections hold tags by name and locations by reference; equipment is per image only. */
+  const collectionCarries = (kind: TaxonomyKind, row: IdNameModel, c: MockCollection) =>
+    (kind === 'tags' && (c.tags ?? []).includes(row.name)) ||
+    (kind === 'locations' && c.locations.some(l => l.id === row.id));
+
+  const alternatesOf = (kind: TaxonomyKind, entityId: number) =>
+    db.taxonomyAliases.filter(a => a.kind === kind && a.entityId === entityId);
+
+  /** `aliases` for the public read lists: every alternate slug, omitted when there are none. */
+  const publicAliasesOf = (kind: TaxonomyKind, entityId: number) => {
+    const slugs = alternatesOf(kind, entityId).map(a => a.slug);
+    return slugs.length > 0 ? { aliases: slugs } : {};
+  };
+
+  /** Whether `name` is already another entity's name or alias within the kind. */
+  const taxonomyNameTaken = (kind: TaxonomyKind, name: string, exceptId: number) => {
+    const wanted = name.toLowerCase();
+    return (
+      taxonomyRows(kind).some(r => r.id !== exceptId && r.name.toLowerCase() === wanted) ||
+      db.taxonomyAliases.some(
+        a => a.kind === kind && !a.previous && a.name.toLowerCase() === wanted
+      )
+    );
+  };
+
+  const taxonomyDetailOf = (
+    kind: TaxonomyKind,
+    row: IdNameModel & { slug?: string }
+  ): TaxonomyEntityDetail => {
+    const images = allImages().filter(image => imageCarries(kind, row, image));
+    const alternates = alternatesOf(kind, row.id);
+    return {
+      id: row.id,
+      name: row.name,
+      slug: row.slug ?? null,
+      imageCount: images.length,
+      collectionCount: db.collections.filter(c => collectionCarries(kind, row, c)).length,
+      aliases: alternates
+        .filter(a => !a.previous)
+        .map(({ id, name, slug }) => ({ id, name, slug })),
+      previousSlugs: alternates.filter(a => a.previous).map(a => a.slug),
+      sampleImages: images.slice(0, 8),
+    };
+  };
+
+  /** Move every image and collection reference from `source` onto `target`. */
+  const repointTaxonomy = (kind: TaxonomyKind, source: IdNameModel, target: IdNameModel) => {
+    for (const image of imageCarriesRows(kind, source)) {
+      switch (kind) {
+        case 'tags': {
+          image.tags = repoint(image.tags ?? [], source, target as ContentTagModel);
+          break;
+        }
+        case 'people': {
+          image.people = repoint(image.people ?? [], source, target);
+          break;
+        }
+        case 'locations': {
+          image.locations = repoint(image.locations, source, target as LocationModel);
+          break;
+        }
+        case 'cameras': {
+          image.camera = target;
+          break;
+        }
+        case 'lenses': {
+          image.lens = target;
+          break;
+        }
+        case 'film-types': {
+          image.filmType = target.name;
+          break;
+        }
+      }
+    }
+    for (const c of db.collections.filter(col => collectionCarries(kind, source, col))) {
+      if (kind === 'tags') {
+        c.tags = [...new Set((c.tags ?? []).map(t => (t === source.name ? target.name : t)))];
+      } else {
+        c.locations = repoint(c.locations, source, target as LocationModel);
+      }
+    }
+  };
+
+  const coverOf = (c: MockCollection) => {
+    const cover = c.coverImage ? db.content.get(c.coverImage.id) : undefined;
+    return cover?.contentType === 'IMAGE' ? hydrateImage(cover) : (c.coverImage ?? null);
+  };
+
+  const toContent = (
+    entry: { contentId: number; orderIndex: number; visible: boolean },
+    viewer: MockUser | null
+  ): AnyContentModel | null => {
+    const row = db.content.get(entry.contentId);
+    if (!row) return null;
+    const placed = { orderIndex: entry.orderIndex, visible: entry.visible };
+    if (row.contentType === 'IMAGE') return { ...hydrateImage(row), ...placed };
+    if (row.contentType === 'GIF') return { ...row, ...placed, collections: membershipOf(row.id) };
+    if (row.contentType !== 'COLLECTION') return { ...row, ...placed };
+
+    const target = findCollectionById(row.referencedCollectionId);
+    if (!target) return null;
+    if (target.visibility === CollectionVisibility.HIDDEN && !isAdmin(viewer)) return null;
+    return {
+      ...row,
+      ...placed,
+      title: target.title,
+      slug: target.slug,
+      description: target.description ?? null,
+      isClient: target.isClient,
+      isBlog: target.isBlog,
+      coverImage: coverOf(target),
+      rating: target.rating ?? null,
+      collectionDate: target.collectionDate,
+      collectionEndDate: target.collectionEndDate,
+      visibility: target.visibility,
+      locations: target.locations,
+    };
+  };
+
+  /** Content in display order; `includeHidden` is the manage view, which also sees `visible:false`. */
+  const contentOf = (c: MockCollection, viewer: MockUser | null, includeHidden = false) =>
+    [...c.entries]
+      .filter(e => includeHidden || e.visible)
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(e => toContent(e, viewer))
+      .filter((item): item is AnyContentModel => item !== null);
+
+  const parentsOf = (c: MockCollection) =>
+    db.collections.filter(parent =>
+      parent.entries.some(e => {
+        const row = db.content.get(e.contentId);
+        return row?.contentType === 'COLLECTION' && row.referencedCollectionId === c.id;
+      })
+    );
+
+  const childrenOf = (c: MockCollection) =>
+    c.entries.flatMap(e => {
+      const row = db.content.get(e.contentId);
+      if (row?.contentType !== 'COLLECTION') return [];
+      const child = findCollectionById(row.referencedCollectionId);
+      return child ? [child] : [];
+    });
+
+  /** Public-facing fields only: no password, recipients, or join rows. */
+  const summaryOf = (c: MockCollection): CollectionModel => {
+    const {
+      galleryPassword: _password,
+      recipientEmails: _recipients,
+      entries,
+      siblingIds,
+      ...rest
+    } = c;
+    return {
+      ...rest,
+      coverImage: coverOf(c),
+      contentCount: entries.filter(e => e.visible).length,
+      siblings: siblingIds.flatMap(id => {
+        const sibling = findCollectionById(id);
+        return sibling ? [listItem(sibling)] : [];
+      }),
+      parents: parentsOf(c).map(listItem),
+    };
+  };
+
+  /**
+   * `GET /collections/{slug}` body: the collection plus one page of its content, carrying both the
+   * `CollectionModel` and the `CollectionPageDTO` pagination fields. Content is `null` behind an
+   * unpassed password gate — the signal `ClientGalleryGate` keys on.
+   */
+  const pageOf = (ctx: RouteContext, c: MockCollection, page: number, size: number) => {
+    const all = contentOf(c, ctx.viewer);
+    const pageItems = all.slice(page * size, page * size + size);
+    const totalPages = size > 0 ? Math.ceil(all.length / size) : 1;
+    const count = (type: AnyContentModel['contentType']) =>
+      pageItems.filter(item => item.contentType === type).length;
+    const pagination: Omit<CollectionPageDTO, keyof CollectionModel | 'content'> = {
+      pageSize: size,
+      totalElements: all.length,
+      hasPrevious: page > 0,
+      hasNext: page < totalPages - 1,
+      isFirst: page === 0,
+      isLast: page >= totalPages - 1,
+      previousPage: page > 0 ? page - 1 : undefined,
+      nextPage: page < totalPages - 1 ? page + 1 : undefined,
+      imageBlockCount: count('IMAGE'),
+      textBlockCount: count('TEXT'),
+      gifBlockCount: count('GIF'),
+    };
+    return {
+      ...summaryOf(c),
+      ...pagination,
+      currentPage: page,
+      totalPages,
+      contentPerPage: size,
+      content: hasGalleryAccess(ctx, c) ? pageItems : null,
+      accessCodeStatus: lapsedCodeStatusOf(ctx, c),
+    };
+  };
+
+  /** Why a returning access-code cookie no longer opens the gallery, so the gate can say so. */
+  function lapsedCodeStatusOf(ctx: RouteContext, c: MockCollection) {
+    const code = galleryGrantOf(ctx, c)?.code;
+    if (!code || hasGalleryAccess(ctx, c)) return null;
+    const status = accessCodeStatusOf(code);
+    return status === 'active' ? null : status;
+  }
+
+  /** Admin twin of {@link summaryOf}: every field, every entry (hidden ones included). */
+  const adminModelOf = (c: MockCollection, viewer: MockUser | null): CollectionModel => ({
+    ...summaryOf(c),
+    galleryPassword: c.galleryPassword,
+    recipientEmails: [...c.recipientEmails],
+    content: contentOf(c, viewer, true),
+  });
+
+  const metadataOf = (): GeneralMetadataDTO => ({
+    tags: db.tags,
+    people: db.people,
+    locations: db.locations,
+    cameras: db.cameras,
+    lenses: db.lenses,
+    filmTypes: db.filmTypes,
+    filmFormats: db.filmFormats,
+    collections: db.collections.map(listItem),
+  });
+
+  const updateViewOf = (
+    c: MockCollection,
+    viewer: MockUser | null
+  ): CollectionUpdateResponseDTO => {
+    const children = childrenOf(c);
+    return {
+      collection: adminModelOf(c, viewer),
+      hasChildren: children.length > 0,
+      childCollectionIds: children.map(child => child.id),
+      ...metadataOf(),
+      childCollectionImages: children.flatMap(child => {
+        const cover = coverOf(child);
+        return cover ? [cover] : [];
+      }),
+    };
+  };
+
+  /** A synthetic collection of collection-ref blocks — the user page and `all-collections`. */
+  const syntheticPage = (
+    id: number,
+    slug: string,
+    title: string,
+    collections: readonly MockCollection[],
+    viewer: MockUser | null
+  ): CollectionModel => {
+    const content = collections
+      .map((target, index) => {
+        const block: ContentCollectionModel = {
+          id: 900_000 + target.id,
+          contentType: 'COLLECTION',
+          orderIndex: index,
+          visible: true,
+          title: target.title,
+          slug: target.slug,
+          referencedCollectionId: target.id,
+        };
+        db.content.set(block.id, block);
+        const item = toContent({ contentId: block.id, orderIndex: index, visible: true }, viewer);
+        db.content.delete(block.id);
+        return item;
+      })
+      .filter((item): item is AnyContentModel => item !== null);
+    return {
+      id,
+      slug,
+      title,
+      isClient: false,
+      isBlog: false,
+      locations: [],
+      createdAt: nowIso(),
+      updatedAt: nowIso(),
+      displayMode: 'ORDERED',
+      contentCount: content.length,
+      content,
+    };
+  };
+
+  const userPageOf = (user: MockUser, viewer: MockUser | null, onlyIds?: readonly number[]) => {
+    const granted = membershipsOf(user)
+      .map(m => findCollectionById(m.collectionId))
+      .filter((c): c is MockCollection => c !== undefined)
+      .filter(c => onlyIds === undefined || onlyIds.includes(c.id));
+    return syntheticPage(
+      -user.id,
+      `user-${user.id}`,
+      user.displayName ?? 'Your galleries',
+      granted,
+      viewer
+    );
+  };
+
+  const adminUserOf = (u: MockUser): AdminUserSummary => ({
+    id: u.id,
+    email: u.email,
+    displayName: u.displayName,
+    status: u.status,
+    description: u.description,
+  });
+
+  // --------------------------------------------------------------------------
+  // Mutations shared by several routes
+  // --------------------------------------------------------------------------
+
+  /** Count an attempt against a limiter; throws 429 once the budget is spent. */
+  const spendAttempt = (key: string, limit: number) => {
+    const used = attempts.get(key) ?? 0;
+    if (used >= limit) throw new MockHttpError(429, 'Too many attempts. Please try again later.');
+    attempts.set(key, used + 1);
+  };
+
+  const startSession = (user: MockUser, request: Request, viaPasskey = false) => {
+    const token = randomUUID();
+    sessions.set(token, {
+      id: randomUUID(),
+      userId: user.id,
+      mfaSatisfied: viaPasskey || !user.isAdmin,
+      device: deviceOf(request.headers.get('user-agent')),
+      createdAt: nowIso(),
+      lastSeenAt: nowIso(),
+    });
+    return setCookie(SESSION_COOKIE, token);
+  };
+
+  const requireSession = (ctx: RouteContext): MockSession => {
+    if (!ctx.viewer || !ctx.session) throw new MockHttpError(401, 'Not signed in');
+    return ctx.session;
+  };
+
+  const mfaOf = (user: MockUser) => db.mfa.get(user.id);
+
+  const passkeysOf = (userId: number) => db.passkeys.filter(p => p.userId === userId);
+
+  const ownPasskey = (viewer: MockUser, id: string | undefined): MockPasskey => {
+    const passkey = db.passkeys.find(p => p.id === id && p.userId === viewer.id);
+    if (!passkey) throw new MockHttpError(404, 'Passkey not found');
+    return passkey;
+  };
+
+  const passkeyViewOf = ({ userId: _userId, ...passkey }: MockPasskey): PasskeyCredential =>
+    passkey;
+
+  const issueChallenge = (ceremony: MockChallenge['ceremony'], userId: number | null) => {
+    const challenge = Buffer.from(randomUUID()).toString('base64url');
+    challenges.set(challenge, { userId, ceremony });
+    return challenge;
+  };
+
+  /** Request options for an assertion: the user's own passkeys, or none for an unknown email. */
+  const assertionOptions = (ceremony: 'login' | 'mfa', user: MockUser | undefined) => ({
+    challenge: issueChallenge(ceremony, user?.id ?? null),
+    rpId: 'localhost',
+    userVerification: 'required',
+    allowCredentials: (user ? passkeysOf(user.id) : []).map(p => ({
+      id: p.id,
+      type: 'public-key',
+    })),
+  });
+
+  /**
+   * Check an assertion against the challenge it answers: issued for this ceremony, and signed by
+   * one of the challenged user's passkeys. The signature itself is not verified.
+   */
+  const verifyAssertion = (
+    ceremony: 'login' | 'mfa',
+    body: { id?: string; response?: { clientDataJSON?: string } }
+  ): { user: MockUser; passkey: MockPasskey } => {
+    const challenge = challengeOf(body);
+    const issued = challenges.get(challenge);
+    challenges.delete(challenge);
+    const passkey = db.passkeys.find(p => p.id === body.id && p.userId === issued?.userId);
+    const user = db.users.find(u => u.id === passkey?.userId && u.status === 'ACTIVE');
+    if (issued?.ceremony !== ceremony || !passkey || !user) {
+      throw new MockHttpError(401, 'Passkey sign-in failed');
+    }
+    passkey.lastUsedAt = nowIso();
+    return { user, passkey };
+  };
+
+  /**
+   * A password change invalidates every outstanding shared-password cookie, as the backend does.
+   * Cookies opened with an access code answer to their code instead.
+   */
+  const revokeGalleryTokens = (collectionId: number) => {
+    for (const [token, id] of galleryTokens) {
+      if (id === collectionId && !galleryTokenCodes.has(token)) galleryTokens.delete(token);
+    }
+  };
+
+  const issueInvite = (user: MockUser): CreateUserResponse => {
+    const token = randomUUID();
+    db.invites.push({
+      token,
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 7 * 24 * 3600 * 1000).toISOString(),
+      usedAt: null,
+    });
+    return { userId: user.id, inviteUrl: `${appUrl}/invite/${token}` };
+  };
+
+  /** Resolve a live invite or throw the status the invite page routes on (404 / 410). */
+  const liveInvite = (token: string | undefined) => {
+    const invite = db.invites.find(i => i.token === token);
+    if (!invite || Date.parse(invite.expiresAt) < Date.now()) {
+      throw new MockHttpError(404, 'Invite not found');
+    }
+    if (invite.usedAt) throw new MockHttpError(410, 'Invite already used');
+    return invite;
+  };
+
+  /** Apply a prev/newValue/remove update to a name table, creating rows for new names. */
+  const applyNamedUpdate = <T extends IdNameModel>(
+    current: readonly { id: number }[] | undefined,
+    update: LocationUpdate | undefined,
+    table: T[],
+    create: (name: string) => T
+  ): { rows: T[]; created: T[] } => {
+    const ids = new Set((current ?? []).map(row => row.id));
+    const created: T[] = [];
+    if (update) {
+      for (const id of update.prev ?? []) ids.add(id);
+      for (const id of update.remove ?? []) ids.delete(id);
+      for (const name of update.newValue ?? []) {
+        let row = table.find(r => r.name.toLowerCase() === name.trim().toLowerCase());
+        if (!row) {
+          row = create(name.trim());
+          table.push(row);
+          created.push(row);
+        }
+        ids.add(row.id);
+      }
+    }
+    return { rows: table.filter(row => ids.has(row.id)), created };
+  };
+
+  const newTag = (name: string) => ({ id: nextId(), name, slug: slugify(name) });
+  const newPerson = (name: string) => ({ id: nextId(), name });
+  const newLocation = (name: string): LocationModel => ({
+    id: nextId(),
+    name,
+    slug: slugify(name),
+  });
+
+  const addEntry = (c: MockCollection, contentId: number, visible = true) => {
+    const orderIndex = c.entries.reduce((max, e) => Math.max(max, e.orderIndex + 1), 0);
+    c.entries.push({ contentId, orderIndex, visible });
+  };
+
+  const createCollectionRow = (title: string, overrides: Partial<MockCollection> = {}) => {
+    const base = slugify(title) || 'collection';
+    let slug = base;
+    for (let n = 2; findCollectionBySlug(slug); n += 1) slug = `${base}-${n}`;
+    const stamp = nowIso();
+    const collection: MockCollection = {
+      id: nextId(),
+      title,
+      slug,
+      isClient: false,
+      isBlog: false,
+      visibility: CollectionVisibility.HIDDEN,
+      displayMode: 'ORDERED',
+      rowsWide: 4,
+      locations: [],
+      tags: [],
+      people: [],
+      coverImage: null,
+      isPasswordProtected: false,
+      createdAt: stamp,
+      updatedAt: stamp,
+      galleryPassword: null,
+      recipientEmails: [],
+      entries: [],
+      siblingIds: [],
+      ...overrides,
+    };
+    db.collections.push(collection);
+    return collection;
+  };
+
+  const addCollectionRef = (parent: MockCollection, child: MockCollection) => {
+    const id = nextId();
+    db.content.set(id, {
+      id,
+      contentType: 'COLLECTION',
+      orderIndex: 0,
+      visible: true,
+      title: child.title,
+      slug: child.slug,
+      referencedCollectionId: child.id,
+    });
+    addEntry(parent, id);
+  };
+
+  /** Move content in or out of collections from a `CollectionUpdate` on an image or GIF. */
+  const applyMembership = (contentId: number, update: ContentImageUpdateRequest['collections']) => {
+    if (!update) return;
+    for (const change of [...(update.prev ?? []), ...(update.newValue ?? [])]) {
+      const target = findCollectionById(change.collectionId);
+      if (!target) continue;
+      const entry = target.entries.find(e => e.contentId === contentId);
+      if (entry) {
+        if (change.visible !== undefined) entry.visible = change.visible;
+        if (change.orderIndex !== undefined) entry.orderIndex = change.orderIndex;
+      } else {
+        addEntry(target, contentId, change.visible ?? true);
+      }
+    }
+    for (const collectionId of update.remove ?? []) {
+      const target = findCollectionById(collectionId);
+      if (target) target.entries = target.entries.filter(e => e.contentId !== contentId);
+    }
+  };
+
+  const removeContent = (contentId: number) => {
+    db.content.delete(contentId);
+    for (const c of db.collections) {
+      c.entries = c.entries.filter(e => e.contentId !== contentId);
+      if (c.coverImage?.id === contentId) c.coverImage = null;
+    }
+  };
+
+  const imageFilter = (url: URL) => {
+    const tagIds = idsParam(url, 'tagIds');
+    const personIds = idsParam(url, 'personIds');
+    const cameraId = url.searchParams.has('cameraId') ? intParam(url, 'cameraId', 0) : undefined;
+    const lensId = url.searchParams.has('lensId') ? intParam(url, 'lensId', 0) : undefined;
+    const locationId = url.searchParams.has('locationId')
+      ? intParam(url, 'locationId', 0)
+      : undefined;
+    const minRating = intParam(url, 'minRating', 0);
+    const isFilm = boolParam(url, 'isFilm');
+    const blackAndWhite = boolParam(url, 'blackAndWhite');
+    const from = url.searchParams.get('captureStartDate');
+    const to = url.searchParams.get('captureEndDate');
+    const collectionIds = idsParam(url, 'collectionIds');
+    const query = url.searchParams.get('q')?.trim().toLowerCase() ?? '';
+    // Free text matches the same fields `filterContent` does client-side.
+    const matchesQuery = (image: ContentImageModel) =>
+      [
+        image.title,
+        image.caption,
+        ...(image.tags ?? []).map(t => t.name),
+        ...(image.people ?? []).map(p => p.name),
+        ...image.locations.map(l => l.name),
+      ].some(value => value?.toLowerCase().includes(query));
+    return (image: ContentImageModel) => {
+      const day = image.captureDate?.slice(0, 10) ?? '';
+      return (
+        (!query || matchesQuery(image)) &&
+        (collectionIds.length === 0 ||
+          (image.collections ?? []).some(c => collectionIds.includes(c.collectionId))) &&
+        (tagIds.length === 0 || (image.tags ?? []).some(t => tagIds.includes(t.id))) &&
+        (personIds.length === 0 || (image.people ?? []).some(p => personIds.includes(p.id))) &&
+        (cameraId === undefined || image.camera?.id === cameraId) &&
+        (lensId === undefined || image.lens?.id === lensId) &&
+        (locationId === undefined || image.locations.some(l => l.id === locationId)) &&
+        (image.rating ?? 0) >= minRating &&
+        (isFilm === undefined || Boolean(image.isFilm) === isFilm) &&
+        (blackAndWhite === undefined || Boolean(image.blackAndWhite) === blackAndWhite) &&
+        (!from || day >= from) &&
+        (!to || day <= to)
+      );
+    };
+  };
+
+  const byCaptureDateDesc = (a: ContentImageModel, b: ContentImageModel) =>
+    (b.captureDate ?? '').localeCompare(a.captureDate ?? '') || b.id - a.id;
+
+  const shareLinkStatus = (link: MockShareLink): ShareLinkStatus =>
+    link.expiresAt !== null && link.expiresAt <= nowIso()
+      ? 'expired'
+      : link.maxViews !== null && link.viewCount >= link.maxViews
+        ? 'exhausted'
+        : 'active';
+
+  const shareLinkOf = (link: MockShareLink): ShareLink => ({
+    id: link.id,
+    name: link.name,
+    token: link.token,
+    createdAt: link.createdAt,
+    expiresAt: link.expiresAt,
+    maxViews: link.maxViews,
+    viewCount: link.viewCount,
+    lastUsedAt: link.lastUsedAt,
+    collectionIds: link.collectionIds ? [...link.collectionIds] : null,
+    status: shareLinkStatus(link),
+  });
+
+  const ownShareLink = (user: MockUser, id: string | undefined) => {
+    const link = db.shareLinks.find(l => l.ownerId === user.id && l.id === Number(id));
+    if (!link) throw new MockHttpError(404, 'Share link not found');
+    return link;
+  };
+
+  /** Granted galleries the owner opted into their share — what every one of their links draws on. */
+  const sharedCollectionsOf = (user: MockUser) => {
+    const optIns = db.shareOptIns.get(user.id) ?? [];
+    return membershipsOf(user)
+      .filter(m => optIns.includes(m.collectionId))
+      .map(m => findCollectionById(m.collectionId))
+      .filter((c): c is MockCollection => c !== undefined);
+  };
+
+  const shareSettingsOf = (user: MockUser): ShareSettings => ({
+    links: db.shareLinks
+      .filter(l => l.ownerId === user.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+      .map(shareLinkOf),
+    optedInCollectionIds: [...(db.shareOptIns.get(user.id) ?? [])],
+    candidateCollections: membershipsOf(user)
+      .map(m => findCollectionById(m.collectionId))
+      .filter((c): c is MockCollection => c !== undefined)
+      .map(summaryOf),
+    sharedCollections: sharedCollectionsOf(user).map(summaryOf),
+  });
+
+  /**
+   * The view behind a token. 404 for an unknown or revoked token; 410 naming the reason for a
+   * closed one. A browser already holding this link's cookie is let in past the view limit —
+   * the limit caps who gets in — but not past the expiry.
+   */
+  const shareLinkFor = (token: string | undefined, heldToken: string | undefined) => {
+    const link = db.shareLinks.find(l => l.token === token);
+    const owner = link ? db.users.find(u => u.id === link.ownerId) : undefined;
+    if (!link || !owner) throw new MockHttpError(404, 'Share link not found');
+    const status = shareLinkStatus(link);
+    if (status === 'expired') throw new MockHttpError(410, 'This link has expired');
+    if (status === 'exhausted' && heldToken !== link.token) {
+      throw new MockHttpError(410, 'This link has reached its view limit', SHARE_EXHAUSTED);
+    }
+    return { link, owner };
+  };
+
+  const shareViewOf = (token: string | undefined, heldToken: string | undefined): ShareView => {
+    const { link, owner } = shareLinkFor(token, heldToken);
+    const shared = sharedCollectionsOf(owner).map(c => c.id);
+    const onlyIds = link.collectionIds
+      ? shared.filter(id => link.collectionIds?.includes(id))
+      : shared;
+    return { ownerName: owner.displayName, page: userPageOf(owner, owner, onlyIds) };
+  };
+
+  const proofingStatusOf = (userId: number, collectionId: number): ProofingStatus => ({
+    collectionId,
+    submittedAt:
+      db.proofingSubmissions.find(s => s.userId === userId && s.collectionId === collectionId)
+        ?.submittedAt ?? null,
+  });
+
+  /** 409 once the viewer's picks on this collection are submitted, as the backend answers. */
+  const requireUnlockedSelects = (viewer: MockUser, collectionId: number) => {
+    if (proofingStatusOf(viewer.id, collectionId).submittedAt) {
+      throw new MockHttpError(409, 'Your picks for this collection have been submitted');
+    }
+  };
+
+  /** Clients are CLIENT grant holders plus anyone who has picked here, in picking order. */
+  const proofingReviewOf = (c: MockCollection): ProofingReview => {
+    const picked = db.selects.filter(s => s.collectionId === c.id);
+    const clients = db.users.filter(
+      user => roleOn(user, c.id) === 'CLIENT' || picked.some(s => s.userId === user.id)
+    );
+    return {
+      collectionId: c.id,
+      title: c.title,
+      slug: c.slug,
+      proofingTarget: c.proofingTarget ?? null,
+      clients: clients.map(
+        (user): ProofingClientPicks => ({
+          userId: user.id,
+          displayName: user.displayName,
+          email: user.email,
+          submittedAt: proofingStatusOf(user.id, c.id).submittedAt,
+          images: picked.flatMap(s => {
+            const row = s.userId === user.id ? db.content.get(s.contentId) : undefined;
+            return row?.contentType === 'IMAGE' ? [row] : [];
+          }),
+        })
+      ),
+    };
+  };
+
+  /**
+   * The collection and image a comment route names, once the viewer may comment there: the admin,
+   * or a CLIENT-or-above grant on a client gallery. 404 when the image is not in the collection.
+   */
+  const requireCommentableImage = (ctx: RouteContext) => {
+    const viewer = requireViewer(ctx);
+    const collection = requireCollectionById(ctx.params.id);
+    const contentId = Number(ctx.params.contentId);
+    if (!collection.entries.some(e => e.contentId === contentId)) {
+      throw new MockHttpError(404, 'Content not found in collection');
+    }
+    const role = roleOn(viewer, collection.id);
+    const isClient = role !== null && ROLE_RANK[role] >= ROLE_RANK.CLIENT;
+    if (!isAdmin(viewer) && !(collection.isClient && isClient)) {
+      throw new MockHttpError(403, 'Comments are open to this gallery’s clients only');
+    }
+    return { viewer, collection, contentId };
+  };
+
+  const requireImageCommentThread = (id: string | undefined) => {
+    const thread = db.imageComments.find(t => t.id === Number(id));
+    if (!thread) throw new MockHttpError(404, 'Comment thread not found');
+    return thread;
+  };
+
+  /** Open threads grouped by collection then image, in thread order. */
+  const imageCommentInbox = (): ImageCommentInboxGroup[] => {
+    const groups: ImageCommentInboxGroup[] = [];
+    for (const thread of db.imageComments.filter(t => t.resolvedAt === null)) {
+      const collection = findCollectionById(thread.collectionId);
+      const content = db.content.get(thread.contentId);
+      if (!collection || content?.contentType !== 'IMAGE') continue;
+      let group = groups.find(g => g.collectionId === collection.id);
+      if (!group) {
+        group = {
+          collectionId: collection.id,
+          title: collection.title,
+          slug: collection.slug,
+          images: [],
+        };
+        groups.push(group);
+      }
+      let image = group.images.find(i => i.contentId === content.id);
+      if (!image) {
+        image = {
+          contentId: content.id,
+          title: content.title ?? null,
+          imageUrl: content.imageUrl,
+          threads: [],
+        };
+        group.images.push(image);
+      }
+      image.threads.push(thread);
+    }
+    return groups;
+  };
+
+  const feedSettingsOf = (user: MockUser): FeedTokenSettings => {
+    const feed = db.feedTokens.find(f => f.ownerId === user.id);
+    return { token: feed?.token ?? null, createdAt: feed?.createdAt ?? null };
+  };
+
+  /**
+   * Images in the token owner's followed collections, newest first. Collections the owner could
+   * not open themselves (HIDDEN, or a gallery they hold no grant on) contribute nothing.
+   */
+  const followingFeedOf = (token: string | undefined): FollowingFeed => {
+    const feed = db.feedTokens.find(f => f.token === token);
+    const owner = feed ? db.users.find(u => u.id === feed.ownerId) : undefined;
+    if (!feed || !owner) throw new MockHttpError(404, 'Feed not found');
+    const entries = (db.follows.get(owner.id) ?? [])
+      .map(findCollectionById)
+      .filter((c): c is MockCollection => c !== undefined)
+      .filter(
+        c =>
+          c.visibility !== CollectionVisibility.HIDDEN &&
+          (c.isPasswordProtected !== true || roleOn(owner, c.id) !== null)
+      )
+      .flatMap(c =>
+        contentOf(c, owner)
+          .filter((item): item is ContentImageModel => item.contentType === 'IMAGE')
+          .map(image => ({
+            collection: { id: c.id, title: c.title, slug: c.slug },
+            image,
+            addedAt: image.createdAt ?? c.updatedAt,
+          }))
+      )
+      .sort((a, b) => b.addedAt.localeCompare(a.addedAt))
+      .slice(0, 50);
+    return { ownerName: owner.displayName, entries };
+  };
+
+  // --------------------------------------------------------------------------
+  // Routes
+  // --------------------------------------------------------------------------
+
+  const routes: Route[] = [
+    // ---- READ: collections ------------------------------------------------
+    route('GET', 'read', '/collections', ({ url }) => {
+      const listed = db.collections
+        .filter(c => c.visibility === CollectionVisibility.LISTED)
+        .sort((a, b) => (b.collectionDate ?? '').localeCompare(a.collectionDate ?? ''))
+        .map(summaryOf);
+      return respond(200, springPage(listed, intParam(url, 'page', 0), intParam(url, 'size', 30)));
+    }),
+
+    route('GET', 'read', '/collections/all-collections', ctx => {
+      const scoped = visibleCollections(ctx.viewer).filter(c => c.slug !== 'home');
+      const page = syntheticPage(0, 'all-collections', 'All Collections', scoped, ctx.viewer);
+      const size = intParam(ctx.url, 'size', 500);
+      const index = intParam(ctx.url, 'page', 0);
+      return respond(200, {
+        ...page,
+        content: page.content?.slice(index * size, index * size + size),
+      });
+    }),
+
+    route('GET', 'read', '/collections/location/:slug', ({ params }) => {
+      const matches = db.collections.filter(
+        c =>
+          c.visibility === CollectionVisibility.LISTED &&
+          c.locations.some(l => (l.slug ?? slugify(l.name)) === params.slug)
+      );
+      return respond(200, matches.map(summaryOf));
+    }),
+
+    route('POST', 'read', '/collections/:slug/access', async ctx => {
+      const collection = findCollectionBySlug(ctx.params.slug ?? '');
+      if (!collection) return fail(404, 'Gallery not found');
+      const { password } = await readJson<{ password?: string }>(ctx.request);
+      const key = `access:${collection.slug}`;
+      const code = db.galleryAccessCodes.find(
+        c => c.collectionId === collection.id && c.code === password?.trim().toUpperCase()
+      );
+      if (code) {
+        const status = accessCodeStatusOf(code);
+        if (status === 'expired') return fail(410, 'This access code has expired');
+        if (status === 'exhausted') {
+          return fail(
+            410,
+            'This access code has reached its download limit',
+            ACCESS_CODE_EXHAUSTED
+          );
+        }
+      } else if (!collection.galleryPassword || password !== collection.galleryPassword) {
+        spendAttempt(key, rateLimit);
+        return respond(200, { hasAccess: false });
+      }
+      attempts.delete(key);
+      const token = randomUUID();
+      galleryTokens.set(token, collection.id);
+      if (code) galleryTokenCodes.set(token, code.id);
+      return respond(200, { hasAccess: true }, [
+        setCookie(galleryAccessCookie(collection.slug), token, 30 * 24 * 3600),
+      ]);
+    }),
+
+    route('POST', 'read', '/collections/:slug/exports', async ctx => {
+      const collection = findCollectionBySlug(ctx.params.slug ?? '');
+      if (!collection) return fail(404, 'Collection not found');
+      if (!hasGalleryAccess(ctx, collection)) return fail(403, 'Gallery access required');
+      const body = await readJson<Partial<ExportJobRequest>>(ctx.request);
+      if (body.format !== 'web' && body.format !== 'original') {
+        return fail(400, 'format must be web or original');
+      }
+      const images = contentOf(collection, ctx.viewer).filter(i => i.contentType === 'IMAGE');
+      const imageIds = body.imageIds ?? null;
+      const chosen = imageIds ? images.filter(i => imageIds.includes(i.id)) : images;
+      if (chosen.length === 0) return fail(400, 'Nothing to export');
+      const job: ExportJob = {
+        id: randomUUID(),
+        collectionSlug: collection.slug,
+        format: body.format,
+        imageCount: chosen.length,
+        processedCount: 0,
+        status: 'queued',
+        error: null,
+        expiresAt: null,
+        emailTo: null,
+      };
+      exportJobs.set(job.id, { job, collectionId: collection.id, downloaded: false });
+      return respond(202, job);
+    }),
+
+    route('GET', 'read', '/exports/:id', ({ params }) => {
+      const entry = exportJobs.get(params.id ?? '');
+      if (!entry) return fail(404, 'Export not found');
+      const { job } = entry;
+      if (job.status === 'queued' || job.status === 'running') {
+        job.processedCount = Math.min(
+          job.imageCount,
+          job.processedCount + Math.ceil(job.imageCount / 2)
+        );
+        job.status = job.processedCount === job.imageCount ? 'ready' : 'running';
+        if (job.status === 'ready') {
+          job.expiresAt = new Date(Date.now() + 7 * 24 * 3600 * 1000).toISOString();
+        }
+      }
+      return respond(200, job);
+    }),
+
+    route('POST', 'read', '/exports/:id/email', async ({ params, request }) => {
+      const entry = exportJobs.get(params.id ?? '');
+      if (!entry) return fail(404, 'Export not found');
+      const { email } = await readJson<{ email?: string }>(request);
+      if (!email?.includes('@')) return fail(400, 'A valid email is required');
+      entry.job.emailTo = email.trim();
+      return respond(200, entry.job);
+    }),
+
+    route('GET', 'read', '/exports/:id/archive', ctx => {
+      const entry = exportJobs.get(ctx.params.id ?? '');
+      if (entry?.job.status !== 'ready') return fail(404, 'Export not found');
+      const collection = findCollectionById(entry.collectionId);
+      if (!collection) return fail(404, 'Collection not found');
+      // The link is the capability (it gets emailed), but a lapsed or revoked code still ends it.
+      if (!entry.downloaded) {
+        if (galleryGrantOf(ctx, collection) && !hasGalleryAccess(ctx, collection)) {
+          return fail(403, 'Gallery access required');
+        }
+        recordGalleryVisit(ctx, collection, 'download');
+        entry.downloaded = true;
+      }
+      return binary(EMPTY_ZIP, 'application/zip', `${collection.slug}.zip`);
+    }),
+
+    route('GET', 'read', '/collections/:slug', ctx => {
+      const collection = findCollectionBySlug(ctx.params.slug ?? '');
+      if (!collection) return fail(404, 'Collection not found');
+      if (collection.visibility === CollectionVisibility.HIDDEN && !isAdmin(ctx.viewer)) {
+        return fail(404, 'Collection not found');
+      }
+      const page = intParam(ctx.url, 'page', 0);
+      const size = intParam(ctx.url, 'size', collection.contentPerPage ?? 30);
+      if (hasGalleryAccess(ctx, collection)) recordGalleryVisit(ctx, collection, 'view');
+      return respond(200, pageOf(ctx, collection, page, size));
+    }),
+
+    // ---- READ: content ----------------------------------------------------
+    route('GET', 'read', '/content/tags', () =>
+      respond(
+        200,
+        db.tags.map(t => ({
+          id: t.id,
+          tagName: t.name,
+          slug: t.slug,
+          ...publicAliasesOf('tags', t.id),
+        }))
+      )
+    ),
+
+    route('GET', 'read', '/content/locations', () => {
+      const images = allImages();
+      return respond(
+        200,
+        db.locations.map(l => ({
+          id: l.id,
+          name: l.name,
+          slug: l.slug ?? slugify(l.name),
+          count: images.filter(i => i.locations.some(il => il.id === l.id)).length,
+          ...publicAliasesOf('locations', l.id),
+        }))
+      );
+    }),
+
+    route('GET', 'read', '/content/images/search', ctx => {
+      const scope = new Set(
+        visibleCollections(ctx.viewer)
+          .filter(c => isAdmin(ctx.viewer) || c.visibility === CollectionVisibility.LISTED)
+          .flatMap(c => c.entries.filter(e => e.visible).map(e => e.contentId))
+      );
+      const matches = allImages()
+        .filter(i => scope.has(i.id))
+        .filter(imageFilter(ctx.url))
+        .sort(byCaptureDateDesc);
+      return respond(
+        200,
+        springPage(matches, intParam(ctx.url, 'page', 0), intParam(ctx.url, 'size', 50))
+      );
+    }),
+
+    route('GET', 'read', '/content/images/:id/download', ctx => {
+      const image = db.content.get(Number(ctx.params.id));
+      if (image?.contentType !== 'IMAGE') return fail(404, 'Image not found');
+      // A download out of a gallery opened at the gate counts against the code that opened it.
+      const gallery = db.collections.find(
+        c => c.entries.some(e => e.contentId === image.id) && galleryGrantOf(ctx, c) !== null
+      );
+      if (gallery) {
+        if (!hasGalleryAccess(ctx, gallery)) return fail(403, 'Gallery access required');
+        recordGalleryVisit(ctx, gallery, 'download');
+      }
+      return binary(PLACEHOLDER_PNG, 'image/png', image.rawFileName ?? `image-${image.id}.png`);
+    }),
+
+    // ---- READ: signed-in user ---------------------------------------------
+    route('GET', 'read', '/user/me/page', ctx => {
+      const viewer = requireViewer(ctx);
+      return respond(200, userPageOf(viewer, viewer));
+    }),
+
+    route('GET', 'read', '/user/saves', ctx =>
+      respond(200, db.saves.get(requireViewer(ctx).id) ?? [])
+    ),
+
+    route('GET', 'read', '/user/saves/images', ctx => {
+      const ids = db.saves.get(requireViewer(ctx).id) ?? [];
+      const images = allImages();
+      return respond(
+        200,
+        ids.flatMap(id => images.filter(i => i.id === id))
+      );
+    }),
+
+    route('POST', 'read', '/user/saves', async ctx => {
+      const viewer = requireViewer(ctx);
+      const { imageId } = await readJson<{ imageId: number }>(ctx.request);
+      if (db.content.get(imageId)?.contentType !== 'IMAGE') return fail(404, 'Image not found');
+      const ids = (db.saves.get(viewer.id) ?? []).filter(id => id !== imageId);
+      db.saves.set(viewer.id, [imageId, ...ids]);
+      return respond(204);
+    }),
+
+    route('DELETE', 'read', '/user/saves/:id', ctx => {
+      const viewer = requireViewer(ctx);
+      const ids = db.saves.get(viewer.id) ?? [];
+      db.saves.set(
+        viewer.id,
+        ids.filter(id => id !== Number(ctx.params.id))
+      );
+      return respond(204);
+    }),
+
+    route('GET', 'read', '/user/follows', ctx =>
+      respond(200, db.follows.get(requireViewer(ctx).id) ?? [])
+    ),
+
+    route('POST', 'read', '/user/follows', async ctx => {
+      const viewer = requireViewer(ctx);
+      const { collectionId } = await readJson<{ collectionId: number }>(ctx.request);
+      if (!findCollectionById(collectionId)) return fail(404, 'Collection not found');
+      const ids = (db.follows.get(viewer.id) ?? []).filter(id => id !== collectionId);
+      db.follows.set(viewer.id, [collectionId, ...ids]);
+      return respond(204);
+    }),
+
+    route('DELETE', 'read', '/user/follows/:id', ctx => {
+      const viewer = requireViewer(ctx);
+      const ids = db.follows.get(viewer.id) ?? [];
+      db.follows.set(
+        viewer.id,
+        ids.filter(id => id !== Number(ctx.params.id))
+      );
+      return respond(204);
+    }),
+
+    route('GET', 'read', '/user/selects', ctx => {
+      const viewer = requireViewer(ctx);
+      const mine = db.selects.filter(s => s.userId === viewer.id);
+      if (ctx.url.searchParams.has('collectionId')) {
+        const collectionId = intParam(ctx.url, 'collectionId', 0);
+        return respond(
+          200,
+          mine.filter(s => s.collectionId === collectionId).map(s => s.contentId)
+        );
+      }
+      const groups = new Map<number, number[]>();
+      for (const s of mine)
+        groups.set(s.collectionId, [...(groups.get(s.collectionId) ?? []), s.contentId]);
+      const body: SelectGroup[] = [...groups].map(([collectionId, contentIds]) => ({
+        collectionId,
+        contentIds,
+      }));
+      return respond(200, body);
+    }),
+
+    route('POST', 'read', '/user/selects', async ctx => {
+      const viewer = requireViewer(ctx);
+      const { collectionId, contentId } = await readJson<{
+        collectionId: number;
+        contentId: number;
+      }>(ctx.request);
+      const collection = findCollectionById(collectionId);
+      if (!collection?.entries.some(e => e.contentId === contentId)) {
+        return fail(404, 'Content not found in collection');
+      }
+      requireUnlockedSelects(viewer, collectionId);
+      if (!db.selects.some(s => s.userId === viewer.id && s.contentId === contentId)) {
+        db.selects.push({ userId: viewer.id, collectionId, contentId });
+      }
+      return respond(204);
+    }),
+
+    route('DELETE', 'read', '/user/selects/:contentId', ctx => {
+      const viewer = requireViewer(ctx);
+      const contentId = Number(ctx.params.contentId);
+      const select = db.selects.find(s => s.userId === viewer.id && s.contentId === contentId);
+      if (select) requireUnlockedSelects(viewer, select.collectionId);
+      db.selects = db.selects.filter(s => !(s.userId === viewer.id && s.contentId === contentId));
+      return respond(204);
+    }),
+
+    route('GET', 'read', '/user/selects/proofing', ctx => {
+      const viewer = requireViewer(ctx);
+      return respond(200, proofingStatusOf(viewer.id, intParam(ctx.url, 'collectionId', 0)));
+    }),
+
+    route('POST', 'read', '/user/selects/proofing/:collectionId/submit', ctx => {
+      const viewer = requireViewer(ctx);
+      const collection = requireCollectionById(ctx.params.collectionId);
+      if (collection.proofingTarget == null) return fail(400, 'This collection is not in proofing');
+      requireUnlockedSelects(viewer, collection.id);
+      const picks = db.selects.filter(
+        s => s.userId === viewer.id && s.collectionId === collection.id
+      );
+      if (picks.length === 0) return fail(400, 'Nothing to submit');
+      const submittedAt = nowIso();
+      db.proofingSubmissions.push({ userId: viewer.id, collectionId: collection.id, submittedAt });
+      db.messages.push({
+        id: nextId(),
+        email: viewer.email ?? '',
+        message:
+          `${viewer.displayName ?? viewer.email} submitted ${picks.length} of ` +
+          `${collection.proofingTarget} picks for ${collection.title}. ` +
+          `Review them at /admin/proofing/${collection.id}`,
+        createdAt: submittedAt,
+      });
+      return respond(200, { collectionId: collection.id, submittedAt });
+    }),
+
+    // ---- READ: image comments ---------------------------------------------
+    route('GET', 'read', '/collections/:id/images/:contentId/comments', ctx => {
+      const { collection, contentId } = requireCommentableImage(ctx);
+      return respond(
+        200,
+        db.imageComments.filter(t => t.collectionId === collection.id && t.contentId === contentId)
+      );
+    }),
+
+    route('POST', 'read', '/collections/:id/images/:contentId/comments', async ctx => {
+      const { viewer, collection, contentId } = requireCommentableImage(ctx);
+      const { body, pin, threadId } = await readJson<ImageCommentRequest>(ctx.request);
+      if (!body?.trim()) return fail(400, 'body is required');
+      const comment = {
+        id: nextId(),
+        authorName: viewer.displayName ?? viewer.email,
+        authorIsAdmin: viewer.isAdmin,
+        body: body.trim(),
+        createdAt: nowIso(),
+      };
+      if (threadId != null) {
+        const thread = requireImageCommentThread(String(threadId));
+        if (thread.collectionId !== collection.id || thread.contentId !== contentId) {
+          return fail(404, 'Comment thread not found');
+        }
+        if (thread.resolvedAt) return fail(409, 'This thread is resolved');
+        thread.comments.push(comment);
+        return respond(200, thread);
+      }
+      const thread: ImageCommentThread = {
+        id: nextId(),
+        collectionId: collection.id,
+        contentId,
+        pin: pin ?? null,
+        resolvedAt: null,
+        comments: [comment],
+      };
+      db.imageComments.push(thread);
+      return respond(200, thread);
+    }),
+
+    // ---- READ: share links ------------------------------------------------
+    route('GET', 'read', '/share/view', ctx => {
+      const held = ctx.cookies.get(SHARE_COOKIE);
+      return respond(200, shareViewOf(held, held));
+    }),
+
+    // Reading the view is free; opening the link (the browser planting its cookie) is the view
+    // that counts, once per browser.
+    route('GET', 'read', '/share/:token', ctx =>
+      respond(200, shareViewOf(ctx.params.token, ctx.cookies.get(SHARE_COOKIE)))
+    ),
+
+    route('POST', 'read', '/share/:token', ctx => {
+      const held = ctx.cookies.get(SHARE_COOKIE);
+      const { link } = shareLinkFor(ctx.params.token, held);
+      if (held !== link.token) link.viewCount += 1;
+      link.lastUsedAt = nowIso();
+      return respond(204, undefined, [setCookie(SHARE_COOKIE, link.token, 30 * 24 * 3600)]);
+    }),
+
+    route('GET', 'read', '/user/share', ctx => respond(200, shareSettingsOf(requireViewer(ctx)))),
+
+    route('POST', 'read', '/user/share/links', async ctx => {
+      const viewer = requireViewer(ctx);
+      const body = await readJson<Partial<ShareLinkRequest>>(ctx.request);
+      const name = body.name?.trim();
+      if (!name) return fail(400, 'A link name is required');
+      const maxViews = body.maxViews ?? null;
+      if (maxViews !== null && !(Number.isInteger(maxViews) && maxViews > 0)) {
+        return fail(400, 'maxViews must be a positive integer');
+      }
+      const shared = sharedCollectionsOf(viewer).map(c => c.id);
+      const collectionIds = body.collectionIds ?? null;
+      if (collectionIds?.some(id => !shared.includes(id))) {
+        return fail(400, 'A link can only show galleries you share');
+      }
+      const link: MockShareLink = {
+        id: nextId(),
+        ownerId: viewer.id,
+        name,
+        token: randomUUID(),
+        createdAt: nowIso(),
+        expiresAt: body.expiresAt ?? null,
+        maxViews,
+        viewCount: 0,
+        lastUsedAt: null,
+        collectionIds,
+      };
+      db.shareLinks.push(link);
+      return respond(201, shareLinkOf(link));
+    }),
+
+    route('DELETE', 'read', '/user/share/links/:id', ctx => {
+      const link = ownShareLink(requireViewer(ctx), ctx.params.id);
+      db.shareLinks = db.shareLinks.filter(l => l !== link);
+      return respond(204);
+    }),
+
+    route('POST', 'read', '/user/share/links/:id/email', async ctx => {
+      ownShareLink(requireViewer(ctx), ctx.params.id);
+      const { toEmail } = await readJson<{ toEmail?: string }>(ctx.request);
+      if (!toEmail?.includes('@')) return fail(400, 'A valid email is required');
+      // Delivery is faked: report success exactly when a real send would have been attempted.
+      return respond(200, { sent: true, reason: null });
+    }),
+
+    route('PUT', 'read', '/user/share/collections/:id', ctx => {
+      const viewer = requireViewer(ctx);
+      const collectionId = Number(ctx.params.id);
+      if (roleOn(viewer, collectionId) === null) return fail(403, 'Not a member of that gallery');
+      const optIns = db.shareOptIns.get(viewer.id) ?? [];
+      if (!optIns.includes(collectionId)) db.shareOptIns.set(viewer.id, [...optIns, collectionId]);
+      return respond(204);
+    }),
+
+    route('DELETE', 'read', '/user/share/collections/:id', ctx => {
+      const viewer = requireViewer(ctx);
+      const optIns = db.shareOptIns.get(viewer.id) ?? [];
+      db.shareOptIns.set(
+        viewer.id,
+        optIns.filter(id => id !== Number(ctx.params.id))
+      );
+      return respond(204);
+    }),
+
+    // ---- READ: following feed ---------------------------------------------
+    route('GET', 'read', '/feed/following/:token', ({ params }) =>
+      respond(200, followingFeedOf(params.token))
+    ),
+
+    route('GET', 'read', '/user/feed', ctx => respond(200, feedSettingsOf(requireViewer(ctx)))),
+
+    route('POST', 'read', '/user/feed/rotate', ctx => {
+      const viewer = requireViewer(ctx);
+      db.feedTokens = [
+        ...db.feedTokens.filter(f => f.ownerId !== viewer.id),
+        { ownerId: viewer.id, token: randomUUID(), createdAt: nowIso() },
+      ];
+      return respond(200, feedSettingsOf(viewer));
+    }),
+
+    // ---- ADMIN: collections -----------------------------------------------
+    route('POST', 'admin', '/collections/createCollection', async ctx => {
+      const body = await readJson<{ title?: string; isClient?: boolean; isBlog?: boolean }>(
+        ctx.request
+      );
+      if (!body.title?.trim()) return fail(400, 'Title is required');
+      const collection = createCollectionRow(body.title.trim(), {
+        isClient: body.isClient ?? false,
+        isBlog: body.isBlog ?? false,
+      });
+      return respond(200, updateViewOf(collection, ctx.viewer));
+    }),
+
+    route('GET', 'admin', '/collections/all', ({ url }) =>
+      respond(
+        200,
+        springPage(
+          db.collections.map(summaryOf),
+          intParam(url, 'page', 0),
+          intParam(url, 'size', 500)
+        )
+      )
+    ),
+
+    route('GET', 'admin', '/collections/metadata', () => respond(200, metadataOf())),
+
+    route('GET', 'admin', '/collections/:id/proofing', ctx =>
+      respond(200, proofingReviewOf(requireCollectionById(ctx.params.id)))
+    ),
+
+    route('DELETE', 'admin', '/collections/:id/proofing/:userId', ctx => {
+      const collection = requireCollectionById(ctx.params.id);
+      const userId = Number(ctx.params.userId);
+      db.proofingSubmissions = db.proofingSubmissions.filter(
+        s => !(s.userId === userId && s.collectionId === collection.id)
+      );
+      return respond(204);
+    }),
+
+    route('GET', 'admin', '/image-comments', () => respond(200, imageCommentInbox())),
+
+    route('PUT', 'admin', '/image-comments/:id/resolve', ctx => {
+      const thread = requireImageCommentThread(ctx.params.id);
+      thread.resolvedAt ??= nowIso();
+      return respond(200, thread);
+    }),
+
+    route('DELETE', 'admin', '/image-comments/:id/resolve', ctx => {
+      const thread = requireImageCommentThread(ctx.params.id);
+      thread.resolvedAt = null;
+      return respond(200, thread);
+    }),
+
+    route('GET', 'admin', '/collections/:slug/update', ctx => {
+      const collection = findCollectionBySlug(ctx.params.slug ?? '');
+      if (!collection) return fail(404, 'Collection not found');
+      return respond(200, updateViewOf(collection, ctx.viewer));
+    }),
+
+    route('PUT', 'admin', '/collections/:id', async ctx => {
+      const collection = requireCollectionById(ctx.params.id);
+      const body = await readJson<CollectionUpdateRequest>(ctx.request);
+      const scalar = [
+        'isClient',
+        'isBlog',
+        'title',
+        'description',
+        'visibility',
+        'displayMode',
+        'layoutMode',
+        'rowsWide',
+        'contentPerPage',
+        'proofingTarget',
+      ] as const;
+      for (const key of scalar) {
+        if (body[key] !== undefined) Object.assign(collection, { [key]: body[key] });
+      }
+      if (body.slug !== undefined && body.slug !== collection.slug) {
+        if (findCollectionBySlug(body.slug)) return fail(409, `Slug already in use: ${body.slug}`);
+        collection.slug = body.slug;
+      }
+      if (body.rating !== undefined) collection.rating = body.rating ?? undefined;
+      if (body.clearCollectionDate) collection.collectionDate = undefined;
+      else if (body.collectionDate) collection.collectionDate = body.collectionDate;
+      if (body.clearCollectionEndDate) collection.collectionEndDate = undefined;
+      else if (body.collectionEndDate) collection.collectionEndDate = body.collectionEndDate;
+      if (body.coverImageId !== undefined) {
+        const cover = db.content.get(body.coverImageId);
+        if (cover?.contentType !== 'IMAGE') return fail(404, 'Cover image not found');
+        collection.coverImage = cover;
+      }
+      if (body.password !== undefined) {
+        collection.galleryPassword = body.password || null;
+        collection.isPasswordProtected = Boolean(body.password);
+        revokeGalleryTokens(collection.id);
+      }
+      collection.locations = applyNamedUpdate(
+        collection.locations,
+        body.locations,
+        db.locations,
+        newLocation
+      ).rows;
+      collection.people = applyNamedUpdate(
+        collection.people,
+        body.people,
+        db.people,
+        newPerson
+      ).rows;
+      if (body.tags) {
+        const current = db.tags.filter(t => collection.tags?.includes(t.name));
+        collection.tags = applyNamedUpdate(current, body.tags, db.tags, newTag).rows.map(
+          t => t.name
+        );
+      }
+      for (const child of body.collections?.newValue ?? []) {
+        const target = findCollectionById(child.collectionId);
+        if (target && !childrenOf(collection).includes(target))
+          addCollectionRef(collection, target);
+      }
+      for (const childId of body.collections?.remove ?? []) {
+        collection.entries = collection.entries.filter(e => {
+          const row = db.content.get(e.contentId);
+          return !(row?.contentType === 'COLLECTION' && row.referencedCollectionId === childId);
+        });
+      }
+      collection.updatedAt = nowIso();
+      return respond(200, updateViewOf(collection, ctx.viewer));
+    }),
+
+    route('DELETE', 'admin', '/collections/:id', ({ params }) => {
+      const collection = requireCollectionById(params.id);
+      db.collections = db.collections.filter(c => c !== collection);
+      for (const [id, row] of db.content) {
+        if (row.contentType === 'COLLECTION' && row.referencedCollectionId === collection.id) {
+          removeContent(id);
+        }
+      }
+      return respond(200, { success: true });
+    }),
+
+    route('POST', 'admin', '/collections/:id/gallery-access', async ({ params, request }) => {
+      const collection = requireCollectionById(params.id);
+      const body = await readJson<{ password: string | null; emails?: string[] }>(request);
+      collection.galleryPassword = body.password || null;
+      collection.isPasswordProtected = Boolean(body.password);
+      if (body.emails) collection.recipientEmails = [...body.emails];
+      revokeGalleryTokens(collection.id);
+      return respond(200, {
+        saved: true,
+        emailsSent: Boolean(body.password && body.emails?.length),
+        reason: null,
+        password: collection.galleryPassword,
+        emails: collection.recipientEmails,
+      });
+    }),
+
+    route('GET', 'admin', '/collections/:id/access-codes', ({ params }) => {
+      const collection = requireCollectionById(params.id);
+      return respond(
+        200,
+        db.galleryAccessCodes.filter(c => c.collectionId === collection.id).map(accessCodeOf)
+      );
+    }),
+
+    route('POST', 'admin', '/collections/:id/access-codes', async ({ params, request }) => {
+      const collection = requireCollectionById(params.id);
+      const body = await readJson<Partial<GalleryAccessCodeRequest>>(request);
+      const downloadLimit = body.downloadLimit ?? null;
+      if (downloadLimit !== null && !(Number.isInteger(downloadLimit) && downloadLimit > 0)) {
+        return fail(400, 'downloadLimit must be a positive integer');
+      }
+      const recipientEmail = body.recipientEmail?.trim() || null;
+      if (recipientEmail !== null && !recipientEmail.includes('@')) {
+        return fail(400, 'A valid email is required');
+      }
+      const code: MockGalleryAccessCode = {
+        id: nextId(),
+        collectionId: collection.id,
+        code: newAccessCode(),
+        recipientEmail,
+        label: body.label?.trim() || null,
+        expiresAt: body.expiresAt ?? null,
+        downloadLimit,
+        downloadCount: 0,
+        createdAt: nowIso(),
+      };
+      db.galleryAccessCodes.push(code);
+      const emailSent = Boolean(body.sendEmail && recipientEmail);
+      const response: GalleryAccessCodeResponse = {
+        accessCode: accessCodeOf(code),
+        emailSent,
+        reason: body.sendEmail && !emailSent ? 'No recipient email to send to.' : null,
+      };
+      return respond(201, response);
+    }),
+
+    route('DELETE', 'admin', '/collections/:id/access-codes/:codeId', ({ params }) => {
+      const collection = requireCollectionById(params.id);
+      const code = db.galleryAccessCodes.find(
+        c => c.collectionId === collection.id && c.id === Number(params.codeId)
+      );
+      if (!code) return fail(404, `Access code not found: ${params.codeId}`);
+      db.galleryAccessCodes = db.galleryAccessCodes.filter(c => c !== code);
+      for (const [token, codeId] of galleryTokenCodes) {
+        if (codeId === code.id) {
+          galleryTokenCodes.delete(token);
+          galleryTokens.delete(token);
+        }
+      }
+      return respond(204);
+    }),
+
+    route('GET', 'admin', '/collections/:id/access-log', ({ params }) => {
+      const collection = requireCollectionById(params.id);
+      const entries: GalleryAccessLogEntry[] = db.galleryAccessLog
+        .filter(v => v.collectionId === collection.id)
+        .sort((a, b) => b.lastViewedAt.localeCompare(a.lastViewedAt))
+        .map(({ collectionId: _collectionId, ...entry }: MockGalleryAccessVisit) => entry);
+      return respond(200, entries);
+    }),
+
+    route('PUT', 'admin', '/collections/:id/people', async ({ params, request }) => {
+      const collection = requireCollectionById(params.id);
+      const ids = await readJson<number[]>(request);
+      collection.people = db.people.filter(p => ids.includes(p.id));
+      return respond(204);
+    }),
+
+    route('POST', 'admin', '/collections/:id/people/regenerate', ({ params }) => {
+      const collection = requireCollectionById(params.id);
+      const ids = new Set(
+        contentOf(collection, null, true).flatMap(item =>
+          item.contentType === 'IMAGE' ? (item.people ?? []).map(p => p.id) : []
+        )
+      );
+      collection.people = db.people.filter(p => ids.has(p.id));
+      return respond(204);
+    }),
+
+    route('POST', 'admin', '/collections/:id/child', async ctx => {
+      const parent = requireCollectionById(ctx.params.id);
+      const body = await readJson<{ title?: string; isClient?: boolean }>(ctx.request);
+      if (!body.title?.trim()) return fail(400, 'Title is required');
+      const child = createCollectionRow(body.title.trim(), {
+        isClient: body.isClient ?? parent.isClient,
+        visibility: parent.visibility,
+      });
+      addCollectionRef(parent, child);
+      return respond(200, updateViewOf(child, ctx.viewer));
+    }),
+
+    route('GET', 'admin', '/collections/:id/roles', ({ params }) => {
+      const collection = requireCollectionById(params.id);
+      const rows: CollectionRoleRow[] = db.roles.flatMap(role =>
+        role.grants
+          .filter(g => g.collectionId === collection.id)
+          .map(g => ({ roleId: role.id, name: role.name, level: g.level }))
+      );
+      return respond(200, rows);
+    }),
+
+    route('POST', 'admin', '/tags/:id/save-as-collection', async ctx => {
+      const tag = db.tags.find(t => t.id === Number(ctx.params.id));
+      if (!tag) return fail(404, 'Tag not found');
+      const body = await readJson<{ title?: string }>(ctx.request).catch(() => ({
+        title: undefined,
+      }));
+      const collection = createCollectionRow(body.title?.trim() || tag.name, { tags: [tag.name] });
+      for (const image of allImages().filter(i => i.tags?.some(t => t.id === tag.id))) {
+        addEntry(collection, image.id);
+      }
+      return respond(200, updateViewOf(collection, ctx.viewer));
+    }),
+
+    // ---- ADMIN: content ---------------------------------------------------
+    // Chunk and content hashes are checked for real — the client computes both, and a mismatch is
+    // an error path it handles. The bytes themselves are discarded; the block gets a placeholder.
+    route('POST', 'admin', '/content/uploads/:collectionId', async ({ params, request }) => {
+      const collection = requireCollectionById(params.collectionId);
+      const file = await readJson<StartUploadRequest>(request);
+      const { sha256, size, chunkSize } = file;
+      if (!sha256 || !(size > 0) || !(chunkSize > 0)) {
+        return fail(400, 'sha256, size and chunkSize are required');
+      }
+      const duplicateOf = uploadedHashes.get(`${collection.id}:${sha256}`);
+      if (duplicateOf !== undefined && collection.entries.some(e => e.contentId === duplicateOf)) {
+        return respond(200, {
+          uploadId: '',
+          receivedChunks: [],
+          duplicateOfContentId: duplicateOf,
+        } satisfies UploadSession);
+      }
+      const [uploadId, open] = [...uploads].find(
+        ([, u]) => u.collectionId === collection.id && u.file.sha256 === sha256
+      ) ?? [randomUUID(), { collectionId: collection.id, file, chunks: new Map<number, string>() }];
+      uploads.set(uploadId, open);
+      return respond(200, {
+        uploadId,
+        receivedChunks: [...open.chunks.keys()].sort((a, b) => a - b),
+      } satisfies UploadSession);
+    }),
+
+    route(
+      'PUT',
+      'admin',
+      '/content/uploads/:uploadId/chunks/:index',
+      async ({ params, request }) => {
+        const upload = uploads.get(params.uploadId ?? '');
+        if (!upload) return fail(404, 'Upload not found');
+        const index = Number(params.index);
+        const chunkCount = Math.ceil(upload.file.size / upload.file.chunkSize);
+        if (!Number.isInteger(index) || index < 0 || index >= chunkCount) {
+          return fail(400, `Chunk index out of range: ${params.index}`);
+        }
+        const hash = createHash('sha256')
+          .update(Buffer.from(await request.arrayBuffer()))
+          .digest('hex');
+        if (hash !== request.headers.get('x-chunk-sha256')) {
+          return fail(400, 'Chunk does not match its X-Chunk-Sha256');
+        }
+        upload.chunks.set(index, hash);
+        return respond(200, { received: index });
+      }
+    ),
+
+    route('POST', 'admin', '/content/uploads/:uploadId/complete', ({ params }) => {
+      const uploadId = params.uploadId ?? '';
+      const upload = uploads.get(uploadId);
+      if (!upload) return fail(404, 'Upload not found');
+      const collection = requireCollectionById(String(upload.collectionId));
+      const { file, chunks } = upload;
+      const chunkCount = Math.ceil(file.size / file.chunkSize);
+      if (chunks.size < chunkCount) {
+        return fail(409, `${chunkCount - chunks.size} of ${chunkCount} chunks are missing`);
+      }
+      const ordered = Array.from({ length: chunkCount }, (_, i) => chunks.get(i)).join('');
+      if (createHash('sha256').update(ordered).digest('hex') !== file.sha256) {
+        uploads.delete(uploadId);
+        return fail(422, 'The assembled file does not match its content hash');
+      }
+      uploads.delete(uploadId);
+      const id = nextId();
+      const title = file.filename.replace(/\.[^.]+$/, '');
+      // No EXIF extraction or transcoding: a still is a 3:2 landscape dated now, a GIF is 4:3.
+      const content: ContentImageModel | ContentGifModel =
+        file.kind === 'gif'
+          ? {
+              id,
+              contentType: 'GIF',
+              orderIndex: 0,
+              visible: true,
+              title,
+              gifUrl: `${mediaBaseUrl}/media/gif-${id}.png`,
+              width: 800,
+              height: 600,
+              createdAt: nowIso(),
+              updatedAt: nowIso(),
+            }
+          : {
+              id,
+              contentType: 'IMAGE',
+              orderIndex: 0,
+              visible: true,
+              title,
+              imageUrl: `${mediaBaseUrl}/media/image-${id}.png`,
+              imageWidth: 1800,
+              imageHeight: 1200,
+              aspectRatio: 1.5,
+              rating: 0,
+              rawFileName: file.filename,
+              captureDate: nowIso(),
+              createdAt: nowIso(),
+              updatedAt: nowIso(),
+              locations: [],
+              tags: [],
+              people: [],
+            };
+      db.content.set(id, content);
+      addEntry(collection, id);
+      uploadedHashes.set(`${collection.id}:${file.sha256}`, id);
+      return respond(200, {
+        content: content.contentType === 'IMAGE' ? hydrateImage(content) : content,
+      } satisfies UploadCompleteResponse);
+    }),
+
+    route('DELETE', 'admin', '/content/uploads/:uploadId', ({ params }) => {
+      if (!uploads.delete(params.uploadId ?? '')) return fail(404, 'Upload not found');
+      return respond(200, { aborted: true });
+    }),
+
+    route('PATCH', 'admin', '/content/gifs/:id', async ({ params, request }) => {
+      const gif = db.content.get(Number(params.id));
+      if (gif?.contentType !== 'GIF') return fail(404, 'GIF not found');
+      const body = await readJson<ContentImageUpdateRequest>(request);
+      if (body.title !== undefined && body.title !== null) gif.title = body.title;
+      if (body.rating !== undefined && body.rating !== null) gif.rating = body.rating;
+      if (body.captureDate !== undefined) gif.captureDate = body.captureDate;
+      gif.tags = applyNamedUpdate(gif.tags, body.tags, db.tags, newTag).rows;
+      gif.people = applyNamedUpdate(gif.people, body.people, db.people, newPerson).rows;
+      gif.locations = applyNamedUpdate(
+        gif.locations,
+        body.locations,
+        db.locations,
+        newLocation
+      ).rows;
+      applyMembership(gif.id, body.collections);
+      return respond(200, { ...gif, collections: membershipOf(gif.id) });
+    }),
+
+    route('DELETE', 'admin', '/content/gifs/:id', ({ params }) => {
+      const id = Number(params.id);
+      if (db.content.get(id)?.contentType !== 'GIF') return fail(404, 'GIF not found');
+      removeContent(id);
+      return respond(200, { deletedId: id });
+    }),
+
+    route('POST', 'admin', '/content/content', async ({ request }) => {
+      const body = await readJson<{
+        collectionId: number;
+        content: string;
+        format?: ContentTextModel['format'];
+        align?: ContentTextModel['align'];
+      }>(request);
+      const collection = requireCollectionById(String(body.collectionId));
+      const id = nextId();
+      db.content.set(id, {
+        id,
+        contentType: 'TEXT',
+        orderIndex: 0,
+        visible: true,
+        items: [{ type: 'text', value: body.content }],
+        format: body.format ?? 'plain',
+        align: body.align ?? 'left',
+      });
+      addEntry(collection, id);
+      return respond(200, { id, contentType: 'TEXT' });
+    }),
+
+    route('GET', 'admin', '/content/images', ({ url }) => {
+      const matches = allImages().filter(imageFilter(url)).sort(byCaptureDateDesc);
+      return respond(200, springPage(matches, intParam(url, 'page', 0), intParam(url, 'size', 50)));
+    }),
+
+    route('PATCH', 'admin', '/content/images', async ({ request }) => {
+      const updates = await readJson<ContentImageUpdateRequest[]>(request);
+      const created = {
+        tags: [] as IdNameModel[],
+        people: [] as IdNameModel[],
+        locations: [] as LocationModel[],
+        cameras: [] as IdNameModel[],
+        lenses: [] as IdNameModel[],
+        filmTypes: [] as Array<{ id: number; filmTypeName: string; defaultIso: number }>,
+      };
+      const updatedImages: ContentImageModel[] = [];
+      const errors: string[] = [];
+
+      for (const update of updates) {
+        const image = db.content.get(update.id);
+        if (image?.contentType !== 'IMAGE') {
+          errors.push(`Image not found: ${update.id}`);
+          continue;
+        }
+        const scalar = [
+          'title',
+          'caption',
+          'alt',
+          'author',
+          'rating',
+          'blackAndWhite',
+          'isFilm',
+          'shutterSpeed',
+          'focalLength',
+          'fStop',
+          'iso',
+          'filmFormat',
+          'captureDate',
+        ] as const;
+        for (const key of scalar) {
+          if (update[key] !== undefined) Object.assign(image, { [key]: update[key] });
+        }
+
+        if (update.camera?.remove) image.camera = null;
+        else if (update.camera?.prev !== undefined) {
+          image.camera = db.cameras.find(c => c.id === update.camera?.prev) ?? image.camera;
+        } else if (update.camera?.newValue) {
+          const camera = { id: nextId(), name: update.camera.newValue, isFilm: false };
+          db.cameras.push(camera);
+          created.cameras.push(camera);
+          image.camera = camera;
+        }
+        if (update.lens?.remove) image.lens = null;
+        else if (update.lens?.prev !== undefined) {
+          image.lens = db.lenses.find(l => l.id === update.lens?.prev) ?? image.lens;
+        } else if (update.lens?.newValue) {
+          const lens = { id: nextId(), name: update.lens.newValue };
+          db.lenses.push(lens);
+          created.lenses.push(lens);
+          image.lens = lens;
+        }
+        if (update.filmType?.remove) image.filmType = null;
+        else if (update.filmType?.prev !== undefined) {
+          image.filmType = db.filmTypes.find(f => f.id === update.filmType?.prev)?.name ?? null;
+        } else if (update.filmType?.newValue) {
+          const { filmTypeName, defaultIso } = update.filmType.newValue;
+          const filmType = { id: nextId(), name: filmTypeName, filmTypeName, defaultIso };
+          db.filmTypes.push(filmType);
+          created.filmTypes.push(filmType);
+          image.filmType = filmType.name;
+        }
+
+        const tags = applyNamedUpdate(image.tags, update.tags, db.tags, newTag);
+        const people = applyNamedUpdate(image.people, update.people, db.people, newPerson);
+        const locations = applyNamedUpdate(
+          image.locations,
+          update.locations,
+          db.locations,
+          newLocation
+        );
+        image.tags = tags.rows;
+        image.people = people.rows;
+        image.locations = locations.rows;
+        created.tags.push(...tags.created);
+        created.people.push(...people.created);
+        created.locations.push(...locations.created);
+
+        applyMembership(image.id, update.collections);
+        image.updatedAt = nowIso();
+        updatedImages.push(hydrateImage(image));
+      }
+
+      return respond(200, {
+        updatedImages,
+        newMetadata: {
+          tags: created.tags.map(t => ({ id: t.id, tagName: t.name, slug: slugify(t.name) })),
+          people: created.people.map(p => ({
+            id: p.id,
+            personName: p.name,
+            slug: slugify(p.name),
+          })),
+          locations: created.locations,
+          cameras: created.cameras.map(c => ({ id: c.id, cameraName: c.name })),
+          lenses: created.lenses.map(l => ({ id: l.id, lensName: l.name })),
+          filmTypes: created.filmTypes,
+        },
+        ...(errors.length > 0 ? { errors } : {}),
+      });
+    }),
+
+    route('DELETE', 'admin', '/content/images', async ({ request }) => {
+      const { imageIds } = await readJson<{ imageIds: number[] }>(request);
+      const deletedIds = imageIds.filter(id => db.content.get(id)?.contentType === 'IMAGE');
+      for (const id of deletedIds) removeContent(id);
+      return respond(200, { deletedIds });
+    }),
+
+    // ---- ADMIN: metadata --------------------------------------------------
+    route('POST', 'admin', '/metadata/cameras', async ({ request }) => {
+      const body = await readJson<{
+        cameraName?: string;
+        isFilm?: boolean;
+        defaultFilmFormat?: string | null;
+      }>(request);
+      if (!body.cameraName?.trim()) return fail(400, 'cameraName is required');
+      const camera = {
+        id: nextId(),
+        name: body.cameraName.trim(),
+        isFilm: body.isFilm ?? false,
+        defaultFilmFormat: body.defaultFilmFormat ?? null,
+      };
+      db.cameras.push(camera);
+      return respond(200, { id: camera.id, cameraName: camera.name, isFilm: camera.isFilm });
+    }),
+
+    ...(Object.keys(TAXONOMY_TABLES) as TaxonomyKind[]).flatMap(kind => [
+      route('GET', 'admin', `/metadata/${kind}/:id`, ({ params }) =>
+        respond(200, taxonomyDetailOf(kind, requireTaxonomy(kind, params.id)))
+      ),
+
+      route('PUT', 'admin', `/metadata/${kind}/:id`, async ({ params, request }) => {
+        const row = requireTaxonomy(kind, params.id);
+        const { name } = await readJson<{ name?: string }>(request);
+        const trimmed = name?.trim();
+        if (!trimmed) return fail(400, 'name is required');
+        if (taxonomyNameTaken(kind, trimmed, row.id)) return fail(409, `${trimmed} already exists`);
+        if (kind === 'film-types') {
+          for (const image of imageCarriesRows(kind, row)) image.filmType = trimmed;
+        }
+        if (kind === 'tags') {
+          for (const c of db.collections.filter(col => collectionCarries(kind, row, col))) {
+            c.tags = (c.tags ?? []).map(t => (t === row.name ? trimmed : t));
+          }
+        }
+        const previous = { name: row.name, slug: row.slug };
+        row.name = trimmed;
+        if (SLUGGED_KINDS.has(kind)) {
+          row.slug = slugify(trimmed);
+          // Renaming back onto an old slug makes it canonical again rather than a redirect.
+          db.taxonomyAliases = db.taxonomyAliases.filter(
+            a => !(a.kind === kind && a.entityId === row.id && a.slug === row.slug)
+          );
+          if (previous.slug && previous.slug !== row.slug) {
+            db.taxonomyAliases.push({
+              id: nextId(),
+              kind,
+              entityId: row.id,
+              name: previous.name,
+              slug: previous.slug,
+              previous: true,
+            });
+          }
+        }
+        return respond(200, taxonomyDetailOf(kind, row));
+      }),
+
+      route('DELETE', 'admin', `/metadata/${kind}/:id`, ({ params }) => {
+        const row = requireTaxonomy(kind, params.id);
+        const detail = taxonomyDetailOf(kind, row);
+        if (detail.imageCount > 0 || detail.collectionCount > 0) {
+          return fail(409, `${row.name} is still in use`);
+        }
+        const rows = taxonomyRows(kind);
+        rows.splice(rows.indexOf(row), 1);
+        db.taxonomyAliases = db.taxonomyAliases.filter(
+          a => !(a.kind === kind && a.entityId === row.id)
+        );
+        return respond(204);
+      }),
+
+      route('GET', 'admin', `/metadata/${kind}/:id/merge-preview`, ({ params, url }) => {
+        const source = requireTaxonomy(kind, params.id);
+        const target = requireTaxonomy(kind, url.searchParams.get('targetId') ?? undefined);
+        const images = imageCarriesRows(kind, source);
+        const body: TaxonomyMergePreview = {
+          sourceId: source.id,
+          sourceName: source.name,
+          targetId: target.id,
+          targetName: target.name,
+          imageCount: images.filter(i => !imageCarries(kind, target, i)).length,
+          collectionCount: db.collections.filter(c => collectionCarries(kind, source, c)).length,
+          duplicatesCollapsed: images.filter(i => imageCarries(kind, target, i)).length,
+        };
+        return respond(200, body);
+      }),
+
+      route('POST', 'admin', `/metadata/${kind}/:id/merge`, async ({ params, request }) => {
+        const target = requireTaxonomy(kind, params.id);
+        const { sourceId } = await readJson<{ sourceId: number }>(request);
+        const source = requireTaxonomy(kind, String(sourceId));
+        if (source === target) return fail(409, 'Cannot merge an entry into itself');
+        const images = imageCarriesRows(kind, source);
+        const duplicatesCollapsed = images.filter(i => imageCarries(kind, target, i)).length;
+        const movedCollections = db.collections.filter(c =>
+          collectionCarries(kind, source, c)
+        ).length;
+        repointTaxonomy(kind, source, target);
+
+        // The source's alternates follow it, and its own name and slug become the target's.
+        for (const alias of alternatesOf(kind, source.id)) alias.entityId = target.id;
+        db.taxonomyAliases.push({
+          id: nextId(),
+          kind,
+          entityId: target.id,
+          name: source.name,
+          slug: source.slug ?? slugify(source.name),
+          previous: false,
+        });
+        const rows = taxonomyRows(kind);
+        rows.splice(rows.indexOf(source), 1);
+
+        const result: TaxonomyMergeResult = {
+          movedImages: images.length - duplicatesCollapsed,
+          movedCollections,
+          duplicatesCollapsed,
+          target: taxonomyDetailOf(kind, target),
+        };
+        return respond(200, result);
+      }),
+
+      route('POST', 'admin', `/metadata/${kind}/:id/aliases`, async ({ params, request }) => {
+        const row = requireTaxonomy(kind, params.id);
+        const { name } = await readJson<{ name?: string }>(request);
+        const trimmed = name?.trim();
+        if (!trimmed) return fail(400, 'name is required');
+        if (
+          trimmed.toLowerCase() === row.name.toLowerCase() ||
+          taxonomyNameTaken(kind, trimmed, row.id)
+        ) {
+          return fail(409, `${trimmed} is already taken`);
+        }
+        const alias = { id: nextId(), name: trimmed, slug: slugify(trimmed) };
+        db.taxonomyAliases.push({ ...alias, kind, entityId: row.id, previous: false });
+        return respond(201, alias);
+      }),
+
+      route('DELETE', 'admin', `/metadata/${kind}/:id/aliases/:aliasId`, ({ params }) => {
+        const row = requireTaxonomy(kind, params.id);
+        const alias = alternatesOf(kind, row.id).find(
+          a => !a.previous && a.id === Number(params.aliasId)
+        );
+        if (!alias) return fail(404, `Alias not found: ${params.aliasId}`);
+        db.taxonomyAliases = db.taxonomyAliases.filter(a => a !== alias);
+        return respond(204);
+      }),
+    ]),
+
+    // ---- ADMIN: users -----------------------------------------------------
+    route('GET', 'admin', '/users', ({ url }) => {
+      const includePeople = url.searchParams.get('includePeople') === 'true';
+      return respond(
+        200,
+        db.users.filter(u => includePeople || u.status !== 'PERSON').map(adminUserOf)
+      );
+    }),
+
+    route('POST', 'admin', '/users', async ({ request }) => {
+      const body = await readJson<{ email?: string; displayName?: string }>(request);
+      const email = body.email?.trim().toLowerCase();
+      if (!email?.includes('@')) return fail(400, 'A valid email is required');
+      if (db.users.some(u => u.email === email)) return fail(409, 'A user with that email exists');
+      const user: MockUser = {
+        id: nextId(),
+        email,
+        displayName: body.displayName ?? null,
+        status: 'INVITED',
+        description: null,
+        password: null,
+        isAdmin: false,
+      };
+      db.users.push(user);
+      return respond(201, issueInvite(user));
+    }),
+
+    route('GET', 'admin', '/users/:id', ({ params }) =>
+      respond(200, adminUserOf(requireUser(params.id)))
+    ),
+
+    route('PATCH', 'admin', '/users/:id', async ({ params, request }) => {
+      const user = requireUser(params.id);
+      const body = await readJson<{
+        email?: string;
+        displayName?: string | null;
+        status: UserStatus;
+        description?: string | null;
+      }>(request);
+      if (body.email !== undefined) user.email = body.email;
+      if (body.displayName !== undefined) user.displayName = body.displayName;
+      if (body.description !== undefined) user.description = body.description;
+      user.status = body.status;
+      return respond(200, adminUserOf(user));
+    }),
+
+    route('GET', 'admin', '/users/:id/merge-preview', ({ params, url }) => {
+      const source = requireUser(params.id);
+      const target = requireUser(url.searchParams.get('targetId') ?? undefined);
+      const sourceRoles = db.roles.filter(r => r.memberIds.includes(source.id));
+      const body: MergePreview = {
+        sourceId: source.id,
+        sourceName: source.displayName,
+        targetId: target.id,
+        targetName: target.displayName,
+        imageTagCount: 0,
+        collectionCount: sourceRoles.length,
+        duplicatesCollapsed: sourceRoles.filter(r => r.memberIds.includes(target.id)).length,
+      };
+      return respond(200, body);
+    }),
+
+    route('POST', 'admin', '/users/:id/merge', async ({ params, request }) => {
+      const target = requireUser(params.id);
+      const { sourceId } = await readJson<{ sourceId: number }>(request);
+      const source = requireUser(String(sourceId));
+      if (source === target) return fail(400, 'Cannot merge a user into itself');
+      const result: MergeResult = {
+        movedImageTags: 0,
+        movedCollections: 0,
+        duplicatesCollapsed: 0,
+      };
+      for (const role of db.roles.filter(r => r.memberIds.includes(source.id))) {
+        role.memberIds = role.memberIds.filter(id => id !== source.id);
+        if (role.memberIds.includes(target.id)) result.duplicatesCollapsed += 1;
+        else {
+          role.memberIds.push(target.id);
+          result.movedCollections += 1;
+        }
+      }
+      db.users = db.users.filter(u => u !== source);
+      return respond(200, result);
+    }),
+
+    route('POST', 'admin', '/users/:id/invite', ({ params }) => {
+      const user = requireUser(params.id);
+      if (user.status !== 'INVITED') return fail(409, 'User has already accepted');
+      return respond(200, issueInvite(user));
+    }),
+
+    route('POST', 'admin', '/users/:id/upgrade', async ({ params, request }) => {
+      const user = requireUser(params.id);
+      if (user.status !== 'PERSON') return fail(409, 'Only PERSON rows can be upgraded');
+      const { email } = await readJson<{ email?: string }>(request);
+      if (!email?.includes('@')) return fail(400, 'A valid email is required');
+      user.email = email.trim().toLowerCase();
+      user.status = 'INVITED';
+      return respond(200, issueInvite(user));
+    }),
+
+    route('GET', 'admin', '/users/:id/page', ctx =>
+      respond(200, userPageOf(requireUser(ctx.params.id), ctx.viewer))
+    ),
+
+    route('GET', 'admin', '/users/:id/saves/images', ({ params }) => {
+      const ids = db.saves.get(requireUser(params.id).id) ?? [];
+      const images = allImages();
+      return respond(
+        200,
+        ids.flatMap(id => images.filter(i => i.id === id))
+      );
+    }),
+
+    route('GET', 'admin', '/users/:id/follows', ({ params }) =>
+      respond(200, db.follows.get(requireUser(params.id).id) ?? [])
+    ),
+
+    route('GET', 'admin', '/users/:id/roles', ({ params }) => {
+      const user = requireUser(params.id);
+      const rows: UserRoleRow[] = db.roles
+        .filter(r => r.memberIds.includes(user.id))
+        .map(r => ({ roleId: r.id, name: r.name }));
+      return respond(200, rows);
+    }),
+
+    route('PUT', 'admin', '/users/:id/roles/:roleId', ({ params }) => {
+      const user = requireUser(params.id);
+      const role = requireRole(params.roleId);
+      if (!role.memberIds.includes(user.id)) role.memberIds.push(user.id);
+      return respond(204);
+    }),
+
+    route('DELETE', 'admin', '/users/:id/roles/:roleId', ({ params }) => {
+      const role = requireRole(params.roleId);
+      role.memberIds = role.memberIds.filter(id => id !== Number(params.id));
+      return respond(204);
+    }),
+
+    // ---- ADMIN: roles -----------------------------------------------------
+    route('GET', 'admin', '/roles', () => {
+      const rows: RoleSummary[] = db.roles.map(r => ({ id: r.id, name: r.name }));
+      return respond(200, rows);
+    }),
+
+    route('POST', 'admin', '/roles', async ({ request }) => {
+      const { name } = await readJson<{ name?: string }>(request);
+      if (!name?.trim()) return fail(400, 'name is required');
+      if (db.roles.some(r => r.name === name.trim())) return fail(409, 'Role name already exists');
+      const role = { id: nextId(), name: name.trim(), memberIds: [], grants: [] };
+      db.roles.push(role);
+      return respond(200, { id: role.id, name: role.name });
+    }),
+
+    route('GET', 'admin', '/roles/:id', ({ params }) => {
+      const role = requireRole(params.id);
+      const body: RoleDetail = {
+        id: role.id,
+        name: role.name,
+        members: role.memberIds.flatMap(id => {
+          const user = db.users.find(u => u.id === id);
+          return user ? [{ userId: user.id, email: user.email, name: user.displayName }] : [];
+        }),
+        collections: role.grants.flatMap(g => {
+          const collection = findCollectionById(g.collectionId);
+          return collection
+            ? [{ collectionId: collection.id, title: collection.title, level: g.level }]
+            : [];
+        }),
+      };
+      return respond(200, body);
+    }),
+
+    route('DELETE', 'admin', '/roles/:id', ({ params }) => {
+      const role = requireRole(params.id);
+      db.roles = db.roles.filter(r => r !== role);
+      return respond(204);
+    }),
+
+    route('PUT', 'admin', '/roles/:id/collections/:collectionId', async ({ params, request }) => {
+      const role = requireRole(params.id);
+      const collection = requireCollectionById(params.collectionId);
+      const { level } = await readJson<{ level?: AccessLevel }>(request);
+      if (!level || !(level in ROLE_RANK)) return fail(400, 'level is required');
+      role.grants = [
+        ...role.grants.filter(g => g.collectionId !== collection.id),
+        { collectionId: collection.id, level },
+      ];
+      return respond(204);
+    }),
+
+    route('DELETE', 'admin', '/roles/:id/collections/:collectionId', ({ params }) => {
+      const role = requireRole(params.id);
+      role.grants = role.grants.filter(g => g.collectionId !== Number(params.collectionId));
+      return respond(204);
+    }),
+
+    route('PUT', 'admin', '/roles/:id/members/:userId', ({ params }) => {
+      const role = requireRole(params.id);
+      const user = requireUser(params.userId);
+      if (!role.memberIds.includes(user.id)) role.memberIds.push(user.id);
+      return respond(204);
+    }),
+
+    route('DELETE', 'admin', '/roles/:id/members/:userId', ({ params }) => {
+      const role = requireRole(params.id);
+      role.memberIds = role.memberIds.filter(id => id !== Number(params.userId));
+      return respond(204);
+    }),
+
+    // ---- ADMIN: inbox, home tiles, cache ----------------------------------
+    route('GET', 'admin', '/messages', ({ url }) => {
+      const limit = intParam(url, 'limit', 50);
+      const offset = intParam(url, 'offset', 0);
+      const newestFirst = [...db.messages].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      const body: AdminMessageList = {
+        messages: newestFirst.slice(offset, offset + limit),
+        total: db.messages.length,
+        limit,
+        offset,
+      };
+      return respond(200, body);
+    }),
+
+    route('DELETE', 'admin', '/messages/:id', ({ params }) => {
+      const before = db.messages.length;
+      db.messages = db.messages.filter(m => m.id !== Number(params.id));
+      return db.messages.length === before ? fail(404, 'Message not found') : respond(204);
+    }),
+
+    // Change log: filtered and paged here, like the backend, so the panel's filters reach rows
+    // past its first page. Read state is per admin; an anonymous ('open') admin reads as id 0.
+    route('GET', 'admin', '/change-log', ({ url, viewer }) => {
+      const limit = intParam(url, 'limit', 50);
+      const offset = intParam(url, 'offset', 0);
+      const collectionId = url.searchParams.get('collectionId');
+      const actor = url.searchParams.get('actor');
+      const changeType = url.searchParams.get('changeType') as ChangeType | null;
+      const seenThrough = db.changeLogSeen.get(viewer?.id ?? 0) ?? 0;
+      const all: ChangeLogEntry[] = [...db.changeLog]
+        .reverse()
+        .map(entry => ({ ...entry, seen: entry.id <= seenThrough }));
+      const matching = all.filter(
+        entry =>
+          (collectionId === null || entry.collectionId === Number(collectionId)) &&
+          (actor === null || entry.actorEmail === actor) &&
+          (changeType === null || entry.changeType === changeType)
+      );
+      const collections = new Map<number, string>();
+      for (const entry of all) {
+        if (entry.collectionId !== null)
+          collections.set(entry.collectionId, entry.collectionTitle ?? '');
+      }
+      const body: ChangeLogPage = {
+        entries: matching.slice(offset, offset + limit),
+        total: matching.length,
+        unseen: all.filter(entry => !entry.seen).length,
+        collections: [...collections].map(([id, title]) => ({ id, title })),
+        actors: [...new Set(all.map(entry => entry.actorEmail))].sort(),
+      };
+      return respond(200, body);
+    }),
+
+    route('POST', 'admin', '/change-log/seen', async ({ request, viewer }) => {
+      const { throughId } = await readJson<{ throughId: number }>(request);
+      db.changeLogSeen.set(viewer?.id ?? 0, throughId);
+      return respond(204);
+    }),
+
+    route('POST', 'admin', '/change-log/:id/revert', ({ params, viewer }) => {
+      const entry = db.changeLog.find(e => e.id === Number(params.id));
+      if (!entry) return fail(404, 'Change not found');
+      if (!entry.revertible || entry.revertedAt) return fail(409, 'Change is no longer revertible');
+      const row = entry.contentId === null ? undefined : db.content.get(entry.contentId);
+      if (row && entry.field && entry.field in row) {
+        (row as unknown as Record<string, unknown>)[entry.field] = entry.before;
+      }
+      entry.revertedAt = new Date().toISOString();
+      entry.revertible = false;
+      db.changeLog.push({
+        ...entry,
+        id: nextId(),
+        actorEmail: viewer?.email ?? SEED_ACCOUNTS.admin.email,
+        actorIsAdmin: true,
+        before: entry.after,
+        after: entry.before,
+        createdAt: entry.revertedAt,
+        revertedAt: null,
+        revertible: true,
+      });
+      const seenThrough = db.changeLogSeen.get(viewer?.id ?? 0) ?? 0;
+      return respond(200, { ...entry, seen: entry.id <= seenThrough });
+    }),
+
+    route('GET', 'admin', '/admin-home/tiles', () => respond(200, db.homeTiles)),
+
+    route('POST', 'admin', '/cache/clear', () => respond(200, { cleared: true })),
+
+    // ---- EDIT -------------------------------------------------------------
+    route('PATCH', 'edit', '/collections/:id/rating', async ({ params, request }) => {
+      const collection = requireCollectionById(params.id);
+      const { rating } = await readJson<{ rating: number | null }>(request);
+      if (rating !== null && (rating < 0 || rating > 5)) return fail(400, 'rating must be 0-5');
+      collection.rating = rating ?? undefined;
+      return respond(204);
+    }),
+
+    route('POST', 'edit', '/collections/:id/reorder', async ctx => {
+      const collection = requireCollectionById(ctx.params.id);
+      const { reorders } = await readJson<{
+        reorders: Array<{ contentId: number; newOrderIndex: number }>;
+      }>(ctx.request);
+      for (const { contentId, newOrderIndex } of reorders) {
+        const entry = collection.entries.find(e => e.contentId === contentId);
+        if (!entry) return fail(400, `Content ${contentId} is not in collection ${collection.id}`);
+        entry.orderIndex = newOrderIndex;
+      }
+      collection.entries.sort((a, b) => a.orderIndex - b.orderIndex);
+      for (const [index, entry] of collection.entries.entries()) entry.orderIndex = index;
+      return respond(200, adminModelOf(collection, ctx.viewer));
+    }),
+
+    // ---- AUTH -------------------------------------------------------------
+    route('POST', 'auth', '/login', async ({ request }) => {
+      const { email, password } = await readJson<{ email?: string; password?: string }>(request);
+      const normalized = email?.trim().toLowerCase() ?? '';
+      const key = `login:${normalized}`;
+      if ((attempts.get(key) ?? 0) >= rateLimit) {
+        return fail(429, 'Too many sign-in attempts. Please try again later.');
+      }
+      const user = db.users.find(u => u.email === normalized);
+      if (!user || user.status !== 'ACTIVE' || !user.password || user.password !== password) {
+        spendAttempt(key, rateLimit);
+        return fail(401, 'Invalid email or password');
+      }
+      attempts.delete(key);
+      return respond(204, undefined, [startSession(user, request)]);
+    }),
+
+    route('POST', 'auth', '/logout', ({ cookies }) => {
+      const token = cookies.get(SESSION_COOKIE);
+      if (token) sessions.delete(token);
+      return respond(204, undefined, [clearCookie(SESSION_COOKIE)]);
+    }),
+
+    route('GET', 'auth', '/me', ctx => {
+      const viewer = requireViewer(ctx);
+      const body: MeResponse = {
+        email: viewer.email ?? '',
+        isAdmin: viewer.isAdmin,
+        mfaSatisfied: requireSession(ctx).mfaSatisfied,
+        galleries: membershipsOf(viewer),
+      };
+      return respond(200, body);
+    }),
+
+    route('POST', 'auth', '/webauthn/register/start', ctx => {
+      const viewer = requireViewer(ctx);
+      return respond(200, {
+        challenge: issueChallenge('register', viewer.id),
+        rp: { id: 'localhost', name: 'ezac' },
+        user: {
+          id: Buffer.from(String(viewer.id)).toString('base64url'),
+          name: viewer.email ?? '',
+          displayName: viewer.displayName ?? viewer.email ?? '',
+        },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+        authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' },
+        excludeCredentials: passkeysOf(viewer.id).map(p => ({ id: p.id, type: 'public-key' })),
+      });
+    }),
+
+    route('POST', 'auth', '/webauthn/register/finish', async ctx => {
+      const viewer = requireViewer(ctx);
+      const body = await readJson<{ id?: string; response?: { clientDataJSON?: string } }>(
+        ctx.request
+      );
+      const challenge = challengeOf(body);
+      const issued = challenges.get(challenge);
+      challenges.delete(challenge);
+      if (issued?.ceremony !== 'register' || issued.userId !== viewer.id || !body.id) {
+        return fail(400, 'Passkey registration failed');
+      }
+      if (db.passkeys.some(p => p.id === body.id)) {
+        return fail(409, 'This passkey is already registered');
+      }
+      db.passkeys.push({
+        id: body.id,
+        userId: viewer.id,
+        nickname: null,
+        createdAt: nowIso(),
+        lastUsedAt: null,
+      });
+      return respond(204);
+    }),
+
+    route('POST', 'auth', '/webauthn/login/start', async ({ request }) => {
+      const { email } = await readJson<{ email?: string }>(request);
+      const normalized = email?.trim().toLowerCase() ?? '';
+      // The password limiter's key, so the two sign-in paths share one budget. A ceremony counts
+      // when it starts, since an abandoned one never reaches finish; a successful finish clears it.
+      const key = `login:${normalized}`;
+      if ((attempts.get(key) ?? 0) >= rateLimit) {
+        return fail(429, 'Too many sign-in attempts. Please try again later.');
+      }
+      spendAttempt(key, rateLimit);
+      const user = db.users.find(u => u.email === normalized && u.status === 'ACTIVE');
+      return respond(200, assertionOptions('login', user));
+    }),
+
+    route('POST', 'auth', '/webauthn/login/finish', async ({ request }) => {
+      const body = await readJson<{ id?: string }>(request);
+      const { user } = verifyAssertion('login', body);
+      attempts.delete(`login:${user.email ?? ''}`);
+      return respond(204, undefined, [startSession(user, request, true)]);
+    }),
+
+    route('GET', 'auth', '/webauthn/credentials', ctx =>
+      respond(200, passkeysOf(requireViewer(ctx).id).map(passkeyViewOf))
+    ),
+
+    route('PATCH', 'auth', '/webauthn/credentials/:id', async ctx => {
+      const passkey = ownPasskey(requireViewer(ctx), ctx.params.id);
+      const { nickname } = await readJson<{ nickname?: string | null }>(ctx.request);
+      passkey.nickname = nickname?.trim() || null;
+      return respond(200, passkeyViewOf(passkey));
+    }),
+
+    route('DELETE', 'auth', '/webauthn/credentials/:id', ctx => {
+      const passkey = ownPasskey(requireViewer(ctx), ctx.params.id);
+      db.passkeys = db.passkeys.filter(p => p !== passkey);
+      return respond(204);
+    }),
+
+    route('GET', 'auth', '/sessions', ctx => {
+      const current = requireSession(ctx);
+      const body: AuthSession[] = [...sessions.values()]
+        .filter(session => session.userId === current.userId)
+        .map(({ id, device, createdAt, lastSeenAt }) => ({
+          id,
+          device,
+          createdAt,
+          lastSeenAt,
+          current: id === current.id,
+        }));
+      return respond(200, body);
+    }),
+
+    route('POST', 'auth', '/sessions/revoke-others', ctx => {
+      const current = requireSession(ctx);
+      for (const [token, session] of sessions) {
+        if (session.userId === current.userId && session.id !== current.id) sessions.delete(token);
+      }
+      return respond(204);
+    }),
+
+    route('GET', 'auth', '/mfa', ctx => {
+      const viewer = requireViewer(ctx);
+      const factor = mfaOf(viewer);
+      const body: MfaStatus = {
+        totpEnabled: Boolean(factor?.totpSecret),
+        passkeyCount: passkeysOf(viewer.id).length,
+        recoveryCodesRemaining: factor?.totpSecret ? factor.recoveryCodes.length : 0,
+      };
+      return respond(200, body);
+    }),
+
+    route('POST', 'auth', '/mfa/totp/start', ctx => {
+      const viewer = requireViewer(ctx);
+      const factor = mfaOf(viewer) ?? {
+        totpSecret: null,
+        pendingTotpSecret: null,
+        recoveryCodes: [],
+      };
+      if (factor.totpSecret) return fail(409, 'An authenticator app is already enrolled');
+      factor.pendingTotpSecret = randomUUID().replaceAll('-', '').slice(0, 16).toUpperCase();
+      db.mfa.set(viewer.id, factor);
+      const label = encodeURIComponent(`ezac:${viewer.email ?? ''}`);
+      const body: TotpEnrollment = {
+        secret: factor.pendingTotpSecret,
+        otpauthUrl: `otpauth://totp/${label}?secret=${factor.pendingTotpSecret}&issuer=ezac`,
+        qrCodeDataUri: `data:image/png;base64,${PLACEHOLDER_PNG.toString('base64')}`,
+      };
+      return respond(200, body);
+    }),
+
+    route('POST', 'auth', '/mfa/totp/confirm', async ctx => {
+      const session = requireSession(ctx);
+      const factor = mfaOf(requireViewer(ctx));
+      const { code } = await readJson<{ code?: string }>(ctx.request);
+      if (!factor?.pendingTotpSecret) return fail(400, 'No enrollment in progress');
+      if (code !== SEED_MFA.totp) return fail(400, 'That code is not valid');
+      factor.totpSecret = factor.pendingTotpSecret;
+      factor.pendingTotpSecret = null;
+      // Same shape as an access code; only the shape matters to the frontend.
+      factor.recoveryCodes = Array.from({ length: 8 }, newAccessCode);
+      session.mfaSatisfied = true;
+      const body: TotpConfirmation = { recoveryCodes: [...factor.recoveryCodes] };
+      return respond(200, body);
+    }),
+
+    route('POST', 'auth', '/mfa/verify', async ctx => {
+      const session = requireSession(ctx);
+      const viewer = requireViewer(ctx);
+      const factor = mfaOf(viewer);
+      const { code } = await readJson<{ code?: string }>(ctx.request);
+      const key = `mfa:${viewer.id}`;
+      if ((attempts.get(key) ?? 0) >= rateLimit) {
+        return fail(429, 'Too many attempts. Please try again later.');
+      }
+      const recoveryIndex = factor?.recoveryCodes.indexOf(code ?? '') ?? -1;
+      if (!factor?.totpSecret || (code !== SEED_MFA.totp && recoveryIndex === -1)) {
+        spendAttempt(key, rateLimit);
+        return fail(401, 'That code is not valid');
+      }
+      // A recovery code works once.
+      if (recoveryIndex !== -1) factor.recoveryCodes.splice(recoveryIndex, 1);
+      attempts.delete(key);
+      session.mfaSatisfied = true;
+      return respond(204);
+    }),
+
+    route('POST', 'auth', '/mfa/webauthn/start', ctx =>
+      respond(200, assertionOptions('mfa', requireViewer(ctx)))
+    ),
+
+    route('POST', 'auth', '/mfa/webauthn/finish', async ctx => {
+      const session = requireSession(ctx);
+      const body = await readJson<{ id?: string }>(ctx.request);
+      const { user } = verifyAssertion('mfa', body);
+      if (user.id !== session.userId) return fail(401, 'Passkey verification failed');
+      session.mfaSatisfied = true;
+      return respond(204);
+    }),
+
+    route('GET', 'auth', '/invite/:token', ({ params }) => {
+      const invite = liveInvite(params.token);
+      const user = requireUser(String(invite.userId));
+      const body: InvitePreview = { email: user.email ?? '', displayName: user.displayName };
+      return respond(200, body);
+    }),
+
+    route('POST', 'auth', '/invite/:token/accept', async ({ params, request }) => {
+      const invite = liveInvite(params.token);
+      const user = requireUser(String(invite.userId));
+      const body = await readJson<{ displayName?: string; password?: string }>(request);
+      if (!body.password || body.password.length < 8) {
+        return fail(400, 'Password must be at least 8 characters');
+      }
+      user.displayName = body.displayName?.trim() || user.displayName;
+      user.password = body.password;
+      user.status = 'ACTIVE';
+      invite.usedAt = nowIso();
+      return respond(204, undefined, [startSession(user, request)]);
+    }),
+
+    // ---- PUBLIC -----------------------------------------------------------
+    route('POST', 'public', '/messages', async ({ request }) => {
+      const { email, message } = await readJson<{ email?: string; message?: string }>(request);
+      if (!email?.includes('@')) return fail(400, 'Please enter a valid email address.');
+      if (!message?.trim()) return fail(400, 'Message cannot be empty.');
+      spendAttempt('messages', messageRateLimit);
+      const row = { id: nextId(), email, message: message.trim(), createdAt: nowIso() };
+      db.messages.push(row);
+      return respond(201, { id: row.id, createdAt: row.createdAt });
+    }),
+  ];
+
+  // --------------------------------------------------------------------------
+  // Dispatch
+  // --------------------------------------------------------------------------
+
+  /** Enforce the admin/edit perimeter described in the module doc. */
+  const guard = (channel: MockChannel, ctx: RouteContext): Response | null => {
+    if (adminAccess === 'open' || (channel !== 'admin' && channel !== 'edit')) return null;
+    if (!ctx.viewer) return fail(401, 'Not signed in');
+    if (isAdmin(ctx.viewer)) return null;
+    if (channel === 'edit' && roleOn(ctx.viewer, Number(ctx.params.id)) === 'COLLABORATOR') {
+      return null;
+    }
+    return fail(403, 'Forbidden');
+  };
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    if (request.method === 'GET' && url.pathname.startsWith('/media/')) {
+      return binary(PLACEHOLDER_PNG, 'image/png');
+    }
+
+    const match = /^\/api\/(read|admin|edit|auth|public)(\/.*)$/.exec(url.pathname);
+    if (!match) return fail(404, `No mock route for ${url.pathname}`);
+    const channel = match[1] as MockChannel;
+    const path = match[2] ?? '/';
+
+    const cookies = parseCookies(request.headers.get('cookie'));
+    const session = sessions.get(cookies.get(SESSION_COOKIE) ?? '') ?? null;
+    if (session) session.lastSeenAt = nowIso();
+    const viewer = db.users.find(u => u.id === session?.userId && u.status === 'ACTIVE') ?? null;
+
+    for (const candidate of routes) {
+      if (candidate.channel !== channel || candidate.method !== request.method) continue;
+      const found = candidate.pattern.exec(path);
+      if (!found) continue;
+      const params: Record<string, string> = {};
+      for (const [index, key] of candidate.keys.entries()) {
+        params[key] = decodeURIComponent(found[index + 1] ?? '');
+      }
+      const ctx: RouteContext = { request, url, params, cookies, viewer, session };
+      const denied = guard(channel, ctx);
+      if (denied) return denied;
+      try {
+        return await candidate.handler(ctx);
+      } catch (error) {
+        if (error instanceof MockHttpError) return fail(error.status, error.message, error.code);
+        throw error;
+      }
+    }
+    return fail(404, `No mock route for ${request.method} /api/${channel}${path}`);
+  };
+
+  return {
+    get db() {
+      return db;
+    },
+    handle,
+    reset() {
+      db = createSeedDb(mediaBaseUrl);
+      sessions.clear();
+      challenges.clear();
+      galleryTokens.clear();
+      galleryTokenCodes.clear();
+      exportJobs.clear();
+      attempts.clear();
+      uploads.clear();
+      uploadedHashes.clear();
+    },
+  };
+}
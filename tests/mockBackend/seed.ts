@@ -0,0 +1,707 @@
+/**
+ * Seed data for the mock backend.
+ *
+ * Built from the same factories the unit tests use (`tests/fixtures/contentFixtures.ts`) so a
+ * fixture shape change reaches the mock in the same commit, rather than the mock quietly serving a
+ * DTO the types no longer describe. Deliberately free of `jest.*` — the dev server imports this too.
+ *
+ * The store is normalized the way the backend's tables are, not the way its DTOs are: content rows
+ * live once in {@link MockDb.content}, and a collection holds ordered {@link MockEntry} joins onto
+ * them. DTOs (`CollectionModel`, `ContentImageModel.collections`, collection-ref blocks) are
+ * assembled per request in `mockBackend.ts`, so an edit to one image shows up in every collection
+ * that holds it — the property the manage page's optimistic updates rely on.
+ */
+
+import { type AdminHomeTileApi } from '@/app/lib/api/adminHome';
+import { type AdminMessageView } from '@/app/lib/api/messages';
+import { type ChangeLogEntry } from '@/app/types/ChangeLog';
+import { type CollectionModel, type LocationModel } from '@/app/types/Collection';
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import { type AnyContentModel, type ContentImageModel } from '@/app/types/Content';
+import { type GalleryAccessCode, type GalleryAccessLogEntry } from '@/app/types/GalleryAccess';
+import { type ImageCommentThread } from '@/app/types/ImageComments';
+import {
+  type ContentCameraModel,
+  type ContentFilmTypeModel,
+  type ContentLensModel,
+  type ContentPersonModel,
+  type ContentTagModel,
+  type FilmFormatDTO,
+} from '@/app/types/Metadata';
+import { type AccessLevel } from '@/app/types/Role';
+import { type TaxonomyAlias, type TaxonomyKind } from '@/app/types/Taxonomy';
+import { type UserStatus } from '@/app/types/User';
+import {
+  createCollectionModel,
+  createGifContent,
+  createImageContent,
+  createTextContent,
+} from '@/tests/fixtures/contentFixtures';
+
+/** One row of the `collection_content` join: which content sits where in a collection. */
+export interface MockEntry {
+  contentId: number;
+  orderIndex: number;
+  visible: boolean;
+}
+
+/**
+ * A collection row. `content` is never stored — it is assembled from `entries` on read, paged, and
+ * withheld (`null`) from a viewer who has not passed the password gate.
+ */
+export interface MockCollection extends Omit<CollectionModel, 'content'> {
+  galleryPassword: string | null;
+  recipientEmails: string[];
+  entries: MockEntry[];
+  siblingIds: number[];
+}
+
+export interface MockUser {
+  id: number;
+  email: string | null;
+  displayName: string | null;
+  status: UserStatus;
+  description: string | null;
+  /** Plaintext, because this is a mock. `null` for PERSON and not-yet-accepted INVITED rows. */
+  password: string | null;
+  isAdmin: boolean;
+}
+
+export interface MockRole {
+  id: number;
+  name: string;
+  memberIds: number[];
+  grants: Array<{ collectionId: number; level: AccessLevel }>;
+}
+
+export interface MockInvite {
+  token: string;
+  userId: number;
+  expiresAt: string;
+  usedAt: string | null;
+}
+
+export interface MockShareLink {
+  id: number;
+  ownerId: number;
+  name: string;
+  token: string;
+  createdAt: string;
+  expiresAt: string | null;
+  maxViews: number | null;
+  viewCount: number;
+  lastUsedAt: string | null;
+  /** Null shows everything the owner shares. */
+  collectionIds: number[] | null;
+}
+
+/** A per-recipient gallery code; `status` is derived from the clock and the download count. */
+export type MockGalleryAccessCode = Omit<GalleryAccessCode, 'status'> & { collectionId: number };
+
+/** One access-log row per collection and code (`codeId` null for the shared password). */
+export type MockGalleryAccessVisit = GalleryAccessLogEntry & { collectionId: number };
+
+/**
+ * An alternate slug of a vocabulary entry: an alias the admin added (`previous: false`), or the
+ * slug it had before a rename (`previous: true`, surfaced as `previousSlugs` rather than aliases).
+ */
+export interface MockTaxonomyAlias extends TaxonomyAlias {
+  kind: TaxonomyKind;
+  entityId: number;
+  previous: boolean;
+}
+
+export type MockChangeLogEntry = Omit<ChangeLogEntry, 'seen'>;
+
+/**
+ * A user's authenticator-app factor. `totpSecret` is set once enrollment is confirmed; a started
+ * enrollment waits in `pendingTotpSecret`. Recovery codes are spent by removal.
+ */
+export interface MockMfa {
+  totpSecret: string | null;
+  pendingTotpSecret: string | null;
+  recoveryCodes: string[];
+}
+
+/**
+ * A registered passkey. Only the credential id is kept: the mock checks which passkey answered a
+ * challenge, never its signature.
+ */
+export interface MockPasskey {
+  id: string;
+  userId: number;
+  nickname: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface MockFeedToken {
+  ownerId: number;
+  token: string;
+  createdAt: string;
+}
+
+export interface MockSelect {
+  userId: number;
+  collectionId: number;
+  contentId: number;
+}
+
+/** A client's submitted proofing picks; the row's presence is the lock. */
+export interface MockProofingSubmission {
+  userId: number;
+  collectionId: number;
+  submittedAt: string;
+}
+
+export interface MockDb {
+  collections: MockCollection[];
+  /** Every content row by id: images, GIFs, text blocks and collection-ref blocks. */
+  content: Map<number, AnyContentModel>;
+  tags: ContentTagModel[];
+  people: ContentPersonModel[];
+  locations: LocationModel[];
+  cameras: ContentCameraModel[];
+  lenses: ContentLensModel[];
+  filmTypes: ContentFilmTypeModel[];
+  filmFormats: FilmFormatDTO[];
+  taxonomyAliases: MockTaxonomyAlias[];
+  users: MockUser[];
+  roles: MockRole[];
+  invites: MockInvite[];
+  messages: AdminMessageView[];
+  /** Stored newest last, without `seen` — read state is per admin, in `changeLogSeen`. */
+  changeLog: MockChangeLogEntry[];
+  /** Admin id → the newest change-log id they marked read. */
+  changeLogSeen: Map<number, number>;
+  /** user id → authenticator-app factor; absent for a user who never enrolled. */
+  mfa: Map<number, MockMfa>;
+  passkeys: MockPasskey[];
+  selects: MockSelect[];
+  proofingSubmissions: MockProofingSubmission[];
+  /** Stored as the DTO: author name and admin flag are fixed when a comment is written. */
+  imageComments: ImageCommentThread[];
+  saves: Map<number, number[]>;
+  follows: Map<number, number[]>;
+  galleryAccessCodes: MockGalleryAccessCode[];
+  galleryAccessLog: MockGalleryAccessVisit[];
+  shareLinks: MockShareLink[];
+  /** Owner id → granted galleries they opted into their share; applies to all of their links. */
+  shareOptIns: Map<number, number[]>;
+  feedTokens: MockFeedToken[];
+  homeTiles: AdminHomeTileApi[];
+  /** Monotonic id source shared by every table, so ids never collide across entity kinds. */
+  nextId: number;
+}
+
+/** Known credentials, exported so tests and the README speak about the same accounts. */
+export const SEED_ACCOUNTS = {
+  admin: { email: 'admin@example.com', password: 'admin-password' },
+  client: { email: 'client@example.com', password: 'client-password' },
+  viewer: { email: 'viewer@example.com', password: 'viewer-password' },
+} as const;
+
+/** Password for the seeded client gallery (`smith-wedding`). */
+export const SEED_GALLERY_PASSWORD = 'letmein';
+
+/** Access codes on the seeded client gallery, one usable and one past its expiry. */
+export const SEED_ACCESS_CODES = {
+  active: 'K7QX-2M9P',
+  expired: 'EXPD-0000',
+} as const;
+
+/** Invite tokens in each lifecycle state the invite page distinguishes. */
+export const SEED_INVITES = {
+  valid: 'invite-valid',
+  used: 'invite-used',
+  expired: 'invite-expired',
+} as const;
+
+/** A live share token owned by the seeded client. */
+export const SEED_SHARE_TOKEN = 'share-client';
+
+/** Private following-feed token for the seeded viewer (who follows `seattle-nights`). */
+export const SEED_FEED_TOKEN = 'feed-viewer';
+
+/**
+ * Second-factor codes for the seeded admin, who has an authenticator app enrolled. The mock does
+ * no time-based maths: `totp` is the one code any enrolled or enrolling app "produces".
+ */
+export const SEED_MFA = {
+  totp: '123456',
+  recovery: ['RCVR-0001', 'RCVR-0002'],
+} as const;
+
+const TAGS: ContentTagModel[] = [
+  { id: 1, name: 'film', slug: 'film' },
+  { id: 2, name: 'portra', slug: 'portra' },
+  { id: 3, name: 'night', slug: 'night' },
+  { id: 4, name: 'city', slug: 'city' },
+  { id: 5, name: 'wedding', slug: 'wedding' },
+  { id: 6, name: 'landscape', slug: 'landscape' },
+];
+
+const PEOPLE: ContentPersonModel[] = [
+  { id: 11, name: 'Zac' },
+  { id: 12, name: 'Ana' },
+  { id: 13, name: 'Sam Smith' },
+];
+
+const LOCATIONS: LocationModel[] = [
+  { id: 21, name: 'Seattle', slug: 'seattle' },
+  { id: 22, name: 'Portland', slug: 'portland' },
+  { id: 23, name: 'Olympic Peninsula', slug: 'olympic-peninsula' },
+];
+
+const CAMERAS: ContentCameraModel[] = [
+  { id: 31, name: 'Sony A7III', isFilm: false, defaultFilmFormat: null },
+  { id: 32, name: 'Pentax 67', isFilm: true, defaultFilmFormat: 'MM_120' },
+];
+
+const LENSES: ContentLensModel[] = [
+  { id: 41, name: 'FE 35mm F1.8' },
+  { id: 42, name: 'SMC 105mm F2.4' },
+];
+
+const FILM_TYPES: ContentFilmTypeModel[] = [
+  { id: 51, name: 'Kodak Portra 400', filmTypeName: 'KODAK_PORTRA_400', defaultIso: 400 },
+];
+
+const FILM_FORMATS: FilmFormatDTO[] = [
+  { name: 'MM_35', displayName: '35mm' },
+  { name: 'MM_120', displayName: '120' },
+];
+
+const byId = <T extends { id: number }>(rows: readonly T[], id: number): T => {
+  const row = rows.find(r => r.id === id);
+  if (!row) throw new Error(`seed: no row with id ${id}`);
+  return row;
+};
+
+interface SeedImageSpec {
+  film?: boolean;
+  tags?: number[];
+  people?: number[];
+  location?: number;
+  rating?: number;
+  vertical?: boolean;
+}
+
+/**
+ * Build one image from the shared fixture factory, re-pointed at the mock's own media route so
+ * `next/image` (which only allows `localhost` and CloudFront) can load it in `next dev`.
+ */
+function seedImage(
+  id: number,
+  day: number,
+  mediaBaseUrl: string,
+  spec: SeedImageSpec
+): ContentImageModel {
+  const vertical = spec.vertical ?? id % 3 === 0;
+  const camera = byId(CAMERAS, spec.film ? 32 : 31);
+  return createImageContent(id, {
+    imageUrl: `${mediaBaseUrl}/media/image-${id}.png`,
+    imageWidth: vertical ? 1080 : 1920,
+    imageHeight: vertical ? 1920 : 1080,
+    aspectRatio: vertical ? 1080 / 1920 : 1920 / 1080,
+    rating: spec.rating ?? (id % 5) + 1,
+    isFilm: spec.film ?? false,
+    filmType: spec.film ? 'Kodak Portra 400' : null,
+    filmFormat: spec.film ? 'MM_120' : null,
+    blackAndWhite: id % 7 === 0,
+    camera,
+    lens: byId(LENSES, spec.film ? 42 : 41),
+    iso: spec.film ? 400 : 800,
+    fStop: spec.film ? 'f/2.4' : 'f/1.8',
+    shutterSpeed: '1/125',
+    focalLength: spec.film ? '105mm' : '35mm',
+    rawFileName: `DSC_${String(id).padStart(4, '0')}.ARW`,
+    captureDate: `2024-0${(day % 9) + 1}-1${day % 10}T18:00:00Z`,
+    createdAt: '2024-10-01T00:00:00Z',
+    updatedAt: '2024-10-01T00:00:00Z',
+    tags: (spec.tags ?? []).map(tagId => byId(TAGS, tagId)),
+    people: (spec.people ?? []).map(personId => byId(PEOPLE, personId)),
+    locations: spec.location ? [byId(LOCATIONS, spec.location)] : [],
+  });
+}
+
+const entriesOf = (ids: readonly number[]): MockEntry[] =>
+  ids.map((contentId, orderIndex) => ({ contentId, orderIndex, visible: true }));
+
+function seedCollection(
+  id: number,
+  overrides: Partial<MockCollection> & Pick<MockCollection, 'slug' | 'title' | 'entries'>
+): MockCollection {
+  const { content: _content, ...base } = createCollectionModel(id, {
+    visibility: CollectionVisibility.LISTED,
+    displayMode: 'ORDERED',
+    rowsWide: 4,
+    coverImage: null,
+    locations: [],
+    tags: [],
+    people: [],
+  });
+  return {
+    ...base,
+    galleryPassword: null,
+    recipientEmails: [],
+    siblingIds: [],
+    ...overrides,
+  };
+}
+
+/**
+ * A fresh database. Every call returns new objects, so a test that mutates the store cannot leak
+ * into the next one — `createMockBackend()` per test (or `backend.reset()`) is the whole isolation
+ * story.
+ */
+export function createSeedDb(mediaBaseUrl = 'http://localhost:8080'): MockDb {
+  const content = new Map<number, AnyContentModel>();
+  const add = (item: AnyContentModel) => {
+    content.set(item.id, item);
+    return item.id;
+  };
+
+  // 1000-range: Seattle at night, digital. Enough rows that page 2 of a 12-per-page read exists.
+  const seattleIds = Array.from({ length: 18 }, (_, i) =>
+    add(
+      seedImage(1001 + i, i, mediaBaseUrl, {
+        tags: i % 2 === 0 ? [3, 4] : [4],
+        people: i % 4 === 0 ? [11] : [],
+        location: 21,
+      })
+    )
+  );
+  const seattleText = add(
+    createTextContent(1100, {
+      items: [{ type: 'description', value: 'Long exposures around the waterfront.' }],
+    })
+  );
+  const seattleGif = add(
+    createGifContent(1101, {
+      gifUrl: `${mediaBaseUrl}/media/gif-1101.png`,
+      captureDate: '2024-03-12T20:00:00Z',
+    })
+  );
+
+  // 2000-range: film portraits, a blog entry.
+  const portraIds = Array.from({ length: 10 }, (_, i) =>
+    add(
+      seedImage(2001 + i, i + 3, mediaBaseUrl, {
+        film: true,
+        tags: [1, 2],
+        people: i % 2 === 0 ? [12] : [11, 12],
+        location: 22,
+        vertical: true,
+      })
+    )
+  );
+
+  // 3000-range: the client gallery.
+  const weddingIds = Array.from({ length: 12 }, (_, i) =>
+    add(
+      seedImage(3001 + i, i + 5, mediaBaseUrl, {
+        tags: [5],
+        people: [13],
+        location: 21,
+      })
+    )
+  );
+
+  // 4000-range: a hidden work-in-progress.
+  const draftIds = Array.from({ length: 3 }, (_, i) =>
+    add(seedImage(4001 + i, i, mediaBaseUrl, { tags: [6], location: 23 }))
+  );
+
+  const coverOf = (id: number) => content.get(id) as ContentImageModel;
+
+  const seattle = seedCollection(101, {
+    slug: 'seattle-nights',
+    title: 'Seattle Nights',
+    description: 'A winter of long exposures.',
+    collectionDate: '2024-03-01',
+    rating: 5,
+    coverImage: coverOf(1001),
+    locations: [byId(LOCATIONS, 21)],
+    tags: ['night', 'city'],
+    people: [byId(PEOPLE, 11)],
+    entries: entriesOf([seattleText, ...seattleIds, seattleGif]),
+  });
+  const portra = seedCollection(102, {
+    slug: 'portra-portraits',
+    title: 'Portra Portraits',
+    description: 'Medium format, one roll at a time.',
+    collectionDate: '2024-05-20',
+    isBlog: true,
+    rating: 4,
+    coverImage: coverOf(2001),
+    locations: [byId(LOCATIONS, 22)],
+    tags: ['film', 'portra'],
+    people: [byId(PEOPLE, 12)],
+    entries: entriesOf(portraIds),
+  });
+  const wedding = seedCollection(103, {
+    slug: 'smith-wedding',
+    title: 'Smith Wedding',
+    description: 'Client delivery.',
+    collectionDate: '2024-08-10',
+    isClient: true,
+    visibility: CollectionVisibility.UNLISTED,
+    isPasswordProtected: true,
+    galleryPassword: SEED_GALLERY_PASSWORD,
+    recipientEmails: [SEED_ACCOUNTS.client.email],
+    proofingTarget: 2,
+    coverImage: coverOf(3001),
+    locations: [byId(LOCATIONS, 21)],
+    tags: ['wedding'],
+    people: [byId(PEOPLE, 13)],
+    entries: entriesOf(weddingIds),
+  });
+  const drafts = seedCollection(104, {
+    slug: 'drafts',
+    title: 'Drafts',
+    collectionDate: '2024-09-01',
+    visibility: CollectionVisibility.HIDDEN,
+    coverImage: coverOf(4001),
+    locations: [byId(LOCATIONS, 23)],
+    entries: entriesOf(draftIds),
+  });
+  seattle.siblingIds = [portra.id];
+  portra.siblingIds = [seattle.id];
+
+  // Collection-ref blocks get their own content-row ids (5000-range), distinct from the
+  // collection ids they point at — the same split `ContentParallaxImageModel.collectionId` warns
+  // about.
+  const ref = (rowId: number, target: MockCollection) =>
+    add({
+      id: rowId,
+      contentType: 'COLLECTION',
+      orderIndex: 0,
+      visible: true,
+      title: target.title,
+      slug: target.slug,
+      referencedCollectionId: target.id,
+    });
+
+  const travel = seedCollection(105, {
+    slug: 'travel',
+    title: 'Travel',
+    description: 'Everything on the road.',
+    collectionDate: '2024-06-01',
+    coverImage: coverOf(1005),
+    entries: entriesOf([ref(5001, seattle), ref(5002, portra)]),
+  });
+  const home = seedCollection(100, {
+    slug: 'home',
+    title: 'Home',
+    collectionDate: '2024-01-01',
+    visibility: CollectionVisibility.UNLISTED,
+    entries: entriesOf([ref(5010, seattle), ref(5011, portra), ref(5012, travel)]),
+  });
+
+  const now = '2024-10-01T00:00:00Z';
+
+  return {
+    collections: [home, seattle, portra, wedding, drafts, travel],
+    content,
+    tags: TAGS.map(t => ({ ...t })),
+    people: PEOPLE.map(p => ({ ...p })),
+    locations: LOCATIONS.map(l => ({ ...l })),
+    cameras: CAMERAS.map(c => ({ ...c })),
+    lenses: LENSES.map(l => ({ ...l })),
+    filmTypes: FILM_TYPES.map(f => ({ ...f })),
+    filmFormats: FILM_FORMATS.map(f => ({ ...f })),
+    taxonomyAliases: [],
+    users: [
+      {
+        id: 201,
+        email: SEED_ACCOUNTS.admin.email,
+        displayName: 'Zac',
+        status: 'ACTIVE',
+        description: null,
+        password: SEED_ACCOUNTS.admin.password,
+        isAdmin: true,
+      },
+      {
+        id: 202,
+        email: SEED_ACCOUNTS.client.email,
+        displayName: 'Sam Smith',
+        status: 'ACTIVE',
+        description: 'Wedding client, August 2024.',
+        password: SEED_ACCOUNTS.client.password,
+        isAdmin: false,
+      },
+      {
+        id: 203,
+        email: SEED_ACCOUNTS.viewer.email,
+        displayName: 'Ana',
+        status: 'ACTIVE',
+        description: null,
+        password: SEED_ACCOUNTS.viewer.password,
+        isAdmin: false,
+      },
+      {
+        id: 204,
+        email: 'invitee@example.com',
+        displayName: 'Invitee',
+        status: 'INVITED',
+        description: null,
+        password: null,
+        isAdmin: false,
+      },
+      {
+        id: 205,
+        email: null,
+        displayName: 'Jordan',
+        status: 'PERSON',
+        description: null,
+        password: null,
+        isAdmin: false,
+      },
+    ],
+    roles: [
+      {
+        id: 301,
+        name: 'Smith family',
+        memberIds: [202],
+        grants: [{ collectionId: wedding.id, level: 'CLIENT' }],
+      },
+      {
+        id: 302,
+        name: 'Second shooters',
+        memberIds: [203],
+        grants: [{ collectionId: seattle.id, level: 'COLLABORATOR' }],
+      },
+    ],
+    invites: [
+      { token: SEED_INVITES.valid, userId: 204, expiresAt: '2099-01-01T00:00:00Z', usedAt: null },
+      { token: SEED_INVITES.used, userId: 202, expiresAt: '2099-01-01T00:00:00Z', usedAt: now },
+      { token: SEED_INVITES.expired, userId: 204, expiresAt: '2000-01-01T00:00:00Z', usedAt: null },
+    ],
+    messages: [
+      { id: 601, email: 'fan@example.com', message: 'Love the night series!', createdAt: now },
+      { id: 602, email: 'couple@example.com', message: 'Are you booking 2025?', createdAt: now },
+    ],
+    changeLog: [
+      {
+        id: 621,
+        actorEmail: SEED_ACCOUNTS.viewer.email,
+        actorIsAdmin: false,
+        target: 'CONTENT',
+        changeType: 'UPDATE',
+        collectionId: seattle.id,
+        collectionSlug: seattle.slug,
+        collectionTitle: seattle.title,
+        contentId: 1001,
+        field: 'title',
+        before: 'Seattle 1',
+        after: 'Pier 57 at dusk',
+        createdAt: now,
+        revertedAt: null,
+        revertible: true,
+      },
+      {
+        id: 622,
+        actorEmail: SEED_ACCOUNTS.viewer.email,
+        actorIsAdmin: false,
+        target: 'COLLECTION',
+        changeType: 'REORDER',
+        collectionId: seattle.id,
+        collectionSlug: seattle.slug,
+        collectionTitle: seattle.title,
+        contentId: null,
+        field: null,
+        before: null,
+        after: null,
+        createdAt: now,
+        revertedAt: null,
+        revertible: false,
+      },
+    ],
+    changeLogSeen: new Map(),
+    mfa: new Map([
+      [
+        201,
+        {
+          totpSecret: 'JBSWY3DPEHPK3PXP',
+          pendingTotpSecret: null,
+          recoveryCodes: [...SEED_MFA.recovery],
+        },
+      ],
+    ]),
+    passkeys: [],
+    selects: [{ userId: 202, collectionId: wedding.id, contentId: 3002 }],
+    proofingSubmissions: [],
+    imageComments: [
+      {
+        id: 801,
+        collectionId: wedding.id,
+        contentId: 3003,
+        pin: { x: 0.4, y: 0.3 },
+        resolvedAt: null,
+        comments: [
+          {
+            id: 802,
+            authorName: 'Sam Smith',
+            authorIsAdmin: false,
+            body: 'Could you soften the shadow on the left?',
+            createdAt: now,
+          },
+        ],
+      },
+    ],
+    galleryAccessCodes: [
+      {
+        id: 811,
+        collectionId: wedding.id,
+        code: SEED_ACCESS_CODES.active,
+        recipientEmail: 'parents@example.com',
+        label: 'Parents',
+        expiresAt: null,
+        downloadLimit: 5,
+        downloadCount: 0,
+        createdAt: now,
+      },
+      {
+        id: 812,
+        collectionId: wedding.id,
+        code: SEED_ACCESS_CODES.expired,
+        recipientEmail: 'planner@example.com',
+        label: null,
+        expiresAt: '2020-01-01T00:00:00Z',
+        downloadLimit: null,
+        downloadCount: 0,
+        createdAt: now,
+      },
+    ],
+    galleryAccessLog: [],
+    saves: new Map([[203, [1003, 2002]]]),
+    follows: new Map([[203, [seattle.id]]]),
+    shareLinks: [
+      {
+        id: 701,
+        ownerId: 202,
+        name: 'Family',
+        token: SEED_SHARE_TOKEN,
+        createdAt: now,
+        expiresAt: null,
+        maxViews: null,
+        viewCount: 0,
+        lastUsedAt: null,
+        collectionIds: null,
+      },
+    ],
+    shareOptIns: new Map([[202, [wedding.id]]]),
+    feedTokens: [{ ownerId: 203, token: SEED_FEED_TOKEN, createdAt: now }],
+    homeTiles: [
+      {
+        tileKey: 'users',
+        coverImageUrl: `${mediaBaseUrl}/media/image-1002.png`,
+        coverImageWidth: 1920,
+        coverImageHeight: 1080,
+        displayOrder: 0,
+      },
+    ],
+    nextId: 10_000,
+  };
+}
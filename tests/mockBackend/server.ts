@@ -0,0 +1,66 @@
+/**
+ * Serve the mock backend over HTTP for `next dev`: `npm run mock:api`.
+ *
+ * Listens where the app already expects the Spring backend (`localhost:8080` — see
+ * `getApiBaseUrl` and the proxy's `API_URL` default), so no env changes are needed. `MOCK_API_PORT`
+ * moves it; point `API_URL` at the new port when you do. `MOCK_ADMIN_ACCESS=session` turns on the
+ * production admin perimeter (sign in as the seeded admin to use `/collection/manage`).
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+
+import { createMockBackend } from './mockBackend';
+import { SEED_ACCOUNTS, SEED_MFA } from './seed';
+
+const port = Number(process.env.MOCK_API_PORT ?? 8080);
+const origin = `http://localhost:${port}`;
+
+const backend = createMockBackend({
+  adminAccess: process.env.MOCK_ADMIN_ACCESS === 'session' ? 'session' : 'open',
+  mediaBaseUrl: origin,
+  appUrl: process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000',
+});
+
+async function toRequest(req: IncomingMessage): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) for (const v of value) headers.append(name, v);
+    else if (value !== undefined) headers.set(name, value);
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && chunks.length > 0;
+  return new Request(new URL(req.url ?? '/', origin), {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  });
+}
+
+async function send(res: ServerResponse, response: Response): Promise<void> {
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of response.headers) {
+    if (name !== 'set-cookie') headers[name] = value;
+  }
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) headers['set-cookie'] = cookies;
+  res.writeHead(response.status, headers);
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+const server = createServer((req, res) => {
+  toRequest(req)
+    .then(request => backend.handle(request))
+    .then(response => send(res, response))
+    .catch((error: unknown) => {
+      console.error('[mock-api]', req.method, req.url, error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 500, message: 'Mock backend error' }));
+    });
+});
+
+server.listen(port, () => {
+  console.log(`[mock-api] listening on ${origin}`);
+  console.log(`[mock-api] admin: ${SEED_ACCOUNTS.admin.email} / ${SEED_ACCOUNTS.admin.password}`);
+  console.log(`[mock-api] second-factor code: ${SEED_MFA.totp}`);
+});
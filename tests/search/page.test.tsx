@@ -0,0 +1,101 @@
+/**
+ * Tests for the /search route: criteria parsing, the server-side scope, and the typed outcome
+ * handed to SearchPageClient (which is stubbed to expose its props).
+ */
+import '@testing-library/jest-dom';
+
+import { render, screen } from '@testing-library/react';
+
+jest.mock('@/app/lib/api/content', () => ({
+  ...jest.requireActual('@/app/lib/api/content'),
+  searchImagesPage: jest.fn(),
+}));
+
+jest.mock('@/app/utils/ssrViewport', () => ({
+  resolveSsrViewport: jest.fn().mockResolvedValue({
+    contentWidth: 1200,
+    viewportHeight: 900,
+    isMobile: false,
+  }),
+}));
+
+jest.mock('@/app/components/SearchPage/SearchPageClient', () => ({
+  __esModule: true,
+  default: (props: unknown) => <pre data-testid="client">{JSON.stringify(props)}</pre>,
+}));
+
+import { searchImagesPage } from '@/app/lib/api/content';
+import { ApiError } from '@/app/lib/api/core';
+import SearchPageRoute, { generateMetadata } from '@/app/search/page';
+import { logger } from '@/app/utils/logger';
+
+const mockSearchImagesPage = searchImagesPage as jest.MockedFunction<typeof searchImagesPage>;
+
+const emptyPage = { items: [], page: 0, totalPages: 0, totalElements: 0, isLast: true };
+
+async function renderRoute(params: Record<string, string | string[]>) {
+  render(await SearchPageRoute({ searchParams: Promise.resolve(params) }));
+  return JSON.parse(screen.getByTestId('client').textContent ?? '{}') as Record<string, unknown>;
+}
+
+describe('SearchPageRoute', () => {
+  beforeEach(() => {
+    mockSearchImagesPage.mockReset();
+  });
+
+  it('runs the scope server-side and leaves facets to the client', async () => {
+    mockSearchImagesPage.mockResolvedValue(emptyPage);
+
+    const props = await renderRoute({ q: 'fog', from: '2024-01-01', collection: '3', tag: 'film' });
+
+    expect(mockSearchImagesPage).toHaveBeenCalledWith({
+      query: 'fog',
+      captureStartDate: '2024-01-01',
+      collectionIds: [3],
+      page: 0,
+      size: 60,
+    });
+    expect(props).toMatchObject({
+      outcome: { status: 'ok', page: emptyPage },
+      scope: { query: 'fog', captureStartDate: '2024-01-01', collectionIds: [3] },
+    });
+  });
+
+  it('rejects an inverted date range without calling the backend', async () => {
+    const props = await renderRoute({ from: '2024-05-01', to: '2024-01-01' });
+
+    expect(mockSearchImagesPage).not.toHaveBeenCalled();
+    expect(props.outcome).toEqual({
+      status: 'invalid',
+      message: 'The start date is after the end date.',
+    });
+  });
+
+  it('maps a 400 to an invalid outcome carrying the backend message', async () => {
+    mockSearchImagesPage.mockRejectedValue(new ApiError('Query too long', 400));
+
+    const props = await renderRoute({ q: 'x' });
+
+    expect(props.outcome).toEqual({ status: 'invalid', message: 'Query too long' });
+  });
+
+  it('maps any other failure to unavailable, and logs it', async () => {
+    const spy = jest.spyOn(logger, 'error').mockImplementation(() => {});
+    mockSearchImagesPage.mockRejectedValue(new ApiError('Bad gateway', 502));
+
+    const props = await renderRoute({ q: 'x' });
+
+    expect(props.outcome).toEqual({ status: 'unavailable' });
+    expect(spy).toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('generateMetadata', () => {
+  it('titles the page with the query and keeps results out of the index', async () => {
+    const metadata = await generateMetadata({ searchParams: Promise.resolve({ q: 'fog' }) });
+
+    expect(metadata.title).toBe('“fog” — Search — Zac Edens Photography');
+    expect(metadata.robots).toMatchObject({ index: false });
+  });
+});
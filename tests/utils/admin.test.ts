@@ -1,8 +1,11 @@
 import { redirect } from 'next/navigation';
 
 import { meServer } from '@/app/lib/api/auth';
+import { getCollectionBySlug } from '@/app/lib/api/collections';
+import { ApiError } from '@/app/lib/api/core';
 import { type MeResponse } from '@/app/types/Auth';
-import { requireAdmin } from '@/app/utils/admin';
+import { type CollectionModel } from '@/app/types/Collection';
+import { requireAdmin, resolveEditScope } from '@/app/utils/admin';
 
 jest.mock('next/navigation', () => ({
   // `redirect` throws a NEXT_REDIRECT sentinel in real Next so control never
@@ -17,8 +20,15 @@ jest.mock('@/app/lib/api/auth', () => ({
   meServer: jest.fn(),
 }));
 
+jest.mock('@/app/lib/api/collections', () => ({
+  getCollectionBySlug: jest.fn(),
+}));
+
 const mockMeServer = meServer as jest.MockedFunction<typeof meServer>;
 const mockRedirect = redirect as jest.MockedFunction<typeof redirect>;
+const mockGetCollectionBySlug = getCollectionBySlug as jest.MockedFunction<
+  typeof getCollectionBySlug
+>;
 
 function principal(overrides: Partial<MeResponse> = {}): MeResponse {
   return {
@@ -95,4 +105,88 @@ describe('requireAdmin', () => {
       await expect(requireAdmin()).rejects.toThrow('NEXT_REDIRECT:/login');
     });
   });
+
+  describe('second factor', () => {
+    const originalEnv = process.env.NEXT_PUBLIC_ENV;
+
+    afterEach(() => {
+      process.env.NEXT_PUBLIC_ENV = originalEnv;
+    });
+
+    it('sends a password-only admin session to the MFA challenge in production', async () => {
+      process.env.NEXT_PUBLIC_ENV = 'production';
+      mockMeServer.mockResolvedValue(principal({ isAdmin: true, mfaSatisfied: false }));
+
+      await expect(requireAdmin()).rejects.toThrow('NEXT_REDIRECT:/login/mfa');
+    });
+
+    it('lets a verified admin session through in production', async () => {
+      process.env.NEXT_PUBLIC_ENV = 'production';
+      mockMeServer.mockResolvedValue(principal({ isAdmin: true, mfaSatisfied: true }));
+
+      await expect(requireAdmin()).resolves.toBeUndefined();
+    });
+
+    it('does not demand the second factor outside production', async () => {
+      mockMeServer.mockResolvedValue(principal({ isAdmin: true, mfaSatisfied: false }));
+
+      await expect(requireAdmin()).resolves.toBeUndefined();
+      expect(mockRedirect).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('resolveEditScope', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetCollectionBySlug.mockResolvedValue({ id: 7 } as CollectionModel);
+  });
+
+  it('gives a collaborator on this collection the collaborator layer', async () => {
+    mockMeServer.mockResolvedValue(
+      principal({ galleries: [{ collectionId: 7, role: 'COLLABORATOR' }] })
+    );
+
+    await expect(resolveEditScope('wedding')).resolves.toBe('collaborator');
+    expect(mockGetCollectionBySlug).toHaveBeenCalledWith('wedding', 0, 1);
+  });
+
+  it('leaves a collection the viewer cannot read to the admin gate', async () => {
+    mockMeServer.mockResolvedValue(
+      principal({ galleries: [{ collectionId: 7, role: 'COLLABORATOR' }] })
+    );
+    mockGetCollectionBySlug.mockRejectedValueOnce(new ApiError('Forbidden', 403));
+
+    await expect(resolveEditScope('wedding')).resolves.toBe('admin');
+  });
+
+  it('still surfaces a backend failure', async () => {
+    mockMeServer.mockResolvedValue(
+      principal({ galleries: [{ collectionId: 7, role: 'COLLABORATOR' }] })
+    );
+    mockGetCollectionBySlug.mockRejectedValueOnce(new ApiError('Server error', 500));
+
+    await expect(resolveEditScope('wedding')).rejects.toMatchObject({ status: 500 });
+  });
+
+  it('leaves a collaborator on some other collection to the admin gate', async () => {
+    mockMeServer.mockResolvedValue(
+      principal({ galleries: [{ collectionId: 8, role: 'COLLABORATOR' }] })
+    );
+
+    await expect(resolveEditScope('wedding')).resolves.toBe('admin');
+  });
+
+  it('does not read the collection for admins, clients or anonymous viewers', async () => {
+    mockMeServer.mockResolvedValueOnce(principal({ isAdmin: true }));
+    await expect(resolveEditScope('wedding')).resolves.toBe('admin');
+    mockMeServer.mockResolvedValueOnce(
+      principal({ galleries: [{ collectionId: 7, role: 'CLIENT' }] })
+    );
+    await expect(resolveEditScope('wedding')).resolves.toBe('admin');
+    mockMeServer.mockResolvedValueOnce(null);
+    await expect(resolveEditScope('wedding')).resolves.toBe('admin');
+
+    expect(mockGetCollectionBySlug).not.toHaveBeenCalled();
+  });
 });
@@ -11,11 +11,13 @@ import {
   applyCollectionFilters,
   buildCollectionCriteria,
   buildLocationCriteria,
+  buildSearchCriteria,
   canFilter,
   collectionRefMatchesCriteria,
   computeFilterCounts,
   computeFilterVisibility,
   type ContentFilterCriteria,
+  expressionTextFromCriteria,
   extractCollectionFilterOptions,
   extractFilterOptions,
   filmFilterFromIsFilm,
@@ -23,11 +25,14 @@ import {
   hasAnyActiveFilter,
   hasFilterableOptions,
   isDateable,
+  matchesFilterExpression,
   mergeDateSortedImages,
   MIN_IMAGES_FOR_DATE_FILTER,
   parseFilterFromParams,
+  pickSearchScope,
   serializeFilterToParams,
 } from '@/app/utils/contentFilter';
+import { type FilterExpression, parseFilterExpression } from '@/app/utils/filterExpression';
 import { sortByDate } from '@/app/utils/sortByDate';
 
 // ─── Test Fixtures ───
@@ -1613,6 +1618,52 @@ describe('buildLocationCriteria', () => {
   });
 });
 
+describe('buildSearchCriteria', () => {
+  it('extends the location criteria with cameras and locations, OR semantics', () => {
+    const criteria = buildSearchCriteria(
+      makeFilterState({
+        filmFilter: 'film',
+        selectedTags: ['night'],
+        selectedCameras: ['Leica M6'],
+        selectedLocations: ['Seattle'],
+        selectedLenses: ['FE 35mm'],
+      })
+    );
+    expect(criteria).toEqual({
+      isFilm: true,
+      tags: ['night'],
+      cameras: ['Leica M6'],
+      locations: ['Seattle'],
+    });
+    expect(criteria).not.toHaveProperty('cameraMatchMode');
+  });
+});
+
+describe('pickSearchScope', () => {
+  it('keeps only the server-side scope of parsed search params', () => {
+    const criteria = parseFilterFromParams(
+      new URLSearchParams('q=fog&from=2024-01-01&to=2024-02-01&collection=3&tag=film&rating=4')
+    );
+    expect(pickSearchScope(criteria)).toEqual({
+      query: 'fog',
+      dateFrom: '2024-01-01',
+      dateTo: '2024-02-01',
+      collectionIds: [3],
+    });
+  });
+
+  it('round-trips scope + facets through the URL', () => {
+    const scope = pickSearchScope({ query: 'fog', collectionIds: [3] });
+    const facets = buildSearchCriteria(makeFilterState({ selectedCameras: ['Leica M6'] }));
+    const params = serializeFilterToParams({ ...scope, ...facets });
+    expect(parseFilterFromParams(params)).toEqual({
+      query: 'fog',
+      collectionIds: [3],
+      cameras: ['Leica M6'],
+    });
+  });
+});
+
 describe('computeFilterVisibility', () => {
   it('hides every control for an empty or single-image page', () => {
     expect(computeFilterVisibility([])).toEqual({
@@ -1889,3 +1940,135 @@ describe('hasAnyActiveFilter dates', () => {
     );
   });
 });
+
+// ─── Filter expressions ───
+
+function expr(input: string): FilterExpression {
+  const result = parseFilterExpression(input);
+  if (!result.ok) throw new Error(result.message);
+  return result.expression;
+}
+
+describe('matchesFilterExpression', () => {
+  const portraOfZac = makeImage({
+    id: 1,
+    isFilm: true,
+    title: 'Portra 400 test roll',
+    people: [{ id: 1, name: 'Zac' }],
+  });
+  const portraOfAlice = makeImage({
+    id: 2,
+    isFilm: true,
+    title: 'Portra at the beach',
+    people: [{ id: 2, name: 'Alice' }],
+  });
+  const digitalPortra = makeImage({ id: 3, isFilm: false, caption: 'portra preset' });
+
+  it('evaluates "is:film portra NOT people:Zac" with the existing predicates', () => {
+    const expression = expr('is:film portra NOT people:Zac');
+    expect(matchesFilterExpression(portraOfZac, expression)).toBe(false);
+    expect(matchesFilterExpression(portraOfAlice, expression)).toBe(true);
+    expect(matchesFilterExpression(digitalPortra, expression)).toBe(false);
+  });
+
+  it('maps each field onto its dimension', () => {
+    const image = makeImage({
+      rating: 4,
+      blackAndWhite: true,
+      captureDate: '2024-06-01T10:00:00Z',
+      tags: [{ id: 1, name: 'Street', slug: 'street' }],
+      locations: [{ id: 1, name: 'Paris', slug: 'paris' }],
+      camera: { id: 1, name: 'Leica M6' },
+      lens: { id: 1, name: '35mm' },
+      collections: [{ collectionId: 7, name: 'Europe', visible: true, orderIndex: 0 }],
+    });
+    for (const input of [
+      'tag:street',
+      'location:paris',
+      'camera:"Leica M6"',
+      'lens:35mm',
+      'rating:3',
+      'date:2024-06-01',
+      'is:bw',
+      'is:digital',
+      'collection:7',
+    ]) {
+      expect(matchesFilterExpression(image, expr(input))).toBe(true);
+    }
+    for (const input of ['rating:5', 'is:color', 'is:film', 'collection:8', 'tag:portrait']) {
+      expect(matchesFilterExpression(image, expr(input))).toBe(false);
+    }
+  });
+});
+
+describe('filterContent with an expression', () => {
+  const images = [
+    makeImage({ id: 1, tags: [{ id: 1, name: 'a', slug: 'a' }] }),
+    makeImage({ id: 2, tags: [{ id: 2, name: 'b', slug: 'b' }] }),
+    makeImage({ id: 3, tags: [{ id: 3, name: 'c', slug: 'c' }], rating: 5 }),
+  ];
+
+  it('keeps images matching the expression and drops non-images', () => {
+    const result = filterContent([...images, makeTextBlock()], {
+      expression: expr('tag:a OR tag:c'),
+    });
+    expect(result.map(item => item.id)).toEqual([1, 3]);
+  });
+
+  it('ANDs the expression with the other criteria', () => {
+    const result = filterContent(images, { minRating: 4, expression: expr('NOT tag:b') });
+    expect(result.map(item => item.id)).toEqual([3]);
+  });
+});
+
+describe('expr URL param', () => {
+  it('parses a valid expression and serializes its canonical form', () => {
+    const criteria = parseFilterFromParams(
+      new URLSearchParams({ expr: 'film portra -people:Zac' })
+    );
+    expect(criteria.expression).toEqual(expr('film AND portra AND NOT person:Zac'));
+    expect(serializeFilterToParams(criteria).get('expr')).toBe(
+      'film AND portra AND NOT person:Zac'
+    );
+  });
+
+  it('drops an expression that does not parse', () => {
+    expect(parseFilterFromParams(new URLSearchParams({ expr: '(tag:a' }))).toEqual({});
+  });
+
+  it('round-trips alongside the other keys', () => {
+    const original: ContentFilterCriteria = {
+      tags: ['film'],
+      expression: expr('(tag:a OR tag:b) NOT is:bw'),
+    };
+    expect(parseFilterFromParams(serializeFilterToParams(original))).toEqual(original);
+  });
+});
+
+describe('FilterState expression', () => {
+  const state: FilterState = { ...INITIAL_FILTER_STATE, expression: 'tag:a NOT tag:b' };
+
+  it('is carried into every page builder', () => {
+    const expected = expr('tag:a NOT tag:b');
+    expect(buildCollectionCriteria(state).expression).toEqual(expected);
+    expect(buildLocationCriteria(state).expression).toEqual(expected);
+    expect(buildSearchCriteria(state).expression).toEqual(expected);
+    expect(buildCollectionCriteria(INITIAL_FILTER_STATE).expression).toBeUndefined();
+  });
+
+  it('counts as an active filter', () => {
+    expect(hasAnyActiveFilter(state)).toBe(true);
+  });
+
+  it('seeds from URL criteria as canonical text', () => {
+    expect(expressionTextFromCriteria({ expression: expr('tag:a -tag:b') })).toBe(
+      'tag:a AND NOT tag:b'
+    );
+    expect(expressionTextFromCriteria({})).toBe('');
+  });
+
+  it('never hides a collection tile', () => {
+    const ref = makeCollectionRef({ tags: [{ id: 9, name: 'z', slug: 'z' }] });
+    expect(collectionRefMatchesCriteria(ref, buildCollectionCriteria(state))).toBe(true);
+  });
+});
@@ -229,6 +229,55 @@ describe('processContentBlocks', () => {
     });
   });
 
+  describe('Preparing text blocks', () => {
+    it('parses the body in its format and sizes the block by the estimate', () => {
+      const text = createTextContent(2, {
+        format: 'markdown',
+        items: [{ type: 'text', value: '# Notes\n\nShot on **Portra 400**.' }],
+      });
+      const [, result] = processContentBlocks([createImageContent(1), text]);
+      const prepared = result as ContentTextModel;
+
+      expect(prepared.rich).toEqual([
+        { type: 'heading', level: 1, children: [{ type: 'text', value: 'Notes' }] },
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', value: 'Shot on ' },
+            { type: 'strong', children: [{ type: 'text', value: 'Portra 400' }] },
+            { type: 'text', value: '.' },
+          ],
+        },
+      ]);
+      expect(prepared.width).toBe(640);
+      expect(prepared.height).toBeGreaterThan(80);
+    });
+
+    it('resolves image references only against images still on the page', () => {
+      const content: AnyContentModel[] = [
+        createImageContent(1, { imageWidth: 1200, imageHeight: 800 }),
+        createImageContent(2, { visible: false }),
+        createTextContent(3, {
+          format: 'markdown',
+          items: [{ type: 'text', value: '![shown](image:1) ![hidden](image:2)' }],
+        }),
+      ];
+
+      const prepared = processContentBlocks(content).find(
+        block => block.id === 3
+      ) as ContentTextModel;
+      const [paragraph] = prepared.rich ?? [];
+
+      expect(paragraph).toEqual({
+        type: 'paragraph',
+        children: [
+          expect.objectContaining({ type: 'image', contentId: 1, alt: 'shown' }),
+          { type: 'text', value: ' hidden' },
+        ],
+      });
+    });
+  });
+
   describe('Sorting by orderIndex', () => {
     it('should sort blocks by orderIndex ascending', () => {
       const content: AnyContentModel[] = [
@@ -1508,8 +1557,11 @@ describe('processContentForDisplay', () => {
 
       const result = processContentForDisplay(content, 1000);
 
-      // All items should appear in the output rows
-      const allIds = result.flatMap(row => row.items.map(item => item.content.id));
+      // All items should appear in the output rows (alongside any blank padding: the 4:1 text
+      // block packs like any other wide leaf)
+      const allIds = result.flatMap(row =>
+        row.items.filter(item => !isBlankContent(item.content)).map(item => item.content.id)
+      );
       const inputIds = content.map(c => c.id);
       expect(allIds.sort()).toEqual(inputIds.sort());
 
@@ -361,8 +361,12 @@ describe('getAspectRatio', () => {
     expect(getAspectRatio(img)).toBeCloseTo(1080 / 1920);
   });
 
-  it('returns 1.0 for TEXT content (non-image)', () => {
-    expect(getAspectRatio(createTextContent(1))).toBe(1.0);
+  it('returns the declared ratio for TEXT content with an estimated size', () => {
+    expect(getAspectRatio(createTextContent(1, { width: 640, height: 320 }))).toBe(2);
+  });
+
+  it('returns 1.0 for TEXT content without a size', () => {
+    expect(getAspectRatio(createTextContent(1, { width: undefined, height: undefined }))).toBe(1.0);
   });
 
   it('returns 1.0 for COLLECTION content (non-image)', () => {
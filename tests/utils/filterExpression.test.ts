@@ -0,0 +1,118 @@
+import {
+  type FilterExpression,
+  formatFilterExpression,
+  parseFilterExpression,
+} from '@/app/utils/filterExpression';
+
+function parse(input: string): FilterExpression {
+  const result = parseFilterExpression(input);
+  if (!result.ok) throw new Error(`expected "${input}" to parse: ${result.message}`);
+  return result.expression;
+}
+
+const term = (field: string, value: string) => ({ type: 'term', field, value });
+
+describe('parseFilterExpression', () => {
+  it('reads the motivating example: juxtaposition is AND, NOT binds tighter', () => {
+    expect(parse('film AND portra NOT people:Zac')).toEqual({
+      type: 'and',
+      operands: [
+        term('text', 'film'),
+        term('text', 'portra'),
+        { type: 'not', operand: term('person', 'Zac') },
+      ],
+    });
+  });
+
+  it('gives AND precedence over OR', () => {
+    expect(parse('tag:a OR tag:b tag:c')).toEqual({
+      type: 'or',
+      operands: [term('tag', 'a'), { type: 'and', operands: [term('tag', 'b'), term('tag', 'c')] }],
+    });
+  });
+
+  it('groups with parentheses', () => {
+    expect(parse('(tag:a OR tag:b) -is:bw')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'or', operands: [term('tag', 'a'), term('tag', 'b')] },
+        { type: 'not', operand: term('is', 'bw') },
+      ],
+    });
+  });
+
+  it('accepts quoted values, with or without a field', () => {
+    expect(parse('location:"New York" "golden hour"')).toEqual({
+      type: 'and',
+      operands: [term('location', 'New York'), term('text', 'golden hour')],
+    });
+  });
+
+  it('treats lowercase keywords and in-word hyphens as text', () => {
+    expect(parse('rock and roll')).toEqual({
+      type: 'and',
+      operands: [term('text', 'rock'), term('text', 'and'), term('text', 'roll')],
+    });
+    expect(parse('date:2024-06-01')).toEqual(term('date', '2024-06-01'));
+  });
+
+  it('normalizes field aliases and is: values', () => {
+    expect(parse('tags:x')).toEqual(term('tag', 'x'));
+    expect(parse('place:Paris')).toEqual(term('location', 'Paris'));
+    expect(parse('is:Film')).toEqual(term('is', 'film'));
+  });
+
+  it.each([
+    ['', 'Enter an expression', 0],
+    ['tag:a AND', 'Expression ends too early', 9],
+    ['(tag:a', 'Missing ")"', 6],
+    ['tag:a)', 'Unmatched ")"', 5],
+    ['"open', 'Unclosed quote', 0],
+    ['colour:red', 'Unknown field "colour"', 0],
+    ['tag:', 'Missing value after "tag:"', 4],
+    ['rating:9', 'rating: takes a whole number from 1 to 5', 7],
+    ['date:june', 'date: takes a day as YYYY-MM-DD', 5],
+    ['is:sepia', 'is: takes one of film, digital, bw, color', 3],
+    ['OR tag:a', 'Expected a value before OR', 0],
+  ])('rejects %j with a message and position', (input, message, position) => {
+    const result = parseFilterExpression(input);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.message).toContain(message);
+    expect(result.position).toBe(position);
+  });
+});
+
+describe('formatFilterExpression', () => {
+  it('writes canonical text with explicit AND', () => {
+    expect(formatFilterExpression(parse('film portra -people:Zac'))).toBe(
+      'film AND portra AND NOT person:Zac'
+    );
+  });
+
+  it('parenthesizes only where precedence needs it', () => {
+    expect(formatFilterExpression(parse('(tag:a OR tag:b) tag:c'))).toBe(
+      '(tag:a OR tag:b) AND tag:c'
+    );
+    expect(formatFilterExpression(parse('tag:a OR (tag:b tag:c)'))).toBe(
+      'tag:a OR tag:b AND tag:c'
+    );
+    expect(formatFilterExpression(parse('NOT (tag:a OR tag:b)'))).toBe('NOT (tag:a OR tag:b)');
+  });
+
+  it('quotes values that would not read back as one word', () => {
+    expect(formatFilterExpression(parse('location:"New York" "OR"'))).toBe(
+      'location:"New York" AND "OR"'
+    );
+  });
+
+  it.each([
+    'film AND portra NOT people:Zac',
+    '(tag:a OR tag:b) -is:bw rating:4',
+    'NOT NOT camera:"Leica M6" OR collection:12 date:2024-06-01',
+    'lens:"-odd" "a:b"',
+  ])('round-trips %j', input => {
+    const expression = parse(input);
+    expect(parse(formatFilterExpression(expression))).toEqual(expression);
+  });
+});
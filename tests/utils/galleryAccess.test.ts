@@ -5,10 +5,12 @@
 
 import { type CollectionRole, type MeResponse } from '@/app/types/Auth';
 import {
+  canCollaborateOnCollection,
   canDownloadCollection,
   findMembership,
   hasRoleAtLeast,
   isClientOfCollection,
+  owesSecondFactor,
 } from '@/app/utils/galleryAccess';
 
 const clientMembership = { collectionId: 7, role: 'CLIENT' as const };
@@ -166,3 +168,44 @@ describe('hasRoleAtLeast', () => {
     expect(hasRoleAtLeast(undefined, 'GENERAL')).toBe(false);
   });
 });
+
+describe('canCollaborateOnCollection', () => {
+  it('is true only for a COLLABORATOR membership on that collection', () => {
+    expect(canCollaborateOnCollection(collaboratorMe, 7)).toBe(true);
+    expect(canCollaborateOnCollection(collaboratorMe, 8)).toBe(false);
+    expect(canCollaborateOnCollection(clientMe, 7)).toBe(false);
+    expect(canCollaborateOnCollection(null, 7)).toBe(false);
+  });
+});
+
+describe('owesSecondFactor', () => {
+  const originalEnv = process.env;
+  const admin = (mfaSatisfied: boolean): MeResponse => ({
+    email: 'admin@example.com',
+    isAdmin: true,
+    mfaSatisfied,
+    galleries: [],
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('is true only for an unverified admin session in production', () => {
+    process.env = { ...originalEnv, NEXT_PUBLIC_ENV: 'production' };
+    expect(owesSecondFactor(admin(false))).toBe(true);
+    expect(owesSecondFactor(admin(true))).toBe(false);
+    expect(owesSecondFactor(clientMe)).toBe(false);
+    expect(owesSecondFactor(null)).toBe(false);
+  });
+
+  it('challenges a staging or preview build too: any non-local NODE_ENV=production build', () => {
+    process.env = { ...originalEnv, NODE_ENV: 'production', NEXT_PUBLIC_ENV: 'staging' };
+    expect(owesSecondFactor(admin(false))).toBe(true);
+  });
+
+  it('is false for a local build', () => {
+    process.env = { ...originalEnv, NODE_ENV: 'production', NEXT_PUBLIC_ENV: 'local' };
+    expect(owesSecondFactor(admin(false))).toBe(false);
+  });
+});
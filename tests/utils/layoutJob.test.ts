@@ -0,0 +1,141 @@
+/**
+ * Tests for the layout job: its memo key, the LRU cache, the worker message loop and the
+ * rehydration that hands callers back their own content objects.
+ *
+ * Structured clone is `v8.serialize`/`deserialize` here — the same algorithm `postMessage` uses,
+ * including its preservation of shared references within one message.
+ */
+import { deserialize, serialize } from 'node:v8';
+
+import { isBlankContent } from '@/app/utils/contentTypeGuards';
+import {
+  clearLayoutCache,
+  createLayoutWorkerHandler,
+  getCachedLayout,
+  LAYOUT_CACHE_SIZE,
+  type LayoutJob,
+  layoutJobKey,
+  type LayoutResult,
+  layoutSync,
+  type LayoutWorkerResponse,
+  rehydrateLayoutResult,
+  runLayoutJob,
+  setCachedLayout,
+} from '@/app/utils/layoutJob';
+import { type BoxTree } from '@/app/utils/rowCombination';
+import { createHorizontalImage, createVerticalImage } from '@/tests/fixtures/contentFixtures';
+
+const clone = <T>(value: T): T => deserialize(serialize(value)) as T;
+
+function job(overrides: Partial<LayoutJob> = {}): LayoutJob {
+  return {
+    content: Array.from({ length: 12 }, (_, i) =>
+      i % 3 === 0 ? createVerticalImage(i + 1, 3) : createHorizontalImage(i + 1, 3)
+    ),
+    viewport: { contentWidth: 1200, viewportHeight: 800, isMobile: false },
+    chunkSize: 4,
+    ...overrides,
+  };
+}
+
+function leaves(tree: BoxTree): BoxTree[] {
+  return tree.type === 'leaf' ? [tree] : [...leaves(tree.children[0]), ...leaves(tree.children[1])];
+}
+
+beforeEach(() => clearLayoutCache());
+
+describe('layoutJobKey', () => {
+  it('matches for equal content in a fresh array', () => {
+    const a = job();
+    expect(layoutJobKey(a)).toBe(layoutJobKey({ ...a, content: a.content.map(item => item) }));
+  });
+
+  it('changes with width, density and content', () => {
+    const base = job();
+    const key = layoutJobKey(base);
+    expect(layoutJobKey({ ...base, chunkSize: 5 })).not.toBe(key);
+    expect(layoutJobKey({ ...base, viewport: { ...base.viewport, contentWidth: 900 } })).not.toBe(
+      key
+    );
+    expect(
+      layoutJobKey({ ...base, content: [createHorizontalImage(1, 5), ...base.content.slice(1)] })
+    ).not.toBe(key);
+  });
+});
+
+describe('layout cache', () => {
+  const result: LayoutResult = { rows: [], layoutError: null };
+
+  it('serves a repeated job without laying out again', () => {
+    const first = job();
+    const key = layoutJobKey(first);
+    const rows = layoutSync(first, key);
+    expect(layoutSync({ ...first, content: [...first.content] }, key)).toBe(rows);
+  });
+
+  it('evicts the least recently used entry', () => {
+    for (let i = 0; i < LAYOUT_CACHE_SIZE; i++) setCachedLayout(`k${i}`, result);
+    getCachedLayout('k0');
+    setCachedLayout('overflow', result);
+    expect(getCachedLayout('k0')).toBe(result);
+    expect(getCachedLayout('k1')).toBeUndefined();
+  });
+
+  it('does not cache a failed layout', () => {
+    setCachedLayout('bad', { rows: [], layoutError: 'boom' });
+    expect(getCachedLayout('bad')).toBeUndefined();
+  });
+});
+
+describe('rehydrateLayoutResult', () => {
+  it('swaps the caller’s objects into items and tree leaves alike', () => {
+    const original = job();
+    const response = clone({ result: runLayoutJob(original), content: original.content });
+    const { rows } = rehydrateLayoutResult(response.result, response.content, original.content);
+
+    expect(rows.length).toBeGreaterThan(0);
+    for (const row of rows) {
+      const leafContent = leaves(row.boxTree).map(leaf => leaf.type === 'leaf' && leaf.content);
+      expect(leafContent).toEqual(row.items.map(item => item.content));
+      for (const [index, item] of row.items.entries()) {
+        expect(leafContent[index]).toBe(item.content);
+        if (!isBlankContent(item.content)) expect(original.content).toContain(item.content);
+      }
+    }
+  });
+});
+
+describe('createLayoutWorkerHandler', () => {
+  function harness() {
+    const posted: LayoutWorkerResponse[] = [];
+    const tasks: Array<() => void> = [];
+    const handle = createLayoutWorkerHandler(
+      response => posted.push(response),
+      run => tasks.push(run)
+    );
+    const runTasks = () => {
+      while (tasks.length > 0) tasks.shift()!();
+    };
+    return { posted, handle, runTasks };
+  }
+
+  it('answers each request with its own id and the content it laid out', () => {
+    const { posted, handle, runTasks } = harness();
+    const request = job();
+    handle({ type: 'layout', requestId: 7, job: request });
+    runTasks();
+    expect(posted).toHaveLength(1);
+    expect(posted[0]!.requestId).toBe(7);
+    expect(posted[0]!.content).toBe(request.content);
+    expect(posted[0]!.result.rows.length).toBeGreaterThan(0);
+  });
+
+  it('drops a job cancelled before it starts', () => {
+    const { posted, handle, runTasks } = harness();
+    handle({ type: 'layout', requestId: 1, job: job() });
+    handle({ type: 'layout', requestId: 2, job: job({ chunkSize: 5 }) });
+    handle({ type: 'cancel', requestId: 1 });
+    runTasks();
+    expect(posted.map(response => response.requestId)).toEqual([2]);
+  });
+});
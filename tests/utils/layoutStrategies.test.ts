@@ -0,0 +1,135 @@
+/**
+ * Tests for the masonry and justified layout strategies.
+ *
+ * The contract under test is the one `processContentForDisplay` relies on: every mode emits rows
+ * that size through the shared BoxTree sizer to the full content width with no internal pockets,
+ * carry every input item exactly once in order-stable bands, and differ only in SHAPE.
+ */
+import { LAYOUT } from '@/app/constants';
+import type { AnyContentModel } from '@/app/types/Content';
+import { processContentForDisplay, type RowWithPatternAndSizes } from '@/app/utils/contentLayout';
+import { isBlankContent } from '@/app/utils/contentTypeGuards';
+import { measureRow } from '@/app/utils/layoutDebug';
+import {
+  justifiedLayout,
+  MASONRY_BAND_DEPTH,
+  masonryLayout,
+  rowsLayout,
+} from '@/app/utils/layoutStrategies';
+import {
+  createHorizontalImage,
+  createPanorama,
+  createVerticalImage,
+} from '@/tests/fixtures/contentFixtures';
+
+const COMPONENT_WIDTH = 1200;
+const CHUNK_SIZE = 4;
+const GAP = LAYOUT.gridGap;
+
+/** Portrait-heavy client shoot: the galleries these modes exist for. */
+const portraitShoot: AnyContentModel[] = Array.from({ length: 30 }, (_, i) =>
+  i % 5 === 4 ? createHorizontalImage(i + 1, 3) : createVerticalImage(i + 1, i % 3 === 0 ? 5 : 3)
+);
+
+function layout(mode: 'ROWS' | 'MASONRY' | 'JUSTIFIED', content = portraitShoot) {
+  return processContentForDisplay(content, COMPONENT_WIDTH, CHUNK_SIZE, {
+    targetAR: 1.5,
+    layoutMode: mode,
+  });
+}
+
+const realIds = (rows: RowWithPatternAndSizes[]) =>
+  rows.flatMap(row =>
+    row.items.filter(item => !isBlankContent(item.content)).map(i => i.content.id)
+  );
+
+const input = { rowWidth: 8, targetAR: 1.5, pixelContext: { componentWidth: 1200, gap: GAP } };
+
+describe.each(['MASONRY', 'JUSTIFIED'] as const)('%s rows', mode => {
+  const rows = layout(mode);
+
+  it('carry every item exactly once', () => {
+    expect([...realIds(rows)].sort((a, b) => a - b)).toEqual(portraitShoot.map(item => item.id));
+  });
+
+  it('span the full content width with no internal pockets', () => {
+    for (const row of rows) {
+      const { spanPx, heightPx, pocketPx2 } = measureRow(row, GAP);
+      expect(spanPx).toBeCloseTo(COMPONENT_WIDTH, 0);
+      // Sub-pixel rounding only: spacers are sized in aspect-ratio units, gaps by the sizer.
+      expect(pocketPx2).toBeLessThanOrEqual(0.001 * spanPx * heightPx);
+    }
+  });
+
+  it('emit content rows in the renderer shape', () => {
+    for (const row of rows) {
+      expect(row.rowType).toBe('content');
+      expect(row.boxTree).toBeDefined();
+    }
+  });
+});
+
+describe('masonryLayout', () => {
+  it('renders every column in a band at one width', () => {
+    for (const row of layout('MASONRY')) {
+      const widths = new Set(row.items.map(item => Math.round(item.width)));
+      expect(widths.size).toBe(1);
+    }
+  });
+
+  it('cuts the grid into bands of columns × depth items', () => {
+    // rowWidth 8 ≈ four 3:2 landscapes across -> four columns.
+    const rows = masonryLayout(portraitShoot, input);
+    expect(rows).toHaveLength(Math.ceil(portraitShoot.length / (4 * MASONRY_BAND_DEPTH)));
+  });
+
+  it('returns no rows for no content', () => {
+    expect(masonryLayout([], input)).toEqual([]);
+  });
+});
+
+describe('justifiedLayout', () => {
+  it('renders each row at one height', () => {
+    for (const row of layout('JUSTIFIED')) {
+      const heights = new Set(row.items.map(item => Math.round(item.height)));
+      expect(heights.size).toBe(1);
+    }
+  });
+
+  it('keeps content order row by row', () => {
+    expect(realIds(layout('JUSTIFIED'))).toEqual(portraitShoot.map(item => item.id));
+  });
+
+  it('pads a short final row instead of stretching it', () => {
+    // Four landscapes fill a row exactly; the fifth alone would render four times target height.
+    const content = Array.from({ length: 5 }, (_, i) => createHorizontalImage(i + 1, 3));
+    const rows = justifiedLayout(content, input);
+    expect(rows).toHaveLength(2);
+    const last = rows[1]!;
+    expect(last.type).toBe('combined');
+    if (last.type !== 'combined') return;
+    const spacer = last.children[1];
+    expect(spacer.type === 'leaf' && isBlankContent(spacer.content)).toBe(true);
+  });
+
+  it('lets a panorama close a row rather than leave it short', () => {
+    const content = [
+      createHorizontalImage(1, 3),
+      createPanorama(2, 3),
+      createHorizontalImage(3, 3),
+    ];
+    const [first] = justifiedLayout(content, input);
+    expect(first!.type).toBe('combined');
+  });
+});
+
+describe('rowsLayout', () => {
+  it('is the default', () => {
+    const byDefault = processContentForDisplay(portraitShoot, COMPONENT_WIDTH, CHUNK_SIZE, {
+      targetAR: 1.5,
+    });
+    expect(byDefault.map(row => row.boxTree)).toEqual(
+      rowsLayout(portraitShoot, { ...input, rowWidth: Math.round(CHUNK_SIZE * 2.1) })
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { type RichImageResolver } from '@/app/types/RichText';
+import { parseInline, parseMarkdown } from '@/app/utils/markdown';
+
+const noImages: RichImageResolver = () => null;
+const oneImage: RichImageResolver = contentId =>
+  contentId === 7 ? { contentId, src: 'https://cdn.test/7.webp', width: 1200, height: 800 } : null;
+
+const text = (value: string) => ({ type: 'text', value });
+
+describe('parseMarkdown — blocks', () => {
+  it('parses ATX and setext headings', () => {
+    expect(parseMarkdown('# One\n\n### Three ###\n\nTwo\n---', noImages)).toEqual([
+      { type: 'heading', level: 1, children: [text('One')] },
+      { type: 'heading', level: 3, children: [text('Three')] },
+      { type: 'heading', level: 2, children: [text('Two')] },
+    ]);
+  });
+
+  it('joins soft-wrapped lines and keeps hard breaks', () => {
+    expect(parseMarkdown('one\ntwo  \nthree', noImages)).toEqual([
+      { type: 'paragraph', children: [text('one two'), { type: 'break' }, text('three')] },
+    ]);
+  });
+
+  it('parses bullet lists with nested numbered lists', () => {
+    const [list] = parseMarkdown('- apples\n- pears\n  3. conference\n  4. comice', noImages);
+    expect(list).toEqual({
+      type: 'list',
+      ordered: false,
+      items: [
+        [{ type: 'paragraph', children: [text('apples')] }],
+        [
+          { type: 'paragraph', children: [text('pears')] },
+          {
+            type: 'list',
+            ordered: true,
+            start: 3,
+            items: [
+              [{ type: 'paragraph', children: [text('conference')] }],
+              [{ type: 'paragraph', children: [text('comice')] }],
+            ],
+          },
+        ],
+      ],
+    });
+  });
+
+  it('ends a list at a blank line followed by unindented text', () => {
+    expect(parseMarkdown('1. one\n2. two\n\nAfter', noImages).map(block => block.type)).toEqual([
+      'list',
+      'paragraph',
+    ]);
+  });
+
+  it('parses block quotes, fenced code and rules', () => {
+    expect(parseMarkdown('> quoted\n\n```json\n{ "a": 1 }\n```\n\n***', noImages)).toEqual([
+      { type: 'blockquote', children: [{ type: 'paragraph', children: [text('quoted')] }] },
+      { type: 'code', language: 'json', value: '{ "a": 1 }' },
+      { type: 'rule' },
+    ]);
+  });
+
+  it('keeps raw HTML as text', () => {
+    expect(parseMarkdown('<script>alert(1)</script>', noImages)).toEqual([
+      { type: 'paragraph', children: [text('<script>alert(1)</script>')] },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('parses emphasis, strong, strikethrough and code', () => {
+    expect(parseInline('*a* **b** ~~c~~ `d*e*`', noImages)).toEqual([
+      { type: 'em', children: [text('a')] },
+      text(' '),
+      { type: 'strong', children: [text('b')] },
+      text(' '),
+      { type: 'del', children: [text('c')] },
+      text(' '),
+      { type: 'code', value: 'd*e*' },
+    ]);
+  });
+
+  it('nests emphasis inside strong for a triple delimiter', () => {
+    expect(parseInline('***both***', noImages)).toEqual([
+      { type: 'strong', children: [{ type: 'em', children: [text('both')] }] },
+    ]);
+  });
+
+  it('leaves intraword underscores and unmatched delimiters alone', () => {
+    expect(parseInline('snake_case_name and 2 * 3', noImages)).toEqual([
+      text('snake_case_name and 2 * 3'),
+    ]);
+  });
+
+  it('honours backslash escapes', () => {
+    expect(parseInline('\\*not em\\*', noImages)).toEqual([text('*not em*')]);
+  });
+
+  it('parses links, autolinks and bare URLs', () => {
+    expect(
+      parseInline('[site](/about "About") <https://a.test> see https://b.test.', noImages)
+    ).toEqual([
+      { type: 'link', href: '/about', children: [text('site')] },
+      text(' '),
+      { type: 'link', href: 'https://a.test', children: [text('https://a.test')] },
+      text(' see '),
+      { type: 'link', href: 'https://b.test', children: [text('https://b.test')] },
+      text('.'),
+    ]);
+  });
+
+  it('drops the link but keeps its text for an unsafe scheme', () => {
+    expect(parseInline('[click](javascript:void0) me', noImages)).toEqual([text('click me')]);
+  });
+
+  it('resolves image references against the collection', () => {
+    expect(parseInline('![Morning](image:7)', oneImage)).toEqual([
+      {
+        type: 'image',
+        contentId: 7,
+        src: 'https://cdn.test/7.webp',
+        width: 1200,
+        height: 800,
+        alt: 'Morning',
+      },
+    ]);
+  });
+
+  it('renders an image outside the collection, or a remote URL, as its alt text', () => {
+    expect(parseInline('![Gone](image:8) ![Remote](https://x.test/a.png)', oneImage)).toEqual([
+      text('Gone Remote'),
+    ]);
+  });
+});
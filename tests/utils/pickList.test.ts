@@ -0,0 +1,94 @@
+import { type ContentImageModel } from '@/app/types/Content';
+import { type ProofingClientPicks, type ProofingReview } from '@/app/types/Selects';
+import {
+  csvField,
+  fileStem,
+  lightroomFilter,
+  pickListCsv,
+  pickListFileName,
+} from '@/app/utils/pickList';
+
+const image = (id: number, overrides: Partial<ContentImageModel> = {}) =>
+  ({ id, contentType: 'IMAGE', rawFileName: `DSC_${id}.NEF`, ...overrides }) as ContentImageModel;
+
+const client = (overrides: Partial<ProofingClientPicks> = {}): ProofingClientPicks => ({
+  userId: 202,
+  displayName: 'Jane Smith',
+  email: 'jane@example.com',
+  submittedAt: '2026-10-12T09:00:00Z',
+  images: [image(142), image(7)],
+  ...overrides,
+});
+
+const review: ProofingReview = {
+  collectionId: 103,
+  title: 'Smith Wedding',
+  slug: 'smith-wedding',
+  proofingTarget: 25,
+  clients: [],
+};
+
+describe('fileStem', () => {
+  it('drops the extension only', () => {
+    expect(fileStem(image(1, { rawFileName: 'wedding.final.CR3' }))).toBe('wedding.final');
+    expect(fileStem(image(1, { rawFileName: 'README' }))).toBe('README');
+  });
+
+  it('is null when there is no file name to match on', () => {
+    expect(fileStem(image(1, { rawFileName: null }))).toBeNull();
+    expect(fileStem(image(1, { rawFileName: '  ' }))).toBeNull();
+  });
+});
+
+describe('lightroomFilter', () => {
+  it('joins unique stems in pick order and skips nameless images', () => {
+    const images = [
+      image(142),
+      image(7),
+      image(99, { rawFileName: null }),
+      image(8, { rawFileName: 'DSC_142.jpg' }),
+    ];
+    expect(lightroomFilter(images)).toBe('DSC_142, DSC_7');
+  });
+});
+
+describe('csvField', () => {
+  it('quotes fields carrying separators, quotes or line breaks', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a, b')).toBe('"a, b"');
+    expect(csvField('say "cheese"')).toBe('"say ""cheese"""');
+    expect(csvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    expect(csvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(csvField(-3)).toBe('-3');
+  });
+
+  it('writes null as an empty field', () => {
+    expect(csvField(null)).toBe('');
+  });
+});
+
+describe('pickListCsv', () => {
+  it('writes a header and one numbered row per pick', () => {
+    const csv = pickListCsv(
+      client({ images: [image(142, { title: 'First dance', captureDate: '2024-08-10' })] })
+    );
+    expect(csv).toBe(
+      '#,File name,Image ID,Title,Capture date\r\n1,DSC_142.NEF,142,First dance,2024-08-10\r\n'
+    );
+  });
+});
+
+describe('pickListFileName', () => {
+  it('names the file after the collection and the client', () => {
+    expect(pickListFileName(review, client())).toBe('smith-wedding-jane-smith-picks.csv');
+  });
+
+  it('falls back to the user id when the name has nothing usable', () => {
+    expect(pickListFileName(review, client({ displayName: '✨' }))).toBe(
+      'smith-wedding-client-202-picks.csv'
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { type RichBlock } from '@/app/types/RichText';
+import {
+  collectionImageResolver,
+  estimateRichTextSize,
+  parseRichText,
+  TEXT_BLOCK_REFERENCE_WIDTH,
+  textBlockSource,
+} from '@/app/utils/richText';
+import { createImageContent, createTextContent } from '@/tests/fixtures/contentFixtures';
+
+const noImages = () => null;
+
+describe('parseRichText', () => {
+  it('dispatches markdown and html to their parsers', () => {
+    expect(parseRichText('markdown', '## Hi', noImages)[0]).toMatchObject({ type: 'heading' });
+    expect(parseRichText('html', '<h2>Hi</h2>', noImages)[0]).toMatchObject({ type: 'heading' });
+  });
+
+  it('splits plain text into paragraphs with line breaks and no markup', () => {
+    expect(parseRichText('plain', '**not bold**\nline two\n\nnext', noImages)).toEqual([
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', value: '**not bold**' },
+          { type: 'break' },
+          { type: 'text', value: 'line two' },
+        ],
+      },
+      { type: 'paragraph', children: [{ type: 'text', value: 'next' }] },
+    ]);
+  });
+
+  it('renders code formats as a single code block', () => {
+    expect(parseRichText('json', '{"a": 1}', noImages)).toEqual([
+      { type: 'code', language: 'json', value: '{"a": 1}' },
+    ]);
+  });
+});
+
+describe('collectionImageResolver', () => {
+  it('resolves collection images with known dimensions only', () => {
+    const resolve = collectionImageResolver([
+      createImageContent(1, {
+        imageUrl: 'https://cdn.test/1.webp',
+        imageWidth: 900,
+        imageHeight: 600,
+      }),
+      createImageContent(2, { imageWidth: undefined }),
+    ]);
+    expect(resolve(1)).toEqual({
+      contentId: 1,
+      src: 'https://cdn.test/1.webp',
+      width: 900,
+      height: 600,
+    });
+    expect(resolve(2)).toBeNull();
+    expect(resolve(3)).toBeNull();
+  });
+});
+
+describe('textBlockSource', () => {
+  it('joins the block text items', () => {
+    const block = createTextContent(1, {
+      items: [
+        { type: 'text', value: 'one' },
+        { type: 'date', value: 'ignored' },
+        { type: 'text', value: 'two' },
+      ],
+    });
+    expect(textBlockSource(block)).toBe('one\n\ntwo');
+  });
+});
+
+describe('estimateRichTextSize', () => {
+  const paragraph = (value: string): RichBlock => ({
+    type: 'paragraph',
+    children: [{ type: 'text', value }],
+  });
+
+  it('declares the reference width and a floor height', () => {
+    expect(estimateRichTextSize([])).toEqual({ width: TEXT_BLOCK_REFERENCE_WIDTH, height: 80 });
+  });
+
+  it('grows with wrapped lines and with more blocks', () => {
+    const short = estimateRichTextSize([paragraph('A line.')]).height;
+    const long = estimateRichTextSize([paragraph('word '.repeat(200))]).height;
+    const two = estimateRichTextSize([paragraph('A line.'), paragraph('Another.')]).height;
+    expect(long).toBeGreaterThan(short);
+    expect(two).toBeGreaterThan(short);
+  });
+
+  it('counts an inline image at its aspect ratio within the column', () => {
+    const withImage = estimateRichTextSize([
+      {
+        type: 'paragraph',
+        children: [{ type: 'image', contentId: 1, src: 'x', alt: '', width: 1200, height: 800 }],
+      },
+    ]);
+    // 592px column (640 - 2×24 padding) at 3:2, plus the padding.
+    expect(withImage.height).toBe(Math.ceil((592 * 800) / 1200 + 48));
+  });
+
+  it('sizes code by its line count', () => {
+    const code = estimateRichTextSize([{ type: 'code', value: 'a\nb\nc\nd\ne\nf' }]);
+    expect(code.height).toBe(Math.ceil(6 * 14 * 1.5 + 24 + 48));
+  });
+});
@@ -0,0 +1,71 @@
+import { rowAt, rowOffsets, visibleRowRange, windowSegments } from '@/app/utils/rowWindow';
+
+// Ten rows of 100px: row i spans [100i, 100i + 100).
+const offsets = rowOffsets(Array.from({ length: 10 }, () => 100));
+
+describe('rowOffsets', () => {
+  it('is the prefix sum, ending at the full height', () => {
+    expect(rowOffsets([10, 20, 30])).toEqual([0, 10, 30, 60]);
+    expect(rowOffsets([])).toEqual([0]);
+  });
+});
+
+describe('rowAt', () => {
+  it('finds the row containing a y, clamped to the grid', () => {
+    expect(rowAt(offsets, 0)).toBe(0);
+    expect(rowAt(offsets, 99.9)).toBe(0);
+    expect(rowAt(offsets, 100)).toBe(1);
+    expect(rowAt(offsets, -50)).toBe(0);
+    expect(rowAt(offsets, 5000)).toBe(9);
+  });
+});
+
+describe('visibleRowRange', () => {
+  it('covers the rows overlapping the viewport, plus overscan', () => {
+    expect(visibleRowRange(offsets, 250, 450, 0)).toEqual({ start: 2, end: 5 });
+    expect(visibleRowRange(offsets, 250, 450, 2)).toEqual({ start: 0, end: 7 });
+  });
+
+  it('does not count a row that only touches the bottom edge', () => {
+    expect(visibleRowRange(offsets, 0, 300, 0)).toEqual({ start: 0, end: 3 });
+  });
+
+  it('clamps past either end and handles an empty grid', () => {
+    expect(visibleRowRange(offsets, 900, 1400, 3)).toEqual({ start: 6, end: 10 });
+    expect(visibleRowRange([0], 0, 500)).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe('windowSegments', () => {
+  it('replaces each run of unmounted rows with one spacer of their height', () => {
+    expect(windowSegments(offsets, 3, 5)).toEqual([
+      { kind: 'spacer', key: 'spacer-0-3', height: 300 },
+      { kind: 'row', index: 3 },
+      { kind: 'row', index: 4 },
+      { kind: 'spacer', key: 'spacer-5-10', height: 500 },
+    ]);
+  });
+
+  it('mounts pinned rows wherever they are, splitting the spacer around them', () => {
+    expect(windowSegments(offsets, 0, 2, [7, 42, -1])).toEqual([
+      { kind: 'row', index: 0 },
+      { kind: 'row', index: 1 },
+      { kind: 'spacer', key: 'spacer-2-7', height: 500 },
+      { kind: 'row', index: 7 },
+      { kind: 'spacer', key: 'spacer-8-10', height: 200 },
+    ]);
+  });
+
+  it('always totals the full grid height', () => {
+    const uneven = rowOffsets([40, 310, 75, 220, 90, 505]);
+    const total = windowSegments(uneven, 2, 4, [5]).reduce(
+      (sum, segment) =>
+        sum +
+        (segment.kind === 'spacer'
+          ? segment.height
+          : uneven[segment.index + 1]! - uneven[segment.index]!),
+      0
+    );
+    expect(total).toBe(uneven.at(-1));
+  });
+});
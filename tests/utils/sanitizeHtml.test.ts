@@ -0,0 +1,140 @@
+import { type RichImageResolver } from '@/app/types/RichText';
+import { decodeEntities, safeHref, sanitizeHtml } from '@/app/utils/sanitizeHtml';
+
+const noImages: RichImageResolver = () => null;
+const oneImage: RichImageResolver = contentId =>
+  contentId === 7 ? { contentId, src: 'https://cdn.test/7.webp', width: 1200, height: 800 } : null;
+
+const text = (value: string) => ({ type: 'text', value });
+const paragraph = (...children: unknown[]) => ({ type: 'paragraph', children });
+
+describe('sanitizeHtml', () => {
+  it('maps allow-listed elements onto the rich text tree', () => {
+    expect(
+      sanitizeHtml(
+        '<h2>Roll 12</h2><p>Shot on <b>Tri-X</b>, <em>pushed</em>.<br>Dev’d at home.</p><hr>',
+        noImages
+      )
+    ).toEqual([
+      { type: 'heading', level: 2, children: [text('Roll 12')] },
+      paragraph(
+        text('Shot on '),
+        { type: 'strong', children: [text('Tri-X')] },
+        text(', '),
+        { type: 'em', children: [text('pushed')] },
+        text('.'),
+        { type: 'break' },
+        text('Dev’d at home.')
+      ),
+      { type: 'rule' },
+    ]);
+  });
+
+  it('drops scripts, styles and embeds together with their contents', () => {
+    expect(
+      sanitizeHtml(
+        '<p>before</p><script>alert("<p>x</p>")</script><style>p{}</style><iframe src="//x"></iframe><p>after</p>',
+        noImages
+      )
+    ).toEqual([paragraph(text('before')), paragraph(text('after'))]);
+  });
+
+  it('strips event handlers and inline styles by keeping no attributes', () => {
+    expect(
+      sanitizeHtml(
+        '<p onclick="steal()" style="color:red">hi <span onmouseover="x()">there</span></p>',
+        noImages
+      )
+    ).toEqual([paragraph(text('hi there'))]);
+  });
+
+  it('keeps safe links and unwraps unsafe ones', () => {
+    expect(
+      sanitizeHtml(
+        '<p><a href="https://ok.test" target="_self">ok</a> <a href="JaVa&#x09;script:alert(1)">bad</a></p>',
+        noImages
+      )
+    ).toEqual([
+      paragraph({ type: 'link', href: 'https://ok.test', children: [text('ok')] }, text(' bad')),
+    ]);
+  });
+
+  it('only resolves images referencing the collection', () => {
+    expect(
+      sanitizeHtml(
+        '<p><img src="image:7" alt="Dunes" onerror="x()"><img src="https://tracker.test/p.gif"></p>',
+        oneImage
+      )
+    ).toEqual([
+      paragraph({
+        type: 'image',
+        contentId: 7,
+        src: 'https://cdn.test/7.webp',
+        width: 1200,
+        height: 800,
+        alt: 'Dunes',
+      }),
+    ]);
+  });
+
+  it('wraps loose inline content into paragraphs and flattens layout wrappers', () => {
+    expect(
+      sanitizeHtml('Intro <i>text</i><div><section><p>Inside</p></section></div>', noImages)
+    ).toEqual([
+      paragraph(text('Intro '), { type: 'em', children: [text('text')] }),
+      paragraph(text('Inside')),
+    ]);
+  });
+
+  it('parses lists, quotes and preformatted code', () => {
+    expect(
+      sanitizeHtml(
+        '<ol start="3"><li>three</li><li>four</li></ol><blockquote><p>q</p></blockquote><pre><code class="language-css">a { }\n</code></pre>',
+        noImages
+      )
+    ).toEqual([
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [[paragraph(text('three'))], [paragraph(text('four'))]],
+      },
+      { type: 'blockquote', children: [paragraph(text('q'))] },
+      { type: 'code', language: 'css', value: 'a { }' },
+    ]);
+  });
+
+  it('finds a raw-text close tag in any case, past text whose lower case is longer', () => {
+    expect(sanitizeHtml('<p>İİİİ<SCRIPT>x()</Script> after</p>', noImages)).toEqual([
+      paragraph(text('İİİİ after')),
+    ]);
+  });
+
+  it('tolerates unclosed and stray tags', () => {
+    expect(sanitizeHtml('<p><b>bold</p></b> tail', noImages)).toEqual([
+      paragraph({ type: 'strong', children: [text('bold')] }),
+      paragraph(text('tail')),
+    ]);
+  });
+});
+
+describe('safeHref', () => {
+  it.each(['https://a.test', 'http://a.test', 'mailto:me@a.test', '/about', '#top', 'page'])(
+    'allows %s',
+    href => expect(safeHref(href)).toBe(href)
+  );
+
+  it.each([
+    'javascript:alert(1)',
+    ' JAVASCRIPT:x',
+    'java\nscript:x',
+    'data:text/html,x',
+    'vbscript:x',
+  ])('rejects %j', href => expect(safeHref(href)).toBeNull());
+});
+
+describe('decodeEntities', () => {
+  it('decodes named and numeric entities and leaves unknown ones', () => {
+    expect(decodeEntities('&lt;b&gt; &amp; &#8212; &#x2019; &bogus;')).toBe('<b> & — ’ &bogus;');
+  });
+});
@@ -0,0 +1,132 @@
+import { buildTransform } from '@/app/utils/imageZoomPan';
+import {
+  DEFAULT_SLIDESHOW_SETTINGS,
+  KEN_BURNS,
+  kenBurnsMotion,
+  parseSlideshowParam,
+  serializeSlideshowSettings,
+  shuffleOrder,
+  stepSlide,
+  upcomingSlides,
+} from '@/app/utils/slideshow';
+
+/** A deterministic stand-in for Math.random that walks a fixed list of draws. */
+const draws = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length]!;
+};
+
+describe('slideshow helpers', () => {
+  describe('parseSlideshowParam', () => {
+    it('is null when the param is absent', () => {
+      expect(parseSlideshowParam(null)).toBeNull();
+    });
+
+    it('starts the defaults for a bare or flag-style value', () => {
+      expect(parseSlideshowParam('')).toEqual(DEFAULT_SLIDESHOW_SETTINGS);
+      expect(parseSlideshowParam('1')).toEqual(DEFAULT_SLIDESHOW_SETTINGS);
+    });
+
+    it('reads the interval, transition, shuffle and once tokens in any order', () => {
+      expect(parseSlideshowParam('shuffle,KenBurns,8,once')).toEqual({
+        intervalMs: 8000,
+        transition: 'kenburns',
+        shuffle: true,
+        loop: false,
+      });
+    });
+
+    it('caps the interval and ignores unknown tokens', () => {
+      expect(parseSlideshowParam('600,sparkle')).toEqual({
+        ...DEFAULT_SLIDESHOW_SETTINGS,
+        intervalMs: 60_000,
+      });
+    });
+  });
+
+  describe('serializeSlideshowSettings', () => {
+    it('round-trips through parseSlideshowParam', () => {
+      const settings = {
+        intervalMs: 12_000,
+        transition: 'cut' as const,
+        shuffle: true,
+        loop: false,
+      };
+      expect(serializeSlideshowSettings(settings)).toBe('12,cut,shuffle,once');
+      expect(parseSlideshowParam(serializeSlideshowSettings(settings))).toEqual(settings);
+    });
+
+    it('leaves the default flags out', () => {
+      expect(serializeSlideshowSettings(DEFAULT_SLIDESHOW_SETTINGS)).toBe('5,crossfade');
+    });
+  });
+
+  describe('shuffleOrder', () => {
+    it('starts on the given index and covers every slide once', () => {
+      const order = shuffleOrder(6, 3, draws(0.1, 0.9, 0.5, 0.3));
+      expect(order[0]).toBe(3);
+      expect([...order].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it('is deterministic for the same draws', () => {
+      expect(shuffleOrder(5, 0, draws(0.7, 0.2))).toEqual(shuffleOrder(5, 0, draws(0.7, 0.2)));
+    });
+  });
+
+  describe('stepSlide', () => {
+    it('walks collection order and stops at the ends without loop', () => {
+      expect(stepSlide(1, 3, null, false, 1)).toBe(2);
+      expect(stepSlide(2, 3, null, false, 1)).toBeNull();
+      expect(stepSlide(0, 3, null, false, -1)).toBeNull();
+    });
+
+    it('wraps both ways with loop', () => {
+      expect(stepSlide(2, 3, null, true, 1)).toBe(0);
+      expect(stepSlide(0, 3, null, true, -1)).toBe(2);
+    });
+
+    it('follows a shuffled order', () => {
+      const order = [2, 0, 3, 1];
+      expect(stepSlide(2, 4, order, false, 1)).toBe(0);
+      expect(stepSlide(1, 4, order, true, 1)).toBe(2);
+      expect(stepSlide(0, 4, order, false, -1)).toBe(2);
+    });
+
+    it('ignores an order that no longer matches the list', () => {
+      expect(stepSlide(1, 4, [1, 0], false, 1)).toBe(2);
+    });
+
+    it('has nowhere to go with a single slide', () => {
+      expect(stepSlide(0, 1, null, true, 1)).toBeNull();
+    });
+  });
+
+  describe('upcomingSlides', () => {
+    it('lists the next slides in play order, wrapping with loop', () => {
+      expect(upcomingSlides(3, 5, null, true, 3)).toEqual([4, 0, 1]);
+    });
+
+    it('stops at the end without loop', () => {
+      expect(upcomingSlides(3, 5, null, false, 3)).toEqual([4]);
+    });
+
+    it('never comes back round to the current slide', () => {
+      expect(upcomingSlides(0, 3, null, true, 5)).toEqual([1, 2]);
+    });
+  });
+
+  describe('kenBurnsMotion', () => {
+    it('pushes in on even slides and pulls out on odd ones', () => {
+      const still = buildTransform(1, 0, 0);
+      expect(kenBurnsMotion(0).from).toBe(still);
+      expect(kenBurnsMotion(0).to).toBe(
+        buildTransform(KEN_BURNS.scale, -KEN_BURNS.drift, -KEN_BURNS.drift)
+      );
+      expect(kenBurnsMotion(1).to).toBe(still);
+    });
+
+    it('varies the drift direction from slide to slide', () => {
+      expect(kenBurnsMotion(0).to).not.toBe(kenBurnsMotion(2).to);
+    });
+  });
+});
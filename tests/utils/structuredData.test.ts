@@ -0,0 +1,189 @@
+import { CollectionVisibility } from '@/app/types/CollectionVisibility';
+import {
+  absoluteUrl,
+  breadcrumbJsonLd,
+  collectionJsonLd,
+  collectionPath,
+  imageGalleryJsonLd,
+  isIndexableCollection,
+  MAX_GALLERY_PHOTOGRAPHS,
+  photographJsonLd,
+  serializeJsonLd,
+} from '@/app/utils/structuredData';
+import { createImageContent, createTextContent } from '@/tests/fixtures/contentFixtures';
+
+const ORIGINAL_APP_URL = process.env.NEXT_PUBLIC_APP_URL;
+
+beforeEach(() => {
+  process.env.NEXT_PUBLIC_APP_URL = 'https://photos.test/';
+});
+
+afterAll(() => {
+  process.env.NEXT_PUBLIC_APP_URL = ORIGINAL_APP_URL;
+});
+
+describe('URLs', () => {
+  it('resolves paths against the public origin', () => {
+    expect(absoluteUrl('/film')).toBe('https://photos.test/film');
+    expect(absoluteUrl('film')).toBe('https://photos.test/film');
+  });
+
+  it('serves the home singleton at the root', () => {
+    expect(collectionPath('home')).toBe('/');
+    expect(collectionPath('film')).toBe('/film');
+  });
+});
+
+describe('isIndexableCollection', () => {
+  it.each([
+    [CollectionVisibility.LISTED, undefined, true],
+    [CollectionVisibility.LISTED, false, true],
+    [CollectionVisibility.LISTED, true, false],
+    [CollectionVisibility.UNLISTED, false, false],
+    [CollectionVisibility.HIDDEN, false, false],
+    [undefined, false, false],
+  ])('visibility %s, protected %s → %s', (visibility, isPasswordProtected, expected) => {
+    expect(isIndexableCollection({ visibility, isPasswordProtected })).toBe(expected);
+  });
+});
+
+describe('photographJsonLd', () => {
+  it('describes the image with its EXIF settings, place and tags', () => {
+    const image = createImageContent(7, {
+      title: 'Dunes at dawn',
+      caption: 'First light',
+      imageUrl: 'https://cdn.test/7.webp',
+      imageWidth: 1200,
+      imageHeight: 800,
+      captureDate: '2025-05-01',
+      camera: { id: 1, name: 'Leica M6' },
+      lens: { id: 2, name: 'Summicron 35' },
+      focalLength: '35mm',
+      fStop: 'f/8',
+      shutterSpeed: '1/250',
+      iso: 400,
+      filmType: 'Kodak Portra 400',
+      locations: [{ id: 3, name: 'Death Valley', slug: 'death-valley' }],
+      tags: [
+        { id: 4, name: 'desert', slug: 'desert' },
+        { id: 5, name: 'dawn', slug: 'dawn' },
+      ],
+    });
+
+    expect(photographJsonLd(image, '/film')).toEqual({
+      '@type': 'Photograph',
+      '@id': 'https://photos.test/film?image=7',
+      url: 'https://photos.test/film?image=7',
+      name: 'Dunes at dawn',
+      caption: 'First light',
+      dateCreated: '2025-05-01',
+      creator: { '@type': 'Person', name: 'Zac Edens' },
+      keywords: 'desert, dawn',
+      contentLocation: { '@type': 'Place', name: 'Death Valley' },
+      image: {
+        '@type': 'ImageObject',
+        contentUrl: 'https://cdn.test/7.webp',
+        width: 1200,
+        height: 800,
+        exifData: [
+          { '@type': 'PropertyValue', name: 'Camera', value: 'Leica M6' },
+          { '@type': 'PropertyValue', name: 'Lens', value: 'Summicron 35' },
+          { '@type': 'PropertyValue', name: 'Focal length', value: '35mm' },
+          { '@type': 'PropertyValue', name: 'F-number', value: 'f/8' },
+          { '@type': 'PropertyValue', name: 'Exposure time', value: '1/250' },
+          { '@type': 'PropertyValue', name: 'ISO', value: 400 },
+          { '@type': 'PropertyValue', name: 'Film', value: 'Kodak Portra 400' },
+        ],
+      },
+    });
+  });
+
+  it('omits what the image does not carry, and never names it after its file', () => {
+    const image = createImageContent(8, {
+      title: 'IMG_0042.jpg',
+      caption: undefined,
+      alt: undefined,
+      imageUrl: 'https://cdn.test/8.webp',
+      locations: [],
+    });
+    const photograph = photographJsonLd(image, '/film');
+
+    expect(photograph).not.toHaveProperty('name');
+    expect(photograph).not.toHaveProperty('contentLocation');
+    expect(photograph.image).not.toHaveProperty('exifData');
+  });
+});
+
+describe('imageGalleryJsonLd', () => {
+  it('lists the photographs in page order, up to the cap', () => {
+    const images = Array.from({ length: MAX_GALLERY_PHOTOGRAPHS + 5 }, (_, index) =>
+      createImageContent(index + 1)
+    );
+    const gallery = imageGalleryJsonLd({ name: 'Desert', path: '/tag/desert', images });
+
+    expect(gallery).toMatchObject({
+      '@context': 'https://schema.org',
+      '@type': 'ImageGallery',
+      name: 'Desert',
+      url: 'https://photos.test/tag/desert',
+    });
+    expect(gallery.hasPart).toHaveLength(MAX_GALLERY_PHOTOGRAPHS);
+    expect((gallery.hasPart as { url: string }[])[0]?.url).toBe(
+      'https://photos.test/tag/desert?image=1'
+    );
+  });
+});
+
+describe('breadcrumbJsonLd', () => {
+  it('starts the trail at the home page', () => {
+    expect(breadcrumbJsonLd([{ name: 'Film', path: '/film' }]).itemListElement).toEqual([
+      { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://photos.test/' },
+      { '@type': 'ListItem', position: 2, name: 'Film', item: 'https://photos.test/film' },
+    ]);
+  });
+});
+
+describe('collectionJsonLd', () => {
+  const collection = {
+    title: 'Roll 12',
+    slug: 'roll-12',
+    description: 'Tri-X, pushed a stop',
+    parents: [{ id: 2, name: 'Film', slug: 'film' }],
+    content: [
+      createImageContent(1),
+      createImageContent(2, { visible: false }),
+      createTextContent(3),
+    ],
+  };
+
+  it('describes the public images and the trail through the parent', () => {
+    const [gallery, breadcrumb] = collectionJsonLd(collection);
+
+    expect((gallery?.hasPart as { '@id': string }[]).map(part => part['@id'])).toEqual([
+      'https://photos.test/roll-12?image=1',
+    ]);
+    expect((breadcrumb?.itemListElement as { name: string }[]).map(crumb => crumb.name)).toEqual([
+      'Home',
+      'Film',
+      'Roll 12',
+    ]);
+  });
+
+  it('adds the deep-linked photograph, but only when the page shows it', () => {
+    expect(collectionJsonLd(collection, 1)[2]).toMatchObject({
+      '@context': 'https://schema.org',
+      '@type': 'Photograph',
+      '@id': 'https://photos.test/roll-12?image=1',
+    });
+    expect(collectionJsonLd(collection, 2)).toHaveLength(2);
+  });
+});
+
+describe('serializeJsonLd', () => {
+  it('escapes markup so a caption cannot close the script element', () => {
+    const serialized = serializeJsonLd({ caption: '</script><script>alert(1)</script>' });
+
+    expect(serialized).not.toContain('<');
+    expect(JSON.parse(serialized)).toEqual({ caption: '</script><script>alert(1)</script>' });
+  });
+});